@@ -1 +1,2 @@
 /// <reference types="@electron-forge/plugin-vite/forge-vite-env" />
+/// <reference types="vite/client" />
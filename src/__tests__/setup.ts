@@ -42,6 +42,44 @@ const electronAPIMock = {
   deleteSavedFilter: vi.fn().mockResolvedValue(undefined),
   clearRecentFilters: vi.fn().mockResolvedValue(undefined),
   deleteAllHistory: vi.fn().mockResolvedValue(undefined),
+
+  // Export API
+  startExport: vi.fn().mockResolvedValue({ canceled: true, jobId: null, filePath: null }),
+  resumeExport: vi.fn().mockResolvedValue(undefined),
+  cancelExport: vi.fn().mockResolvedValue(undefined),
+  listExportJobs: vi.fn().mockResolvedValue([]),
+  onExportProgress: vi.fn().mockReturnValue(vi.fn()),
+
+  // Import API
+  getPathForFile: vi.fn().mockReturnValue('/tmp/import.ndjson'),
+  previewImportFile: vi.fn().mockResolvedValue({
+    filePath: '/tmp/import.ndjson',
+    fileName: 'import.ndjson',
+    format: 'ndjson',
+    fileSize: 0,
+    columns: [],
+    sampleRows: [],
+  }),
+  startImport: vi.fn().mockResolvedValue('import-job'),
+  cancelImport: vi.fn().mockResolvedValue(undefined),
+  onImportProgress: vi.fn().mockReturnValue(vi.fn()),
+
+  // Embedding API
+  getEmbeddingConfig: vi.fn().mockResolvedValue(null),
+  saveEmbeddingConfig: vi.fn().mockResolvedValue(null),
+  deleteEmbeddingConfig: vi.fn().mockResolvedValue(undefined),
+  testEmbeddingConfig: vi.fn().mockResolvedValue({ success: true, message: 'ok' }),
+  embedTexts: vi.fn().mockResolvedValue([]),
+
+  // Recall API
+  loadRecallHistory: vi.fn().mockResolvedValue([]),
+  addRecallRun: vi.fn().mockResolvedValue([]),
+  clearRecallHistory: vi.fn().mockResolvedValue(undefined),
+
+  // Migration API
+  startMigration: vi.fn().mockResolvedValue('migration-job'),
+  cancelMigration: vi.fn().mockResolvedValue(undefined),
+  onMigrationProgress: vi.fn().mockReturnValue(vi.fn()),
 };
 
 Object.defineProperty(window, 'electronAPI', {
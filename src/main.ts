@@ -5,6 +5,13 @@ import { setupConnectionHandlers } from './main/ipc/connectionHandlers';
 import { setupSettingsHandlers } from './main/ipc/settingsHandlers';
 import { setupFileHandlers } from './main/ipc/fileHandlers';
 import { setupUpdateHandlers } from './main/ipc/updateHandlers';
+import { setupExportHandlers } from './main/ipc/exportHandlers';
+import { setupImportHandlers } from './main/ipc/importHandlers';
+import { setupEmbeddingHandlers } from './main/ipc/embeddingHandlers';
+import { setupRecallHandlers } from './main/ipc/recallHandlers';
+import { setupMigrationHandlers } from './main/ipc/migrationHandlers';
+import { setupWriteJournalHandlers } from './main/ipc/writeJournalHandlers';
+import { setupAuditHandlers } from './main/ipc/auditHandlers';
 
 // Handle creating/removing shortcuts on Windows when installing/uninstalling.
 if (started) {
@@ -85,6 +92,13 @@ app.on('ready', () => {
   setupSettingsHandlers();
   setupFileHandlers();
   setupUpdateHandlers();
+  setupExportHandlers();
+  setupImportHandlers();
+  setupEmbeddingHandlers();
+  setupRecallHandlers();
+  setupMigrationHandlers();
+  setupWriteJournalHandlers();
+  setupAuditHandlers();
   createWindow();
 });
 
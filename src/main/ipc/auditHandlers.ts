@@ -0,0 +1,43 @@
+import { ipcMain, dialog, BrowserWindow } from 'electron';
+import { AuditLogService } from '../services/auditLogService';
+import type { AuditEventInput, AuditExportFormat, AuditLogFilter } from '../../types/audit';
+
+export function setupAuditHandlers() {
+  const auditLogService = AuditLogService.getInstance();
+
+  ipcMain.handle('audit:record', async (_, event: AuditEventInput) => {
+    try {
+      await auditLogService.record(event);
+    } catch (error) {
+      throw new Error(`Failed to write audit log: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  });
+
+  ipcMain.handle('audit:query', async (_, filter: AuditLogFilter, limit?: number) => {
+    try {
+      return await auditLogService.query(filter, limit);
+    } catch (error) {
+      throw new Error(`Failed to read audit log: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  });
+
+  ipcMain.handle('audit:export', async (_, filter: AuditLogFilter, format: AuditExportFormat) => {
+    const window = BrowserWindow.getFocusedWindow();
+    const extension = format === 'csv' ? 'csv' : 'jsonl';
+    const result = await dialog.showSaveDialog(window!, {
+      defaultPath: `audit-log-${new Date().toISOString().slice(0, 10)}.${extension}`,
+      filters: [{ name: format === 'csv' ? 'CSV' : 'JSON Lines', extensions: [extension] }],
+    });
+
+    if (result.canceled || !result.filePath) {
+      return { canceled: true, filePath: null, count: 0 };
+    }
+
+    try {
+      const count = await auditLogService.exportToFile(filter, format, result.filePath);
+      return { canceled: false, filePath: result.filePath, count };
+    } catch (error) {
+      throw new Error(`Failed to export audit log: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  });
+}
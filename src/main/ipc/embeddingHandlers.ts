@@ -0,0 +1,43 @@
+import { ipcMain } from 'electron';
+import { EmbeddingService } from '../services/embeddingService';
+import type { EmbeddingConfigInput } from '../../types/embedding';
+
+export function setupEmbeddingHandlers() {
+  const embeddingService = EmbeddingService.getInstance();
+
+  ipcMain.handle('embedding:getConfig', async (_, connectionId: string) => {
+    try {
+      return await embeddingService.getConfig(connectionId);
+    } catch (error) {
+      throw new Error(`Failed to load embedding provider: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  });
+
+  ipcMain.handle('embedding:saveConfig', async (_, connectionId: string, config: EmbeddingConfigInput) => {
+    try {
+      return await embeddingService.saveConfig(connectionId, config);
+    } catch (error) {
+      throw new Error(`Failed to save embedding provider: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  });
+
+  ipcMain.handle('embedding:deleteConfig', async (_, connectionId: string) => {
+    try {
+      await embeddingService.deleteConfig(connectionId);
+    } catch (error) {
+      throw new Error(`Failed to remove embedding provider: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  });
+
+  ipcMain.handle('embedding:test', async (_, connectionId: string, config: EmbeddingConfigInput) => {
+    return embeddingService.testConfig(connectionId, config);
+  });
+
+  ipcMain.handle('embedding:embed', async (_, connectionId: string, texts: string[]) => {
+    try {
+      return await embeddingService.embed(connectionId, texts);
+    } catch (error) {
+      throw new Error(`Failed to embed text: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  });
+}
@@ -0,0 +1,66 @@
+import { ipcMain, dialog, BrowserWindow, IpcMainInvokeEvent } from 'electron';
+import { ExportService } from '../services/exportService';
+import { EXPORT_FILE_EXTENSIONS } from '../services/exportFormats';
+import type { ExportJobOptions, ExportProgress } from '../../types/export';
+
+const FORMAT_FILTER_NAMES: Record<ExportJobOptions['format'], string> = {
+  ndjson: 'NDJSON Files',
+  csv: 'CSV Files',
+  parquet: 'Parquet Files',
+};
+
+// Progress goes back to the window that started (or resumed) the job
+const progressSender = (event: IpcMainInvokeEvent) => (progress: ExportProgress) => {
+  if (!event.sender.isDestroyed()) {
+    event.sender.send('export:progress', progress);
+  }
+};
+
+export function setupExportHandlers() {
+  const exportService = ExportService.getInstance();
+
+  ipcMain.handle('export:start', async (event, options: ExportJobOptions) => {
+    const extension = EXPORT_FILE_EXTENSIONS[options.format];
+    const window = BrowserWindow.fromWebContents(event.sender) ?? BrowserWindow.getFocusedWindow();
+
+    const result = await dialog.showSaveDialog(window!, {
+      defaultPath: `export_${options.namespaceId}_${Date.now()}.${extension}`,
+      filters: [{ name: FORMAT_FILTER_NAMES[options.format], extensions: [extension] }],
+    });
+
+    if (result.canceled || !result.filePath) {
+      return { canceled: true, jobId: null, filePath: null };
+    }
+
+    try {
+      const jobId = await exportService.startExport(options, result.filePath, progressSender(event));
+      return { canceled: false, jobId, filePath: result.filePath };
+    } catch (error) {
+      throw new Error(`Failed to start export: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  });
+
+  ipcMain.handle('export:resume', async (event, jobId: string) => {
+    try {
+      await exportService.resumeExport(jobId, progressSender(event));
+    } catch (error) {
+      throw new Error(`Failed to resume export: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  });
+
+  ipcMain.handle('export:cancel', async (_, jobId: string) => {
+    try {
+      await exportService.cancelExport(jobId);
+    } catch (error) {
+      throw new Error(`Failed to cancel export: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  });
+
+  ipcMain.handle('export:list', async () => {
+    try {
+      return await exportService.listJobs();
+    } catch (error) {
+      throw new Error(`Failed to list exports: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  });
+}
@@ -0,0 +1,38 @@
+import { ipcMain, IpcMainInvokeEvent } from 'electron';
+import { ImportService } from '../services/importService';
+import type { ImportJobOptions, ImportProgress } from '../../types/import';
+
+// Progress goes back to the window that started the job
+const progressSender = (event: IpcMainInvokeEvent) => (progress: ImportProgress) => {
+  if (!event.sender.isDestroyed()) {
+    event.sender.send('import:progress', progress);
+  }
+};
+
+export function setupImportHandlers() {
+  const importService = ImportService.getInstance();
+
+  ipcMain.handle('import:preview', async (_, filePath: string) => {
+    try {
+      return await importService.previewFile(filePath);
+    } catch (error) {
+      throw new Error(`Failed to read import file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  });
+
+  ipcMain.handle('import:start', async (event, options: ImportJobOptions) => {
+    try {
+      return await importService.startImport(options, progressSender(event));
+    } catch (error) {
+      throw new Error(`Failed to start import: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  });
+
+  ipcMain.handle('import:cancel', async (_, jobId: string) => {
+    try {
+      await importService.cancelImport(jobId);
+    } catch (error) {
+      throw new Error(`Failed to cancel import: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  });
+}
@@ -0,0 +1,30 @@
+import { ipcMain, IpcMainInvokeEvent } from 'electron';
+import { MigrationService } from '../services/migrationService';
+import type { MigrationJobOptions, MigrationProgress } from '../../types/migration';
+
+// Progress goes back to the window that started the job
+const progressSender = (event: IpcMainInvokeEvent) => (progress: MigrationProgress) => {
+  if (!event.sender.isDestroyed()) {
+    event.sender.send('migration:progress', progress);
+  }
+};
+
+export function setupMigrationHandlers() {
+  const migrationService = MigrationService.getInstance();
+
+  ipcMain.handle('migration:start', async (event, options: MigrationJobOptions) => {
+    try {
+      return await migrationService.startMigration(options, progressSender(event));
+    } catch (error) {
+      throw new Error(`Failed to start migration: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  });
+
+  ipcMain.handle('migration:cancel', async (_, jobId: string) => {
+    try {
+      await migrationService.cancelMigration(jobId);
+    } catch (error) {
+      throw new Error(`Failed to cancel migration: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  });
+}
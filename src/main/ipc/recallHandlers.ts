@@ -0,0 +1,31 @@
+import { ipcMain } from 'electron';
+import { RecallHistoryService } from '../services/recallHistoryService';
+import type { RecallRun } from '../../types/recall';
+
+export function setupRecallHandlers() {
+  const recallHistoryService = RecallHistoryService.getInstance();
+
+  ipcMain.handle('recall:loadHistory', async (_, connectionId: string, namespaceId: string) => {
+    try {
+      return await recallHistoryService.loadHistory(connectionId, namespaceId);
+    } catch (error) {
+      throw new Error(`Failed to load recall history: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  });
+
+  ipcMain.handle('recall:addRun', async (_, connectionId: string, namespaceId: string, run: RecallRun) => {
+    try {
+      return await recallHistoryService.addRun(connectionId, namespaceId, run);
+    } catch (error) {
+      throw new Error(`Failed to save recall run: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  });
+
+  ipcMain.handle('recall:clearHistory', async (_, connectionId: string, namespaceId: string) => {
+    try {
+      await recallHistoryService.clearHistory(connectionId, namespaceId);
+    } catch (error) {
+      throw new Error(`Failed to clear recall history: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  });
+}
@@ -0,0 +1,50 @@
+import { ipcMain } from 'electron';
+import { WriteJournalService } from '../services/writeJournalService';
+import type { WriteSnapshotRequest } from '../../types/writeJournal';
+
+export function setupWriteJournalHandlers() {
+  const writeJournalService = WriteJournalService.getInstance();
+
+  ipcMain.handle('writeJournal:capture', async (_, request: WriteSnapshotRequest) => {
+    try {
+      return await writeJournalService.captureSnapshot(request);
+    } catch (error) {
+      throw new Error(`Failed to capture documents before the write: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  });
+
+  ipcMain.handle(
+    'writeJournal:complete',
+    async (_, connectionId: string, entryId: string, result: { rowsAffected?: number; error?: string }) => {
+      try {
+        return await writeJournalService.completeEntry(connectionId, entryId, result);
+      } catch (error) {
+        throw new Error(`Failed to update write journal: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+  );
+
+  ipcMain.handle('writeJournal:list', async (_, connectionId: string) => {
+    try {
+      return await writeJournalService.listEntries(connectionId);
+    } catch (error) {
+      throw new Error(`Failed to load write journal: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  });
+
+  ipcMain.handle('writeJournal:undo', async (_, connectionId: string, entryId: string) => {
+    try {
+      return await writeJournalService.undoEntry(connectionId, entryId);
+    } catch (error) {
+      throw new Error(`Failed to undo write: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  });
+
+  ipcMain.handle('writeJournal:clear', async (_, connectionId: string) => {
+    try {
+      await writeJournalService.clearJournal(connectionId);
+    } catch (error) {
+      throw new Error(`Failed to clear write journal: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  });
+}
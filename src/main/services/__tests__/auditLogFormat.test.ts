@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { encodeAuditCsv, encodeAuditJsonl, matchesAuditFilter, summarizeAuditPayload } from '../auditLogFormat';
+import type { AuditEntry } from '../../../types/audit';
+
+const entry = (overrides: Partial<AuditEntry> = {}): AuditEntry => ({
+  id: 'e1',
+  connectionId: 'prod',
+  connectionName: 'Production',
+  namespaceId: 'products-v2',
+  operation: 'delete_by_filter',
+  summary: 'Delete by filter',
+  payload: { filter: ['status', 'Eq', 'archived'] },
+  rowCount: 120,
+  startedAt: Date.UTC(2026, 0, 15, 12),
+  durationMs: 340,
+  outcome: 'success',
+  operator: 'alice',
+  ...overrides,
+});
+
+describe('summarizeAuditPayload', () => {
+  it('keeps the first ids with a count and passes other fields through', () => {
+    const ids = Array.from({ length: 80 }, (_, i) => i);
+    const summary = summarizeAuditPayload({ ids, attributes: ['title'] });
+    expect(summary.idCount).toBe(80);
+    expect(summary.ids).toHaveLength(50);
+    expect(summary.attributes).toEqual(['title']);
+  });
+
+  it('truncates very large filters', () => {
+    const filter = ['id', 'In', Array.from({ length: 1000 }, (_, i) => `doc-${i}`)];
+    expect(summarizeAuditPayload({ filter }).filter).toMatch(/\.\.\.$/);
+    expect(summarizeAuditPayload({ filter: ['a', 'Eq', 1] }).filter).toEqual(['a', 'Eq', 1]);
+  });
+});
+
+describe('matchesAuditFilter', () => {
+  it('applies each criterion', () => {
+    const e = entry();
+    expect(matchesAuditFilter(e, {})).toBe(true);
+    expect(matchesAuditFilter(e, { connectionId: 'staging' })).toBe(false);
+    expect(matchesAuditFilter(e, { namespaceId: 'PRODUCTS' })).toBe(true);
+    expect(matchesAuditFilter(e, { operations: ['upsert', 'patch'] })).toBe(false);
+    expect(matchesAuditFilter(e, { outcome: 'failure' })).toBe(false);
+    expect(matchesAuditFilter(e, { from: e.startedAt, to: e.startedAt + 1 })).toBe(true);
+    expect(matchesAuditFilter(e, { to: e.startedAt })).toBe(false);
+    expect(matchesAuditFilter(e, { search: 'archived' })).toBe(true);
+    expect(matchesAuditFilter(e, { search: 'bob' })).toBe(false);
+  });
+});
+
+describe('encodeAuditCsv', () => {
+  it('writes a header and one escaped row per entry', () => {
+    const csv = encodeAuditCsv([entry({ summary: 'Patch title, body by filter' })]);
+    const [header, row] = csv.split('\r\n');
+    expect(header.split(',')[0]).toBe('id');
+    expect(row).toContain('2026-01-15T12:00:00.000Z');
+    expect(row).toContain('"Patch title, body by filter"');
+    expect(row).toContain('"{""filter"":[""status"",""Eq"",""archived""]}"');
+  });
+});
+
+describe('encodeAuditJsonl', () => {
+  it('writes one JSON object per line', () => {
+    const lines = encodeAuditJsonl([entry(), entry({ id: 'e2' })]).trim().split('\n');
+    expect(lines.map(line => JSON.parse(line).id)).toEqual(['e1', 'e2']);
+  });
+});
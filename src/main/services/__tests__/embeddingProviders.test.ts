@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  chunkTexts,
+  createEmbeddingProvider,
+  embeddingsUrl,
+  parseEmbeddingResponse,
+} from '../embeddingProviders';
+
+const config = {
+  type: 'openai-compatible' as const,
+  baseUrl: 'http://localhost:11434/v1/',
+  model: 'nomic-embed-text',
+  batchSize: 2,
+};
+
+describe('embeddingsUrl', () => {
+  it('appends the embeddings path once', () => {
+    expect(embeddingsUrl('https://api.openai.com/v1')).toBe('https://api.openai.com/v1/embeddings');
+    expect(embeddingsUrl('http://localhost:8080/v1/')).toBe('http://localhost:8080/v1/embeddings');
+    expect(embeddingsUrl('http://proxy/embeddings')).toBe('http://proxy/embeddings');
+  });
+});
+
+describe('parseEmbeddingResponse', () => {
+  it('orders embeddings by index', () => {
+    const body = {
+      data: [
+        { index: 1, embedding: [0.3, 0.4] },
+        { index: 0, embedding: [0.1, 0.2] },
+      ],
+    };
+    expect(parseEmbeddingResponse(body, 2)).toEqual([[0.1, 0.2], [0.3, 0.4]]);
+  });
+
+  it('rejects malformed responses', () => {
+    expect(() => parseEmbeddingResponse({}, 1)).toThrow('missing "data"');
+    expect(() => parseEmbeddingResponse({ data: [] }, 1)).toThrow('returned 0 embeddings for 1 inputs');
+    expect(() => parseEmbeddingResponse({ data: [{ index: 0, embedding: 'AAAA' }] }, 1))
+      .toThrow('base64 encoding is not supported');
+  });
+
+  it('rejects duplicate indexes', () => {
+    const body = {
+      data: [
+        { index: 0, embedding: [0.1] },
+        { index: 0, embedding: [0.2] },
+        { index: 2, embedding: [0.3] },
+      ],
+    };
+    expect(() => parseEmbeddingResponse(body, 3)).toThrow('returned index 0 more than once');
+  });
+
+  it('rejects indexes outside the inputs', () => {
+    const embedding = [0.1];
+    const data = (indexes: unknown[]) => ({ data: indexes.map(index => ({ index, embedding })) });
+    expect(() => parseEmbeddingResponse(data([0, 1, 5]), 3)).toThrow('returned index 5 for 3 inputs');
+    expect(() => parseEmbeddingResponse(data([-1, 1]), 2)).toThrow('returned index -1 for 2 inputs');
+    expect(() => parseEmbeddingResponse(data([0, 1.5]), 2)).toThrow('returned index 1.5 for 2 inputs');
+    expect(() => parseEmbeddingResponse(data(['0', 1]), 2)).toThrow('returned index "0" for 2 inputs');
+  });
+});
+
+describe('chunkTexts', () => {
+  it('splits inputs into request-sized chunks', () => {
+    expect(chunkTexts(['a', 'b', 'c'], 2)).toEqual([['a', 'b'], ['c']]);
+    expect(chunkTexts([], 2)).toEqual([]);
+  });
+});
+
+describe('OpenAICompatibleProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('batches requests and sends the key only when set', async () => {
+    const fetchMock = vi.fn().mockImplementation(async (_url: string, init: RequestInit) => {
+      const { input } = JSON.parse(init.body as string);
+      return new Response(JSON.stringify({
+        data: input.map((text: string, index: number) => ({ index, embedding: [text.length] })),
+      }));
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const vectors = await createEmbeddingProvider(config).embed(['a', 'bb', 'ccc']);
+
+    expect(vectors).toEqual([[1], [2], [3]]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:11434/v1/embeddings');
+    expect(init.headers).not.toHaveProperty('Authorization');
+    expect(JSON.parse(init.body)).toEqual({ model: 'nomic-embed-text', input: ['a', 'bb'] });
+  });
+
+  it('surfaces the provider error message and status', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(
+      new Response(JSON.stringify({ error: { message: 'Incorrect API key' } }), { status: 401 })
+    ));
+
+    await expect(createEmbeddingProvider(config, 'bad-key').embed(['a']))
+      .rejects.toMatchObject({ message: 'Embedding request failed (401): Incorrect API key', status: 401 });
+  });
+});
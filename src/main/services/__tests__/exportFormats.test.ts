@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import {
+  columnsFromSchema,
+  encodeCsvField,
+  encodeCsvHeader,
+  encodeRows,
+  estimateEtaSeconds,
+  parquetColumnType,
+  toParquetValue,
+} from '../exportFormats';
+
+const schema = {
+  title: { type: 'string' },
+  vector: { type: '[3]f32' },
+  id: { type: 'uint' },
+  tags: { type: '[]string' },
+};
+
+describe('columnsFromSchema', () => {
+  it('puts id first and sorts the rest', () => {
+    expect(columnsFromSchema(schema, true).map(c => c.name)).toEqual(['id', 'tags', 'title', 'vector']);
+  });
+
+  it('drops vector columns unless requested', () => {
+    expect(columnsFromSchema(schema, false).map(c => c.name)).toEqual(['id', 'tags', 'title']);
+  });
+
+  it('defaults the id type when the schema omits it', () => {
+    expect(columnsFromSchema({ title: 'string' }, false)[0]).toEqual({ name: 'id', type: 'string' });
+  });
+});
+
+describe('CSV encoding', () => {
+  it('quotes fields per RFC 4180', () => {
+    expect(encodeCsvField('plain')).toBe('plain');
+    expect(encodeCsvField('a,b')).toBe('"a,b"');
+    expect(encodeCsvField('say "hi"')).toBe('"say ""hi"""');
+    expect(encodeCsvField('line\nbreak')).toBe('"line\nbreak"');
+    expect(encodeCsvField(null)).toBe('');
+    expect(encodeCsvField(['x', 'y'])).toBe('"[""x"",""y""]"');
+  });
+
+  it('writes rows in column order with CRLF line endings', () => {
+    const columns = columnsFromSchema(schema, false);
+    expect(encodeCsvHeader(columns)).toBe('id,tags,title\r\n');
+    expect(encodeRows([{ id: 1, title: 'a' }], 'csv', columns)).toBe('1,,a\r\n');
+  });
+});
+
+describe('NDJSON encoding', () => {
+  it('writes one document per line without query artifacts', () => {
+    const encoded = encodeRows([{ id: 1, $dist: 0.5, title: 'a' }, { id: 2 }], 'ndjson', []);
+    expect(encoded).toBe('{"id":1,"title":"a"}\n{"id":2}\n');
+  });
+});
+
+describe('Parquet conversion', () => {
+  it('maps schema types to parquet column types', () => {
+    expect(parquetColumnType('uint')).toBe('INT64');
+    expect(parquetColumnType('float')).toBe('DOUBLE');
+    expect(parquetColumnType('datetime')).toBe('STRING');
+    expect(parquetColumnType('[768]f32')).toBe('JSON');
+  });
+
+  it('converts values to the column type', () => {
+    expect(toParquetValue(42, 'INT64')).toBe(BigInt(42));
+    expect(toParquetValue(7, 'STRING')).toBe('7');
+    expect(toParquetValue(undefined, 'DOUBLE')).toBeNull();
+  });
+});
+
+describe('estimateEtaSeconds', () => {
+  it('divides the remaining rows by the rate', () => {
+    expect(estimateEtaSeconds(1_000, 5_000, 400)).toBe(10);
+  });
+
+  it('is unknown without a total or a rate', () => {
+    expect(estimateEtaSeconds(1_000, null, 400)).toBeNull();
+    expect(estimateEtaSeconds(0, 5_000, 0)).toBeNull();
+  });
+});
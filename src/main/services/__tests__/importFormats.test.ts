@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import {
+  AdaptiveBatchSizer,
+  CsvRecordParser,
+  coerceValue,
+  detectImportFormat,
+  mapRecord,
+} from '../importFormats';
+
+const parseAll = (chunks: string[]) => {
+  const parser = new CsvRecordParser();
+  return [...chunks.flatMap(chunk => parser.push(chunk)), ...parser.end()];
+};
+
+describe('CsvRecordParser', () => {
+  it('parses quoted fields with commas, escaped quotes and line breaks', () => {
+    const records = parseAll(['id,text\r\n1,"a, ""quoted""\nvalue"\r\n2,plain\r\n']);
+
+    expect(records).toEqual([
+      { line: 1, values: ['id', 'text'] },
+      { line: 2, values: ['1', 'a, "quoted"\nvalue'] },
+      { line: 4, values: ['2', 'plain'] },
+    ]);
+  });
+
+  it('handles records split across chunks', () => {
+    const records = parseAll(['id,te', 'xt\n1,"multi', '\nline"', '"",x\n2,y']);
+
+    expect(records.map(r => r.values)).toEqual([
+      ['id', 'text'],
+      ['1', 'multi\nline"', 'x'],
+      ['2', 'y'],
+    ]);
+  });
+
+  it('skips blank lines and strips a byte order mark', () => {
+    const records = parseAll(['\uFEFFid\n\n1\n']);
+    expect(records).toEqual([
+      { line: 1, values: ['id'] },
+      { line: 3, values: ['1'] },
+    ]);
+  });
+
+  it('reports an unterminated quote with its starting line', () => {
+    const records = parseAll(['id,text\n1,"never closed\n']);
+    expect(records[1]).toEqual({ line: 2, values: [], error: 'Unterminated quoted field' });
+  });
+});
+
+describe('coerceValue', () => {
+  it('converts strings to schema types', () => {
+    expect(coerceValue('42', 'uint')).toBe(42);
+    expect(coerceValue('1.5', 'float')).toBe(1.5);
+    expect(coerceValue('true', 'bool')).toBe(true);
+    expect(coerceValue('["a","b"]', '[]string')).toEqual(['a', 'b']);
+    expect(coerceValue(7, 'string')).toBe('7');
+  });
+
+  it('rejects values that do not fit', () => {
+    expect(() => coerceValue('abc', 'int')).toThrow('expected int, got "abc"');
+    expect(() => coerceValue('-1', 'uint')).toThrow('expected uint');
+    expect(() => coerceValue('[1,2]', '[3]f32')).toThrow('expected 3 vector dimensions, got 2');
+  });
+
+  it('infers types without a schema', () => {
+    expect(coerceValue('12')).toBe(12);
+    expect(coerceValue('false')).toBe(false);
+    expect(coerceValue('[1,2]')).toEqual([1, 2]);
+    expect(coerceValue('hello')).toBe('hello');
+  });
+});
+
+describe('mapRecord', () => {
+  const mapping = [
+    { source: 'id', target: 'id' },
+    { source: 'name', target: 'title', type: 'string' },
+    { source: 'count', target: 'count', type: 'int' },
+    { source: 'internal', target: null },
+  ];
+
+  it('maps, renames and skips columns', () => {
+    const row = mapRecord(
+      { id: '7', name: 'Widget', count: '3', internal: 'x' },
+      mapping,
+      'id',
+      () => 'generated'
+    );
+    expect(row).toEqual({ id: 7, title: 'Widget', count: 3 });
+  });
+
+  it('leaves out empty values and generates ids when asked', () => {
+    const row = mapRecord({ name: 'Widget', count: '' }, mapping, null, () => 'generated');
+    expect(row).toEqual({ id: 'generated', title: 'Widget' });
+  });
+
+  it('names the column that failed', () => {
+    expect(() => mapRecord({ id: '1', count: 'many' }, mapping, 'id', () => 'x'))
+      .toThrow('count: expected int, got "many"');
+    expect(() => mapRecord({ name: 'x' }, mapping, 'id', () => 'x')).toThrow('missing id');
+  });
+});
+
+describe('AdaptiveBatchSizer', () => {
+  it('grows after fast full batches and shrinks after slow ones', () => {
+    const sizer = new AdaptiveBatchSizer(100, 1, 1_000);
+    sizer.recordSuccess(200, 100);
+    expect(sizer.current).toBe(150);
+    sizer.recordSuccess(200, 20);
+    expect(sizer.current).toBe(150);
+    sizer.recordSuccess(8_000, 150);
+    expect(sizer.current).toBe(75);
+  });
+
+  it('stays within bounds', () => {
+    const sizer = new AdaptiveBatchSizer(900, 1, 1_000);
+    sizer.recordSuccess(10, 900);
+    expect(sizer.current).toBe(1_000);
+    const small = new AdaptiveBatchSizer(1);
+    small.shrink();
+    expect(small.current).toBe(1);
+  });
+});
+
+describe('detectImportFormat', () => {
+  it('detects formats from the extension', () => {
+    expect(detectImportFormat('/data/rows.JSONL')).toBe('ndjson');
+    expect(detectImportFormat('rows.parquet')).toBe('parquet');
+    expect(() => detectImportFormat('rows.xlsx')).toThrow('Unsupported file format');
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyAttributeMappings,
+  applySchemaMappings,
+  canonicalRow,
+  RowChecksum,
+} from '../migrationTransforms';
+
+describe('applyAttributeMappings', () => {
+  it('renames and drops attributes and keeps the rest', () => {
+    const row = { id: 1, title: 'a', internal: true, vector: [0.1] };
+    expect(applyAttributeMappings(row, [
+      { source: 'title', target: 'name' },
+      { source: 'internal', target: null },
+    ])).toEqual({ id: 1, name: 'a', vector: [0.1] });
+  });
+
+  it('never renames the id', () => {
+    expect(applyAttributeMappings({ id: 'x' }, [{ source: 'id', target: 'key' }])).toEqual({ id: 'x' });
+  });
+
+  it('maps schema keys the same way', () => {
+    expect(applySchemaMappings(
+      { title: { type: 'string' }, internal: { type: 'bool' } },
+      [{ source: 'title', target: 'name' }, { source: 'internal', target: null }]
+    )).toEqual({ name: { type: 'string' } });
+  });
+});
+
+describe('canonicalRow', () => {
+  it('ignores key order and null attributes', () => {
+    expect(canonicalRow({ b: 1, a: { y: 2, x: 1 }, c: null }))
+      .toBe(canonicalRow({ a: { x: 1, y: 2 }, b: 1 }));
+  });
+
+  it('keeps array order', () => {
+    expect(canonicalRow({ id: 1, tags: ['a', 'b'] })).not.toBe(canonicalRow({ id: 1, tags: ['b', 'a'] }));
+  });
+});
+
+describe('RowChecksum', () => {
+  it('matches for the same rows read from either side', () => {
+    const source = new RowChecksum();
+    const target = new RowChecksum();
+    source.update({ id: 1, title: 'a', vector: [0.5, 0.25] });
+    source.update({ id: 2, title: 'b', vector: [1, 0] });
+    target.update({ vector: [0.5, 0.25], title: 'a', id: 1 });
+    target.update({ id: 2, vector: [1, 0], title: 'b' });
+
+    expect(source.rows).toBe(2);
+    expect(source.digest()).toBe(target.digest());
+  });
+
+  it('differs when a row changed', () => {
+    const source = new RowChecksum();
+    const target = new RowChecksum();
+    source.update({ id: 1, title: 'a' });
+    target.update({ id: 1, title: 'A' });
+    expect(source.digest()).not.toBe(target.digest());
+  });
+});
@@ -0,0 +1,215 @@
+import { describe, it, expect, vi, beforeEach, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { WriteJournalService } from '../writeJournalService';
+import type { Filter } from '../../../types/document';
+import type { WriteJournalEntry } from '../../../types/writeJournal';
+
+const { userDataPath, ns } = vi.hoisted(() => ({
+  userDataPath: { current: '' },
+  ns: {
+    query: vi.fn(),
+    write: vi.fn(),
+    schema: vi.fn(),
+  },
+}));
+
+vi.mock('electron', () => ({
+  app: { getPath: () => userDataPath.current },
+}));
+
+vi.mock('@turbopuffer/turbopuffer', () => ({
+  Turbopuffer: class {
+    namespace() {
+      return ns;
+    }
+  },
+}));
+
+vi.mock('../credentialService', () => ({
+  CredentialService: class {
+    async getConnectionForUse() {
+      return { name: 'Test', apiKey: 'key', region: { id: 'gcp-us-central1' }, isReadOnly: false };
+    }
+  },
+}));
+
+vi.mock('../settingsService', () => ({
+  SettingsService: {
+    getInstance: () => ({
+      loadSettings: async () => ({ api: {}, connection: {} }),
+    }),
+  },
+}));
+
+vi.mock('../auditLogService', () => ({
+  AuditLogService: {
+    getInstance: () => ({
+      track: (_event: unknown, write: () => Promise<unknown>) => write(),
+    }),
+  },
+}));
+
+userDataPath.current = fs.mkdtempSync(path.join(os.tmpdir(), 'write-journal-test-'));
+const journalDir = path.join(userDataPath.current, 'write-journal', 'conn');
+
+const journal = WriteJournalService.getInstance();
+
+const rowsFor = (ids: unknown[]) => ids.map(id => ({ id, title: `doc ${id}` }));
+
+// Answers `id In` lookups with the requested ids that exist
+const serveIds = (existing: Set<string | number>) => {
+  ns.query.mockImplementation(async ({ filters }: { filters: [string, string, (string | number)[]] }) => ({
+    rows: rowsFor(filters[2].filter(id => existing.has(id))),
+  }));
+};
+
+describe('WriteJournalService', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    ns.write.mockResolvedValue({ rows_affected: 1 });
+    ns.schema.mockResolvedValue({});
+    await journal.clearJournal('conn');
+  });
+
+  afterAll(() => {
+    fs.rmSync(userDataPath.current, { recursive: true, force: true });
+  });
+
+  it('captures rows by id in pages and records created ids for upserts only', async () => {
+    const ids = [...Array.from({ length: 1200 }, (_, i) => i), 'new-1'];
+    serveIds(new Set(ids.slice(0, 1200)));
+
+    const upsert = await journal.captureSnapshot({
+      connectionId: 'conn',
+      namespaceId: 'docs',
+      operation: 'upsert',
+      summary: 'Upsert 1201 documents',
+      ids,
+    });
+
+    expect(ns.query).toHaveBeenCalledTimes(2);
+    expect(ns.query.mock.calls[1][0]).toMatchObject({
+      rank_by: ['id', 'asc'],
+      top_k: 201,
+      filters: ['id', 'In', ids.slice(1000)],
+    });
+    expect(upsert).toMatchObject({ capturedRows: 1200, createdIds: ['new-1'], status: 'pending' });
+    const saved = fs.readFileSync(path.join(journalDir, `${upsert.id}.jsonl`), 'utf-8').trim().split('\n');
+    expect(saved).toHaveLength(1200);
+    expect(JSON.parse(saved[0])).toEqual({ id: 0, title: 'doc 0' });
+
+    const patch = await journal.captureSnapshot({
+      connectionId: 'conn',
+      namespaceId: 'docs',
+      operation: 'patchRows',
+      summary: 'Patch 2 documents',
+      ids: [0, 'new-1'],
+    });
+    expect(patch.createdIds).toEqual([]);
+    expect((await journal.listEntries('conn')).map(entry => entry.id)).toEqual([patch.id, upsert.id]);
+  });
+
+  it('pages through a filter with an id cursor', async () => {
+    ns.query
+      .mockResolvedValueOnce({ rows: rowsFor(Array.from({ length: 1000 }, (_, i) => i)) })
+      .mockResolvedValueOnce({ rows: rowsFor([1000, 1001]) });
+    const filter: Filter = ['status', 'Eq', 'archived'];
+
+    const entry = await journal.captureSnapshot({
+      connectionId: 'conn',
+      namespaceId: 'docs',
+      operation: 'deleteByFilter',
+      summary: 'Delete by filter',
+      filter,
+    });
+
+    expect(ns.query.mock.calls.map(call => call[0].filters)).toEqual([
+      filter,
+      ['And', [filter, ['id', 'Gt', 999]]],
+    ]);
+    expect(entry).toMatchObject({ capturedRows: 1002, createdIds: [] });
+  });
+
+  it('undoes an entry by upserting saved rows in pages, then deleting created ids', async () => {
+    const existing = Array.from({ length: 1500 }, (_, i) => i);
+    serveIds(new Set(existing));
+    ns.schema.mockResolvedValue({ vector: { ann: { distance_metric: 'euclidean_squared' } } });
+    const entry = await journal.captureSnapshot({
+      connectionId: 'conn',
+      namespaceId: 'docs',
+      operation: 'upsert',
+      summary: 'Upsert 1502 documents',
+      ids: [...existing, 'new-1', 'new-2'],
+    });
+    await journal.completeEntry('conn', entry.id, { rowsAffected: 1502 });
+
+    const undone = await journal.undoEntry('conn', entry.id);
+
+    const writes = ns.write.mock.calls.map(call => call[0]);
+    expect(writes).toHaveLength(3);
+    expect(writes[0].upsert_rows).toHaveLength(1000);
+    expect(writes[0].distance_metric).toBe('euclidean_squared');
+    expect(writes[1].upsert_rows).toEqual(rowsFor(existing.slice(1000)));
+    expect(writes[2]).toEqual({ deletes: ['new-1', 'new-2'] });
+    expect(undone).toMatchObject({ status: 'undone', rowsRestored: 1500 });
+
+    await expect(journal.undoEntry('conn', entry.id)).rejects.toThrow('already undone');
+    expect(ns.write).toHaveBeenCalledTimes(3);
+  });
+
+  it('only undoes applied writes', async () => {
+    serveIds(new Set([1]));
+    const request = {
+      connectionId: 'conn',
+      namespaceId: 'docs',
+      operation: 'delete' as const,
+      summary: 'Delete 1 document',
+      ids: [1],
+    };
+    const pending = await journal.captureSnapshot(request);
+    const failed = await journal.captureSnapshot(request);
+    await journal.completeEntry('conn', failed.id, { error: 'Request timed out' });
+
+    await expect(journal.undoEntry('conn', pending.id)).rejects.toThrow('this one is pending');
+    await expect(journal.undoEntry('conn', failed.id)).rejects.toThrow('this one is failed');
+    expect(ns.write).not.toHaveBeenCalled();
+  });
+
+  it('drops the oldest entries and their rows past the limit', async () => {
+    fs.mkdirSync(journalDir, { recursive: true });
+    const old: WriteJournalEntry[] = Array.from({ length: 200 }, (_, i) => ({
+      id: `old-${i}`,
+      connectionId: 'conn',
+      namespaceId: 'docs',
+      operation: 'delete',
+      summary: 'Delete 1 document',
+      timestamp: 200 - i,
+      ids: [i],
+      capturedRows: 1,
+      createdIds: [],
+      status: 'applied',
+    }));
+    fs.writeFileSync(path.join(journalDir, 'index.json'), JSON.stringify(old));
+    old.slice(198).forEach(entry => {
+      fs.writeFileSync(path.join(journalDir, `${entry.id}.jsonl`), '{"id":1}\n');
+    });
+    serveIds(new Set([1]));
+
+    const entry = await journal.captureSnapshot({
+      connectionId: 'conn',
+      namespaceId: 'docs',
+      operation: 'delete',
+      summary: 'Delete 1 document',
+      ids: [1],
+    });
+
+    const entries = await journal.listEntries('conn');
+    expect(entries).toHaveLength(200);
+    expect(entries[0].id).toBe(entry.id);
+    expect(entries[199].id).toBe('old-198');
+    expect(fs.existsSync(path.join(journalDir, 'old-198.jsonl'))).toBe(true);
+    expect(fs.existsSync(path.join(journalDir, 'old-199.jsonl'))).toBe(false);
+  });
+});
@@ -0,0 +1,83 @@
+import { encodeCsvRow } from './exportFormats';
+import type { AuditEntry, AuditLogFilter } from '../../types/audit';
+
+const MAX_PAYLOAD_IDS = 50;
+const MAX_PAYLOAD_TEXT = 2_000;
+
+export const AUDIT_CSV_COLUMNS: (keyof AuditEntry)[] = [
+  'id',
+  'startedAt',
+  'operator',
+  'connectionId',
+  'connectionName',
+  'namespaceId',
+  'operation',
+  'summary',
+  'rowCount',
+  'durationMs',
+  'outcome',
+  'error',
+  'payload',
+];
+
+/**
+ * Shrink a write's ids and filter to something worth keeping in the log:
+ * the first ids plus a count, and filters cut off past a couple of KB.
+ */
+export function summarizeAuditPayload(payload: {
+  ids?: (string | number)[];
+  filter?: unknown;
+  attributes?: string[];
+  [key: string]: unknown;
+}): Record<string, unknown> {
+  const { ids, filter, ...rest } = payload;
+  const summary: Record<string, unknown> = { ...rest };
+  if (ids) {
+    summary.idCount = ids.length;
+    summary.ids = ids.slice(0, MAX_PAYLOAD_IDS);
+  }
+  if (filter !== undefined && filter !== null) {
+    const text = JSON.stringify(filter);
+    summary.filter = text.length > MAX_PAYLOAD_TEXT ? `${text.slice(0, MAX_PAYLOAD_TEXT)}...` : filter;
+  }
+  return summary;
+}
+
+export function matchesAuditFilter(entry: AuditEntry, filter: AuditLogFilter): boolean {
+  if (filter.connectionId && entry.connectionId !== filter.connectionId) return false;
+  if (filter.namespaceId && !entry.namespaceId.toLowerCase().includes(filter.namespaceId.toLowerCase())) {
+    return false;
+  }
+  if (filter.operations?.length && !filter.operations.includes(entry.operation)) return false;
+  if (filter.outcome && entry.outcome !== filter.outcome) return false;
+  if (filter.from !== undefined && entry.startedAt < filter.from) return false;
+  if (filter.to !== undefined && entry.startedAt >= filter.to) return false;
+  if (filter.search) {
+    const needle = filter.search.toLowerCase();
+    const haystack = [entry.summary, entry.error, entry.operator, entry.payload && JSON.stringify(entry.payload)]
+      .filter(Boolean)
+      .join('\n')
+      .toLowerCase();
+    if (!haystack.includes(needle)) return false;
+  }
+  return true;
+}
+
+export function encodeAuditCsv(entries: AuditEntry[]): string {
+  return (
+    encodeCsvRow(AUDIT_CSV_COLUMNS) +
+    entries
+      .map(entry =>
+        encodeCsvRow(
+          AUDIT_CSV_COLUMNS.map(column =>
+            column === 'startedAt' ? new Date(entry.startedAt).toISOString() : entry[column]
+          )
+        )
+      )
+      .join('')
+  );
+}
+
+export function encodeAuditJsonl(entries: AuditEntry[]): string {
+  return entries.map(entry => JSON.stringify(entry) + '\n').join('');
+}
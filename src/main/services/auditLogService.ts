@@ -0,0 +1,131 @@
+import { app } from 'electron';
+import { createReadStream } from 'fs';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import * as readline from 'readline';
+import { v4 as uuidv4 } from 'uuid';
+import { CredentialService } from './credentialService';
+import { encodeAuditCsv, encodeAuditJsonl, matchesAuditFilter, summarizeAuditPayload } from './auditLogFormat';
+import type {
+  AuditEntry,
+  AuditEventInput,
+  AuditExportFormat,
+  AuditLogFilter,
+  AuditLogPage,
+} from '../../types/audit';
+
+const DEFAULT_QUERY_LIMIT = 500;
+
+/**
+ * Append-only log of every mutating call made through the app, from the
+ * renderer's services and from jobs running in the main process. Entries are
+ * never edited or removed.
+ */
+export class AuditLogService {
+  private static instance: AuditLogService;
+  private credentialService = new CredentialService();
+  private logPath: string;
+  private operator: string;
+  // Appends are serialized so lines from concurrent writes never interleave
+  private appendQueue: Promise<unknown> = Promise.resolve();
+
+  private constructor() {
+    this.logPath = path.join(app.getPath('userData'), 'audit-log.jsonl');
+    try {
+      this.operator = os.userInfo().username;
+    } catch {
+      this.operator = 'unknown';
+    }
+  }
+
+  static getInstance(): AuditLogService {
+    if (!AuditLogService.instance) {
+      AuditLogService.instance = new AuditLogService();
+    }
+    return AuditLogService.instance;
+  }
+
+  async record(event: AuditEventInput): Promise<void> {
+    const connections = await this.credentialService.loadConnections().catch(() => []);
+    const entry: AuditEntry = {
+      ...event,
+      ...(event.payload && { payload: summarizeAuditPayload(event.payload) }),
+      id: uuidv4(),
+      connectionName: connections.find(connection => connection.id === event.connectionId)?.name,
+      operator: this.operator,
+    };
+
+    const append = () => fs.appendFile(this.logPath, JSON.stringify(entry) + '\n', 'utf-8');
+    const next = this.appendQueue.then(append, append);
+    this.appendQueue = next.catch(() => undefined);
+    await next;
+  }
+
+  /**
+   * Time a main-process write and log it whether it succeeds or throws.
+   */
+  async track<T>(
+    event: Omit<AuditEventInput, 'startedAt' | 'durationMs' | 'outcome' | 'error' | 'rowCount'>,
+    write: () => Promise<T>,
+    rowCount?: (result: T) => number | undefined
+  ): Promise<T> {
+    const startedAt = Date.now();
+    const log = (outcome: Partial<AuditEventInput>) =>
+      this.record({ ...event, startedAt, durationMs: Date.now() - startedAt, outcome: 'success', ...outcome })
+        .catch(error => console.error('Failed to write audit log:', error));
+    try {
+      const result = await write();
+      await log({ rowCount: rowCount?.(result) });
+      return result;
+    } catch (error) {
+      await log({ outcome: 'failure', error: error instanceof Error ? error.message : String(error) });
+      throw error;
+    }
+  }
+
+  private async readMatching(filter: AuditLogFilter, onEntry: (entry: AuditEntry) => void): Promise<void> {
+    await this.appendQueue;
+    try {
+      await fs.access(this.logPath);
+    } catch {
+      return;
+    }
+
+    const lines = readline.createInterface({
+      input: createReadStream(this.logPath, { encoding: 'utf-8' }),
+      crlfDelay: Infinity,
+    });
+    for await (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        const entry = JSON.parse(line) as AuditEntry;
+        if (matchesAuditFilter(entry, filter)) onEntry(entry);
+      } catch {
+        // A line cut short by a crash; the rest of the log is still readable
+      }
+    }
+  }
+
+  async query(filter: AuditLogFilter, limit = DEFAULT_QUERY_LIMIT): Promise<AuditLogPage> {
+    const newest: AuditEntry[] = [];
+    let total = 0;
+    await this.readMatching(filter, entry => {
+      total++;
+      newest.push(entry);
+      if (newest.length > limit) newest.shift();
+    });
+    return { entries: newest.reverse(), total };
+  }
+
+  /**
+   * Write every matching entry, oldest first, and return how many were written.
+   */
+  async exportToFile(filter: AuditLogFilter, format: AuditExportFormat, filePath: string): Promise<number> {
+    const entries: AuditEntry[] = [];
+    await this.readMatching(filter, entry => entries.push(entry));
+    const content = format === 'csv' ? encodeAuditCsv(entries) : encodeAuditJsonl(entries);
+    await fs.writeFile(filePath, content, 'utf-8');
+    return entries.length;
+  }
+}
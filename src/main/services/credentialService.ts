@@ -37,7 +37,8 @@ export class CredentialService {
       .digest();
   }
 
-  private encryptString(text: string): Buffer {
+  // Also used by other services that keep secrets next to connections
+  encryptString(text: string): Buffer {
     if (this.encryptionAvailable) {
       return safeStorage.encryptString(text);
     } else {
@@ -50,7 +51,7 @@ export class CredentialService {
     }
   }
 
-  private decryptString(encrypted: Buffer): string {
+  decryptString(encrypted: Buffer): string {
     if (this.encryptionAvailable) {
       return safeStorage.decryptString(encrypted);
     } else {
@@ -0,0 +1,147 @@
+/**
+ * Embedding providers turn text into vectors for imports and semantic search.
+ *
+ * Each provider type implements `EmbeddingProvider`; `createEmbeddingProvider`
+ * is the only place that needs to know about a new type.
+ */
+
+import type { EmbeddingProviderConfig } from '../../types/embedding';
+
+export interface EmbeddingProvider {
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export class EmbeddingRequestError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message);
+    this.name = 'EmbeddingRequestError';
+  }
+}
+
+const DEFAULT_BATCH_SIZE = 128;
+
+export function embeddingsUrl(baseUrl: string): string {
+  const trimmed = baseUrl.trim().replace(/\/+$/, '');
+  return trimmed.endsWith('/embeddings') ? trimmed : `${trimmed}/embeddings`;
+}
+
+/**
+ * Read an OpenAI-style `{ data: [{ index, embedding }] }` response. Items are
+ * ordered by `index` because servers are not required to keep input order.
+ */
+export function parseEmbeddingResponse(body: unknown, expectedCount: number): number[][] {
+  const data = (body as { data?: unknown })?.data;
+  if (!Array.isArray(data)) {
+    throw new EmbeddingRequestError('Unexpected response from embedding provider: missing "data"');
+  }
+  if (data.length !== expectedCount) {
+    throw new EmbeddingRequestError(
+      `Embedding provider returned ${data.length} embeddings for ${expectedCount} inputs`
+    );
+  }
+
+  const vectors: number[][] = new Array(expectedCount);
+  const seen = new Set<number>();
+  data.forEach((item, position) => {
+    const index = item?.index ?? position;
+    if (!Number.isInteger(index) || index < 0 || index >= expectedCount) {
+      throw new EmbeddingRequestError(
+        `Embedding provider returned index ${JSON.stringify(index)} for ${expectedCount} inputs`
+      );
+    }
+    if (seen.has(index)) {
+      throw new EmbeddingRequestError(`Embedding provider returned index ${index} more than once`);
+    }
+    seen.add(index);
+    const embedding = item?.embedding;
+    if (!Array.isArray(embedding) || embedding.some((v: unknown) => typeof v !== 'number')) {
+      throw new EmbeddingRequestError(
+        'Embedding provider returned a non-numeric embedding; base64 encoding is not supported'
+      );
+    }
+    vectors[index] = embedding;
+  });
+  // One item per input, each with a distinct in-range index, fills every position
+  return vectors;
+}
+
+export function chunkTexts(texts: string[], size: number): string[][] {
+  const chunkSize = Math.max(1, Math.floor(size));
+  const chunks: string[][] = [];
+  for (let i = 0; i < texts.length; i += chunkSize) {
+    chunks.push(texts.slice(i, i + chunkSize));
+  }
+  return chunks;
+}
+
+/**
+ * Talks to any server that implements the OpenAI `/embeddings` endpoint:
+ * OpenAI itself, Azure-style proxies, or local servers such as Ollama,
+ * LM Studio, vLLM and llama.cpp.
+ */
+export class OpenAICompatibleProvider implements EmbeddingProvider {
+  constructor(
+    private readonly config: EmbeddingProviderConfig,
+    private readonly apiKey?: string,
+    private readonly timeoutMs = 60_000
+  ) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (const chunk of chunkTexts(texts, this.config.batchSize ?? DEFAULT_BATCH_SIZE)) {
+      vectors.push(...(await this.request(chunk)));
+    }
+    return vectors;
+  }
+
+  private async request(input: string[]): Promise<number[][]> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+    const body: Record<string, unknown> = { model: this.config.model, input };
+    if (this.config.dimensions) {
+      body.dimensions = this.config.dimensions;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(embeddingsUrl(this.config.baseUrl), {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(body),
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+    } catch (error) {
+      throw new EmbeddingRequestError(
+        `Could not reach embedding provider: ${error instanceof Error ? error.message : 'Network error'}`
+      );
+    }
+
+    if (!response.ok) {
+      let detail = response.statusText;
+      try {
+        const errorBody = await response.json();
+        detail = errorBody?.error?.message ?? errorBody?.error ?? detail;
+      } catch {
+        // Keep the status text
+      }
+      throw new EmbeddingRequestError(`Embedding request failed (${response.status}): ${detail}`, response.status);
+    }
+
+    return parseEmbeddingResponse(await response.json(), input.length);
+  }
+}
+
+export function createEmbeddingProvider(
+  config: EmbeddingProviderConfig,
+  apiKey?: string,
+  timeoutMs?: number
+): EmbeddingProvider {
+  switch (config.type) {
+    case 'openai-compatible':
+      return new OpenAICompatibleProvider(config, apiKey, timeoutMs);
+    default:
+      throw new Error(`Unknown embedding provider: ${String((config as { type?: unknown }).type)}`);
+  }
+}
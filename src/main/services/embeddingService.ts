@@ -0,0 +1,166 @@
+import { app } from 'electron';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { CredentialService } from './credentialService';
+import { SettingsService } from './settingsService';
+import { createEmbeddingProvider } from './embeddingProviders';
+import type {
+  EmbeddingConfigInput,
+  EmbeddingProviderConfig,
+  EmbeddingTestResult,
+} from '../../types/embedding';
+
+const EMBEDDINGS_FILE = 'embedding-providers.json';
+
+interface StoredEmbeddingConfig extends Omit<EmbeddingProviderConfig, 'hasApiKey'> {
+  apiKeyEncrypted?: string; // base64
+}
+
+/**
+ * Embedding provider settings per connection. Requests are made from the main
+ * process so provider API keys stay out of the renderer and any host can be
+ * reached, including a local server.
+ */
+export class EmbeddingService {
+  private static instance: EmbeddingService;
+  private configPath: string;
+  private credentialService = new CredentialService();
+
+  private constructor() {
+    const userDataPath = app.getPath('userData');
+    this.configPath = path.join(userDataPath, EMBEDDINGS_FILE);
+  }
+
+  static getInstance(): EmbeddingService {
+    if (!EmbeddingService.instance) {
+      EmbeddingService.instance = new EmbeddingService();
+    }
+    return EmbeddingService.instance;
+  }
+
+  async getConfig(connectionId: string): Promise<EmbeddingProviderConfig | null> {
+    const stored = (await this.loadStoredConfigs())[connectionId];
+    if (!stored) return null;
+    const { apiKeyEncrypted, ...config } = stored;
+    return { ...config, hasApiKey: Boolean(apiKeyEncrypted) };
+  }
+
+  async saveConfig(connectionId: string, input: EmbeddingConfigInput): Promise<EmbeddingProviderConfig> {
+    const configs = await this.loadStoredConfigs();
+    const { apiKey, ...config } = this.validate(input);
+
+    let apiKeyEncrypted = configs[connectionId]?.apiKeyEncrypted;
+    if (apiKey !== undefined) {
+      apiKeyEncrypted = apiKey
+        ? this.credentialService.encryptString(apiKey).toString('base64')
+        : undefined;
+    }
+
+    configs[connectionId] = { ...config, apiKeyEncrypted };
+    await this.saveStoredConfigs(configs);
+    return { ...config, hasApiKey: Boolean(apiKeyEncrypted) };
+  }
+
+  async deleteConfig(connectionId: string): Promise<void> {
+    const configs = await this.loadStoredConfigs();
+    if (configs[connectionId]) {
+      delete configs[connectionId];
+      await this.saveStoredConfigs(configs);
+    }
+  }
+
+  /**
+   * Embed texts with the provider configured for a connection.
+   */
+  async embed(connectionId: string, texts: string[]): Promise<number[][]> {
+    const stored = (await this.loadStoredConfigs())[connectionId];
+    if (!stored) {
+      throw new Error('No embedding provider is configured for this connection. Set one up in Settings.');
+    }
+    const { apiKeyEncrypted, ...config } = stored;
+    const apiKey = apiKeyEncrypted
+      ? this.credentialService.decryptString(Buffer.from(apiKeyEncrypted, 'base64'))
+      : undefined;
+    const provider = createEmbeddingProvider(config, apiKey, await this.requestTimeoutMs());
+    return provider.embed(texts);
+  }
+
+  /**
+   * Embed a sample string with unsaved settings. A missing key falls back to
+   * the stored one so the form can be tested without re-entering it.
+   */
+  async testConfig(connectionId: string, input: EmbeddingConfigInput): Promise<EmbeddingTestResult> {
+    try {
+      const { apiKey, ...config } = this.validate(input);
+      let key = apiKey;
+      if (key === undefined) {
+        const stored = (await this.loadStoredConfigs())[connectionId];
+        key = stored?.apiKeyEncrypted
+          ? this.credentialService.decryptString(Buffer.from(stored.apiKeyEncrypted, 'base64'))
+          : undefined;
+      }
+      const provider = createEmbeddingProvider(config, key || undefined, await this.requestTimeoutMs());
+      const [vector] = await provider.embed(['turbopuffer embedding test']);
+      return {
+        success: true,
+        message: `Received a ${vector.length}-dimensional embedding`,
+        dimensions: vector.length,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  private validate(input: EmbeddingConfigInput): EmbeddingConfigInput {
+    if (!input.baseUrl?.trim()) {
+      throw new Error('Base URL is required');
+    }
+    try {
+      const url = new URL(input.baseUrl.trim());
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        throw new Error();
+      }
+    } catch {
+      throw new Error('Base URL must be an http or https URL');
+    }
+    if (!input.model?.trim()) {
+      throw new Error('Model is required');
+    }
+    if (input.dimensions !== undefined && (!Number.isInteger(input.dimensions) || input.dimensions <= 0)) {
+      throw new Error('Dimensions must be a positive integer');
+    }
+    if (input.batchSize !== undefined && (!Number.isInteger(input.batchSize) || input.batchSize <= 0)) {
+      throw new Error('Batch size must be a positive integer');
+    }
+    return {
+      type: input.type,
+      baseUrl: input.baseUrl.trim(),
+      model: input.model.trim(),
+      dimensions: input.dimensions,
+      batchSize: input.batchSize,
+      apiKey: input.apiKey,
+    };
+  }
+
+  private async requestTimeoutMs(): Promise<number | undefined> {
+    const settings = await SettingsService.getInstance().loadSettings();
+    return settings.connection.requestTimeout ? settings.connection.requestTimeout * 1000 : undefined;
+  }
+
+  private async loadStoredConfigs(): Promise<Record<string, StoredEmbeddingConfig>> {
+    try {
+      const data = await fs.readFile(this.configPath, 'utf-8');
+      return JSON.parse(data);
+    } catch (error) {
+      // File doesn't exist or is corrupted
+      return {};
+    }
+  }
+
+  private async saveStoredConfigs(configs: Record<string, StoredEmbeddingConfig>): Promise<void> {
+    await fs.writeFile(this.configPath, JSON.stringify(configs, null, 2), 'utf-8');
+  }
+}
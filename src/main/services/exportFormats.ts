@@ -0,0 +1,126 @@
+/**
+ * Row encoders for streaming namespace exports.
+ *
+ * Kept free of Electron and filesystem access so the export service can stay
+ * focused on paging, checkpoints and progress.
+ */
+
+import type { ExportColumn, StreamingExportFormat } from '../../types/export';
+
+type ParquetColumnType = 'STRING' | 'INT64' | 'DOUBLE' | 'BOOLEAN' | 'JSON';
+
+export const EXPORT_FILE_EXTENSIONS: Record<StreamingExportFormat, string> = {
+  ndjson: 'ndjson',
+  csv: 'csv',
+  parquet: 'parquet',
+};
+
+export function isVectorType(type: string): boolean {
+  return /^\[\d+\]f(16|32)$/.test(type);
+}
+
+/**
+ * Derive the export columns from a namespace schema.
+ * `id` always comes first; the remaining attributes are sorted by name.
+ */
+export function columnsFromSchema(
+  schema: Record<string, { type?: string } | string | undefined>,
+  includeVectors: boolean
+): ExportColumn[] {
+  const typeOf = (config: { type?: string } | string | undefined): string =>
+    (typeof config === 'string' ? config : config?.type) ?? 'string';
+
+  const columns = Object.entries(schema)
+    .filter(([name]) => name !== 'id')
+    .map(([name, config]) => ({ name, type: typeOf(config) }))
+    .filter(column => includeVectors || !isVectorType(column.type))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  return [{ name: 'id', type: typeOf(schema.id) }, ...columns];
+}
+
+/**
+ * Encode a single CSV field per RFC 4180. Arrays and objects are written as JSON.
+ */
+export function encodeCsvField(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function encodeCsvRow(values: unknown[]): string {
+  return values.map(encodeCsvField).join(',') + '\r\n';
+}
+
+export function encodeCsvHeader(columns: ExportColumn[]): string {
+  return encodeCsvRow(columns.map(column => column.name));
+}
+
+/**
+ * Encode a page of rows for the output (or, for Parquet, the spool) file.
+ */
+export function encodeRows(
+  rows: Record<string, unknown>[],
+  format: StreamingExportFormat,
+  columns: ExportColumn[]
+): string {
+  if (format === 'csv') {
+    return rows.map(row => encodeCsvRow(columns.map(column => row[column.name]))).join('');
+  }
+  return rows
+    .map(row => {
+      // $dist and friends are query artifacts, not document data
+      const clean = Object.fromEntries(
+        Object.entries(row).filter(([key]) => !key.startsWith('$'))
+      );
+      return JSON.stringify(clean) + '\n';
+    })
+    .join('');
+}
+
+export function parquetColumnType(type: string): ParquetColumnType {
+  switch (type) {
+    case 'int':
+    case 'uint':
+      return 'INT64';
+    case 'float':
+      return 'DOUBLE';
+    case 'bool':
+      return 'BOOLEAN';
+    case 'string':
+    case 'uuid':
+    case 'datetime':
+      return 'STRING';
+    default:
+      // Arrays and vectors
+      return 'JSON';
+  }
+}
+
+export function toParquetValue(value: unknown, type: ParquetColumnType): unknown {
+  if (value === null || value === undefined) return null;
+  switch (type) {
+    case 'INT64':
+      return typeof value === 'bigint' ? value : BigInt(Math.trunc(Number(value)));
+    case 'DOUBLE':
+      return Number(value);
+    case 'BOOLEAN':
+      return Boolean(value);
+    case 'STRING':
+      return typeof value === 'string' ? value : String(value);
+    default:
+      return value;
+  }
+}
+
+/**
+ * Seconds left at the current rate, or null while the rate or total is unknown.
+ */
+export function estimateEtaSeconds(
+  rowsWritten: number,
+  totalRows: number | null,
+  rowsPerSecond: number
+): number | null {
+  if (totalRows === null || rowsPerSecond <= 0) return null;
+  return Math.max(0, Math.ceil((totalRows - rowsWritten) / rowsPerSecond));
+}
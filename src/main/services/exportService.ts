@@ -0,0 +1,389 @@
+import { app } from 'electron';
+import type { Turbopuffer } from '@turbopuffer/turbopuffer';
+import { v4 as uuidv4 } from 'uuid';
+import { fileWriter, parquetWriteRows } from 'hyparquet-writer';
+import * as fs from 'fs/promises';
+import { createReadStream } from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import { createTurbopufferClient } from './turbopufferClient';
+import {
+  columnsFromSchema,
+  encodeCsvHeader,
+  encodeRows,
+  estimateEtaSeconds,
+  parquetColumnType,
+  toParquetValue,
+} from './exportFormats';
+import type {
+  ExportCheckpoint,
+  ExportColumn,
+  ExportJobOptions,
+  ExportProgress,
+} from '../../types/export';
+
+type ProgressListener = (progress: ExportProgress) => void;
+
+interface RunningJob {
+  cancelRequested: boolean;
+  startedAt: number;
+  startRows: number;
+}
+
+const DEFAULT_PAGE_SIZE = 5_000;
+const MAX_PAGE_SIZE = 10_000; // Turbopuffer max top_k
+const MAX_RETRIES = 5;
+const RETRY_BASE_DELAY_MS = 1_000;
+const PARQUET_ROW_GROUP_SIZE = 50_000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Streams namespace exports to disk from the main process.
+ *
+ * Jobs page through the namespace in id order and append each page to the
+ * output file. After every page a checkpoint (last id, rows and bytes written)
+ * is stored under userData/exports, so an export interrupted by a crash or a
+ * network failure resumes from the last page instead of starting over.
+ */
+export class ExportService {
+  private static instance: ExportService;
+  private exportsDir: string;
+  private running: Map<string, RunningJob> = new Map();
+
+  private constructor() {
+    const userDataPath = app.getPath('userData');
+    this.exportsDir = path.join(userDataPath, 'exports');
+    this.ensureExportsDir();
+  }
+
+  static getInstance(): ExportService {
+    if (!ExportService.instance) {
+      ExportService.instance = new ExportService();
+    }
+    return ExportService.instance;
+  }
+
+  private async ensureExportsDir(): Promise<void> {
+    try {
+      await fs.mkdir(this.exportsDir, { recursive: true });
+    } catch (error) {
+      console.error('Failed to create exports directory:', error);
+    }
+  }
+
+  private getCheckpointPath(jobId: string): string {
+    return path.join(this.exportsDir, `${jobId}.json`);
+  }
+
+  private async saveCheckpoint(checkpoint: ExportCheckpoint): Promise<void> {
+    checkpoint.updatedAt = Date.now();
+    await fs.writeFile(
+      this.getCheckpointPath(checkpoint.jobId),
+      JSON.stringify(checkpoint, null, 2),
+      'utf-8'
+    );
+  }
+
+  private async loadCheckpoint(jobId: string): Promise<ExportCheckpoint> {
+    try {
+      const data = await fs.readFile(this.getCheckpointPath(jobId), 'utf-8');
+      return JSON.parse(data);
+    } catch {
+      throw new Error('Export job not found');
+    }
+  }
+
+  private async removeJobFiles(checkpoint: ExportCheckpoint, includeOutput: boolean): Promise<void> {
+    const files = [this.getCheckpointPath(checkpoint.jobId)];
+    if (checkpoint.spoolPath) files.push(checkpoint.spoolPath);
+    if (includeOutput) files.push(checkpoint.filePath);
+    await Promise.all(files.map(file => fs.rm(file, { force: true })));
+  }
+
+  /**
+   * Create a job for `filePath` and start it in the background.
+   */
+  async startExport(
+    options: ExportJobOptions,
+    filePath: string,
+    onProgress: ProgressListener
+  ): Promise<string> {
+    await this.ensureExportsDir();
+    const client = await createTurbopufferClient(options.connectionId);
+    const ns = client.namespace(options.namespaceId);
+
+    const schema = await ns.schema();
+    const columns = columnsFromSchema(schema as any, options.includeVectors ?? false);
+    const countResult: any = await ns.query({
+      filters: (options.filters ?? undefined) as any,
+      aggregate_by: { count: ['Count'] },
+    } as any);
+
+    const jobId = uuidv4();
+    const now = Date.now();
+    const checkpoint: ExportCheckpoint = {
+      ...options,
+      pageSize: Math.min(options.pageSize ?? DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE),
+      jobId,
+      filePath,
+      spoolPath: options.format === 'parquet' ? path.join(this.exportsDir, `${jobId}.ndjson`) : null,
+      columns,
+      cursor: null,
+      rowsWritten: 0,
+      bytesWritten: 0,
+      totalRows: Number(countResult.aggregations?.count ?? 0),
+      status: 'running',
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    // Write the CSV header up front so the checkpointed byte offset includes it
+    const target = checkpoint.spoolPath ?? filePath;
+    const header = options.format === 'csv' ? encodeCsvHeader(columns) : '';
+    await fs.writeFile(target, header, 'utf-8');
+    checkpoint.bytesWritten = Buffer.byteLength(header, 'utf-8');
+    await this.saveCheckpoint(checkpoint);
+
+    this.launch(checkpoint, client, onProgress);
+    return jobId;
+  }
+
+  /**
+   * Continue an interrupted or failed job from its last checkpoint.
+   */
+  async resumeExport(jobId: string, onProgress: ProgressListener): Promise<void> {
+    if (this.running.has(jobId)) {
+      throw new Error('Export is already running');
+    }
+    const checkpoint = await this.loadCheckpoint(jobId);
+    const target = checkpoint.spoolPath ?? checkpoint.filePath;
+
+    try {
+      // Drop anything written after the last checkpoint
+      await fs.truncate(target, checkpoint.bytesWritten);
+    } catch {
+      throw new Error(`Partial export file is missing: ${target}`);
+    }
+
+    const client = await createTurbopufferClient(checkpoint.connectionId);
+    checkpoint.status = 'running';
+    checkpoint.error = undefined;
+    await this.saveCheckpoint(checkpoint);
+
+    this.launch(checkpoint, client, onProgress);
+  }
+
+  /**
+   * Stop a running job, or discard a stored one. Either way the checkpoint and
+   * the partial output are removed.
+   */
+  async cancelExport(jobId: string): Promise<void> {
+    const job = this.running.get(jobId);
+    if (job) {
+      // The paging loop stops after the current page and cleans up
+      job.cancelRequested = true;
+      return;
+    }
+    const checkpoint = await this.loadCheckpoint(jobId);
+    await this.removeJobFiles(checkpoint, true);
+  }
+
+  /**
+   * All jobs with a checkpoint on disk. Jobs still marked running that this
+   * process does not own were cut off by a crash or quit.
+   */
+  async listJobs(): Promise<ExportCheckpoint[]> {
+    await this.ensureExportsDir();
+    const files = (await fs.readdir(this.exportsDir)).filter(file => file.endsWith('.json'));
+    const jobs: ExportCheckpoint[] = [];
+
+    for (const file of files) {
+      try {
+        const checkpoint: ExportCheckpoint = JSON.parse(
+          await fs.readFile(path.join(this.exportsDir, file), 'utf-8')
+        );
+        if (checkpoint.status === 'running' && !this.running.has(checkpoint.jobId)) {
+          checkpoint.status = 'interrupted';
+          await this.saveCheckpoint(checkpoint);
+        }
+        jobs.push(checkpoint);
+      } catch (error) {
+        console.error(`Failed to read export checkpoint ${file}:`, error);
+      }
+    }
+
+    return jobs.sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  private launch(checkpoint: ExportCheckpoint, client: Turbopuffer, onProgress: ProgressListener): void {
+    const job: RunningJob = {
+      cancelRequested: false,
+      startedAt: Date.now(),
+      startRows: checkpoint.rowsWritten,
+    };
+    this.running.set(checkpoint.jobId, job);
+
+    this.runJob(checkpoint, client, job, onProgress)
+      .catch(async (error) => {
+        console.error(`Export ${checkpoint.jobId} failed:`, error);
+        checkpoint.status = 'failed';
+        checkpoint.error = error instanceof Error ? error.message : 'Unknown error';
+        await this.saveCheckpoint(checkpoint).catch(() => undefined);
+        onProgress(this.toProgress(checkpoint, job, 'fetching'));
+      })
+      .finally(() => {
+        this.running.delete(checkpoint.jobId);
+      });
+  }
+
+  private async runJob(
+    checkpoint: ExportCheckpoint,
+    client: Turbopuffer,
+    job: RunningJob,
+    onProgress: ProgressListener
+  ): Promise<void> {
+    const ns = client.namespace(checkpoint.namespaceId);
+    const pageSize = checkpoint.pageSize ?? DEFAULT_PAGE_SIZE;
+    const encodeAs = checkpoint.format === 'parquet' ? 'ndjson' : checkpoint.format;
+    const includeAttributes = checkpoint.columns
+      .map(column => column.name)
+      .filter(name => name !== 'id');
+    const handle = await fs.open(checkpoint.spoolPath ?? checkpoint.filePath, 'a');
+
+    onProgress(this.toProgress(checkpoint, job, 'fetching'));
+
+    try {
+      let hasMore = true;
+      while (hasMore && !job.cancelRequested) {
+        const rows = await this.fetchPage(ns, checkpoint, includeAttributes, pageSize, job);
+        if (job.cancelRequested) break;
+
+        if (rows.length > 0) {
+          const chunk = Buffer.from(encodeRows(rows, encodeAs, checkpoint.columns), 'utf-8');
+          await handle.write(chunk);
+          await handle.datasync();
+
+          checkpoint.bytesWritten += chunk.length;
+          checkpoint.rowsWritten += rows.length;
+          checkpoint.cursor = rows[rows.length - 1].id as string | number;
+          await this.saveCheckpoint(checkpoint);
+          onProgress(this.toProgress(checkpoint, job, 'fetching'));
+        }
+
+        hasMore = rows.length === pageSize;
+      }
+    } finally {
+      await handle.close();
+    }
+
+    if (job.cancelRequested) {
+      await this.removeJobFiles(checkpoint, true);
+      checkpoint.status = 'canceled';
+      onProgress(this.toProgress(checkpoint, job, 'fetching'));
+      return;
+    }
+
+    if (checkpoint.format === 'parquet' && checkpoint.spoolPath) {
+      onProgress(this.toProgress(checkpoint, job, 'converting'));
+      await this.writeParquet(checkpoint.spoolPath, checkpoint.filePath, checkpoint.columns);
+    }
+
+    await this.removeJobFiles(checkpoint, false);
+    checkpoint.status = 'completed';
+    onProgress(this.toProgress(checkpoint, job, 'fetching'));
+  }
+
+  /**
+   * Fetch the page after the checkpoint cursor, retrying transient failures
+   * with exponential backoff.
+   */
+  private async fetchPage(
+    ns: ReturnType<Turbopuffer['namespace']>,
+    checkpoint: ExportCheckpoint,
+    includeAttributes: string[],
+    pageSize: number,
+    job: RunningJob
+  ): Promise<Record<string, unknown>[]> {
+    const cursorFilter = checkpoint.cursor !== null ? ['id', 'Gt', checkpoint.cursor] : null;
+    const filters = checkpoint.filters && cursorFilter
+      ? ['And', [checkpoint.filters, cursorFilter]]
+      : checkpoint.filters ?? cursorFilter ?? undefined;
+
+    let attempt = 0;
+    let lastError: unknown;
+    while (attempt < MAX_RETRIES && !job.cancelRequested) {
+      try {
+        const result = await ns.query({
+          rank_by: ['id', 'asc'],
+          top_k: pageSize,
+          filters: filters as any,
+          include_attributes: includeAttributes.length > 0 ? includeAttributes : true,
+        } as any);
+        return (result.rows ?? []) as Record<string, unknown>[];
+      } catch (error) {
+        lastError = error;
+        attempt++;
+        if (attempt < MAX_RETRIES) {
+          await sleep(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+        }
+      }
+    }
+
+    if (job.cancelRequested) return [];
+    throw lastError instanceof Error ? lastError : new Error('Failed to fetch export page');
+  }
+
+  private async writeParquet(spoolPath: string, filePath: string, columns: ExportColumn[]): Promise<void> {
+    const types = columns.map(column => parquetColumnType(column.type));
+
+    async function* readRows() {
+      const lines = readline.createInterface({
+        input: createReadStream(spoolPath, { encoding: 'utf-8' }),
+        crlfDelay: Infinity,
+      });
+      for await (const line of lines) {
+        if (!line.trim()) continue;
+        const row = JSON.parse(line);
+        const converted: Record<string, unknown> = {};
+        columns.forEach((column, i) => {
+          converted[column.name] = toParquetValue(row[column.name], types[i]);
+        });
+        yield converted;
+      }
+    }
+
+    await parquetWriteRows({
+      writer: fileWriter(filePath),
+      rows: readRows(),
+      columns: columns.map((column, i) => ({ name: column.name, type: types[i] })),
+      rowGroupSize: PARQUET_ROW_GROUP_SIZE,
+    });
+  }
+
+  private toProgress(
+    checkpoint: ExportCheckpoint,
+    job: RunningJob,
+    phase: ExportProgress['phase']
+  ): ExportProgress {
+    const elapsedSeconds = (Date.now() - job.startedAt) / 1000;
+    const rowsPerSecond = elapsedSeconds > 0
+      ? (checkpoint.rowsWritten - job.startRows) / elapsedSeconds
+      : 0;
+
+    return {
+      jobId: checkpoint.jobId,
+      namespaceId: checkpoint.namespaceId,
+      format: checkpoint.format,
+      filePath: checkpoint.filePath,
+      status: checkpoint.status,
+      phase,
+      rowsWritten: checkpoint.rowsWritten,
+      totalRows: checkpoint.totalRows,
+      bytesWritten: checkpoint.bytesWritten,
+      rowsPerSecond,
+      etaSeconds: estimateEtaSeconds(checkpoint.rowsWritten, checkpoint.totalRows, rowsPerSecond),
+      error: checkpoint.error,
+    };
+  }
+}
@@ -0,0 +1,322 @@
+/**
+ * Parsing, schema mapping and batch sizing for streaming imports.
+ *
+ * Kept free of Electron and filesystem access so the import service can stay
+ * focused on reading files, writing batches and reporting progress.
+ */
+
+import type { ImportColumnMapping, ImportFileFormat } from '../../types/import';
+
+export interface CsvRecord {
+  line: number; // Line the record starts on
+  values: string[];
+  error?: string;
+}
+
+const IMPORT_EXTENSIONS: Record<string, ImportFileFormat> = {
+  ndjson: 'ndjson',
+  jsonl: 'ndjson',
+  csv: 'csv',
+  parquet: 'parquet',
+  json: 'json',
+};
+
+export function detectImportFormat(filePath: string): ImportFileFormat {
+  const extension = filePath.split('.').pop()?.toLowerCase() ?? '';
+  const format = IMPORT_EXTENSIONS[extension];
+  if (!format) {
+    throw new Error('Unsupported file format. Please use NDJSON, CSV, Parquet or JSON.');
+  }
+  return format;
+}
+
+/**
+ * Incremental RFC 4180 parser. Quoted fields may contain commas, doubled
+ * quotes and line breaks, and records may span chunk boundaries.
+ */
+export class CsvRecordParser {
+  private field = '';
+  private record: string[] = [];
+  private inQuotes = false;
+  private quotePending = false; // Saw a quote inside a quoted field: escape or end
+  private fieldQuoted = false;
+  private line = 1;
+  private recordLine = 1;
+  private started = false;
+
+  push(chunk: string): CsvRecord[] {
+    const records: CsvRecord[] = [];
+    let text = chunk;
+    if (!this.started) {
+      // Strip a UTF-8 byte order mark
+      text = text.replace(/^\uFEFF/, '');
+      this.started = true;
+    }
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (this.inQuotes) {
+        if (this.quotePending) {
+          this.quotePending = false;
+          if (char === '"') {
+            this.field += '"';
+            continue;
+          }
+          this.inQuotes = false;
+          // Fall through: the character after the closing quote is unquoted
+        } else if (char === '"') {
+          this.quotePending = true;
+          continue;
+        } else {
+          if (char === '\n') this.line++;
+          this.field += char;
+          continue;
+        }
+      }
+
+      if (char === '"' && this.field === '' && !this.fieldQuoted) {
+        this.inQuotes = true;
+        this.fieldQuoted = true;
+      } else if (char === ',') {
+        this.endField();
+      } else if (char === '\n') {
+        this.endField();
+        this.endRecord(records);
+        this.line++;
+        this.recordLine = this.line;
+      } else if (char !== '\r') {
+        this.field += char;
+      }
+    }
+
+    return records;
+  }
+
+  end(): CsvRecord[] {
+    const records: CsvRecord[] = [];
+    if (this.quotePending) {
+      this.quotePending = false;
+      this.inQuotes = false;
+    }
+    if (this.inQuotes) {
+      records.push({
+        line: this.recordLine,
+        values: [],
+        error: 'Unterminated quoted field',
+      });
+      return records;
+    }
+    if (this.field !== '' || this.fieldQuoted || this.record.length > 0) {
+      this.endField();
+      this.endRecord(records);
+    }
+    return records;
+  }
+
+  private endField(): void {
+    this.record.push(this.field);
+    this.field = '';
+    this.fieldQuoted = false;
+  }
+
+  private endRecord(records: CsvRecord[]): void {
+    const isBlank = this.record.length === 1 && this.record[0] === '';
+    if (!isBlank) {
+      records.push({ line: this.recordLine, values: this.record });
+    }
+    this.record = [];
+  }
+}
+
+const VECTOR_TYPE = /^\[(\d+)\]f(16|32)$/;
+
+function parseJsonValue(value: string, expected: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new Error(`expected ${expected}, got "${value}"`);
+  }
+}
+
+/**
+ * Guess a value's type when the target attribute has no schema yet. Strings
+ * that look like numbers, booleans or JSON arrays are converted.
+ */
+export function inferValue(value: unknown): unknown {
+  if (typeof value === 'bigint') {
+    return Number.isSafeInteger(Number(value)) ? Number(value) : value.toString();
+  }
+  if (typeof value !== 'string') return value;
+
+  const trimmed = value.trim();
+  if (trimmed === 'true' || trimmed === 'false') return trimmed === 'true';
+  if (/^-?\d+(\.\d+)?([eE][-+]?\d+)?$/.test(trimmed)) {
+    const number = Number(trimmed);
+    if (Number.isFinite(number) && (!Number.isInteger(number) || Number.isSafeInteger(number))) {
+      return number;
+    }
+  }
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      return value;
+    }
+  }
+  return value;
+}
+
+/**
+ * Convert a value to a Turbopuffer schema type. Throws with a short reason
+ * when the value does not fit.
+ */
+export function coerceValue(value: unknown, type?: string): unknown {
+  if (!type) return inferValue(value);
+
+  const vectorMatch = type.match(VECTOR_TYPE);
+  if (vectorMatch) {
+    const vector = typeof value === 'string' ? parseJsonValue(value, 'a vector') : value;
+    const dimensions = Number(vectorMatch[1]);
+    if (!Array.isArray(vector) || vector.some(v => typeof v !== 'number' || !Number.isFinite(v))) {
+      throw new Error('expected an array of numbers for the vector');
+    }
+    if (vector.length !== dimensions) {
+      throw new Error(`expected ${dimensions} vector dimensions, got ${vector.length}`);
+    }
+    return vector;
+  }
+
+  if (type.startsWith('[]')) {
+    const items = typeof value === 'string' ? parseJsonValue(value, `a JSON array for ${type}`) : value;
+    if (!Array.isArray(items)) {
+      throw new Error(`expected an array for ${type}`);
+    }
+    const itemType = type.slice(2);
+    return items.map(item => coerceValue(item, itemType));
+  }
+
+  switch (type) {
+    case 'int':
+    case 'uint': {
+      const number = Number(value);
+      if (typeof value === 'boolean' || !Number.isInteger(number) || (type === 'uint' && number < 0)) {
+        throw new Error(`expected ${type}, got "${String(value)}"`);
+      }
+      return number;
+    }
+    case 'float': {
+      const number = Number(value);
+      if (typeof value === 'boolean' || !Number.isFinite(number)) {
+        throw new Error(`expected float, got "${String(value)}"`);
+      }
+      return number;
+    }
+    case 'bool':
+      if (typeof value === 'boolean') return value;
+      if (value === 'true' || value === '1' || value === 1) return true;
+      if (value === 'false' || value === '0' || value === 0) return false;
+      throw new Error(`expected bool, got "${String(value)}"`);
+    case 'datetime':
+      return value instanceof Date ? value.toISOString() : String(value);
+    default:
+      // string, uuid
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+}
+
+/**
+ * Coerce an id the way the rest of the app treats ids: numeric strings become
+ * numbers, everything else stays a string.
+ */
+export function coerceId(value: unknown): string | number {
+  if (typeof value === 'number' && Number.isSafeInteger(value)) return value;
+  if (typeof value === 'bigint') return Number.isSafeInteger(Number(value)) ? Number(value) : value.toString();
+  const text = String(value).trim();
+  return /^\d+$/.test(text) && Number.isSafeInteger(Number(text)) ? Number(text) : text;
+}
+
+/**
+ * Map a parsed source record to a Turbopuffer row. Empty values are left out
+ * so they do not overwrite attributes with nulls.
+ */
+export function mapRecord(
+  record: Record<string, unknown>,
+  mapping: ImportColumnMapping[],
+  idColumn: string | null,
+  generateId: () => string
+): Record<string, unknown> {
+  const row: Record<string, unknown> = {};
+
+  if (idColumn) {
+    const id = record[idColumn];
+    if (id === undefined || id === null || id === '') {
+      throw new Error(`missing id in column "${idColumn}"`);
+    }
+    row.id = coerceId(id);
+  } else {
+    row.id = generateId();
+  }
+
+  for (const { source, target, type } of mapping) {
+    if (!target || source === idColumn) continue;
+    const value = record[source];
+    if (value === undefined || value === null || value === '') continue;
+    try {
+      row[target] = coerceValue(value, type);
+    } catch (error) {
+      throw new Error(`${source}: ${error instanceof Error ? error.message : 'invalid value'}`);
+    }
+  }
+
+  return row;
+}
+
+/**
+ * Turn hyparquet's decoded values into JSON-friendly ones.
+ */
+export function normalizeParquetValue(value: unknown): unknown {
+  if (typeof value === 'bigint') {
+    return Number.isSafeInteger(Number(value)) ? Number(value) : value.toString();
+  }
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(normalizeParquetValue);
+  if (value && typeof value === 'object' && !(value instanceof Uint8Array)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, v]) => [key, normalizeParquetValue(v)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Grows the batch while writes are fast and shrinks it when they are slow or
+ * rejected as too large.
+ */
+export class AdaptiveBatchSizer {
+  static readonly FAST_MS = 1_000;
+  static readonly SLOW_MS = 5_000;
+
+  private size: number;
+
+  constructor(initial: number, private readonly min = 1, private readonly max = 10_000) {
+    this.size = Math.min(max, Math.max(min, Math.floor(initial)));
+  }
+
+  get current(): number {
+    return this.size;
+  }
+
+  recordSuccess(durationMs: number, rows: number): void {
+    // Only grow when the batch was full; short tail batches say little about throughput
+    if (durationMs < AdaptiveBatchSizer.FAST_MS && rows >= this.size) {
+      this.size = Math.min(this.max, Math.ceil(this.size * 1.5));
+    } else if (durationMs > AdaptiveBatchSizer.SLOW_MS) {
+      this.shrink();
+    }
+  }
+
+  shrink(): void {
+    this.size = Math.max(this.min, Math.floor(this.size / 2));
+  }
+}
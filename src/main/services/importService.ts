@@ -0,0 +1,512 @@
+import { app } from 'electron';
+import type { Turbopuffer } from '@turbopuffer/turbopuffer';
+import { v4 as uuidv4 } from 'uuid';
+import { parquetMetadataAsync, parquetReadObjects } from 'hyparquet';
+import type { AsyncBuffer } from 'hyparquet';
+import * as fs from 'fs/promises';
+import { createReadStream } from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import { createTurbopufferClient } from './turbopufferClient';
+import { EmbeddingService } from './embeddingService';
+import { AuditLogService } from './auditLogService';
+import {
+  AdaptiveBatchSizer,
+  CsvRecordParser,
+  detectImportFormat,
+  mapRecord,
+  normalizeParquetValue,
+} from './importFormats';
+import type {
+  ImportFileFormat,
+  ImportFilePreview,
+  ImportJobOptions,
+  ImportProgress,
+  ImportRowError,
+} from '../../types/import';
+
+type ProgressListener = (progress: ImportProgress) => void;
+
+interface SourceRecord {
+  line: number;
+  record?: Record<string, unknown>;
+  error?: string;
+}
+
+interface PendingRow {
+  line: number;
+  row: Record<string, unknown>;
+  text?: string; // Source text for the embedding, when one is requested
+}
+
+interface ImportJob {
+  options: ImportJobOptions;
+  progress: ImportProgress;
+  cancelRequested: boolean;
+}
+
+const DEFAULT_BATCH_SIZE = 500;
+const MAX_BATCH_SIZE = 10_000;
+const MAX_BATCH_BYTES = 32 * 1024 * 1024; // Well below the write request limit
+const MAX_REPORTED_ERRORS = 200;
+const PREVIEW_ROWS = 5;
+const MAX_RETRIES = 5;
+const RETRY_BASE_DELAY_MS = 1_000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const errorStatus = (error: unknown): number | undefined =>
+  typeof (error as any)?.status === 'number' ? (error as any).status : undefined;
+
+// Network errors carry no status; 408, 429 and 5xx are worth another try
+const isTransient = (error: unknown): boolean => {
+  const status = errorStatus(error);
+  return status === undefined || status === 408 || status === 429 || status >= 500;
+};
+
+function embeddingText(record: Record<string, unknown>, column: string): string {
+  const value = record[column];
+  const text = typeof value === 'string' ? value.trim() : value == null ? '' : String(value);
+  if (!text) {
+    throw new Error(`${column}: no text to embed`);
+  }
+  return text;
+}
+
+async function fileAsyncBuffer(handle: fs.FileHandle): Promise<AsyncBuffer> {
+  const { size } = await handle.stat();
+  return {
+    byteLength: size,
+    async slice(start: number, end?: number) {
+      const length = (end ?? size) - start;
+      const buffer = Buffer.alloc(length);
+      await handle.read(buffer, 0, length, start);
+      return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + length);
+    },
+  };
+}
+
+/**
+ * Streams NDJSON, CSV and Parquet files into a namespace from the main
+ * process, so files far larger than memory can be imported.
+ *
+ * Rows are mapped to the namespace schema and written in batches whose size
+ * adapts to write latency. A batch the server rejects is split until the
+ * offending rows are isolated; each of those is reported with its line number
+ * and the server error, and the rest of the batch is still written.
+ */
+export class ImportService {
+  private static instance: ImportService;
+  private importsDir: string;
+  private jobs: Map<string, ImportJob> = new Map();
+
+  private constructor() {
+    const userDataPath = app.getPath('userData');
+    this.importsDir = path.join(userDataPath, 'imports');
+    this.ensureImportsDir();
+  }
+
+  static getInstance(): ImportService {
+    if (!ImportService.instance) {
+      ImportService.instance = new ImportService();
+    }
+    return ImportService.instance;
+  }
+
+  private async ensureImportsDir(): Promise<void> {
+    try {
+      await fs.mkdir(this.importsDir, { recursive: true });
+    } catch (error) {
+      console.error('Failed to create imports directory:', error);
+    }
+  }
+
+  /**
+   * Read the first few records to show columns and a sample before importing.
+   */
+  async previewFile(filePath: string): Promise<ImportFilePreview> {
+    const format = detectImportFormat(filePath);
+    const { size } = await fs.stat(filePath);
+    const sampleRows: Record<string, unknown>[] = [];
+    let columns: string[] = [];
+
+    if (format === 'parquet') {
+      const handle = await fs.open(filePath, 'r');
+      try {
+        const file = await fileAsyncBuffer(handle);
+        const metadata = await parquetMetadataAsync(file);
+        columns = metadata.schema.slice(1)
+          .filter(element => element.num_children === undefined)
+          .map(element => element.name);
+      } finally {
+        await handle.close();
+      }
+    }
+
+    for await (const source of this.readRecords(filePath, format, { columnsOut: names => (columns = names) })) {
+      if (source.record) sampleRows.push(source.record);
+      if (sampleRows.length >= PREVIEW_ROWS) break;
+    }
+
+    if (format === 'ndjson' || format === 'json') {
+      const names = new Set<string>();
+      sampleRows.forEach(row => Object.keys(row).forEach(key => names.add(key)));
+      columns = Array.from(names);
+    }
+
+    return {
+      filePath,
+      fileName: path.basename(filePath),
+      format,
+      fileSize: size,
+      columns,
+      sampleRows,
+    };
+  }
+
+  /**
+   * Start an import in the background and return its job id.
+   */
+  async startImport(options: ImportJobOptions, onProgress: ProgressListener): Promise<string> {
+    await this.ensureImportsDir();
+    const client = await createTurbopufferClient(options.connectionId, { write: true });
+    const { size } = await fs.stat(options.filePath);
+    if (options.embedding && !(await EmbeddingService.getInstance().getConfig(options.connectionId))) {
+      throw new Error('No embedding provider is configured for this connection');
+    }
+
+    const jobId = uuidv4();
+    const startedAt = Date.now();
+    const job: ImportJob = {
+      options,
+      cancelRequested: false,
+      progress: {
+        jobId,
+        filePath: options.filePath,
+        status: 'running',
+        rowsRead: 0,
+        rowsWritten: 0,
+        rowsFailed: 0,
+        bytesRead: 0,
+        totalBytes: size,
+        batchSize: options.initialBatchSize ?? DEFAULT_BATCH_SIZE,
+        errors: [],
+        errorLogPath: null,
+      },
+    };
+    this.jobs.set(jobId, job);
+
+    this.runImport(job, client, onProgress)
+      .catch((error) => {
+        console.error(`Import ${jobId} failed:`, error);
+        job.progress.status = 'failed';
+        job.progress.error = error instanceof Error ? error.message : 'Unknown error';
+      })
+      .finally(() => {
+        onProgress({ ...job.progress });
+        this.jobs.delete(jobId);
+        const { progress } = job;
+        AuditLogService.getInstance().record({
+          connectionId: options.connectionId,
+          namespaceId: options.namespaceId,
+          operation: 'import',
+          summary: `Import ${path.basename(options.filePath)}`,
+          payload: { file: options.filePath, format: options.format, rowsRead: progress.rowsRead, rowsFailed: progress.rowsFailed },
+          rowCount: progress.rowsWritten,
+          startedAt,
+          durationMs: Date.now() - startedAt,
+          outcome: progress.status === 'completed' ? 'success' : 'failure',
+          error: progress.error ?? (progress.status === 'canceled' ? 'Canceled' : undefined),
+        }).catch(error => console.error('Failed to write audit log:', error));
+      });
+
+    return jobId;
+  }
+
+  async cancelImport(jobId: string): Promise<void> {
+    const job = this.jobs.get(jobId);
+    if (job) {
+      // The import stops after the batch in flight
+      job.cancelRequested = true;
+    }
+  }
+
+  private async runImport(job: ImportJob, client: Turbopuffer, onProgress: ProgressListener): Promise<void> {
+    const { options, progress } = job;
+    const ns = client.namespace(options.namespaceId);
+    const sizer = new AdaptiveBatchSizer(progress.batchSize, 1, MAX_BATCH_SIZE);
+    let pending: PendingRow[] = [];
+    let pendingBytes = 0;
+    let vectorBytes = 0; // Size of one generated embedding, once known
+
+    const flush = async () => {
+      if (pending.length === 0) return;
+      const batch = pending;
+      pending = [];
+      pendingBytes = 0;
+      if (options.embedding) {
+        await this.embedBatch(batch, job);
+        vectorBytes = JSON.stringify(batch[0].row[options.embedding.targetAttribute]).length;
+      }
+      await this.writeBatch(ns, batch, job, sizer);
+      progress.batchSize = sizer.current;
+      onProgress({ ...progress, errors: [...progress.errors] });
+    };
+
+    const records = this.readRecords(options.filePath, options.format, {
+      bytesOut: bytes => (progress.bytesRead = bytes),
+    });
+
+    for await (const source of records) {
+      if (job.cancelRequested) break;
+      progress.rowsRead++;
+
+      if (source.error || !source.record) {
+        await this.recordError(job, { line: source.line, error: source.error ?? 'Unreadable row' });
+        continue;
+      }
+
+      try {
+        const row = mapRecord(source.record, options.mapping, options.idColumn, uuidv4);
+        const text = options.embedding ? embeddingText(source.record, options.embedding.sourceColumn) : undefined;
+        pending.push({ line: source.line, row, text });
+        pendingBytes += JSON.stringify(row).length + vectorBytes;
+      } catch (error) {
+        await this.recordError(job, {
+          line: source.line,
+          error: error instanceof Error ? error.message : 'Invalid row',
+        });
+        continue;
+      }
+
+      if (pending.length >= sizer.current || pendingBytes >= MAX_BATCH_BYTES) {
+        await flush();
+      }
+    }
+
+    if (!job.cancelRequested) {
+      await flush();
+      progress.bytesRead = progress.totalBytes;
+    }
+    progress.status = job.cancelRequested ? 'canceled' : 'completed';
+  }
+
+  /**
+   * Fill the target vector attribute of each row from its source text. A
+   * provider that keeps failing stops the import: every later batch would fail
+   * the same way.
+   */
+  private async embedBatch(batch: PendingRow[], job: ImportJob): Promise<void> {
+    const { connectionId, embedding } = job.options;
+    if (!embedding) return;
+
+    let attempt = 0;
+    let vectors: number[][] | null = null;
+    while (!vectors) {
+      try {
+        vectors = await EmbeddingService.getInstance().embed(connectionId, batch.map(pending => pending.text ?? ''));
+      } catch (error) {
+        attempt++;
+        if (!isTransient(error) || attempt >= MAX_RETRIES || job.cancelRequested) {
+          throw error;
+        }
+        await sleep(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+      }
+    }
+
+    const embedded = vectors;
+    batch.forEach((pending, i) => {
+      pending.row[embedding.targetAttribute] = embedded[i];
+    });
+  }
+
+  /**
+   * Write a batch, splitting it on failure until single bad rows are isolated.
+   */
+  private async writeBatch(
+    ns: ReturnType<Turbopuffer['namespace']>,
+    batch: PendingRow[],
+    job: ImportJob,
+    sizer: AdaptiveBatchSizer
+  ): Promise<void> {
+    const startedAt = Date.now();
+    try {
+      await this.writeWithRetry(ns, batch, job);
+      sizer.recordSuccess(Date.now() - startedAt, batch.length);
+      job.progress.rowsWritten += batch.length;
+    } catch (error) {
+      if (batch.length === 1) {
+        await this.recordError(job, {
+          line: batch[0].line,
+          id: batch[0].row.id as string | number,
+          error: error instanceof Error ? error.message : 'Write failed',
+        });
+        return;
+      }
+      if (errorStatus(error) === 413) {
+        sizer.shrink();
+      }
+      const middle = Math.ceil(batch.length / 2);
+      await this.writeBatch(ns, batch.slice(0, middle), job, sizer);
+      await this.writeBatch(ns, batch.slice(middle), job, sizer);
+    }
+  }
+
+  private async writeWithRetry(
+    ns: ReturnType<Turbopuffer['namespace']>,
+    batch: PendingRow[],
+    job: ImportJob
+  ): Promise<void> {
+    let attempt = 0;
+    let hasMore = true;
+    while (hasMore) {
+      try {
+        await ns.write({
+          upsert_rows: batch.map(pending => pending.row),
+          distance_metric: job.options.distanceMetric ?? 'cosine_distance',
+        } as any);
+        hasMore = false;
+      } catch (error) {
+        attempt++;
+        if (!isTransient(error) || attempt >= MAX_RETRIES || job.cancelRequested) {
+          throw error;
+        }
+        await sleep(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+      }
+    }
+  }
+
+  /**
+   * Keep the first errors for the UI and append every error to a log file.
+   */
+  private async recordError(job: ImportJob, rowError: ImportRowError): Promise<void> {
+    const { progress } = job;
+    progress.rowsFailed++;
+    if (progress.errors.length < MAX_REPORTED_ERRORS) {
+      progress.errors.push(rowError);
+    }
+    if (!progress.errorLogPath) {
+      progress.errorLogPath = path.join(this.importsDir, `${progress.jobId}-errors.ndjson`);
+    }
+    try {
+      await fs.appendFile(progress.errorLogPath, JSON.stringify(rowError) + '\n', 'utf-8');
+    } catch (error) {
+      console.error('Failed to write import error log:', error);
+    }
+  }
+
+  /**
+   * Yield source records one at a time with the line (or row) they came from.
+   */
+  private async *readRecords(
+    filePath: string,
+    format: ImportFileFormat,
+    hooks: { bytesOut?: (bytes: number) => void; columnsOut?: (columns: string[]) => void } = {}
+  ): AsyncGenerator<SourceRecord> {
+    if (format === 'parquet') {
+      yield* this.readParquet(filePath, hooks.bytesOut);
+      return;
+    }
+
+    if (format === 'json') {
+      // JSON arrays cannot be streamed without a full parser; NDJSON is the large-file format
+      const data = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+      const items: unknown[] = Array.isArray(data) ? data : [data];
+      for (let i = 0; i < items.length; i++) {
+        const item = items[i];
+        yield item && typeof item === 'object'
+          ? { line: i + 1, record: item as Record<string, unknown> }
+          : { line: i + 1, error: 'Expected a JSON object' };
+      }
+      return;
+    }
+
+    const stream = createReadStream(filePath, { encoding: 'utf-8' });
+    try {
+      if (format === 'ndjson') {
+        const lines = readline.createInterface({ input: stream, crlfDelay: Infinity });
+        let line = 0;
+        for await (const text of lines) {
+          line++;
+          hooks.bytesOut?.(stream.bytesRead);
+          if (!text.trim()) continue;
+          try {
+            const record = JSON.parse(text);
+            yield record && typeof record === 'object' && !Array.isArray(record)
+              ? { line, record }
+              : { line, error: 'Expected a JSON object' };
+          } catch {
+            yield { line, error: 'Invalid JSON' };
+          }
+        }
+        return;
+      }
+
+      const parser = new CsvRecordParser();
+      let header: string[] | null = null;
+      const toSource = (csvRecord: ReturnType<CsvRecordParser['end']>[number]): SourceRecord | null => {
+        if (csvRecord.error) return { line: csvRecord.line, error: csvRecord.error };
+        if (!header) {
+          header = csvRecord.values.map(value => value.trim());
+          hooks.columnsOut?.(header);
+          return null;
+        }
+        if (csvRecord.values.length !== header.length) {
+          return {
+            line: csvRecord.line,
+            error: `Expected ${header.length} fields, found ${csvRecord.values.length}`,
+          };
+        }
+        const record: Record<string, unknown> = {};
+        header.forEach((name, i) => {
+          record[name] = csvRecord.values[i];
+        });
+        return { line: csvRecord.line, record };
+      };
+
+      for await (const chunk of stream) {
+        hooks.bytesOut?.(stream.bytesRead);
+        for (const csvRecord of parser.push(chunk as string)) {
+          const source = toSource(csvRecord);
+          if (source) yield source;
+        }
+      }
+      for (const csvRecord of parser.end()) {
+        const source = toSource(csvRecord);
+        if (source) yield source;
+      }
+    } finally {
+      stream.destroy();
+    }
+  }
+
+  private async *readParquet(
+    filePath: string,
+    bytesOut?: (bytes: number) => void
+  ): AsyncGenerator<SourceRecord> {
+    const handle = await fs.open(filePath, 'r');
+    try {
+      const file = await fileAsyncBuffer(handle);
+      const metadata = await parquetMetadataAsync(file);
+      const totalRows = Number(metadata.num_rows);
+      let rowStart = 0;
+
+      // One row group at a time keeps memory bounded by the row group size
+      for (const rowGroup of metadata.row_groups) {
+        const rowEnd = rowStart + Number(rowGroup.num_rows);
+        const rows = await parquetReadObjects({ file, metadata, rowStart, rowEnd });
+        for (let i = 0; i < rows.length; i++) {
+          const record: Record<string, unknown> = {};
+          Object.entries(rows[i]).forEach(([key, value]) => {
+            record[key] = normalizeParquetValue(value);
+          });
+          yield { line: rowStart + i + 1, record };
+        }
+        rowStart = rowEnd;
+        bytesOut?.(totalRows > 0 ? Math.round((rowStart / totalRows) * file.byteLength) : file.byteLength);
+      }
+    } finally {
+      await handle.close();
+    }
+  }
+}
@@ -0,0 +1,334 @@
+import type { Turbopuffer } from '@turbopuffer/turbopuffer';
+import { v4 as uuidv4 } from 'uuid';
+import { createTurbopufferClient } from './turbopufferClient';
+import { AuditLogService } from './auditLogService';
+import { applyAttributeMappings, applySchemaMappings, RowChecksum } from './migrationTransforms';
+import type { MigrationJobOptions, MigrationProgress, MigrationRowError } from '../../types/migration';
+
+type ProgressListener = (progress: MigrationProgress) => void;
+type Namespace = ReturnType<Turbopuffer['namespace']>;
+type Row = Record<string, unknown>;
+
+interface MigrationJob {
+  options: MigrationJobOptions;
+  progress: MigrationProgress;
+  cancelRequested: boolean;
+}
+
+const DEFAULT_PAGE_SIZE = 1_000;
+const MAX_PAGE_SIZE = 10_000; // Turbopuffer max top_k
+const MAX_REPORTED_ERRORS = 200;
+const MAX_RETRIES = 5;
+const RETRY_BASE_DELAY_MS = 1_000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const errorStatus = (error: unknown): number | undefined =>
+  typeof (error as any)?.status === 'number' ? (error as any).status : undefined;
+
+// Network errors carry no status; 408, 429 and 5xx are worth another try
+const isTransient = (error: unknown): boolean => {
+  const status = errorStatus(error);
+  return status === undefined || status === 408 || status === 429 || status >= 500;
+};
+
+/**
+ * Copies a namespace between two saved connections, which may be in different
+ * regions or organizations.
+ *
+ * The source schema is applied to the target with the first write. Pages are
+ * read from the source in id order and written to the target as they arrive,
+ * so only one page is held in memory. Afterwards the target is read back in
+ * the same order and its row count and checksum are compared with what was
+ * read from the source.
+ */
+export class MigrationService {
+  private static instance: MigrationService;
+  private jobs: Map<string, MigrationJob> = new Map();
+
+  static getInstance(): MigrationService {
+    if (!MigrationService.instance) {
+      MigrationService.instance = new MigrationService();
+    }
+    return MigrationService.instance;
+  }
+
+  /**
+   * Check both sides, then start the migration in the background and return its job id.
+   */
+  async startMigration(options: MigrationJobOptions, onProgress: ProgressListener): Promise<string> {
+    const {
+      sourceConnectionId,
+      sourceNamespaceId,
+      targetConnectionId,
+      targetNamespaceId,
+    } = options;
+    if (sourceConnectionId === targetConnectionId && sourceNamespaceId === targetNamespaceId) {
+      throw new Error('Source and target are the same namespace');
+    }
+
+    const source = (await createTurbopufferClient(sourceConnectionId)).namespace(sourceNamespaceId);
+    const target = (await createTurbopufferClient(targetConnectionId, { write: true })).namespace(targetNamespaceId);
+
+    if (!(await source.exists())) {
+      throw new Error(`Source namespace "${sourceNamespaceId}" does not exist`);
+    }
+    // Verification compares whole namespaces, so the target must start out empty
+    if (await target.exists()) {
+      const metadata = await target.metadata();
+      if (metadata.approx_row_count > 0) {
+        throw new Error(`Target namespace "${targetNamespaceId}" already has documents`);
+      }
+    }
+
+    const totalRows = await this.countRows(source, options.filters);
+
+    const jobId = uuidv4();
+    const startedAt = Date.now();
+    const job: MigrationJob = {
+      options,
+      cancelRequested: false,
+      progress: {
+        jobId,
+        status: 'running',
+        phase: 'schema',
+        totalRows,
+        rowsRead: 0,
+        rowsWritten: 0,
+        rowsFailed: 0,
+        rowsVerified: 0,
+        errors: [],
+      },
+    };
+    this.jobs.set(jobId, job);
+
+    this.runMigration(job, source, target, onProgress)
+      .catch((error) => {
+        console.error(`Migration ${jobId} failed:`, error);
+        job.progress.status = 'failed';
+        job.progress.error = error instanceof Error ? error.message : 'Unknown error';
+      })
+      .finally(() => {
+        onProgress({ ...job.progress });
+        this.jobs.delete(jobId);
+        const { progress } = job;
+        AuditLogService.getInstance().record({
+          connectionId: targetConnectionId,
+          namespaceId: targetNamespaceId,
+          operation: 'migration',
+          summary: `Migrate from ${sourceNamespaceId}`,
+          payload: {
+            sourceConnectionId,
+            sourceNamespaceId,
+            filter: options.filters,
+            rowsRead: progress.rowsRead,
+            rowsFailed: progress.rowsFailed,
+          },
+          rowCount: progress.rowsWritten,
+          startedAt,
+          durationMs: Date.now() - startedAt,
+          outcome: progress.status === 'completed' ? 'success' : 'failure',
+          error: progress.error ?? (progress.status === 'canceled' ? 'Canceled' : undefined),
+        }).catch(error => console.error('Failed to write audit log:', error));
+      });
+
+    return jobId;
+  }
+
+  async cancelMigration(jobId: string): Promise<void> {
+    const job = this.jobs.get(jobId);
+    if (job) {
+      // The migration stops after the page in flight
+      job.cancelRequested = true;
+    }
+  }
+
+  private async runMigration(
+    job: MigrationJob,
+    source: Namespace,
+    target: Namespace,
+    onProgress: ProgressListener
+  ): Promise<void> {
+    const { options, progress } = job;
+    const pageSize = Math.min(options.pageSize ?? DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+    const report = () => onProgress({ ...progress, errors: [...progress.errors] });
+
+    let schema: Record<string, unknown> | undefined;
+    if (options.applySchema !== false) {
+      schema = applySchemaMappings(await source.schema() as Record<string, unknown>, options.attributes);
+    }
+    const distanceMetric = options.distanceMetric
+      ?? (schema?.vector as any)?.ann?.distance_metric
+      ?? 'cosine_distance';
+
+    progress.phase = 'copying';
+    report();
+
+    const sourceChecksum = new RowChecksum();
+    let cursor: string | number | null = null;
+    let hasMore = true;
+    while (hasMore && !job.cancelRequested) {
+      const page = await this.fetchPage(source, options.filters ?? null, cursor, pageSize, job);
+      if (page.length === 0) break;
+
+      cursor = page[page.length - 1].id as string | number;
+      hasMore = page.length === pageSize;
+      progress.rowsRead += page.length;
+
+      const rows = page.map(row => applyAttributeMappings(row, options.attributes));
+      await this.writeBatch(target, rows, { distanceMetric, schema }, job);
+      // The schema only needs to go out with the first successful write
+      if (progress.rowsWritten > 0) schema = undefined;
+      rows.forEach(row => sourceChecksum.update(row));
+      report();
+    }
+
+    if (job.cancelRequested) {
+      progress.status = 'canceled';
+      return;
+    }
+
+    progress.phase = 'verifying';
+    report();
+
+    const targetChecksum = new RowChecksum();
+    cursor = null;
+    hasMore = true;
+    while (hasMore && !job.cancelRequested) {
+      const page = await this.fetchPage(target, null, cursor, pageSize, job);
+      if (page.length === 0) break;
+
+      cursor = page[page.length - 1].id as string | number;
+      hasMore = page.length === pageSize;
+      page.forEach(row => targetChecksum.update(row));
+      progress.rowsVerified += page.length;
+      report();
+    }
+
+    if (job.cancelRequested) {
+      progress.status = 'canceled';
+      return;
+    }
+
+    const sourceDigest = sourceChecksum.digest();
+    const targetDigest = targetChecksum.digest();
+    const targetRows = await this.countRows(target, null);
+    progress.verification = {
+      sourceRows: sourceChecksum.rows,
+      targetRows,
+      sourceChecksum: sourceDigest,
+      targetChecksum: targetDigest,
+      countsMatch: sourceChecksum.rows === targetRows,
+      checksumsMatch: sourceDigest === targetDigest,
+    };
+    progress.phase = 'done';
+    progress.status = 'completed';
+  }
+
+  private async countRows(ns: Namespace, filters: MigrationJobOptions['filters']): Promise<number> {
+    const result: any = await ns.query({
+      filters: (filters ?? undefined) as any,
+      aggregate_by: { count: ['Count'] },
+    } as any);
+    return Number(result.aggregations?.count ?? 0);
+  }
+
+  /**
+   * Fetch the page after `cursor` with every attribute, retrying transient failures.
+   */
+  private async fetchPage(
+    ns: Namespace,
+    filters: MigrationJobOptions['filters'],
+    cursor: string | number | null,
+    pageSize: number,
+    job: MigrationJob
+  ): Promise<Row[]> {
+    const cursorFilter = cursor !== null ? ['id', 'Gt', cursor] : null;
+    const combined = filters && cursorFilter
+      ? ['And', [filters, cursorFilter]]
+      : filters ?? cursorFilter ?? undefined;
+
+    let attempt = 0;
+    let lastError: unknown;
+    while (attempt < MAX_RETRIES && !job.cancelRequested) {
+      try {
+        const result = await ns.query({
+          rank_by: ['id', 'asc'],
+          top_k: pageSize,
+          filters: combined as any,
+          include_attributes: true,
+        } as any);
+        return (result.rows ?? []) as Row[];
+      } catch (error) {
+        lastError = error;
+        attempt++;
+        if (!isTransient(error)) break;
+        if (attempt < MAX_RETRIES) {
+          await sleep(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+        }
+      }
+    }
+
+    if (job.cancelRequested) return [];
+    throw lastError instanceof Error ? lastError : new Error('Failed to read page');
+  }
+
+  /**
+   * Write a batch, splitting it on failure until single bad rows are isolated.
+   */
+  private async writeBatch(
+    ns: Namespace,
+    rows: Row[],
+    params: { distanceMetric: string; schema?: Record<string, unknown> },
+    job: MigrationJob
+  ): Promise<void> {
+    try {
+      await this.writeWithRetry(ns, rows, params, job);
+      job.progress.rowsWritten += rows.length;
+    } catch (error) {
+      if (rows.length === 1) {
+        this.recordError(job, {
+          id: rows[0].id as string | number,
+          error: error instanceof Error ? error.message : 'Write failed',
+        });
+        return;
+      }
+      const middle = Math.ceil(rows.length / 2);
+      await this.writeBatch(ns, rows.slice(0, middle), params, job);
+      await this.writeBatch(ns, rows.slice(middle), params, job);
+    }
+  }
+
+  private async writeWithRetry(
+    ns: Namespace,
+    rows: Row[],
+    params: { distanceMetric: string; schema?: Record<string, unknown> },
+    job: MigrationJob
+  ): Promise<void> {
+    let attempt = 0;
+    let hasMore = true;
+    while (hasMore) {
+      try {
+        await ns.write({
+          upsert_rows: rows,
+          distance_metric: params.distanceMetric,
+          ...(params.schema ? { schema: params.schema } : {}),
+        } as any);
+        hasMore = false;
+      } catch (error) {
+        attempt++;
+        if (!isTransient(error) || attempt >= MAX_RETRIES || job.cancelRequested) {
+          throw error;
+        }
+        await sleep(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+      }
+    }
+  }
+
+  private recordError(job: MigrationJob, rowError: MigrationRowError): void {
+    job.progress.rowsFailed++;
+    if (job.progress.errors.length < MAX_REPORTED_ERRORS) {
+      job.progress.errors.push(rowError);
+    }
+  }
+}
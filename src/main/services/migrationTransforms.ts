@@ -0,0 +1,81 @@
+import { createHash, Hash } from 'crypto';
+import type { MigrationAttributeMapping } from '../../types/migration';
+
+type Row = Record<string, unknown>;
+
+/**
+ * Rename or drop attributes. `id` always passes through unchanged.
+ */
+export function applyAttributeMappings(row: Row, mappings: MigrationAttributeMapping[] = []): Row {
+  if (mappings.length === 0) return row;
+
+  const bySource = new Map(mappings.map(mapping => [mapping.source, mapping.target]));
+  const result: Row = {};
+  for (const [key, value] of Object.entries(row)) {
+    if (key === 'id' || !bySource.has(key)) {
+      result[key] = value;
+      continue;
+    }
+    const target = bySource.get(key);
+    if (target) {
+      result[target] = value;
+    }
+  }
+  return result;
+}
+
+/**
+ * Apply the same renames and drops to a namespace schema.
+ */
+export function applySchemaMappings<T>(
+  schema: Record<string, T>,
+  mappings: MigrationAttributeMapping[] = []
+): Record<string, T> {
+  return applyAttributeMappings(schema, mappings) as Record<string, T>;
+}
+
+/**
+ * Serialize a row with sorted keys so equal documents hash equally no matter
+ * which side they were read from. Null attributes are left out, since the
+ * server does not return them.
+ */
+export function canonicalRow(row: Row): string {
+  const canonical = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(canonical);
+    if (value && typeof value === 'object') {
+      return Object.keys(value as Row)
+        .sort()
+        .reduce<Row>((result, key) => {
+          const inner = (value as Row)[key];
+          if (inner !== null && inner !== undefined) {
+            result[key] = canonical(inner);
+          }
+          return result;
+        }, {});
+    }
+    return value;
+  };
+  return JSON.stringify(canonical(row));
+}
+
+/**
+ * Running SHA-256 over rows fed in id order.
+ */
+export class RowChecksum {
+  private hash: Hash = createHash('sha256');
+  private count = 0;
+
+  update(row: Row): void {
+    this.hash.update(canonicalRow(row));
+    this.hash.update('\n');
+    this.count++;
+  }
+
+  get rows(): number {
+    return this.count;
+  }
+
+  digest(): string {
+    return this.hash.digest('hex');
+  }
+}
@@ -1,6 +1,7 @@
 import { app } from 'electron';
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import type { FilterNode } from '../../types/unifiedQuery';
 
 interface SimpleFilter {
   id: string;
@@ -15,6 +16,7 @@ interface FilterHistoryEntry {
   name: string;
   searchText: string;
   filters: SimpleFilter[];
+  groups?: FilterNode[]; // Nested AND/OR/NOT groups, ANDed with filters
   timestamp: number;
   appliedCount: number;
   description?: string;
@@ -24,6 +26,7 @@ interface RecentFilterEntry {
   id: string;
   searchText: string;
   filters: SimpleFilter[];
+  groups?: FilterNode[]; // Nested AND/OR/NOT groups, ANDed with filters
   timestamp: number;
   description?: string;
 }
@@ -33,6 +36,16 @@ interface QueryHistory {
   recent: RecentFilterEntry[];
 }
 
+// Filter structure without node ids, display values or UI state
+const groupSignature = (nodes: FilterNode[] = []): unknown[] =>
+  nodes.map(node => ({
+    type: node.type,
+    attribute: node.attribute,
+    operator: node.operator,
+    value: node.value,
+    children: node.children ? groupSignature(node.children) : undefined,
+  }));
+
 export class QueryHistoryService {
   private static instance: QueryHistoryService;
   private historyDir: string;
@@ -169,7 +182,8 @@ export class QueryHistoryService {
           attribute: f.attribute,
           operator: f.operator,
           value: f.value
-        }))
+        })),
+        groups: groupSignature(item.groups)
       });
       if (seen.has(key)) {
         return false;
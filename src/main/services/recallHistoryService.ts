@@ -0,0 +1,79 @@
+import { app } from 'electron';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { RecallRun } from '../../types/recall';
+
+const MAX_RUNS = 500;
+
+/**
+ * Recall measurements per namespace, kept so ANN quality can be compared
+ * across runs as the namespace grows.
+ */
+export class RecallHistoryService {
+  private static instance: RecallHistoryService;
+  private historyDir: string;
+
+  private constructor() {
+    const userDataPath = app.getPath('userData');
+    this.historyDir = path.join(userDataPath, 'recall-history');
+    this.ensureHistoryDir();
+  }
+
+  static getInstance(): RecallHistoryService {
+    if (!RecallHistoryService.instance) {
+      RecallHistoryService.instance = new RecallHistoryService();
+    }
+    return RecallHistoryService.instance;
+  }
+
+  private async ensureHistoryDir(): Promise<void> {
+    try {
+      await fs.mkdir(this.historyDir, { recursive: true });
+    } catch (error) {
+      console.error('Failed to create recall history directory:', error);
+    }
+  }
+
+  private getHistoryFilePath(connectionId: string, namespaceId: string): string {
+    const safeConnectionId = connectionId.replace(/[^a-zA-Z0-9-_]/g, '_');
+    const safeNamespaceId = namespaceId.replace(/[^a-zA-Z0-9-_]/g, '_');
+    return path.join(this.historyDir, `${safeConnectionId}__${safeNamespaceId}.json`);
+  }
+
+  async loadHistory(connectionId: string, namespaceId: string): Promise<RecallRun[]> {
+    try {
+      const data = await fs.readFile(this.getHistoryFilePath(connectionId, namespaceId), 'utf-8');
+      const runs = JSON.parse(data);
+      return Array.isArray(runs) ? runs : [];
+    } catch (error) {
+      // No runs yet
+      return [];
+    }
+  }
+
+  /**
+   * Append a run and return the updated history, oldest first.
+   */
+  async addRun(connectionId: string, namespaceId: string, run: RecallRun): Promise<RecallRun[]> {
+    const runs = [...(await this.loadHistory(connectionId, namespaceId)), run]
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .slice(-MAX_RUNS);
+    await this.ensureHistoryDir();
+    await fs.writeFile(
+      this.getHistoryFilePath(connectionId, namespaceId),
+      JSON.stringify(runs, null, 2),
+      'utf-8'
+    );
+    return runs;
+  }
+
+  async clearHistory(connectionId: string, namespaceId: string): Promise<void> {
+    try {
+      await fs.unlink(this.getHistoryFilePath(connectionId, namespaceId));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+}
@@ -0,0 +1,35 @@
+import { Turbopuffer } from '@turbopuffer/turbopuffer';
+import type { ClientOptions } from '@turbopuffer/turbopuffer';
+import { CredentialService } from './credentialService';
+import { SettingsService } from './settingsService';
+
+// Created on first use: the credential service needs the app to be ready
+let credentialService: CredentialService | null = null;
+
+/**
+ * A client for a saved connection, using the endpoint and timeout from the
+ * app settings. With `write`, read-only connections are refused.
+ */
+export async function createTurbopufferClient(
+  connectionId: string,
+  options: { write?: boolean } = {}
+): Promise<Turbopuffer> {
+  credentialService ??= new CredentialService();
+  const connection = await credentialService.getConnectionForUse(connectionId);
+  if (options.write && connection.isReadOnly) {
+    throw new Error(`${connection.name} is read-only`);
+  }
+  const settings = await SettingsService.getInstance().loadSettings();
+
+  const config: ClientOptions = {
+    apiKey: connection.apiKey,
+    region: connection.region.id,
+  };
+  if (settings.api.customEndpoint) {
+    config.baseURL = settings.api.customEndpoint;
+  }
+  if (settings.connection.requestTimeout) {
+    config.timeout = settings.connection.requestTimeout * 1000;
+  }
+  return new Turbopuffer(config);
+}
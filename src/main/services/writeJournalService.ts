@@ -0,0 +1,298 @@
+import { app } from 'electron';
+import { createReadStream, createWriteStream } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as readline from 'readline';
+import { once } from 'events';
+import type { Turbopuffer } from '@turbopuffer/turbopuffer';
+import { v4 as uuidv4 } from 'uuid';
+import { createTurbopufferClient } from './turbopufferClient';
+import { AuditLogService } from './auditLogService';
+import type { WriteJournalEntry, WriteSnapshotRequest } from '../../types/writeJournal';
+
+type Namespace = ReturnType<Turbopuffer['namespace']>;
+type QueryParams = NonNullable<Parameters<Namespace['query']>[0]>;
+type WriteParams = NonNullable<Parameters<Namespace['write']>[0]>;
+type Row = NonNullable<WriteParams['upsert_rows']>[number];
+type DistanceMetric = NonNullable<WriteParams['distance_metric']>;
+type QueryFilter = NonNullable<QueryParams['filters']>;
+
+const MAX_ENTRIES = 200; // Per connection; the oldest entries and their rows are dropped
+const PAGE_SIZE = 1_000;
+
+/**
+ * Journal of the writes the GUI sends, one per connection.
+ *
+ * Before a write goes out, the rows it can touch are read, by id or by the
+ * write's filter, and saved as JSONL next to the journal index. Undoing an
+ * entry upserts those rows back, which also restores attributes a patch added
+ * or removed. Only applied writes can be undone: a pending or failed write may
+ * not have changed the rows, so restoring them could overwrite newer edits.
+ */
+export class WriteJournalService {
+  private static instance: WriteJournalService;
+  private journalDir: string;
+  // Index updates are read-modify-write, so they run one at a time
+  private indexQueue: Promise<unknown> = Promise.resolve();
+
+  private constructor() {
+    const userDataPath = app.getPath('userData');
+    this.journalDir = path.join(userDataPath, 'write-journal');
+  }
+
+  static getInstance(): WriteJournalService {
+    if (!WriteJournalService.instance) {
+      WriteJournalService.instance = new WriteJournalService();
+    }
+    return WriteJournalService.instance;
+  }
+
+  private getConnectionDir(connectionId: string): string {
+    return path.join(this.journalDir, connectionId.replace(/[^a-zA-Z0-9-_]/g, '_'));
+  }
+
+  private getIndexPath(connectionId: string): string {
+    return path.join(this.getConnectionDir(connectionId), 'index.json');
+  }
+
+  private getRowsPath(connectionId: string, entryId: string): string {
+    return path.join(this.getConnectionDir(connectionId), `${entryId}.jsonl`);
+  }
+
+  /**
+   * Newest first.
+   */
+  async listEntries(connectionId: string): Promise<WriteJournalEntry[]> {
+    try {
+      const data = await fs.readFile(this.getIndexPath(connectionId), 'utf-8');
+      const entries = JSON.parse(data);
+      return Array.isArray(entries) ? entries : [];
+    } catch (error) {
+      // Nothing journaled yet
+      return [];
+    }
+  }
+
+  private updateEntries<T>(
+    connectionId: string,
+    update: (entries: WriteJournalEntry[]) => T | Promise<T>
+  ): Promise<T> {
+    const run = async () => {
+      const entries = await this.listEntries(connectionId);
+      const result = await update(entries);
+      await fs.mkdir(this.getConnectionDir(connectionId), { recursive: true });
+      await fs.writeFile(this.getIndexPath(connectionId), JSON.stringify(entries, null, 2), 'utf-8');
+      return result;
+    };
+    const next = this.indexQueue.then(run, run);
+    this.indexQueue = next.catch(() => undefined);
+    return next;
+  }
+
+  private updateEntry(
+    connectionId: string,
+    entryId: string,
+    changes: Partial<WriteJournalEntry>
+  ): Promise<WriteJournalEntry> {
+    return this.updateEntries(connectionId, entries => {
+      const entry = entries.find(candidate => candidate.id === entryId);
+      if (!entry) {
+        throw new Error(`Journal entry ${entryId} not found`);
+      }
+      Object.assign(entry, changes);
+      return { ...entry };
+    });
+  }
+
+  /**
+   * Save the current version of every row the write can touch and add a
+   * pending entry for it.
+   */
+  async captureSnapshot(request: WriteSnapshotRequest): Promise<WriteJournalEntry> {
+    const { connectionId, namespaceId, operation, summary, ids, filter } = request;
+    if (!ids && !filter) {
+      throw new Error('A write snapshot needs ids or a filter');
+    }
+
+    const entryId = uuidv4();
+    const ns = (await createTurbopufferClient(connectionId)).namespace(namespaceId);
+    await fs.mkdir(this.getConnectionDir(connectionId), { recursive: true });
+    const rowsPath = this.getRowsPath(connectionId, entryId);
+
+    let capturedRows = 0;
+    const capturedIds = new Set<string | number>();
+    const out = createWriteStream(rowsPath, { encoding: 'utf-8' });
+    try {
+      // The renderer's filter type also admits operators the SDK's union leaves out
+      const pages = ids ? this.readRowsById(ns, ids) : this.readRowsByFilter(ns, filter as QueryFilter);
+      for await (const page of pages) {
+        for (const row of page) {
+          capturedIds.add(row.id);
+          if (!out.write(JSON.stringify(row) + '\n')) {
+            await once(out, 'drain');
+          }
+        }
+        capturedRows += page.length;
+      }
+      out.end();
+      await once(out, 'finish');
+    } catch (error) {
+      out.destroy();
+      await fs.rm(rowsPath, { force: true });
+      throw error;
+    }
+
+    const entry: WriteJournalEntry = {
+      id: entryId,
+      connectionId,
+      namespaceId,
+      operation,
+      summary,
+      timestamp: Date.now(),
+      ...(ids && { ids }),
+      ...(filter && { filter }),
+      capturedRows,
+      createdIds: operation === 'upsert' && ids ? ids.filter(id => !capturedIds.has(id)) : [],
+      status: 'pending',
+    };
+
+    const dropped = await this.updateEntries(connectionId, entries => {
+      entries.unshift(entry);
+      return entries.splice(MAX_ENTRIES);
+    });
+    await Promise.all(
+      dropped.map(old => fs.rm(this.getRowsPath(connectionId, old.id), { force: true }))
+    );
+    return entry;
+  }
+
+  async completeEntry(
+    connectionId: string,
+    entryId: string,
+    result: { rowsAffected?: number; error?: string }
+  ): Promise<WriteJournalEntry> {
+    return this.updateEntry(connectionId, entryId, {
+      status: result.error ? 'failed' : 'applied',
+      rowsAffected: result.rowsAffected,
+      error: result.error,
+    });
+  }
+
+  /**
+   * Upsert the saved rows back and delete rows the write created.
+   */
+  async undoEntry(connectionId: string, entryId: string): Promise<WriteJournalEntry> {
+    const entry = (await this.listEntries(connectionId)).find(candidate => candidate.id === entryId);
+    if (!entry) {
+      throw new Error(`Journal entry ${entryId} not found`);
+    }
+    if (entry.status !== 'applied') {
+      throw new Error(
+        entry.status === 'undone'
+          ? 'This write was already undone'
+          : `Only applied writes can be undone; this one is ${entry.status}`
+      );
+    }
+
+    const ns = (await createTurbopufferClient(connectionId, { write: true })).namespace(entry.namespaceId);
+    const distanceMetric = await this.getDistanceMetric(ns);
+
+    const auditEvent = {
+      connectionId,
+      namespaceId: entry.namespaceId,
+      summary: `Undo: ${entry.summary}`,
+      payload: { journalEntryId: entry.id },
+    };
+    let rowsRestored = 0;
+    let batch: Row[] = [];
+    const flush = async () => {
+      if (batch.length === 0) return;
+      const rows = batch;
+      await AuditLogService.getInstance().track(
+        { ...auditEvent, operation: 'upsert', payload: { ...auditEvent.payload, ids: rows.map(row => row.id) } },
+        () => ns.write({ upsert_rows: rows, distance_metric: distanceMetric }),
+        result => result.rows_affected
+      );
+      rowsRestored += rows.length;
+      batch = [];
+    };
+
+    if (entry.capturedRows > 0) {
+      const lines = readline.createInterface({
+        input: createReadStream(this.getRowsPath(connectionId, entryId), { encoding: 'utf-8' }),
+        crlfDelay: Infinity,
+      });
+      for await (const line of lines) {
+        if (!line.trim()) continue;
+        batch.push(JSON.parse(line));
+        if (batch.length >= PAGE_SIZE) await flush();
+      }
+      await flush();
+    }
+
+    for (let i = 0; i < entry.createdIds.length; i += PAGE_SIZE) {
+      const ids = entry.createdIds.slice(i, i + PAGE_SIZE);
+      await AuditLogService.getInstance().track(
+        { ...auditEvent, operation: 'delete', payload: { ...auditEvent.payload, ids } },
+        () => ns.write({ deletes: ids }),
+        result => result.rows_affected
+      );
+    }
+
+    return this.updateEntry(connectionId, entryId, {
+      status: 'undone',
+      undoneAt: Date.now(),
+      rowsRestored,
+    });
+  }
+
+  async clearJournal(connectionId: string): Promise<void> {
+    await this.updateEntries(connectionId, entries => {
+      entries.length = 0;
+    });
+    await fs.rm(this.getConnectionDir(connectionId), { recursive: true, force: true });
+  }
+
+  private async getDistanceMetric(ns: Namespace): Promise<DistanceMetric> {
+    try {
+      const schema = await ns.schema() as Record<string, any>;
+      return schema?.vector?.ann?.distance_metric ?? 'cosine_distance';
+    } catch {
+      // A namespace emptied by the write may have no schema left
+      return 'cosine_distance';
+    }
+  }
+
+  private async *readRowsById(ns: Namespace, ids: (string | number)[]): AsyncGenerator<Row[]> {
+    for (let i = 0; i < ids.length; i += PAGE_SIZE) {
+      const chunk = ids.slice(i, i + PAGE_SIZE);
+      const result = await ns.query({
+        rank_by: ['id', 'asc'],
+        top_k: chunk.length,
+        filters: ['id', 'In', chunk],
+        include_attributes: true,
+      });
+      yield result.rows ?? [];
+    }
+  }
+
+  private async *readRowsByFilter(ns: Namespace, filter: QueryFilter): AsyncGenerator<Row[]> {
+    let cursor: string | number | null = null;
+    let hasMore = true;
+    while (hasMore) {
+      const filters: QueryFilter = cursor !== null ? ['And', [filter, ['id', 'Gt', cursor]]] : filter;
+      const result = await ns.query({
+        rank_by: ['id', 'asc'],
+        top_k: PAGE_SIZE,
+        filters,
+        include_attributes: true,
+      });
+      const rows = result.rows ?? [];
+      if (rows.length > 0) {
+        cursor = rows[rows.length - 1].id;
+        yield rows;
+      }
+      hasMore = rows.length === PAGE_SIZE;
+    }
+  }
+}
@@ -1,10 +1,17 @@
 // See the Electron documentation for details on how to use preload scripts:
 // https://www.electronjs.org/docs/latest/tutorial/process-model#preload-scripts
 
-import { contextBridge, ipcRenderer } from 'electron';
+import { contextBridge, ipcRenderer, webUtils } from 'electron';
 import type { ConnectionAPI, ConnectionFormData } from './types/connection';
 import type { SettingsAPI, Settings } from './types/settings';
 import type { UpdateAPI } from './types/update';
+import type { ExportAPI, ExportJobOptions, ExportProgress } from './types/export';
+import type { ImportAPI, ImportJobOptions, ImportProgress } from './types/import';
+import type { EmbeddingAPI, EmbeddingConfigInput } from './types/embedding';
+import type { RecallAPI, RecallRun } from './types/recall';
+import type { MigrationAPI, MigrationJobOptions, MigrationProgress } from './types/migration';
+import type { WriteJournalAPI, WriteSnapshotRequest } from './types/writeJournal';
+import type { AuditAPI, AuditEventInput, AuditExportFormat, AuditLogFilter } from './types/audit';
 
 const connectionAPI: ConnectionAPI = {
   saveConnection: (connection: ConnectionFormData) => 
@@ -96,6 +103,83 @@ const updateAPI: UpdateAPI = {
   dismissUpdate: (version: string) => ipcRenderer.invoke('update:dismiss', version),
 };
 
+const exportAPI: ExportAPI = {
+  startExport: (options: ExportJobOptions) => ipcRenderer.invoke('export:start', options),
+  resumeExport: (jobId: string) => ipcRenderer.invoke('export:resume', jobId),
+  cancelExport: (jobId: string) => ipcRenderer.invoke('export:cancel', jobId),
+  listExportJobs: () => ipcRenderer.invoke('export:list'),
+  onExportProgress: (callback: (progress: ExportProgress) => void) => {
+    const listener = (_event: Electron.IpcRendererEvent, progress: ExportProgress) => callback(progress);
+    ipcRenderer.on('export:progress', listener);
+    return () => {
+      ipcRenderer.removeListener('export:progress', listener);
+    };
+  },
+};
+
+const importAPI: ImportAPI = {
+  // Dropped and picked files only carry their path through webUtils
+  getPathForFile: (file: File) => webUtils.getPathForFile(file),
+  previewImportFile: (filePath: string) => ipcRenderer.invoke('import:preview', filePath),
+  startImport: (options: ImportJobOptions) => ipcRenderer.invoke('import:start', options),
+  cancelImport: (jobId: string) => ipcRenderer.invoke('import:cancel', jobId),
+  onImportProgress: (callback: (progress: ImportProgress) => void) => {
+    const listener = (_event: Electron.IpcRendererEvent, progress: ImportProgress) => callback(progress);
+    ipcRenderer.on('import:progress', listener);
+    return () => {
+      ipcRenderer.removeListener('import:progress', listener);
+    };
+  },
+};
+
+const embeddingAPI: EmbeddingAPI = {
+  getEmbeddingConfig: (connectionId: string) => ipcRenderer.invoke('embedding:getConfig', connectionId),
+  saveEmbeddingConfig: (connectionId: string, config: EmbeddingConfigInput) =>
+    ipcRenderer.invoke('embedding:saveConfig', connectionId, config),
+  deleteEmbeddingConfig: (connectionId: string) => ipcRenderer.invoke('embedding:deleteConfig', connectionId),
+  testEmbeddingConfig: (connectionId: string, config: EmbeddingConfigInput) =>
+    ipcRenderer.invoke('embedding:test', connectionId, config),
+  embedTexts: (connectionId: string, texts: string[]) => ipcRenderer.invoke('embedding:embed', connectionId, texts),
+};
+
+const recallAPI: RecallAPI = {
+  loadRecallHistory: (connectionId: string, namespaceId: string) =>
+    ipcRenderer.invoke('recall:loadHistory', connectionId, namespaceId),
+  addRecallRun: (connectionId: string, namespaceId: string, run: RecallRun) =>
+    ipcRenderer.invoke('recall:addRun', connectionId, namespaceId, run),
+  clearRecallHistory: (connectionId: string, namespaceId: string) =>
+    ipcRenderer.invoke('recall:clearHistory', connectionId, namespaceId),
+};
+
+const migrationAPI: MigrationAPI = {
+  startMigration: (options: MigrationJobOptions) => ipcRenderer.invoke('migration:start', options),
+  cancelMigration: (jobId: string) => ipcRenderer.invoke('migration:cancel', jobId),
+  onMigrationProgress: (callback: (progress: MigrationProgress) => void) => {
+    const listener = (_event: Electron.IpcRendererEvent, progress: MigrationProgress) => callback(progress);
+    ipcRenderer.on('migration:progress', listener);
+    return () => {
+      ipcRenderer.removeListener('migration:progress', listener);
+    };
+  },
+};
+
+const writeJournalAPI: WriteJournalAPI = {
+  captureWriteSnapshot: (request: WriteSnapshotRequest) => ipcRenderer.invoke('writeJournal:capture', request),
+  completeWriteJournalEntry: (connectionId: string, entryId: string, result: { rowsAffected?: number; error?: string }) =>
+    ipcRenderer.invoke('writeJournal:complete', connectionId, entryId, result),
+  listWriteJournal: (connectionId: string) => ipcRenderer.invoke('writeJournal:list', connectionId),
+  undoWriteJournalEntry: (connectionId: string, entryId: string) =>
+    ipcRenderer.invoke('writeJournal:undo', connectionId, entryId),
+  clearWriteJournal: (connectionId: string) => ipcRenderer.invoke('writeJournal:clear', connectionId),
+};
+
+const auditAPI: AuditAPI = {
+  recordAuditEvent: (event: AuditEventInput) => ipcRenderer.invoke('audit:record', event),
+  queryAuditLog: (filter: AuditLogFilter, limit?: number) => ipcRenderer.invoke('audit:query', filter, limit),
+  exportAuditLog: (filter: AuditLogFilter, format: AuditExportFormat) =>
+    ipcRenderer.invoke('audit:export', filter, format),
+};
+
 contextBridge.exposeInMainWorld('electronAPI', {
   ...connectionAPI,
   ...settingsAPI,
@@ -103,12 +187,19 @@ contextBridge.exposeInMainWorld('electronAPI', {
   ...fileAPI,
   ...queryHistoryAPI,
   ...updateAPI,
+  ...exportAPI,
+  ...importAPI,
+  ...embeddingAPI,
+  ...recallAPI,
+  ...migrationAPI,
+  ...writeJournalAPI,
+  ...auditAPI,
 });
 
 // Type augmentation for window object
 declare global {
   interface Window {
-    electronAPI: ConnectionAPI & SettingsAPI & UpdateAPI & {
+    electronAPI: ConnectionAPI & SettingsAPI & UpdateAPI & ExportAPI & ImportAPI & EmbeddingAPI & RecallAPI & MigrationAPI & WriteJournalAPI & AuditAPI & {
       getVersion: () => Promise<string>;
       // File API
       saveWithDialog: (options: {
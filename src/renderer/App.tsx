@@ -10,6 +10,8 @@ import { NamespacesPage } from './components/namespaces/NamespacesPage';
 import { SettingsPage } from './components/settings/SettingsPage';
 import { DocumentsPage } from './components/documents/DocumentsPage';
 import { SchemaPage } from './components/schema/SchemaPage';
+import { RecallPage } from './components/recall/RecallPage';
+import { WriteHistoryPage } from './components/history/WriteHistoryPage';
 
 export function App() {
   return (
@@ -37,6 +39,16 @@ export function App() {
                     }
                   />
 
+                  {/* Writes journaled for undo */}
+                  <Route
+                    path="history"
+                    element={
+                      <ConnectionGuard>
+                        <WriteHistoryPage />
+                      </ConnectionGuard>
+                    }
+                  />
+
                   {/* Namespace-scoped routes */}
                   <Route path="namespaces/:namespaceId">
                     {/* Documents view */}
@@ -44,6 +56,9 @@ export function App() {
 
                     {/* Schema view */}
                     <Route path="schema" element={<SchemaPage />} />
+
+                    {/* Recall evaluation */}
+                    <Route path="recall" element={<RecallPage />} />
                   </Route>
                 </Route>
 
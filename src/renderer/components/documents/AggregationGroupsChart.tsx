@@ -0,0 +1,116 @@
+import React, { useMemo } from 'react';
+import {
+  BarChart,
+  Bar,
+  PieChart,
+  Pie,
+  Cell,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts';
+import type { AggregationGroup } from '@/types/document';
+import { formatGroupLabel, groupKey, sortAggregationGroups } from '../../utils/aggregations';
+
+interface AggregationGroupsChartProps {
+  kind: 'bar' | 'pie';
+  groups: AggregationGroup[];
+  groupByAttributes: string[];
+  valueColumn: string;
+  onSelectGroup?: (key: Record<string, unknown>) => void;
+}
+
+const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884D8', '#82CA9D'];
+const MAX_BARS = 50;
+const MAX_SLICES = 10; // The rest are summed into one "other" slice
+
+interface ChartDatum {
+  label: string;
+  value: number;
+  key?: Record<string, unknown>; // Missing on the "other" slice
+}
+
+export const AggregationGroupsChart: React.FC<AggregationGroupsChartProps> = ({
+  kind,
+  groups,
+  groupByAttributes,
+  valueColumn,
+  onSelectGroup,
+}) => {
+  // Largest groups first; charts of hundreds of groups are unreadable anyway
+  const data = useMemo<ChartDatum[]>(() => {
+    const toDatum = (group: AggregationGroup): ChartDatum => ({
+      label: formatGroupLabel(group, groupByAttributes),
+      value: Number(group[valueColumn]) || 0,
+      key: groupKey(group, groupByAttributes),
+    });
+    const sorted = sortAggregationGroups(groups, valueColumn, 'desc');
+    if (kind === 'bar') {
+      return sorted.slice(0, MAX_BARS).map(toDatum);
+    }
+    const slices = sorted.slice(0, MAX_SLICES).map(toDatum);
+    const rest = sorted.slice(MAX_SLICES);
+    if (rest.length > 0) {
+      slices.push({
+        label: `other (${rest.length})`,
+        value: rest.reduce((sum, group) => sum + (Number(group[valueColumn]) || 0), 0),
+      });
+    }
+    return slices.filter((datum) => datum.value > 0);
+  }, [kind, groups, groupByAttributes, valueColumn]);
+
+  const handleClick = (datum: ChartDatum | undefined) => {
+    if (datum?.key && onSelectGroup) onSelectGroup(datum.key);
+  };
+
+  const hiddenBars = kind === 'bar' ? Math.max(0, groups.length - MAX_BARS) : 0;
+
+  return (
+    <div className="space-y-1">
+      <ResponsiveContainer width="100%" height={320}>
+        {kind === 'bar' ? (
+          <BarChart data={data}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="label" angle={-45} textAnchor="end" height={80} interval={0} tick={{ fontSize: 10 }} />
+            <YAxis tick={{ fontSize: 10 }} />
+            <Tooltip />
+            <Bar
+              dataKey="value"
+              name={valueColumn}
+              fill="#8884d8"
+              cursor={onSelectGroup ? 'pointer' : undefined}
+              onClick={(entry: any) => handleClick(entry?.payload)}
+            />
+          </BarChart>
+        ) : (
+          <PieChart>
+            <Pie
+              data={data}
+              cx="50%"
+              cy="50%"
+              labelLine={false}
+              label={({ label, percent }) => `${label} (${(percent * 100).toFixed(0)}%)`}
+              outerRadius={110}
+              dataKey="value"
+              nameKey="label"
+              cursor={onSelectGroup ? 'pointer' : undefined}
+              onClick={(entry: any) => handleClick(entry?.payload)}
+            >
+              {data.map((datum, index) => (
+                <Cell key={datum.label} fill={datum.key ? COLORS[index % COLORS.length] : '#9ca3af'} />
+              ))}
+            </Pie>
+            <Tooltip />
+          </PieChart>
+        )}
+      </ResponsiveContainer>
+      {hiddenBars > 0 && (
+        <p className="text-[10px] text-tp-text-muted text-center">
+          showing the {MAX_BARS} largest groups • {hiddenBars} more in the table
+        </p>
+      )}
+    </div>
+  );
+};
@@ -1,5 +1,14 @@
-import React, { useMemo } from 'react';
-import { Download, BarChart3 } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import {
+  ArrowDown,
+  ArrowUp,
+  ArrowUpDown,
+  Download,
+  BarChart3,
+  Grid3X3,
+  PieChart as PieChartIcon,
+  Table as TableIcon,
+} from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import {
@@ -11,17 +20,40 @@ import {
   TableRow,
 } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import type { AggregationGroup } from '@/types/document';
+import { describeAggregation, groupKey, sortAggregationGroups } from '../../utils/aggregations';
+import type { AggregationConfig, SortDirection } from '../../utils/aggregations';
+import { AggregationGroupsChart } from './AggregationGroupsChart';
+import { AggregationPivotTable } from './AggregationPivotTable';
 
 interface AggregationGroupsTableProps {
   groups: AggregationGroup[];
   groupByAttributes: string[];
+  aggregations?: AggregationConfig[]; // Column order and descriptions for the value columns
+  onDrillDown?: (key: Record<string, unknown>) => void; // Show the documents behind a group
 }
 
+type GroupsView = 'table' | 'bar' | 'pie' | 'pivot';
+
 export const AggregationGroupsTable: React.FC<AggregationGroupsTableProps> = ({
   groups,
   groupByAttributes,
+  aggregations = [],
+  onDrillDown,
 }) => {
+  const [sort, setSort] = useState<{ column: string; direction: SortDirection } | null>(null);
+  const [view, setView] = useState<GroupsView>('table');
+  const [chartColumn, setChartColumn] = useState<string | null>(null);
+  const canPivot = groupByAttributes.length === 2;
+
   // Extract all column names from the first group
   const columns = useMemo(() => {
     if (groups.length === 0) return [];
@@ -31,18 +63,52 @@ export const AggregationGroupsTable: React.FC<AggregationGroupsTableProps> = ({
 
   // Separate group keys from aggregation values
   const groupKeyColumns = useMemo(() => {
-    return columns.filter((col) => groupByAttributes.includes(col));
+    return groupByAttributes.filter((col) => columns.includes(col));
   }, [columns, groupByAttributes]);
 
   const aggregationColumns = useMemo(() => {
-    return columns.filter((col) => !groupByAttributes.includes(col));
-  }, [columns, groupByAttributes]);
+    const valueColumns = columns.filter((col) => !groupByAttributes.includes(col));
+    const configured = aggregations.map((agg) => agg.name).filter((name) => valueColumns.includes(name));
+    return [...configured, ...valueColumns.filter((col) => !configured.includes(col))];
+  }, [columns, groupByAttributes, aggregations]);
+
+  const configByName = useMemo(
+    () => new Map(aggregations.map((agg) => [agg.name, agg])),
+    [aggregations]
+  );
+
+  // Charts and the pivot show one aggregation at a time
+  const valueColumn = chartColumn && aggregationColumns.includes(chartColumn)
+    ? chartColumn
+    : aggregationColumns[0];
+  const activeView = view === 'pivot' && !canPivot ? 'table' : view;
+
+  const sortedGroups = useMemo(
+    () => (sort ? sortAggregationGroups(groups, sort.column, sort.direction) : groups),
+    [groups, sort]
+  );
+
+  // Values sort largest first, group keys alphabetically; a second click flips
+  const toggleSort = (column: string) => {
+    setSort((current) => {
+      if (current?.column === column) {
+        return { column, direction: current.direction === 'asc' ? 'desc' : 'asc' };
+      }
+      return { column, direction: groupByAttributes.includes(column) ? 'asc' : 'desc' };
+    });
+  };
+
+  const sortIcon = (column: string) => {
+    if (sort?.column !== column) return <ArrowUpDown className="h-3 w-3 opacity-40" />;
+    return sort.direction === 'asc' ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />;
+  };
 
   const handleExportCSV = () => {
-    // Build CSV content
-    const headers = columns.join(',');
-    const rows = groups.map((group) =>
-      columns.map((col) => {
+    // Build CSV content in the displayed order
+    const exportColumns = [...groupKeyColumns, ...aggregationColumns];
+    const headers = exportColumns.join(',');
+    const rows = sortedGroups.map((group) =>
+      exportColumns.map((col) => {
         const value = group[col];
         // Handle null/undefined
         if (value === null || value === undefined) return '';
@@ -112,58 +178,153 @@ export const AggregationGroupsTable: React.FC<AggregationGroupsTableProps> = ({
         </div>
       </CardHeader>
       <CardContent>
-        <div className="rounded-md border border-tp-border-subtle overflow-hidden">
-          <div className="max-h-96 overflow-y-auto">
-            <Table>
-              <TableHeader className="sticky top-0 bg-tp-surface z-10">
-                <TableRow>
-                  {groupKeyColumns.map((col) => (
-                    <TableHead
-                      key={col}
-                      className="font-semibold bg-tp-surface-hover border-b border-tp-border"
-                    >
-                      <div className="flex items-center gap-1">
-                        <span className="font-mono text-xs">{col}</span>
-                        <Badge variant="secondary" className="h-4 px-1 text-[9px]">
-                          GROUP
-                        </Badge>
-                      </div>
-                    </TableHead>
-                  ))}
-                  {aggregationColumns.map((col) => (
-                    <TableHead
-                      key={col}
-                      className="font-semibold text-right bg-tp-surface border-b border-tp-border"
-                    >
-                      <div className="flex items-center justify-end gap-1">
-                        <span className="font-mono text-xs">{col}</span>
-                        <Badge variant="default" className="h-4 px-1 text-[9px]">
-                          AGG
-                        </Badge>
-                      </div>
-                    </TableHead>
-                  ))}
-                </TableRow>
-              </TableHeader>
-              <TableBody>
-                {groups.map((group, index) => (
-                  <TableRow key={index} className="hover:bg-tp-surface-hover">
+        <Tabs value={activeView} onValueChange={(value) => setView(value as GroupsView)}>
+          <div className="flex items-center justify-between gap-2 mb-3">
+            <TabsList className="h-8">
+              <TabsTrigger value="table" className="text-xs">
+                <TableIcon className="h-3 w-3 mr-1.5" />
+                Table
+              </TabsTrigger>
+              <TabsTrigger value="bar" className="text-xs" disabled={!valueColumn}>
+                <BarChart3 className="h-3 w-3 mr-1.5" />
+                Bar
+              </TabsTrigger>
+              <TabsTrigger value="pie" className="text-xs" disabled={!valueColumn}>
+                <PieChartIcon className="h-3 w-3 mr-1.5" />
+                Pie
+              </TabsTrigger>
+              <TabsTrigger
+                value="pivot"
+                className="text-xs"
+                disabled={!canPivot || !valueColumn}
+                title={canPivot ? undefined : 'Group by exactly two attributes to pivot'}
+              >
+                <Grid3X3 className="h-3 w-3 mr-1.5" />
+                Pivot
+              </TabsTrigger>
+            </TabsList>
+            <div className="flex items-center gap-2">
+              {activeView !== 'table' && valueColumn && (
+                <Select value={valueColumn} onValueChange={setChartColumn}>
+                  <SelectTrigger className="h-8 w-40 text-xs font-mono">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {aggregationColumns.map((col) => (
+                      <SelectItem key={col} value={col} className="text-xs font-mono">
+                        {col}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              {onDrillDown && (
+                <span className="text-[10px] text-tp-text-muted">click a group to see its documents</span>
+              )}
+            </div>
+          </div>
+
+          <TabsContent value="bar">
+            {valueColumn && (
+              <AggregationGroupsChart
+                kind="bar"
+                groups={groups}
+                groupByAttributes={groupKeyColumns}
+                valueColumn={valueColumn}
+                onSelectGroup={onDrillDown}
+              />
+            )}
+          </TabsContent>
+
+          <TabsContent value="pie">
+            {valueColumn && (
+              <AggregationGroupsChart
+                kind="pie"
+                groups={groups}
+                groupByAttributes={groupKeyColumns}
+                valueColumn={valueColumn}
+                onSelectGroup={onDrillDown}
+              />
+            )}
+          </TabsContent>
+
+          <TabsContent value="pivot">
+            {canPivot && valueColumn && (
+              <AggregationPivotTable
+                groups={groups}
+                rowAttribute={groupByAttributes[0]}
+                columnAttribute={groupByAttributes[1]}
+                valueColumn={valueColumn}
+                showTotals={configByName.get(valueColumn)?.type !== 'avg'}
+                onSelectCell={onDrillDown}
+              />
+            )}
+          </TabsContent>
+
+          <TabsContent value="table">
+          <div className="rounded-md border border-tp-border-subtle overflow-hidden">
+            <div className="max-h-96 overflow-y-auto">
+              <Table>
+                <TableHeader className="sticky top-0 bg-tp-surface z-10">
+                  <TableRow>
                     {groupKeyColumns.map((col) => (
-                      <TableCell key={col} className="font-mono text-sm">
-                        {formatValue(group[col])}
-                      </TableCell>
+                      <TableHead
+                        key={col}
+                        className="font-semibold bg-tp-surface-hover border-b border-tp-border cursor-pointer select-none"
+                        onClick={() => toggleSort(col)}
+                      >
+                        <div className="flex items-center gap-1">
+                          <span className="font-mono text-xs">{col}</span>
+                          <Badge variant="secondary" className="h-4 px-1 text-[9px]">
+                            GROUP
+                          </Badge>
+                          {sortIcon(col)}
+                        </div>
+                      </TableHead>
                     ))}
                     {aggregationColumns.map((col) => (
-                      <TableCell key={col} className="text-right font-semibold">
-                        {formatValue(group[col])}
-                      </TableCell>
+                      <TableHead
+                        key={col}
+                        className="font-semibold text-right bg-tp-surface border-b border-tp-border cursor-pointer select-none"
+                        onClick={() => toggleSort(col)}
+                        title={configByName.has(col) ? describeAggregation(configByName.get(col)!) : undefined}
+                      >
+                        <div className="flex items-center justify-end gap-1">
+                          {sortIcon(col)}
+                          <span className="font-mono text-xs">{col}</span>
+                          <Badge variant="default" className="h-4 px-1 text-[9px]">
+                            AGG
+                          </Badge>
+                        </div>
+                      </TableHead>
                     ))}
                   </TableRow>
-                ))}
-              </TableBody>
-            </Table>
+                </TableHeader>
+                <TableBody>
+                  {sortedGroups.map((group, index) => (
+                    <TableRow
+                      key={index}
+                      className={`hover:bg-tp-surface-hover ${onDrillDown ? 'cursor-pointer' : ''}`}
+                      onClick={() => onDrillDown?.(groupKey(group, groupKeyColumns))}
+                    >
+                      {groupKeyColumns.map((col) => (
+                        <TableCell key={col} className="font-mono text-sm">
+                          {formatValue(group[col])}
+                        </TableCell>
+                      ))}
+                      {aggregationColumns.map((col) => (
+                        <TableCell key={col} className="text-right font-semibold">
+                          {formatValue(group[col])}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
           </div>
-        </div>
+          </TabsContent>
+        </Tabs>
 
         {/* Summary Stats */}
         {aggregationColumns.length > 0 && (
@@ -174,12 +335,14 @@ export const AggregationGroupsTable: React.FC<AggregationGroupsTableProps> = ({
                 const values = groups.map((g) => Number(g[col]) || 0);
                 const total = values.reduce((sum, v) => sum + v, 0);
                 const avg = total / values.length;
+                // Averages of groups don't add up to anything meaningful
+                const isAverage = configByName.get(col)?.type === 'avg';
 
                 return (
                   <div key={col} className="flex justify-between">
                     <span className="text-tp-text-muted font-mono text-xs">{col}:</span>
                     <span className="font-semibold">
-                      Total: {total.toLocaleString()} | Avg: {avg.toFixed(2)}
+                      {isAverage ? `Mean of groups: ${avg.toFixed(2)}` : `Total: ${total.toLocaleString()} | Avg: ${avg.toFixed(2)}`}
                     </span>
                   </div>
                 );
@@ -201,7 +364,7 @@ function formatValue(value: any): string {
     return value ? 'true' : 'false';
   }
   if (typeof value === 'number') {
-    return value.toLocaleString();
+    return value.toLocaleString(undefined, { maximumFractionDigits: 4 });
   }
   if (typeof value === 'string') {
     return value;
@@ -0,0 +1,115 @@
+import React, { useMemo } from 'react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import type { AggregationGroup } from '@/types/document';
+import { buildPivot, formatGroupValue } from '../../utils/aggregations';
+
+interface AggregationPivotTableProps {
+  groups: AggregationGroup[];
+  rowAttribute: string;
+  columnAttribute: string;
+  valueColumn: string;
+  showTotals: boolean; // Off for averages, which don't add up
+  onSelectCell?: (key: Record<string, unknown>) => void;
+}
+
+const formatCell = (value: number | null) =>
+  value === null ? '—' : value.toLocaleString(undefined, { maximumFractionDigits: 4 });
+
+export const AggregationPivotTable: React.FC<AggregationPivotTableProps> = ({
+  groups,
+  rowAttribute,
+  columnAttribute,
+  valueColumn,
+  showTotals,
+  onSelectCell,
+}) => {
+  const pivot = useMemo(
+    () => buildPivot(groups, rowAttribute, columnAttribute, valueColumn),
+    [groups, rowAttribute, columnAttribute, valueColumn]
+  );
+
+  // Shade cells by value so the distribution reads at a glance
+  const maxCell = useMemo(
+    () => Math.max(1, ...pivot.cells.flat().map((value) => Math.abs(value ?? 0))),
+    [pivot]
+  );
+
+  const select = (key: Record<string, unknown>) => onSelectCell?.(key);
+  const clickable = onSelectCell ? 'cursor-pointer hover:underline' : '';
+
+  return (
+    <div className="rounded-md border border-tp-border-subtle overflow-auto max-h-96">
+      <Table>
+        <TableHeader className="sticky top-0 bg-tp-surface z-10">
+          <TableRow>
+            <TableHead className="font-mono text-xs bg-tp-surface-hover border-b border-tp-border">
+              {rowAttribute} \ {columnAttribute}
+            </TableHead>
+            {pivot.columnValues.map((columnValue) => (
+              <TableHead
+                key={formatGroupValue(columnValue)}
+                className={`font-mono text-xs text-right bg-tp-surface border-b border-tp-border ${clickable}`}
+                onClick={() => select({ [columnAttribute]: columnValue })}
+              >
+                {formatGroupValue(columnValue)}
+              </TableHead>
+            ))}
+            {showTotals && (
+              <TableHead className="text-xs text-right bg-tp-surface border-b border-tp-border">total</TableHead>
+            )}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {pivot.rowValues.map((rowValue, rowIdx) => (
+            <TableRow key={formatGroupValue(rowValue)}>
+              <TableCell
+                className={`font-mono text-xs bg-tp-surface-hover ${clickable}`}
+                onClick={() => select({ [rowAttribute]: rowValue })}
+              >
+                {formatGroupValue(rowValue)}
+              </TableCell>
+              {pivot.cells[rowIdx].map((value, columnIdx) => (
+                <TableCell
+                  key={columnIdx}
+                  className={`text-xs text-right font-mono ${value !== null ? clickable : 'text-tp-text-faint'}`}
+                  style={value !== null ? { backgroundColor: `rgba(136, 132, 216, ${(Math.abs(value) / maxCell) * 0.35})` } : undefined}
+                  onClick={() => value !== null && select({
+                    [rowAttribute]: rowValue,
+                    [columnAttribute]: pivot.columnValues[columnIdx],
+                  })}
+                >
+                  {formatCell(value)}
+                </TableCell>
+              ))}
+              {showTotals && (
+                <TableCell className="text-xs text-right font-mono font-semibold">
+                  {formatCell(pivot.rowTotals[rowIdx])}
+                </TableCell>
+              )}
+            </TableRow>
+          ))}
+          {showTotals && (
+            <TableRow>
+              <TableCell className="text-xs font-semibold">total</TableCell>
+              {pivot.columnTotals.map((total, columnIdx) => (
+                <TableCell key={columnIdx} className="text-xs text-right font-mono font-semibold">
+                  {formatCell(total)}
+                </TableCell>
+              ))}
+              <TableCell className="text-xs text-right font-mono font-semibold">
+                {formatCell(pivot.rowTotals.reduce((sum, value) => sum + value, 0))}
+              </TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
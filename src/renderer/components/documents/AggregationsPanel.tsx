@@ -1,6 +1,7 @@
 import React from "react";
-import { Calculator, Info } from "lucide-react";
-import { Badge } from "@/components/ui/badge";
+import { Calculator, Info, Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import {
   Select,
   SelectContent,
@@ -9,96 +10,179 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { cn } from "@/lib/utils";
+import {
+  AGGREGATION_KIND_LABELS,
+  validateAggregations,
+} from "../../utils/aggregations";
+import type { AggregationConfig, AggregationKind } from "../../utils/aggregations";
 
-export interface AggregationConfig {
-  id: string;
-  name: string;
-  type: 'count';
-  groupBy: string[];
-  topK?: number;
-}
+export type { AggregationConfig } from "../../utils/aggregations";
 
 interface AggregationsPanelProps {
   availableAttributes: string[];
+  numericAttributes: string[]; // Attributes Sum and Avg can use
+  groupByAttributes?: string[];
   aggregations: AggregationConfig[];
   onAggregationsChange: (aggregations: AggregationConfig[]) => void;
   disabled?: boolean;
   className?: string;
 }
 
+// First unused name of the form count, count_2, count_3...
+const uniqueName = (base: string, taken: AggregationConfig[]) => {
+  const names = new Set(taken.map(a => a.name));
+  if (!names.has(base)) return base;
+  let n = 2;
+  while (names.has(`${base}_${n}`)) n++;
+  return `${base}_${n}`;
+};
+
+const defaultName = (type: AggregationKind, attribute?: string) =>
+  type === 'count' ? 'count' : `${type}_${attribute ?? 'value'}`;
+
 export const AggregationsPanel: React.FC<AggregationsPanelProps> = ({
-  availableAttributes,
+  numericAttributes,
+  groupByAttributes = [],
   aggregations,
   onAggregationsChange,
   disabled = false,
   className,
 }) => {
-  // Quick add count aggregation (the only type available)
-  const hasCountAggregation = aggregations.some(a => a.type === 'count');
-
-  const addCountAggregation = () => {
-    if (hasCountAggregation) return; // Only one count aggregation needed
+  const validationError = validateAggregations(aggregations, groupByAttributes);
 
+  const addAggregation = () => {
     const newAgg: AggregationConfig = {
-      id: `agg-count-${Date.now()}`,
-      name: 'count',
+      id: `agg-${Date.now()}`,
+      name: uniqueName('count', aggregations),
       type: 'count',
       groupBy: [],
       topK: 100,
     };
-    onAggregationsChange([newAgg]);
+    onAggregationsChange([...aggregations, newAgg]);
+  };
+
+  const updateAggregation = (id: string, changes: Partial<AggregationConfig>) => {
+    onAggregationsChange(aggregations.map(a => (a.id === id ? { ...a, ...changes } : a)));
   };
 
-  const removeAggregation = () => {
-    onAggregationsChange([]);
+  const changeType = (agg: AggregationConfig, type: AggregationKind) => {
+    const attribute = type === 'count' ? undefined : agg.attribute ?? numericAttributes[0];
+    // Keep names the user typed; rename ones still derived from the old type
+    const others = aggregations.filter(a => a.id !== agg.id);
+    const name = agg.name.startsWith(defaultName(agg.type, agg.attribute))
+      ? uniqueName(defaultName(type, attribute), others)
+      : agg.name;
+    updateAggregation(agg.id, { type, attribute, name });
+  };
+
+  const changeAttribute = (agg: AggregationConfig, attribute: string) => {
+    const others = aggregations.filter(a => a.id !== agg.id);
+    const name = agg.name.startsWith(defaultName(agg.type, agg.attribute))
+      ? uniqueName(defaultName(agg.type, attribute), others)
+      : agg.name;
+    updateAggregation(agg.id, { attribute, name });
+  };
+
+  const removeAggregation = (id: string) => {
+    onAggregationsChange(aggregations.filter(a => a.id !== id));
   };
 
   return (
     <div className={cn("space-y-2", className)}>
-      {/* Simple Aggregation Selector */}
-      <div className="flex items-center justify-between gap-2 p-2 bg-tp-surface-hover rounded border border-tp-border-subtle">
-        <div className="flex items-center gap-2 flex-1">
-          <Calculator className="h-3.5 w-3.5 text-tp-text-muted" />
-          <span className="text-xs font-medium text-tp-text">Aggregate</span>
-
-          <Select
-            value={hasCountAggregation ? "count" : "none"}
-            onValueChange={(value) => {
-              if (value === "count") {
-                addCountAggregation();
-              } else {
-                removeAggregation();
-              }
-            }}
+      <div className="p-2 bg-tp-surface-hover rounded border border-tp-border-subtle space-y-1.5">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <Calculator className="h-3.5 w-3.5 text-tp-text-muted" />
+            <span className="text-xs font-medium text-tp-text">Aggregate</span>
+            {aggregations.length === 0 && (
+              <span className="text-[10px] text-tp-text-muted">none</span>
+            )}
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 px-2 text-xs"
+            onClick={addAggregation}
             disabled={disabled}
           >
-            <SelectTrigger className="h-6 w-28 text-xs border-tp-border">
-              <SelectValue />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="none" className="text-xs">
-                None
-              </SelectItem>
-              <SelectItem value="count" className="text-xs">
-                Count
-              </SelectItem>
-            </SelectContent>
-          </Select>
-
-          {hasCountAggregation && (
-            <Badge variant="secondary" className="h-5 px-1.5 text-[10px]">
-              Active
-            </Badge>
-          )}
+            <Plus className="h-3 w-3 mr-1" />
+            add
+          </Button>
         </div>
+
+        {aggregations.map((agg) => (
+          <div key={agg.id} className="flex items-center gap-1.5">
+            <Input
+              value={agg.name}
+              onChange={(e) => updateAggregation(agg.id, { name: e.target.value })}
+              placeholder="name"
+              className="h-6 w-28 text-xs font-mono"
+              disabled={disabled}
+            />
+            <Select
+              value={agg.type}
+              onValueChange={(value) => changeType(agg, value as AggregationKind)}
+              disabled={disabled}
+            >
+              <SelectTrigger className="h-6 w-20 text-xs border-tp-border">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(AGGREGATION_KIND_LABELS) as AggregationKind[]).map((kind) => (
+                  <SelectItem
+                    key={kind}
+                    value={kind}
+                    className="text-xs"
+                    disabled={kind !== 'count' && numericAttributes.length === 0}
+                  >
+                    {AGGREGATION_KIND_LABELS[kind]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {agg.type !== 'count' && (
+              <Select
+                value={agg.attribute ?? ''}
+                onValueChange={(attribute) => changeAttribute(agg, attribute)}
+                disabled={disabled}
+              >
+                <SelectTrigger className="h-6 flex-1 min-w-0 text-xs border-tp-border">
+                  <SelectValue placeholder="attribute" />
+                </SelectTrigger>
+                <SelectContent>
+                  {numericAttributes.map((attr) => (
+                    <SelectItem key={attr} value={attr} className="text-xs font-mono">
+                      {attr}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0 ml-auto flex-shrink-0"
+              onClick={() => removeAggregation(agg.id)}
+              disabled={disabled}
+              title="Remove aggregation"
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+        ))}
+
+        {aggregations.length > 0 && validationError && (
+          <p className="text-[10px] text-tp-danger">{validationError}</p>
+        )}
       </div>
 
       {/* Info */}
-      {hasCountAggregation && (
+      {aggregations.length > 0 && (
         <div className="flex items-start gap-2 p-2 bg-tp-bg rounded border border-tp-border-subtle">
           <Info className="h-3 w-3 text-tp-text-muted mt-0.5 flex-shrink-0" />
           <p className="text-[10px] text-tp-text-muted leading-relaxed">
-            <strong className="text-tp-text">Count</strong> will compute the number of documents.
+            <strong className="text-tp-text">Count</strong> counts documents, <strong className="text-tp-text">Sum</strong> adds
+            up a numeric attribute and <strong className="text-tp-text">Avg</strong> divides that sum by the count.
             Use <strong className="text-tp-text">Group By</strong> below to group results by attributes.
           </p>
         </div>
@@ -0,0 +1,243 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AlertCircle, Loader2, Plus, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useDocumentsStore } from '@/renderer/stores/documentsStore';
+import { generateFilterDescription } from '@/renderer/utils/filterDescriptions';
+import { parseValueForFieldType } from '@/renderer/utils/filterTypeConversion';
+
+interface BulkPatchDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+interface PatchField {
+  attribute: string;
+  value: string;
+}
+
+export const BulkPatchDialog: React.FC<BulkPatchDialogProps> = ({
+  open,
+  onClose,
+  onSuccess,
+}) => {
+  const { toast } = useToast();
+  const {
+    attributes,
+    activeFilters,
+    filterGroups,
+    searchText,
+    countMatchingDocuments,
+    patchMatchingDocuments,
+  } = useDocumentsStore();
+  const [fields, setFields] = useState<PatchField[]>([{ attribute: '', value: '' }]);
+  const [matchCount, setMatchCount] = useState<number | null>(null);
+  const [isCounting, setIsCounting] = useState(false);
+  const [isPatching, setIsPatching] = useState(false);
+  const [patched, setPatched] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const editableAttributes = attributes.filter(
+    attr => attr.name !== 'id' && attr.name !== 'vector'
+  );
+  const hasFilters = activeFilters.length > 0 || filterGroups.length > 0 || searchText.trim().length > 0;
+
+  // Preview how many rows the patch will touch
+  useEffect(() => {
+    if (!open || !hasFilters) return;
+    let cancelled = false;
+    setIsCounting(true);
+    setError(null);
+    countMatchingDocuments()
+      .then(count => {
+        if (!cancelled) setMatchCount(count);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to count documents');
+      })
+      .finally(() => {
+        if (!cancelled) setIsCounting(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, hasFilters, activeFilters, filterGroups, searchText]);
+
+  const buildPatch = (): Record<string, any> => {
+    const patch: Record<string, any> = {};
+    fields.forEach(({ attribute, value }) => {
+      if (!attribute) return;
+      const type = attributes.find(attr => attr.name === attribute)?.type;
+      patch[attribute] = value.trim() === '' ? null : parseValueForFieldType(value, type);
+    });
+    return patch;
+  };
+
+  const updateField = (index: number, update: Partial<PatchField>) => {
+    setFields(fields.map((field, i) => (i === index ? { ...field, ...update } : field)));
+  };
+
+  const handlePatch = async () => {
+    const patch = buildPatch();
+    if (Object.keys(patch).length === 0) {
+      setError('Choose at least one attribute to set');
+      return;
+    }
+
+    setIsPatching(true);
+    setPatched(0);
+    setError(null);
+    try {
+      const count = await patchMatchingDocuments(patch, setPatched);
+      toast({
+        title: 'patched',
+        description: `${count.toLocaleString()} document${count !== 1 ? 's' : ''} updated`,
+      });
+      onSuccess();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to patch documents');
+    } finally {
+      setIsPatching(false);
+    }
+  };
+
+  const canPatch =
+    hasFilters &&
+    !isPatching &&
+    !isCounting &&
+    matchCount !== null &&
+    matchCount > 0 &&
+    fields.some(field => field.attribute);
+
+  return (
+    <Dialog open={open} onOpenChange={() => !isPatching && onClose()}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Patch Matching Documents</DialogTitle>
+          <DialogDescription>
+            Set attributes on every document that matches the current filters.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="px-3 py-2 text-xs border rounded bg-tp-surface-alt border-tp-border-subtle">
+            <div className="font-mono text-tp-text-muted">
+              {hasFilters ? generateFilterDescription(activeFilters, searchText, filterGroups) : 'no filters'}
+            </div>
+            <div className="mt-1 font-medium text-tp-text">
+              {!hasFilters
+                ? 'Add a filter first; bulk patches never target the whole namespace.'
+                : isCounting
+                  ? 'Counting matching documents...'
+                  : matchCount !== null
+                    ? `${matchCount.toLocaleString()} document${matchCount !== 1 ? 's' : ''} will be patched`
+                    : null}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-xs">Set attributes</Label>
+            {fields.map((field, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Select
+                  value={field.attribute}
+                  onValueChange={(value) => updateField(index, { attribute: value })}
+                  disabled={isPatching}
+                >
+                  <SelectTrigger className="h-8 text-xs w-44">
+                    <SelectValue placeholder="attribute" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {editableAttributes.map(attr => (
+                      <SelectItem key={attr.name} value={attr.name}>
+                        {attr.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  value={field.value}
+                  onChange={(e) => updateField(index, { value: e.target.value })}
+                  placeholder="value (empty for null)"
+                  className="flex-1 h-8 text-xs font-mono"
+                  disabled={isPatching}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="w-8 h-8 p-0"
+                  onClick={() => setFields(fields.filter((_, i) => i !== index))}
+                  disabled={isPatching || fields.length === 1}
+                >
+                  <X className="w-3 h-3" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7 text-xs border-dashed"
+              onClick={() => setFields([...fields, { attribute: '', value: '' }])}
+              disabled={isPatching}
+            >
+              <Plus className="w-3 h-3 mr-1" />
+              add attribute
+            </Button>
+          </div>
+
+          {isPatching && matchCount !== null && matchCount > 0 && (
+            <div className="space-y-1">
+              <Progress value={Math.min(100, (patched / matchCount) * 100)} />
+              <p className="text-xs text-center text-muted-foreground">
+                {patched.toLocaleString()} / {matchCount.toLocaleString()} patched
+              </p>
+            </div>
+          )}
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="w-4 h-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isPatching}>
+            Cancel
+          </Button>
+          <Button onClick={handlePatch} disabled={!canPatch}>
+            {isPatching ? (
+              <>
+                <Loader2 className="w-3 h-3 mr-1.5 animate-spin" />
+                Patching...
+              </>
+            ) : (
+              `Patch ${matchCount !== null ? matchCount.toLocaleString() : ''} Documents`
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
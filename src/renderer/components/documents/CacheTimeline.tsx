@@ -0,0 +1,171 @@
+import React, { useMemo } from "react";
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Activity, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useDocumentsStore } from "../../stores/documentsStore";
+import { useCacheStore } from "../../stores/cacheStore";
+import { cacheTimelineKey, summarizeCacheTimeline } from "../../utils/cacheTimeline";
+import type { CacheTemperature } from "../../../types/cache";
+
+const TEMPERATURE_COLORS: Record<CacheTemperature, string> = {
+  hot: "#ef4444",
+  warm: "#f59e0b",
+  cold: "#3b82f6",
+};
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit", second: "2-digit" });
+
+const TemperatureDot = (props: any) => {
+  const { cx, cy, payload, index } = props;
+  if (cx === undefined || cy === undefined) return null;
+  return (
+    <circle
+      key={`dot-${index}`}
+      cx={cx}
+      cy={cy}
+      r={3}
+      fill={TEMPERATURE_COLORS[payload.temperature as CacheTemperature]}
+    />
+  );
+};
+
+/**
+ * Cache temperature, hit ratio and server time of every query run against
+ * the current namespace, including warm-up probes.
+ */
+export const CacheTimeline: React.FC = () => {
+  const connectionId = useDocumentsStore((state) => state.currentConnectionId);
+  const namespaceId = useDocumentsStore((state) => state.currentNamespaceId);
+  const samples = useCacheStore((state) =>
+    connectionId && namespaceId
+      ? state.timelines.get(cacheTimelineKey(connectionId, namespaceId))
+      : undefined
+  );
+  const clearTimeline = useCacheStore((state) => state.clearTimeline);
+
+  const summary = useMemo(() => summarizeCacheTimeline(samples ?? []), [samples]);
+  const chartData = useMemo(() => (samples ?? []).map((sample) => ({
+    time: formatTime(sample.timestamp),
+    serverMs: Number(sample.serverTotalMs.toFixed(1)),
+    hitRatio: Number((sample.hitRatio * 100).toFixed(1)),
+    temperature: sample.temperature,
+    source: sample.source,
+  })), [samples]);
+
+  if (!connectionId || !namespaceId) return null;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="ml-auto h-5 gap-1 px-1.5 text-[10px] text-muted-foreground">
+          <Activity className="h-3 w-3" />
+          timeline
+          {summary && <span className="font-mono">({summary.count})</span>}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-[480px] p-3">
+        <div className="flex items-center justify-between mb-2">
+          <div>
+            <div className="text-xs font-bold uppercase tracking-wider">cache timeline</div>
+            <div className="text-[10px] text-muted-foreground font-mono">{namespaceId}</div>
+          </div>
+          {summary && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 px-2 text-[10px]"
+              onClick={() => clearTimeline(connectionId, namespaceId)}
+            >
+              <Trash2 className="h-3 w-3 mr-1" />
+              clear
+            </Button>
+          )}
+        </div>
+
+        {!summary ? (
+          <p className="text-[11px] text-muted-foreground py-6 text-center">
+            no queries recorded for this namespace yet
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-4 gap-2 mb-3 text-[10px]">
+              <div>
+                <div className="text-muted-foreground">queries</div>
+                <div className="font-mono font-medium">{summary.count}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">avg hit ratio</div>
+                <div className="font-mono font-medium">{(summary.avgHitRatio * 100).toFixed(1)}%</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">median server</div>
+                <div className="font-mono font-medium">{summary.medianServerTotalMs.toFixed(1)}ms</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">hot / warm / cold</div>
+                <div className="font-mono font-medium">
+                  {summary.temperatures.hot} / {summary.temperatures.warm} / {summary.temperatures.cold}
+                </div>
+              </div>
+            </div>
+
+            <ResponsiveContainer width="100%" height={180}>
+              <LineChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="time" tick={{ fontSize: 9 }} />
+                <YAxis yAxisId="ms" tick={{ fontSize: 9 }} unit="ms" />
+                <YAxis yAxisId="ratio" orientation="right" domain={[0, 100]} tick={{ fontSize: 9 }} unit="%" />
+                <Tooltip
+                  contentStyle={{ fontSize: 10 }}
+                  formatter={(value, name, item) =>
+                    name === "server ms"
+                      ? [`${value}ms (${item.payload.temperature}, ${item.payload.source})`, name]
+                      : [`${value}%`, name]
+                  }
+                />
+                <Line
+                  yAxisId="ms"
+                  type="monotone"
+                  dataKey="serverMs"
+                  name="server ms"
+                  stroke="#8884d8"
+                  strokeWidth={2}
+                  dot={<TemperatureDot />}
+                  isAnimationActive={false}
+                />
+                <Line
+                  yAxisId="ratio"
+                  type="stepAfter"
+                  dataKey="hitRatio"
+                  name="hit ratio"
+                  stroke="#82ca9d"
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              </LineChart>
+            </ResponsiveContainer>
+
+            <div className="flex items-center gap-3 mt-1 text-[10px] text-muted-foreground">
+              {(Object.keys(TEMPERATURE_COLORS) as CacheTemperature[]).map((temperature) => (
+                <span key={temperature} className="flex items-center gap-1">
+                  <span className="h-2 w-2 rounded-full" style={{ backgroundColor: TEMPERATURE_COLORS[temperature] }} />
+                  {temperature}
+                </span>
+              ))}
+            </div>
+          </>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -6,6 +6,13 @@ import { Textarea } from '@/components/ui/textarea';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Separator } from '@/components/ui/separator';
 import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import {
   Copy,
   Edit,
@@ -31,6 +38,7 @@ import { useToast } from '@/hooks/use-toast';
 import { useParams } from 'react-router-dom';
 import { useConnection } from '@/renderer/contexts/ConnectionContext';
 import { useDocumentsStore } from '@/renderer/stores/documentsStore';
+import type { Filter } from '@/types/document';
 
 // Helper to get effective namespace ID from URL params or store
 const useEffectiveNamespaceId = () => {
@@ -101,6 +109,20 @@ const filterEditableFields = (doc: any): any => {
   return filtered;
 };
 
+// Attributes deleted in the editor. Vectors never reach the JSON editor, so
+// their absence from the edited document doesn't mean they were deleted.
+const removedAttributes = (original: any, edited: any): string[] => {
+  const keysOf = (doc: any) => new Set([...Object.keys(doc), ...Object.keys(doc.attributes ?? {})]);
+  const kept = keysOf(edited);
+  return [...keysOf(original)].filter((key) =>
+    key !== 'id' &&
+    key !== 'attributes' &&
+    !key.startsWith('$') &&
+    !kept.has(key) &&
+    !isVector(original[key] ?? original.attributes?.[key], key)
+  );
+};
+
 // Detect if a number is likely a timestamp
 const isTimestamp = (value: number): boolean => {
   // Unix timestamp in seconds (10 digits) or milliseconds (13 digits)
@@ -141,6 +163,19 @@ const isEmail = (str: string): boolean => {
   return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(str);
 };
 
+// Attributes commonly used as a version marker, preferred as the default write guard
+const VERSION_FIELD_NAMES = ['version', 'updated_at', 'updatedAt', 'modified_at', 'revision'];
+
+const NO_GUARD = '__none__';
+
+// Scalar attributes can be compared with Eq, so they can guard a conditional write
+const isGuardableField = (key: string, value: any): boolean =>
+  key !== 'id' && key !== '$dist' && value !== undefined &&
+  (value === null || ['string', 'number', 'boolean'].includes(typeof value));
+
+const getDefaultGuardField = (doc: any): string =>
+  VERSION_FIELD_NAMES.find(name => isGuardableField(name, doc[name])) || NO_GUARD;
+
 // Deep equality check
 const deepEqual = (a: any, b: any): boolean => {
   if (a === b) return true;
@@ -168,7 +203,9 @@ export const DocumentDetailsPanel: React.FC<DocumentDetailsPanelProps> = ({
   const { toast } = useToast();
   const namespaceId = useEffectiveNamespaceId();
   const { activeConnectionId } = useConnection();
-  const { updateDocument } = useDocumentsStore();
+  const { updateDocument, deleteDocuments, findSimilar } = useDocumentsStore();
+  const hasFilters = useDocumentsStore(state => state.activeFilters.length > 0 || state.filterGroups.length > 0);
+  const [findingSimilar, setFindingSimilar] = useState<string | null>(null);
   const [isEditing, setIsEditing] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [editedDocument, setEditedDocument] = useState(document);
@@ -179,6 +216,18 @@ export const DocumentDetailsPanel: React.FC<DocumentDetailsPanelProps> = ({
   const [newFieldName, setNewFieldName] = useState('');
   const [showAddField, setShowAddField] = useState(false);
   const [rawJsonText, setRawJsonText] = useState(safeStringify(document));
+  const [writeMode, setWriteMode] = useState<'patch' | 'upsert'>('patch');
+  const [guardField, setGuardField] = useState<string>(getDefaultGuardField(document));
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const guardableFields = useMemo(
+    () => Object.keys(document).filter(key => isGuardableField(key, document[key])),
+    [document]
+  );
+
+  // Condition that only lets the write through if the guard field still has the loaded value
+  const writeCondition: Filter | undefined =
+    guardField !== NO_GUARD ? [guardField, 'Eq', document[guardField]] : undefined;
 
   // Reset state when document changes (switching to a different document)
   useEffect(() => {
@@ -190,6 +239,8 @@ export const DocumentDetailsPanel: React.FC<DocumentDetailsPanelProps> = ({
     setShowAddField(false);
     setNewFieldName('');
     setExpandedSections(new Set(['id']));
+    setWriteMode('patch');
+    setGuardField(getDefaultGuardField(document));
   }, [document.id]);
 
   // Sync raw JSON text when editing in pretty mode
@@ -302,6 +353,21 @@ export const DocumentDetailsPanel: React.FC<DocumentDetailsPanelProps> = ({
     });
   };
 
+  const handleFindSimilar = async (vectorField: string, keepFilters: boolean) => {
+    setFindingSimilar(vectorField);
+    try {
+      await findSimilar(document, { vectorField, keepFilters });
+    } catch (error) {
+      toast({
+        title: 'find similar failed',
+        description: error instanceof Error ? error.message : 'could not search by this vector',
+        variant: 'destructive',
+      });
+    } finally {
+      setFindingSimilar(null);
+    }
+  };
+
   const handleCopyField = (key: string, value: any) => {
     const textValue = typeof value === 'object' ? safeStringify(value) : String(value);
     navigator.clipboard.writeText(textValue);
@@ -324,7 +390,11 @@ export const DocumentDetailsPanel: React.FC<DocumentDetailsPanelProps> = ({
 
     setIsSaving(true);
     try {
-      await updateDocument(document.id, editedDocument);
+      await updateDocument(document.id, editedDocument, {
+        mode: writeMode,
+        condition: writeCondition,
+        removedAttributes: writeMode === 'upsert' ? removedAttributes(document, editedDocument) : undefined,
+      });
       toast({
         title: 'saved',
         description: 'document updated successfully',
@@ -342,6 +412,34 @@ export const DocumentDetailsPanel: React.FC<DocumentDetailsPanelProps> = ({
     }
   };
 
+  const handleDelete = async () => {
+    const confirmed = window.confirm(
+      writeCondition
+        ? `Delete document ${document.id} if ${guardField} is still ${safeStringify(document[guardField], 0)}?`
+        : `Delete document ${document.id}?`
+    );
+    if (!confirmed) return;
+
+    setIsDeleting(true);
+    try {
+      await deleteDocuments([document.id], writeCondition);
+      toast({
+        title: 'deleted',
+        description: `document ${document.id} deleted`,
+      });
+      onUpdate();
+      onClose();
+    } catch (error) {
+      toast({
+        title: 'error',
+        description: error instanceof Error ? error.message : 'failed to delete document',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
   const validateAndUpdateJson = () => {
     try {
       const parsed = JSON.parse(rawJsonText);
@@ -482,6 +580,29 @@ export const DocumentDetailsPanel: React.FC<DocumentDetailsPanelProps> = ({
             <span className="text-xs text-tp-text-faint font-mono">
               [{value[0]?.toFixed?.(4) || value[0]}...{value[value.length - 1]?.toFixed?.(4) || value[value.length - 1]}]
             </span>
+            {!isEditing && (
+              <div className="flex items-center gap-1 ml-auto">
+                <button
+                  onClick={() => handleFindSimilar(key, false)}
+                  disabled={findingSimilar !== null}
+                  className="h-5 px-1.5 flex items-center gap-1 text-[10px] font-semibold uppercase tracking-wide text-tp-text-muted hover:text-tp-accent hover:bg-tp-accent/5 rounded transition-all disabled:opacity-50"
+                  title="Nearest neighbours of this vector, excluding this document"
+                >
+                  {findingSimilar === key ? <Loader2 className="h-3 w-3 animate-spin" /> : <Search className="h-3 w-3" />}
+                  find similar
+                </button>
+                {hasFilters && (
+                  <button
+                    onClick={() => handleFindSimilar(key, true)}
+                    disabled={findingSimilar !== null}
+                    className="h-5 px-1.5 text-[10px] font-semibold uppercase tracking-wide text-tp-text-muted hover:text-tp-accent hover:bg-tp-accent/5 rounded transition-all disabled:opacity-50"
+                    title="Keep the current filters"
+                  >
+                    within filters
+                  </button>
+                )}
+              </div>
+            )}
           </div>
           {isExpanded && (
             <div className="bg-tp-bg border border-tp-border-subtle p-2 rounded font-mono text-xs">
@@ -755,6 +876,17 @@ export const DocumentDetailsPanel: React.FC<DocumentDetailsPanelProps> = ({
               </button>
             )}
 
+            {!isEditing && (
+              <button
+                onClick={handleDelete}
+                disabled={isDeleting}
+                className="h-6 px-2.5 flex items-center gap-1.5 text-[11px] font-semibold uppercase tracking-wide text-tp-text-muted hover:text-tp-danger hover:bg-tp-danger/5 rounded transition-all disabled:opacity-50"
+              >
+                {isDeleting ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Trash2 className="h-3.5 w-3.5" />}
+                delete
+              </button>
+            )}
+
             <button
               onClick={handleCopyJson}
               className="h-6 px-2.5 flex items-center gap-1.5 text-[11px] font-semibold uppercase tracking-wide text-tp-text-muted hover:text-tp-accent hover:bg-tp-accent/5 rounded transition-all"
@@ -959,10 +1091,34 @@ export const DocumentDetailsPanel: React.FC<DocumentDetailsPanelProps> = ({
       {/* Footer */}
       {isEditing && (
         <div className="flex-shrink-0 px-3 py-2 border-t border-tp-border-subtle flex items-center justify-between bg-tp-surface-alt">
-          <div className="text-xs text-tp-text-muted">
-            <kbd className="px-1.5 py-0.5 bg-tp-bg border border-tp-border-subtle rounded text-[10px]">Esc</kbd> cancel
-            {' · '}
-            <kbd className="px-1.5 py-0.5 bg-tp-bg border border-tp-border-subtle rounded text-[10px]">⌘S</kbd> save
+          <div className="flex items-center gap-3 text-xs text-tp-text-muted">
+            <div>
+              <kbd className="px-1.5 py-0.5 bg-tp-bg border border-tp-border-subtle rounded text-[10px]">Esc</kbd> cancel
+              {' · '}
+              <kbd className="px-1.5 py-0.5 bg-tp-bg border border-tp-border-subtle rounded text-[10px]">⌘S</kbd> save
+            </div>
+            <Select value={writeMode} onValueChange={(value) => setWriteMode(value as 'patch' | 'upsert')}>
+              <SelectTrigger className="h-6 w-24 text-[11px]" title="patch updates changed fields; replace upserts the whole document">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="patch" className="text-xs">patch</SelectItem>
+                <SelectItem value="upsert" className="text-xs">replace</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={guardField} onValueChange={setGuardField}>
+              <SelectTrigger className="h-6 w-40 text-[11px]" title="Fail the write if this field changed since the document was loaded">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_GUARD} className="text-xs">always overwrite</SelectItem>
+                {guardableFields.map(key => (
+                  <SelectItem key={key} value={key} className="text-xs">
+                    if {key} unchanged
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
           <div className="flex items-center gap-2">
             <Button
@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import {
   Dialog,
   DialogContent,
@@ -15,7 +15,6 @@ import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
-import { Switch } from '@/components/ui/switch';
 import {
   Select,
   SelectContent,
@@ -30,13 +29,23 @@ import {
   FileText,
   AlertCircle,
   CheckCircle,
+  FolderOpen,
+  Loader2,
+  Sparkles,
   X,
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { useParams } from 'react-router-dom';
 import { useConnection } from '@/renderer/contexts/ConnectionContext';
 import { useDocumentsStore } from '@/renderer/stores/documentsStore';
-import Papa from 'papaparse';
+import { namespaceService } from '@/renderer/services/namespaceService';
+import { formatBytes } from '@/renderer/utils/formatBytes';
+import type { NamespaceSchema } from '@/types/namespace';
+import type {
+  ImportColumnMapping,
+  ImportFilePreview,
+  ImportProgress,
+} from '@/types/import';
 
 interface DocumentImportDialogProps {
   open: boolean;
@@ -44,11 +53,23 @@ interface DocumentImportDialogProps {
   onSuccess: () => void;
 }
 
-interface ImportFile {
-  file: File;
-  preview: any[];
-  error?: string;
-}
+const SKIP_COLUMN = '__skip__';
+const GENERATE_IDS = '__generate__';
+const NO_EMBEDDING = '__none__';
+
+const schemaTypeOf = (schema: NamespaceSchema, attribute: string): string | undefined => {
+  const config = schema[attribute];
+  if (!config) return undefined;
+  const type = config.type;
+  return typeof type === 'string' ? type : type.type;
+};
+
+const buildMapping = (columns: string[], schema: NamespaceSchema): ImportColumnMapping[] =>
+  columns.map(column => ({
+    source: column,
+    target: column,
+    type: schemaTypeOf(schema, column),
+  }));
 
 export const DocumentImportDialog: React.FC<DocumentImportDialogProps> = ({
   open,
@@ -57,196 +78,216 @@ export const DocumentImportDialog: React.FC<DocumentImportDialogProps> = ({
 }) => {
   const { toast } = useToast();
   const { namespaceId } = useParams<{ namespaceId?: string }>();
-  const { selectedConnection } = useConnection();
+  const { activeConnectionId, turbopufferClient } = useConnection();
   const { importDocuments } = useDocumentsStore();
-  const [importFiles, setImportFiles] = useState<ImportFile[]>([]);
+  const [preview, setPreview] = useState<ImportFilePreview | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [loadingPreview, setLoadingPreview] = useState(false);
+  const [schema, setSchema] = useState<NamespaceSchema>({});
+  const [mapping, setMapping] = useState<ImportColumnMapping[]>([]);
+  const [idColumn, setIdColumn] = useState<string>(GENERATE_IDS);
   const [jsonText, setJsonText] = useState('');
   const [importing, setImporting] = useState(false);
-  const [importProgress, setImportProgress] = useState(0);
+  const [importProgress, setImportProgress] = useState<ImportProgress | null>(null);
+  const [jsonProgress, setJsonProgress] = useState(0);
   const [activeTab, setActiveTab] = useState('file');
-  const [vectorConfig, setVectorConfig] = useState({
-    enabled: false,
-    dimension: 1536,
-    generateFrom: 'text' as 'text' | 'description' | 'custom',
-    customField: '',
-  });
-  const [batchSize, setBatchSize] = useState(100);
-  const [idStrategy, setIdStrategy] = useState<'preserve' | 'generate' | 'field'>('preserve');
-  const [idField, setIdField] = useState('id');
+  const [batchSize, setBatchSize] = useState(500);
+  const [embeddingModel, setEmbeddingModel] = useState<string | null>(null);
+  const [embedColumn, setEmbedColumn] = useState<string>(NO_EMBEDDING);
+  const [embedTarget, setEmbedTarget] = useState('vector');
+  const jobIdRef = useRef<string | null>(null);
+  const latestProgressRef = useRef(new Map<string, ImportProgress>());
+
+  // Column mapping targets the namespace schema
+  useEffect(() => {
+    if (!open || !namespaceId || !turbopufferClient) return;
+    namespaceService.setClient(turbopufferClient);
+    namespaceService
+      .getNamespaceSchema(namespaceId)
+      .then(setSchema)
+      .catch(() => setSchema({})); // New namespaces have no schema yet
+  }, [open, namespaceId, turbopufferClient]);
+
+  // Text columns can be embedded when the connection has a provider
+  useEffect(() => {
+    if (!open || !activeConnectionId) return;
+    window.electronAPI.getEmbeddingConfig(activeConnectionId)
+      .then(config => setEmbeddingModel(config?.model ?? null))
+      .catch(() => setEmbeddingModel(null));
+  }, [open, activeConnectionId]);
+
+  // Embeddings go to the namespace's vector attribute when there is one
+  useEffect(() => {
+    const vectorAttribute = Object.keys(schema).find(name => /^\[\d+\]f(16|32)$/.test(schemaTypeOf(schema, name) ?? ''));
+    setEmbedTarget(vectorAttribute ?? 'vector');
+  }, [schema]);
+
+  // The schema may arrive after the file preview
+  useEffect(() => {
+    setMapping(current => current.map(entry =>
+      entry.target ? { ...entry, type: schemaTypeOf(schema, entry.target) } : entry
+    ));
+  }, [schema]);
+
+  const applyProgress = (progress: ImportProgress) => {
+    setImportProgress(progress);
+    if (progress.status === 'running') return;
+
+    setImporting(false);
+    jobIdRef.current = null;
+    if (progress.status === 'completed') {
+      toast({
+        title: 'import finished',
+        description: `${progress.rowsWritten.toLocaleString()} documents imported` +
+          (progress.rowsFailed > 0 ? `, ${progress.rowsFailed.toLocaleString()} failed` : ''),
+        variant: progress.rowsFailed > 0 ? 'destructive' : 'default',
+      });
+      if (progress.rowsFailed === 0) onSuccess();
+    } else if (progress.status === 'failed') {
+      toast({
+        title: 'import failed',
+        description: progress.error || 'Unknown error',
+        variant: 'destructive',
+      });
+    }
+  };
+  const applyProgressRef = useRef(applyProgress);
+  applyProgressRef.current = applyProgress;
+
+  useEffect(() => {
+    return window.electronAPI.onImportProgress((progress) => {
+      // Small files can finish before startImport resolves with the job id
+      latestProgressRef.current.set(progress.jobId, progress);
+      if (progress.jobId === jobIdRef.current) {
+        applyProgressRef.current(progress);
+      }
+    });
+  }, []);
 
   const onDrop = useCallback(async (acceptedFiles: File[]) => {
-    const newFiles: ImportFile[] = [];
-
-    for (const file of acceptedFiles) {
-      try {
-        const content = await file.text();
-        let preview: any[] = [];
-        let error: string | undefined;
-
-        if (file.name.endsWith('.json')) {
-          try {
-            const data = JSON.parse(content);
-            preview = Array.isArray(data) ? data.slice(0, 5) : [data];
-          } catch (e) {
-            error = 'Invalid JSON format';
-          }
-        } else if (file.name.endsWith('.csv')) {
-          Papa.parse(content, {
-            header: true,
-            dynamicTyping: true,
-            complete: (results) => {
-              preview = results.data.slice(0, 5) as any[];
-            },
-            error: (err) => {
-              error = `CSV parse error: ${err.message}`;
-            },
-          });
-        } else if (file.name.endsWith('.ndjson') || file.name.endsWith('.jsonl')) {
-          try {
-            const lines = content.trim().split('\n');
-            preview = lines.slice(0, 5).map(line => JSON.parse(line));
-          } catch (e) {
-            error = 'Invalid NDJSON format';
-          }
-        } else {
-          error = 'Unsupported file format';
-        }
+    const file = acceptedFiles[0];
+    if (!file) return;
 
-        newFiles.push({ file, preview, error });
-      } catch (e) {
-        newFiles.push({
-          file,
-          preview: [],
-          error: 'Failed to read file',
-        });
-      }
+    setLoadingPreview(true);
+    setPreviewError(null);
+    setImportProgress(null);
+    try {
+      const filePath = window.electronAPI.getPathForFile(file);
+      const filePreview = await window.electronAPI.previewImportFile(filePath);
+      setPreview(filePreview);
+      setMapping(buildMapping(filePreview.columns, schema));
+      setIdColumn(filePreview.columns.includes('id') ? 'id' : GENERATE_IDS);
+      setEmbedColumn(NO_EMBEDDING);
+    } catch (error) {
+      setPreview(null);
+      setPreviewError(error instanceof Error ? error.message : 'Failed to read file');
+    } finally {
+      setLoadingPreview(false);
     }
-
-    setImportFiles(prev => [...prev, ...newFiles]);
-  }, []);
+  }, [schema]);
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
+    multiple: false,
     accept: {
       'application/json': ['.json'],
       'text/csv': ['.csv'],
       'application/x-ndjson': ['.ndjson', '.jsonl'],
+      'application/vnd.apache.parquet': ['.parquet'],
     },
   });
 
-  const removeFile = (index: number) => {
-    setImportFiles(prev => prev.filter((_, i) => i !== index));
+  const updateMapping = (source: string, target: string) => {
+    setMapping(current => current.map(entry =>
+      entry.source === source
+        ? {
+          ...entry,
+          target: target === SKIP_COLUMN ? null : target,
+          type: target === SKIP_COLUMN ? undefined : schemaTypeOf(schema, target),
+        }
+        : entry
+    ));
   };
 
-  const handleImport = async () => {
-    if (!selectedConnection || !namespaceId) return;
+  const clearFile = () => {
+    setPreview(null);
+    setMapping([]);
+    setImportProgress(null);
+  };
 
-    setImporting(true);
-    setImportProgress(0);
+  const handleFileImport = async () => {
+    if (!activeConnectionId || !namespaceId || !preview) return;
 
+    setImporting(true);
+    setImportProgress(null);
     try {
-      let allDocuments: any[] = [];
-
-      // Process file imports
-      for (const importFile of importFiles) {
-        if (importFile.error) continue;
-
-        const content = await importFile.file.text();
-
-        if (importFile.file.name.endsWith('.json')) {
-          const data = JSON.parse(content);
-          allDocuments = allDocuments.concat(Array.isArray(data) ? data : [data]);
-        } else if (importFile.file.name.endsWith('.csv')) {
-          await new Promise<void>((resolve) => {
-            Papa.parse(content, {
-              header: true,
-              dynamicTyping: true,
-              complete: (results) => {
-                allDocuments = allDocuments.concat(results.data as any[]);
-                resolve();
-              },
-            });
-          });
-        } else if (importFile.file.name.endsWith('.ndjson') || importFile.file.name.endsWith('.jsonl')) {
-          const lines = content.trim().split('\n');
-          allDocuments = allDocuments.concat(lines.map(line => JSON.parse(line)));
-        }
-      }
-
-      // Process JSON text
-      if (activeTab === 'json' && jsonText.trim()) {
-        try {
-          const data = JSON.parse(jsonText);
-          allDocuments = allDocuments.concat(Array.isArray(data) ? data : [data]);
-        } catch (e) {
-          throw new Error('Invalid JSON in text input');
-        }
-      }
-
-      if (allDocuments.length === 0) {
-        throw new Error('No documents to import');
-      }
+      const jobId = await window.electronAPI.startImport({
+        connectionId: activeConnectionId,
+        namespaceId,
+        filePath: preview.filePath,
+        format: preview.format,
+        mapping,
+        idColumn: idColumn === GENERATE_IDS ? null : idColumn,
+        initialBatchSize: batchSize,
+        embedding: embedColumn !== NO_EMBEDDING
+          ? { sourceColumn: embedColumn, targetAttribute: embedTarget.trim() || 'vector' }
+          : undefined,
+      });
+      jobIdRef.current = jobId;
+      const early = latestProgressRef.current.get(jobId);
+      if (early) applyProgress(early);
+    } catch (error) {
+      setImporting(false);
+      toast({
+        title: 'import failed',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    }
+  };
 
-      // Transform documents to match expected format
-      allDocuments = allDocuments.map((doc, index) => {
-        const { id, vector, ...rest } = doc;
-        
-        // Handle ID based on strategy
-        let documentId: string;
-        if (idStrategy === 'generate') {
-          documentId = `doc_${Date.now()}_${index}_${Math.random().toString(36).substr(2, 9)}`;
-        } else if (idStrategy === 'field' && idField) {
-          documentId = String(doc[idField] || rest[idField] || `doc_${Date.now()}_${index}`);
-        } else {
-          documentId = id || `doc_${Date.now()}_${index}`;
-        }
-        
-        // Handle vector generation if enabled
-        let documentVector = vector;
-        if (vectorConfig.enabled && !vector) {
-          // TODO: Implement actual vector generation
-          // For now, just create a placeholder vector
-          const textField = vectorConfig.generateFrom === 'custom' 
-            ? doc[vectorConfig.customField] || rest[vectorConfig.customField]
-            : doc[vectorConfig.generateFrom] || rest[vectorConfig.generateFrom];
-            
-          if (textField) {
-            // Placeholder: In real implementation, this would call an embedding service
-            documentVector = Array(vectorConfig.dimension).fill(0).map(() => Math.random() * 2 - 1);
-          }
-        }
-        
+  // Pasted JSON is small enough to write straight from the renderer
+  const handleJsonImport = async () => {
+    setImporting(true);
+    setJsonProgress(0);
+    try {
+      const data = JSON.parse(jsonText);
+      const documents = (Array.isArray(data) ? data : [data]).map((doc: any, index: number) => {
+        const { id, vector, ...attributes } = doc;
         return {
-          id: documentId,
-          vector: documentVector || undefined,
-          attributes: rest
+          id: id ?? `doc_${Date.now()}_${index}`,
+          vector: vector || undefined,
+          attributes,
         };
       });
-
-      // Import documents in batches
-      const batches = [];
-      for (let i = 0; i < allDocuments.length; i += batchSize) {
-        batches.push(allDocuments.slice(i, i + batchSize));
+      if (documents.length === 0) {
+        throw new Error('No documents to import');
       }
 
-      for (let i = 0; i < batches.length; i++) {
-        await importDocuments(batches[i]);
-        setImportProgress(((i + 1) / batches.length) * 100);
+      for (let i = 0; i < documents.length; i += batchSize) {
+        await importDocuments(documents.slice(i, i + batchSize));
+        setJsonProgress(Math.min(100, ((i + batchSize) / documents.length) * 100));
       }
-      setImportProgress(100);
 
-      toast.success('Import successful', {
-        description: `Successfully imported ${allDocuments.length} documents in ${batches.length} batch${batches.length > 1 ? 'es' : ''}.`,
+      toast({
+        title: 'import finished',
+        description: `${documents.length.toLocaleString()} documents imported`,
       });
-
       onSuccess();
     } catch (error) {
-      toast.error('Import failed', {
+      toast({
+        title: 'import failed',
         description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
       });
     } finally {
       setImporting(false);
-      setImportProgress(0);
+    }
+  };
+
+  const handleCancelImport = async () => {
+    if (jobIdRef.current) {
+      await window.electronAPI.cancelImport(jobIdRef.current);
     }
   };
 
@@ -262,88 +303,177 @@ export const DocumentImportDialog: React.FC<DocumentImportDialogProps> = ({
   };
 
   const jsonValidation = validateJsonText();
+  const schemaAttributes = Object.keys(schema).filter(name => name !== 'id').sort();
+  const fileProgress = importProgress && importProgress.totalBytes > 0
+    ? (importProgress.bytesRead / importProgress.totalBytes) * 100
+    : 0;
+  const finished = importProgress !== null && importProgress.status !== 'running';
 
   return (
-    <Dialog open={open} onOpenChange={onClose}>
-      <DialogContent className="max-w-2xl">
+    <Dialog open={open} onOpenChange={() => !importing && onClose()}>
+      <DialogContent className="max-w-3xl">
         <DialogHeader>
           <DialogTitle>Import Documents</DialogTitle>
           <DialogDescription>
-            Import documents to the namespace in JSON, CSV, or NDJSON format.
+            Stream NDJSON, CSV or Parquet files into the namespace, or paste JSON.
           </DialogDescription>
         </DialogHeader>
 
         <Tabs value={activeTab} onValueChange={setActiveTab}>
           <TabsList className="grid w-full grid-cols-3">
-            <TabsTrigger value="file">File Import</TabsTrigger>
-            <TabsTrigger value="json">JSON Input</TabsTrigger>
-            <TabsTrigger value="settings">Import Settings</TabsTrigger>
+            <TabsTrigger value="file" disabled={importing}>File Import</TabsTrigger>
+            <TabsTrigger value="json" disabled={importing}>JSON Input</TabsTrigger>
+            <TabsTrigger value="settings" disabled={importing}>Import Settings</TabsTrigger>
           </TabsList>
 
           <TabsContent value="file" className="space-y-4">
-            <div
-              {...getRootProps()}
-              className={`
-                border-2 border-dashed rounded-lg p-8 text-center cursor-pointer
-                transition-colors duration-200
-                ${isDragActive ? 'border-primary bg-primary/10' : 'border-muted-foreground/25'}
-                hover:border-primary hover:bg-primary/5
-              `}
-            >
-              <input {...getInputProps()} />
-              <Upload className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
-              <p className="text-sm text-muted-foreground">
-                {isDragActive
-                  ? 'Drop the files here...'
-                  : 'Drag & drop files here, or click to select files'}
-              </p>
-              <p className="text-xs text-muted-foreground mt-2">
-                Supports JSON, CSV, NDJSON files
-              </p>
-            </div>
+            {!preview ? (
+              <div
+                {...getRootProps()}
+                className={`
+                  border-2 border-dashed rounded-lg p-8 text-center cursor-pointer
+                  transition-colors duration-200
+                  ${isDragActive ? 'border-primary bg-primary/10' : 'border-muted-foreground/25'}
+                  hover:border-primary hover:bg-primary/5
+                `}
+              >
+                <input {...getInputProps()} />
+                {loadingPreview ? (
+                  <Loader2 className="h-12 w-12 mx-auto mb-4 text-muted-foreground animate-spin" />
+                ) : (
+                  <Upload className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+                )}
+                <p className="text-sm text-muted-foreground">
+                  {isDragActive
+                    ? 'Drop the file here...'
+                    : 'Drag & drop a file here, or click to select a file'}
+                </p>
+                <p className="text-xs text-muted-foreground mt-2">
+                  Supports NDJSON, CSV, Parquet and JSON files. Files are streamed, so size is not a limit.
+                </p>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                <div className="flex items-center justify-between p-3 border rounded-lg">
+                  <div className="flex items-center gap-3">
+                    {preview.format === 'csv' ? (
+                      <FileText className="h-8 w-8 text-green-500" />
+                    ) : (
+                      <FileJson className="h-8 w-8 text-blue-500" />
+                    )}
+                    <div>
+                      <p className="text-sm font-medium">{preview.fileName}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatBytes(preview.fileSize)} · {preview.format.toUpperCase()} · {preview.columns.length} columns
+                      </p>
+                    </div>
+                  </div>
+                  <Button variant="ghost" size="icon" onClick={clearFile} disabled={importing}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
 
-            {importFiles.length > 0 && (
-              <div className="space-y-2">
-                <Label>Selected Files</Label>
-                {importFiles.map((importFile, index) => (
-                  <div
-                    key={index}
-                    className="flex items-center justify-between p-3 border rounded-lg"
-                  >
-                    <div className="flex items-center gap-3">
-                      {importFile.file.name.endsWith('.json') ? (
-                        <FileJson className="h-8 w-8 text-blue-500" />
-                      ) : (
-                        <FileText className="h-8 w-8 text-green-500" />
-                      )}
-                      <div>
-                        <p className="text-sm font-medium">{importFile.file.name}</p>
-                        <p className="text-xs text-muted-foreground">
-                          {(importFile.file.size / 1024).toFixed(2)} KB
-                        </p>
-                        {importFile.error ? (
-                          <p className="text-xs text-destructive flex items-center gap-1 mt-1">
-                            <AlertCircle className="h-3 w-3" />
-                            {importFile.error}
-                          </p>
-                        ) : (
-                          <p className="text-xs text-muted-foreground mt-1">
-                            {importFile.preview.length} document(s) detected
-                          </p>
+                <div className="space-y-2">
+                  <div className="flex items-center gap-2">
+                    <Label className="text-xs w-28">Document ID</Label>
+                    <Select value={idColumn} onValueChange={setIdColumn} disabled={importing}>
+                      <SelectTrigger className="h-8 text-xs w-56">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={GENERATE_IDS}>Generate new IDs</SelectItem>
+                        {preview.columns.map(column => (
+                          <SelectItem key={column} value={column}>{column}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="flex items-center gap-2">
+                    <Label className="text-xs w-28">Embed text</Label>
+                    {embeddingModel ? (
+                      <>
+                        <Select value={embedColumn} onValueChange={setEmbedColumn} disabled={importing}>
+                          <SelectTrigger className="h-8 text-xs w-56">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={NO_EMBEDDING}>Don't generate vectors</SelectItem>
+                            {preview.columns.map(column => (
+                              <SelectItem key={column} value={column}>{column}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {embedColumn !== NO_EMBEDDING && (
+                          <>
+                            <span className="text-muted-foreground text-xs">→</span>
+                            <Input
+                              value={embedTarget}
+                              onChange={(e) => setEmbedTarget(e.target.value)}
+                              className="h-8 text-xs w-36 font-mono"
+                              disabled={importing}
+                            />
+                            <Badge variant="outline" className="text-[10px] gap-1">
+                              <Sparkles className="h-3 w-3" />
+                              {embeddingModel}
+                            </Badge>
+                          </>
                         )}
+                      </>
+                    ) : (
+                      <span className="text-xs text-muted-foreground">
+                        Configure an embedding provider for this connection in Settings to generate vectors from a text column
+                      </span>
+                    )}
+                  </div>
+
+                  <Label className="text-xs">Column mapping</Label>
+                  <div className="max-h-56 overflow-y-auto border rounded divide-y">
+                    {mapping.filter(entry => entry.source !== idColumn).map(entry => (
+                      <div key={entry.source} className="flex items-center gap-2 px-2 py-1.5 text-xs">
+                        <span className="font-mono w-40 truncate" title={entry.source}>{entry.source}</span>
+                        <span className="text-muted-foreground">→</span>
+                        <Select
+                          value={entry.target ?? SKIP_COLUMN}
+                          onValueChange={(value) => updateMapping(entry.source, value)}
+                          disabled={importing}
+                        >
+                          <SelectTrigger className="h-7 text-xs w-48">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={SKIP_COLUMN}>skip column</SelectItem>
+                            {!schema[entry.source] && entry.source !== 'id' && (
+                              <SelectItem value={entry.source}>{entry.source} (new)</SelectItem>
+                            )}
+                            {schemaAttributes.map(attribute => (
+                              <SelectItem key={attribute} value={attribute}>{attribute}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {entry.target && (
+                          <Badge variant="outline" className="text-[10px] font-mono">
+                            {entry.type ?? 'inferred'}
+                          </Badge>
+                        )}
+                        <span className="flex-1 truncate text-muted-foreground font-mono">
+                          {preview.sampleRows[0]?.[entry.source] !== undefined
+                            ? JSON.stringify(preview.sampleRows[0][entry.source])
+                            : ''}
+                        </span>
                       </div>
-                    </div>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={() => removeFile(index)}
-                    >
-                      <X className="h-4 w-4" />
-                    </Button>
+                    ))}
                   </div>
-                ))}
+                </div>
               </div>
             )}
+
+            {previewError && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{previewError}</AlertDescription>
+              </Alert>
+            )}
           </TabsContent>
 
           <TabsContent value="json" className="space-y-4">
@@ -374,102 +504,19 @@ export const DocumentImportDialog: React.FC<DocumentImportDialogProps> = ({
           <TabsContent value="settings" className="space-y-4">
             <div className="space-y-4">
               <div>
-                <Label className="text-base font-semibold">Document ID Strategy</Label>
-                <Select value={idStrategy} onValueChange={(value: any) => setIdStrategy(value)}>
-                  <SelectTrigger className="mt-2">
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="preserve">Preserve existing IDs</SelectItem>
-                    <SelectItem value="generate">Generate new IDs</SelectItem>
-                    <SelectItem value="field">Use specific field as ID</SelectItem>
-                  </SelectContent>
-                </Select>
-                {idStrategy === 'field' && (
-                  <Input
-                    placeholder="Field name (e.g., 'sku', 'email')" 
-                    value={idField}
-                    onChange={(e) => setIdField(e.target.value)}
-                    className="mt-2"
-                  />
-                )}
-              </div>
-
-              <div>
-                <Label className="text-base font-semibold">Vector Generation</Label>
-                <div className="mt-2 space-y-3">
-                  <div className="flex items-center justify-between">
-                    <Label htmlFor="vector-enabled">Generate vectors automatically</Label>
-                    <Switch
-                      id="vector-enabled"
-                      checked={vectorConfig.enabled}
-                      onCheckedChange={(checked) => 
-                        setVectorConfig({ ...vectorConfig, enabled: checked })
-                      }
-                    />
-                  </div>
-                  
-                  {vectorConfig.enabled && (
-                    <>
-                      <div>
-                        <Label htmlFor="vector-dim">Vector Dimensions</Label>
-                        <Input
-                          id="vector-dim"
-                          type="number"
-                          value={vectorConfig.dimension}
-                          onChange={(e) => 
-                            setVectorConfig({ ...vectorConfig, dimension: parseInt(e.target.value) })
-                          }
-                          className="mt-1"
-                        />
-                      </div>
-                      
-                      <div>
-                        <Label htmlFor="vector-source">Generate vectors from</Label>
-                        <Select 
-                          value={vectorConfig.generateFrom} 
-                          onValueChange={(value: any) => 
-                            setVectorConfig({ ...vectorConfig, generateFrom: value })
-                          }
-                        >
-                          <SelectTrigger className="mt-1">
-                            <SelectValue />
-                          </SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value="text">Text field</SelectItem>
-                            <SelectItem value="description">Description field</SelectItem>
-                            <SelectItem value="custom">Custom field</SelectItem>
-                          </SelectContent>
-                        </Select>
-                        {vectorConfig.generateFrom === 'custom' && (
-                          <Input
-                            placeholder="Field name"
-                            value={vectorConfig.customField}
-                            onChange={(e) => 
-                              setVectorConfig({ ...vectorConfig, customField: e.target.value })
-                            }
-                            className="mt-2"
-                          />
-                        )}
-                      </div>
-                    </>
-                  )}
-                </div>
-              </div>
-
-              <div>
-                <Label htmlFor="batch-size" className="text-base font-semibold">Batch Size</Label>
+                <Label htmlFor="batch-size" className="text-base font-semibold">Initial Batch Size</Label>
                 <Input
                   id="batch-size"
                   type="number"
                   value={batchSize}
-                  onChange={(e) => setBatchSize(parseInt(e.target.value))}
+                  onChange={(e) => setBatchSize(Math.max(1, parseInt(e.target.value) || 1))}
                   className="mt-2"
                   min={1}
-                  max={1000}
+                  max={10000}
                 />
                 <p className="text-xs text-muted-foreground mt-1">
-                  Number of documents to upload per batch (1-1000)
+                  Documents per write to start with (1-10000). File imports grow the batch while
+                  writes are fast and shrink it when they slow down.
                 </p>
               </div>
 
@@ -478,10 +525,11 @@ export const DocumentImportDialog: React.FC<DocumentImportDialogProps> = ({
                 <AlertDescription>
                   <strong>Import Tips:</strong>
                   <ul className="mt-2 space-y-1 text-sm">
-                    <li>• CSV files should have headers matching your schema</li>
-                    <li>• JSON arrays should contain objects with consistent structure</li>
-                    <li>• Large files will be automatically batched for optimal performance</li>
-                    <li>• Vector generation requires an embedding service to be configured</li>
+                    <li>• CSV files need a header row; quoted fields may span lines</li>
+                    <li>• Columns are converted to the type of the attribute they map to</li>
+                    <li>• Rows that fail are reported with their line number and skipped</li>
+                    <li>• Embedded text columns are sent to the connection's embedding provider in batches</li>
+                    <li>• Use NDJSON rather than JSON arrays for very large files</li>
                   </ul>
                 </AlertDescription>
               </Alert>
@@ -489,25 +537,74 @@ export const DocumentImportDialog: React.FC<DocumentImportDialogProps> = ({
           </TabsContent>
         </Tabs>
 
-        {importing && (
+        {importing && activeTab === 'json' && (
           <div className="space-y-2">
             <Label>Import Progress</Label>
-            <Progress value={importProgress} />
+            <Progress value={jsonProgress} />
+          </div>
+        )}
+
+        {importProgress && (
+          <div className="space-y-2">
+            <Progress value={finished ? 100 : fileProgress} />
             <p className="text-xs text-muted-foreground text-center">
-              {importProgress.toFixed(0)}% complete
+              {importProgress.rowsWritten.toLocaleString()} written
+              {importProgress.rowsFailed > 0 && ` · ${importProgress.rowsFailed.toLocaleString()} failed`}
+              {' · '}{formatBytes(importProgress.bytesRead)} / {formatBytes(importProgress.totalBytes)}
+              {importProgress.status === 'running' && ` · batch size ${importProgress.batchSize.toLocaleString()}`}
+              {importProgress.status === 'canceled' && ' · canceled'}
             </p>
+            {importProgress.errors.length > 0 && (
+              <div className="border rounded border-tp-danger/30">
+                <div className="flex items-center justify-between px-2 py-1 text-xs border-b border-tp-danger/30">
+                  <span className="text-tp-danger">
+                    {importProgress.rowsFailed.toLocaleString()} row{importProgress.rowsFailed !== 1 ? 's' : ''} failed
+                  </span>
+                  {importProgress.errorLogPath && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 text-[10px]"
+                      onClick={() => window.electronAPI.showInFolder(importProgress.errorLogPath!)}
+                    >
+                      <FolderOpen className="h-3 w-3 mr-1" />
+                      error log
+                    </Button>
+                  )}
+                </div>
+                <div className="max-h-32 overflow-y-auto font-mono text-[11px]">
+                  {importProgress.errors.map((rowError, index) => (
+                    <div key={index} className="px-2 py-0.5 flex gap-2">
+                      <span className="text-tp-text-muted w-20 flex-shrink-0">
+                        {preview?.format === 'parquet' || preview?.format === 'json' ? 'row' : 'line'} {rowError.line}
+                      </span>
+                      {rowError.id !== undefined && (
+                        <span className="text-tp-text-muted flex-shrink-0">id {String(rowError.id)}</span>
+                      )}
+                      <span className="text-tp-danger truncate" title={rowError.error}>{rowError.error}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
         )}
 
         <DialogFooter>
-          <Button variant="outline" onClick={onClose} disabled={importing}>
-            Cancel
-          </Button>
+          {importing && activeTab === 'file' ? (
+            <Button variant="outline" onClick={handleCancelImport}>
+              Stop Import
+            </Button>
+          ) : (
+            <Button variant="outline" onClick={finished ? onSuccess : onClose} disabled={importing}>
+              {finished ? 'Done' : 'Cancel'}
+            </Button>
+          )}
           <Button
-            onClick={handleImport}
+            onClick={activeTab === 'json' ? handleJsonImport : handleFileImport}
             disabled={
               importing ||
-              (activeTab === 'file' && importFiles.length === 0) ||
+              (activeTab === 'file' && !preview) ||
               (activeTab === 'json' && (!jsonText.trim() || !jsonValidation?.valid))
             }
           >
@@ -517,4 +614,4 @@ export const DocumentImportDialog: React.FC<DocumentImportDialogProps> = ({
       </DialogContent>
     </Dialog>
   );
-};
\ No newline at end of file
+};
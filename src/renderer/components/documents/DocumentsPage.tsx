@@ -1,6 +1,7 @@
-import React, { useEffect, useState } from "react";
+import React, { useCallback, useEffect, useRef, useState } from "react";
 import { useParams, Link } from "react-router-dom";
 import type { Document } from "@/types/document";
+import type { StreamingExportFormat } from "@/types/export";
 import {
   AlertCircle,
   ChevronRight,
@@ -9,6 +10,10 @@ import {
   Trash2,
   Upload,
   Code,
+  PencilLine,
+  ScatterChart,
+  HeartPulse,
+  Boxes,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
@@ -26,21 +31,34 @@ import {
   DropdownMenuLabel,
 } from "@/components/ui/dropdown-menu";
 import { useConnections } from "@/renderer/contexts/ConnectionContext";
-import { useDocumentsStore } from "@/renderer/stores/documentsStore";
+import { buildActiveFilter, useDocumentsStore } from "@/renderer/stores/documentsStore";
 import { useToast } from "@/hooks/use-toast";
 import { toast as sonnerToast } from "sonner";
 import { useInspector } from "@/renderer/components/layout/MainLayout";
 import { DocumentsTable } from "./DocumentsTable";
 import { DocumentDetailsPanel } from "./DocumentDetailsPanel";
 import { DocumentImportDialog } from "./DocumentImportDialog";
+import { BulkPatchDialog } from "./BulkPatchDialog";
+import { ExportJobsPanel } from "./ExportJobsPanel";
+import { PendingChangesBar } from "./PendingChangesBar";
+import { VectorProjectionView } from "./VectorProjectionView";
+import { VectorClusterView } from "./VectorClusterView";
+import { VectorHealthDialog } from "./VectorHealthDialog";
 import { FilterBar } from "./FilterBar/FilterBar";
 import { RawQueryBar } from "./RawQueryBar";
 import { QueryPerformanceMetrics } from "./QueryPerformanceMetrics";
 import { AggregationGroupsTable } from "./AggregationGroupsTable"; // NEW: Import grouped results table
-import { convertFiltersToRawQuery } from "@/renderer/utils/filterConversion";
+import { AggregationResults } from "./AggregationResults";
+import { convertFiltersToRawQuery, splitFilterForBuilder } from "@/renderer/utils/filterConversion";
 import { ConnectionErrorState, NamespaceNotFoundState } from "../shared/ErrorStates";
 import { Skeleton } from "@/components/ui/skeleton";
 
+const STREAMING_EXPORT_FORMATS: { format: StreamingExportFormat; label: string }[] = [
+  { format: "ndjson", label: "NDJSON" },
+  { format: "csv", label: "CSV" },
+  { format: "parquet", label: "Parquet" },
+];
+
 export const DocumentsPage: React.FC = () => {
   const { connectionId, namespaceId } = useParams<{ connectionId: string; namespaceId: string }>();
   const { getConnectionById, turbopufferClient, clientError, setActiveConnection, isActiveConnectionReadOnly, getDelimiterPreference } = useConnections();
@@ -63,28 +81,68 @@ export const DocumentsPage: React.FC = () => {
     setConnectionId,
     setNamespace,
     exportDocuments,
-    exportFullNamespace,
     nextCursor,
     resetInitialization,
     lastQueryResult,
     unfilteredTotalCount,
     groupByAttributes, // NEW: Get group-by attributes
     aggregationGroups, // NEW: Get grouped results
+    aggregationResults,
     isGroupedQuery, // NEW: Flag for grouped query
     aggregations, // NEW: Get aggregations config
+    drillIntoGroup,
   } = useDocumentsStore();
 
   // Subscribe to store state for filter dependencies
   const activeFilters = useDocumentsStore(state => state.activeFilters);
+  const filterGroups = useDocumentsStore(state => state.filterGroups);
   const searchText = useDocumentsStore(state => state.searchText);
+  const hasActiveFilters = activeFilters.length > 0 || filterGroups.length > 0;
 
   // Check if we're in aggregation mode (with or without grouping)
   const isAggregationMode = aggregations.length > 0;
 
   const [showImportDialog, setShowImportDialog] = useState(false);
+  const [showBulkPatchDialog, setShowBulkPatchDialog] = useState(false);
+  const [showVectorHealthDialog, setShowVectorHealthDialog] = useState(false);
   const [pageSize, setPageSize] = useState(100);
   const [isRawQueryMode, setIsRawQueryMode] = useState(false);
+  const [contentView, setContentView] = useState<"table" | "projection" | "clusters">("table");
   const [initialRawQuery, setInitialRawQuery] = useState<string | undefined>(undefined);
+  const rawQueryRef = useRef<string | undefined>(undefined);
+  const handleRawQueryChange = useCallback((query: string) => {
+    rawQueryRef.current = query;
+  }, []);
+
+  // Bring filters edited in raw mode back into the visual builder
+  const applyRawQueryFilters = () => {
+    const rawQuery = rawQueryRef.current;
+    if (!rawQuery || rawQuery === initialRawQuery) return;
+
+    let parsed: any;
+    try {
+      parsed = JSON.parse(rawQuery);
+    } catch {
+      toast({
+        title: "Filters not converted",
+        description: "The raw query is not valid JSON, so the visual filters were left unchanged.",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (!parsed?.filters) return;
+
+    const split = splitFilterForBuilder(parsed.filters, useDocumentsStore.getState().attributes);
+    if (!split) {
+      toast({
+        title: "Filters not converted",
+        description: "The raw query uses filters the visual builder can't show.",
+        variant: "destructive",
+      });
+      return;
+    }
+    useDocumentsStore.getState().replaceFilters(split.filters, split.groups);
+  };
   const [currentPage, setCurrentPage] = useState(1);
   const [activeDocumentId, setActiveDocumentId] = useState<string | number | null>(null);
   const [isExporting, setIsExporting] = useState(false);
@@ -246,45 +304,20 @@ export const DocumentsPage: React.FC = () => {
     }
   };
 
-  const handleExportFullNamespace = async (format: "json" | "csv") => {
-    setIsExporting(true);
-
-    // Show progress toast
-    const toastId = sonnerToast.loading("Exporting full namespace...", {
-      description: "Fetching all documents...",
-    });
+  const handleStreamingExport = async (format: StreamingExportFormat, matchingOnly: boolean) => {
+    if (!connectionId || !namespaceId) return;
 
     try {
-      const result = await exportFullNamespace(format, (exported) => {
-        sonnerToast.loading("Exporting full namespace...", {
-          id: toastId,
-          description: `Fetched ${exported.toLocaleString()} documents...`,
-        });
+      // Vectors only make it into formats that can hold arrays without bloating every row
+      await window.electronAPI.startExport({
+        connectionId,
+        namespaceId,
+        format,
+        filters: matchingOnly ? buildActiveFilter(useDocumentsStore.getState()) ?? null : null,
+        includeVectors: format !== "csv",
       });
-
-      setIsExporting(false);
-      sonnerToast.dismiss(toastId);
-
-      if (result.canceled) {
-        return;
-      }
-
-      if (result.filePath) {
-        sonnerToast.success(`Exported ${result.totalExported.toLocaleString()} documents`, {
-          description: result.filePath,
-          action: {
-            label: "Show in Folder",
-            onClick: () => {
-              window.electronAPI.showInFolder(result.filePath!);
-            },
-          },
-          duration: 5000,
-        });
-      }
     } catch (error) {
-      console.error("Export full namespace failed:", error);
-      setIsExporting(false);
-      sonnerToast.dismiss(toastId);
+      console.error("Export failed to start:", error);
       toast({
         title: "Export failed",
         description: error instanceof Error ? error.message : "Unknown error occurred",
@@ -475,6 +508,31 @@ export const DocumentsPage: React.FC = () => {
             <Upload className="h-3 w-3 mr-1" />
             import
           </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setShowBulkPatchDialog(true)}
+            disabled={isActiveConnectionReadOnly || (!hasActiveFilters && !searchText.trim())}
+            title={
+              isActiveConnectionReadOnly
+                ? "Read-only connection: write operations disabled"
+                : "Patch all documents matching the current filters"
+            }
+            className="h-6 text-[10px] text-muted-foreground hover:text-foreground"
+          >
+            <PencilLine className="h-3 w-3 mr-1" />
+            patch
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setShowVectorHealthDialog(true)}
+            title="Check a sample of vectors for bad dimensions, NaN values, zero norms and duplicates"
+            className="h-6 text-[10px] text-muted-foreground hover:text-foreground"
+          >
+            <HeartPulse className="h-3 w-3 mr-1" />
+            health
+          </Button>
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
               <Button
@@ -503,14 +561,26 @@ export const DocumentsPage: React.FC = () => {
               <DropdownMenuLabel className="text-[10px] uppercase tracking-wider text-tp-text-muted">
                 Full Namespace
               </DropdownMenuLabel>
-              <DropdownMenuItem onClick={() => handleExportFullNamespace("json")} className="text-xs">
-                <Download className="h-3 w-3 mr-1.5" />
-                Export All as JSON
-              </DropdownMenuItem>
-              <DropdownMenuItem onClick={() => handleExportFullNamespace("csv")} className="text-xs">
-                <Download className="h-3 w-3 mr-1.5" />
-                Export All as CSV
-              </DropdownMenuItem>
+              {STREAMING_EXPORT_FORMATS.map(({ format, label }) => (
+                <DropdownMenuItem key={format} onClick={() => handleStreamingExport(format, false)} className="text-xs">
+                  <Download className="h-3 w-3 mr-1.5" />
+                  Export All as {label}
+                </DropdownMenuItem>
+              ))}
+              {(hasActiveFilters || searchText.trim()) && (
+                <>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuLabel className="text-[10px] uppercase tracking-wider text-tp-text-muted">
+                    Matching Filters
+                  </DropdownMenuLabel>
+                  {STREAMING_EXPORT_FORMATS.map(({ format, label }) => (
+                    <DropdownMenuItem key={format} onClick={() => handleStreamingExport(format, true)} className="text-xs">
+                      <Download className="h-3 w-3 mr-1.5" />
+                      Export Matching as {label}
+                    </DropdownMenuItem>
+                  ))}
+                </>
+              )}
             </DropdownMenuContent>
           </DropdownMenu>
           <Separator orientation="vertical" className="h-4 mx-0.5" />
@@ -522,10 +592,12 @@ export const DocumentsPage: React.FC = () => {
                 const rawQuery = convertFiltersToRawQuery(
                   useDocumentsStore.getState().activeFilters,
                   useDocumentsStore.getState().searchText,
-                  useDocumentsStore.getState().attributes
+                  useDocumentsStore.getState().attributes,
+                  useDocumentsStore.getState().filterGroups
                 );
                 setInitialRawQuery(rawQuery);
               } else {
+                applyRawQueryFilters();
                 setInitialRawQuery(undefined);
               }
               setIsRawQueryMode(!isRawQueryMode);
@@ -535,12 +607,36 @@ export const DocumentsPage: React.FC = () => {
             <Code className="h-3 w-3 mr-1" />
             {isRawQueryMode ? "raw" : "visual"}
           </Button>
+          <Button
+            variant={contentView === "projection" ? "secondary" : "ghost"}
+            size="sm"
+            onClick={() => setContentView(contentView === "projection" ? "table" : "projection")}
+            className="h-6 text-[10px]"
+            title="Project vectors to 2D"
+          >
+            <ScatterChart className="h-3 w-3 mr-1" />
+            vectors
+          </Button>
+          <Button
+            variant={contentView === "clusters" ? "secondary" : "ghost"}
+            size="sm"
+            onClick={() => setContentView(contentView === "clusters" ? "table" : "clusters")}
+            className="h-6 text-[10px]"
+            title="Cluster a sample of vectors with k-means"
+          >
+            <Boxes className="h-3 w-3 mr-1" />
+            clusters
+          </Button>
         </div>
       </div>
 
       {/* Filter Bar or Raw Query Bar */}
       {isRawQueryMode ? (
-        <RawQueryBar namespaceId={namespaceId || ''} initialQuery={initialRawQuery} />
+        <RawQueryBar
+          namespaceId={namespaceId || ''}
+          initialQuery={initialRawQuery}
+          onQueryChange={handleRawQueryChange}
+        />
       ) : (
         <FilterBar
           className="sticky top-0 z-10"
@@ -553,6 +649,12 @@ export const DocumentsPage: React.FC = () => {
         />
       )}
 
+      {/* Streaming exports running in the main process */}
+      {connectionId && <ExportJobsPanel connectionId={connectionId} />}
+
+      {/* Inline edits waiting to be written */}
+      <PendingChangesBar readOnly={isActiveConnectionReadOnly} />
+
       {/* Error Display */}
       {error && (
         <div className="mx-3 my-2 px-3 py-2 bg-tp-danger/10 border border-tp-danger/30 rounded-sm">
@@ -581,13 +683,24 @@ export const DocumentsPage: React.FC = () => {
             <AggregationGroupsTable
               groups={aggregationGroups}
               groupByAttributes={groupByAttributes}
+              aggregations={aggregations}
+              onDrillDown={drillIntoGroup}
             />
             <QueryPerformanceMetrics lastQueryResult={lastQueryResult} />
           </>
         ) :
-          /* Priority 2: Show aggregation results when in aggregation mode (Count without grouping) */
-          isAggregationMode && lastQueryResult ? (
+          /* Priority 2: Show aggregation results when in aggregation mode (without grouping) */
+          isAggregationMode && aggregationResults ? (
+            <>
+              <AggregationResults results={aggregationResults} className="m-4" />
+              <QueryPerformanceMetrics lastQueryResult={lastQueryResult} />
+            </>
+          ) : isAggregationMode && lastQueryResult ? (
             <RawResponseViewer response={lastQueryResult} />
+          ) : contentView === "projection" ? (
+            <VectorProjectionView />
+          ) : contentView === "clusters" ? (
+            <VectorClusterView />
           ) :
             /* Priority 3: Show raw response if no documents but we have query results */
             documents.length === 0 && lastQueryResult && !loading && !error ? (
@@ -602,6 +715,7 @@ export const DocumentsPage: React.FC = () => {
                   selectedDocuments={new Set(Array.from(selectedDocuments).map(String))}
                   onInitialLoad={handleInitialLoad}
                   activeDocumentId={activeDocumentId}
+                  readOnly={isActiveConnectionReadOnly}
                 />
                 <QueryPerformanceMetrics lastQueryResult={lastQueryResult} />
               </>
@@ -620,6 +734,26 @@ export const DocumentsPage: React.FC = () => {
         />
       )}
 
+      {/* Vector Health Dialog */}
+      {showVectorHealthDialog && (
+        <VectorHealthDialog
+          open={showVectorHealthDialog}
+          onClose={() => setShowVectorHealthDialog(false)}
+        />
+      )}
+
+      {/* Bulk Patch Dialog */}
+      {showBulkPatchDialog && (
+        <BulkPatchDialog
+          open={showBulkPatchDialog}
+          onClose={() => setShowBulkPatchDialog(false)}
+          onSuccess={() => {
+            setShowBulkPatchDialog(false);
+            refresh();
+          }}
+        />
+      )}
+
       {/* Selection Footer - Absolute positioned at bottom */}
       {!isRawQueryMode && selectedDocuments.size > 0 && (
         <div className="absolute bottom-0 left-0 right-0 px-3 py-2.5 bg-tp-surface border-t border-tp-border-strong shadow-lg z-10">
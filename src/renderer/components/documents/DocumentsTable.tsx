@@ -1,4 +1,4 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
 import {
   Table,
   TableBody,
@@ -10,7 +10,6 @@ import {
 import { Checkbox } from '@/components/ui/checkbox';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Skeleton } from '@/components/ui/skeleton';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -19,7 +18,25 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { MoreHorizontal } from 'lucide-react';
+import { toast as sonnerToast } from 'sonner';
 import { useDocumentsStore } from '@/renderer/stores/documentsStore';
+import { vectorAttributesOf } from '@/renderer/utils/queryValidation';
+import { buildRowOffsets, findVisibleRange, rowAtOffset, scrollTopToReveal } from '@/renderer/utils/virtualRows';
+import { cellEditorKind, formatCellEditText } from '@/renderer/utils/cellEditing';
+import { InlineCellEditor } from './InlineCellEditor';
+
+const HEADER_HEIGHT = 36; // h-9 header row
+const ESTIMATED_ROW_HEIGHT = 48; // h-12 rows; wrapped rows are measured once rendered
+const SELECT_COLUMN_WIDTH = 48;
+const FUSION_COLUMN_WIDTH = 280;
+const ACTIONS_COLUMN_WIDTH = 64;
+const DEFAULT_COLUMN_WIDTH = 200;
+const MIN_COLUMN_WIDTH = 80;
+
+interface CellPosition {
+  row: number;
+  column: number;
+}
 
 interface DocumentsTableProps {
   documents: any[];
@@ -28,6 +45,7 @@ interface DocumentsTableProps {
   selectedDocuments: Set<string | number>;
   onInitialLoad?: () => void;
   activeDocumentId?: string | number | null;
+  readOnly?: boolean;
 }
 
 export const DocumentsTable: React.FC<DocumentsTableProps> = ({
@@ -37,11 +55,36 @@ export const DocumentsTable: React.FC<DocumentsTableProps> = ({
   selectedDocuments,
   onInitialLoad,
   activeDocumentId = null,
+  readOnly = false,
 }) => {
-  const { setSelectedDocuments, visibleColumns, attributes, wrapCellText, shrinkLargeText } = useDocumentsStore();
+  const {
+    setSelectedDocuments,
+    visibleColumns,
+    attributes,
+    wrapCellText,
+    shrinkLargeText,
+    nextCursor,
+    isLoadingMore,
+    pageSize,
+    loadDocuments,
+    pendingChanges,
+    stageCellEdit,
+    namespaceSchema,
+    activeFilters,
+    filterGroups,
+    findSimilar,
+  } = useDocumentsStore();
   const [columnWidths, setColumnWidths] = useState<Record<string, number>>({});
   const scrollContainerRef = useRef<HTMLDivElement>(null);
+  const bodyRef = useRef<HTMLTableSectionElement>(null);
   const [isInitialLoad, setIsInitialLoad] = useState(true);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(800);
+  const [focusedCell, setFocusedCell] = useState<CellPosition | null>(null);
+  const [editingCell, setEditingCell] = useState<CellPosition | null>(null);
+  // Measured row heights by document id; bumping the version rebuilds the offsets
+  const rowHeightsRef = useRef(new Map<string | number, number>());
+  const [measureVersion, setMeasureVersion] = useState(0);
 
   // Track if this is the first load
   useEffect(() => {
@@ -51,7 +94,7 @@ export const DocumentsTable: React.FC<DocumentsTableProps> = ({
   }, [documents.length]);
 
   // Get all columns from documents and attributes
-  const allColumns = React.useMemo(() => {
+  const allColumns = useMemo(() => {
     const cols = new Set<string>();
 
     // Always include id
@@ -65,7 +108,8 @@ export const DocumentsTable: React.FC<DocumentsTableProps> = ({
     // Add from documents if not already present
     documents.forEach((doc) => {
       Object.keys(doc).forEach((key) => {
-        if (key !== "attributes") cols.add(key);
+        // $fusion is rendered in its own column
+        if (key !== "attributes" && key !== "$fusion") cols.add(key);
       });
       if (doc.attributes && typeof doc.attributes === "object") {
         Object.keys(doc.attributes).forEach((key) => cols.add(key));
@@ -83,6 +127,104 @@ export const DocumentsTable: React.FC<DocumentsTableProps> = ({
   }, [documents, attributes]);
 
 
+  const vectorAttributes = useMemo(() => vectorAttributesOf(namespaceSchema), [namespaceSchema]);
+  const hasFilters = activeFilters.length > 0 || filterGroups.length > 0;
+
+  const handleFindSimilar = (doc: any, vectorField: string, keepFilters: boolean) => {
+    findSimilar(doc, { vectorField, keepFilters }).catch((error) => {
+      sonnerToast.error('Could not find similar documents', {
+        description: error instanceof Error ? error.message : String(error),
+      });
+    });
+  };
+
+  // Rows from a hybrid (fused multi-query) search carry per-subquery ranks
+  const hasFusion = documents.some(doc => doc.$fusion);
+
+  const columns = useMemo(
+    () => Array.from(visibleColumns).filter(col => allColumns.includes(col)),
+    [visibleColumns, allColumns]
+  );
+  const widthOf = (column: string) => columnWidths[column] ?? DEFAULT_COLUMN_WIDTH;
+  const leadingWidth = SELECT_COLUMN_WIDTH + (hasFusion ? FUSION_COLUMN_WIDTH : 0);
+  const tableWidth = leadingWidth + columns.reduce((sum, column) => sum + widthOf(column), 0) + ACTIONS_COLUMN_WIDTH;
+
+  // Only the rows in (or near) the viewport are rendered; spacer rows stand in for the rest
+  const offsets = useMemo(
+    () => buildRowOffsets(documents.length, index => rowHeightsRef.current.get(documents[index].id), ESTIMATED_ROW_HEIGHT),
+    // measureVersion invalidates the offsets when rendered rows change height
+    [documents, measureVersion]
+  );
+  const bodyViewportHeight = Math.max(0, viewportHeight - HEADER_HEIGHT);
+  const range = findVisibleRange(offsets, scrollTop, bodyViewportHeight);
+
+  // The scroll container only exists while the table (rather than the empty state) shows
+  const isTableShown = documents.length > 0 || loading;
+  useEffect(() => {
+    const container = scrollContainerRef.current;
+    if (!container) return;
+    setViewportHeight(container.clientHeight);
+    const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [isTableShown]);
+
+  // Heights depend on wrapping and column widths, so measure again when they change
+  useEffect(() => {
+    rowHeightsRef.current.clear();
+    setMeasureVersion(version => version + 1);
+  }, [wrapCellText, shrinkLargeText, columnWidths]);
+
+  // Record the height of every rendered row
+  useLayoutEffect(() => {
+    const body = bodyRef.current;
+    if (!body) return;
+    let changed = false;
+    body.querySelectorAll<HTMLTableRowElement>('tr[data-row-index]').forEach(row => {
+      const doc = documents[Number(row.dataset.rowIndex)];
+      if (!doc) return;
+      const height = row.offsetHeight;
+      if (height > 0 && rowHeightsRef.current.get(doc.id) !== height) {
+        rowHeightsRef.current.set(doc.id, height);
+        changed = true;
+      }
+    });
+    if (changed) setMeasureVersion(version => version + 1);
+  });
+
+  // Fetch the next page in the background once the user scrolls near the end
+  useEffect(() => {
+    if (!nextCursor || isLoadingMore || loading || scrollTop === 0) return;
+    const remaining = offsets[documents.length] - (scrollTop + bodyViewportHeight);
+    if (remaining < bodyViewportHeight * 2) {
+      loadDocuments(false, true, pageSize);
+    }
+  }, [scrollTop, bodyViewportHeight, offsets, documents.length, nextCursor, isLoadingMore, loading, pageSize, loadDocuments]);
+
+  // A new result set can be shorter than the focused row
+  useEffect(() => {
+    setFocusedCell(cell => (cell && cell.row < documents.length ? cell : null));
+    setEditingCell(null);
+  }, [documents]);
+
+  // Keep the focused cell in view
+  useEffect(() => {
+    const container = scrollContainerRef.current;
+    if (!focusedCell || !container) return;
+    const top = scrollTopToReveal(offsets, focusedCell.row, container.scrollTop, container.clientHeight, HEADER_HEIGHT);
+    if (top !== container.scrollTop) container.scrollTop = top;
+
+    const column = columns[focusedCell.column];
+    if (!column) return;
+    const left = leadingWidth + columns.slice(0, focusedCell.column).reduce((sum, col) => sum + widthOf(col), 0);
+    const right = left + widthOf(column);
+    if (left < container.scrollLeft + leadingWidth) {
+      container.scrollLeft = Math.max(0, left - leadingWidth);
+    } else if (right > container.scrollLeft + container.clientWidth) {
+      container.scrollLeft = right - container.clientWidth;
+    }
+  }, [focusedCell]);
+
   const isAllSelected = documents.length > 0 &&
     documents.every(doc => selectedDocuments.has(doc.id));
   const isPartiallySelected = documents.some(doc => selectedDocuments.has(doc.id)) &&
@@ -199,9 +341,105 @@ export const DocumentsTable: React.FC<DocumentsTableProps> = ({
     return value;
   };
 
-  // Remove auto-loading on scroll - make it manual only
-  const handleScroll = () => {
-    // No longer auto-loading on scroll
+  // Loaded value of a cell, or its staged edit
+  const cellValue = (doc: any, column: string) => {
+    const pending = pendingChanges.get(doc.id);
+    if (pending && column in pending.changes) return pending.changes[column];
+    return doc[column] !== undefined ? doc[column] : doc.attributes?.[column];
+  };
+
+  const isEditableColumn = (column: string) =>
+    !readOnly && column !== 'id' && !column.startsWith('$') && column !== 'vector';
+
+  const startEditing = (cell: CellPosition) => {
+    if (!isEditableColumn(columns[cell.column])) return;
+    setFocusedCell(cell);
+    setEditingCell(cell);
+  };
+
+  const finishEditing = () => {
+    setEditingCell(null);
+    scrollContainerRef.current?.focus();
+  };
+
+  const handleScroll = (event: React.UIEvent<HTMLDivElement>) => {
+    setScrollTop(event.currentTarget.scrollTop);
+  };
+
+  const startColumnResize = (event: React.MouseEvent, column: string) => {
+    event.preventDefault();
+    event.stopPropagation();
+    const startX = event.clientX;
+    const startWidth = widthOf(column);
+    const handleMove = (move: MouseEvent) => {
+      setColumnWidths(widths => ({
+        ...widths,
+        [column]: Math.max(MIN_COLUMN_WIDTH, startWidth + move.clientX - startX),
+      }));
+    };
+    const handleUp = () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+  };
+
+  // Arrow keys move between cells, Enter opens the row, Space selects it and F2 edits the cell
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    // Menus and buttons inside the grid handle their own keys
+    if (event.target !== event.currentTarget) return;
+    if (documents.length === 0 || columns.length === 0) return;
+
+    const lastRow = documents.length - 1;
+    const lastColumn = columns.length - 1;
+    const pageRows = Math.max(1, Math.floor(bodyViewportHeight / ESTIMATED_ROW_HEIGHT) - 1);
+    const current = focusedCell ?? { row: rowAtOffset(offsets, scrollTop), column: 0 };
+    const jumpToEdge = event.ctrlKey || event.metaKey;
+    let { row, column } = current;
+
+    switch (event.key) {
+      case 'ArrowDown': row += focusedCell ? 1 : 0; break;
+      case 'ArrowUp': row -= focusedCell ? 1 : 0; break;
+      case 'ArrowRight': column += focusedCell ? 1 : 0; break;
+      case 'ArrowLeft': column -= focusedCell ? 1 : 0; break;
+      case 'PageDown': row += pageRows; break;
+      case 'PageUp': row -= pageRows; break;
+      case 'Home':
+        column = 0;
+        if (jumpToEdge) row = 0;
+        break;
+      case 'End':
+        column = lastColumn;
+        if (jumpToEdge) row = lastRow;
+        break;
+      case 'Enter':
+        if (!focusedCell) return;
+        event.preventDefault();
+        onDocumentClick(documents[focusedCell.row]);
+        return;
+      case 'F2':
+        if (!focusedCell) return;
+        event.preventDefault();
+        startEditing(focusedCell);
+        return;
+      case ' ':
+        if (!focusedCell) return;
+        event.preventDefault();
+        toggleDocumentSelection(documents[focusedCell.row].id);
+        return;
+      case 'Escape':
+        setFocusedCell(null);
+        return;
+      default:
+        return;
+    }
+
+    event.preventDefault();
+    setFocusedCell({
+      row: Math.min(Math.max(row, 0), lastRow),
+      column: Math.min(Math.max(column, 0), lastColumn),
+    });
   };
 
   if (documents.length === 0 && !loading) {
@@ -239,11 +477,26 @@ export const DocumentsTable: React.FC<DocumentsTableProps> = ({
       <div
         ref={scrollContainerRef}
         onScroll={handleScroll}
-        className="flex-1 overflow-auto overflow-x-auto"
+        onKeyDown={handleKeyDown}
+        tabIndex={0}
+        className="flex-1 overflow-auto overflow-x-auto outline-none"
       >
-        <Table>
+        <Table
+          className="table-fixed"
+          style={{ width: tableWidth }}
+          role="grid"
+          aria-rowcount={documents.length + 1}
+        >
+          <colgroup>
+            <col style={{ width: SELECT_COLUMN_WIDTH }} />
+            {hasFusion && <col style={{ width: FUSION_COLUMN_WIDTH }} />}
+            {columns.map(column => (
+              <col key={column} style={{ width: widthOf(column) }} />
+            ))}
+            <col style={{ width: ACTIONS_COLUMN_WIDTH }} />
+          </colgroup>
           <TableHeader className="sticky top-0 bg-tp-surface z-10 border-b border-tp-border-subtle">
-            <TableRow className="hover:bg-transparent">
+            <TableRow className="hover:bg-transparent" aria-rowindex={1}>
               <TableHead
                 className="w-12 h-9 px-4 text-xs font-bold text-tp-text-muted cursor-pointer"
                 onClick={() => !loading && toggleAllDocuments()}
@@ -255,26 +508,47 @@ export const DocumentsTable: React.FC<DocumentsTableProps> = ({
                   className="h-3 w-3 pointer-events-none"
                 />
               </TableHead>
-              {Array.from(visibleColumns).filter(col => allColumns.includes(col)).map(column => (
+              {hasFusion && (
+                <TableHead className="h-9 px-4 text-xs font-bold text-tp-text-muted whitespace-nowrap">
+                  fused rank
+                </TableHead>
+              )}
+              {columns.map(column => (
                 <TableHead
                   key={column}
-                  className="min-w-[120px] h-9 px-4 text-xs font-bold text-tp-text-muted"
-                  style={{ width: columnWidths[column] }}
+                  className="relative h-9 px-4 text-xs font-bold text-tp-text-muted truncate"
+                  title={column}
                 >
                   {column}
+                  <div
+                    className="absolute top-0 right-0 w-1.5 h-full cursor-col-resize hover:bg-tp-accent/40"
+                    onMouseDown={(e) => startColumnResize(e, column)}
+                    onDoubleClick={() => setColumnWidths(widths => {
+                      const next = { ...widths };
+                      delete next[column];
+                      return next;
+                    })}
+                    title="Drag to resize, double-click to reset"
+                  />
                 </TableHead>
               ))}
               <TableHead className="w-16 h-8 px-4"></TableHead>
             </TableRow>
           </TableHeader>
-          <TableBody>
-            {documents.map((doc, index) => {
+          <TableBody ref={bodyRef}>
+            {range.paddingTop > 0 && <tr aria-hidden style={{ height: range.paddingTop }} />}
+            {documents.slice(range.start, range.end).map((doc, offset) => {
+              const index = range.start + offset;
               const isActive = activeDocumentId !== null && doc.id === activeDocumentId;
+              const pending = pendingChanges.get(doc.id);
               return (
                 <TableRow
-                  key={doc.id || index}
-                  className={`group cursor-pointer hover:bg-tp-surface-alt border-b border-tp-border-subtle/50 border-l-2 ${wrapCellText ? 'min-h-12' : 'h-12'} transition-all ${isActive ? 'border-l-tp-accent bg-tp-surface-alt' : 'border-l-transparent hover:border-l-tp-surface-alt'
+                  key={doc.id ?? index}
+                  data-row-index={index}
+                  aria-rowindex={index + 2}
+                  className={`group cursor-pointer hover:bg-tp-surface-alt border-b border-tp-border-subtle/50 border-l-2 ${wrapCellText ? 'min-h-12' : 'h-12'} transition-all ${pending?.error ? 'border-l-tp-danger' : isActive ? 'border-l-tp-accent bg-tp-surface-alt' : 'border-l-transparent hover:border-l-tp-surface-alt'
                     }`}
+                  title={pending?.error}
                   onClick={() => onDocumentClick(doc)}
                 >
                   <TableCell
@@ -290,11 +564,58 @@ export const DocumentsTable: React.FC<DocumentsTableProps> = ({
                       className="h-3 w-3 pointer-events-none"
                     />
                   </TableCell>
-                  {Array.from(visibleColumns).filter(col => allColumns.includes(col)).map(column => {
-                    const value = doc[column] !== undefined ? doc[column] : doc.attributes?.[column];
+                  {hasFusion && (
+                    <TableCell className="py-3 px-4 text-xs font-mono align-middle whitespace-nowrap overflow-hidden">
+                      {doc.$fusion && (
+                        <div className="flex items-center gap-1.5" title={`fused score ${doc.$fusion.score.toFixed(4)}`}>
+                          <span className="text-tp-text font-bold">#{doc.$fusion.rank}</span>
+                          {doc.$fusion.subqueries.map((sub: any) => (
+                            <Badge
+                              key={sub.label}
+                              variant="outline"
+                              className={`px-1 h-4 text-[9px] ${sub.rank === null ? 'text-tp-text-faint' : ''}`}
+                            >
+                              {sub.label} {sub.rank === null ? '–' : `#${sub.rank}`}
+                              {sub.score !== null && ` · ${sub.score.toFixed(3)}`}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
+                    </TableCell>
+                  )}
+                  {columns.map((column, columnIndex) => {
+                    const value = cellValue(doc, column);
+                    const isFocused = focusedCell?.row === index && focusedCell.column === columnIndex;
+                    const isEditing = editingCell?.row === index && editingCell.column === columnIndex;
+                    const isStaged = !!pending && column in pending.changes;
+                    const editorKind = cellEditorKind(value, attributes.find(attr => attr.name === column)?.type);
                     return (
-                      <TableCell key={column} className={`py-3 px-4 text-sm text-tp-text font-mono group-hover:text-tp-text ${wrapCellText ? 'align-top' : 'align-middle'}`}>
-                        {formatCellValue(value, column, doc)}
+                      <TableCell
+                        key={column}
+                        role="gridcell"
+                        aria-selected={isFocused}
+                        className={`py-3 px-4 text-sm text-tp-text font-mono group-hover:text-tp-text overflow-hidden ${wrapCellText ? 'align-top' : 'align-middle whitespace-nowrap'} ${isFocused ? 'outline outline-1 -outline-offset-1 outline-tp-accent' : ''} ${isStaged ? 'bg-tp-warning/10' : ''}`}
+                        title={isStaged ? `was: ${JSON.stringify(pending.original[column] ?? null)}` : undefined}
+                        onClick={() => setFocusedCell({ row: index, column: columnIndex })}
+                        onDoubleClick={(e) => {
+                          if (!isEditableColumn(column)) return;
+                          e.stopPropagation();
+                          startEditing({ row: index, column: columnIndex });
+                        }}
+                      >
+                        {isEditing ? (
+                          <InlineCellEditor
+                            kind={editorKind}
+                            initialText={formatCellEditText(value, editorKind)}
+                            onCommit={(next) => {
+                              stageCellEdit(doc.id, column, next);
+                              finishEditing();
+                            }}
+                            onCancel={finishEditing}
+                          />
+                        ) : (
+                          formatCellValue(value, column, doc)
+                        )}
                       </TableCell>
                     );
                   })}
@@ -309,6 +630,18 @@ export const DocumentsTable: React.FC<DocumentsTableProps> = ({
                         <DropdownMenuItem onClick={() => onDocumentClick(doc)}>
                           View Details
                         </DropdownMenuItem>
+                        {vectorAttributes.map((field) => (
+                          <React.Fragment key={field}>
+                            <DropdownMenuItem onClick={() => handleFindSimilar(doc, field, false)}>
+                              Find Similar{vectorAttributes.length > 1 && ` by ${field}`}
+                            </DropdownMenuItem>
+                            {hasFilters && (
+                              <DropdownMenuItem onClick={() => handleFindSimilar(doc, field, true)}>
+                                Find Similar{vectorAttributes.length > 1 && ` by ${field}`} Within Filters
+                              </DropdownMenuItem>
+                            )}
+                          </React.Fragment>
+                        ))}
                         <DropdownMenuItem>Edit</DropdownMenuItem>
                         <DropdownMenuSeparator />
                         <DropdownMenuItem className="text-destructive">
@@ -320,9 +653,17 @@ export const DocumentsTable: React.FC<DocumentsTableProps> = ({
                 </TableRow>
               );
             })}
+            {range.paddingBottom > 0 && <tr aria-hidden style={{ height: range.paddingBottom }} />}
+            {isLoadingMore && (
+              <TableRow className="hover:bg-transparent">
+                <TableCell colSpan={columns.length + (hasFusion ? 3 : 2)} className="h-10 text-center">
+                  <span className="text-xs text-tp-text-muted font-mono">loading more...</span>
+                </TableCell>
+              </TableRow>
+            )}
             {showSkeleton && (
               <TableRow className="hover:bg-transparent">
-                <TableCell colSpan={visibleColumns.size + 2} className="h-48 text-center">
+                <TableCell colSpan={columns.length + (hasFusion ? 3 : 2)} className="h-48 text-center">
                   <div className="flex flex-col items-center justify-center gap-2">
                     <div className="h-0.5 w-32 bg-tp-border-subtle overflow-hidden">
                       <div className="h-full w-1/3 bg-tp-accent animate-pulse" />
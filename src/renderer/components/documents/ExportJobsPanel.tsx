@@ -0,0 +1,181 @@
+import React, { useEffect, useState } from "react";
+import { AlertCircle, FileDown, Loader2, Play, X } from "lucide-react";
+import { toast as sonnerToast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { formatBytes } from "@/renderer/utils/formatBytes";
+import type { ExportCheckpoint, ExportProgress } from "@/types/export";
+
+interface ExportJobsPanelProps {
+  connectionId: string;
+}
+
+const fileName = (filePath: string) => filePath.split(/[\\/]/).pop() || filePath;
+
+const formatDuration = (seconds: number): string => {
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+  return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`;
+};
+
+const checkpointToProgress = (checkpoint: ExportCheckpoint): ExportProgress => ({
+  jobId: checkpoint.jobId,
+  namespaceId: checkpoint.namespaceId,
+  format: checkpoint.format,
+  filePath: checkpoint.filePath,
+  status: checkpoint.status,
+  phase: "fetching",
+  rowsWritten: checkpoint.rowsWritten,
+  totalRows: checkpoint.totalRows,
+  bytesWritten: checkpoint.bytesWritten,
+  rowsPerSecond: 0,
+  etaSeconds: null,
+  error: checkpoint.error,
+});
+
+/**
+ * Progress and controls for namespace exports streamed by the main process.
+ * Lists running jobs plus interrupted or failed ones that can be resumed.
+ */
+export const ExportJobsPanel: React.FC<ExportJobsPanelProps> = ({ connectionId }) => {
+  const [jobs, setJobs] = useState<Record<string, ExportProgress>>({});
+
+  // Pick up jobs left behind by a crash or a network failure
+  useEffect(() => {
+    let cancelled = false;
+    window.electronAPI
+      .listExportJobs()
+      .then((checkpoints) => {
+        if (cancelled) return;
+        const resumable = checkpoints.filter(
+          (checkpoint) => checkpoint.connectionId === connectionId && checkpoint.status !== "completed"
+        );
+        setJobs((current) => {
+          const next = { ...current };
+          resumable.forEach((checkpoint) => {
+            next[checkpoint.jobId] = next[checkpoint.jobId] ?? checkpointToProgress(checkpoint);
+          });
+          return next;
+        });
+      })
+      .catch((error) => console.error("Failed to list exports:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [connectionId]);
+
+  useEffect(() => {
+    return window.electronAPI.onExportProgress((progress) => {
+      if (progress.status === "completed") {
+        sonnerToast.success(`Exported ${progress.rowsWritten.toLocaleString()} documents`, {
+          description: progress.filePath,
+          action: {
+            label: "Show in Folder",
+            onClick: () => {
+              window.electronAPI.showInFolder(progress.filePath);
+            },
+          },
+          duration: 5000,
+        });
+      }
+      setJobs((current) => {
+        const next = { ...current };
+        if (progress.status === "completed" || progress.status === "canceled") {
+          delete next[progress.jobId];
+        } else {
+          next[progress.jobId] = progress;
+        }
+        return next;
+      });
+    });
+  }, []);
+
+  const handleResume = async (jobId: string) => {
+    try {
+      await window.electronAPI.resumeExport(jobId);
+    } catch (error) {
+      sonnerToast.error("Failed to resume export", {
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+      });
+    }
+  };
+
+  const handleCancel = async (job: ExportProgress) => {
+    try {
+      await window.electronAPI.cancelExport(job.jobId);
+      if (job.status !== "running") {
+        setJobs((current) => {
+          const next = { ...current };
+          delete next[job.jobId];
+          return next;
+        });
+      }
+    } catch (error) {
+      sonnerToast.error("Failed to cancel export", {
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+      });
+    }
+  };
+
+  const jobList = Object.values(jobs);
+  if (jobList.length === 0) return null;
+
+  return (
+    <div className="border-b border-tp-border-subtle bg-tp-surface-alt">
+      {jobList.map((job) => {
+        const isRunning = job.status === "running";
+        const percent = job.totalRows ? Math.min(100, (job.rowsWritten / job.totalRows) * 100) : 0;
+
+        return (
+          <div key={job.jobId} className="flex items-center gap-3 px-3 py-1.5 text-xs">
+            {isRunning ? (
+              <Loader2 className="h-3 w-3 animate-spin text-tp-accent flex-shrink-0" />
+            ) : job.status === "failed" ? (
+              <AlertCircle className="h-3 w-3 text-tp-danger flex-shrink-0" />
+            ) : (
+              <FileDown className="h-3 w-3 text-tp-text-muted flex-shrink-0" />
+            )}
+            <span className="font-mono truncate max-w-[240px]" title={job.filePath}>
+              {job.namespaceId} → {fileName(job.filePath)}
+            </span>
+            <Progress value={percent} className="h-1.5 w-32 flex-shrink-0" />
+            <span className="text-tp-text-muted truncate flex-1">
+              {job.rowsWritten.toLocaleString()}
+              {job.totalRows !== null && ` / ${job.totalRows.toLocaleString()}`} rows · {formatBytes(job.bytesWritten)}
+              {isRunning && job.phase === "converting" && " · converting to parquet..."}
+              {isRunning && job.phase === "fetching" && job.rowsPerSecond > 0 &&
+                ` · ${Math.round(job.rowsPerSecond).toLocaleString()}/s`}
+              {isRunning && job.phase === "fetching" && job.etaSeconds !== null &&
+                ` · ~${formatDuration(job.etaSeconds)} left`}
+              {job.status === "interrupted" && " · interrupted"}
+              {job.status === "failed" && (
+                <span className="text-tp-danger"> · {job.error || "failed"}</span>
+              )}
+            </span>
+            {!isRunning && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleResume(job.jobId)}
+                className="h-6 text-[10px]"
+              >
+                <Play className="h-3 w-3 mr-1" />
+                resume
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => handleCancel(job)}
+              className="h-6 text-[10px] text-muted-foreground hover:text-foreground"
+              title={isRunning ? "Stop the export and delete the partial file" : "Discard the partial export"}
+            >
+              <X className="h-3 w-3 mr-1" />
+              {isRunning ? "cancel" : "discard"}
+            </Button>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
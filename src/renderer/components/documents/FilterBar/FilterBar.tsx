@@ -8,6 +8,7 @@ import {
   ChevronLeft,
   ChevronRight,
   Clock,
+  Code2,
   Eye,
   Filter,
   Loader2,
@@ -40,13 +41,21 @@ import {
 import { useDocumentsStore } from "@/renderer/stores/documentsStore";
 import { cn } from "@/lib/utils";
 import { FilterBuilder } from "./FilterBuilder";
-import { FilterChip } from "./FilterChip";
+import { FilterExpressionEditor } from "./FilterExpressionEditor";
+import { FilterChip, FilterGroupChip } from "./FilterChip";
+import { countFilterConditions, removeFilterNode } from "@/renderer/utils/filterTree";
+import { convertFilterNode, convertFiltersToQuery, convertSimpleFilter } from "@/renderer/utils/filterConversion";
+import { validateFilter } from "@/renderer/utils/queryValidation";
+import type { QueryValidationIssue } from "@/renderer/utils/queryValidation";
+import { formatFilterExpression } from "@/renderer/utils/filterExpression";
+import { useToast } from "@/hooks/use-toast";
 import { VectorSearchInput } from "../VectorSearchInput";
 import { BM25ConfigPanel } from "../BM25ConfigPanel";
 import { RankingExpressionBuilder } from "../RankingExpressionBuilder";
 import { AggregationsPanel } from "../AggregationsPanel";
-import { AggregationResults } from "../AggregationResults";
+import { validateAggregations } from "../../../utils/aggregations";
 import { GroupBySelector } from "./GroupBySelector"; // NEW: Import GroupBySelector
+import { HybridSearchPanel } from "../HybridSearchPanel";
 
 interface FilterBarProps {
   className?: string;
@@ -67,9 +76,16 @@ export const FilterBar: React.FC<FilterBarProps> = (
     addFilter,
     updateFilter,
     removeFilter,
+    filterGroups,
+    setFilterGroups,
+    addGroupFilter,
+    updateGroupFilter,
+    moveFilterIntoGroup,
     clearAllFilters,
+    replaceFilters,
     isLoading,
     attributes,
+    namespaceSchema,
     loadDocuments,
     visibleColumns,
     toggleColumn,
@@ -91,21 +107,29 @@ export const FilterBar: React.FC<FilterBarProps> = (
     bm25Fields,
     bm25Operator,
     setBM25Config,
+    rankFusion,
+    hybridWeights,
+    setHybridConfig,
     rankingMode,
     rankingExpression,
     setRankingMode,
     setRankingExpression,
     aggregations,
     setAggregations,
-    aggregationResults,
+    groupByAttributes,
     wrapCellText,
     toggleWrapCellText,
     shrinkLargeText,
     toggleShrinkLargeText,
   } = useDocumentsStore();
+  const { toast } = useToast();
 
   const [localSearchText, setLocalSearchText] = useState(searchText);
   const [isFilterPopoverOpen, setIsFilterPopoverOpen] = useState(false);
+  // Expression the WHERE editor opened with; null while it is closed
+  const [whereExpression, setWhereExpression] = useState<string | null>(null);
+  // Page number being typed into the jump-to-page box; null shows the current page
+  const [pageInput, setPageInput] = useState<string | null>(null);
   const [isAggregationsOpen, setIsAggregationsOpen] = useState(false);
   const [showBM25Advanced, setShowBM25Advanced] = useState(false);
   const [columnSearch, setColumnSearch] = useState("");
@@ -128,6 +152,7 @@ export const FilterBar: React.FC<FilterBarProps> = (
   const [localVectorField, setLocalVectorField] = useState<string>(
     vectorField || "embedding",
   );
+  const [localHybridWeights, setLocalHybridWeights] = useState(hybridWeights);
 
   // Subscribe to store for currentNamespaceId and client initialization changes
   const currentNamespaceId = useDocumentsStore((state) =>
@@ -136,6 +161,9 @@ export const FilterBar: React.FC<FilterBarProps> = (
   const isClientInitialized = useDocumentsStore((state) =>
     state.isClientInitialized
   );
+  const currentConnectionId = useDocumentsStore((state) =>
+    state.currentConnectionId
+  );
 
   // Subscribe directly to recentFilterHistory from store
   const recentFilterHistory = useDocumentsStore((state) =>
@@ -349,7 +377,7 @@ export const FilterBar: React.FC<FilterBarProps> = (
 
   // Apply BM25 config when changed
   useEffect(() => {
-    if (queryMode === "bm25") {
+    if (queryMode === "bm25" || queryMode === "hybrid") {
       const fields = localBM25Fields.map((field) => ({ field, weight: 1.0 }));
 
       // Only update if values have actually changed (avoid infinite loop)
@@ -376,13 +404,17 @@ export const FilterBar: React.FC<FilterBarProps> = (
 
   // Apply vector query when changed
   useEffect(() => {
-    if (queryMode === "vector" && localVectorInput.trim()) {
+    if ((queryMode === "vector" || queryMode === "hybrid") && localVectorInput.trim()) {
       try {
         const parsed = JSON.parse(localVectorInput);
         if (
           Array.isArray(parsed) && parsed.every((n) => typeof n === "number")
         ) {
           setVectorQuery(parsed, localVectorField);
+          if (queryMode === "hybrid") {
+            // Hybrid results depend on the vector, so refresh the fused ranking
+            setTimeout(() => loadDocuments(true, false, pageSize, 1), 0);
+          }
         }
       } catch (e) {
         // Invalid JSON, ignore
@@ -390,6 +422,28 @@ export const FilterBar: React.FC<FilterBarProps> = (
     }
   }, [localVectorInput, localVectorField, queryMode]);
 
+  // Sync fusion weights with store
+  useEffect(() => {
+    setLocalHybridWeights(hybridWeights);
+  }, [hybridWeights]);
+
+  // Debounced fusion weights: reload once typing stops and no load is running,
+  // since a reload requested mid-load is dropped
+  useEffect(() => {
+    if (
+      isLoading ||
+      (localHybridWeights.vector === hybridWeights.vector &&
+        localHybridWeights.bm25 === hybridWeights.bm25)
+    ) {
+      return;
+    }
+    const timer = setTimeout(() => {
+      setHybridConfig(rankFusion, localHybridWeights);
+      loadDocuments(true, false, pageSize, 1);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [localHybridWeights, hybridWeights, rankFusion, isLoading]);
+
   // Reset BM25 advanced panel when switching modes
   useEffect(() => {
     if (queryMode !== "bm25") {
@@ -424,8 +478,63 @@ export const FilterBar: React.FC<FilterBarProps> = (
     searchInputRef.current?.focus();
   };
 
+  // Auto-select text fields if none are configured
+  const autoSelectBM25Fields = () => {
+    if (localBM25Fields.length > 0) return;
+    const textFields = attributes
+      .filter(attr => attr.type === 'string' || attr.type === '[]string')
+      .filter(attr => !['id', 'uuid', 'key'].includes(attr.name.toLowerCase()))
+      .slice(0, 3) // Select up to 3 text fields
+      .map(attr => attr.name);
+    if (textFields.length > 0) {
+      setLocalBM25Fields(textFields);
+      setBM25Config(textFields.map(f => ({ field: f, weight: 1.0 })), localBM25Operator);
+    }
+  };
+
   const hasActiveFiltersOrSearch = activeFilters.length > 0 ||
+    filterGroups.length > 0 ||
     searchText.length > 0;
+  const filterConditionCount = activeFilters.length + countFilterConditions(filterGroups);
+
+  // Schema problems per filter chip and group chip, keyed by id
+  const filterIssues = useMemo(() => {
+    const issues: Record<string, QueryValidationIssue[]> = {};
+    if (!namespaceSchema) return issues;
+    activeFilters.forEach((filter) => {
+      issues[filter.id] = validateFilter(convertSimpleFilter(filter, attributes), namespaceSchema);
+    });
+    filterGroups.forEach((group) => {
+      issues[group.id] = validateFilter(convertFilterNode(group, attributes), namespaceSchema);
+    });
+    return issues;
+  }, [activeFilters, filterGroups, attributes, namespaceSchema]);
+
+  const jumpToPage = () => {
+    const target = Math.min(Math.max(1, Math.round(Number(pageInput))), totalPages || 1);
+    setPageInput(null);
+    if (Number.isFinite(target) && target !== currentPage) {
+      loadDocuments(false, false, pageSize, target);
+    }
+  };
+
+  const toggleWhereEditor = () => {
+    if (whereExpression !== null) {
+      setWhereExpression(null);
+      return;
+    }
+    try {
+      const { filters } = convertFiltersToQuery(activeFilters, "", attributes, filterGroups);
+      setWhereExpression(formatFilterExpression(filters));
+      setIsFilterPopoverOpen(false);
+    } catch (err) {
+      toast({
+        title: "Can't write filters as an expression",
+        description: err instanceof Error ? err.message : String(err),
+        variant: "destructive",
+      });
+    }
+  };
   const filteredCount = documents.length;
   const totalDocCount = unfilteredTotalCount || totalCount || documents.length;
 
@@ -463,18 +572,7 @@ export const FilterBar: React.FC<FilterBarProps> = (
               : "h-8 px-3 text-xs font-medium text-muted-foreground hover:text-foreground"}
             onClick={() => {
               setQueryMode("bm25");
-              // Auto-select text fields if none are configured
-              if (localBM25Fields.length === 0) {
-                const textFields = attributes
-                  .filter(attr => attr.type === 'string' || attr.type === '[]string')
-                  .filter(attr => !['id', 'uuid', 'key'].includes(attr.name.toLowerCase()))
-                  .slice(0, 3) // Select up to 3 text fields
-                  .map(attr => attr.name);
-                if (textFields.length > 0) {
-                  setLocalBM25Fields(textFields);
-                  setBM25Config(textFields.map(f => ({ field: f, weight: 1.0 })), localBM25Operator);
-                }
-              }
+              autoSelectBM25Fields();
               setTimeout(() => loadDocuments(true, false, pageSize, 1), 0);
             }}
             disabled={isLoading}
@@ -497,6 +595,22 @@ export const FilterBar: React.FC<FilterBarProps> = (
           >
             vector
           </Button>
+          <Button
+            variant={queryMode === "hybrid" ? "default" : "ghost"}
+            size="sm"
+            className={queryMode === "hybrid"
+              ? "h-8 px-3 text-xs font-medium"
+              : "h-8 px-3 text-xs font-medium text-muted-foreground hover:text-foreground"}
+            onClick={() => {
+              setQueryMode("hybrid");
+              autoSelectBM25Fields();
+              setTimeout(() => loadDocuments(true, false, pageSize, 1), 0);
+            }}
+            disabled={isLoading}
+            title="Hybrid search: vector and full-text subqueries fused into one ranking"
+          >
+            hybrid
+          </Button>
         </div>
 
         <Separator orientation="vertical" className="h-10 bg-tp-border" />
@@ -532,18 +646,7 @@ export const FilterBar: React.FC<FilterBarProps> = (
                 className="underline hover:text-foreground"
                 onClick={() => {
                   setQueryMode("bm25");
-                  // Auto-select text fields if none are configured
-                  if (localBM25Fields.length === 0) {
-                    const textFields = attributes
-                      .filter(attr => attr.type === 'string' || attr.type === '[]string')
-                      .filter(attr => !['id', 'uuid', 'key'].includes(attr.name.toLowerCase()))
-                      .slice(0, 3)
-                      .map(attr => attr.name);
-                    if (textFields.length > 0) {
-                      setLocalBM25Fields(textFields);
-                      setBM25Config(textFields.map(f => ({ field: f, weight: 1.0 })), localBM25Operator);
-                    }
-                  }
+                  autoSelectBM25Fields();
                   setTimeout(() => loadDocuments(true, false, pageSize, 1), 0);
                 }}
               >
@@ -711,10 +814,94 @@ export const FilterBar: React.FC<FilterBarProps> = (
           </div>
         )}
 
+        {queryMode === "hybrid" && (
+          <div className="flex flex-col gap-1.5 flex-1">
+            <div className="flex items-center gap-2">
+              <div className="relative flex-1">
+                <Search className="absolute w-3 h-3 -translate-y-1/2 left-2 top-1/2 text-tp-text-muted" />
+                <Input
+                  ref={searchInputRef}
+                  type="text"
+                  placeholder="Full-text query..."
+                  value={localSearchText}
+                  onChange={(e) => setLocalSearchText(e.target.value)}
+                  className="h-8 pr-8 text-xs pl-7"
+                  disabled={isLoading}
+                />
+                {localSearchText && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="absolute right-0.5 top-1/2 -translate-y-1/2 h-6 w-6 p-0"
+                    onClick={handleClearSearch}
+                    disabled={isLoading}
+                  >
+                    <X className="w-3 h-3" />
+                  </Button>
+                )}
+              </div>
+              <Textarea
+                placeholder="Vector: [1.2, 3.4, 5.6, ...]"
+                value={localVectorInput}
+                onChange={(e) => setLocalVectorInput(e.target.value)}
+                className="flex-1 h-8 text-xs resize-none min-h-8"
+                disabled={isLoading}
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="text-[10px] text-muted-foreground">
+                Vector field:
+              </span>
+              <Select
+                value={localVectorField}
+                onValueChange={setLocalVectorField}
+              >
+                <SelectTrigger className="w-32 h-6 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {availableFields
+                    .filter((f) =>
+                      f.name.toLowerCase().includes("vector") ||
+                      f.name.toLowerCase().includes("embedding")
+                    )
+                    .map((field) => (
+                      <SelectItem key={field.name} value={field.name}>
+                        {field.name}
+                      </SelectItem>
+                    ))}
+                  {availableFields.filter((f) =>
+                    f.name.toLowerCase().includes("vector") ||
+                    f.name.toLowerCase().includes("embedding")
+                  ).length === 0 && (
+                      <SelectItem value="embedding">embedding</SelectItem>
+                    )}
+                </SelectContent>
+              </Select>
+              <Separator orientation="vertical" className="h-4" />
+              <HybridSearchPanel
+                method={rankFusion}
+                weights={localHybridWeights}
+                onChange={(method, weights) => {
+                  if (method === rankFusion) {
+                    setLocalHybridWeights(weights);
+                    return;
+                  }
+                  setHybridConfig(method, weights);
+                  setTimeout(() => loadDocuments(true, false, pageSize, 1), 0);
+                }}
+                disabled={isLoading}
+              />
+            </div>
+          </div>
+        )}
+
         {/* Unified Order Controls - Tier 2 */}
         <div className="flex items-center gap-1">
           <Select
-            value={rankingMode === "expression"
+            value={queryMode === "hybrid"
+              ? "fused"
+              : rankingMode === "expression"
               ? "custom"
               : (sortAttribute || "id")}
             onValueChange={(value) => {
@@ -722,7 +909,7 @@ export const FilterBar: React.FC<FilterBarProps> = (
                 setRankingMode("expression");
               } else if (value === "relevance") {
                 setRankingMode("simple");
-              } else if (value === "similarity") {
+              } else if (value === "similarity" || value === "fused") {
                 setRankingMode("simple");
               } else {
                 setSortAttribute(value, sortDirection);
@@ -789,11 +976,17 @@ export const FilterBar: React.FC<FilterBarProps> = (
                   <SelectItem value="custom">Custom expression...</SelectItem>
                 </>
               )}
+
+              {/* Hybrid Mode - ranking comes from client-side fusion */}
+              {queryMode === "hybrid" && (
+                <SelectItem value="fused">Fused rank</SelectItem>
+              )}
             </SelectContent>
           </Select>
 
           {/* Direction Toggle - only show when not using relevance/similarity/custom */}
           {rankingMode === "simple" &&
+            queryMode !== "hybrid" &&
             sortAttribute !== "relevance" &&
             sortAttribute !== "similarity" && (
               <Button
@@ -831,16 +1024,19 @@ export const FilterBar: React.FC<FilterBarProps> = (
           variant="outline"
           size="sm"
           className="gap-1 h-7"
-          onClick={() => setIsFilterPopoverOpen(!isFilterPopoverOpen)}
+          onClick={() => {
+            setIsFilterPopoverOpen(!isFilterPopoverOpen);
+            setWhereExpression(null);
+          }}
         >
           <Filter className="w-3 h-3" />
           filters
-          {activeFilters.length > 0 && (
+          {filterConditionCount > 0 && (
             <Badge
               variant="secondary"
               className="ml-0.5 px-1 min-w-[16px] h-4 text-[9px]"
             >
-              {activeFilters.length}
+              {filterConditionCount}
             </Badge>
           )}
           <ChevronDown
@@ -851,6 +1047,18 @@ export const FilterBar: React.FC<FilterBarProps> = (
           />
         </Button>
 
+        {/* WHERE expression editor toggle */}
+        <Button
+          variant={whereExpression !== null ? "secondary" : "outline"}
+          size="sm"
+          className="gap-1 h-7"
+          onClick={toggleWhereEditor}
+          title="Edit filters as a WHERE expression"
+        >
+          <Code2 className="w-3 h-3" />
+          where
+        </Button>
+
         {/* Filter History */}
         <DropdownMenu>
           <DropdownMenuTrigger asChild>
@@ -1155,6 +1363,7 @@ export const FilterBar: React.FC<FilterBarProps> = (
                 .map((attr) => attr.name)
                 .concat(["vector"]) // Add default 'vector' field
             }
+            connectionId={currentConnectionId}
             disabled={isLoading}
           />
         </div>
@@ -1188,6 +1397,7 @@ export const FilterBar: React.FC<FilterBarProps> = (
               ...attributes.map((attr) => attr.name),
             ]}
             expression={rankingExpression}
+            schema={namespaceSchema}
             onExpressionChange={(expr) => {
               setRankingExpression(expr);
               if (expr) {
@@ -1210,10 +1420,15 @@ export const FilterBar: React.FC<FilterBarProps> = (
               "id",
               ...attributes.map((attr) => attr.name),
             ]}
+            numericAttributes={attributes
+              .filter((attr) => attr.type === "number")
+              .map((attr) => attr.name)}
+            groupByAttributes={groupByAttributes}
             aggregations={aggregations}
             onAggregationsChange={(aggs) => {
               setAggregations(aggs);
-              if (aggs.length > 0) {
+              // Wait for a valid set; a half-typed name would only fail server-side
+              if (aggs.length > 0 && !validateAggregations(aggs, groupByAttributes)) {
                 setTimeout(
                   () => loadDocuments(true, false, pageSize, 1),
                   100,
@@ -1230,18 +1445,6 @@ export const FilterBar: React.FC<FilterBarProps> = (
         </div>
       )}
 
-      {/* Aggregation Results */}
-      {aggregationResults && aggregationResults.length > 0 && (
-        <div className="px-3 pb-2">
-          <AggregationResults
-            results={aggregationResults}
-            onClose={() => {
-              // Keep the results visible, user can clear aggregations to hide
-            }}
-          />
-        </div>
-      )}
-
       {/* Enhanced Filter Builder */}
       {isFilterPopoverOpen && (
         <div className="mx-4 my-1">
@@ -1253,12 +1456,31 @@ export const FilterBar: React.FC<FilterBarProps> = (
               updateFilter(filterId, field, operator as any, value);
             }}
             onRemoveFilter={removeFilter}
+            filterGroups={filterGroups}
+            onGroupsChange={setFilterGroups}
+            onAddGroupFilter={addGroupFilter}
+            onUpdateGroupFilter={updateGroupFilter}
+            onMoveFilterIntoGroup={moveFilterIntoGroup}
+          />
+        </div>
+      )}
+
+      {/* WHERE Expression Editor */}
+      {whereExpression !== null && (
+        <div className="mx-4 my-1">
+          <FilterExpressionEditor
+            attributes={attributes}
+            initialExpression={whereExpression}
+            onApply={(filters, groups) => {
+              replaceFilters(filters, groups, searchText);
+              setWhereExpression(null);
+            }}
           />
         </div>
       )}
 
       {/* Active Filters Row */}
-      {activeFilters.length > 0 && !isFilterPopoverOpen && (
+      {(activeFilters.length > 0 || filterGroups.length > 0) && !isFilterPopoverOpen && whereExpression === null && (
         <div className="flex items-center gap-2 px-4">
           <span className="text-sm text-muted-foreground">
             Active filters:
@@ -1268,9 +1490,18 @@ export const FilterBar: React.FC<FilterBarProps> = (
               <FilterChip
                 key={filter.id}
                 filter={filter}
+                issues={filterIssues[filter.id]}
                 onRemove={() => removeFilter(filter.id)}
               />
             ))}
+            {filterGroups.map((group) => (
+              <FilterGroupChip
+                key={group.id}
+                group={group}
+                issues={filterIssues[group.id]}
+                onRemove={() => setFilterGroups(removeFilterNode(filterGroups, group.id))}
+              />
+            ))}
           </div>
           <Button
             variant="ghost"
@@ -1328,7 +1559,25 @@ export const FilterBar: React.FC<FilterBarProps> = (
 
               {/* Right: Page controls */}
               <div className="flex items-center gap-2">
-                <span>Page {currentPage} of {totalPages || 1}</span>
+                <span className="flex items-center gap-1">
+                  Page
+                  <Input
+                    type="number"
+                    min={1}
+                    max={totalPages || 1}
+                    value={pageInput ?? String(currentPage)}
+                    onChange={(e) => setPageInput(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") jumpToPage();
+                      if (e.key === "Escape") setPageInput(null);
+                    }}
+                    onBlur={() => setPageInput(null)}
+                    disabled={isLoading}
+                    className="w-12 h-6 px-1 py-0 text-xs text-center"
+                    title="Jump to page (Enter)"
+                  />
+                  of {totalPages || 1}
+                </span>
                 <span>•</span>
                 <Select
                   value={pageSize.toString()}
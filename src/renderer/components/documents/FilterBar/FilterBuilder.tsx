@@ -2,7 +2,7 @@ import React, { useState, useMemo, useRef, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
-import { ChevronDown, Plus, X, Check, CornerDownLeft } from "lucide-react";
+import { ChevronDown, ChevronRight, Plus, X, Check, CornerDownLeft, GripVertical, FolderPlus } from "lucide-react";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -20,7 +20,22 @@ import {
   isArrayType,
   isNumericType
 } from "@/renderer/utils/filterTypeConversion";
+import {
+  countFilterConditions,
+  createFilterGroup,
+  insertFilterNode,
+  moveFilterNode,
+  removeFilterNode,
+  toggleFilterNegation,
+  updateFilterNode,
+} from "@/renderer/utils/filterTree";
+import { cn } from "@/lib/utils";
 import type { FilterOperator, SimpleFilter } from "@/renderer/stores/documentsStore";
+import type { FilterNode } from "@/types/unifiedQuery";
+
+// Drag payload types: nodes inside groups, and top-level filters
+const DRAG_NODE = "application/x-filter-node";
+const DRAG_FILTER = "application/x-filter";
 
 interface FieldInfo {
   name: string;
@@ -41,6 +56,11 @@ interface FilterBuilderProps {
     value: any
   ) => void;
   onRemoveFilter: (filterId: string) => void;
+  filterGroups: FilterNode[];
+  onGroupsChange: (groups: FilterNode[]) => void;
+  onAddGroupFilter: (parentId: string, field: string, operator: FilterOperator, value: any) => void;
+  onUpdateGroupFilter: (nodeId: string, field: string, operator: FilterOperator, value: any) => void;
+  onMoveFilterIntoGroup: (filterId: string, groupId: string) => void;
 }
 
 interface OperatorOption {
@@ -56,6 +76,11 @@ const FilterBuilder: React.FC<FilterBuilderProps> = ({
   onAddFilter,
   onUpdateFilter,
   onRemoveFilter,
+  filterGroups,
+  onGroupsChange,
+  onAddGroupFilter,
+  onUpdateGroupFilter,
+  onMoveFilterIntoGroup,
 }) => {
   // Create a list that includes all active filters plus one empty row for adding new
   const filterRows = [
@@ -78,21 +103,253 @@ const FilterBuilder: React.FC<FilterBuilderProps> = ({
   return (
     <div className="space-y-3">
       {filterRows.map((row) => (
-        <FilterRow
+        <div
           key={row.id}
-          filter={row}
+          className="flex items-center gap-1"
+          draggable={row.isExisting}
+          onDragStart={(e) => e.dataTransfer.setData(DRAG_FILTER, row.id)}
+        >
+          <GripVertical
+            className={cn(
+              "h-3 w-3 flex-shrink-0 text-tp-text-faint",
+              row.isExisting ? "cursor-grab" : "invisible",
+            )}
+          />
+          <div className="flex-1">
+            <FilterRow
+              filter={row}
+              fields={fields}
+              onUpdate={(field, operator, value) => {
+                if (row.isExisting) {
+                  onUpdateFilter(row.id, field, operator, value);
+                } else {
+                  onAddFilter(field, operator, value);
+                }
+              }}
+              onRemove={() => onRemoveFilter(row.id)}
+              isNew={!row.isExisting}
+            />
+          </div>
+        </div>
+      ))}
+
+      {filterGroups.map((node) => (
+        <FilterGroupBlock
+          key={node.id}
+          node={node}
+          groups={filterGroups}
           fields={fields}
-          onUpdate={(field, operator, value) => {
-            if (row.isExisting) {
-              onUpdateFilter(row.id, field, operator, value);
-            } else {
-              onAddFilter(field, operator, value);
-            }
-          }}
-          onRemove={() => onRemoveFilter(row.id)}
-          isNew={!row.isExisting}
+          onGroupsChange={onGroupsChange}
+          onAddGroupFilter={onAddGroupFilter}
+          onUpdateGroupFilter={onUpdateGroupFilter}
+          onMoveFilterIntoGroup={onMoveFilterIntoGroup}
         />
       ))}
+
+      <div className="flex items-center gap-1.5">
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 text-[10px]"
+          onClick={() => onGroupsChange(insertFilterNode(filterGroups, null, createFilterGroup("or")))}
+        >
+          <FolderPlus className="h-3 w-3 mr-1" />
+          or group
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 text-[10px]"
+          onClick={() => onGroupsChange(insertFilterNode(filterGroups, null, createFilterGroup("and")))}
+        >
+          <FolderPlus className="h-3 w-3 mr-1" />
+          and group
+        </Button>
+        {filterGroups.length > 0 && (
+          <span className="text-[10px] text-tp-text-faint">
+            groups are ANDed with the filters above • drag conditions between groups
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+interface FilterGroupBlockProps {
+  node: FilterNode; // An and/or group, or a `not` wrapping one
+  groups: FilterNode[]; // The whole tree, for immutable updates
+  fields: FieldInfo[];
+  onGroupsChange: (groups: FilterNode[]) => void;
+  onAddGroupFilter: (parentId: string, field: string, operator: FilterOperator, value: any) => void;
+  onUpdateGroupFilter: (nodeId: string, field: string, operator: FilterOperator, value: any) => void;
+  onMoveFilterIntoGroup: (filterId: string, groupId: string) => void;
+}
+
+const FilterGroupBlock: React.FC<FilterGroupBlockProps> = ({
+  node,
+  groups,
+  fields,
+  onGroupsChange,
+  onAddGroupFilter,
+  onUpdateGroupFilter,
+  onMoveFilterIntoGroup,
+}) => {
+  const [isDragOver, setIsDragOver] = useState(false);
+  const negated = node.type === "not";
+  const group = negated ? node.children?.[0] : node;
+  if (!group) return null;
+
+  const children = group.children ?? [];
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setIsDragOver(false);
+    const nodeId = e.dataTransfer.getData(DRAG_NODE);
+    const filterId = e.dataTransfer.getData(DRAG_FILTER);
+    if (nodeId) {
+      onGroupsChange(moveFilterNode(groups, nodeId, group.id));
+    } else if (filterId) {
+      onMoveFilterIntoGroup(filterId, group.id);
+    }
+  };
+
+  const childProps = { groups, fields, onGroupsChange, onAddGroupFilter, onUpdateGroupFilter, onMoveFilterIntoGroup };
+
+  return (
+    <div
+      className={cn(
+        "border rounded-sm pl-2 pr-1 py-1.5 space-y-2",
+        negated ? "border-tp-danger/40" : "border-tp-border-subtle",
+        isDragOver && "bg-tp-accent/10 border-tp-accent",
+      )}
+      onDragOver={(e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        setIsDragOver(true);
+      }}
+      onDragLeave={() => setIsDragOver(false)}
+      onDrop={handleDrop}
+    >
+      {/* Group header */}
+      <div
+        className="flex items-center gap-1"
+        draggable
+        onDragStart={(e) => {
+          e.stopPropagation();
+          e.dataTransfer.setData(DRAG_NODE, group.id);
+        }}
+      >
+        <GripVertical className="h-3 w-3 text-tp-text-faint cursor-grab" />
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-5 w-5 p-0"
+          onClick={() => onGroupsChange(updateFilterNode(groups, group.id, g => ({ ...g, collapsed: !g.collapsed })))}
+          title={group.collapsed ? "Expand group" : "Collapse group"}
+        >
+          {group.collapsed ? <ChevronRight className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+        </Button>
+        <Button
+          variant={negated ? "destructive" : "outline"}
+          size="sm"
+          className="h-5 px-1.5 text-[10px] font-mono"
+          onClick={() => onGroupsChange(toggleFilterNegation(groups, group.id))}
+          title="Negate this group"
+        >
+          NOT
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-5 px-1.5 text-[10px] font-mono"
+          onClick={() => onGroupsChange(updateFilterNode(groups, group.id, g => ({ ...g, type: g.type === "or" ? "and" : "or" })))}
+          title="Switch between matching any and all conditions"
+        >
+          {group.type === "or" ? "OR" : "AND"}
+        </Button>
+        <span className="text-[10px] text-tp-text-muted">
+          {group.type === "or" ? "any" : "all"} of {countFilterConditions(children)} condition{countFilterConditions(children) === 1 ? "" : "s"}
+        </span>
+        <div className="flex-1" />
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-5 px-1.5 text-[10px]"
+          onClick={() => onGroupsChange(insertFilterNode(groups, group.id, createFilterGroup(group.type === "or" ? "and" : "or")))}
+          title="Add a nested group"
+        >
+          <FolderPlus className="h-3 w-3" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-5 w-5 p-0 hover:text-destructive"
+          onClick={() => onGroupsChange(removeFilterNode(groups, node.id))}
+          title="Remove group"
+        >
+          <X className="h-3 w-3" />
+        </Button>
+      </div>
+
+      {!group.collapsed && (
+        <div className="space-y-2 pl-3">
+          {children.map((child) => {
+            const inner = child.type === "not" ? child.children?.[0] : child;
+            if (inner && inner.type !== "simple") {
+              return <FilterGroupBlock key={child.id} node={child} {...childProps} />;
+            }
+            if (!inner) return null;
+            return (
+              <div
+                key={child.id}
+                className="flex items-center gap-1"
+                draggable
+                onDragStart={(e) => {
+                  e.stopPropagation();
+                  e.dataTransfer.setData(DRAG_NODE, inner.id);
+                }}
+              >
+                <GripVertical className="h-3 w-3 flex-shrink-0 text-tp-text-faint cursor-grab" />
+                {child.type === "not" && (
+                  <span className="text-[10px] font-mono text-tp-danger">NOT</span>
+                )}
+                <div className="flex-1">
+                  <FilterRow
+                    filter={{
+                      id: inner.id,
+                      field: inner.attribute ?? "",
+                      operator: inner.operator ?? "equals",
+                      value: inner.value,
+                      isExisting: true,
+                    }}
+                    fields={fields}
+                    onUpdate={(field, operator, value) =>
+                      onUpdateGroupFilter(inner.id, field, operator as FilterOperator, value)
+                    }
+                    onRemove={() => onGroupsChange(removeFilterNode(groups, child.id))}
+                    isNew={false}
+                  />
+                </div>
+              </div>
+            );
+          })}
+          <div className="flex items-center gap-1">
+            <GripVertical className="h-3 w-3 flex-shrink-0 invisible" />
+            <div className="flex-1">
+              <FilterRow
+                filter={{ id: `new-${group.id}`, field: "", operator: "equals", value: "", isExisting: false }}
+                fields={fields}
+                onUpdate={(field, operator, value) =>
+                  onAddGroupFilter(group.id, field, operator as FilterOperator, value)
+                }
+                onRemove={() => undefined}
+                isNew
+              />
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -1,6 +1,26 @@
 import React from "react";
-import { X } from "lucide-react";
+import { AlertCircle, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { describeFilterNode } from "@/renderer/utils/filterDescriptions";
+import type { QueryValidationIssue } from "@/renderer/utils/queryValidation";
+import type { FilterNode } from "@/types/unifiedQuery";
+
+const chipClassName = (issues: QueryValidationIssue[]) => cn(
+  "inline-flex items-center gap-1.5 px-2.5 py-1 bg-secondary/60 hover:bg-secondary/80 rounded-md border border-border/50 transition-colors group",
+  issues.some(issue => issue.severity === "error") && "border-tp-danger/40",
+);
+
+// Schema problems found before the query is sent
+const ChipIssues: React.FC<{ issues: QueryValidationIssue[] }> = ({ issues }) => {
+  if (issues.length === 0) return null;
+  const hasError = issues.some(issue => issue.severity === "error");
+  return (
+    <span title={issues.map(issue => issue.message).join("\n")} className="inline-flex">
+      <AlertCircle className={cn("h-3 w-3", hasError ? "text-tp-danger" : "text-tp-warning")} />
+    </span>
+  );
+};
 
 interface FilterChipProps {
   filter: {
@@ -10,10 +30,11 @@ interface FilterChipProps {
     value: any;
     displayValue: string;
   };
+  issues?: QueryValidationIssue[];
   onRemove: () => void;
 }
 
-export const FilterChip: React.FC<FilterChipProps> = ({ filter, onRemove }) => {
+export const FilterChip: React.FC<FilterChipProps> = ({ filter, issues = [], onRemove }) => {
   const operatorLabels: Record<string, string> = {
     equals: "=",
     not_equals: "≠",
@@ -46,7 +67,8 @@ export const FilterChip: React.FC<FilterChipProps> = ({ filter, onRemove }) => {
   };
 
   return (
-    <div className="inline-flex items-center gap-1.5 px-2.5 py-1 bg-secondary/60 hover:bg-secondary/80 rounded-md border border-border/50 transition-colors group">
+    <div className={chipClassName(issues)}>
+      <ChipIssues issues={issues} />
       <span className="text-xs font-medium">{filter.attribute}</span>
       <span className="text-xs text-muted-foreground">
         {operatorLabels[filter.operator] || filter.operator}
@@ -70,4 +92,34 @@ export const FilterChip: React.FC<FilterChipProps> = ({ filter, onRemove }) => {
       </Button>
     </div>
   );
-};
\ No newline at end of file
+};
+
+interface FilterGroupChipProps {
+  group: FilterNode;
+  issues?: QueryValidationIssue[];
+  onRemove: () => void;
+}
+
+export const FilterGroupChip: React.FC<FilterGroupChipProps> = ({ group, issues = [], onRemove }) => {
+  const description = describeFilterNode(group);
+
+  return (
+    <div className={chipClassName(issues)}>
+      <ChipIssues issues={issues} />
+      <span className="text-xs font-mono max-w-[320px] truncate" title={description}>
+        {description}
+      </span>
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={(e) => {
+          e.stopPropagation();
+          onRemove();
+        }}
+        className="h-3.5 w-3.5 p-0 ml-0.5 opacity-60 group-hover:opacity-100 transition-opacity"
+      >
+        <X className="h-3 w-3" />
+      </Button>
+    </div>
+  );
+};
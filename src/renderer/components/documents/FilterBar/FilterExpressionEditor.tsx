@@ -0,0 +1,250 @@
+import React, { useEffect, useRef, useState } from "react";
+import Editor from "@monaco-editor/react";
+import type { Monaco, OnMount } from "@monaco-editor/react";
+import { AlertCircle, CornerDownLeft } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  FilterExpressionError,
+  getFilterExpressionCompletions,
+  parseFilterExpression,
+} from "@/renderer/utils/filterExpression";
+import type { FilterExpressionCompletion } from "@/renderer/utils/filterExpression";
+import { splitFilterForBuilder } from "@/renderer/utils/filterConversion";
+import type { SimpleFilter } from "@/renderer/stores/documentsStore";
+import type { DiscoveredAttribute } from "@/types/attributeDiscovery";
+import type { FilterNode } from "@/types/unifiedQuery";
+
+const LANGUAGE_ID = "tpfilter";
+const MARKER_OWNER = "tpfilter";
+
+interface FilterExpressionEditorProps {
+  attributes: DiscoveredAttribute[];
+  initialExpression: string;
+  onApply: (filters: SimpleFilter[], groups: FilterNode[]) => void;
+}
+
+interface ExpressionError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+function validateExpression(expression: string): ExpressionError | null {
+  try {
+    parseFilterExpression(expression);
+    return null;
+  } catch (err) {
+    if (err instanceof FilterExpressionError) {
+      return { message: err.message, start: err.start, end: err.end };
+    }
+    throw err;
+  }
+}
+
+// Registered once per Monaco instance; the completion provider is per editor
+function registerFilterLanguage(monaco: Monaco) {
+  if (monaco.languages.getLanguages().some(language => language.id === LANGUAGE_ID)) return;
+
+  monaco.languages.register({ id: LANGUAGE_ID });
+  monaco.languages.setMonarchTokensProvider(LANGUAGE_ID, {
+    ignoreCase: true,
+    keywords: [
+      "AND", "OR", "NOT", "IN", "IS", "NULL", "TRUE", "FALSE", "GLOB", "IGLOB", "REGEX",
+      "CONTAINS", "ANY", "ALL", "TOKENS", "TOKEN", "SEQUENCE",
+    ],
+    tokenizer: {
+      root: [
+        [/[A-Za-z_$][\w$.]*/, { cases: { "@keywords": "keyword", "@default": "identifier" } }],
+        [/`(?:[^`]|``)*`/, "identifier"],
+        [/'(?:[^']|'')*'/, "string"],
+        [/"(?:[^"]|"")*"/, "string"],
+        [/-?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/, "number"],
+        [/<=|>=|!=|<>|==|=|<|>/, "operator"],
+        [/[()[\],]/, "delimiter"],
+      ],
+    },
+  });
+  monaco.languages.setLanguageConfiguration(LANGUAGE_ID, {
+    brackets: [["(", ")"], ["[", "]"]],
+    autoClosingPairs: [
+      { open: "(", close: ")" },
+      { open: "[", close: "]" },
+      { open: "'", close: "'" },
+      { open: "`", close: "`" },
+    ],
+  });
+}
+
+const COMPLETION_KINDS: Record<FilterExpressionCompletion["kind"], keyof Monaco["languages"]["CompletionItemKind"]> = {
+  attribute: "Field",
+  operator: "Operator",
+  keyword: "Keyword",
+  value: "Value",
+};
+
+export const FilterExpressionEditor: React.FC<FilterExpressionEditorProps> = ({
+  attributes,
+  initialExpression,
+  onApply,
+}) => {
+  const [expression, setExpression] = useState(initialExpression);
+  const [error, setError] = useState<ExpressionError | null>(() => validateExpression(initialExpression));
+  const [applyError, setApplyError] = useState<string | null>(null);
+  const attributesRef = useRef(attributes);
+  const applyRef = useRef<() => void>(() => undefined);
+  const disposablesRef = useRef<{ dispose: () => void }[]>([]);
+  const editorRef = useRef<Parameters<OnMount>[0] | null>(null);
+  const monacoRef = useRef<Monaco | null>(null);
+
+  useEffect(() => {
+    attributesRef.current = attributes;
+  }, [attributes]);
+
+  useEffect(() => () => disposablesRef.current.forEach(disposable => disposable.dispose()), []);
+
+  // Underline the parse error in the editor
+  useEffect(() => {
+    const model = editorRef.current?.getModel();
+    const monaco = monacoRef.current;
+    if (!model || !monaco) return;
+    if (!error) {
+      monaco.editor.setModelMarkers(model, MARKER_OWNER, []);
+      return;
+    }
+    const start = model.getPositionAt(error.start);
+    const end = model.getPositionAt(Math.min(error.end, expression.length));
+    monaco.editor.setModelMarkers(model, MARKER_OWNER, [{
+      severity: monaco.MarkerSeverity.Error,
+      message: error.message,
+      startLineNumber: start.lineNumber,
+      startColumn: start.column,
+      endLineNumber: end.lineNumber,
+      // Errors at the end of the text still get a visible squiggle
+      endColumn: error.start >= expression.length ? start.column + 1 : end.column,
+    }]);
+  }, [error, expression]);
+
+  const handleChange = (value: string | undefined) => {
+    const nextExpression = value ?? "";
+    setExpression(nextExpression);
+    setError(validateExpression(nextExpression));
+    setApplyError(null);
+  };
+
+  const apply = () => {
+    let filter;
+    try {
+      filter = parseFilterExpression(expression);
+    } catch {
+      return;
+    }
+    if (!filter) {
+      onApply([], []);
+      return;
+    }
+    const split = splitFilterForBuilder(filter, attributesRef.current);
+    if (!split) {
+      setApplyError("This expression can't be shown in the visual filters");
+      return;
+    }
+    onApply(split.filters, split.groups);
+  };
+  applyRef.current = apply;
+
+  const handleMount: OnMount = (editor, monaco) => {
+    editorRef.current = editor;
+    monacoRef.current = monaco;
+
+    editor.addCommand(monaco.KeyMod.CtrlCmd | monaco.KeyCode.Enter, () => applyRef.current());
+
+    disposablesRef.current.push(
+      monaco.languages.registerCompletionItemProvider(LANGUAGE_ID, {
+        triggerCharacters: [" ", "(", ","],
+        provideCompletionItems: (model, position) => {
+          if (model !== editor.getModel()) return { suggestions: [] };
+          const word = model.getWordUntilPosition(position);
+          const range = {
+            startLineNumber: position.lineNumber,
+            endLineNumber: position.lineNumber,
+            startColumn: word.startColumn,
+            endColumn: word.endColumn,
+          };
+          const completions = getFilterExpressionCompletions(
+            model.getValue(),
+            model.getOffsetAt(position),
+            attributesRef.current
+          );
+          return {
+            suggestions: completions.map((completion, index) => ({
+              label: completion.label,
+              insertText: completion.insertText,
+              detail: completion.detail,
+              kind: monaco.languages.CompletionItemKind[COMPLETION_KINDS[completion.kind]],
+              sortText: String(index).padStart(4, "0"),
+              range,
+            })),
+          };
+        },
+      })
+    );
+
+    editor.focus();
+  };
+
+  return (
+    <div className="flex flex-col gap-1.5">
+      <div className="border rounded-sm overflow-hidden border-tp-border-subtle">
+        <Editor
+          height="64px"
+          language={LANGUAGE_ID}
+          value={expression}
+          onChange={handleChange}
+          beforeMount={registerFilterLanguage}
+          onMount={handleMount}
+          theme="vs-dark"
+          options={{
+            minimap: { enabled: false },
+            lineNumbers: "off",
+            glyphMargin: false,
+            folding: false,
+            scrollBeyondLastLine: false,
+            automaticLayout: true,
+            wordWrap: "on",
+            renderLineHighlight: "none",
+            overviewRulerLanes: 0,
+            quickSuggestions: { other: true, comments: false, strings: false },
+            suggestOnTriggerCharacters: true,
+            fontSize: 12,
+            fontFamily: "JetBrains Mono, Monaco, Consolas, monospace",
+          }}
+        />
+      </div>
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center min-w-0 gap-1 text-[10px]">
+          {error || applyError ? (
+            <>
+              <AlertCircle className="w-3 h-3 text-tp-danger shrink-0" />
+              <span className="truncate text-tp-danger">
+                {error ? `${error.message} (at ${error.start + 1})` : applyError}
+              </span>
+            </>
+          ) : (
+            <span className="text-tp-text-muted">
+              e.g. <code>category IN ('a', 'b') AND (views &gt; 100 OR NOT title IGLOB '*draft*')</code>
+            </span>
+          )}
+        </div>
+        <Button
+          size="sm"
+          className="h-6 gap-1 text-[10px] shrink-0"
+          onClick={apply}
+          disabled={!!error}
+        >
+          <CornerDownLeft className="w-3 h-3" />
+          apply
+          <kbd className="ml-1 text-[9px] opacity-70">Ctrl+Enter</kbd>
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,78 @@
+import React from "react";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import type { RankFusionMethod } from "@/types/document";
+
+export interface HybridWeights {
+  vector: number;
+  bm25: number;
+}
+
+interface HybridSearchPanelProps {
+  method: RankFusionMethod;
+  weights: HybridWeights;
+  onChange: (method: RankFusionMethod, weights: HybridWeights) => void;
+  disabled?: boolean; // Locks the fusion method; the weights stay editable
+  className?: string;
+}
+
+const parseWeight = (value: string, fallback: number): number => {
+  const parsed = parseFloat(value);
+  return isNaN(parsed) || parsed < 0 ? fallback : parsed;
+};
+
+export const HybridSearchPanel: React.FC<HybridSearchPanelProps> = ({
+  method,
+  weights,
+  onChange,
+  disabled = false,
+  className,
+}) => {
+  return (
+    <div className={cn("flex items-center gap-2", className)}>
+      <span className="text-[10px] text-muted-foreground">Fusion:</span>
+      <Select
+        value={method}
+        onValueChange={(value) => onChange(value as RankFusionMethod, weights)}
+        disabled={disabled}
+      >
+        <SelectTrigger className="h-6 text-xs w-36">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="reciprocal_rank">Reciprocal rank (RRF)</SelectItem>
+          <SelectItem value="weighted">Weighted score</SelectItem>
+        </SelectContent>
+      </Select>
+      <span className="text-[10px] text-muted-foreground">vector ×</span>
+      <Input
+        type="number"
+        min={0}
+        step={0.1}
+        value={weights.vector}
+        onChange={(e) =>
+          onChange(method, { ...weights, vector: parseWeight(e.target.value, weights.vector) })}
+        className="w-14 h-6 px-1 text-xs"
+        title="Weight of the vector (ANN) subquery"
+      />
+      <span className="text-[10px] text-muted-foreground">full-text ×</span>
+      <Input
+        type="number"
+        min={0}
+        step={0.1}
+        value={weights.bm25}
+        onChange={(e) =>
+          onChange(method, { ...weights, bm25: parseWeight(e.target.value, weights.bm25) })}
+        className="w-14 h-6 px-1 text-xs"
+        title="Weight of the full-text (BM25) subquery"
+      />
+    </div>
+  );
+};
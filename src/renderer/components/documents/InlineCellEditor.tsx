@@ -0,0 +1,103 @@
+import React, { useEffect, useRef, useState } from "react";
+import { parseCellEditText } from "@/renderer/utils/cellEditing";
+import type { CellEditorKind } from "@/renderer/utils/cellEditing";
+
+interface InlineCellEditorProps {
+  kind: CellEditorKind;
+  initialText: string;
+  onCommit: (value: unknown) => void;
+  onCancel: () => void;
+}
+
+const stopPropagation = (e: React.SyntheticEvent) => e.stopPropagation();
+
+/**
+ * Editor shown in place of a table cell. Enter (or leaving the cell) stages the
+ * value, Escape cancels. Text that doesn't parse keeps the editor open on Enter
+ * and is dropped on blur.
+ */
+export const InlineCellEditor: React.FC<InlineCellEditorProps> = ({
+  kind,
+  initialText,
+  onCommit,
+  onCancel,
+}) => {
+  const [text, setText] = useState(initialText);
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement & HTMLSelectElement>(null);
+  const doneRef = useRef(false);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+    if (kind !== "boolean") inputRef.current?.select();
+  }, [kind]);
+
+  const finish = (nextText: string, keepOpenOnError: boolean) => {
+    if (doneRef.current) return;
+    const parsed = parseCellEditText(nextText, kind);
+    if ("error" in parsed) {
+      if (keepOpenOnError) {
+        setError(parsed.error);
+        return;
+      }
+      doneRef.current = true;
+      onCancel();
+      return;
+    }
+    doneRef.current = true;
+    onCommit(parsed.value);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    e.stopPropagation();
+    if (e.key === "Enter") {
+      e.preventDefault();
+      finish(text, true);
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      doneRef.current = true;
+      onCancel();
+    }
+  };
+
+  const className = `w-full h-7 px-1.5 text-sm font-mono bg-tp-surface text-tp-text border rounded-sm outline-none ${
+    error ? "border-tp-danger" : "border-tp-accent"
+  }`;
+
+  return (
+    <div onClick={stopPropagation} onDoubleClick={stopPropagation} title={error ?? undefined}>
+      {kind === "boolean" ? (
+        <select
+          ref={inputRef}
+          value={text}
+          onChange={(e) => {
+            setText(e.target.value);
+            finish(e.target.value, true);
+          }}
+          onKeyDown={handleKeyDown}
+          onBlur={() => finish(text, false)}
+          className={className}
+        >
+          <option value="true">true</option>
+          <option value="false">false</option>
+          <option value="null">null</option>
+        </select>
+      ) : (
+        <input
+          ref={inputRef}
+          type={kind === "number" ? "number" : "text"}
+          value={text}
+          placeholder={kind === "text" ? "" : "null"}
+          onChange={(e) => {
+            setText(e.target.value);
+            setError(null);
+          }}
+          onKeyDown={handleKeyDown}
+          onBlur={() => finish(text, false)}
+          className={className}
+        />
+      )}
+      {error && <div className="mt-0.5 text-[10px] text-tp-danger truncate">{error}</div>}
+    </div>
+  );
+};
@@ -0,0 +1,122 @@
+import React, { useState } from "react";
+import { AlertCircle, ChevronDown, ChevronRight, Loader2, PencilLine, Upload, X } from "lucide-react";
+import { toast as sonnerToast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { useDocumentsStore } from "@/renderer/stores/documentsStore";
+
+interface PendingChangesBarProps {
+  readOnly?: boolean;
+}
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined) return "null";
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+};
+
+/**
+ * The staged inline edits, written together as one `patch_rows` request.
+ * Rows the last commit couldn't write stay listed with their error.
+ */
+export const PendingChangesBar: React.FC<PendingChangesBarProps> = ({ readOnly = false }) => {
+  const { pendingChanges, isCommittingChanges, commitPendingChanges, discardPendingChanges } = useDocumentsStore();
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  if (pendingChanges.size === 0) return null;
+
+  const rows = Array.from(pendingChanges.values());
+  const changeCount = rows.reduce((sum, row) => sum + Object.keys(row.changes).length, 0);
+  const failedCount = rows.filter((row) => row.error).length;
+
+  const handleCommit = async () => {
+    const { patched, failed } = await commitPendingChanges();
+    if (failed > 0) {
+      setIsExpanded(true);
+      sonnerToast.error(`${failed} document${failed !== 1 ? "s" : ""} not written`, {
+        description: patched > 0
+          ? `${patched} patched. See the pending changes for the errors.`
+          : "See the pending changes for the errors.",
+      });
+    } else {
+      sonnerToast.success(`Patched ${patched} document${patched !== 1 ? "s" : ""}`);
+    }
+  };
+
+  return (
+    <div className="border-b border-tp-border-subtle bg-tp-surface-alt text-xs">
+      <div className="flex items-center gap-3 px-3 py-1.5">
+        <button
+          className="flex items-center gap-1.5 text-tp-text hover:text-tp-accent"
+          onClick={() => setIsExpanded(!isExpanded)}
+        >
+          {isExpanded ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+          <PencilLine className="h-3 w-3 text-tp-warning" />
+          <span>
+            {changeCount} pending change{changeCount !== 1 ? "s" : ""} on {rows.length} document
+            {rows.length !== 1 ? "s" : ""}
+          </span>
+        </button>
+        {failedCount > 0 && (
+          <span className="flex items-center gap-1 text-tp-danger">
+            <AlertCircle className="h-3 w-3" />
+            {failedCount} failed
+          </span>
+        )}
+        <div className="flex items-center gap-2 ml-auto">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 text-xs"
+            onClick={() => discardPendingChanges()}
+            disabled={isCommittingChanges}
+          >
+            Discard
+          </Button>
+          <Button
+            size="sm"
+            className="h-6 gap-1 text-xs"
+            onClick={handleCommit}
+            disabled={isCommittingChanges || readOnly}
+            title={readOnly ? "Read-only connection: write operations disabled" : undefined}
+          >
+            {isCommittingChanges ? <Loader2 className="h-3 w-3 animate-spin" /> : <Upload className="h-3 w-3" />}
+            Commit
+          </Button>
+        </div>
+      </div>
+
+      {isExpanded && (
+        <div className="max-h-48 overflow-auto border-t border-tp-border-subtle/50">
+          {rows.map((row) => (
+            <div key={String(row.id)} className="flex items-start gap-3 px-3 py-1 border-b border-tp-border-subtle/30">
+              <span className="font-mono text-tp-accent truncate max-w-[200px] shrink-0" title={String(row.id)}>
+                {row.id}
+              </span>
+              <div className="flex flex-col min-w-0 flex-1 gap-0.5">
+                {Object.entries(row.changes).map(([attribute, value]) => (
+                  <span key={attribute} className="font-mono truncate">
+                    <span className="text-tp-text-muted">{attribute}:</span>{" "}
+                    <span className="line-through text-tp-text-faint">{formatValue(row.original[attribute])}</span>
+                    {" → "}
+                    <span className="text-tp-text">{formatValue(value)}</span>
+                  </span>
+                ))}
+                {row.error && <span className="text-tp-danger">{row.error}</span>}
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="w-5 h-5 p-0 shrink-0"
+                onClick={() => discardPendingChanges(row.id)}
+                disabled={isCommittingChanges}
+                title="Discard changes to this document"
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -2,6 +2,7 @@ import React from "react";
 import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
 import { Zap, Database, Clock } from "lucide-react";
+import { CacheTimeline } from "./CacheTimeline";
 
 interface QueryPerformanceMetricsProps {
   lastQueryResult: any;
@@ -73,6 +74,8 @@ export const QueryPerformanceMetrics: React.FC<QueryPerformanceMetricsProps> = (
           </span>
         </div>
       )}
+
+      <CacheTimeline />
     </div>
   );
 };
@@ -1,5 +1,5 @@
 import React, { useState } from "react";
-import { Plus, X, Code2, ArrowUp, ArrowDown, Calculator } from "lucide-react";
+import { Plus, X, Code2, ArrowUp, ArrowDown, Calculator, AlertCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
@@ -11,6 +11,8 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { cn } from "@/lib/utils";
+import { validateRankBy } from "@/renderer/utils/queryValidation";
+import type { NamespaceSchema } from "@/types/namespace";
 
 // Ranking expression types (matching UnifiedQuery model)
 export type RankingOperator =
@@ -32,6 +34,7 @@ interface RankingExpressionBuilderProps {
   availableAttributes: string[];
   expression: RankingExprNode | null;
   onExpressionChange: (expr: RankingExprNode | null) => void;
+  schema?: NamespaceSchema | null; // When set, attributes are checked before the query is sent
   disabled?: boolean;
   className?: string;
 }
@@ -54,6 +57,7 @@ export const RankingExpressionBuilder: React.FC<RankingExpressionBuilderProps> =
   availableAttributes,
   expression,
   onExpressionChange,
+  schema,
   disabled = false,
   className,
 }) => {
@@ -175,6 +179,9 @@ export const RankingExpressionBuilder: React.FC<RankingExpressionBuilderProps> =
     return null;
   };
 
+  const issues = expression && schema ? validateRankBy(convertToTurbopuffer(expression), schema) : [];
+  const issuesByAttribute = new Map(issues.map(issue => [issue.attribute, issue.message]));
+
   // Render a single node
   const renderNode = (node: RankingExprNode, depth = 0): React.ReactNode => {
     const indent = depth * 20;
@@ -183,12 +190,20 @@ export const RankingExpressionBuilder: React.FC<RankingExpressionBuilderProps> =
       return (
         <div
           key={node.id}
-          className="flex items-center gap-2 p-2 bg-blue-50 dark:bg-blue-950 border border-blue-200 dark:border-blue-800 rounded"
+          className={cn(
+            "flex items-center gap-2 p-2 bg-blue-50 dark:bg-blue-950 border border-blue-200 dark:border-blue-800 rounded",
+            issuesByAttribute.has(node.attribute) && "border-tp-danger/40 dark:border-tp-danger/40"
+          )}
           style={{ marginLeft: `${indent}px` }}
         >
           <Badge variant="outline" className="text-[10px] bg-blue-100 dark:bg-blue-900">
             Attribute
           </Badge>
+          {issuesByAttribute.has(node.attribute) && (
+            <span title={issuesByAttribute.get(node.attribute)} className="inline-flex">
+              <AlertCircle className="h-3 w-3 text-tp-danger" />
+            </span>
+          )}
           <Select
             value={node.attribute}
             onValueChange={(value) => updateNode(node.id, { attribute: value })}
@@ -366,6 +381,24 @@ export const RankingExpressionBuilder: React.FC<RankingExpressionBuilderProps> =
         </div>
       )}
 
+      {/* Schema problems, caught before the query is sent */}
+      {issues.length > 0 && (
+        <div className="space-y-0.5">
+          {issues.map((issue, index) => (
+            <div
+              key={index}
+              className={cn(
+                "flex items-center gap-1 text-[10px]",
+                issue.severity === 'error' ? "text-tp-danger" : "text-tp-warning"
+              )}
+            >
+              <AlertCircle className="h-3 w-3 shrink-0" />
+              {issue.message}
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Quick Add Buttons */}
       {expression && (
         <div className="flex gap-1 flex-wrap">
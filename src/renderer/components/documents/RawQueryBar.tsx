@@ -1,4 +1,4 @@
-import React, { useState, useRef } from 'react';
+import React, { useEffect, useState, useRef } from 'react';
 import Editor from '@monaco-editor/react';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription } from '@/components/ui/alert';
@@ -19,21 +19,60 @@ import { useToast } from '@/hooks/use-toast';
 import { useConnection } from '@/renderer/contexts/ConnectionContext';
 import { turbopufferService } from '@/renderer/services/turbopufferService';
 import { useDocumentsStore } from '@/renderer/stores/documentsStore';
+import { locateJsonPath, validateQuery } from '@/renderer/utils/queryValidation';
 
 interface RawQueryBarProps {
   namespaceId: string;
   initialQuery?: string;
+  onQueryChange?: (query: string) => void; // Lets the page convert the query back to visual filters
 }
 
-export const RawQueryBar: React.FC<RawQueryBarProps> = ({ namespaceId, initialQuery }) => {
+export const RawQueryBar: React.FC<RawQueryBarProps> = ({ namespaceId, initialQuery, onQueryChange }) => {
   const { activeConnection } = useConnection();
   const { toast } = useToast();
-  const { setRawQueryResults, clearDocuments, attributes } = useDocumentsStore();
+  const { setRawQueryResults, clearDocuments, attributes, namespaceSchema } = useDocumentsStore();
   const [query, setQuery] = useState(initialQuery || '{\n  "rank_by": ["id", "asc"],\n  "top_k": 1000,\n  "include_attributes": true\n}');
   const [isExecuting, setIsExecuting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
   const editorRef = useRef<any>(null);
+  const monacoRef = useRef<any>(null);
+  const [isEditorReady, setIsEditorReady] = useState(false);
+
+  useEffect(() => {
+    onQueryChange?.(query);
+  }, [query, onQueryChange]);
+
+  // Mark schema problems inline; JSON syntax errors are left to Monaco's own checks
+  useEffect(() => {
+    const model = editorRef.current?.getModel();
+    const monaco = monacoRef.current;
+    if (!model || !monaco) return;
+
+    let parsed: any;
+    try {
+      parsed = JSON.parse(query);
+    } catch {
+      monaco.editor.setModelMarkers(model, 'tp-schema', []);
+      return;
+    }
+
+    const markers = validateQuery(parsed, namespaceSchema).flatMap((issue) => {
+      const range = locateJsonPath(query, issue.path);
+      if (!range) return [];
+      const start = model.getPositionAt(range.start);
+      const end = model.getPositionAt(range.end);
+      return [{
+        severity: issue.severity === 'error' ? monaco.MarkerSeverity.Error : monaco.MarkerSeverity.Warning,
+        message: issue.message,
+        startLineNumber: start.lineNumber,
+        startColumn: start.column,
+        endLineNumber: end.lineNumber,
+        endColumn: end.column,
+      }];
+    });
+    monaco.editor.setModelMarkers(model, 'tp-schema', markers);
+  }, [query, namespaceSchema, isEditorReady]);
 
   // Force dark theme for Monaco (light theme not yet tested)
   // TODO: Re-enable theme switching once light theme is validated
@@ -66,6 +105,11 @@ export const RawQueryBar: React.FC<RawQueryBarProps> = ({ namespaceId, initialQu
         throw new Error('Query must include either "rank_by" or "aggregate_by" field.');
       }
 
+      const schemaErrors = validateQuery(parsedQuery, namespaceSchema).filter(issue => issue.severity === 'error');
+      if (schemaErrors.length > 0) {
+        throw new Error(`Query not sent: ${schemaErrors.map(issue => issue.message).join('; ')}`);
+      }
+
       // Get connection details with API key
       const connectionDetails = await window.electronAPI.getConnectionForUse(activeConnection.id);
       
@@ -289,6 +333,8 @@ export const RawQueryBar: React.FC<RawQueryBarProps> = ({ namespaceId, initialQu
                   }}
                   onMount={(editor, monaco) => {
                     editorRef.current = editor;
+                    monacoRef.current = monaco;
+                    setIsEditorReady(true);
                     
                     // Add JSON validation and formatting
                     editor.addAction({
@@ -0,0 +1,406 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AlertCircle, ArrowDownUp, Check, FileUp, Loader2, Search } from 'lucide-react';
+import type { Document } from '@/types/document';
+import { useDocumentsStore } from '@/renderer/stores/documentsStore';
+import { documentService } from '@/renderer/services/documentService';
+import {
+  GROUND_TRUTH_FILE_EXTENSIONS,
+  QUERY_FILE_EXTENSIONS,
+  overlapAtK,
+  readGroundTruthFile,
+  readQueryVectorFile,
+} from '@/renderer/utils/vectorFiles';
+import type { QueryVectorSet } from '@/renderer/utils/vectorFiles';
+import { cn } from '@/lib/utils';
+
+interface VectorBatchDialogProps {
+  open: boolean;
+  onClose: () => void;
+  vectorFields: string[];
+  initialField?: string;
+  onUseQuery: (vector: number[], field: string) => void; // Loads one query into the main search
+}
+
+const TOP_K_OPTIONS = [1, 10, 100];
+const MAX_QUERIES = 10_000;
+
+const formatOverlap = (value: number | null) => (value === null ? '—' : `${(value * 100).toFixed(1)}%`);
+const formatDistance = (value: unknown) => (typeof value === 'number' ? value.toFixed(4) : '—');
+
+export const VectorBatchDialog: React.FC<VectorBatchDialogProps> = ({
+  open,
+  onClose,
+  vectorFields,
+  initialField,
+  onUseQuery,
+}) => {
+  const { currentNamespaceId } = useDocumentsStore();
+  const [field, setField] = useState(initialField || vectorFields[0] || 'vector');
+  const [topK, setTopK] = useState(10);
+  const [queryFileName, setQueryFileName] = useState<string | null>(null);
+  const [querySet, setQuerySet] = useState<QueryVectorSet | null>(null);
+  const [truthFileName, setTruthFileName] = useState<string | null>(null);
+  const [groundTruth, setGroundTruth] = useState<(string | number)[][] | null>(null);
+
+  const [isRunning, setIsRunning] = useState(false);
+  const [completed, setCompleted] = useState(0);
+  const [elapsedMs, setElapsedMs] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [results, setResults] = useState<Document[][] | null>(null);
+  const [resultsTopK, setResultsTopK] = useState(topK);
+  const [selected, setSelected] = useState(0);
+  const [worstFirst, setWorstFirst] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const loadFile = async (
+    event: React.ChangeEvent<HTMLInputElement>,
+    kind: 'queries' | 'truth'
+  ) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setError(null);
+    setResults(null);
+    try {
+      if (kind === 'queries') {
+        const set = await readQueryVectorFile(file);
+        if (set.vectors.length === 0) throw new Error(`${file.name} has no vectors`);
+        setQuerySet(set);
+        setQueryFileName(file.name);
+      } else {
+        setGroundTruth(await readGroundTruthFile(file));
+        setTruthFileName(file.name);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to read ${file.name}`);
+    }
+  };
+
+  const queryCount = querySet ? Math.min(querySet.vectors.length, MAX_QUERIES) : 0;
+  const widths = useMemo(() => new Set(querySet?.vectors.map((v) => v.length)), [querySet]);
+  const truthMismatch = groundTruth && querySet && groundTruth.length < queryCount
+    ? `The ground truth has ${groundTruth.length.toLocaleString()} rows for ${queryCount.toLocaleString()} queries; the rest get no overlap score.`
+    : null;
+
+  const runBatch = async () => {
+    if (!currentNamespaceId || !querySet) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    setCompleted(0);
+    setError(null);
+    setResults(null);
+    const started = performance.now();
+    try {
+      const rows = await documentService.runVectorBatch(currentNamespaceId, {
+        vectors: querySet.vectors.slice(0, MAX_QUERIES),
+        vectorField: field,
+        topK,
+        includeAttributes: ['id'],
+        onProgress: setCompleted,
+        signal: controller.signal,
+      });
+      setElapsedMs(performance.now() - started);
+      setResults(rows);
+      setResultsTopK(topK);
+      setSelected(0);
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        setError(err instanceof Error ? err.message : 'Batch query failed');
+      }
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  const overlaps = useMemo(() => {
+    if (!results || !groundTruth) return null;
+    return results.map((rows, i) =>
+      groundTruth[i] ? overlapAtK(rows.map((row) => row.id), groundTruth[i], resultsTopK) : null
+    );
+  }, [results, groundTruth, resultsTopK]);
+
+  const summary = useMemo(() => {
+    const scored = overlaps?.filter((value): value is number => value !== null) ?? [];
+    if (scored.length === 0) return null;
+    return {
+      mean: scored.reduce((sum, value) => sum + value, 0) / scored.length,
+      min: Math.min(...scored),
+      perfect: scored.filter((value) => value === 1).length,
+      scored: scored.length,
+    };
+  }, [overlaps]);
+
+  const order = useMemo(() => {
+    const indexes = results ? results.map((_, i) => i) : [];
+    if (worstFirst && overlaps) {
+      indexes.sort((a, b) => (overlaps[a] ?? Infinity) - (overlaps[b] ?? Infinity));
+    }
+    return indexes;
+  }, [results, overlaps, worstFirst]);
+
+  const selectedRows = results?.[selected] ?? [];
+  const selectedTruth = groundTruth?.[selected]?.slice(0, resultsTopK).map(String) ?? null;
+  const returnedIds = new Set(selectedRows.slice(0, resultsTopK).map((row) => String(row.id)));
+  const missed = selectedTruth?.filter((id) => !returnedIds.has(id)) ?? [];
+
+  const handleClose = () => {
+    abortRef.current?.abort();
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={() => handleClose()}>
+      <DialogContent className="max-w-4xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Batch Vector Queries</DialogTitle>
+          <DialogDescription>
+            Run every vector in a query file against {currentNamespaceId ?? 'this namespace'}, optionally scoring each
+            one against a ground-truth file.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 text-xs">
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="space-y-1">
+              <Label className="text-xs">Query vectors</Label>
+              <label className="flex items-center h-8 gap-1.5 px-3 border rounded cursor-pointer border-tp-border-subtle hover:bg-tp-surface-alt">
+                <FileUp className="h-3 w-3" />
+                <span className="font-mono max-w-[180px] truncate">{queryFileName ?? QUERY_FILE_EXTENSIONS.join(' ')}</span>
+                <input
+                  type="file"
+                  accept={QUERY_FILE_EXTENSIONS.join(',')}
+                  className="hidden"
+                  onChange={(e) => loadFile(e, 'queries')}
+                  disabled={isRunning}
+                />
+              </label>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Ground truth (optional)</Label>
+              <label className="flex items-center h-8 gap-1.5 px-3 border rounded cursor-pointer border-tp-border-subtle hover:bg-tp-surface-alt">
+                <FileUp className="h-3 w-3" />
+                <span className="font-mono max-w-[180px] truncate">{truthFileName ?? GROUND_TRUTH_FILE_EXTENSIONS.join(' ')}</span>
+                <input
+                  type="file"
+                  accept={GROUND_TRUTH_FILE_EXTENSIONS.join(',')}
+                  className="hidden"
+                  onChange={(e) => loadFile(e, 'truth')}
+                  disabled={isRunning}
+                />
+              </label>
+            </div>
+            {vectorFields.length > 1 && (
+              <div className="space-y-1">
+                <Label className="text-xs">Vector field</Label>
+                <Select value={field} onValueChange={setField} disabled={isRunning}>
+                  <SelectTrigger className="h-8 w-36 text-xs font-mono">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {vectorFields.map((name) => (
+                      <SelectItem key={name} value={name} className="text-xs font-mono">
+                        {name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-1">
+              <Label className="text-xs">k</Label>
+              <Select value={String(topK)} onValueChange={(value) => setTopK(Number(value))} disabled={isRunning}>
+                <SelectTrigger className="h-8 w-20 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TOP_K_OPTIONS.map((k) => (
+                    <SelectItem key={k} value={String(k)} className="text-xs">
+                      {k}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {querySet && (
+            <p className="text-tp-text-muted">
+              {querySet.vectors.length.toLocaleString()} queries of {[...widths].join(' / ')} dimensions
+              {querySet.vectors.length > MAX_QUERIES && `; the first ${MAX_QUERIES.toLocaleString()} will run`}
+              {groundTruth && ` • ${groundTruth.length.toLocaleString()} ground-truth rows`}
+            </p>
+          )}
+          {truthMismatch && <p className="text-tp-text-muted">{truthMismatch}</p>}
+
+          {isRunning && (
+            <div className="space-y-1">
+              <Progress value={(completed / queryCount) * 100} />
+              <p className="text-center text-muted-foreground">
+                {completed.toLocaleString()} / {queryCount.toLocaleString()} queries
+              </p>
+            </div>
+          )}
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="w-4 h-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {results && querySet && (
+            <div className="space-y-2">
+              <div className="flex flex-wrap items-center gap-4 text-tp-text">
+                <span>{results.length.toLocaleString()} queries</span>
+                {elapsedMs !== null && (
+                  <span className="text-tp-text-muted">
+                    {(elapsedMs / 1000).toFixed(1)}s • {((results.length / elapsedMs) * 1000).toFixed(1)} queries/s
+                  </span>
+                )}
+                {summary && (
+                  <>
+                    <span>
+                      mean overlap@{resultsTopK}{' '}
+                      <span className="font-mono font-semibold">{formatOverlap(summary.mean)}</span>
+                    </span>
+                    <span>
+                      min <span className="font-mono">{formatOverlap(summary.min)}</span>
+                    </span>
+                    <span className="text-tp-text-muted">
+                      {summary.perfect.toLocaleString()} of {summary.scored.toLocaleString()} exact
+                    </span>
+                  </>
+                )}
+              </div>
+
+              <div className="grid grid-cols-[minmax(0,2fr)_minmax(0,3fr)] gap-3">
+                {/* Queries */}
+                <div className="border rounded border-tp-border-subtle">
+                  <div className="flex items-center justify-between px-2 py-1 border-b border-tp-border-subtle text-tp-text-muted">
+                    <span>query</span>
+                    {overlaps && (
+                      <button
+                        className="flex items-center gap-1 hover:text-tp-text"
+                        onClick={() => setWorstFirst(!worstFirst)}
+                        title={worstFirst ? 'Show in file order' : 'Show the lowest overlap first'}
+                      >
+                        overlap@{resultsTopK}
+                        <ArrowDownUp className="h-3 w-3" />
+                      </button>
+                    )}
+                  </div>
+                  <div className="max-h-72 overflow-y-auto">
+                    {order.map((index) => (
+                      <button
+                        key={index}
+                        className={cn(
+                          'flex w-full items-center justify-between px-2 py-0.5 font-mono text-left hover:bg-tp-surface-alt',
+                          index === selected && 'bg-tp-surface-alt text-tp-accent'
+                        )}
+                        onClick={() => setSelected(index)}
+                      >
+                        <span className="truncate">{querySet.labels[index]}</span>
+                        <span>{overlaps ? formatOverlap(overlaps[index]) : `${results[index].length} rows`}</span>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                {/* Results for the selected query */}
+                <div className="border rounded border-tp-border-subtle">
+                  <div className="flex items-center justify-between px-2 py-1 border-b border-tp-border-subtle text-tp-text-muted">
+                    <span className="font-mono">query {querySet.labels[selected]}</span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-5 text-[10px]"
+                      onClick={() => {
+                        onUseQuery(querySet.vectors[selected], field);
+                        handleClose();
+                      }}
+                    >
+                      <Search className="h-3 w-3 mr-1" />
+                      search with this vector
+                    </Button>
+                  </div>
+                  <div className="max-h-72 overflow-y-auto">
+                    <table className="w-full font-mono">
+                      <thead className="text-tp-text-muted">
+                        <tr>
+                          <th className="px-2 py-0.5 font-normal text-left">#</th>
+                          <th className="px-2 py-0.5 font-normal text-left">id</th>
+                          <th className="px-2 py-0.5 font-normal text-right">$dist</th>
+                          {selectedTruth && <th className="px-2 py-0.5 font-normal text-center">in truth</th>}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {selectedRows.map((row, rank) => (
+                          <tr key={String(row.id)}>
+                            <td className="px-2 py-0.5 text-tp-text-muted">{rank + 1}</td>
+                            <td className="px-2 py-0.5 truncate max-w-[200px]">{String(row.id)}</td>
+                            <td className="px-2 py-0.5 text-right">
+                              {formatDistance((row as Record<string, any>)['$dist'])}
+                            </td>
+                            {selectedTruth && (
+                              <td className="px-2 py-0.5 text-center">
+                                {selectedTruth.includes(String(row.id)) && <Check className="inline h-3 w-3 text-tp-success" />}
+                              </td>
+                            )}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                    {missed.length > 0 && (
+                      <div className="px-2 py-1 border-t border-tp-border-subtle text-tp-text-muted">
+                        missed: <span className="font-mono">{missed.join(', ')}</span>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose}>
+            Close
+          </Button>
+          <Button onClick={runBatch} disabled={isRunning || !querySet || !currentNamespaceId}>
+            {isRunning ? (
+              <>
+                <Loader2 className="w-3 h-3 mr-1.5 animate-spin" />
+                Running...
+              </>
+            ) : (
+              `Run ${queryCount > 0 ? queryCount.toLocaleString() : ''} Queries`
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
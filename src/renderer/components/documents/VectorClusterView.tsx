@@ -0,0 +1,409 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { schemeTableau10 } from 'd3';
+import { Boxes, Download, Filter, Loader2, MousePointerClick, Play, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { Document } from '@/types/document';
+import { useDocumentsStore } from '@/renderer/stores/documentsStore';
+import { documentService } from '@/renderer/services/documentService';
+import { vectorAttributesOf } from '@/renderer/utils/queryValidation';
+import { distanceMetricOf } from '@/renderer/utils/vectorHealth';
+import { findOutliers, summarizeClusters } from '@/renderer/utils/kmeans';
+import type { KMeansResult } from '@/renderer/utils/kmeans';
+import type { KMeansRequest, KMeansResponse } from '@/renderer/workers/kmeans.worker';
+import KMeansWorker from '@/renderer/workers/kmeans.worker?worker';
+
+const SAMPLE_SIZES = [1000, 2500, 5000, 10000];
+const MAX_K = 50;
+const REPRESENTATIVES = 3;
+const MAX_LISTED_MEMBERS = 200;
+const OUTLIERS = 20;
+const MAX_FILTER_IDS = 1000;
+const NO_LABEL = '__none__';
+
+const readValue = (doc: Document, key: string): unknown =>
+  (doc as Record<string, any>)[key] ?? doc.attributes?.[key];
+
+const isNumberArray = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.length > 0 && value.every((v) => typeof v === 'number');
+
+const formatLabel = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return text.length > 120 ? `${text.slice(0, 117)}...` : text;
+};
+
+const clusterColor = (cluster: number) => schemeTableau10[cluster % schemeTableau10.length];
+
+export const VectorClusterView: React.FC = () => {
+  const {
+    currentNamespaceId,
+    namespaceSchema,
+    attributes,
+    setSelectedDocuments,
+    showDocumentsById,
+  } = useDocumentsStore();
+
+  const vectorFields = useMemo(() => vectorAttributesOf(namespaceSchema), [namespaceSchema]);
+  const [vectorField, setVectorField] = useState('');
+  const [sampleSize, setSampleSize] = useState(2500);
+  const [k, setK] = useState(8);
+  const [labelAttribute, setLabelAttribute] = useState<string>(NO_LABEL);
+
+  const field = vectorField || vectorFields[0] || 'vector';
+  const [normalize, setNormalize] = useState(distanceMetricOf(namespaceSchema?.[field]) !== 'euclidean_squared');
+
+  const [phase, setPhase] = useState<'idle' | 'loading' | 'clustering'>('idle');
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [rows, setRows] = useState<Document[]>([]);
+  const [result, setResult] = useState<KMeansResult | null>(null);
+  const [expanded, setExpanded] = useState<number | null>(null);
+
+  const workerRef = useRef<Worker | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const labelAttributes = useMemo(
+    () => attributes.filter((attr) => attr.name !== 'id' && !vectorFields.includes(attr.name)),
+    [attributes, vectorFields]
+  );
+
+  const cancel = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setPhase('idle');
+  };
+
+  // Stop a running job when the view closes
+  useEffect(() => () => {
+    abortRef.current?.abort();
+    workerRef.current?.terminate();
+  }, []);
+
+  const runClustering = async () => {
+    if (!currentNamespaceId) return;
+    cancel();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setNotice(null);
+    setResult(null);
+    setExpanded(null);
+    setPhase('loading');
+    setProgress(0);
+
+    try {
+      const sampled = await documentService.readVectors(currentNamespaceId, {
+        vectorField: field,
+        attributes: labelAttribute !== NO_LABEL ? [labelAttribute] : [],
+        limit: sampleSize,
+        sample: true,
+        withVector: true,
+        onProgress: (read) => setProgress(read / sampleSize),
+        signal: controller.signal,
+      });
+      abortRef.current = null;
+
+      // Cluster only vectors of the most common width
+      const widths = new Map<number, number>();
+      sampled.forEach((row) => {
+        const vector = readValue(row, field);
+        if (isNumberArray(vector)) widths.set(vector.length, (widths.get(vector.length) ?? 0) + 1);
+      });
+      const width = [...widths.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+      const usable = sampled.filter((row) => {
+        const vector = readValue(row, field);
+        return isNumberArray(vector) && vector.length === width;
+      });
+      const skipped = sampled.length - usable.length;
+      if (skipped > 0) {
+        setNotice(`${skipped.toLocaleString()} documents without a ${width ?? ''}-dimension '${field}' vector were left out`);
+      }
+      if (usable.length < k) {
+        setError(`Need at least ${k} documents with a '${field}' vector for k = ${k}`);
+        setPhase('idle');
+        return;
+      }
+
+      setRows(usable);
+      setPhase('clustering');
+      setProgress(0);
+      const worker = new KMeansWorker();
+      workerRef.current = worker;
+      worker.onmessage = (event: MessageEvent<KMeansResponse>) => {
+        const response = event.data;
+        if (response.type === 'progress') {
+          setProgress(response.fraction);
+          return;
+        }
+        worker.terminate();
+        workerRef.current = null;
+        setPhase('idle');
+        if (response.type === 'error') {
+          setError(response.message);
+          return;
+        }
+        setResult(response.result);
+      };
+      const request: KMeansRequest = {
+        vectors: usable.map((row) => readValue(row, field) as number[]),
+        k,
+        options: { seed: 42, normalize },
+      };
+      worker.postMessage(request);
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        setError(err instanceof Error ? err.message : 'Failed to load vectors');
+        setPhase('idle');
+      }
+    }
+  };
+
+  const clusters = useMemo(
+    () => (result ? summarizeClusters(result).sort((a, b) => b.size - a.size) : []),
+    [result]
+  );
+  const outliers = useMemo(() => (result ? findOutliers(result, OUTLIERS) : []), [result]);
+  const largest = clusters[0]?.size ?? 1;
+
+  const idsOf = (indexes: number[]) => indexes.map((index) => rows[index].id);
+
+  const downloadLabels = () => {
+    if (!result) return;
+    const lines = rows.map((row, i) => {
+      const id = String(row.id);
+      const escaped = /[",\n]/.test(id) ? `"${id.replace(/"/g, '""')}"` : id;
+      return `${escaped},${result.assignments[i]},${result.distances[i]}`;
+    });
+    const csv = ['id,cluster,distance_to_centroid', ...lines].join('\n');
+    const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `${currentNamespaceId}-clusters-${new Date().toISOString().slice(0, 10)}.csv`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  const renderDocument = (index: number, cluster?: number) => {
+    const row = rows[index];
+    const label = labelAttribute !== NO_LABEL ? formatLabel(readValue(row, labelAttribute)) : '';
+    return (
+      <div key={String(row.id)} className="flex items-center gap-2 py-0.5 text-[11px]">
+        {cluster !== undefined && (
+          <span
+            className="h-2 w-2 rounded-full flex-shrink-0"
+            style={{ backgroundColor: clusterColor(cluster) }}
+            title={`cluster ${cluster}`}
+          />
+        )}
+        <span className="font-mono text-tp-accent flex-shrink-0">{String(row.id)}</span>
+        {label && <span className="truncate text-tp-text" title={label}>{label}</span>}
+        <span className="ml-auto font-mono text-tp-text-muted flex-shrink-0">
+          {result?.distances[index].toFixed(4)}
+        </span>
+      </div>
+    );
+  };
+
+  const isBusy = phase !== 'idle';
+
+  return (
+    <div className="flex flex-col h-full p-3 gap-2 overflow-hidden">
+      {/* Controls */}
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <Boxes className="h-3.5 w-3.5 text-tp-text-muted" />
+        <Select value={String(sampleSize)} onValueChange={(value) => setSampleSize(Number(value))} disabled={isBusy}>
+          <SelectTrigger className="h-7 w-28 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SAMPLE_SIZES.map((size) => (
+              <SelectItem key={size} value={String(size)} className="text-xs">
+                {size.toLocaleString()} docs
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="flex items-center gap-1">
+          <span className="text-tp-text-muted">k</span>
+          <Input
+            type="number"
+            min={2}
+            max={MAX_K}
+            value={k}
+            onChange={(e) => setK(Math.max(2, Math.min(MAX_K, Number(e.target.value) || 2)))}
+            className="h-7 w-16 text-xs"
+            disabled={isBusy}
+          />
+        </div>
+        {vectorFields.length > 1 && (
+          <Select value={field} onValueChange={setVectorField} disabled={isBusy}>
+            <SelectTrigger className="h-7 w-32 text-xs font-mono">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {vectorFields.map((name) => (
+                <SelectItem key={name} value={name} className="text-xs font-mono">
+                  {name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <Select value={labelAttribute} onValueChange={setLabelAttribute} disabled={isBusy}>
+          <SelectTrigger className="h-7 w-40 text-xs">
+            <SelectValue placeholder="show attribute" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_LABEL} className="text-xs">ids only</SelectItem>
+            {labelAttributes.map((attr) => (
+              <SelectItem key={attr.name} value={attr.name} className="text-xs font-mono">
+                {attr.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <label className="flex items-center gap-1.5 text-tp-text-muted" title="Cluster by direction only, as cosine distance does">
+          <Checkbox
+            checked={normalize}
+            onCheckedChange={(checked) => setNormalize(checked === true)}
+            disabled={isBusy}
+          />
+          normalize
+        </label>
+        {isBusy ? (
+          <Button variant="outline" size="sm" className="h-7 text-xs" onClick={cancel}>
+            <X className="h-3 w-3 mr-1" />
+            cancel
+          </Button>
+        ) : (
+          <Button size="sm" className="h-7 text-xs" onClick={runClustering} disabled={!currentNamespaceId}>
+            <Play className="h-3 w-3 mr-1" />
+            cluster
+          </Button>
+        )}
+        {isBusy && (
+          <div className="flex items-center gap-2 min-w-[160px]">
+            <Loader2 className="h-3 w-3 animate-spin text-tp-text-muted" />
+            <span className="text-tp-text-muted">{phase === 'loading' ? 'loading vectors' : 'clustering'}</span>
+            <Progress value={progress * 100} className="h-1.5 w-24" />
+          </div>
+        )}
+        {result && !isBusy && (
+          <Button variant="ghost" size="sm" className="ml-auto h-7 text-xs" onClick={downloadLabels}>
+            <Download className="h-3 w-3 mr-1" />
+            labels csv
+          </Button>
+        )}
+      </div>
+
+      {error && <div className="text-xs text-tp-danger">{error}</div>}
+      {notice && <div className="text-[10px] text-tp-text-muted">{notice}</div>}
+
+      {!result ? (
+        <div className="flex-1 flex items-center justify-center text-xs text-tp-text-muted border border-tp-border-subtle rounded">
+          {vectorFields.length === 0
+            ? 'this namespace has no vector attributes'
+            : 'sample documents and group their vectors into k clusters'}
+        </div>
+      ) : (
+        <div className="flex-1 min-h-0 flex gap-3">
+          {/* Clusters */}
+          <div className="flex-1 min-w-0 overflow-y-auto space-y-2 pr-1">
+            <div className="text-[10px] text-tp-text-muted">
+              {rows.length.toLocaleString()} documents • {clusters.length} clusters • {result.iterations} iterations •
+              inertia {result.inertia.toFixed(2)}
+            </div>
+            {clusters.map((summary) => (
+              <div key={summary.cluster} className="border border-tp-border-subtle rounded px-3 py-2 space-y-1">
+                <div className="flex items-center gap-2 text-xs">
+                  <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: clusterColor(summary.cluster) }} />
+                  <span className="font-medium text-tp-text">cluster {summary.cluster}</span>
+                  <span className="text-tp-text-muted">
+                    {summary.size.toLocaleString()} docs ({((summary.size / rows.length) * 100).toFixed(1)}%) • mean
+                    distance {summary.meanDistance.toFixed(4)}
+                  </span>
+                  <div className="ml-auto flex items-center gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 text-[10px]"
+                      onClick={() => setSelectedDocuments(new Set(idsOf(summary.members)))}
+                      disabled={summary.size === 0}
+                    >
+                      <MousePointerClick className="h-3 w-3 mr-1" />
+                      select
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 text-[10px]"
+                      onClick={() => showDocumentsById(idsOf(summary.members.slice(0, MAX_FILTER_IDS)))}
+                      disabled={summary.size === 0}
+                      title={summary.size > MAX_FILTER_IDS ? `Filters on the ${MAX_FILTER_IDS.toLocaleString()} most typical documents` : undefined}
+                    >
+                      <Filter className="h-3 w-3 mr-1" />
+                      open as filter
+                    </Button>
+                  </div>
+                </div>
+                <div className="h-1 rounded bg-tp-surface-alt">
+                  <div
+                    className="h-1 rounded"
+                    style={{ width: `${(summary.size / largest) * 100}%`, backgroundColor: clusterColor(summary.cluster) }}
+                  />
+                </div>
+                <div>
+                  {(expanded === summary.cluster
+                    ? summary.members.slice(0, MAX_LISTED_MEMBERS)
+                    : summary.members.slice(0, REPRESENTATIVES)
+                  ).map((index) => renderDocument(index))}
+                </div>
+                {summary.size > REPRESENTATIVES && (
+                  <button
+                    className="text-[10px] text-tp-text-muted hover:text-tp-text"
+                    onClick={() => setExpanded(expanded === summary.cluster ? null : summary.cluster)}
+                  >
+                    {expanded === summary.cluster
+                      ? 'show representatives only'
+                      : `show ${Math.min(summary.size, MAX_LISTED_MEMBERS).toLocaleString()} members`}
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {/* Outliers */}
+          <div className="w-80 flex-shrink-0 overflow-y-auto border border-tp-border-subtle rounded px-3 py-2 space-y-1">
+            <div className="flex items-center gap-2 text-xs">
+              <span className="font-medium text-tp-text">outliers</span>
+              <span className="text-tp-text-muted">furthest from their centroid</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="ml-auto h-6 text-[10px]"
+                onClick={() => showDocumentsById(idsOf(outliers))}
+              >
+                <Filter className="h-3 w-3 mr-1" />
+                open as filter
+              </Button>
+            </div>
+            {outliers.map((index) => renderDocument(index, result.assignments[index]))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,338 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Bar, BarChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AlertCircle, CheckCircle2, Filter, Loader2 } from 'lucide-react';
+import type { Document } from '@/types/document';
+import { useDocumentsStore } from '@/renderer/stores/documentsStore';
+import { documentService } from '@/renderer/services/documentService';
+import { vectorAttributesOf, vectorDimensionOf } from '@/renderer/utils/queryValidation';
+import {
+  VECTOR_HEALTH_CHECK_LABELS,
+  analyzeVectorHealth,
+  describeNorms,
+  distanceMetricOf,
+  idsForCheck,
+} from '@/renderer/utils/vectorHealth';
+import type { DistanceMetric, VectorHealthCheck, VectorHealthReport } from '@/renderer/utils/vectorHealth';
+
+interface VectorHealthDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const SAMPLE_SIZES = [1000, 5000, 10000, 25000];
+const MAX_FILTER_IDS = 1000; // Larger id lists make the filter itself unwieldy
+const PREVIEW_IDS = 8;
+const CHECKS: VectorHealthCheck[] = ['dimension', 'non_finite', 'near_zero', 'duplicate', 'missing'];
+
+const formatNorm = (value: number) => (Math.abs(value) >= 1000 ? value.toExponential(2) : value.toFixed(4));
+
+export const VectorHealthDialog: React.FC<VectorHealthDialogProps> = ({ open, onClose }) => {
+  const { currentNamespaceId, namespaceSchema, showDocumentsById } = useDocumentsStore();
+  const vectorFields = useMemo(() => vectorAttributesOf(namespaceSchema), [namespaceSchema]);
+
+  const [vectorField, setVectorField] = useState('');
+  const [sampleSize, setSampleSize] = useState(5000);
+  const [isRunning, setIsRunning] = useState(false);
+  const [read, setRead] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [report, setReport] = useState<VectorHealthReport | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const field = vectorField || vectorFields[0] || 'vector';
+  const schemaMetric = distanceMetricOf(namespaceSchema?.[field]);
+  const [metric, setMetric] = useState<DistanceMetric>(schemaMetric ?? 'cosine_distance');
+
+  useEffect(() => {
+    if (schemaMetric) setMetric(schemaMetric);
+  }, [schemaMetric]);
+
+  // Stop reading when the dialog closes mid-run
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const runCheck = async () => {
+    if (!currentNamespaceId) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    setRead(0);
+    setError(null);
+    setReport(null);
+    try {
+      const rows = await documentService.readVectors(currentNamespaceId, {
+        vectorField: field,
+        limit: sampleSize,
+        sample: true,
+        onProgress: setRead,
+        signal: controller.signal,
+      });
+      const schema = namespaceSchema?.[field];
+      setReport(analyzeVectorHealth(
+        rows.map((row: Document) => ({
+          id: row.id,
+          vector: (row as Record<string, any>)[field] ?? row.attributes?.[field],
+        })),
+        { expectedDimensions: schema ? vectorDimensionOf(schema) : null }
+      ));
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        setError(err instanceof Error ? err.message : 'Failed to read vectors');
+      }
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  const handleClose = () => {
+    abortRef.current?.abort();
+    onClose();
+  };
+
+  const openAsFilter = (check: VectorHealthCheck) => {
+    if (!report) return;
+    showDocumentsById(idsForCheck(report, check).slice(0, MAX_FILTER_IDS));
+    handleClose();
+  };
+
+  const problemCount = report
+    ? CHECKS.reduce((sum, check) => sum + idsForCheck(report, check).length, 0)
+    : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={() => handleClose()}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Vector Health</DialogTitle>
+          <DialogDescription>
+            Samples documents from across {currentNamespaceId ?? 'this namespace'} and checks their vectors for
+            problems that queries won't report.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-end gap-3">
+            {vectorFields.length > 1 && (
+              <div className="space-y-1">
+                <Label className="text-xs">Vector attribute</Label>
+                <Select value={field} onValueChange={setVectorField} disabled={isRunning}>
+                  <SelectTrigger className="h-8 w-40 text-xs font-mono">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {vectorFields.map((name) => (
+                      <SelectItem key={name} value={name} className="text-xs font-mono">
+                        {name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-1">
+              <Label className="text-xs">Sample</Label>
+              <Select value={String(sampleSize)} onValueChange={(value) => setSampleSize(Number(value))} disabled={isRunning}>
+                <SelectTrigger className="h-8 w-32 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SAMPLE_SIZES.map((size) => (
+                    <SelectItem key={size} value={String(size)} className="text-xs">
+                      {size.toLocaleString()} docs
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Distance metric{schemaMetric ? '' : ' (assumed)'}</Label>
+              <Select value={metric} onValueChange={(value) => setMetric(value as DistanceMetric)} disabled={!!schemaMetric}>
+                <SelectTrigger className="h-8 w-44 text-xs font-mono">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="cosine_distance" className="text-xs font-mono">cosine_distance</SelectItem>
+                  <SelectItem value="euclidean_squared" className="text-xs font-mono">euclidean_squared</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {isRunning && (
+            <div className="space-y-1">
+              <Progress value={Math.min(100, (read / sampleSize) * 100)} />
+              <p className="text-xs text-center text-muted-foreground">
+                {read.toLocaleString()} / {sampleSize.toLocaleString()} read
+              </p>
+            </div>
+          )}
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="w-4 h-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {report && (
+            <div className="space-y-3 text-xs">
+              <div className="flex items-center gap-2 text-tp-text">
+                {problemCount === 0 ? (
+                  <CheckCircle2 className="h-4 w-4 text-tp-success" />
+                ) : (
+                  <AlertCircle className="h-4 w-4 text-tp-danger" />
+                )}
+                <span>
+                  {report.sampled.toLocaleString()} documents checked
+                  {report.expectedDimensions !== null &&
+                    ` • expecting ${report.expectedDimensions} dimensions (from the ${report.dimensionSource})`}
+                  {problemCount === 0 && ' • no problems found'}
+                </span>
+              </div>
+
+              {/* Offending documents per check */}
+              <div className="border rounded border-tp-border-subtle divide-y divide-tp-border-subtle">
+                {CHECKS.map((check) => {
+                  const ids = idsForCheck(report, check);
+                  return (
+                    <div key={check} className="px-3 py-2 space-y-1">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium text-tp-text">{VECTOR_HEALTH_CHECK_LABELS[check]}</span>
+                        <Badge variant={ids.length > 0 ? 'destructive' : 'secondary'} className="h-4 px-1.5 text-[10px]">
+                          {check === 'duplicate'
+                            ? `${report.duplicates.length.toLocaleString()} groups`
+                            : ids.length.toLocaleString()}
+                        </Badge>
+                        {ids.length > 0 && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="ml-auto h-6 text-[10px]"
+                            onClick={() => openAsFilter(check)}
+                            title={ids.length > MAX_FILTER_IDS ? `Filters on the first ${MAX_FILTER_IDS.toLocaleString()} ids` : undefined}
+                          >
+                            <Filter className="h-3 w-3 mr-1" />
+                            open as filter
+                          </Button>
+                        )}
+                      </div>
+                      {check === 'non_finite' && (
+                        <p className="text-[10px] text-tp-text-muted">
+                          NaN and Inf read back as null, so they count here without telling which one it was.
+                          A vector that is null as a whole is listed as missing.
+                        </p>
+                      )}
+                      {check === 'duplicate' && report.duplicates.length > 0 ? (
+                        <div className="space-y-0.5 font-mono text-[10px] text-tp-text-muted">
+                          {report.duplicates.slice(0, PREVIEW_IDS).map((group) => (
+                            <div key={String(group[0])} className="truncate">{group.map(String).join(', ')}</div>
+                          ))}
+                          {report.duplicates.length > PREVIEW_IDS && (
+                            <div>and {(report.duplicates.length - PREVIEW_IDS).toLocaleString()} more groups</div>
+                          )}
+                        </div>
+                      ) : ids.length > 0 ? (
+                        <div className="font-mono text-[10px] text-tp-text-muted truncate">
+                          {check === 'dimension'
+                            ? report.dimensionMismatches.slice(0, PREVIEW_IDS).map((entry) => `${entry.id} (${entry.dimensions}D)`).join(', ')
+                            : ids.slice(0, PREVIEW_IDS).map(String).join(', ')}
+                          {ids.length > PREVIEW_IDS && ` and ${(ids.length - PREVIEW_IDS).toLocaleString()} more`}
+                        </div>
+                      ) : null}
+                    </div>
+                  );
+                })}
+              </div>
+
+              {/* Norm distribution */}
+              {report.norms && (
+                <div className="space-y-2">
+                  <div className="font-medium text-tp-text">Norm distribution</div>
+                  <div className="grid grid-cols-6 gap-2 font-mono">
+                    {([
+                      ['min', report.norms.min],
+                      ['p5', report.norms.p5],
+                      ['median', report.norms.p50],
+                      ['p95', report.norms.p95],
+                      ['max', report.norms.max],
+                      ['std dev', report.norms.stdDev],
+                    ] as [string, number][]).map(([label, value]) => (
+                      <div key={label}>
+                        <div className="text-[10px] text-tp-text-muted">{label}</div>
+                        <div className="text-tp-text">{formatNorm(value)}</div>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="h-28">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <BarChart
+                        data={report.norms.histogram.map((bin) => ({ ...bin, label: formatNorm(bin.start) }))}
+                        margin={{ top: 4, right: 4, bottom: 0, left: 0 }}
+                      >
+                        <XAxis dataKey="label" tick={{ fontSize: 9 }} interval="preserveStartEnd" />
+                        <YAxis tick={{ fontSize: 9 }} width={32} allowDecimals={false} />
+                        <Tooltip
+                          formatter={(value: number) => [value.toLocaleString(), 'vectors']}
+                          labelFormatter={(_, payload) => {
+                            const bin = payload?.[0]?.payload;
+                            return bin ? `${formatNorm(bin.start)} – ${formatNorm(bin.end)}` : '';
+                          }}
+                        />
+                        <Bar dataKey="count" fill="#8884d8" isAnimationActive={false} />
+                      </BarChart>
+                    </ResponsiveContainer>
+                  </div>
+                  <p className="text-tp-text-muted">{describeNorms(report.norms, metric)}</p>
+                </div>
+              )}
+
+              {report.dimensionCounts.length > 1 && (
+                <p className="text-tp-text-muted">
+                  Widths seen:{' '}
+                  {report.dimensionCounts.map((entry) => `${entry.dimensions}D × ${entry.count.toLocaleString()}`).join(', ')}
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose}>
+            Close
+          </Button>
+          <Button onClick={runCheck} disabled={isRunning || !currentNamespaceId}>
+            {isRunning ? (
+              <>
+                <Loader2 className="w-3 h-3 mr-1.5 animate-spin" />
+                Checking...
+              </>
+            ) : report ? (
+              'Check Again'
+            ) : (
+              'Run Check'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
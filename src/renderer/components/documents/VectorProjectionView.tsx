@@ -0,0 +1,442 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { interpolateViridis, schemeTableau10 } from 'd3';
+import { Loader2, Play, ScatterChart, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { Document } from '@/types/document';
+import { useDocumentsStore } from '@/renderer/stores/documentsStore';
+import { documentService } from '@/renderer/services/documentService';
+import { vectorAttributesOf } from '@/renderer/utils/queryValidation';
+import { PROJECTION_METHOD_LABELS, pointInPolygon } from '@/renderer/utils/projection';
+import type { Point2D, ProjectionMethod } from '@/renderer/utils/projection';
+import type { ProjectionRequest, ProjectionResponse } from '@/renderer/workers/projection.worker';
+import ProjectionWorker from '@/renderer/workers/projection.worker?worker';
+
+type Source = 'results' | 'sample';
+
+interface ProjectedPoint {
+  id: string | number;
+  position: Point2D;
+  colorValue: unknown;
+}
+
+// Quadratic methods get slow past these sizes, even off the main thread
+const MAX_POINTS: Record<ProjectionMethod, number> = {
+  pca: 10_000,
+  umap: 3_000,
+  tsne: 2_000,
+};
+const SAMPLE_SIZES = [500, 1000, 2000, 5000];
+const MAX_CATEGORIES = 10; // The rest are drawn grey
+const NO_COLOR = '__none__';
+const OTHER_COLOR = '#9ca3af';
+
+const readValue = (doc: Document, key: string): unknown =>
+  (doc as Record<string, any>)[key] ?? doc.attributes?.[key];
+
+const isNumberArray = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.length > 0 && value.every((v) => typeof v === 'number');
+
+export const VectorProjectionView: React.FC = () => {
+  const {
+    currentNamespaceId,
+    namespaceSchema,
+    documents,
+    attributes,
+    selectedDocuments,
+    setSelectedDocuments,
+  } = useDocumentsStore();
+
+  const vectorFields = useMemo(() => vectorAttributesOf(namespaceSchema), [namespaceSchema]);
+  const [vectorField, setVectorField] = useState<string>('');
+  const [source, setSource] = useState<Source>('results');
+  const [sampleSize, setSampleSize] = useState(1000);
+  const [method, setMethod] = useState<ProjectionMethod>('pca');
+  const [colorAttribute, setColorAttribute] = useState<string>(NO_COLOR);
+
+  const [phase, setPhase] = useState<'idle' | 'loading' | 'projecting'>('idle');
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [points, setPoints] = useState<ProjectedPoint[]>([]);
+  const [lasso, setLasso] = useState<Point2D[] | null>(null);
+
+  const workerRef = useRef<Worker | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const field = vectorField || vectorFields[0] || 'vector';
+  const colorableAttributes = useMemo(
+    () => attributes.filter((attr) => attr.name !== field && !vectorFields.includes(attr.name)),
+    [attributes, field, vectorFields]
+  );
+
+  const cancel = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setPhase('idle');
+  };
+
+  // Stop a running projection when the view closes
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  const runProjection = async () => {
+    if (!currentNamespaceId) return;
+    cancel();
+    setError(null);
+    setNotice(null);
+    setLasso(null);
+    setPhase('loading');
+    setProgress(0);
+
+    try {
+      const limit = MAX_POINTS[method];
+      const colorAttributes = colorAttribute !== NO_COLOR ? [colorAttribute] : [];
+      const rows = source === 'results'
+        ? await documentService.readVectors(currentNamespaceId, {
+            vectorField: field,
+            attributes: colorAttributes,
+            ids: documents.slice(0, limit).map((doc) => doc.id),
+          })
+        : await documentService.readVectors(currentNamespaceId, {
+            vectorField: field,
+            attributes: colorAttributes,
+            limit: Math.min(sampleSize, limit),
+            sample: true,
+            withVector: true,
+            onProgress: (read) => setProgress(read / Math.min(sampleSize, limit)),
+          });
+
+      // Every vector must have the dimension most of them have
+      const withVectors = rows.filter((row) => isNumberArray(readValue(row, field)));
+      const widths = new Map<number, number>();
+      withVectors.forEach((row) => {
+        const width = (readValue(row, field) as number[]).length;
+        widths.set(width, (widths.get(width) ?? 0) + 1);
+      });
+      const width = [...widths.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+      const usable = withVectors.filter((row) => (readValue(row, field) as number[]).length === width);
+
+      const skipped = rows.length - usable.length;
+      const truncated = source === 'results' && documents.length > limit;
+      const notes = [
+        skipped > 0 && `${skipped} documents without a ${width ?? ''}-dimension '${field}' vector were left out`,
+        truncated && `${PROJECTION_METHOD_LABELS[method]} shows the first ${limit.toLocaleString()} results`,
+      ].filter(Boolean);
+      setNotice(notes.length > 0 ? notes.join(' • ') : null);
+
+      if (usable.length < 3) {
+        setPoints([]);
+        setError(`Need at least 3 documents with a '${field}' vector to project`);
+        setPhase('idle');
+        return;
+      }
+
+      setPhase('projecting');
+      setProgress(0);
+      const worker = new ProjectionWorker();
+      workerRef.current = worker;
+      worker.onmessage = (event: MessageEvent<ProjectionResponse>) => {
+        const response = event.data;
+        if (response.type === 'progress') {
+          setProgress(response.fraction);
+          return;
+        }
+        worker.terminate();
+        workerRef.current = null;
+        setPhase('idle');
+        if (response.type === 'error') {
+          setError(response.message);
+          return;
+        }
+        setPoints(usable.map((row, i) => ({
+          id: row.id,
+          position: response.points[i],
+          colorValue: colorAttribute !== NO_COLOR ? readValue(row, colorAttribute) : undefined,
+        })));
+      };
+      const request: ProjectionRequest = {
+        method,
+        vectors: usable.map((row) => readValue(row, field) as number[]),
+        options: { seed: 42 },
+      };
+      worker.postMessage(request);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load vectors');
+      setPhase('idle');
+    }
+  };
+
+  // Numbers get a continuous scale, anything else the most common categories
+  const colorScale = useMemo(() => {
+    const values = points.map((p) => p.colorValue).filter((v) => v !== undefined && v !== null);
+    if (values.length === 0) return null;
+    if (values.every((v) => typeof v === 'number')) {
+      const numbers = values as number[];
+      const min = Math.min(...numbers);
+      const max = Math.max(...numbers);
+      return {
+        kind: 'numeric' as const,
+        min,
+        max,
+        color: (value: unknown) =>
+          typeof value === 'number' ? interpolateViridis(max > min ? (value - min) / (max - min) : 0.5) : OTHER_COLOR,
+      };
+    }
+    const counts = new Map<string, number>();
+    values.forEach((v) => counts.set(String(v), (counts.get(String(v)) ?? 0) + 1));
+    const categories = [...counts.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_CATEGORIES)
+      .map(([value]) => value);
+    return {
+      kind: 'categorical' as const,
+      categories,
+      hasOther: counts.size > categories.length,
+      color: (value: unknown) => {
+        const index = value === undefined || value === null ? -1 : categories.indexOf(String(value));
+        return index >= 0 ? schemeTableau10[index] : OTHER_COLOR;
+      },
+    };
+  }, [points]);
+
+  const bounds = useMemo(() => {
+    if (points.length === 0) return { x: -10, y: -10, size: 20 };
+    const xs = points.map((p) => p.position[0]);
+    const ys = points.map((p) => p.position[1]);
+    const minX = Math.min(...xs);
+    const minY = Math.min(...ys);
+    const size = Math.max(Math.max(...xs) - minX, Math.max(...ys) - minY, 1) * 1.1;
+    return { x: minX - size * 0.05, y: minY - size * 0.05, size };
+  }, [points]);
+  const radius = bounds.size / 250;
+
+  // Pointer position in the projection's coordinates
+  const toPlot = (event: React.PointerEvent<SVGSVGElement>): Point2D | null => {
+    const svg = svgRef.current;
+    const matrix = svg?.getScreenCTM();
+    if (!svg || !matrix) return null;
+    const point = new DOMPoint(event.clientX, event.clientY).matrixTransform(matrix.inverse());
+    return [point.x, point.y];
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    const start = toPlot(event);
+    if (!start || points.length === 0) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setLasso([start]);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (!lasso) return;
+    const next = toPlot(event);
+    if (next) setLasso([...lasso, next]);
+  };
+
+  // Shift adds to the current selection; a click without dragging clears it
+  const handlePointerUp = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (!lasso) return;
+    const inside = lasso.length > 2
+      ? points.filter((p) => pointInPolygon(p.position, lasso)).map((p) => p.id)
+      : [];
+    const next = new Set<string | number>(event.shiftKey ? selectedDocuments : []);
+    inside.forEach((id) => next.add(id));
+    setSelectedDocuments(next);
+    setLasso(null);
+  };
+
+  const isBusy = phase !== 'idle';
+
+  return (
+    <div className="flex flex-col h-full p-3 gap-2 overflow-hidden">
+      {/* Controls */}
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <ScatterChart className="h-3.5 w-3.5 text-tp-text-muted" />
+        <Select value={source} onValueChange={(value) => setSource(value as Source)} disabled={isBusy}>
+          <SelectTrigger className="h-7 w-40 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="results" className="text-xs">current results ({documents.length.toLocaleString()})</SelectItem>
+            <SelectItem value="sample" className="text-xs">namespace sample</SelectItem>
+          </SelectContent>
+        </Select>
+        {source === 'sample' && (
+          <Select value={String(sampleSize)} onValueChange={(value) => setSampleSize(Number(value))} disabled={isBusy}>
+            <SelectTrigger className="h-7 w-24 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SAMPLE_SIZES.map((size) => (
+                <SelectItem key={size} value={String(size)} className="text-xs">
+                  {size.toLocaleString()} docs
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        {vectorFields.length > 1 && (
+          <Select value={field} onValueChange={setVectorField} disabled={isBusy}>
+            <SelectTrigger className="h-7 w-32 text-xs font-mono">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {vectorFields.map((name) => (
+                <SelectItem key={name} value={name} className="text-xs font-mono">
+                  {name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <Select value={method} onValueChange={(value) => setMethod(value as ProjectionMethod)} disabled={isBusy}>
+          <SelectTrigger className="h-7 w-24 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(PROJECTION_METHOD_LABELS) as ProjectionMethod[]).map((name) => (
+              <SelectItem key={name} value={name} className="text-xs">
+                {PROJECTION_METHOD_LABELS[name]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={colorAttribute} onValueChange={setColorAttribute} disabled={isBusy}>
+          <SelectTrigger className="h-7 w-40 text-xs">
+            <SelectValue placeholder="colour by" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_COLOR} className="text-xs">no colour</SelectItem>
+            {colorableAttributes.map((attr) => (
+              <SelectItem key={attr.name} value={attr.name} className="text-xs font-mono">
+                {attr.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {isBusy ? (
+          <Button variant="outline" size="sm" className="h-7 text-xs" onClick={cancel}>
+            <X className="h-3 w-3 mr-1" />
+            cancel
+          </Button>
+        ) : (
+          <Button size="sm" className="h-7 text-xs" onClick={runProjection} disabled={!currentNamespaceId}>
+            <Play className="h-3 w-3 mr-1" />
+            project
+          </Button>
+        )}
+        {isBusy && (
+          <div className="flex items-center gap-2 min-w-[160px]">
+            <Loader2 className="h-3 w-3 animate-spin text-tp-text-muted" />
+            <span className="text-tp-text-muted">{phase === 'loading' ? 'loading vectors' : 'projecting'}</span>
+            <Progress value={progress * 100} className="h-1.5 w-24" />
+          </div>
+        )}
+        {selectedDocuments.size > 0 && (
+          <span className="ml-auto text-tp-text-muted">
+            {selectedDocuments.size.toLocaleString()} selected • drag to lasso, shift to add
+          </span>
+        )}
+      </div>
+
+      {error && <div className="text-xs text-tp-danger">{error}</div>}
+      {notice && <div className="text-[10px] text-tp-text-muted">{notice}</div>}
+
+      {/* Plot */}
+      <div className="flex-1 min-h-0 flex gap-3">
+        <div className="flex-1 min-w-0 border border-tp-border-subtle rounded bg-tp-bg">
+          {points.length === 0 ? (
+            <div className="h-full flex items-center justify-center text-xs text-tp-text-muted">
+              {vectorFields.length === 0
+                ? 'this namespace has no vector attributes'
+                : 'choose a source and method, then project'}
+            </div>
+          ) : (
+            <svg
+              ref={svgRef}
+              className="w-full h-full cursor-crosshair select-none touch-none"
+              viewBox={`${bounds.x} ${bounds.y} ${bounds.size} ${bounds.size}`}
+              preserveAspectRatio="xMidYMid meet"
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+            >
+              {points.map((point) => {
+                const isSelected = selectedDocuments.has(point.id);
+                return (
+                  <circle
+                    key={String(point.id)}
+                    cx={point.position[0]}
+                    cy={point.position[1]}
+                    r={isSelected ? radius * 1.6 : radius}
+                    fill={colorScale ? colorScale.color(point.colorValue) : '#8884d8'}
+                    fillOpacity={selectedDocuments.size > 0 && !isSelected ? 0.35 : 0.85}
+                    stroke={isSelected ? 'currentColor' : 'none'}
+                    strokeWidth={radius / 2}
+                  >
+                    <title>
+                      {String(point.id)}
+                      {colorAttribute !== NO_COLOR && `\n${colorAttribute}: ${String(point.colorValue ?? 'null')}`}
+                    </title>
+                  </circle>
+                );
+              })}
+              {lasso && lasso.length > 1 && (
+                <polygon
+                  points={lasso.map(([x, y]) => `${x},${y}`).join(' ')}
+                  fill="currentColor"
+                  fillOpacity={0.08}
+                  stroke="currentColor"
+                  strokeWidth={radius / 2}
+                  strokeDasharray={`${radius * 2} ${radius}`}
+                />
+              )}
+            </svg>
+          )}
+        </div>
+
+        {/* Legend */}
+        {colorScale && (
+          <div className="w-40 flex-shrink-0 space-y-1 text-[10px] overflow-y-auto">
+            <div className="font-medium text-tp-text font-mono truncate">{colorAttribute}</div>
+            {colorScale.kind === 'numeric' ? (
+              <div className="space-y-0.5">
+                <div
+                  className="h-2 rounded"
+                  style={{
+                    background: `linear-gradient(to right, ${[0, 0.25, 0.5, 0.75, 1].map((t) => interpolateViridis(t)).join(', ')})`,
+                  }}
+                />
+                <div className="flex justify-between font-mono text-tp-text-muted">
+                  <span>{colorScale.min.toLocaleString()}</span>
+                  <span>{colorScale.max.toLocaleString()}</span>
+                </div>
+              </div>
+            ) : (
+              <>
+                {colorScale.categories.map((category, index) => (
+                  <div key={category} className="flex items-center gap-1.5">
+                    <span className="h-2 w-2 rounded-full flex-shrink-0" style={{ backgroundColor: schemeTableau10[index] }} />
+                    <span className="truncate font-mono" title={category}>{category}</span>
+                  </div>
+                ))}
+                {colorScale.hasOther && (
+                  <div className="flex items-center gap-1.5 text-tp-text-muted">
+                    <span className="h-2 w-2 rounded-full flex-shrink-0" style={{ backgroundColor: OTHER_COLOR }} />
+                    other / missing
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,7 @@
-import React, { useState, useCallback } from "react";
-import { Upload, X, AlertCircle, CheckCircle2 } from "lucide-react";
+import React, { useState, useCallback, useEffect } from "react";
+import { Upload, X, AlertCircle, CheckCircle2, Loader2, Sparkles, Layers } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
@@ -12,10 +13,12 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { cn } from "@/lib/utils";
+import { VectorBatchDialog } from "./VectorBatchDialog";
 
 interface VectorSearchInputProps {
   onVectorChange: (vector: number[] | null, field: string) => void;
   vectorFields: string[]; // Available vector fields from schema
+  connectionId?: string | null; // Enables text queries when the connection has an embedding provider
   disabled?: boolean;
   className?: string;
 }
@@ -23,6 +26,7 @@ interface VectorSearchInputProps {
 export const VectorSearchInput: React.FC<VectorSearchInputProps> = ({
   onVectorChange,
   vectorFields,
+  connectionId,
   disabled = false,
   className,
 }) => {
@@ -31,6 +35,51 @@ export const VectorSearchInput: React.FC<VectorSearchInputProps> = ({
   const [parseError, setParseError] = useState<string | null>(null);
   const [parsedVector, setParsedVector] = useState<number[] | null>(null);
 
+  // Text mode: embed the query with the connection's provider
+  const [inputMode, setInputMode] = useState<"text" | "vector">("vector");
+  const [embeddingModel, setEmbeddingModel] = useState<string | null>(null);
+  const [queryText, setQueryText] = useState("");
+  const [isEmbedding, setIsEmbedding] = useState(false);
+  const [showBatchDialog, setShowBatchDialog] = useState(false);
+
+  useEffect(() => {
+    if (!connectionId) {
+      setEmbeddingModel(null);
+      setInputMode("vector");
+      return;
+    }
+    let cancelled = false;
+    window.electronAPI.getEmbeddingConfig(connectionId)
+      .then((config) => {
+        if (cancelled) return;
+        setEmbeddingModel(config?.model ?? null);
+        setInputMode(config ? "text" : "vector");
+      })
+      .catch(() => {
+        if (!cancelled) setEmbeddingModel(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [connectionId]);
+
+  const handleEmbed = async () => {
+    if (!connectionId || !queryText.trim()) return;
+    setIsEmbedding(true);
+    setParseError(null);
+    try {
+      const [vector] = await window.electronAPI.embedTexts(connectionId, [queryText.trim()]);
+      setParsedVector(vector);
+      setVectorText(JSON.stringify(vector));
+      onVectorChange(vector, selectedField);
+    } catch (error) {
+      setParsedVector(null);
+      setParseError(error instanceof Error ? error.message : "Failed to embed text");
+    } finally {
+      setIsEmbedding(false);
+    }
+  };
+
   // Parse vector from text input
   const parseVector = useCallback((text: string): number[] | null => {
     if (!text.trim()) {
@@ -116,9 +165,19 @@ export const VectorSearchInput: React.FC<VectorSearchInputProps> = ({
     reader.readAsText(file);
   };
 
+  // Search with one vector picked from a batch run
+  const handleUseBatchQuery = (vector: number[], field: string) => {
+    setSelectedField(field);
+    setVectorText(JSON.stringify(vector));
+    setParseError(null);
+    setParsedVector(vector);
+    onVectorChange(vector, field);
+  };
+
   // Clear vector
   const handleClear = () => {
     setVectorText("");
+    setQueryText("");
     setParseError(null);
     setParsedVector(null);
     onVectorChange(null, selectedField);
@@ -151,21 +210,59 @@ export const VectorSearchInput: React.FC<VectorSearchInputProps> = ({
             {parsedVector.length} dimensions
           </Badge>
         )}
-      </div>
 
-      {/* Vector Input */}
-      <div className="relative">
-        <Textarea
-          value={vectorText}
-          onChange={(e) => handleTextChange(e.target.value)}
-          placeholder="Enter query vector as JSON array or comma-separated numbers&#10;Example: [0.1, 0.2, 0.3, ...] or 0.1, 0.2, 0.3, ..."
-          className="min-h-[100px] text-xs font-mono resize-y"
-          disabled={disabled}
-        />
+        {embeddingModel && (
+          <div className="flex items-center ml-auto">
+            <Button
+              variant={inputMode === "text" ? "secondary" : "ghost"}
+              size="sm"
+              className="h-6 text-[10px]"
+              onClick={() => setInputMode("text")}
+              disabled={disabled}
+            >
+              text
+            </Button>
+            <Button
+              variant={inputMode === "vector" ? "secondary" : "ghost"}
+              size="sm"
+              className="h-6 text-[10px]"
+              onClick={() => setInputMode("vector")}
+              disabled={disabled}
+            >
+              vector
+            </Button>
+          </div>
+        )}
+      </div>
 
-        {/* Action Buttons */}
-        <div className="absolute top-2 right-2 flex gap-1">
-          {vectorText && (
+      {/* Text Input */}
+      {inputMode === "text" && embeddingModel && (
+        <div className="flex items-center gap-2">
+          <div className="relative flex-1">
+            <Sparkles className="absolute w-3 h-3 -translate-y-1/2 left-2 top-1/2 text-tp-text-muted" />
+            <Input
+              value={queryText}
+              onChange={(e) => setQueryText(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  handleEmbed();
+                }
+              }}
+              placeholder="Describe what you're looking for..."
+              className="h-8 text-xs pl-7"
+              disabled={disabled || isEmbedding}
+            />
+          </div>
+          <Button
+            size="sm"
+            className="h-8 text-xs"
+            onClick={handleEmbed}
+            disabled={disabled || isEmbedding || !queryText.trim()}
+          >
+            {isEmbedding ? <Loader2 className="h-3 w-3 animate-spin" /> : "Search"}
+          </Button>
+          {queryText && (
             <Button
               variant="ghost"
               size="sm"
@@ -176,27 +273,66 @@ export const VectorSearchInput: React.FC<VectorSearchInputProps> = ({
               <X className="h-3 w-3" />
             </Button>
           )}
+        </div>
+      )}
 
-          <Button
-            variant="ghost"
-            size="sm"
-            className="h-6 w-6 p-0"
-            onClick={() => document.getElementById('vector-file-input')?.click()}
-            disabled={disabled}
-          >
-            <Upload className="h-3 w-3" />
-          </Button>
-
-          <input
-            id="vector-file-input"
-            type="file"
-            accept=".json,.txt,.csv"
-            className="hidden"
-            onChange={handleFileUpload}
+      {/* Vector Input */}
+      {inputMode === "vector" && (
+        <div className="relative">
+          <Textarea
+            value={vectorText}
+            onChange={(e) => handleTextChange(e.target.value)}
+            placeholder="Enter query vector as JSON array or comma-separated numbers&#10;Example: [0.1, 0.2, 0.3, ...] or 0.1, 0.2, 0.3, ..."
+            className="min-h-[100px] text-xs font-mono resize-y"
             disabled={disabled}
           />
+
+          {/* Action Buttons */}
+          <div className="absolute top-2 right-2 flex gap-1">
+            {vectorText && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                onClick={handleClear}
+                disabled={disabled}
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            )}
+
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0"
+              onClick={() => document.getElementById('vector-file-input')?.click()}
+              disabled={disabled}
+            >
+              <Upload className="h-3 w-3" />
+            </Button>
+
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0"
+              onClick={() => setShowBatchDialog(true)}
+              disabled={disabled}
+              title="Run a batch of query vectors from a file"
+            >
+              <Layers className="h-3 w-3" />
+            </Button>
+
+            <input
+              id="vector-file-input"
+              type="file"
+              accept=".json,.txt,.csv"
+              className="hidden"
+              onChange={handleFileUpload}
+              disabled={disabled}
+            />
+          </div>
         </div>
-      </div>
+      )}
 
       {/* Parse Status */}
       {parseError && (
@@ -210,20 +346,35 @@ export const VectorSearchInput: React.FC<VectorSearchInputProps> = ({
         <Alert className="py-2 bg-green-50 dark:bg-green-950 border-green-200 dark:border-green-800">
           <CheckCircle2 className="h-3 w-3 text-green-600 dark:text-green-400" />
           <AlertDescription className="text-xs text-green-800 dark:text-green-200">
-            Vector parsed successfully ({parsedVector.length} dimensions)
+            {inputMode === "text"
+              ? `Query embedded with ${embeddingModel} (${parsedVector.length} dimensions)`
+              : `Vector parsed successfully (${parsedVector.length} dimensions)`}
           </AlertDescription>
         </Alert>
       )}
 
       {/* Help Text */}
-      <div className="text-[10px] text-muted-foreground space-y-1">
-        <p>Supported formats:</p>
-        <ul className="list-disc list-inside ml-2">
-          <li>JSON array: [0.1, 0.2, 0.3, ...]</li>
-          <li>Comma-separated: 0.1, 0.2, 0.3, ...</li>
-          <li>Upload from file (.json, .txt, .csv)</li>
-        </ul>
-      </div>
+      {inputMode === "vector" && (
+        <div className="text-[10px] text-muted-foreground space-y-1">
+          <p>Supported formats:</p>
+          <ul className="list-disc list-inside ml-2">
+            <li>JSON array: [0.1, 0.2, 0.3, ...]</li>
+            <li>Comma-separated: 0.1, 0.2, 0.3, ...</li>
+            <li>Upload from file (.json, .txt, .csv)</li>
+            <li>Batch of queries from .npy, .fvecs or .jsonl</li>
+          </ul>
+        </div>
+      )}
+
+      {showBatchDialog && (
+        <VectorBatchDialog
+          open={showBatchDialog}
+          onClose={() => setShowBatchDialog(false)}
+          vectorFields={vectorFields}
+          initialField={selectedField}
+          onUseQuery={handleUseBatchQuery}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,211 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { History, RefreshCw, Trash2, Undo2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useConnections } from '@/renderer/contexts/ConnectionContext';
+import { useToast } from '@/hooks/use-toast';
+import { useDocumentsStore } from '@/renderer/stores/documentsStore';
+import type { WriteJournalEntry, WriteJournalStatus } from '@/types/writeJournal';
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+
+const statusClassName: Record<WriteJournalStatus, string> = {
+  pending: 'text-tp-warning border-tp-warning/40',
+  applied: 'text-tp-text-muted',
+  failed: 'text-tp-danger border-tp-danger/40',
+  undone: 'text-tp-accent border-tp-accent/40',
+};
+
+/**
+ * Writes sent from this connection, newest first, each with the documents it
+ * could touch saved beforehand so it can be undone.
+ */
+export const WriteHistoryPage: React.FC = () => {
+  const { connectionId } = useParams<{ connectionId: string }>();
+  const { getConnectionById } = useConnections();
+  const { toast } = useToast();
+  const connection = connectionId ? getConnectionById(connectionId) : undefined;
+
+  const [entries, setEntries] = useState<WriteJournalEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [undoingId, setUndoingId] = useState<string | null>(null);
+
+  const loadEntries = useCallback(async () => {
+    if (!connectionId) return;
+    setLoading(true);
+    try {
+      setEntries(await window.electronAPI.listWriteJournal(connectionId));
+    } catch (err) {
+      console.error('Failed to load write history:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [connectionId]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  const handleUndo = async (entry: WriteJournalEntry) => {
+    if (!connectionId) return;
+    const parts = [`restore ${entry.capturedRows.toLocaleString()} document${entry.capturedRows !== 1 ? 's' : ''}`];
+    if (entry.createdIds.length > 0) {
+      parts.push(`delete ${entry.createdIds.length.toLocaleString()} created by the write`);
+    }
+    const confirmed = window.confirm(
+      `Undo "${entry.summary}" on ${entry.namespaceId}?\n\nThis will ${parts.join(' and ')}, overwriting any changes made to them since ${formatTime(entry.timestamp)}.`
+    );
+    if (!confirmed) return;
+
+    setUndoingId(entry.id);
+    try {
+      const updated = await window.electronAPI.undoWriteJournalEntry(connectionId, entry.id);
+      setEntries(current => current.map(candidate => (candidate.id === updated.id ? updated : candidate)));
+      useDocumentsStore.getState().clearCache();
+      toast({
+        title: 'Write undone',
+        description: `Restored ${(updated.rowsRestored ?? 0).toLocaleString()} documents in ${entry.namespaceId}`,
+      });
+    } catch (err) {
+      toast({
+        title: 'Undo failed',
+        description: err instanceof Error ? err.message : 'Unknown error occurred',
+        variant: 'destructive',
+      });
+    } finally {
+      setUndoingId(null);
+    }
+  };
+
+  const handleClear = async () => {
+    if (!connectionId) return;
+    if (!window.confirm('Clear the write history? Writes in it can no longer be undone.')) return;
+    try {
+      await window.electronAPI.clearWriteJournal(connectionId);
+      setEntries([]);
+    } catch (err) {
+      toast({
+        title: 'Failed to clear history',
+        description: err instanceof Error ? err.message : 'Unknown error occurred',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-tp-bg">
+      {/* Header */}
+      <div className="px-3 py-2 border-b border-tp-border-subtle bg-tp-surface flex items-center justify-between">
+        <div>
+          <h1 className="text-sm font-bold uppercase tracking-wider text-tp-text">write history</h1>
+          <p className="text-xs text-tp-text-muted mt-0.5">
+            <span className="font-mono text-tp-accent">{connection?.name ?? connectionId}</span>
+          </p>
+        </div>
+        <div className="flex items-center gap-1.5">
+          <Button variant="ghost" size="sm" onClick={loadEntries} disabled={loading}>
+            <RefreshCw className={`h-3 w-3 mr-1 ${loading ? 'animate-spin' : ''}`} />
+            refresh
+          </Button>
+          <Button variant="ghost" size="sm" onClick={handleClear} disabled={entries.length === 0 || !!undoingId}>
+            <Trash2 className="h-3 w-3 mr-1" />
+            clear
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto px-3 py-3">
+        <Card className="border-tp-border-subtle bg-tp-surface">
+          <CardHeader>
+            <CardTitle className="text-sm uppercase tracking-wider">journal</CardTitle>
+            <CardDescription className="text-[11px] text-tp-text-muted">
+              stored locally • documents are saved before each write • {entries.length} writes
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {entries.length === 0 ? (
+              <div className="text-center py-8 text-tp-text-muted">
+                <History className="h-6 w-6 mx-auto mb-2 text-tp-text-faint" />
+                <p className="text-xs">no writes yet • deletes and edits made here will show up for undo</p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-[11px]">time</TableHead>
+                    <TableHead className="text-[11px]">namespace</TableHead>
+                    <TableHead className="text-[11px]">write</TableHead>
+                    <TableHead className="text-[11px] text-right">saved</TableHead>
+                    <TableHead className="text-[11px] text-right">affected</TableHead>
+                    <TableHead className="text-[11px]">status</TableHead>
+                    <TableHead className="text-[11px] w-20" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.map(entry => (
+                    <TableRow key={entry.id}>
+                      <TableCell className="text-[11px] whitespace-nowrap">{formatTime(entry.timestamp)}</TableCell>
+                      <TableCell className="text-[11px] font-mono text-tp-accent">{entry.namespaceId}</TableCell>
+                      <TableCell className="text-[11px]">
+                        <span>{entry.summary}</span>
+                        {entry.filter && (
+                          <Badge variant="outline" className="ml-1.5 text-[10px]" title={JSON.stringify(entry.filter)}>
+                            filtered
+                          </Badge>
+                        )}
+                        {entry.error && <p className="text-[10px] text-tp-danger truncate max-w-[360px]" title={entry.error}>{entry.error}</p>}
+                      </TableCell>
+                      <TableCell className="text-[11px] text-right font-mono">{entry.capturedRows.toLocaleString()}</TableCell>
+                      <TableCell className="text-[11px] text-right font-mono">
+                        {entry.rowsAffected?.toLocaleString() ?? '—'}
+                      </TableCell>
+                      <TableCell className="text-[11px]">
+                        <Badge
+                          variant="outline"
+                          className={`text-[10px] ${statusClassName[entry.status]}`}
+                          title={entry.undoneAt ? `undone ${formatTime(entry.undoneAt)}` : undefined}
+                        >
+                          {entry.status}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 text-[11px]"
+                          onClick={() => handleUndo(entry)}
+                          disabled={entry.status !== 'applied' || !!undoingId || !!connection?.isReadOnly}
+                          title={connection?.isReadOnly ? 'Read-only connection: write operations disabled' : undefined}
+                        >
+                          <Undo2 className={`h-3 w-3 mr-1 ${undoingId === entry.id ? 'animate-spin' : ''}`} />
+                          undo
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
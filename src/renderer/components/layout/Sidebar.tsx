@@ -15,6 +15,8 @@ import {
   Settings,
   ChevronRight,
   ChevronLeft,
+  Target,
+  History,
 } from "lucide-react";
 
 interface SidebarItem {
@@ -51,6 +53,21 @@ const sidebarGroups: SidebarGroup[] = [
         requiresConnection: true,
         requiresNamespace: true,
       },
+      {
+        key: "recall",
+        label: "Recall",
+        path: "/recall",
+        icon: <Target className="h-4 w-4" />,
+        requiresConnection: true,
+        requiresNamespace: true,
+      },
+      {
+        key: "history",
+        label: "History",
+        path: "/history",
+        icon: <History className="h-4 w-4" />,
+        requiresConnection: true,
+      },
     ],
   },
 ];
@@ -427,6 +444,10 @@ function MainNavigation({ isCollapsed }: { isCollapsed: boolean }) {
       navigate(`/connections/${connectionId}/namespaces/${namespaceId}/documents`);
     } else if (item.key === "schema" && connectionId && namespaceId) {
       navigate(`/connections/${connectionId}/namespaces/${namespaceId}/schema`);
+    } else if (item.key === "recall" && connectionId && namespaceId) {
+      navigate(`/connections/${connectionId}/namespaces/${namespaceId}/recall`);
+    } else if (item.key === "history" && connectionId) {
+      navigate(`/connections/${connectionId}/history`);
     } else {
       navigate(item.path);
     }
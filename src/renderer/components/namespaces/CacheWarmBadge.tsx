@@ -0,0 +1,49 @@
+import React from 'react';
+import { AlertTriangle, Clock, Flame, Loader2, XCircle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useCacheStore } from '../../stores/cacheStore';
+import { cacheTimelineKey } from '../../utils/cacheTimeline';
+import type { CacheWarmState } from '../../../types/cache';
+
+const STATE_LABELS: Record<CacheWarmState, string> = {
+  queued: 'queued',
+  warming: 'warming',
+  verifying: 'verifying',
+  warm: 'warm',
+  unverified: 'unverified',
+  failed: 'failed',
+};
+
+interface CacheWarmBadgeProps {
+  connectionId: string;
+  namespaceId: string;
+  className?: string;
+}
+
+export function CacheWarmBadge({ connectionId, namespaceId, className }: CacheWarmBadgeProps) {
+  const status = useCacheStore((state) => state.warmStatus.get(cacheTimelineKey(connectionId, namespaceId)));
+
+  if (!status) return null;
+
+  const title = [
+    `cache ${STATE_LABELS[status.state]}`,
+    status.temperature && `last probe: ${status.temperature}`,
+    status.message,
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <span
+      className={cn('inline-flex items-center gap-1 text-[10px] font-sans font-normal', className)}
+      title={title}
+    >
+      {status.state === 'queued' && <Clock className="h-3 w-3 text-tp-text-faint" />}
+      {(status.state === 'warming' || status.state === 'verifying') && (
+        <Loader2 className="h-3 w-3 animate-spin text-tp-text-muted" />
+      )}
+      {status.state === 'warm' && <Flame className="h-3 w-3 text-orange-500" />}
+      {status.state === 'unverified' && <AlertTriangle className="h-3 w-3 text-yellow-500" />}
+      {status.state === 'failed' && <XCircle className="h-3 w-3 text-tp-danger" />}
+      <span className="text-tp-text-muted">{STATE_LABELS[status.state]}</span>
+    </span>
+  );
+}
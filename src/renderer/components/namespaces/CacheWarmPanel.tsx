@@ -0,0 +1,128 @@
+import React, { useEffect } from 'react';
+import { Flame, RotateCcw, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useCacheStore } from '../../stores/cacheStore';
+import { cacheTimelineKey, isWarmStateFinal } from '../../utils/cacheTimeline';
+import { CacheWarmBadge } from './CacheWarmBadge';
+
+interface CacheWarmPanelProps {
+  connectionId: string;
+}
+
+/**
+ * Selection bar and results for warming several namespaces in one batch.
+ */
+export function CacheWarmPanel({ connectionId }: CacheWarmPanelProps) {
+  const {
+    warmSelection,
+    warmStatus,
+    lastWarmBatch,
+    isWarming,
+    warmNamespaces,
+    clearWarmSelection,
+    dismissWarmBatch,
+  } = useCacheStore();
+
+  // Selections are namespace ids, so they don't carry over between connections
+  useEffect(() => {
+    clearWarmSelection();
+  }, [connectionId, clearWarmSelection]);
+
+  const batch = lastWarmBatch?.connectionId === connectionId ? lastWarmBatch : null;
+  const statuses = (batch?.namespaceIds ?? []).map(id => ({
+    id,
+    status: warmStatus.get(cacheTimelineKey(connectionId, id)),
+  }));
+  const done = statuses.filter(({ status }) => status && isWarmStateFinal(status.state)).length;
+  const counts = {
+    warm: statuses.filter(({ status }) => status?.state === 'warm').length,
+    unverified: statuses.filter(({ status }) => status?.state === 'unverified').length,
+    failed: statuses.filter(({ status }) => status?.state === 'failed').length,
+  };
+  const retryIds = statuses
+    .filter(({ status }) => status?.state === 'unverified' || status?.state === 'failed')
+    .map(({ id }) => id);
+
+  const handleWarmSelected = async () => {
+    const ids = Array.from(warmSelection);
+    clearWarmSelection();
+    await warmNamespaces(connectionId, ids);
+  };
+
+  if (warmSelection.size === 0 && !batch) return null;
+
+  return (
+    <div className="border border-tp-border-subtle bg-tp-surface">
+      {warmSelection.size > 0 && (
+        <div className="flex items-center gap-2 px-3 py-2 border-b border-tp-border-subtle last:border-b-0">
+          <span className="text-[11px] font-mono text-tp-text-muted">
+            {warmSelection.size} selected
+          </span>
+          <div className="flex-1" />
+          <Button size="sm" className="h-6 text-xs" onClick={handleWarmSelected} disabled={isWarming}>
+            <Flame className="h-3 w-3 mr-1.5" />
+            warm cache
+          </Button>
+          <Button variant="ghost" size="sm" className="h-6 text-xs" onClick={clearWarmSelection}>
+            clear
+          </Button>
+        </div>
+      )}
+
+      {batch && (
+        <div className="px-3 py-2 space-y-2">
+          <div className="flex items-center gap-2">
+            <span className="text-xs font-bold uppercase tracking-wider text-tp-text">cache warm-up</span>
+            <span className="text-[11px] font-mono text-tp-text-muted">
+              {batch.finishedAt
+                ? `${counts.warm} warm · ${counts.unverified} unverified · ${counts.failed} failed`
+                : `${done}/${batch.namespaceIds.length} done`}
+            </span>
+            <div className="flex-1" />
+            {batch.finishedAt && retryIds.length > 0 && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-6 text-xs"
+                onClick={() => warmNamespaces(connectionId, retryIds)}
+                disabled={isWarming}
+              >
+                <RotateCcw className="h-3 w-3 mr-1.5" />
+                retry {retryIds.length}
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0"
+              onClick={dismissWarmBatch}
+              disabled={!batch.finishedAt}
+              title="dismiss"
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+
+          <div className="max-h-40 overflow-auto space-y-1">
+            {statuses.map(({ id, status }) => (
+              <div key={id} className="flex items-center gap-3 text-[11px]">
+                <span className="font-mono text-tp-text truncate flex-1">{id}</span>
+                {status?.message && isWarmStateFinal(status.state) && status.state !== 'warm' && (
+                  <span className="text-tp-text-muted truncate max-w-[50%]" title={status.message}>
+                    {status.message}
+                  </span>
+                )}
+                {status?.finishedAt && (
+                  <span className="font-mono text-tp-text-faint tabular-nums">
+                    {((status.finishedAt - status.startedAt) / 1000).toFixed(1)}s
+                  </span>
+                )}
+                <CacheWarmBadge connectionId={connectionId} namespaceId={id} />
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { AlertCircle, Folder, RefreshCw } from 'lucide-react';
+import { NAMESPACE_ID_RULES, validateNamespaceId } from '../../utils/namespaceValidation';
 
 interface CreateNamespaceDialogProps {
   isOpen: boolean;
@@ -24,14 +25,9 @@ export function CreateNamespaceDialog({
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!namespaceId.trim()) {
-      setError('Namespace ID is required');
-      return;
-    }
-
-    const validNamespaceRegex = /^[A-Za-z0-9-_.]{1,128}$/;
-    if (!validNamespaceRegex.test(namespaceId)) {
-      setError('Namespace ID can only contain ASCII alphanumeric characters, hyphens, underscores, and periods (max 128 characters)');
+    const validationError = validateNamespaceId(namespaceId);
+    if (validationError) {
+      setError(validationError);
       return;
     }
 
@@ -89,7 +85,7 @@ export function CreateNamespaceDialog({
               disabled={isCreating}
             />
             <p className="text-xs text-muted-foreground">
-              Can only contain ASCII alphanumeric characters, hyphens, underscores, and periods (max 128 characters)
+              {NAMESPACE_ID_RULES}
             </p>
           </div>
 
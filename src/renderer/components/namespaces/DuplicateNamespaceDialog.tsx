@@ -0,0 +1,131 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useNamespacesStore } from '../../stores/namespacesStore';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle, RefreshCw } from 'lucide-react';
+import { NAMESPACE_ID_RULES, suggestCopyName, validateNamespaceId } from '../../utils/namespaceValidation';
+
+interface DuplicateNamespaceDialogProps {
+  connectionId: string;
+}
+
+/**
+ * Copies the namespace in `duplicateDialogNamespace` server-side with
+ * `copy_from_namespace`, then opens the copy.
+ */
+export function DuplicateNamespaceDialog({ connectionId }: DuplicateNamespaceDialogProps) {
+  const navigate = useNavigate();
+  const {
+    namespaces,
+    duplicateDialogNamespace,
+    setDuplicateDialogNamespace,
+    duplicateNamespace,
+    addRecentNamespace,
+  } = useNamespacesStore();
+
+  const [targetId, setTargetId] = useState('');
+  const [isCopying, setIsCopying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const existingIds = useMemo(() => namespaces.map(ns => ns.id), [namespaces]);
+
+  useEffect(() => {
+    if (duplicateDialogNamespace) {
+      setTargetId(suggestCopyName(duplicateDialogNamespace, existingIds));
+      setError(null);
+    }
+    // Only suggest a name when the dialog opens
+  }, [duplicateDialogNamespace]);
+
+  const handleClose = () => {
+    if (!isCopying) {
+      setDuplicateDialogNamespace(null);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!duplicateDialogNamespace) return;
+
+    const validationError = validateNamespaceId(targetId, existingIds);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setIsCopying(true);
+    setError(null);
+
+    try {
+      await duplicateNamespace(duplicateDialogNamespace, targetId);
+      addRecentNamespace(connectionId, { id: targetId });
+      navigate(`/connections/${connectionId}/namespaces/${targetId}/documents`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to duplicate namespace');
+    } finally {
+      setIsCopying(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!duplicateDialogNamespace} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="bg-tp-surface border-tp-border-strong">
+        <DialogHeader>
+          <DialogTitle className="text-sm uppercase tracking-wider">duplicate namespace</DialogTitle>
+          <DialogDescription className="text-xs text-tp-text-muted">
+            copy all documents and the schema of <span className="font-mono font-semibold text-tp-accent">{duplicateDialogNamespace}</span> into a new namespace
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <div className="space-y-1.5">
+            <Label htmlFor="duplicate-namespace-id" className="text-xs">new namespace</Label>
+            <Input
+              id="duplicate-namespace-id"
+              value={targetId}
+              onChange={(e) => {
+                setTargetId(e.target.value);
+                setError(null);
+              }}
+              disabled={isCopying}
+              className="font-mono text-sm"
+              autoFocus
+            />
+            <p className="text-[11px] text-tp-text-muted">{NAMESPACE_ID_RULES}</p>
+          </div>
+
+          {error && (
+            <Alert variant="destructive" className="bg-tp-danger/10 border-tp-danger/30">
+              <AlertCircle className="h-3 w-3" />
+              <AlertDescription className="text-[11px]">{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <p className="text-[11px] text-tp-text-muted">
+            the copy runs on the server and is billed as a write; large namespaces can take a while
+          </p>
+
+          <DialogFooter className="gap-2">
+            <Button type="button" variant="outline" size="sm" onClick={handleClose} disabled={isCopying}>
+              cancel
+            </Button>
+            <Button type="submit" size="sm" disabled={!targetId.trim() || isCopying}>
+              {isCopying ? (
+                <>
+                  <RefreshCw className="h-3 w-3 mr-1.5 animate-spin" />
+                  copying
+                </>
+              ) : (
+                'duplicate'
+              )}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,448 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useNamespacesStore } from '../../stores/namespacesStore';
+import { useConnections } from '../../contexts/ConnectionContext';
+import { namespaceService } from '../../services/namespaceService';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertCircle, CheckCircle, Loader2, XCircle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { validateNamespaceId } from '../../utils/namespaceValidation';
+import type { Filter } from '../../../types/document';
+import type { MigrationAttributeMapping, MigrationJobOptions, MigrationProgress } from '../../../types/migration';
+
+type Step = 'target' | 'options' | 'run';
+
+const AUTO_METRIC = 'auto';
+
+interface AttributeRow {
+  name: string;
+  type?: string;
+  include: boolean;
+  target: string;
+}
+
+const PHASE_LABELS: Record<MigrationProgress['phase'], string> = {
+  schema: 'reading schema',
+  copying: 'copying documents',
+  verifying: 'verifying target',
+  done: 'done',
+};
+
+interface MigrateNamespaceDialogProps {
+  connectionId: string;
+}
+
+/**
+ * Wizard that copies the namespace in `migrateDialogNamespace` to another
+ * saved connection. The copy itself runs in the main process.
+ */
+export function MigrateNamespaceDialog({ connectionId }: MigrateNamespaceDialogProps) {
+  const { toast } = useToast();
+  const { connections } = useConnections();
+  const { migrateDialogNamespace: sourceNamespaceId, setMigrateDialogNamespace } = useNamespacesStore();
+
+  const [step, setStep] = useState<Step>('target');
+  const [targetConnectionId, setTargetConnectionId] = useState('');
+  const [targetNamespaceId, setTargetNamespaceId] = useState('');
+  const [attributes, setAttributes] = useState<AttributeRow[]>([]);
+  const [loadingSchema, setLoadingSchema] = useState(false);
+  const [filterText, setFilterText] = useState('');
+  const [applySchema, setApplySchema] = useState(true);
+  const [distanceMetric, setDistanceMetric] = useState(AUTO_METRIC);
+  const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<MigrationProgress | null>(null);
+  const [starting, setStarting] = useState(false);
+  const jobIdRef = useRef<string | null>(null);
+  const latestProgressRef = useRef(new Map<string, MigrationProgress>());
+
+  const targetConnections = connections.filter(connection => !connection.isReadOnly);
+  const running = starting || (step === 'run' && (!progress || progress.status === 'running'));
+
+  useEffect(() => {
+    return window.electronAPI.onMigrationProgress((update) => {
+      // A failed start can report before startMigration resolves with the job id
+      latestProgressRef.current.set(update.jobId, update);
+      if (update.jobId === jobIdRef.current) {
+        setProgress(update);
+      }
+    });
+  }, []);
+
+  // Reset the wizard whenever it opens for a namespace
+  useEffect(() => {
+    if (!sourceNamespaceId) return;
+    setStep('target');
+    setTargetConnectionId(targetConnections.find(connection => connection.id !== connectionId)?.id ?? '');
+    setTargetNamespaceId(sourceNamespaceId);
+    setFilterText('');
+    setApplySchema(true);
+    setDistanceMetric(AUTO_METRIC);
+    setError(null);
+    setProgress(null);
+    jobIdRef.current = null;
+
+    let cancelled = false;
+    setLoadingSchema(true);
+    namespaceService.getNamespaceSchema(sourceNamespaceId)
+      .then((schema) => {
+        if (cancelled) return;
+        setAttributes(Object.entries(schema)
+          .filter(([name]) => name !== 'id')
+          .map(([name, config]) => ({
+            name,
+            type: typeof config === 'string' ? config : (config as { type?: string })?.type,
+            include: true,
+            target: name,
+          })));
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load source schema');
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingSchema(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+    // Connections are only read to pick a default target
+  }, [sourceNamespaceId]);
+
+  const handleClose = () => {
+    if (!running) {
+      setMigrateDialogNamespace(null);
+    }
+  };
+
+  const parseFilter = (): Filter | null => {
+    if (!filterText.trim()) return null;
+    const parsed = JSON.parse(filterText);
+    if (!Array.isArray(parsed)) {
+      throw new Error('Filter must be a JSON array, e.g. ["status", "Eq", "active"]');
+    }
+    return parsed as Filter;
+  };
+
+  const handleNext = () => {
+    if (!targetConnectionId) {
+      setError('Choose a target connection');
+      return;
+    }
+    const validationError = validateNamespaceId(targetNamespaceId);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    if (targetConnectionId === connectionId && targetNamespaceId === sourceNamespaceId) {
+      setError('The target must be a different namespace or connection');
+      return;
+    }
+    setError(null);
+    setStep('options');
+  };
+
+  const handleStart = async () => {
+    if (!sourceNamespaceId) return;
+
+    let filters: Filter | null;
+    try {
+      filters = parseFilter();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid filter JSON');
+      return;
+    }
+
+    const mappings: MigrationAttributeMapping[] = attributes
+      .filter(attribute => !attribute.include || attribute.target.trim() !== attribute.name)
+      .map(attribute => ({
+        source: attribute.name,
+        target: attribute.include ? attribute.target.trim() || attribute.name : null,
+      }));
+
+    const options: MigrationJobOptions = {
+      sourceConnectionId: connectionId,
+      sourceNamespaceId,
+      targetConnectionId,
+      targetNamespaceId,
+      filters,
+      attributes: mappings,
+      applySchema,
+      distanceMetric: distanceMetric === AUTO_METRIC
+        ? undefined
+        : distanceMetric as MigrationJobOptions['distanceMetric'],
+    };
+
+    setError(null);
+    setStarting(true);
+    try {
+      const jobId = await window.electronAPI.startMigration(options);
+      jobIdRef.current = jobId;
+      setStep('run');
+      setProgress(latestProgressRef.current.get(jobId) ?? null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start migration');
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (jobIdRef.current) {
+      await window.electronAPI.cancelMigration(jobIdRef.current);
+    }
+  };
+
+  useEffect(() => {
+    if (!progress || progress.status === 'running') return;
+    if (progress.status === 'completed') {
+      const verified = progress.verification?.countsMatch && progress.verification?.checksumsMatch;
+      toast({
+        title: verified ? 'migration verified' : 'migration finished with differences',
+        description: `${progress.rowsWritten.toLocaleString()} documents copied to ${targetNamespaceId}`,
+        variant: verified ? 'default' : 'destructive',
+      });
+    } else if (progress.status === 'failed') {
+      toast({
+        title: 'migration failed',
+        description: progress.error || 'Unknown error',
+        variant: 'destructive',
+      });
+    }
+    // Only announce status changes
+  }, [progress?.status]);
+
+  const updateAttribute = (name: string, update: Partial<AttributeRow>) => {
+    setAttributes(current => current.map(attribute =>
+      attribute.name === name ? { ...attribute, ...update } : attribute
+    ));
+  };
+
+  const targetConnection = connections.find(connection => connection.id === targetConnectionId);
+  const percent = progress && progress.totalRows > 0
+    ? Math.min(100, ((progress.phase === 'verifying' || progress.phase === 'done'
+      ? progress.rowsVerified
+      : progress.rowsRead) / progress.totalRows) * 100)
+    : 0;
+  const verification = progress?.verification;
+
+  return (
+    <Dialog open={!!sourceNamespaceId} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="bg-tp-surface border-tp-border-strong max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="text-sm uppercase tracking-wider">migrate namespace</DialogTitle>
+          <DialogDescription className="text-xs text-tp-text-muted">
+            copy <span className="font-mono font-semibold text-tp-accent">{sourceNamespaceId}</span> to another connection or region
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'target' && (
+          <div className="space-y-3">
+            <div className="space-y-1.5">
+              <Label className="text-xs">target connection</Label>
+              <Select value={targetConnectionId} onValueChange={setTargetConnectionId}>
+                <SelectTrigger className="h-8 text-sm">
+                  <SelectValue placeholder="choose a connection" />
+                </SelectTrigger>
+                <SelectContent>
+                  {targetConnections.map(connection => (
+                    <SelectItem key={connection.id} value={connection.id}>
+                      {connection.name} <span className="text-tp-text-muted">({connection.region.id})</span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-[11px] text-tp-text-muted">read-only connections can't be migration targets</p>
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="migration-target-namespace" className="text-xs">target namespace</Label>
+              <Input
+                id="migration-target-namespace"
+                value={targetNamespaceId}
+                onChange={(e) => setTargetNamespaceId(e.target.value)}
+                className="font-mono text-sm"
+              />
+              <p className="text-[11px] text-tp-text-muted">must not exist yet or be empty</p>
+            </div>
+          </div>
+        )}
+
+        {step === 'options' && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <div>
+                <Label className="text-xs">apply source schema</Label>
+                <p className="text-[11px] text-tp-text-muted">sent with the first write, with renames and drops applied</p>
+              </div>
+              <Switch checked={applySchema} onCheckedChange={setApplySchema} />
+            </div>
+
+            <div className="space-y-1.5">
+              <Label className="text-xs">distance metric</Label>
+              <Select value={distanceMetric} onValueChange={setDistanceMetric}>
+                <SelectTrigger className="h-8 text-sm w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={AUTO_METRIC}>from source schema</SelectItem>
+                  <SelectItem value="cosine_distance">cosine_distance</SelectItem>
+                  <SelectItem value="euclidean_squared">euclidean_squared</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-1.5">
+              <Label htmlFor="migration-filter" className="text-xs">filter (optional)</Label>
+              <Textarea
+                id="migration-filter"
+                value={filterText}
+                onChange={(e) => setFilterText(e.target.value)}
+                placeholder='["status", "Eq", "active"]'
+                className="font-mono text-xs h-16"
+              />
+            </div>
+
+            <div className="space-y-1.5">
+              <Label className="text-xs">attributes</Label>
+              {loadingSchema ? (
+                <div className="flex items-center gap-2 text-[11px] text-tp-text-muted">
+                  <Loader2 className="h-3 w-3 animate-spin" />
+                  loading schema
+                </div>
+              ) : (
+                <div className="max-h-48 overflow-auto border border-tp-border-subtle divide-y divide-tp-border-subtle">
+                  {attributes.map(attribute => (
+                    <div key={attribute.name} className="flex items-center gap-2 px-2 py-1">
+                      <Checkbox
+                        checked={attribute.include}
+                        onCheckedChange={(checked) => updateAttribute(attribute.name, { include: checked === true })}
+                        aria-label={`Copy ${attribute.name}`}
+                        className="h-3.5 w-3.5"
+                      />
+                      <span className="font-mono text-xs flex-1 truncate">{attribute.name}</span>
+                      {attribute.type && (
+                        <span className="text-[10px] text-tp-text-muted font-mono">{attribute.type}</span>
+                      )}
+                      <Input
+                        value={attribute.target}
+                        onChange={(e) => updateAttribute(attribute.name, { target: e.target.value })}
+                        disabled={!attribute.include}
+                        className="h-6 w-40 font-mono text-xs"
+                        aria-label={`Rename ${attribute.name}`}
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {step === 'run' && (
+          <div className="space-y-3">
+            <div className="text-[11px] text-tp-text-muted">
+              {connections.find(connection => connection.id === connectionId)?.name} / <span className="font-mono">{sourceNamespaceId}</span>
+              {' → '}
+              {targetConnection?.name} / <span className="font-mono">{targetNamespaceId}</span>
+            </div>
+
+            <div className="space-y-1">
+              <div className="flex items-center justify-between text-[11px]">
+                <span className="uppercase tracking-wider font-bold">
+                  {progress ? PHASE_LABELS[progress.phase] : 'starting'}
+                </span>
+                {progress && (
+                  <span className="font-mono text-tp-text-muted">
+                    {progress.rowsWritten.toLocaleString()} / {progress.totalRows.toLocaleString()} written
+                    {progress.rowsFailed > 0 && `, ${progress.rowsFailed.toLocaleString()} failed`}
+                  </span>
+                )}
+              </div>
+              <Progress value={percent} className="h-1.5" />
+            </div>
+
+            {progress?.status === 'canceled' && (
+              <p className="text-[11px] text-tp-text-muted">canceled; documents already written stay in the target</p>
+            )}
+
+            {verification && (
+              <div className="border border-tp-border-subtle p-2 space-y-1 text-[11px]">
+                <div className="flex items-center gap-2">
+                  {verification.countsMatch
+                    ? <CheckCircle className="h-3 w-3 text-green-500" />
+                    : <XCircle className="h-3 w-3 text-tp-danger" />}
+                  <span>row count</span>
+                  <span className="font-mono text-tp-text-muted">
+                    source {verification.sourceRows.toLocaleString()} · target {verification.targetRows.toLocaleString()}
+                  </span>
+                </div>
+                <div className="flex items-center gap-2">
+                  {verification.checksumsMatch
+                    ? <CheckCircle className="h-3 w-3 text-green-500" />
+                    : <XCircle className="h-3 w-3 text-tp-danger" />}
+                  <span>checksum</span>
+                  <Badge variant="outline" className="h-4 px-1 text-[9px] font-mono" title={verification.sourceChecksum}>
+                    {verification.sourceChecksum.slice(0, 12)}
+                  </Badge>
+                  <Badge variant="outline" className="h-4 px-1 text-[9px] font-mono" title={verification.targetChecksum}>
+                    {verification.targetChecksum.slice(0, 12)}
+                  </Badge>
+                </div>
+              </div>
+            )}
+
+            {progress && progress.errors.length > 0 && (
+              <div className="max-h-32 overflow-auto text-[11px] font-mono space-y-0.5">
+                {progress.errors.slice(0, 50).map((rowError, i) => (
+                  <div key={i} className="text-tp-danger truncate" title={rowError.error}>
+                    {String(rowError.id)}: {rowError.error}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {(error || progress?.error) && (
+          <Alert variant="destructive" className="bg-tp-danger/10 border-tp-danger/30">
+            <AlertCircle className="h-3 w-3" />
+            <AlertDescription className="text-[11px]">{error ?? progress?.error}</AlertDescription>
+          </Alert>
+        )}
+
+        <DialogFooter className="gap-2">
+          {step === 'target' && (
+            <>
+              <Button variant="outline" size="sm" onClick={handleClose}>cancel</Button>
+              <Button size="sm" onClick={handleNext} disabled={targetConnections.length === 0}>next</Button>
+            </>
+          )}
+          {step === 'options' && (
+            <>
+              <Button variant="outline" size="sm" onClick={() => setStep('target')} disabled={starting}>back</Button>
+              <Button size="sm" onClick={handleStart} disabled={starting || loadingSchema}>
+                {starting && <Loader2 className="h-3 w-3 mr-1.5 animate-spin" />}
+                start migration
+              </Button>
+            </>
+          )}
+          {step === 'run' && (
+            running ? (
+              <Button variant="outline" size="sm" onClick={handleCancel}>cancel migration</Button>
+            ) : (
+              <Button size="sm" onClick={handleClose}>close</Button>
+            )
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,6 +1,7 @@
 import React, { useRef, useCallback } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import { useNamespacesStore } from '../../stores/namespacesStore';
+import { useCacheStore } from '../../stores/cacheStore';
 import type { Namespace } from '../../../types/namespace';
 import {
   Table,
@@ -14,16 +15,23 @@ import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger, DropdownMenuSeparator } from '@/components/ui/dropdown-menu';
 import { Skeleton } from '@/components/ui/skeleton';
+import { Checkbox } from '@/components/ui/checkbox';
 import {
   MoreHorizontal,
   Trash2,
   ArrowRight,
   RefreshCw,
   Copy,
+  CopyPlus,
+  Flame,
+  Send,
   FolderOpen
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { formatBytes, formatNumber, formatDate } from '../../utils/formatBytes';
+import { CacheWarmBadge } from './CacheWarmBadge';
+import { DuplicateNamespaceDialog } from './DuplicateNamespaceDialog';
+import { MigrateNamespaceDialog } from './MigrateNamespaceDialog';
 
 interface NamespaceListProps {
   namespaces: Namespace[];
@@ -40,6 +48,8 @@ export function NamespaceList({ namespaces, isRefreshing, intendedDestination }:
     deletingNamespace,
     deleteDialogNamespace,
     setDeleteDialogNamespace,
+    setDuplicateDialogNamespace,
+    setMigrateDialogNamespace,
     deleteNamespace,
     addRecentNamespace,
     fetchMetadataForNamespace,
@@ -47,6 +57,16 @@ export function NamespaceList({ namespaces, isRefreshing, intendedDestination }:
     isMetadataLoading,
   } = useNamespacesStore();
 
+  const {
+    warmSelection,
+    isWarming,
+    warmNamespaces,
+    toggleWarmSelection,
+    setWarmSelection,
+    clearWarmSelection,
+  } = useCacheStore();
+  const allSelected = namespaces.length > 0 && namespaces.every(namespace => warmSelection.has(namespace.id));
+
   // Debounced metadata fetch on hover (200ms delay to avoid scroll jank)
   const hoverTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
@@ -88,6 +108,11 @@ export function NamespaceList({ namespaces, isRefreshing, intendedDestination }:
     }
   };
 
+  const handleWarmCache = (namespaceId: string) => {
+    if (!connectionId) return;
+    warmNamespaces(connectionId, [namespaceId]);
+  };
+
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
   };
@@ -98,7 +123,16 @@ export function NamespaceList({ namespaces, isRefreshing, intendedDestination }:
         <Table>
           <TableHeader className="bg-tp-surface sticky top-0 z-10">
             <TableRow className="border-b border-tp-border-subtle hover:bg-transparent">
-              <TableHead className="h-9 px-4 w-[24px]"></TableHead>
+              <TableHead className="h-9 px-4 w-[24px]">
+                <Checkbox
+                  checked={allSelected}
+                  onCheckedChange={(checked) => checked
+                    ? setWarmSelection(namespaces.map(namespace => namespace.id))
+                    : clearWarmSelection()}
+                  aria-label="Select all namespaces"
+                  className="h-3.5 w-3.5"
+                />
+              </TableHead>
               <TableHead className="h-9 px-4 text-xs font-bold uppercase tracking-widest text-tp-text-muted">namespace</TableHead>
               <TableHead className="h-9 px-4 text-xs font-bold uppercase tracking-widest text-tp-text-muted text-right w-[100px]">rows</TableHead>
               <TableHead className="h-9 px-4 text-xs font-bold uppercase tracking-widest text-tp-text-muted text-right w-[100px]">size</TableHead>
@@ -117,20 +151,38 @@ export function NamespaceList({ namespaces, isRefreshing, intendedDestination }:
               namespaces.map((namespace) => {
                 const metadata = getNamespaceMetadata(namespace.id);
                 const isLoading = isMetadataLoading(namespace.id);
+                const isSelected = warmSelection.has(namespace.id);
 
                 return (
                   <TableRow
                     key={namespace.id}
-                    className="cursor-pointer hover:bg-tp-surface-alt/80 border-b border-tp-border-subtle/50 h-12 transition-colors"
+                    className="group cursor-pointer hover:bg-tp-surface-alt/80 border-b border-tp-border-subtle/50 h-12 transition-colors"
                     onClick={() => handleNamespaceClick(namespace)}
                     onMouseEnter={() => handleRowHover(namespace.id)}
                     onMouseLeave={handleRowLeave}
                   >
-                    <TableCell className="py-3 px-4">
-                      <FolderOpen className="h-3.5 w-3.5 text-tp-accent/70 flex-shrink-0" />
+                    <TableCell className="py-3 px-4" onClick={(e) => e.stopPropagation()}>
+                      <FolderOpen className={cn(
+                        "h-3.5 w-3.5 text-tp-accent/70 flex-shrink-0",
+                        (isSelected || warmSelection.size > 0) ? "hidden" : "group-hover:hidden"
+                      )} />
+                      <Checkbox
+                        checked={isSelected}
+                        onCheckedChange={() => toggleWarmSelection(namespace.id)}
+                        aria-label={`Select ${namespace.id}`}
+                        className={cn(
+                          "h-3.5 w-3.5",
+                          (isSelected || warmSelection.size > 0) ? "flex" : "hidden group-hover:flex"
+                        )}
+                      />
                     </TableCell>
                     <TableCell className="py-3 px-4 font-mono text-sm text-tp-text font-medium">
-                      {namespace.id}
+                      <div className="flex items-center gap-2">
+                        {namespace.id}
+                        {connectionId && (
+                          <CacheWarmBadge connectionId={connectionId} namespaceId={namespace.id} />
+                        )}
+                      </div>
                     </TableCell>
                     <TableCell className="py-3 px-4 text-right text-xs text-tp-text-muted tabular-nums">
                       {isLoading ? (
@@ -187,6 +239,37 @@ export function NamespaceList({ namespaces, isRefreshing, intendedDestination }:
                           <Copy className="h-3 w-3 mr-1.5" />
                           copy id
                         </DropdownMenuItem>
+                        <DropdownMenuItem
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleWarmCache(namespace.id);
+                          }}
+                          disabled={isWarming}
+                          className="text-sm"
+                        >
+                          <Flame className="h-3 w-3 mr-1.5" />
+                          warm cache
+                        </DropdownMenuItem>
+                        <DropdownMenuItem
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setDuplicateDialogNamespace(namespace.id);
+                          }}
+                          className="text-sm"
+                        >
+                          <CopyPlus className="h-3 w-3 mr-1.5" />
+                          duplicate namespace…
+                        </DropdownMenuItem>
+                        <DropdownMenuItem
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setMigrateDialogNamespace(namespace.id);
+                          }}
+                          className="text-sm"
+                        >
+                          <Send className="h-3 w-3 mr-1.5" />
+                          migrate to connection…
+                        </DropdownMenuItem>
                         <DropdownMenuSeparator className="bg-tp-border-subtle" />
                         <DropdownMenuItem
                           onClick={(e) => {
@@ -215,6 +298,9 @@ export function NamespaceList({ namespaces, isRefreshing, intendedDestination }:
         </div>
       )}
 
+      {connectionId && <DuplicateNamespaceDialog connectionId={connectionId} />}
+      {connectionId && <MigrateNamespaceDialog connectionId={connectionId} />}
+
       <Dialog open={!!deleteDialogNamespace} onOpenChange={(open) => !open && setDeleteDialogNamespace(null)}>
         <DialogContent className="bg-tp-surface border-tp-border-strong">
           <DialogHeader>
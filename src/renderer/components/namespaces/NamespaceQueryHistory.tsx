@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { useParams } from 'react-router-dom';
 import { useConnection } from '../../contexts/ConnectionContext';
 import type { SimpleFilter } from '../../stores/documentsStore';
+import type { FilterNode } from '../../../types/unifiedQuery';
 import { Button } from '../../../components/ui/button';
 import { Clock, Search } from 'lucide-react';
 import { cn } from '../../../lib/utils';
@@ -10,13 +11,14 @@ interface RecentFilterEntry {
   id: string;
   searchText: string;
   filters: SimpleFilter[];
+  groups?: FilterNode[];
   timestamp: number;
   description?: string;
 }
 
 interface NamespaceQueryHistoryProps {
   className?: string;
-  onApplyFilters?: (searchText: string, filters: SimpleFilter[]) => void;
+  onApplyFilters?: (searchText: string, filters: SimpleFilter[], groups: FilterNode[]) => void;
 }
 
 export function NamespaceQueryHistory({ className, onApplyFilters }: NamespaceQueryHistoryProps) {
@@ -48,7 +50,7 @@ export function NamespaceQueryHistory({ className, onApplyFilters }: NamespaceQu
 
   const handleApplyQuery = (entry: RecentFilterEntry) => {
     if (onApplyFilters) {
-      onApplyFilters(entry.searchText, entry.filters);
+      onApplyFilters(entry.searchText, entry.filters, entry.groups ?? []);
     }
   };
 
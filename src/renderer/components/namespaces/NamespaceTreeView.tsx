@@ -1,6 +1,7 @@
 import React, { useMemo, useCallback, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useNamespacesStore } from '../../stores/namespacesStore';
+import { useCacheStore } from '../../stores/cacheStore';
 import type { Namespace } from '../../../types/namespace';
 import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
@@ -17,10 +18,16 @@ import {
   ArrowRight,
   RefreshCw,
   Copy,
+  CopyPlus,
+  Flame,
+  Send,
   Loader2
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { formatBytes, formatNumber, formatDate } from '../../utils/formatBytes';
+import { CacheWarmBadge } from './CacheWarmBadge';
+import { DuplicateNamespaceDialog } from './DuplicateNamespaceDialog';
+import { MigrateNamespaceDialog } from './MigrateNamespaceDialog';
 
 interface NamespaceTreeViewProps {
   namespaces: Namespace[];
@@ -61,6 +68,8 @@ export function NamespaceTreeView({
     removeLoadingFolder,
     loadMoreForPrefix,
     setDeleteDialogNamespace,
+    setDuplicateDialogNamespace,
+    setMigrateDialogNamespace,
     deleteNamespace,
     resetExpandedFolders,
     fetchMetadataForNamespace,
@@ -68,6 +77,8 @@ export function NamespaceTreeView({
     isMetadataLoading,
   } = useNamespacesStore();
 
+  const { isWarming, warmNamespaces } = useCacheStore();
+
   // Debounced metadata fetch on hover (200ms delay to avoid scroll jank)
   const hoverTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
@@ -220,6 +231,14 @@ export function NamespaceTreeView({
     navigator.clipboard.writeText(text);
   };
 
+  // Folders warm every loaded namespace under their prefix
+  const handleWarmCache = (node: TreeNode) => {
+    const namespaceIds = node.isFolder
+      ? namespaces.map(ns => ns.id).filter(id => id.startsWith(`${node.id}${delimiter}`))
+      : [node.id];
+    warmNamespaces(connectionId, namespaceIds);
+  };
+
   const renderTreeNode = (node: TreeNode, level = 0) => {
     const isExpanded = expandedFolders.has(node.id);
     const isLoading = loadingFolders.has(node.id);
@@ -269,6 +288,8 @@ export function NamespaceTreeView({
             {node.name}
           </span>
 
+          {!node.isFolder && <CacheWarmBadge connectionId={connectionId} namespaceId={node.id} />}
+
           {/* Metadata display for leaf nodes */}
           {!node.isFolder && (
             <div className="flex items-center gap-3 text-[10px] text-muted-foreground ml-2">
@@ -322,6 +343,34 @@ export function NamespaceTreeView({
                 <Copy className="h-4 w-4 mr-2" />
                 Copy {node.isFolder ? 'Prefix' : 'ID'}
               </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleWarmCache(node);
+                }}
+                disabled={isWarming}
+              >
+                <Flame className="h-4 w-4 mr-2" />
+                {node.isFolder ? 'Warm All in Folder' : 'Warm Cache'}
+              </DropdownMenuItem>
+              {!node.isFolder && (
+                <DropdownMenuItem onClick={(e) => {
+                  e.stopPropagation();
+                  setDuplicateDialogNamespace(node.id);
+                }}>
+                  <CopyPlus className="h-4 w-4 mr-2" />
+                  Duplicate Namespace…
+                </DropdownMenuItem>
+              )}
+              {!node.isFolder && (
+                <DropdownMenuItem onClick={(e) => {
+                  e.stopPropagation();
+                  setMigrateDialogNamespace(node.id);
+                }}>
+                  <Send className="h-4 w-4 mr-2" />
+                  Migrate to Connection…
+                </DropdownMenuItem>
+              )}
               {!node.isFolder && (
                 <>
                   <DropdownMenuSeparator />
@@ -399,6 +448,9 @@ export function NamespaceTreeView({
         </div>
       )}
 
+      <DuplicateNamespaceDialog connectionId={connectionId} />
+      <MigrateNamespaceDialog connectionId={connectionId} />
+
       <Dialog open={!!deleteDialogNamespace} onOpenChange={(open) => !open && setDeleteDialogNamespace(null)}>
         <DialogContent>
           <DialogHeader>
@@ -4,6 +4,7 @@ import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
 import { useNamespacesStore } from '../../stores/namespacesStore';
 import { NamespaceList } from './NamespaceList';
 import { NamespaceTreeView } from './NamespaceTreeView';
+import { CacheWarmPanel } from './CacheWarmPanel';
 import { CreateNamespaceDialog } from './CreateNamespaceDialog';
 import { PageHeader } from '../layout/PageHeader';
 import { RecentNamespaces } from './RecentNamespaces';
@@ -331,6 +332,8 @@ export function NamespacesPage() {
             </Alert>
           )}
 
+          {connectionId && <CacheWarmPanel connectionId={connectionId} />}
+
           {isLoading && !isRefreshing ? (
             <div className="border border-tp-border-subtle bg-tp-bg">
               {viewMode === 'list' ? (
@@ -0,0 +1,462 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { AlertCircle, Play, RefreshCw, Target, Trash2, TrendingDown } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useConnections } from '@/renderer/contexts/ConnectionContext';
+import { useToast } from '@/hooks/use-toast';
+import { namespaceService } from '@/renderer/services/namespaceService';
+import { buildActiveFilter, useDocumentsStore } from '@/renderer/stores/documentsStore';
+import { computeRecallTrend, formatRecall, isRecallDegrading } from '@/renderer/utils/recallHistory';
+import { ConnectionErrorState, NamespaceNotFoundState } from '../shared/ErrorStates';
+import type { RecallRun } from '@/types/recall';
+
+const MAX_REPEATS = 20;
+
+const clampInt = (value: string, min: number, max: number, fallback: number) => {
+  const number = parseInt(value, 10);
+  return Number.isNaN(number) ? fallback : Math.min(max, Math.max(min, number));
+};
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+export const RecallPage: React.FC = () => {
+  const { connectionId, namespaceId } = useParams<{ connectionId: string; namespaceId: string }>();
+  const { turbopufferClient, clientError, setActiveConnection, activeConnectionId } = useConnections();
+  const { toast } = useToast();
+
+  const [num, setNum] = useState('25');
+  const [topK, setTopK] = useState('10');
+  const [repeats, setRepeats] = useState('1');
+  const [useDocumentFilters, setUseDocumentFilters] = useState(false);
+  const [history, setHistory] = useState<RecallRun[]>([]);
+  const [loadingHistory, setLoadingHistory] = useState(false);
+  const [running, setRunning] = useState(false);
+  const [runProgress, setRunProgress] = useState<{ current: number; total: number } | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+
+  // Filters from the Documents FilterBar apply only when it shows this namespace
+  const storeNamespaceId = useDocumentsStore(state => state.currentNamespaceId);
+  const activeFilters = useDocumentsStore(state => state.activeFilters);
+  const filterGroups = useDocumentsStore(state => state.filterGroups);
+  const searchText = useDocumentsStore(state => state.searchText);
+  const queryMode = useDocumentsStore(state => state.queryMode);
+  const attributes = useDocumentsStore(state => state.attributes);
+  const documentFilter = useMemo(() => {
+    if (storeNamespaceId !== namespaceId) return undefined;
+    return buildActiveFilter({ activeFilters, filterGroups, searchText, queryMode, attributes });
+  }, [storeNamespaceId, namespaceId, activeFilters, filterGroups, searchText, queryMode, attributes]);
+
+  useEffect(() => {
+    if (connectionId && connectionId !== activeConnectionId) {
+      setActiveConnection(connectionId).catch(err => {
+        console.error('Failed to initialize connection:', err);
+      });
+    }
+  }, [connectionId, activeConnectionId, setActiveConnection]);
+
+  const loadHistory = useCallback(async () => {
+    if (!connectionId || !namespaceId) return;
+    setLoadingHistory(true);
+    try {
+      setHistory(await window.electronAPI.loadRecallHistory(connectionId, namespaceId));
+    } catch (err) {
+      console.error('Failed to load recall history:', err);
+    } finally {
+      setLoadingHistory(false);
+    }
+  }, [connectionId, namespaceId]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  useEffect(() => {
+    if (!documentFilter) setUseDocumentFilters(false);
+  }, [documentFilter]);
+
+  const handleRun = async () => {
+    if (!connectionId || !namespaceId || !turbopufferClient) return;
+
+    const params = {
+      num: clampInt(num, 1, 1000, 25),
+      topK: clampInt(topK, 1, 1200, 10),
+      filters: useDocumentFilters && documentFilter ? documentFilter : null,
+    };
+    const total = clampInt(repeats, 1, MAX_REPEATS, 1);
+
+    namespaceService.setClient(turbopufferClient);
+    setRunning(true);
+    setError(null);
+    try {
+      for (let i = 0; i < total; i++) {
+        setRunProgress({ current: i + 1, total });
+        const approxRowCount = await namespaceService.getNamespaceMetadata(namespaceId)
+          .then(metadata => metadata.approx_row_count)
+          .catch(() => undefined);
+
+        const startedAt = Date.now();
+        const result = await namespaceService.evaluateRecall(namespaceId, params);
+        const run: RecallRun = {
+          ...result,
+          id: crypto.randomUUID(),
+          timestamp: Date.now(),
+          num: params.num,
+          topK: params.topK,
+          filters: params.filters,
+          durationMs: Date.now() - startedAt,
+          approxRowCount,
+        };
+        setHistory(await window.electronAPI.addRecallRun(connectionId, namespaceId, run));
+      }
+    } catch (err) {
+      const runError = err instanceof Error ? err : new Error('Failed to evaluate recall');
+      setError(runError);
+      toast({
+        title: 'recall check failed',
+        description: runError.message,
+        variant: 'destructive',
+      });
+    } finally {
+      setRunning(false);
+      setRunProgress(null);
+    }
+  };
+
+  const handleClearHistory = async () => {
+    if (!connectionId || !namespaceId) return;
+    try {
+      await window.electronAPI.clearRecallHistory(connectionId, namespaceId);
+      setHistory([]);
+    } catch (err) {
+      toast({
+        title: 'failed to clear history',
+        description: err instanceof Error ? err.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const trend = useMemo(() => computeRecallTrend(history), [history]);
+  const chartData = useMemo(() => history.map(run => ({
+    time: formatTime(run.timestamp),
+    recall: Number((run.avgRecall * 100).toFixed(2)),
+    rows: run.approxRowCount ?? null,
+  })), [history]);
+  const hasRowCounts = history.some(run => run.approxRowCount !== undefined);
+
+  if (clientError) {
+    return <ConnectionErrorState error={clientError} />;
+  }
+
+  if (!turbopufferClient) {
+    return (
+      <div className="flex flex-col h-full bg-tp-bg">
+        <div className="px-3 py-2 border-b border-tp-border-subtle bg-tp-surface">
+          <Skeleton className="h-5 w-24" />
+        </div>
+        <div className="flex-1 p-4 space-y-4">
+          <Skeleton className="h-10 w-full" />
+          <Skeleton className="h-64 w-full" />
+        </div>
+      </div>
+    );
+  }
+
+  if (error && (error.message.includes('404') || error.message.includes('not found')) && namespaceId) {
+    return <NamespaceNotFoundState namespaceId={namespaceId} connectionId={connectionId} />;
+  }
+
+  return (
+    <div className="flex flex-col h-full bg-tp-bg">
+      {/* Header */}
+      <div className="px-3 py-2 border-b border-tp-border-subtle bg-tp-surface flex items-center justify-between">
+        <div>
+          <h1 className="text-sm font-bold uppercase tracking-wider text-tp-text">recall</h1>
+          <p className="text-xs text-tp-text-muted mt-0.5">
+            <span className="font-mono text-tp-accent">{namespaceId}</span>
+          </p>
+        </div>
+        <div className="flex items-center gap-1.5">
+          <Button variant="ghost" size="sm" onClick={loadHistory} disabled={loadingHistory}>
+            <RefreshCw className={`h-3 w-3 mr-1 ${loadingHistory ? 'animate-spin' : ''}`} />
+            refresh
+          </Button>
+          <Button size="sm" onClick={handleRun} disabled={running}>
+            {running ? (
+              <RefreshCw className="h-3 w-3 mr-1 animate-spin" />
+            ) : (
+              <Play className="h-3 w-3 mr-1" />
+            )}
+            {runProgress ? `run ${runProgress.current}/${runProgress.total}` : 'run'}
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto px-3 py-3 space-y-3">
+        <Card className="border-tp-border-subtle bg-tp-surface">
+          <CardHeader>
+            <CardTitle className="text-sm uppercase tracking-wider">recall check</CardTitle>
+            <CardDescription className="text-[11px] text-tp-text-muted">
+              compares ANN results with exhaustive search for sampled query vectors
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="recall-num" className="text-xs">queries (num)</Label>
+                <Input
+                  id="recall-num"
+                  type="number"
+                  min={1}
+                  max={1000}
+                  value={num}
+                  onChange={(e) => setNum(e.target.value)}
+                  className="h-8 w-28 text-xs"
+                  disabled={running}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="recall-top-k" className="text-xs">top_k</Label>
+                <Input
+                  id="recall-top-k"
+                  type="number"
+                  min={1}
+                  max={1200}
+                  value={topK}
+                  onChange={(e) => setTopK(e.target.value)}
+                  className="h-8 w-28 text-xs"
+                  disabled={running}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="recall-repeats" className="text-xs">repeat</Label>
+                <Input
+                  id="recall-repeats"
+                  type="number"
+                  min={1}
+                  max={MAX_REPEATS}
+                  value={repeats}
+                  onChange={(e) => setRepeats(e.target.value)}
+                  className="h-8 w-20 text-xs"
+                  disabled={running}
+                />
+              </div>
+              <div className="flex items-center gap-2 pb-1.5">
+                <Switch
+                  id="recall-filters"
+                  checked={useDocumentFilters}
+                  onCheckedChange={setUseDocumentFilters}
+                  disabled={running || !documentFilter}
+                />
+                <Label htmlFor="recall-filters" className="text-xs">
+                  apply document filters
+                </Label>
+              </div>
+            </div>
+            {documentFilter ? (
+              <pre className="text-[10px] font-mono text-tp-text-muted bg-tp-surface-alt rounded p-2 overflow-x-auto">
+                {JSON.stringify(documentFilter)}
+              </pre>
+            ) : (
+              <p className="text-[11px] text-tp-text-faint">
+                filters set in the Documents view for this namespace can be applied here
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-3 w-3" />
+            <AlertDescription className="text-xs">{error.message}</AlertDescription>
+          </Alert>
+        )}
+
+        {trend && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <Card className="border-tp-border-subtle bg-tp-surface">
+              <CardContent className="pt-4">
+                <p className="text-[10px] uppercase tracking-wider text-tp-text-muted">avg recall</p>
+                <p className="text-xl font-semibold font-mono">{formatRecall(trend.latest.avgRecall)}</p>
+                {trend.deltaFromPrevious !== null && (
+                  <p className="text-[10px] text-tp-text-faint">
+                    {trend.deltaFromPrevious >= 0 ? '+' : ''}{(trend.deltaFromPrevious * 100).toFixed(1)} pts vs previous
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+            <Card className="border-tp-border-subtle bg-tp-surface">
+              <CardContent className="pt-4">
+                <p className="text-[10px] uppercase tracking-wider text-tp-text-muted">avg ann count</p>
+                <p className="text-xl font-semibold font-mono">{trend.latest.avgAnnCount.toFixed(1)}</p>
+              </CardContent>
+            </Card>
+            <Card className="border-tp-border-subtle bg-tp-surface">
+              <CardContent className="pt-4">
+                <p className="text-[10px] uppercase tracking-wider text-tp-text-muted">avg exhaustive count</p>
+                <p className="text-xl font-semibold font-mono">{trend.latest.avgExhaustiveCount.toFixed(1)}</p>
+              </CardContent>
+            </Card>
+            <Card className="border-tp-border-subtle bg-tp-surface">
+              <CardContent className="pt-4">
+                <p className="text-[10px] uppercase tracking-wider text-tp-text-muted">comparable runs</p>
+                <p className="text-xl font-semibold font-mono">{trend.comparableRuns}</p>
+                {trend.deltaFromBaseline !== null && (
+                  <p className="text-[10px] text-tp-text-faint">
+                    {trend.deltaFromBaseline >= 0 ? '+' : ''}{(trend.deltaFromBaseline * 100).toFixed(1)} pts since first
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        {isRecallDegrading(trend) && (
+          <Alert className="bg-tp-surface-alt border-tp-border-strong">
+            <TrendingDown className="h-3 w-3" />
+            <AlertDescription className="text-[11px] text-tp-text-muted">
+              recall dropped {formatRecall(Math.abs(trend!.deltaFromBaseline!))} since the first run with the same settings
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <Card className="border-tp-border-subtle bg-tp-surface">
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle className="text-sm uppercase tracking-wider">history</CardTitle>
+                <CardDescription className="text-[11px] text-tp-text-muted">
+                  stored locally • {history.length} runs
+                </CardDescription>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleClearHistory}
+                disabled={running || history.length === 0}
+              >
+                <Trash2 className="h-3 w-3 mr-1" />
+                clear
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {history.length === 0 ? (
+              <div className="text-center py-8 text-tp-text-muted">
+                <Target className="h-6 w-6 mx-auto mb-2 text-tp-text-faint" />
+                <p className="text-xs">no recall runs yet • run a check to start tracking</p>
+              </div>
+            ) : (
+              <>
+                <ResponsiveContainer width="100%" height={240}>
+                  <LineChart data={chartData}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="time" tick={{ fontSize: 10 }} />
+                    <YAxis yAxisId="recall" domain={[0, 100]} tick={{ fontSize: 10 }} unit="%" />
+                    {hasRowCounts && (
+                      <YAxis yAxisId="rows" orientation="right" tick={{ fontSize: 10 }} />
+                    )}
+                    <Tooltip />
+                    <Legend wrapperStyle={{ fontSize: 11 }} />
+                    <Line
+                      yAxisId="recall"
+                      type="monotone"
+                      dataKey="recall"
+                      name="recall %"
+                      stroke="#8884d8"
+                      strokeWidth={2}
+                      dot={{ fill: '#8884d8' }}
+                    />
+                    {hasRowCounts && (
+                      <Line
+                        yAxisId="rows"
+                        type="stepAfter"
+                        dataKey="rows"
+                        name="approx rows"
+                        stroke="#82ca9d"
+                        dot={false}
+                        connectNulls
+                      />
+                    )}
+                  </LineChart>
+                </ResponsiveContainer>
+
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="text-[11px]">time</TableHead>
+                      <TableHead className="text-[11px] text-right">num</TableHead>
+                      <TableHead className="text-[11px] text-right">top_k</TableHead>
+                      <TableHead className="text-[11px]">filters</TableHead>
+                      <TableHead className="text-[11px] text-right">recall</TableHead>
+                      <TableHead className="text-[11px] text-right">ann</TableHead>
+                      <TableHead className="text-[11px] text-right">exhaustive</TableHead>
+                      <TableHead className="text-[11px] text-right">rows</TableHead>
+                      <TableHead className="text-[11px] text-right">ms</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {[...history].reverse().map(run => (
+                      <TableRow key={run.id}>
+                        <TableCell className="text-[11px]">{formatTime(run.timestamp)}</TableCell>
+                        <TableCell className="text-[11px] text-right font-mono">{run.num}</TableCell>
+                        <TableCell className="text-[11px] text-right font-mono">{run.topK}</TableCell>
+                        <TableCell className="text-[11px]">
+                          {run.filters ? (
+                            <Badge variant="outline" className="text-[10px]" title={JSON.stringify(run.filters)}>
+                              filtered
+                            </Badge>
+                          ) : (
+                            <span className="text-tp-text-faint">none</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-[11px] text-right font-mono">{formatRecall(run.avgRecall)}</TableCell>
+                        <TableCell className="text-[11px] text-right font-mono">{run.avgAnnCount.toFixed(1)}</TableCell>
+                        <TableCell className="text-[11px] text-right font-mono">{run.avgExhaustiveCount.toFixed(1)}</TableCell>
+                        <TableCell className="text-[11px] text-right font-mono">
+                          {run.approxRowCount?.toLocaleString() ?? '—'}
+                        </TableCell>
+                        <TableCell className="text-[11px] text-right font-mono">{run.durationMs}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
@@ -52,9 +52,11 @@ import { useConnections } from '@/renderer/contexts/ConnectionContext';
 import { useToast } from '@/hooks/use-toast';
 import { namespaceService } from '@/renderer/services/namespaceService';
 import { turbopufferService } from '@/renderer/services/turbopufferService';
-import { SchemaAttributeCard, AddAttributeDialog } from './shared';
+import { SchemaAttributeCard, AddAttributeDialog, SchemaDiffDialog } from './shared';
 import { ConnectionErrorState, NamespaceNotFoundState } from '../shared/ErrorStates';
 import { Skeleton } from '@/components/ui/skeleton';
+import { diffSchemas } from '@/renderer/utils/schemaDiff';
+import type { SchemaDiff } from '@/renderer/utils/schemaDiff';
 import type {
   NamespaceSchema,
   AttributeSchema,
@@ -85,6 +87,9 @@ export const SchemaPage: React.FC = () => {
   const { toast } = useToast();
   
   const [attributes, setAttributes] = useState<SchemaAttribute[]>([]);
+  // Schema as last loaded or saved, to diff pending edits against
+  const [savedSchema, setSavedSchema] = useState<NamespaceSchema>({});
+  const [schemaDiff, setSchemaDiff] = useState<SchemaDiff | null>(null);
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
   const [hasChanges, setHasChanges] = useState(false);
@@ -157,6 +162,7 @@ export const SchemaPage: React.FC = () => {
         });
 
       setAttributes(schemaAttributes);
+      setSavedSchema(schema);
       setHasChanges(false);
     } catch (err) {
       console.error('Failed to load schema:', err);
@@ -188,23 +194,36 @@ export const SchemaPage: React.FC = () => {
     return false;
   };
 
+  // Open the review dialog; nothing is sent until the diff is confirmed
+  const handleReviewSchema = () => {
+    // Convert back to namespace schema format
+    const schema: NamespaceSchema = {};
+    attributes.forEach(attr => {
+      schema[attr.name] = attr.schema;
+    });
+    setSchemaDiff(diffSchemas(savedSchema, schema));
+  };
+
   const handleSaveSchema = async () => {
-    if (!namespaceId) return;
+    if (!namespaceId || !schemaDiff) return;
+
+    const update = schemaDiff.update;
+    const rebuildAttributes = Array.from(new Set(
+      schemaDiff.changes
+        .filter(change => change.impact === 'rebuild' && change.attribute in update)
+        .map(change => change.attribute)
+    ));
 
     setSaving(true);
     try {
-      // Convert back to namespace schema format
-      const schema: NamespaceSchema = {};
-      attributes.forEach(attr => {
-        schema[attr.name] = attr.schema;
-      });
+      const response = await namespaceService.updateNamespaceSchema(namespaceId, update);
+      setSavedSchema({ ...savedSchema, ...update });
+      setSchemaDiff(null);
 
-      const response = await namespaceService.updateNamespaceSchema(namespaceId, schema);
-      
       // Check for HTTP 202 response (index building)
       if (response && typeof response === 'object' && 'status' in response && response.status === 202) {
         // Start polling for index building status
-        startIndexBuildingPolling();
+        startIndexBuildingPolling(rebuildAttributes);
         toast({
           title: 'Schema update initiated',
           description: 'Schema changes are being applied. Index building may take some time.',
@@ -215,8 +234,9 @@ export const SchemaPage: React.FC = () => {
           description: 'Your schema changes have been saved successfully',
         });
       }
-      
-      setHasChanges(false);
+
+      // Rejected and ignored edits weren't sent, so they are still pending
+      setHasChanges(schemaDiff.changes.some(change => !(change.attribute in update)));
     } catch (error) {
       console.error('Failed to save schema:', error);
       toast({
@@ -229,13 +249,11 @@ export const SchemaPage: React.FC = () => {
     }
   };
 
-  const startIndexBuildingPolling = () => {
-    // Mark all non-inferred attributes as having building indexes
+  const startIndexBuildingPolling = (attributeNames: string[]) => {
+    // Mark the attributes whose changes started a rebuild
     const buildingStatus: IndexBuildingStatus = {};
-    attributes.forEach(attr => {
-      if (!attr.isInferred && !attr.isBuiltIn) {
-        buildingStatus[attr.name] = { building: true };
-      }
+    attributeNames.forEach(name => {
+      buildingStatus[name] = { building: true };
     });
     setIndexBuildingStatus(buildingStatus);
 
@@ -394,7 +412,7 @@ export const SchemaPage: React.FC = () => {
               refresh
             </Button>
             <Button
-              onClick={handleSaveSchema}
+              onClick={handleReviewSchema}
               disabled={!hasChanges || saving || isActiveConnectionReadOnly}
               title={isActiveConnectionReadOnly ? "Read-only connection: write operations disabled" : undefined}
               size="sm"
@@ -414,7 +432,7 @@ export const SchemaPage: React.FC = () => {
             <Alert className="bg-tp-surface-alt border-tp-border-strong">
               <AlertCircle className="h-3 w-3" />
               <AlertDescription className="text-[11px] text-tp-text-muted">
-                unsaved changes • click save to persist
+                unsaved changes • click save to review and persist
               </AlertDescription>
             </Alert>
           )}
@@ -518,6 +536,16 @@ export const SchemaPage: React.FC = () => {
           setNewAttribute
         }
       />
+
+      <SchemaDiffDialog
+        open={!!schemaDiff}
+        diff={schemaDiff}
+        saving={saving}
+        onOpenChange={(open) => {
+          if (!open && !saving) setSchemaDiff(null);
+        }}
+        onConfirm={handleSaveSchema}
+      />
     </>
   );
 };
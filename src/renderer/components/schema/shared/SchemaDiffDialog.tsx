@@ -0,0 +1,148 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { formatSchemaValue } from '@/renderer/utils/schemaDiff';
+import type { SchemaChange, SchemaChangeImpact, SchemaDiff } from '@/renderer/utils/schemaDiff';
+
+interface SchemaDiffDialogProps {
+  open: boolean;
+  diff: SchemaDiff | null;
+  saving: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: () => void;
+}
+
+const IMPACT_LABELS: Record<SchemaChangeImpact, string> = {
+  safe: 'applies now',
+  rebuild: 'index rebuild',
+  rejected: 'rejected by api',
+  ignored: 'not applied',
+};
+
+const IMPACT_VARIANTS: Record<SchemaChangeImpact, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  safe: 'secondary',
+  rebuild: 'default',
+  rejected: 'destructive',
+  ignored: 'outline',
+};
+
+const KIND_LABELS: Record<SchemaChange['kind'], string> = {
+  added: 'added',
+  removed: 'removed',
+  type: 'type',
+  ann: 'ann index',
+  filterable: 'filterable',
+  full_text_search: 'full-text search',
+  tokenizer: 'tokenizer',
+  full_text_settings: 'full-text settings',
+};
+
+export const SchemaDiffDialog: React.FC<SchemaDiffDialogProps> = ({
+  open,
+  diff,
+  saving,
+  onOpenChange,
+  onConfirm,
+}) => {
+  const [rebuildAcknowledged, setRebuildAcknowledged] = useState(false);
+
+  useEffect(() => {
+    if (open) setRebuildAcknowledged(false);
+  }, [open]);
+
+  if (!diff) return null;
+
+  const attributesToSend = Object.keys(diff.update);
+  const canConfirm = attributesToSend.length > 0
+    && (!diff.hasRebuild || rebuildAcknowledged)
+    && !saving;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle>Review Schema Changes</DialogTitle>
+          <DialogDescription>
+            Only attributes with applicable changes are sent. Nothing is saved until you confirm.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 py-2">
+          {diff.changes.length === 0 ? (
+            <p className="text-xs text-tp-text-muted">no differences from the saved schema</p>
+          ) : (
+            <div className="max-h-[360px] overflow-auto border border-tp-border-subtle rounded divide-y divide-tp-border-subtle">
+              {diff.changes.map((change, index) => (
+                <div key={`${change.attribute}-${change.kind}-${index}`} className="px-2 py-1.5 text-xs">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <span className="font-mono text-tp-text truncate">{change.attribute}</span>
+                      <span className="text-tp-text-faint">{KIND_LABELS[change.kind]}</span>
+                    </div>
+                    <Badge variant={IMPACT_VARIANTS[change.impact]} className="h-4 px-1 text-[9px] shrink-0">
+                      {IMPACT_LABELS[change.impact]}
+                    </Badge>
+                  </div>
+                  {change.kind !== 'added' && change.kind !== 'removed' && (
+                    <div className="font-mono text-[10px] text-tp-text-muted mt-0.5">
+                      {formatSchemaValue(change.before)} → {formatSchemaValue(change.after)}
+                    </div>
+                  )}
+                  <div className="text-[10px] text-tp-text-faint mt-0.5">{change.reason}</div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {diff.hasRejected && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-3 w-3" />
+              <AlertDescription className="text-[11px]">
+                attributes with rejected changes are left out of the update. Create a new attribute instead of changing the type.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {diff.hasRebuild && (
+            <div className="flex items-start gap-2 rounded border border-tp-accent/40 bg-tp-accent/10 px-2 py-1.5">
+              <Checkbox
+                id="schema-rebuild-ack"
+                checked={rebuildAcknowledged}
+                onCheckedChange={(checked) => setRebuildAcknowledged(checked === true)}
+                className="mt-0.5"
+              />
+              <Label htmlFor="schema-rebuild-ack" className="text-[11px] text-tp-text leading-snug">
+                I understand these changes rebuild indexes over every existing document, which can take
+                a long time on large namespaces.
+              </Label>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={onConfirm} disabled={!canConfirm}>
+            {saving && <RefreshCw className="h-3 w-3 mr-1 animate-spin" />}
+            {attributesToSend.length > 0
+              ? `Apply ${attributesToSend.length} attribute${attributesToSend.length === 1 ? '' : 's'}`
+              : 'Nothing to apply'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,3 +1,4 @@
 export { SchemaAttributeCard } from './SchemaAttributeCard';
 export { AddAttributeDialog, getVectorDimensions, getVectorPrecision } from './AddAttributeDialog';
-export { FullTextSearchConfig } from './FullTextSearchConfig';
\ No newline at end of file
+export { FullTextSearchConfig } from './FullTextSearchConfig';
+export { SchemaDiffDialog } from './SchemaDiffDialog';
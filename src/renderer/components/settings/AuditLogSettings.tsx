@@ -0,0 +1,270 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useConnections } from '../../contexts/ConnectionContext';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Download, Loader2, RefreshCw, XCircle } from 'lucide-react';
+import type { AuditEntry, AuditExportFormat, AuditLogFilter, AuditOperation, AuditOutcome } from '@/types/audit';
+
+const ALL = 'all';
+
+const operationLabels: Record<AuditOperation, string> = {
+  upsert: 'upsert',
+  patch: 'patch',
+  delete: 'delete',
+  delete_by_filter: 'delete by filter',
+  schema_update: 'schema update',
+  namespace_create: 'namespace create',
+  namespace_delete: 'namespace delete',
+  namespace_copy: 'namespace copy',
+  import: 'import',
+  migration: 'migration',
+};
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+
+// Date inputs give local midnight; `to` includes the whole day
+const dayStart = (value: string) => (value ? new Date(`${value}T00:00:00`).getTime() : undefined);
+const dayEnd = (value: string) => (value ? new Date(`${value}T00:00:00`).getTime() + 86_400_000 : undefined);
+
+export function AuditLogSettings() {
+  const { connections } = useConnections();
+  const [connectionId, setConnectionId] = useState(ALL);
+  const [namespaceId, setNamespaceId] = useState('');
+  const [operation, setOperation] = useState(ALL);
+  const [outcome, setOutcome] = useState(ALL);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [search, setSearch] = useState('');
+
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [exporting, setExporting] = useState<AuditExportFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const buildFilter = useCallback((): AuditLogFilter => ({
+    ...(connectionId !== ALL && { connectionId }),
+    ...(namespaceId.trim() && { namespaceId: namespaceId.trim() }),
+    ...(operation !== ALL && { operations: [operation as AuditOperation] }),
+    ...(outcome !== ALL && { outcome: outcome as AuditOutcome }),
+    from: dayStart(from),
+    to: dayEnd(to),
+    ...(search.trim() && { search: search.trim() }),
+  }), [connectionId, namespaceId, operation, outcome, from, to, search]);
+
+  const loadEntries = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const page = await window.electronAPI.queryAuditLog(buildFilter());
+      setEntries(page.entries);
+      setTotal(page.total);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read audit log');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [buildFilter]);
+
+  // Text filters apply as you type, after a short pause
+  useEffect(() => {
+    const timer = setTimeout(loadEntries, 300);
+    return () => clearTimeout(timer);
+  }, [loadEntries]);
+
+  const handleExport = async (format: AuditExportFormat) => {
+    setExporting(format);
+    setError(null);
+    try {
+      const result = await window.electronAPI.exportAuditLog(buildFilter(), format);
+      if (!result.canceled && result.filePath) {
+        window.electronAPI.showInFolder(result.filePath);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export audit log');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle>Audit Log</CardTitle>
+              <CardDescription>
+                Every write made from this app: documents, schemas, namespaces, imports and migrations
+              </CardDescription>
+            </div>
+            <div className="flex gap-2 flex-shrink-0">
+              <Button variant="outline" size="sm" onClick={loadEntries} disabled={isLoading}>
+                <RefreshCw className={`h-3 w-3 mr-1 ${isLoading ? 'animate-spin' : ''}`} />
+                Refresh
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => handleExport('jsonl')} disabled={!!exporting || total === 0}>
+                {exporting === 'jsonl' ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Download className="h-3 w-3 mr-1" />}
+                JSONL
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => handleExport('csv')} disabled={!!exporting || total === 0}>
+                {exporting === 'csv' ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Download className="h-3 w-3 mr-1" />}
+                CSV
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+            <div className="space-y-1">
+              <Label className="text-xs">Connection</Label>
+              <Select value={connectionId} onValueChange={setConnectionId}>
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All connections</SelectItem>
+                  {connections.map((connection) => (
+                    <SelectItem key={connection.id} value={connection.id}>
+                      {connection.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Namespace</Label>
+              <Input
+                className="h-8 text-xs"
+                placeholder="any"
+                value={namespaceId}
+                onChange={(e) => setNamespaceId(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Operation</Label>
+              <Select value={operation} onValueChange={setOperation}>
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All operations</SelectItem>
+                  {Object.entries(operationLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Outcome</Label>
+              <Select value={outcome} onValueChange={setOutcome}>
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Any outcome</SelectItem>
+                  <SelectItem value="success">Success</SelectItem>
+                  <SelectItem value="failure">Failure</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">From</Label>
+              <Input type="date" className="h-8 text-xs" value={from} onChange={(e) => setFrom(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">To</Label>
+              <Input type="date" className="h-8 text-xs" value={to} onChange={(e) => setTo(e.target.value)} />
+            </div>
+            <div className="space-y-1 col-span-2">
+              <Label className="text-xs">Search</Label>
+              <Input
+                className="h-8 text-xs"
+                placeholder="summary, ids, filter, operator or error"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+              />
+            </div>
+          </div>
+
+          {error && (
+            <Alert className="border-destructive">
+              <XCircle className="h-4 w-4 text-destructive" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <p className="text-xs text-muted-foreground">
+            {total === entries.length
+              ? `${total.toLocaleString()} matching writes`
+              : `Showing the latest ${entries.length.toLocaleString()} of ${total.toLocaleString()} matching writes. Exports include all of them.`}
+          </p>
+
+          {entries.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-xs">Time</TableHead>
+                  <TableHead className="text-xs">Operator</TableHead>
+                  <TableHead className="text-xs">Connection</TableHead>
+                  <TableHead className="text-xs">Namespace</TableHead>
+                  <TableHead className="text-xs">Operation</TableHead>
+                  <TableHead className="text-xs text-right">Rows</TableHead>
+                  <TableHead className="text-xs text-right">ms</TableHead>
+                  <TableHead className="text-xs">Outcome</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map((entry) => (
+                  <TableRow key={entry.id} title={entry.payload ? JSON.stringify(entry.payload, null, 2) : undefined}>
+                    <TableCell className="text-xs whitespace-nowrap">{formatTime(entry.startedAt)}</TableCell>
+                    <TableCell className="text-xs">{entry.operator}</TableCell>
+                    <TableCell className="text-xs">{entry.connectionName ?? entry.connectionId}</TableCell>
+                    <TableCell className="text-xs font-mono">{entry.namespaceId}</TableCell>
+                    <TableCell className="text-xs">
+                      <div>{entry.summary}</div>
+                      <div className="text-[10px] text-muted-foreground">{operationLabels[entry.operation] ?? entry.operation}</div>
+                    </TableCell>
+                    <TableCell className="text-xs text-right font-mono">{entry.rowCount?.toLocaleString() ?? '—'}</TableCell>
+                    <TableCell className="text-xs text-right font-mono">{entry.durationMs.toLocaleString()}</TableCell>
+                    <TableCell className="text-xs">
+                      {entry.outcome === 'success' ? (
+                        <span className="text-green-600">success</span>
+                      ) : (
+                        <span className="text-destructive" title={entry.error}>
+                          failure
+                        </span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
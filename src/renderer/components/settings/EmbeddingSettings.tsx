@@ -0,0 +1,286 @@
+import React, { useEffect, useState } from 'react';
+import { useConnections } from '../../contexts/ConnectionContext';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { CheckCircle, Loader2, XCircle } from 'lucide-react';
+import { EMBEDDING_PROVIDER_DEFAULTS } from '../../../types/embedding';
+import type { EmbeddingConfigInput, EmbeddingProviderConfig, EmbeddingTestResult } from '../../../types/embedding';
+
+const defaults = EMBEDDING_PROVIDER_DEFAULTS['openai-compatible'];
+
+const parseOptionalInt = (value: string): number | undefined => {
+  const number = parseInt(value, 10);
+  return Number.isNaN(number) ? undefined : number;
+};
+
+export function EmbeddingSettings() {
+  const { connections, activeConnectionId } = useConnections();
+  const [connectionId, setConnectionId] = useState<string>('');
+  const [savedConfig, setSavedConfig] = useState<EmbeddingProviderConfig | null>(null);
+  const [baseUrl, setBaseUrl] = useState(defaults.baseUrl);
+  const [model, setModel] = useState(defaults.model);
+  const [dimensions, setDimensions] = useState('');
+  const [batchSize, setBatchSize] = useState(String(defaults.batchSize));
+  const [apiKey, setApiKey] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isTesting, setIsTesting] = useState(false);
+  const [testResult, setTestResult] = useState<EmbeddingTestResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!connectionId && connections.length > 0) {
+      setConnectionId(activeConnectionId ?? connections[0].id);
+    }
+  }, [connections, activeConnectionId, connectionId]);
+
+  useEffect(() => {
+    if (!connectionId) return;
+    let cancelled = false;
+    setIsLoading(true);
+    setTestResult(null);
+    setError(null);
+    setApiKey('');
+
+    window.electronAPI.getEmbeddingConfig(connectionId)
+      .then((config) => {
+        if (cancelled) return;
+        setSavedConfig(config);
+        setBaseUrl(config?.baseUrl ?? defaults.baseUrl);
+        setModel(config?.model ?? defaults.model);
+        setDimensions(config?.dimensions ? String(config.dimensions) : '');
+        setBatchSize(String(config?.batchSize ?? defaults.batchSize));
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load embedding provider');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [connectionId]);
+
+  const buildInput = (): EmbeddingConfigInput => ({
+    type: 'openai-compatible',
+    baseUrl,
+    model,
+    dimensions: parseOptionalInt(dimensions),
+    batchSize: parseOptionalInt(batchSize),
+    // An empty field keeps the stored key
+    apiKey: apiKey || undefined,
+  });
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const config = await window.electronAPI.saveEmbeddingConfig(connectionId, buildInput());
+      setSavedConfig(config);
+      setApiKey('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save embedding provider');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleTest = async () => {
+    setIsTesting(true);
+    setTestResult(null);
+    try {
+      setTestResult(await window.electronAPI.testEmbeddingConfig(connectionId, buildInput()));
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const handleRemoveKey = async () => {
+    setError(null);
+    try {
+      setSavedConfig(await window.electronAPI.saveEmbeddingConfig(connectionId, { ...buildInput(), apiKey: '' }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove API key');
+    }
+  };
+
+  const handleDelete = async () => {
+    setError(null);
+    try {
+      await window.electronAPI.deleteEmbeddingConfig(connectionId);
+      setSavedConfig(null);
+      setBaseUrl(defaults.baseUrl);
+      setModel(defaults.model);
+      setDimensions('');
+      setBatchSize(String(defaults.batchSize));
+      setTestResult(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove embedding provider');
+    }
+  };
+
+  if (connections.length === 0) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Embedding Provider</CardTitle>
+          <CardDescription>Add a connection first to configure embeddings for it</CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Embedding Provider</CardTitle>
+          <CardDescription>
+            Turn text into vectors for imports and semantic search
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="space-y-2">
+            <Label htmlFor="embedding-connection">Connection</Label>
+            <Select value={connectionId} onValueChange={setConnectionId}>
+              <SelectTrigger id="embedding-connection">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {connections.map((connection) => (
+                  <SelectItem key={connection.id} value={connection.id}>
+                    {connection.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-muted-foreground">
+              {savedConfig ? `Using ${savedConfig.model}` : 'No provider configured for this connection'}
+            </p>
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center h-32">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="embedding-provider">Provider</Label>
+                <Select value="openai-compatible" disabled>
+                  <SelectTrigger id="embedding-provider">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="openai-compatible">OpenAI-compatible HTTP</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="embedding-base-url">Base URL</Label>
+                <Input
+                  id="embedding-base-url"
+                  type="url"
+                  placeholder={defaults.baseUrl}
+                  value={baseUrl}
+                  onChange={(e) => setBaseUrl(e.target.value)}
+                />
+                <p className="text-sm text-muted-foreground">
+                  Requests go to <code>{'{base URL}'}/embeddings</code>. Local servers work too, e.g. http://localhost:11434/v1 for Ollama.
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="embedding-model">Model</Label>
+                <Input
+                  id="embedding-model"
+                  placeholder={defaults.model}
+                  value={model}
+                  onChange={(e) => setModel(e.target.value)}
+                />
+              </div>
+
+              <div className="flex gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="embedding-dimensions">Dimensions</Label>
+                  <Input
+                    id="embedding-dimensions"
+                    type="number"
+                    min="1"
+                    placeholder="model default"
+                    value={dimensions}
+                    onChange={(e) => setDimensions(e.target.value)}
+                    className="max-w-40"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="embedding-batch-size">Inputs per Request</Label>
+                  <Input
+                    id="embedding-batch-size"
+                    type="number"
+                    min="1"
+                    value={batchSize}
+                    onChange={(e) => setBatchSize(e.target.value)}
+                    className="max-w-40"
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="embedding-api-key">API Key</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="embedding-api-key"
+                    type="password"
+                    placeholder={savedConfig?.hasApiKey ? '•••••••• (stored)' : 'optional for local servers'}
+                    value={apiKey}
+                    onChange={(e) => setApiKey(e.target.value)}
+                    className="flex-1"
+                  />
+                  {savedConfig?.hasApiKey && (
+                    <Button variant="outline" size="sm" onClick={handleRemoveKey}>
+                      Remove Key
+                    </Button>
+                  )}
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  Stored encrypted alongside the connection and only used by the app's main process
+                </p>
+              </div>
+
+              {testResult && (
+                <div className={`flex items-center gap-2 text-sm ${testResult.success ? 'text-green-500' : 'text-tp-danger'}`}>
+                  {testResult.success ? <CheckCircle className="h-4 w-4" /> : <XCircle className="h-4 w-4" />}
+                  {testResult.message}
+                </div>
+              )}
+              {error && <p className="text-sm text-tp-danger">{error}</p>}
+
+              <div className="flex gap-2">
+                <Button onClick={handleSave} disabled={isSaving || !baseUrl.trim() || !model.trim()}>
+                  {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Save
+                </Button>
+                <Button variant="outline" onClick={handleTest} disabled={isTesting || !baseUrl.trim() || !model.trim()}>
+                  {isTesting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Test
+                </Button>
+                {savedConfig && (
+                  <Button variant="outline" onClick={handleDelete}>
+                    Remove Provider
+                  </Button>
+                )}
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,15 +1,17 @@
 import React, { useState } from 'react';
-import { Settings2, Database, Globe, Download, Upload, RotateCcw, Info, Palette } from 'lucide-react';
+import { Settings2, Database, Globe, Download, Upload, RotateCcw, Info, Palette, Sparkles, ScrollText } from 'lucide-react';
 import { PageHeader } from '../layout/PageHeader';
 import { ConnectionSettings } from './ConnectionSettings';
 import { ApiSettings } from './ApiSettings';
+import { EmbeddingSettings } from './EmbeddingSettings';
 import { AppearanceSettings } from './AppearanceSettings';
 import { ExportImportSettings } from './ExportImportSettings';
+import { AuditLogSettings } from './AuditLogSettings';
 import { AboutSection } from './AboutSection';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
 
-type SettingsSection = 'connection' | 'api' | 'appearance' | 'export-import' | 'about';
+type SettingsSection = 'connection' | 'api' | 'embeddings' | 'appearance' | 'export-import' | 'audit' | 'about';
 
 interface SettingsSidebarItem {
   id: SettingsSection;
@@ -31,6 +33,12 @@ const sidebarItems: SettingsSidebarItem[] = [
     icon: <Globe className="h-3 w-3" />,
     description: 'endpoints • logging',
   },
+  {
+    id: 'embeddings',
+    label: 'embeddings',
+    icon: <Sparkles className="h-3 w-3" />,
+    description: 'provider • model',
+  },
   {
     id: 'appearance',
     label: 'appearance',
@@ -43,6 +51,12 @@ const sidebarItems: SettingsSidebarItem[] = [
     icon: <Download className="h-3 w-3" />,
     description: 'backup • restore',
   },
+  {
+    id: 'audit',
+    label: 'audit log',
+    icon: <ScrollText className="h-3 w-3" />,
+    description: 'writes • export',
+  },
   {
     id: 'about',
     label: 'about',
@@ -90,11 +104,13 @@ export function SettingsPage() {
 
         {/* Content */}
         <div className="flex-1 overflow-y-auto px-4 py-4">
-          <div className="max-w-2xl">
+          <div className={activeSection === 'audit' ? undefined : 'max-w-2xl'}>
             {activeSection === 'connection' && <ConnectionSettings />}
             {activeSection === 'api' && <ApiSettings />}
+            {activeSection === 'embeddings' && <EmbeddingSettings />}
             {activeSection === 'appearance' && <AppearanceSettings />}
             {activeSection === 'export-import' && <ExportImportSettings />}
+            {activeSection === 'audit' && <AuditLogSettings />}
             {activeSection === 'about' && <AboutSection />}
           </div>
         </div>
@@ -4,6 +4,7 @@ import { Turbopuffer } from '@turbopuffer/turbopuffer';
 import { turbopufferService } from '../services/turbopufferService';
 import { settingsService } from '../services/settingsService';
 import { permissionService } from '../services/permissionService';
+import { auditService } from '../services/auditService';
 
 interface ConnectionContextType {
   connections: Connection[];
@@ -137,6 +138,7 @@ export function ConnectionProvider({ children }: { children: ReactNode }) {
 
       // Update permission service
       permissionService.setReadOnly(readOnly);
+      auditService.setConnectionId(connectionId);
       setIsActiveConnectionReadOnly(readOnly);
 
       // Initialize the Turbopuffer client
@@ -165,6 +167,7 @@ export function ConnectionProvider({ children }: { children: ReactNode }) {
     setClientError(null);
     setIsActiveConnectionReadOnly(false);
     permissionService.setReadOnly(false);
+    auditService.setConnectionId(null);
   };
 
   return (
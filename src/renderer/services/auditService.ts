@@ -0,0 +1,48 @@
+import type { AuditEventInput, AuditOperation } from '../../types/audit';
+
+export interface AuditedWrite {
+  namespaceId: string;
+  operation: AuditOperation;
+  summary: string;
+  payload?: Record<string, unknown>;
+}
+
+/**
+ * Reports the writes made with the active connection to the main process's
+ * audit log. Logging never blocks or fails a write.
+ */
+export class AuditService {
+  private connectionId: string | null = null;
+
+  setConnectionId(connectionId: string | null): void {
+    this.connectionId = connectionId;
+  }
+
+  async track<T>(
+    event: AuditedWrite,
+    write: () => Promise<T>,
+    rowCount?: (result: T) => number | undefined
+  ): Promise<T> {
+    const connectionId = this.connectionId;
+    if (!connectionId || !window.electronAPI?.recordAuditEvent) {
+      return write();
+    }
+
+    const startedAt = Date.now();
+    const record = (outcome: Pick<AuditEventInput, 'outcome' | 'error' | 'rowCount'>) => {
+      window.electronAPI
+        .recordAuditEvent({ ...event, ...outcome, connectionId, startedAt, durationMs: Date.now() - startedAt })
+        .catch((error) => console.error('Failed to write audit log:', error));
+    };
+    try {
+      const result = await write();
+      record({ outcome: 'success', rowCount: rowCount?.(result) });
+      return result;
+    } catch (error) {
+      record({ outcome: 'failure', error: error instanceof Error ? error.message : String(error) });
+      throw error;
+    }
+  }
+}
+
+export const auditService = new AuditService();
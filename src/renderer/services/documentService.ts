@@ -1,27 +1,152 @@
 import { Turbopuffer } from "@turbopuffer/turbopuffer";
 import type {
   Document,
+  DocumentsMultiQueryParams,
+  DocumentsMultiQueryResponse,
   DocumentsQueryParams,
   DocumentsQueryResponse,
+  ConditionalWriteOptions,
   DocumentWriteParams,
   DocumentWriteResponse,
   ExportFormat,
   Filter,
+  RankBy,
 } from "../../types/document";
+import type { CacheSampleSource, QueryPerformance } from "../../types/cache";
+import type { AuditOperation } from "../../types/audit";
+import type { JournaledWriteOperation, WriteSnapshotRequest } from "../../types/writeJournal";
+import { andFilters, fetchKeysetPage, sampleKeysetRows, seekKeysetCursor } from "../utils/keysetPagination";
+import type { KeysetCursor, KeysetOrder, KeysetPage, KeysetPageOptions } from "../utils/keysetPagination";
+import { vectorAttributesOf } from "../utils/queryValidation";
+import { distanceMetricOf } from "../utils/vectorHealth";
 import { turbopufferService } from "./turbopufferService";
 import { permissionService } from "./permissionService";
+import { auditService } from "./auditService";
+
+export type QueryPerformanceListener = (
+  connectionId: string,
+  namespaceId: string,
+  performance: QueryPerformance,
+  source: CacheSampleSource
+) => void;
+
+const AUDIT_OPERATIONS: Record<JournaledWriteOperation, AuditOperation> = {
+  upsert: "upsert",
+  update: "patch",
+  patchRows: "patch",
+  patchByFilter: "patch",
+  delete: "delete",
+  deleteByFilter: "delete_by_filter",
+};
+
+// Subqueries the server accepts in one multi-query request
+const MULTI_QUERY_LIMIT = 16;
+
+/**
+ * The attributes of a document as they should be written: nested
+ * `attributes` flattened, with `id` and `$`-prefixed result fields such as
+ * `$dist` and `$fusion` left out.
+ */
+function writableAttributes(document: Record<string, any>): Record<string, any> {
+  const { attributes: nested, ...flat } = document;
+  const merged: Record<string, any> = { ...(nested && typeof nested === "object" ? nested : {}), ...flat };
+  return Object.fromEntries(
+    Object.entries(merged).filter(([attribute]) => attribute !== "id" && !attribute.startsWith("$"))
+  );
+}
 
 export class DocumentService {
   private client: Turbopuffer | null = null;
+  private connectionId: string | null = null;
+  private performanceListeners = new Set<QueryPerformanceListener>();
 
-  setClient(client: Turbopuffer): void {
+  setClient(client: Turbopuffer, connectionId?: string): void {
     this.client = client;
+    this.connectionId = connectionId ?? null;
+  }
+
+  /**
+   * Subscribe to the performance stats of every query this service runs.
+   * Returns an unsubscribe function.
+   */
+  onQueryPerformance(listener: QueryPerformanceListener): () => void {
+    this.performanceListeners.add(listener);
+    return () => {
+      this.performanceListeners.delete(listener);
+    };
+  }
+
+  private notifyPerformance(
+    namespaceId: string,
+    performance: QueryPerformance | undefined,
+    source: CacheSampleSource
+  ): void {
+    if (!performance || !this.connectionId) return;
+    for (const listener of this.performanceListeners) {
+      try {
+        listener(this.connectionId, namespaceId, performance, source);
+      } catch (error) {
+        console.error("Query performance listener failed:", error);
+      }
+    }
   }
 
   getClient(): Turbopuffer | null {
     return this.client;
   }
 
+  /**
+   * Run a write once the main process has journaled the current version of
+   * the rows it can touch, so it can be undone from the connection's history.
+   * If those rows can't be saved the write is not sent. The write itself is
+   * recorded in the audit log along with the attributes it sets.
+   */
+  private async journaled<T extends DocumentWriteResponse>(
+    namespaceId: string,
+    { attributes, ...snapshot }: Omit<WriteSnapshotRequest, "connectionId" | "namespaceId"> & { attributes?: string[] },
+    write: () => Promise<T>
+  ): Promise<T> {
+    const audited = () =>
+      auditService.track(
+        {
+          namespaceId,
+          operation: AUDIT_OPERATIONS[snapshot.operation],
+          summary: snapshot.summary,
+          payload: { ids: snapshot.ids, filter: snapshot.filter, attributes },
+        },
+        write,
+        (result) => result.rows_affected
+      );
+
+    const connectionId = this.connectionId;
+    if (!connectionId || !window.electronAPI?.captureWriteSnapshot) {
+      return audited();
+    }
+
+    let entryId: string;
+    try {
+      entryId = (await window.electronAPI.captureWriteSnapshot({ ...snapshot, connectionId, namespaceId })).id;
+    } catch (error) {
+      throw new Error(
+        `The write was not sent because the affected documents could not be journaled: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    const complete = (result: { rowsAffected?: number; error?: string }) => {
+      window.electronAPI
+        .completeWriteJournalEntry(connectionId, entryId, result)
+        .catch((error) => console.error("Failed to update write journal:", error));
+    };
+    try {
+      const result = await audited();
+      complete({ rowsAffected: result.rows_affected });
+      return result;
+    } catch (error) {
+      complete({ error: error instanceof Error ? error.message : String(error) });
+      throw error;
+    }
+  }
+
   async queryDocuments(
     namespaceId: string,
     params: DocumentsQueryParams
@@ -112,6 +237,12 @@ export class DocumentService {
         console.log("⚠️ No documents returned from API");
       }
 
+      this.notifyPerformance(
+        namespaceId,
+        result.performance as QueryPerformance | undefined,
+        "query"
+      );
+
       return {
         rows: result.rows || [],
         aggregations: result.aggregations,
@@ -129,6 +260,62 @@ export class DocumentService {
     }
   }
 
+  async multiQueryDocuments(
+    namespaceId: string,
+    params: DocumentsMultiQueryParams
+  ): Promise<DocumentsMultiQueryResponse> {
+    console.log("📡 API Request - multiQueryDocuments:", {
+      namespaceId,
+      subqueries: params.queries.length,
+      rank_by: params.queries.map((q) => JSON.stringify(q.rank_by)),
+    });
+
+    if (!this.client) {
+      throw new Error("Turbopuffer client not initialized");
+    }
+
+    const ns = this.client.namespace(namespaceId);
+
+    try {
+      const result = await ns.multiQuery({
+        queries: params.queries.map((q) => ({
+          rank_by: q.rank_by,
+          top_k: q.top_k,
+          filters: q.filters,
+          include_attributes: q.include_attributes,
+          aggregate_by: q.aggregate_by,
+          group_by: q.group_by,
+        })) as any,
+        vector_encoding: params.vector_encoding,
+        consistency: params.consistency,
+      });
+
+      console.log("📥 Multi-query Response Received:", {
+        rowsPerSubquery: result.results.map((r) => r.rows?.length || 0),
+        hasPerformance: !!result.performance,
+      });
+
+      this.notifyPerformance(
+        namespaceId,
+        result.performance as QueryPerformance | undefined,
+        "multi_query"
+      );
+
+      return {
+        results: result.results.map((r) => ({
+          rows: (r.rows || []) as Document[],
+          aggregations: r.aggregations,
+          aggregation_groups: r.aggregation_groups,
+        })),
+        billing: result.billing,
+        performance: result.performance as DocumentsQueryResponse["performance"],
+      };
+    } catch (error) {
+      console.error("💥 Multi-query failed:", error);
+      throw error;
+    }
+  }
+
   async searchDocuments(
     namespaceId: string,
     searchTerm: string,
@@ -144,48 +331,169 @@ export class DocumentService {
     return response.rows || [];
   }
 
-async listDocuments(
-        namespaceId: string,
-        params: {
-          limit?: number;
-          cursor?: string | number;
-          filters?: Filter;
-          includeAttributes?: string[] | boolean;
-          offset?: number;
-        } = {}
-      ): Promise<{ documents: Document[]; nextCursor?: string | number }> {
-        const limit = params.limit || 100;
-        const offset = params.offset || 0;
-
-        // For offset-based pagination, we need to get documents starting from the offset
-        // We'll do this by first getting the documents at the offset position as a cursor
-        // then using that cursor for the actual query
-        let filters = params.filters;
-        
-        if (params.cursor !== undefined) {
-          const cursorFilter: Filter = ["id", "Gt", params.cursor];
-          filters = filters ? ["And", [filters, cursorFilter]] : cursorFilter;
-        }
+  /**
+   * Lists one page of documents in keyset order (by id unless `orderBy` says
+   * otherwise). `offset` skips rows past the cursor by seeking, since the API
+   * has no offset of its own.
+   */
+  async listDocuments(
+    namespaceId: string,
+    params: {
+      limit?: number;
+      cursor?: KeysetCursor;
+      filters?: Filter;
+      includeAttributes?: string[] | boolean;
+      offset?: number;
+      orderBy?: KeysetOrder;
+    } = {}
+  ): Promise<{ documents: Document[]; nextCursor?: KeysetCursor }> {
+    const limit = params.limit || 100;
+    const orderBy = params.orderBy ?? { attribute: "id", direction: "asc" };
+
+    let cursor: KeysetCursor | null = params.cursor ?? null;
+    if (params.offset && params.offset > 0) {
+      const seeked = await this.seekKeysetCursor(namespaceId, {
+        filters: params.filters,
+        orderBy,
+        cursor,
+        skip: params.offset,
+      });
+      if (seeked === undefined) return { documents: [] };
+      cursor = seeked;
+    }
 
+    const { response, nextCursor } = await this.queryKeysetPage(namespaceId, {
+      filters: params.filters,
+      orderBy,
+      cursor,
+      limit,
+      includeAttributes: params.includeAttributes !== undefined ? params.includeAttributes : true,
+    });
+
+    return { documents: response.rows || [], nextCursor: nextCursor ?? undefined };
+  }
+
+  /**
+   * Reads documents with `vectorField` and the given attributes: the listed
+   * ids, or up to `limit` documents matching `filters`. With `sample`, a
+   * namespace holding more than `limit` matches is sampled across its whole id
+   * range; otherwise the first matches in id order are read. `withVector` skips
+   * documents that have no value in `vectorField`.
+   */
+  async readVectors(
+    namespaceId: string,
+    options: {
+      vectorField: string;
+      attributes?: string[];
+      ids?: (string | number)[];
+      filters?: Filter;
+      limit?: number;
+      sample?: boolean;
+      withVector?: boolean;
+      onProgress?: (read: number) => void;
+      signal?: AbortSignal; // Checked between pages
+    }
+  ): Promise<Document[]> {
+    const includeAttributes = [options.vectorField, ...(options.attributes ?? [])];
+    const rows: Document[] = [];
+
+    if (options.ids) {
+      for (let i = 0; i < options.ids.length; i += 500) {
+        options.signal?.throwIfAborted();
+        const chunk = options.ids.slice(i, i + 500);
         const response = await this.queryDocuments(namespaceId, {
+          filters: ["id", "In", chunk],
           rank_by: ["id", "asc"],
-          top_k: limit,
-          filters: filters,
-          include_attributes:
-            params.includeAttributes !== undefined
-              ? params.includeAttributes
-              : true,
-          offset: offset > 0 ? offset : undefined,
+          top_k: chunk.length,
+          include_attributes: includeAttributes,
         });
+        rows.push(...(response.rows || []));
+        options.onProgress?.(rows.length);
+      }
+      return rows;
+    }
 
-        const documents = response.rows || [];
-        const nextCursor =
-          documents.length === limit
-            ? documents[documents.length - 1].id
-            : undefined;
+    const limit = options.limit ?? 1000;
+    const filters = andFilters(
+      options.filters,
+      options.withVector ? [options.vectorField, "NotEq", null] : undefined
+    );
+    if (options.sample && (await this.countDocuments(namespaceId, filters)) > limit) {
+      return sampleKeysetRows((params) => this.queryDocuments(namespaceId, params), {
+        filters,
+        limit,
+        includeAttributes,
+        onProgress: options.onProgress,
+        signal: options.signal,
+      });
+    }
+
+    let cursor: KeysetCursor | undefined;
+    while (rows.length < limit) {
+      options.signal?.throwIfAborted();
+      const page = await this.listDocuments(namespaceId, {
+        limit: Math.min(1000, limit - rows.length),
+        cursor,
+        filters,
+        includeAttributes,
+      });
+      rows.push(...page.documents);
+      options.onProgress?.(rows.length);
+      if (!page.nextCursor || page.documents.length === 0) break;
+      cursor = page.nextCursor;
+    }
+    return rows;
+  }
+
+  /**
+   * Runs one nearest-neighbour query per vector, packed into multi-query
+   * requests, and returns each query's rows in the order of `vectors`.
+   */
+  async runVectorBatch(
+    namespaceId: string,
+    options: {
+      vectors: number[][];
+      vectorField: string;
+      topK: number;
+      filters?: Filter;
+      includeAttributes?: string[];
+      onProgress?: (completed: number) => void;
+      signal?: AbortSignal;
+    }
+  ): Promise<Document[][]> {
+    const results: Document[][] = [];
+    for (let i = 0; i < options.vectors.length; i += MULTI_QUERY_LIMIT) {
+      options.signal?.throwIfAborted();
+      const response = await this.multiQueryDocuments(namespaceId, {
+        queries: options.vectors.slice(i, i + MULTI_QUERY_LIMIT).map((vector) => ({
+          rank_by: [options.vectorField, "ANN", vector] as RankBy,
+          top_k: options.topK,
+          filters: options.filters,
+          include_attributes: options.includeAttributes,
+        })),
+      });
+      results.push(...response.results.map((result) => result.rows || []));
+      options.onProgress?.(results.length);
+    }
+    return results;
+  }
+
+  /** Fetches the page after a composite (attribute, id) cursor */
+  async queryKeysetPage(namespaceId: string, options: KeysetPageOptions): Promise<KeysetPage> {
+    return fetchKeysetPage((params) => this.queryDocuments(namespaceId, params), options);
+  }
+
+  /**
+   * Finds the cursor `skip` rows past `cursor`, for jumping to a page without
+   * loading the pages before it. Undefined when the namespace ends first.
+   */
+  async seekKeysetCursor(
+    namespaceId: string,
+    options: Omit<KeysetPageOptions, "limit" | "includeAttributes"> & { skip: number }
+  ): Promise<KeysetCursor | null | undefined> {
+    return seekKeysetCursor((params) => this.queryDocuments(namespaceId, params), options);
+  }
 
-        return { documents, nextCursor };
-      }
   async upsertDocuments(
     namespaceId: string,
     documents: Document[],
@@ -237,21 +545,25 @@ async listDocuments(
       distance_metric: distanceMetric,
     };
 
-    try {
-      const result = await ns.write(writeParams);
-      return {
-        rows_affected: result.rows_affected || documents.length,
-      };
-    } catch (error) {
-      console.error("Failed to upsert documents:", error);
-      throw error;
-    }
+    const summary = `Upsert ${documents.length} document${documents.length !== 1 ? "s" : ""}`;
+    return this.journaled(namespaceId, { operation: "upsert", summary, ids }, async () => {
+      try {
+        const result = await ns.write(writeParams);
+        return {
+          rows_affected: result.rows_affected || documents.length,
+        };
+      } catch (error) {
+        console.error("Failed to upsert documents:", error);
+        throw error;
+      }
+    });
   }
 
   async updateDocument(
     namespaceId: string,
     documentId: string | number,
-    attributes: Record<string, any>
+    attributes: Record<string, any>,
+    options: ConditionalWriteOptions = {}
   ): Promise<DocumentWriteResponse> {
     permissionService.checkWritePermission();
 
@@ -281,22 +593,179 @@ async listDocuments(
       patchColumns[key] = [value];
     });
 
+    if (options.mode === "upsert") {
+      const snapshot = { operation: "upsert" as const, summary: `Replace document ${documentId}`, ids: [documentId] };
+      return this.journaled(namespaceId, snapshot, () =>
+        this.conditionalUpsert(namespaceId, documentId, attributes, options)
+      );
+    }
+
+    const snapshot = {
+      operation: "update" as const,
+      summary: `Update document ${documentId}`,
+      ids: [documentId],
+      attributes: Object.keys(patchColumns).filter((key) => key !== "id"),
+    };
+    return this.journaled(namespaceId, snapshot, async () => {
+      try {
+        const result = await ns.write({
+          patch_columns: patchColumns,
+          ...(options.condition && { patch_condition: options.condition as any }),
+        });
+        if (options.condition && !result.rows_patched && !result.rows_affected) {
+          throw new Error(
+            `Document ${documentId} was not updated: it no longer matches the write condition (it may have been modified since it was loaded)`
+          );
+        }
+        return {
+          rows_affected: result.rows_affected || 1,
+          rows_patched: result.rows_patched,
+        };
+      } catch (error) {
+        console.error("Failed to update document:", error);
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Patch many documents in a single `patch_rows` write, each with its own
+   * attributes. The server skips patches to ids that no longer exist, so when
+   * fewer rows come back patched those ids are looked up and returned as
+   * `missingIds`.
+   */
+  async patchRows(
+    namespaceId: string,
+    rows: ({ id: string | number } & Record<string, any>)[]
+  ): Promise<DocumentWriteResponse & { missingIds: (string | number)[] }> {
+    permissionService.checkWritePermission();
+
+    if (!this.client) {
+      throw new Error("Turbopuffer client not initialized");
+    }
+    if (rows.length === 0) {
+      return { rows_affected: 0, rows_patched: 0, missingIds: [] };
+    }
+
+    const ns = this.client.namespace(namespaceId);
+
+    const ids = rows.map((row) => row.id);
+    const summary = `Patch ${rows.length} document${rows.length !== 1 ? "s" : ""}`;
+    const attributes = Array.from(new Set(rows.flatMap((row) => Object.keys(row).filter((key) => key !== "id"))));
+    return this.journaled(namespaceId, { operation: "patchRows", summary, ids, attributes }, async () => {
+      try {
+        const result = await ns.write({ patch_rows: rows });
+        const patched = result.rows_patched ?? result.rows_affected ?? rows.length;
+
+        let missingIds: (string | number)[] = [];
+        if (patched < rows.length) {
+          const existing = await this.queryDocuments(namespaceId, {
+            filters: ["id", "In", ids],
+            rank_by: ["id", "asc"],
+            top_k: ids.length,
+            include_attributes: ["id"],
+          });
+          const found = new Set((existing.rows || []).map((row) => row.id));
+          missingIds = ids.filter((id) => !found.has(id));
+        }
+
+        return {
+          rows_affected: result.rows_affected ?? patched,
+          rows_patched: patched,
+          missingIds,
+        };
+      } catch (error) {
+        console.error("Failed to patch rows:", error);
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Replace a whole document. The stored row is read first so the vector and
+   * attributes the editor never loaded survive; `attributes` is laid over it
+   * and `removedAttributes` are dropped. Unlike a patch, this can rewrite
+   * vectors and recreate a deleted document.
+   */
+  private async conditionalUpsert(
+    namespaceId: string,
+    documentId: string | number,
+    attributes: Record<string, any>,
+    { condition, removedAttributes = [] }: ConditionalWriteOptions
+  ): Promise<DocumentWriteResponse> {
+    if (!this.client) {
+      throw new Error("Turbopuffer client not initialized");
+    }
+
+    const ns = this.client.namespace(namespaceId);
+    const stored = await this.queryDocuments(namespaceId, {
+      filters: ["id", "Eq", documentId],
+      rank_by: ["id", "asc"],
+      top_k: 1,
+      include_attributes: true,
+    });
+    const row: Record<string, any> = {
+      ...writableAttributes(stored.rows?.[0] ?? {}),
+      ...writableAttributes(attributes),
+    };
+    removedAttributes.forEach((attribute) => delete row[attribute]);
+
+    // Rows carrying a vector need the namespace's distance metric
+    const schema = await ns.schema().catch(() => ({})) as Record<string, any>;
+    const vectorFields = vectorAttributesOf(schema).filter((attribute) => attribute in row);
+    const distanceMetric = vectorFields.length > 0
+      ? vectorFields
+          .map((attribute) => schema[attribute]?.ann?.distance_metric ?? distanceMetricOf(schema[attribute]))
+          .find(Boolean) ?? "cosine_distance"
+      : undefined;
+
     try {
       const result = await ns.write({
-        patch_columns: patchColumns,
+        upsert_rows: [{ ...row, id: documentId }],
+        ...(distanceMetric && { distance_metric: distanceMetric }),
+        ...(condition && { upsert_condition: condition as any }),
       });
+      if (condition && !result.rows_upserted && !result.rows_affected) {
+        throw new Error(
+          `Document ${documentId} was not replaced: it no longer matches the write condition (it may have been modified since it was loaded)`
+        );
+      }
       return {
         rows_affected: result.rows_affected || 1,
+        rows_upserted: result.rows_upserted,
       };
     } catch (error) {
-      console.error("Failed to update document:", error);
+      console.error("Failed to upsert document:", error);
       throw error;
     }
   }
 
-  async deleteDocuments(
+  /**
+   * Count the documents matching a filter. Used to preview bulk writes.
+   */
+  async countDocuments(namespaceId: string, filter?: Filter): Promise<number> {
+    const result = await this.queryDocuments(namespaceId, {
+      filters: filter,
+      aggregate_by: { count: ["Count"] },
+    });
+    return Number(result.aggregations?.count ?? 0);
+  }
+
+  /**
+   * Patch every document matching `filter` with the same attribute values.
+   *
+   * Matching ids are paged in id order and patched in batches. Each batch
+   * repeats the filter as `patch_condition`, so documents that stopped
+   * matching between the read and the write are left untouched.
+   */
+  async patchByFilter(
     namespaceId: string,
-    documentIds: (string | number)[]
+    filter: Filter,
+    attributes: Record<string, any>,
+    options: {
+      batchSize?: number;
+      onProgress?: (patched: number) => void;
+    } = {}
   ): Promise<DocumentWriteResponse> {
     permissionService.checkWritePermission();
 
@@ -304,19 +773,99 @@ async listDocuments(
       throw new Error("Turbopuffer client not initialized");
     }
 
+    const nonPatchableFields = new Set(["id", "vector", "$dist"]);
+    const patchAttributes = Object.entries(attributes).filter(
+      ([key]) => !nonPatchableFields.has(key)
+    );
+    if (patchAttributes.length === 0) {
+      throw new Error("No patchable attributes provided");
+    }
+
     const ns = this.client.namespace(namespaceId);
+    const batchSize = options.batchSize || 1000;
+    let cursor: string | number | undefined;
+    let patched = 0;
+    let hasMore = true;
+
+    const attributeNames = patchAttributes.map(([key]) => key);
+    const summary = `Patch ${attributeNames.join(", ")} by filter`;
+    return this.journaled(namespaceId, { operation: "patchByFilter", summary, filter, attributes: attributeNames }, async () => {
+      try {
+        while (hasMore) {
+          const pageFilter: Filter =
+            cursor !== undefined ? ["And", [filter, ["id", "Gt", cursor]]] : filter;
+          const page = await this.queryDocuments(namespaceId, {
+            filters: pageFilter,
+            rank_by: ["id", "asc"],
+            top_k: batchSize,
+            include_attributes: ["id"],
+          });
+          const ids = (page.rows || []).map((row) => row.id);
+          if (ids.length === 0) break;
+          hasMore = ids.length === batchSize;
 
-    try {
-      const result = await ns.write({
-        deletes: documentIds,
-      });
-      return {
-        rows_affected: result.rows_affected || documentIds.length,
-      };
-    } catch (error) {
-      console.error("Failed to delete documents:", error);
-      throw error;
+          const patchColumns: { id: (string | number)[]; [key: string]: any[] } = { id: ids };
+          patchAttributes.forEach(([key, value]) => {
+            patchColumns[key] = ids.map(() => value);
+          });
+
+          const result = await ns.write({
+            patch_columns: patchColumns,
+            patch_condition: filter as any,
+          });
+          patched += result.rows_patched ?? result.rows_affected ?? ids.length;
+          options.onProgress?.(patched);
+          cursor = ids[ids.length - 1];
+        }
+      } catch (error) {
+        console.error("Failed to patch by filter:", error);
+        throw error;
+      }
+
+      return { rows_affected: patched, rows_patched: patched };
+    });
+  }
+
+  async deleteDocuments(
+    namespaceId: string,
+    documentIds: (string | number)[],
+    condition?: Filter
+  ): Promise<DocumentWriteResponse> {
+    permissionService.checkWritePermission();
+
+    if (!this.client) {
+      throw new Error("Turbopuffer client not initialized");
     }
+
+    const ns = this.client.namespace(namespaceId);
+
+    const summary = `Delete ${documentIds.length} document${documentIds.length !== 1 ? "s" : ""}`;
+    return this.journaled(namespaceId, { operation: "delete", summary, ids: documentIds }, async () => {
+      try {
+        const result = await ns.write({
+          deletes: documentIds,
+          ...(condition && { delete_condition: condition as any }),
+        });
+        if (condition) {
+          if (!result.rows_deleted && !result.rows_affected) {
+            throw new Error(
+              "No documents were deleted: none matched the delete condition (they may have been modified since they were loaded)"
+            );
+          }
+          // Conditional deletes skip rows that fail the condition, so report the real count
+          return {
+            rows_affected: result.rows_deleted ?? result.rows_affected ?? 0,
+            rows_deleted: result.rows_deleted,
+          };
+        }
+        return {
+          rows_affected: result.rows_affected || documentIds.length,
+        };
+      } catch (error) {
+        console.error("Failed to delete documents:", error);
+        throw error;
+      }
+    });
   }
 
   async deleteByFilter(
@@ -331,17 +880,19 @@ async listDocuments(
 
     const ns = this.client.namespace(namespaceId);
 
-    try {
-      const result = await ns.write({
-        delete_by_filter: filter,
-      });
-      return {
-        rows_affected: result.rows_affected || 0,
-      };
-    } catch (error) {
-      console.error("Failed to delete by filter:", error);
-      throw error;
-    }
+    return this.journaled(namespaceId, { operation: "deleteByFilter", summary: "Delete by filter", filter }, async () => {
+      try {
+        const result = await ns.write({
+          delete_by_filter: filter,
+        });
+        return {
+          rows_affected: result.rows_affected || 0,
+        };
+      } catch (error) {
+        console.error("Failed to delete by filter:", error);
+        throw error;
+      }
+    });
   }
 
   async exportDocuments(
@@ -351,7 +902,7 @@ async listDocuments(
   ): Promise<string | Blob> {
     // First, query all documents with the given filters
     const allDocuments: Document[] = [];
-    let cursor: string | number | undefined;
+    let cursor: KeysetCursor | undefined;
 
     while (true) {
       const { documents, nextCursor } = await this.listDocuments(namespaceId, {
@@ -440,142 +991,6 @@ async listDocuments(
     // Combine header and rows
     return [headers.join(","), ...rows.map((row) => row.join(","))].join("\n");
   }
-
-  async parseImportFile(file: File): Promise<Document[]> {
-    const text = await file.text();
-    const extension = file.name.split(".").pop()?.toLowerCase();
-
-    if (extension === "json") {
-      return this.parseJSON(text);
-    } else if (extension === "csv") {
-      return this.parseCSV(text);
-    } else {
-      throw new Error("Unsupported file format. Please use JSON or CSV.");
-    }
-  }
-
-  private parseJSON(text: string): Document[] {
-    try {
-      const data = JSON.parse(text);
-      if (!Array.isArray(data)) {
-        throw new Error("JSON file must contain an array of documents");
-      }
-
-      return data.map((item, index) => {
-        if (!item.id) {
-          throw new Error(
-            `Document at index ${index} is missing required 'id' field`
-          );
-        }
-
-        const { id, vector, ...attributes } = item;
-        return {
-          id,
-          vector: vector || undefined,
-          attributes:
-            Object.keys(attributes).length > 0 ? attributes : undefined,
-        };
-      });
-    } catch (error) {
-      if (error instanceof SyntaxError) {
-        throw new Error("Invalid JSON format");
-      }
-      throw error;
-    }
-  }
-
-  private parseCSV(text: string): Document[] {
-    const lines = text.trim().split("\n");
-    if (lines.length < 2) {
-      throw new Error(
-        "CSV file must contain headers and at least one data row"
-      );
-    }
-
-    const headers = lines[0].split(",").map((h) => h.trim());
-    const idIndex = headers.findIndex((h) => h.toLowerCase() === "id");
-
-    if (idIndex === -1) {
-      throw new Error('CSV file must contain an "id" column');
-    }
-
-    const vectorIndex = headers.findIndex((h) => h.toLowerCase() === "vector");
-    const documents: Document[] = [];
-
-    for (let i = 1; i < lines.length; i++) {
-      const values = this.parseCSVLine(lines[i]);
-
-      if (values.length !== headers.length) {
-        throw new Error(
-          `Row ${i + 1} has ${values.length} values but expected ${
-            headers.length
-          }`
-        );
-      }
-
-      const id = values[idIndex];
-      if (!id) {
-        throw new Error(`Row ${i + 1} is missing required id value`);
-      }
-
-      const doc: Document = { id: isNaN(Number(id)) ? id : Number(id) };
-
-      if (vectorIndex !== -1 && values[vectorIndex]) {
-        try {
-          doc.vector = JSON.parse(values[vectorIndex]);
-        } catch {
-          throw new Error(`Invalid vector format in row ${i + 1}`);
-        }
-      }
-
-      const attributes: Record<string, any> = {};
-      headers.forEach((header, index) => {
-        if (index !== idIndex && index !== vectorIndex && values[index]) {
-          try {
-            // Try to parse as JSON first (for objects/arrays)
-            attributes[header] = JSON.parse(values[index]);
-          } catch {
-            // If not valid JSON, treat as string
-            attributes[header] = values[index];
-          }
-        }
-      });
-
-      if (Object.keys(attributes).length > 0) {
-        doc.attributes = attributes;
-      }
-
-      documents.push(doc);
-    }
-
-    return documents;
-  }
-
-  private parseCSVLine(line: string): string[] {
-    const values: string[] = [];
-    let current = "";
-    let inQuotes = false;
-
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-      const nextChar = line[i + 1];
-
-      if (char === '"' && inQuotes && nextChar === '"') {
-        current += '"';
-        i++; // Skip next quote
-      } else if (char === '"') {
-        inQuotes = !inQuotes;
-      } else if (char === "," && !inQuotes) {
-        values.push(current);
-        current = "";
-      } else {
-        current += char;
-      }
-    }
-
-    values.push(current);
-    return values;
-  }
 }
 
 export const documentService = new DocumentService();
@@ -6,7 +6,10 @@ import type {
   NamespaceSchema,
   NamespacesResponse
 } from '../../types/namespace';
+import type { RecallParams, RecallResult } from '../../types/recall';
+import type { QueryPerformance } from '../../types/cache';
 import { permissionService } from './permissionService';
+import { auditService } from './auditService';
 
 export class NamespaceService {
   private client: Turbopuffer | null = null;
@@ -67,24 +70,68 @@ export class NamespaceService {
     // We'll create an empty document and then delete it
     const ns = this.client.namespace(namespaceId);
     
-    try {
-      // Write a temporary document to create the namespace
-      await ns.write({
-        upsert_columns: {
-          id: ['__temp_init__'],
-          vector: [[0.0, 0.0]], // Minimal vector
-        },
-        distance_metric: 'cosine_distance'
-      });
+    const event = { namespaceId, operation: 'namespace_create' as const, summary: `Create namespace ${namespaceId}` };
+    return auditService.track(event, async () => {
+      try {
+        // Write a temporary document to create the namespace
+        await ns.write({
+          upsert_columns: {
+            id: ['__temp_init__'],
+            vector: [[0.0, 0.0]], // Minimal vector
+          },
+          distance_metric: 'cosine_distance'
+        });
 
-      // Delete the temporary document
-      await ns.write({
-        deletes: ['__temp_init__']
-      });
-    } catch (error) {
-      console.error('Failed to create namespace:', error);
-      throw error;
+        // Delete the temporary document
+        await ns.write({
+          deletes: ['__temp_init__']
+        });
+      } catch (error) {
+        console.error('Failed to create namespace:', error);
+        throw error;
+      }
+    });
+  }
+
+  async namespaceExists(namespaceId: string): Promise<boolean> {
+    if (!this.client) {
+      throw new Error('Turbopuffer client not initialized');
+    }
+
+    return this.client.namespace(namespaceId).exists();
+  }
+
+  /**
+   * Copy every document and the schema of `sourceId` into a new namespace.
+   * The copy runs server-side, so no documents pass through the app.
+   */
+  async copyNamespace(sourceId: string, targetId: string): Promise<void> {
+    permissionService.checkWritePermission();
+
+    if (!this.client) {
+      throw new Error('Turbopuffer client not initialized');
     }
+
+    if (await this.namespaceExists(targetId)) {
+      throw new Error(`Namespace "${targetId}" already exists`);
+    }
+
+    const ns = this.client.namespace(targetId);
+
+    const event = {
+      namespaceId: targetId,
+      operation: 'namespace_copy' as const,
+      summary: `Copy namespace ${sourceId}`,
+      payload: { sourceNamespaceId: sourceId },
+    };
+    return auditService.track(event, async () => {
+      try {
+        await ns.write({ copy_from_namespace: sourceId });
+      } catch (error) {
+        console.error('Failed to copy namespace:', error);
+        throw error;
+      }
+    });
   }
 
   async getNamespaceById(namespaceId: string): Promise<Namespace | null> {
@@ -120,12 +167,15 @@ export class NamespaceService {
 
     const ns = this.client.namespace(namespaceId);
     
-    try {
-      await ns.delete();
-    } catch (error) {
-      console.error('Failed to delete namespace:', error);
-      throw error;
-    }
+    const event = { namespaceId, operation: 'namespace_delete' as const, summary: `Delete namespace ${namespaceId}` };
+    return auditService.track(event, async () => {
+      try {
+        await ns.delete();
+      } catch (error) {
+        console.error('Failed to delete namespace:', error);
+        throw error;
+      }
+    });
   }
 
   async getNamespaceSchema(namespaceId: string): Promise<NamespaceSchema> {
@@ -153,20 +203,89 @@ export class NamespaceService {
 
     const ns = this.client.namespace(namespaceId);
     
-    try {
-      const response = await ns.updateSchema({ schema });
-      // If the response includes HTTP status information, return it
-      // This allows callers to detect HTTP 202 responses for index building
-      if (response && typeof response === 'object' && 'status' in response) {
-        return response as { status: number };
+    const attributes = Object.keys(schema);
+    const event = {
+      namespaceId,
+      operation: 'schema_update' as const,
+      summary: `Update schema of ${attributes.length} attribute${attributes.length !== 1 ? 's' : ''}`,
+      payload: { attributes },
+    };
+    return auditService.track(event, async () => {
+      try {
+        const response = await ns.updateSchema({ schema });
+        // If the response includes HTTP status information, return it
+        // This allows callers to detect HTTP 202 responses for index building
+        if (response && typeof response === 'object' && 'status' in response) {
+          return response as { status: number };
+        }
+        return response;
+      } catch (error) {
+        console.error('Failed to update namespace schema:', error);
+        throw error;
       }
-      return response;
+    });
+  }
+
+  /**
+   * Compare ANN results against exhaustive search for sampled queries.
+   * Runs server-side through the _debug/recall endpoint.
+   */
+  async evaluateRecall(namespaceId: string, params: RecallParams): Promise<RecallResult> {
+    if (!this.client) {
+      throw new Error('Turbopuffer client not initialized');
+    }
+
+    const ns = this.client.namespace(namespaceId);
+
+    try {
+      const response = await ns.recall({
+        num: params.num,
+        top_k: params.topK,
+        ...(params.filters ? { filters: params.filters } : {}),
+      });
+      return {
+        avgRecall: response.avg_recall,
+        avgAnnCount: response.avg_ann_count,
+        avgExhaustiveCount: response.avg_exhaustive_count,
+      };
     } catch (error) {
-      console.error('Failed to update namespace schema:', error);
+      console.error('Failed to evaluate recall:', error);
       throw error;
     }
   }
 
+  async hintCacheWarm(namespaceId: string): Promise<{ status: string; message?: string }> {
+    if (!this.client) {
+      throw new Error('Turbopuffer client not initialized');
+    }
+
+    const ns = this.client.namespace(namespaceId);
+
+    try {
+      return await ns.hintCacheWarm();
+    } catch (error) {
+      console.error('Failed to warm namespace cache:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Run the cheapest possible query to read back the namespace's cache temperature.
+   */
+  async probeCacheTemperature(namespaceId: string): Promise<QueryPerformance> {
+    if (!this.client) {
+      throw new Error('Turbopuffer client not initialized');
+    }
+
+    const ns = this.client.namespace(namespaceId);
+    const response = await ns.query({
+      rank_by: ['id', 'asc'],
+      top_k: 1,
+      include_attributes: ['id'],
+    });
+    return response.performance as QueryPerformance;
+  }
+
   async searchNamespaces(prefix: string): Promise<Namespace[]> {
     const response = await this.listNamespaces({ prefix, page_size: 1000 });
     return response.namespaces;
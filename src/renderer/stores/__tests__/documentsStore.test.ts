@@ -1,11 +1,17 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { useDocumentsStore } from '../documentsStore';
+import { useDocumentsStore, buildActiveFilter } from '../documentsStore';
+import type { FilterNode } from '@/types/unifiedQuery';
+import { documentService } from '../../services/documentService';
 
 vi.mock('../../services/documentService', () => ({
   documentService: {
     getClient: vi.fn(() => null),
     setClient: vi.fn(),
     queryDocuments: vi.fn(),
+    countDocuments: vi.fn(),
+    patchByFilter: vi.fn(),
+    patchRows: vi.fn(),
+    queryKeysetPage: vi.fn(),
   },
 }));
 
@@ -37,16 +43,19 @@ const getInitialState = () => ({
   attributes: [],
   lastQueryResult: null,
   nextCursor: null,
-  previousCursors: [],
+  pageCursors: [],
   currentPage: 1,
   pageSize: 100,
   totalPages: null,
   currentConnectionId: null,
   isLoading: false,
   isRefreshing: false,
+  isLoadingMore: false,
   isDiscoveringAttributes: false,
   error: null,
   selectedDocuments: new Set<string | number>(),
+  pendingChanges: new Map(),
+  isCommittingChanges: false,
   visibleColumns: new Set<string>(),
   isClientInitialized: false,
   initializationAttempts: 0,
@@ -54,6 +63,7 @@ const getInitialState = () => ({
   currentNamespaceId: null,
   searchText: '',
   activeFilters: [],
+  filterGroups: [] as FilterNode[],
   isQueryMode: false,
   sortAttribute: null,
   sortDirection: 'asc' as const,
@@ -63,6 +73,8 @@ const getInitialState = () => ({
   vectorField: null,
   bm25Fields: [],
   bm25Operator: 'sum' as const,
+  rankFusion: 'reciprocal_rank' as const,
+  hybridWeights: { vector: 1, bm25: 1 },
   rankingMode: 'simple' as const,
   rankingExpression: null,
   aggregations: [],
@@ -123,13 +135,13 @@ describe('documentsStore', () => {
     it('resets pagination when search text changes', () => {
       useDocumentsStore.setState({
         currentPage: 5,
-        previousCursors: ['a', 'b', 'c'],
-        nextCursor: 'd',
+        pageCursors: [null, { value: 'a', id: 'a' }, { value: 'b', id: 'b' }, { value: 'c', id: 'c' }],
+        nextCursor: { value: 'd', id: 'd' },
       });
       useDocumentsStore.getState().setSearchText('new search');
       const state = useDocumentsStore.getState();
       expect(state.currentPage).toBe(1);
-      expect(state.previousCursors).toEqual([]);
+      expect(state.pageCursors).toEqual([]);
       expect(state.nextCursor).toBeNull();
     });
   });
@@ -159,13 +171,13 @@ describe('documentsStore', () => {
     it('resets pagination when filter is added', () => {
       useDocumentsStore.setState({
         currentPage: 3,
-        previousCursors: ['x', 'y'],
-        nextCursor: 'z',
+        pageCursors: [null, { value: 'x', id: 'x' }, { value: 'y', id: 'y' }],
+        nextCursor: { value: 'z', id: 'z' },
       });
       useDocumentsStore.getState().addFilter('name', 'equals', 'test');
       const state = useDocumentsStore.getState();
       expect(state.currentPage).toBe(1);
-      expect(state.previousCursors).toEqual([]);
+      expect(state.pageCursors).toEqual([]);
       expect(state.nextCursor).toBeNull();
     });
 
@@ -274,15 +286,15 @@ describe('documentsStore', () => {
     it('resets pagination', () => {
       useDocumentsStore.setState({
         currentPage: 5,
-        previousCursors: ['a', 'b'],
-        nextCursor: 'c',
+        pageCursors: [null, { value: 'a', id: 'a' }, { value: 'b', id: 'b' }],
+        nextCursor: { value: 'c', id: 'c' },
       });
 
       useDocumentsStore.getState().clearFilters();
       const state = useDocumentsStore.getState();
       expect(state.currentPage).toBe(1);
       expect(state.nextCursor).toBeNull();
-      expect(state.previousCursors).toEqual([]);
+      expect(state.pageCursors).toEqual([]);
     });
   });
 
@@ -528,4 +540,261 @@ describe('documentsStore', () => {
       expect(state.visibleColumns.has('name')).toBe(true);
     });
   });
+
+  describe('buildActiveFilter', () => {
+    it('returns undefined without filters or search text', () => {
+      expect(buildActiveFilter(useDocumentsStore.getState())).toBeUndefined();
+    });
+
+    it('combines search text and filters with And', () => {
+      useDocumentsStore.setState({
+        searchText: 'doc',
+        activeFilters: [{ id: '1', attribute: 'status', operator: 'equals', value: 'open', displayValue: 'open' }],
+      });
+      expect(buildActiveFilter(useDocumentsStore.getState())).toEqual([
+        'And',
+        [['id', 'Glob', '*doc*'], ['status', 'Eq', 'open']],
+      ]);
+    });
+
+    it('ANDs nested groups with the flat filters', () => {
+      useDocumentsStore.setState({
+        activeFilters: [{ id: '1', attribute: 'status', operator: 'equals', value: 'open', displayValue: 'open' }],
+        filterGroups: [{
+          id: 'g',
+          type: 'or',
+          children: [
+            { id: 'a', type: 'simple', attribute: 'priority', operator: 'greater', value: 2 },
+            { id: 'n', type: 'not', children: [{ id: 'b', type: 'simple', attribute: 'owner', operator: 'equals', value: null }] },
+          ],
+        }],
+      });
+      expect(buildActiveFilter(useDocumentsStore.getState())).toEqual([
+        'And',
+        [
+          ['status', 'Eq', 'open'],
+          ['Or', [['priority', 'Gt', 2], ['Not', ['owner', 'Eq', null]]]],
+        ],
+      ]);
+    });
+  });
+
+  describe('patchMatchingDocuments', () => {
+    it('refuses to patch without filters', async () => {
+      useDocumentsStore.setState({ currentNamespaceId: 'ns' });
+      await expect(
+        useDocumentsStore.getState().patchMatchingDocuments({ status: 'closed' })
+      ).rejects.toThrow('Add at least one filter');
+      expect(documentService.patchByFilter).not.toHaveBeenCalled();
+    });
+
+    it('patches documents matching the active filters', async () => {
+      vi.mocked(documentService.patchByFilter).mockResolvedValue({ rows_affected: 3 });
+      useDocumentsStore.setState({
+        currentNamespaceId: 'ns',
+        activeFilters: [{ id: '1', attribute: 'status', operator: 'equals', value: 'open', displayValue: 'open' }],
+      });
+
+      const patched = await useDocumentsStore.getState().patchMatchingDocuments({ status: 'closed' });
+
+      expect(patched).toBe(3);
+      expect(documentService.patchByFilter).toHaveBeenCalledWith(
+        'ns',
+        ['status', 'Eq', 'open'],
+        { status: 'closed' },
+        { onProgress: undefined }
+      );
+    });
+  });
+
+  describe('loadDocuments', () => {
+    it('drops a page being appended when another load starts', async () => {
+      vi.mocked(documentService.getClient).mockReturnValue({} as any);
+      useDocumentsStore.setState({
+        currentNamespaceId: 'ns',
+        isClientInitialized: true,
+        documents: [{ id: 'a' }] as any[],
+        totalCount: 10,
+        unfilteredTotalCount: 10,
+        pageSize: 1,
+        currentPage: 1,
+        pageCursors: [null, { value: 'a', id: 'a' }],
+        nextCursor: { value: 'a', id: 'a' },
+      });
+      let finishLoadMore: (() => void) | undefined;
+      vi.mocked(documentService.queryKeysetPage)
+        .mockImplementationOnce(() => new Promise((resolve) => {
+          finishLoadMore = () => resolve({ response: { rows: [{ id: 'b' }] }, nextCursor: { value: 'b', id: 'b' } });
+        }))
+        .mockResolvedValueOnce({ response: { rows: [{ id: 'z' }] }, nextCursor: { value: 'z', id: 'z' } });
+      vi.mocked(documentService.queryDocuments).mockResolvedValue({ rows: [], aggregations: { count: 10 } });
+
+      const loadMore = useDocumentsStore.getState().loadDocuments(false, true);
+      await useDocumentsStore.getState().loadDocuments(true, false, 1, 1);
+      finishLoadMore?.();
+      await loadMore;
+
+      const state = useDocumentsStore.getState();
+      expect(state.documents.map(doc => doc.id)).toEqual(['z']);
+      expect(state.nextCursor).toEqual({ value: 'z', id: 'z' });
+      expect(state.isLoading).toBe(false);
+      expect(state.isLoadingMore).toBe(false);
+    });
+  });
+
+  describe('pending changes', () => {
+    const loaded = () => useDocumentsStore.setState({
+      currentNamespaceId: 'ns',
+      namespaceSchema: { views: { type: 'uint' } },
+      documents: [
+        { id: 'a', label: 'old', views: 1 },
+        { id: 'b', attributes: { label: 'old' } },
+        { id: 'c', label: 'old' },
+      ] as any[],
+    });
+
+    it('stages edits per row and drops edits back to the loaded value', () => {
+      loaded();
+      const store = useDocumentsStore.getState();
+      store.stageCellEdit('a', 'label', 'new');
+      store.stageCellEdit('b', 'label', 'new');
+      store.stageCellEdit('b', 'label', 'old');
+
+      const pending = useDocumentsStore.getState().pendingChanges;
+      expect(Array.from(pending.keys())).toEqual(['a']);
+      expect(pending.get('a')).toMatchObject({ changes: { label: 'new' }, original: { label: 'old' } });
+    });
+
+    it('commits valid rows in one patch and keeps failed rows with their errors', async () => {
+      loaded();
+      vi.mocked(documentService.patchRows).mockResolvedValue({ rows_affected: 1, rows_patched: 1, missingIds: ['b'] });
+      const store = useDocumentsStore.getState();
+      store.stageCellEdit('a', 'label', 'new');
+      store.stageCellEdit('b', 'label', 'new');
+      store.stageCellEdit('c', 'views', -1);
+
+      const result = await useDocumentsStore.getState().commitPendingChanges();
+
+      expect(result).toEqual({ patched: 1, failed: 2 });
+      expect(documentService.patchRows).toHaveBeenCalledWith('ns', [
+        { label: 'new', id: 'a' },
+        { label: 'new', id: 'b' },
+      ]);
+      const state = useDocumentsStore.getState();
+      expect(state.documents[0]).toMatchObject({ label: 'new' });
+      expect(Array.from(state.pendingChanges.keys())).toEqual(['b', 'c']);
+      expect(state.pendingChanges.get('b')?.error).toContain('no longer exists');
+      expect(state.pendingChanges.get('c')?.error).toContain("'views' (uint)");
+    });
+
+    it('keeps edits staged while a commit is in flight', async () => {
+      loaded();
+      let finishWrite: (() => void) | undefined;
+      vi.mocked(documentService.patchRows).mockImplementation(() => new Promise((resolve) => {
+        finishWrite = () => resolve({ rows_affected: 1, rows_patched: 1, missingIds: [] });
+      }));
+      const store = useDocumentsStore.getState();
+      store.stageCellEdit('a', 'label', 'new');
+
+      const commit = useDocumentsStore.getState().commitPendingChanges();
+      store.stageCellEdit('a', 'label', 'newer');
+      store.stageCellEdit('a', 'views', 2);
+      finishWrite?.();
+      await commit;
+
+      const state = useDocumentsStore.getState();
+      expect(state.documents[0]).toMatchObject({ label: 'new', views: 1 });
+      expect(state.pendingChanges.get('a')).toMatchObject({
+        changes: { label: 'newer', views: 2 },
+        original: { label: 'new', views: 1 },
+      });
+    });
+  });
+
+  describe('drillIntoGroup', () => {
+    it('adds an equality filter per group value and leaves aggregation mode', () => {
+      vi.useFakeTimers();
+      useDocumentsStore.setState({
+        activeFilters: [{ id: '1', attribute: 'category', operator: 'equals', value: 'books', displayValue: 'books' }],
+        aggregations: [{ id: 'a', name: 'docs', type: 'count', groupBy: [] }],
+        groupByAttributes: ['category', 'format'],
+        isGroupedQuery: true,
+        aggregationGroups: [{ category: 'books', format: null, docs: 2 }],
+      });
+
+      useDocumentsStore.getState().drillIntoGroup({ category: 'books', format: null });
+
+      const state = useDocumentsStore.getState();
+      expect(state.activeFilters.map(f => [f.attribute, f.operator, f.value])).toEqual([
+        ['category', 'equals', 'books'],
+        ['format', 'equals', null],
+      ]);
+      expect(state.aggregations).toEqual([]);
+      expect(state.groupByAttributes).toEqual([]);
+      expect(state.isGroupedQuery).toBe(false);
+      vi.useRealTimers();
+    });
+  });
+
+  describe('findSimilar', () => {
+    const source = { id: 'doc-1', attributes: { embedding: [0.1, 0.2, 0.3] } };
+
+    it('ranks by the document vector and excludes the document', async () => {
+      useDocumentsStore.setState({
+        currentNamespaceId: 'ns',
+        namespaceSchema: { embedding: { type: { type: '[3]f32', ann: true } } },
+        activeFilters: [{ id: '1', attribute: 'status', operator: 'equals', value: 'open', displayValue: 'open' }],
+      });
+
+      await useDocumentsStore.getState().findSimilar(source as any, { keepFilters: true });
+
+      const state = useDocumentsStore.getState();
+      expect(state.queryMode).toBe('vector');
+      expect(state.vectorField).toBe('embedding');
+      expect(state.vectorQuery).toEqual([0.1, 0.2, 0.3]);
+      expect(state.activeFilters.map(f => [f.attribute, f.operator, f.value])).toEqual([
+        ['status', 'equals', 'open'],
+        ['id', 'not_equals', 'doc-1'],
+      ]);
+      expect(state.visibleColumns.has('$dist')).toBe(true);
+    });
+
+    it('fetches the vector when the row does not carry it', async () => {
+      vi.mocked(documentService.queryDocuments).mockResolvedValueOnce({ rows: [] });
+      useDocumentsStore.setState({ currentNamespaceId: 'ns' });
+
+      await expect(
+        useDocumentsStore.getState().findSimilar({ id: 'doc-2' }, { vectorField: 'vector' })
+      ).rejects.toThrow("Document doc-2 has no vector in 'vector'");
+      expect(documentService.queryDocuments).toHaveBeenCalledWith('ns', {
+        filters: ['id', 'Eq', 'doc-2'],
+        rank_by: ['id', 'asc'],
+        top_k: 1,
+        include_attributes: ['vector'],
+      });
+    });
+  });
+
+  describe('showDocumentsById', () => {
+    it('replaces the query with an id filter in browse mode', () => {
+      vi.useFakeTimers();
+      useDocumentsStore.setState({
+        searchText: 'shoes',
+        activeFilters: [{ id: '1', attribute: 'status', operator: 'equals', value: 'open', displayValue: 'open' }],
+        queryMode: 'vector',
+        vectorQuery: [0.1, 0.2],
+      });
+
+      useDocumentsStore.getState().showDocumentsById(['doc-1', 'doc-7']);
+
+      const state = useDocumentsStore.getState();
+      expect(state.searchText).toBe('');
+      expect(state.activeFilters.map(f => [f.attribute, f.operator, f.value])).toEqual([
+        ['id', 'in', ['doc-1', 'doc-7']],
+      ]);
+      expect(state.queryMode).toBe('browse');
+      expect(state.vectorQuery).toBeNull();
+      vi.useRealTimers();
+    });
+  });
 });
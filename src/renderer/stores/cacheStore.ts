@@ -0,0 +1,243 @@
+import { create } from "zustand";
+import { devtools } from "zustand/middleware";
+import { immer } from "zustand/middleware/immer";
+import { enableMapSet } from "immer";
+import type {
+  CacheSample,
+  CacheSampleSource,
+  CacheWarmStatus,
+  QueryPerformance,
+} from "../../types/cache";
+import { documentService } from "../services/documentService";
+import { namespaceService } from "../services/namespaceService";
+import {
+  appendCacheSample,
+  cacheTimelineKey,
+  isWarmTemperature,
+  toCacheSample,
+} from "../utils/cacheTimeline";
+
+// Enable Set/Map support in Immer
+enableMapSet();
+
+const CACHE_TIMELINES_KEY = 'turbopuffer_cache_timelines';
+const WARM_CONCURRENCY = 4;
+const WARM_VERIFY_ATTEMPTS = 5;
+const WARM_VERIFY_INTERVAL_MS = 3000;
+
+const EMPTY_TIMELINE: CacheSample[] = [];
+
+interface WarmBatch {
+  connectionId: string;
+  namespaceIds: string[];
+  startedAt: number;
+  finishedAt?: number;
+}
+
+interface CacheState {
+  // Timelines keyed by `${connectionId}::${namespaceId}`
+  timelines: Map<string, CacheSample[]>;
+
+  // Warm State, keyed like timelines
+  warmStatus: Map<string, CacheWarmStatus>;
+  warmSelection: Set<string>;
+  lastWarmBatch: WarmBatch | null;
+  isWarming: boolean;
+}
+
+interface CacheActions {
+  // Timeline Actions
+  recordSample: (
+    connectionId: string,
+    namespaceId: string,
+    performance: QueryPerformance,
+    source: CacheSampleSource
+  ) => void;
+  getTimeline: (connectionId: string, namespaceId: string) => CacheSample[];
+  clearTimeline: (connectionId: string, namespaceId: string) => void;
+
+  // Warm Actions
+  warmNamespaces: (connectionId: string, namespaceIds: string[]) => Promise<void>;
+  getWarmStatus: (connectionId: string, namespaceId: string) => CacheWarmStatus | undefined;
+  toggleWarmSelection: (namespaceId: string) => void;
+  setWarmSelection: (namespaceIds: string[]) => void;
+  clearWarmSelection: () => void;
+  dismissWarmBatch: () => void;
+}
+
+type CacheStore = CacheState & CacheActions;
+
+const loadTimelines = (): Map<string, CacheSample[]> => {
+  try {
+    const stored = localStorage.getItem(CACHE_TIMELINES_KEY);
+    if (stored) {
+      return new Map(Object.entries(JSON.parse(stored) as Record<string, CacheSample[]>));
+    }
+  } catch (error) {
+    console.error('Failed to load cache timelines:', error);
+  }
+  return new Map();
+};
+
+const persistTimelines = (timelines: Map<string, CacheSample[]>) => {
+  try {
+    localStorage.setItem(CACHE_TIMELINES_KEY, JSON.stringify(Object.fromEntries(timelines)));
+  } catch (error) {
+    console.error('Failed to persist cache timelines:', error);
+  }
+};
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const useCacheStore = create<CacheStore>()(
+  devtools(
+    immer((set, get) => ({
+      // Initial State
+      timelines: loadTimelines(),
+      warmStatus: new Map(),
+      warmSelection: new Set(),
+      lastWarmBatch: null,
+      isWarming: false,
+
+      // Timeline Actions
+      recordSample: (connectionId, namespaceId, performance, source) => {
+        const key = cacheTimelineKey(connectionId, namespaceId);
+        set((state) => {
+          const samples = state.timelines.get(key) ?? [];
+          state.timelines.set(key, appendCacheSample(samples, toCacheSample(performance, source)));
+        });
+        persistTimelines(get().timelines);
+      },
+
+      getTimeline: (connectionId, namespaceId) => {
+        return get().timelines.get(cacheTimelineKey(connectionId, namespaceId)) ?? EMPTY_TIMELINE;
+      },
+
+      clearTimeline: (connectionId, namespaceId) => {
+        set((state) => {
+          state.timelines.delete(cacheTimelineKey(connectionId, namespaceId));
+        });
+        persistTimelines(get().timelines);
+      },
+
+      // Warm Actions
+      warmNamespaces: async (connectionId, namespaceIds) => {
+        const ids = Array.from(new Set(namespaceIds));
+        if (ids.length === 0 || get().isWarming) return;
+
+        const startedAt = Date.now();
+        set((state) => {
+          state.isWarming = true;
+          state.lastWarmBatch = { connectionId, namespaceIds: ids, startedAt };
+          ids.forEach(id => {
+            state.warmStatus.set(cacheTimelineKey(connectionId, id), { state: 'queued', startedAt });
+          });
+        });
+
+        const updateStatus = (namespaceId: string, update: Partial<CacheWarmStatus>) => {
+          set((state) => {
+            const key = cacheTimelineKey(connectionId, namespaceId);
+            const current = state.warmStatus.get(key) ?? { state: 'queued', startedAt };
+            state.warmStatus.set(key, { ...current, ...update });
+          });
+        };
+
+        const warmOne = async (namespaceId: string) => {
+          updateStatus(namespaceId, { state: 'warming', startedAt: Date.now() });
+          try {
+            const response = await namespaceService.hintCacheWarm(namespaceId);
+            updateStatus(namespaceId, { state: 'verifying', message: response.message });
+          } catch (error) {
+            updateStatus(namespaceId, {
+              state: 'failed',
+              message: error instanceof Error ? error.message : 'Failed to warm cache',
+              finishedAt: Date.now(),
+            });
+            return;
+          }
+
+          // The hint is asynchronous, so poll a tiny query until the namespace reports warm
+          let lastError: string | undefined;
+          for (let attempt = 0; attempt < WARM_VERIFY_ATTEMPTS; attempt++) {
+            await delay(WARM_VERIFY_INTERVAL_MS);
+            try {
+              const performance = await namespaceService.probeCacheTemperature(namespaceId);
+              get().recordSample(connectionId, namespaceId, performance, 'warm_probe');
+              updateStatus(namespaceId, { temperature: performance.cache_temperature });
+              if (isWarmTemperature(performance.cache_temperature)) {
+                updateStatus(namespaceId, { state: 'warm', finishedAt: Date.now() });
+                return;
+              }
+            } catch (error) {
+              lastError = error instanceof Error ? error.message : 'Probe query failed';
+            }
+          }
+
+          updateStatus(namespaceId, {
+            state: 'unverified',
+            message: lastError ?? 'Cache still cold after the hint was accepted',
+            finishedAt: Date.now(),
+          });
+        };
+
+        const queue = [...ids];
+        const worker = async () => {
+          for (let id = queue.shift(); id !== undefined; id = queue.shift()) {
+            await warmOne(id);
+          }
+        };
+
+        try {
+          await Promise.all(
+            Array.from({ length: Math.min(WARM_CONCURRENCY, ids.length) }, () => worker())
+          );
+        } finally {
+          set((state) => {
+            state.isWarming = false;
+            if (state.lastWarmBatch?.startedAt === startedAt) {
+              state.lastWarmBatch.finishedAt = Date.now();
+            }
+          });
+        }
+      },
+
+      getWarmStatus: (connectionId, namespaceId) => {
+        return get().warmStatus.get(cacheTimelineKey(connectionId, namespaceId));
+      },
+
+      toggleWarmSelection: (namespaceId) => {
+        set((state) => {
+          if (state.warmSelection.has(namespaceId)) {
+            state.warmSelection.delete(namespaceId);
+          } else {
+            state.warmSelection.add(namespaceId);
+          }
+        });
+      },
+
+      setWarmSelection: (namespaceIds) => {
+        set((state) => {
+          state.warmSelection = new Set(namespaceIds);
+        });
+      },
+
+      clearWarmSelection: () => {
+        set((state) => {
+          state.warmSelection = new Set();
+        });
+      },
+
+      dismissWarmBatch: () => {
+        set((state) => {
+          state.lastWarmBatch = null;
+        });
+      },
+    })),
+    { name: 'CacheStore' }
+  )
+);
+
+// Record every query the app runs into the namespace's timeline
+documentService.onQueryPerformance((connectionId, namespaceId, performance, source) => {
+  useCacheStore.getState().recordSample(connectionId, namespaceId, performance, source);
+});
@@ -2,20 +2,38 @@ import { create } from "zustand";
 import { devtools, subscribeWithSelector } from "zustand/middleware";
 import { immer } from "zustand/middleware/immer";
 import { enableMapSet } from "immer";
+import type { WritableDraft } from "immer";
 import type {
   Document,
   Filter as TurbopufferFilter,
   DocumentsQueryResponse,
   AggregationGroup,
+  ConditionalWriteOptions,
+  RankFusionMethod,
 } from "../../types/document";
 import type { DiscoveredAttribute } from "../../types/attributeDiscovery";
 import type { TurbopufferRegion } from "../../types/connection";
+import type { NamespaceSchema } from "../../types/namespace";
 import { documentService } from "../services/documentService";
 import { turbopufferService } from "../services/turbopufferService";
 import { attributeDiscoveryService } from "../services/attributeDiscoveryService";
 import { namespaceService } from "../services/namespaceService";
 import { generateFilterDescription } from "../utils/filterDescriptions";
-import { isArrayType, parseValueForFieldType } from "../utils/filterTypeConversion";
+import {
+  buildAggregateBy,
+  deriveAggregationValues,
+  toAggregationValues,
+  validateAggregations,
+} from "../utils/aggregations";
+import type { AggregationConfig, AggregationValue } from "../utils/aggregations";
+import { formatFilterDisplayValue, parseFilterInput } from "../utils/filterTypeConversion";
+import { convertFilterNode, convertSimpleFilter } from "../utils/filterConversion";
+import { createFilterLeaf, insertFilterNode, stripFilterNodeIds, updateFilterNode } from "../utils/filterTree";
+import type { FilterNode } from "@/types/unifiedQuery";
+import { fuseResults, type FusionInput } from "../utils/rankFusion";
+import { validateAttributeValue, validateQuery, vectorAttributesOf } from "../utils/queryValidation";
+import { cellValuesEqual } from "../utils/cellEditing";
+import type { KeysetCursor, KeysetOrder } from "../utils/keysetPagination";
 
 export type FilterOperator =
   // Equality
@@ -52,6 +70,7 @@ interface FilterHistoryEntry {
   name: string;
   searchText: string;
   filters: SimpleFilter[];
+  groups?: FilterNode[]; // Nested groups ANDed with `filters`
   timestamp: number;
   appliedCount: number;
   description?: string;
@@ -61,19 +80,29 @@ interface RecentFilterEntry {
   id: string;
   searchText: string;
   filters: SimpleFilter[];
+  groups?: FilterNode[]; // Nested groups ANDed with `filters`
   timestamp: number;
   description?: string;
 }
 
+// Inline edits to one document, staged until the change set is committed
+export interface PendingRowChange {
+  id: string | number;
+  changes: Record<string, any>; // Attribute -> edited value
+  original: Record<string, any>; // Attribute -> value when first edited
+  error?: string; // Why the last commit left this row unwritten
+}
+
 interface DocumentsState {
   // Data
   documents: Document[];
   totalCount: number | null;
   unfilteredTotalCount: number | null; // Store the total count without filters
   attributes: DiscoveredAttribute[];
+  namespaceSchema: NamespaceSchema | null; // Used to validate queries before they are sent
   lastQueryResult: DocumentsQueryResponse | null;
-  nextCursor: string | number | null;
-  previousCursors: (string | number)[];  // Stack of previous cursors for backward navigation
+  nextCursor: KeysetCursor | null;
+  pageCursors: (KeysetCursor | null)[]; // Cursor each visited page starts after; index 0 is page 1
   currentPage: number;
   pageSize: number;
   totalPages: number | null;
@@ -84,9 +113,12 @@ interface DocumentsState {
   // UI State
   isLoading: boolean;
   isRefreshing: boolean;
+  isLoadingMore: boolean; // Appending the next page in the background
   isDiscoveringAttributes: boolean;
   error: string | null;
   selectedDocuments: Set<string | number>;
+  pendingChanges: Map<string | number, PendingRowChange>;
+  isCommittingChanges: boolean;
   visibleColumns: Set<string>;
   wrapCellText: boolean;
   shrinkLargeText: boolean;
@@ -100,19 +132,22 @@ interface DocumentsState {
   currentNamespaceId: string | null;
   searchText: string;
   activeFilters: SimpleFilter[];
+  filterGroups: FilterNode[]; // AND/OR/NOT groups, ANDed with activeFilters
   isQueryMode: boolean;
   sortAttribute: string | null;
   sortDirection: 'asc' | 'desc';
-  queryMode: 'browse' | 'bm25' | 'vector';
+  queryMode: 'browse' | 'bm25' | 'vector' | 'hybrid';
   searchField: string | null;
   vectorQuery: number[] | null;
   vectorField: string | null;
   bm25Fields: { field: string; weight: number }[];
   bm25Operator: 'sum' | 'max' | 'product';
+  rankFusion: RankFusionMethod; // How hybrid subquery results are merged
+  hybridWeights: { vector: number; bm25: number };
   rankingMode: 'simple' | 'expression';
   rankingExpression: any | null; // RankingExprNode from RankingExpressionBuilder
-  aggregations: any[]; // AggregationConfig[] from AggregationsPanel
-  aggregationResults: any | null; // Parsed aggregation results from query
+  aggregations: AggregationConfig[];
+  aggregationResults: AggregationValue[] | null; // Ungrouped results, averages derived
 
   // NEW: Grouped Aggregations State
   groupByAttributes: string[]; // NEW: Selected attributes for grouping
@@ -149,6 +184,21 @@ interface DocumentsState {
     value: any
   ) => void;
   removeFilter: (filterId: string) => void;
+  setFilterGroups: (groups: FilterNode[]) => void;
+  addGroupFilter: (
+    parentId: string,
+    attribute: string,
+    operator: SimpleFilter["operator"],
+    value: any
+  ) => void;
+  updateGroupFilter: (
+    nodeId: string,
+    attribute: string,
+    operator: SimpleFilter["operator"],
+    value: any
+  ) => void;
+  moveFilterIntoGroup: (filterId: string, groupId: string) => void;
+  replaceFilters: (filters: SimpleFilter[], groups: FilterNode[], searchText?: string) => void;
   clearFilters: () => void;
   clearAllFilters: () => void;
   setSelectedDocuments: (selected: Set<string | number>) => void;
@@ -159,14 +209,18 @@ interface DocumentsState {
   setShrinkLargeText: (shrink: boolean) => void;
   toggleShrinkLargeText: () => void;
   setSortAttribute: (attribute: string | null, direction: 'asc' | 'desc') => void;
-  setQueryMode: (mode: 'browse' | 'bm25' | 'vector') => void;
+  setQueryMode: (mode: 'browse' | 'bm25' | 'vector' | 'hybrid') => void;
   setSearchField: (field: string | null) => void;
   setVectorQuery: (vector: number[] | null, field: string) => void;
   setBM25Config: (fields: { field: string; weight: number }[], operator: 'sum' | 'max' | 'product') => void;
+  setHybridConfig: (method: RankFusionMethod, weights: { vector: number; bm25: number }) => void;
   setRankingMode: (mode: 'simple' | 'expression') => void;
   setRankingExpression: (expression: any | null) => void;
-  setAggregations: (aggregations: any[]) => void;
+  setAggregations: (aggregations: AggregationConfig[]) => void;
   setGroupByAttributes: (attributes: string[]) => void; // NEW: Set group-by attributes
+  drillIntoGroup: (key: Record<string, unknown>) => void;
+  findSimilar: (document: Document, options?: { vectorField?: string; keepFilters?: boolean }) => Promise<void>;
+  showDocumentsById: (ids: (string | number)[]) => void;
 
   // Filter History Actions
   saveToFilterHistory: (name: string) => void;
@@ -187,21 +241,26 @@ interface DocumentsState {
   ) => Promise<void>; discoverAttributes: (force?: boolean) => Promise<void>;
   discoverAttributesFromDocuments: (documents: Document[]) => void;
   loadSchemaAndInitColumns: () => Promise<void>;
-  deleteDocuments: (ids: (string | number)[]) => Promise<void>;
+  deleteDocuments: (ids: (string | number)[], condition?: TurbopufferFilter) => Promise<void>;
   updateDocument: (
     id: string | number,
-    attributes: Record<string, any>
+    attributes: Record<string, any>,
+    options?: ConditionalWriteOptions
   ) => Promise<void>;
+  stageCellEdit: (id: string | number, attribute: string, value: any) => void;
+  discardPendingChanges: (id?: string | number) => void;
+  commitPendingChanges: () => Promise<{ patched: number; failed: number }>;
+  countMatchingDocuments: () => Promise<number>;
+  patchMatchingDocuments: (
+    attributes: Record<string, any>,
+    onProgress?: (patched: number) => void
+  ) => Promise<number>;
   importDocuments: (documents: Document[]) => Promise<void>;
   refresh: () => Promise<void>;
   exportDocuments: (
     format: "json" | "csv",
     documentIds?: string[]
   ) => Promise<{ filePath: string | null; canceled: boolean }>;
-  exportFullNamespace: (
-    format: "json" | "csv",
-    onProgress?: (exported: number, total?: number) => void
-  ) => Promise<{ filePath: string | null; canceled: boolean; totalExported: number }>;
 
   // Raw Query Actions
   setRawQueryResults: (documents: Document[], queryResponse?: any) => void;
@@ -220,6 +279,61 @@ const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
 const DEBOUNCE_DELAY = 500; // 500ms
 
 let searchDebounceTimer: NodeJS.Timeout | null = null;
+let loadGeneration = 0;
+
+/**
+ * Remember where `page` starts and where the page after it starts, so paging
+ * back and forth never re-seeks. A missing next cursor marks the last page.
+ */
+function recordPageCursors(
+  known: (KeysetCursor | null)[],
+  page: number,
+  cursor: KeysetCursor | null,
+  nextCursor: KeysetCursor | null
+): (KeysetCursor | null)[] {
+  const cursors = known.slice(0, nextCursor ? undefined : page);
+  cursors[page - 1] = cursor;
+  if (nextCursor) cursors[page] = nextCursor;
+  return cursors;
+}
+
+/**
+ * Build the Turbopuffer filter for the current search text and active filters.
+ * Shared by document loading and bulk writes so both target the same rows.
+ */
+export function buildActiveFilter(
+  state: Pick<DocumentsState, "searchText" | "queryMode" | "activeFilters" | "filterGroups" | "attributes">
+): TurbopufferFilter | undefined {
+  const filters: TurbopufferFilter[] = [];
+
+  // In Browse mode, search text is used for ID lookup only
+  // For full-text search across content fields, users should use BM25 mode
+  // This avoids errors with BM25-enabled fields that have filtering disabled
+  if (state.searchText.trim() && state.queryMode === 'browse') {
+    // Only search by ID in browse mode - treat as ID contains/starts with
+    // Use Glob pattern for partial ID matching
+    filters.push(["id", "Glob", `*${state.searchText.trim()}*`] as TurbopufferFilter);
+  }
+
+  // Add attribute filters
+  state.activeFilters.forEach((filter) => {
+    const converted = convertSimpleFilter(filter, state.attributes);
+    if (converted) filters.push(converted as TurbopufferFilter);
+  });
+
+  // Add nested groups
+  state.filterGroups.forEach((group) => {
+    const groupFilter = convertFilterNode(group, state.attributes);
+    if (groupFilter) filters.push(groupFilter as TurbopufferFilter);
+  });
+
+  // Combine filters with AND
+  return filters.length === 0
+      ? undefined
+      : filters.length === 1
+        ? filters[0]
+        : ["And", filters];
+}
 
 export const useDocumentsStore = create<DocumentsState>()(
   devtools(
@@ -230,17 +344,21 @@ export const useDocumentsStore = create<DocumentsState>()(
         totalCount: null,
         unfilteredTotalCount: null,
         attributes: [],
+        namespaceSchema: null,
         lastQueryResult: null,
         nextCursor: null,
-        previousCursors: [],
+        pageCursors: [],
         currentPage: 1,
         pageSize: 100,
         totalPages: null,
         isLoading: false,
         isRefreshing: false,
+        isLoadingMore: false,
         isDiscoveringAttributes: false,
         error: null,
         selectedDocuments: new Set(),
+        pendingChanges: new Map(),
+        isCommittingChanges: false,
         visibleColumns: new Set(),
         // UI options
         wrapCellText: false,
@@ -252,6 +370,7 @@ export const useDocumentsStore = create<DocumentsState>()(
         currentNamespaceId: null,
         searchText: "",
         activeFilters: [],
+        filterGroups: [],
         isQueryMode: false,
         sortAttribute: null,
         sortDirection: 'asc',
@@ -261,6 +380,8 @@ export const useDocumentsStore = create<DocumentsState>()(
         vectorField: null,
         bm25Fields: [],
         bm25Operator: 'sum',
+        rankFusion: 'reciprocal_rank',
+        hybridWeights: { vector: 1, bm25: 1 },
         rankingMode: 'simple',
         rankingExpression: null,
         aggregations: [],
@@ -294,14 +415,17 @@ export const useDocumentsStore = create<DocumentsState>()(
               state.totalCount = null;
               state.unfilteredTotalCount = null;
               state.attributes = [];
+              state.namespaceSchema = null;
               state.lastQueryResult = null;
               state.nextCursor = null;
-              state.previousCursors = [];
+              state.pageCursors = [];
               state.currentPage = 1;
               state.selectedDocuments = new Set();
+              state.pendingChanges = new Map();
               state.visibleColumns = new Set();
               state.searchText = "";
               state.activeFilters = [];
+              state.filterGroups = [];
               state.isQueryMode = false;
               state.sortAttribute = null;
               state.sortDirection = 'asc';
@@ -351,10 +475,10 @@ export const useDocumentsStore = create<DocumentsState>()(
           set((state) => {
             state.searchText = text;
             state.isQueryMode =
-              text.length > 0 || state.activeFilters.length > 0;
+              text.length > 0 || state.activeFilters.length > 0 || state.filterGroups.length > 0;
             // Reset pagination when search text changes
             state.currentPage = 1;
-            state.previousCursors = [];
+            state.pageCursors = [];
             state.nextCursor = null;
 
             // Clear previous timer
@@ -391,29 +515,7 @@ export const useDocumentsStore = create<DocumentsState>()(
           });
 
           // Convert the raw value to the correct type
-          let typedValue: any = rawValue;
-
-          // Handle different input formats
-          if (operator === "in" || operator === "not_in") {
-            // For in/not_in operators, ensure we have an array
-            if (!Array.isArray(rawValue)) {
-              // Parse comma-separated string into array
-              const values = String(rawValue).split(",").map(v => v.trim()).filter(v => v);
-              typedValue = values.map(v => parseValueForFieldType(v, fieldType));
-            } else {
-              // Convert each element in the array
-              typedValue = rawValue.map((v: any) =>
-                typeof v === 'string' ? parseValueForFieldType(v, fieldType) : v
-              );
-            }
-          } else if (rawValue === "null" || (typeof rawValue === 'string' && rawValue.toLowerCase() === "null")) {
-            typedValue = null;
-          } else {
-            // Single value - convert to appropriate type
-            typedValue = typeof rawValue === 'string'
-              ? parseValueForFieldType(rawValue, fieldType)
-              : rawValue;
-          }
+          const typedValue = parseFilterInput(operator, rawValue, fieldType);
 
           console.log("🔍 Type conversion result:", {
             fieldType,
@@ -424,20 +526,7 @@ export const useDocumentsStore = create<DocumentsState>()(
           });
 
           // Create human-readable display value
-          let displayValue: string;
-          if (typedValue === null) {
-            displayValue = "null";
-          } else if (Array.isArray(typedValue)) {
-            if (typedValue.length > 3) {
-              displayValue = `[${typedValue.slice(0, 3).join(', ')}, ...]`;
-            } else {
-              displayValue = `[${typedValue.join(', ')}]`;
-            }
-          } else if (typeof typedValue === "object") {
-            displayValue = JSON.stringify(typedValue);
-          } else {
-            displayValue = String(typedValue);
-          }
+          const displayValue = formatFilterDisplayValue(typedValue);
 
           const newFilter: SimpleFilter = {
             id: `${Date.now()}-${Math.random()}`,
@@ -458,7 +547,7 @@ export const useDocumentsStore = create<DocumentsState>()(
             state.isQueryMode = true;
             // Reset pagination when filters change
             state.currentPage = 1;
-            state.previousCursors = [];
+            state.pageCursors = [];
             state.nextCursor = null;
             console.log(
               "After adding filter - activeFilters:",
@@ -490,40 +579,8 @@ export const useDocumentsStore = create<DocumentsState>()(
           const fieldType = attributeInfo?.type;
 
           // Convert the raw value to the correct type (same logic as addFilter)
-          let typedValue: any = rawValue;
-
-          if (operator === "in" || operator === "not_in") {
-            if (!Array.isArray(rawValue)) {
-              const values = String(rawValue).split(",").map(v => v.trim()).filter(v => v);
-              typedValue = values.map(v => parseValueForFieldType(v, fieldType));
-            } else {
-              typedValue = rawValue.map((v: any) =>
-                typeof v === 'string' ? parseValueForFieldType(v, fieldType) : v
-              );
-            }
-          } else if (rawValue === "null" || (typeof rawValue === 'string' && rawValue.toLowerCase() === "null")) {
-            typedValue = null;
-          } else {
-            typedValue = typeof rawValue === 'string'
-              ? parseValueForFieldType(rawValue, fieldType)
-              : rawValue;
-          }
-
-          // Create display value
-          let displayValue: string;
-          if (typedValue === null) {
-            displayValue = "null";
-          } else if (Array.isArray(typedValue)) {
-            if (typedValue.length > 3) {
-              displayValue = `[${typedValue.slice(0, 3).join(', ')}, ...]`;
-            } else {
-              displayValue = `[${typedValue.join(', ')}]`;
-            }
-          } else if (typeof typedValue === "object") {
-            displayValue = JSON.stringify(typedValue);
-          } else {
-            displayValue = String(typedValue);
-          }
+          const typedValue = parseFilterInput(operator, rawValue, fieldType);
+          const displayValue = formatFilterDisplayValue(typedValue);
 
           set((state) => {
             const filterIndex = state.activeFilters.findIndex(f => f.id === filterId);
@@ -538,7 +595,7 @@ export const useDocumentsStore = create<DocumentsState>()(
             }
             // Reset pagination when filters change
             state.currentPage = 1;
-            state.previousCursors = [];
+            state.pageCursors = [];
             state.nextCursor = null;
           });
 
@@ -555,10 +612,10 @@ export const useDocumentsStore = create<DocumentsState>()(
               (f) => f.id !== filterId
             );
             state.isQueryMode =
-              state.searchText.length > 0 || state.activeFilters.length > 0;
+              state.searchText.length > 0 || state.activeFilters.length > 0 || state.filterGroups.length > 0;
             // Reset pagination when filters change
             state.currentPage = 1;
-            state.previousCursors = [];
+            state.pageCursors = [];
             state.nextCursor = null;
 
             // Log the filter change
@@ -568,13 +625,72 @@ export const useDocumentsStore = create<DocumentsState>()(
             setTimeout(() => get().loadDocuments(true, false, get().pageSize, 1), 0);
           }),
 
+        setFilterGroups: (groups) => {
+          set((state) => {
+            state.filterGroups = groups;
+            state.isQueryMode =
+              state.searchText.length > 0 || state.activeFilters.length > 0 || groups.length > 0;
+            // Reset pagination when filters change
+            state.currentPage = 1;
+            state.pageCursors = [];
+            state.nextCursor = null;
+          });
+
+          // Log the filter change
+          setTimeout(() => get().logFilterChange(), 100);
+
+          // Automatically load documents when groups change - force page 1
+          setTimeout(() => get().loadDocuments(true, false, get().pageSize, 1), 0);
+        },
+
+        addGroupFilter: (parentId, attribute, operator, rawValue) => {
+          const state = get();
+          const fieldType = state.attributes.find(a => a.name === attribute)?.type;
+          const typedValue = parseFilterInput(operator, rawValue, fieldType);
+          const leaf = createFilterLeaf(attribute, operator, typedValue, formatFilterDisplayValue(typedValue));
+          get().setFilterGroups(insertFilterNode(state.filterGroups, parentId, leaf));
+        },
+
+        moveFilterIntoGroup: (filterId, groupId) => {
+          const state = get();
+          const filter = state.activeFilters.find(f => f.id === filterId);
+          if (!filter) return;
+          const leaf = createFilterLeaf(filter.attribute, filter.operator, filter.value, filter.displayValue);
+          set((state) => {
+            state.activeFilters = state.activeFilters.filter(f => f.id !== filterId);
+          });
+          get().setFilterGroups(insertFilterNode(state.filterGroups, groupId, leaf));
+        },
+
+        replaceFilters: (filters, groups, searchText = "") => {
+          set((state) => {
+            state.searchText = searchText;
+            state.activeFilters = filters;
+          });
+          get().setFilterGroups(groups);
+        },
+
+        updateGroupFilter: (nodeId, attribute, operator, rawValue) => {
+          const state = get();
+          const fieldType = state.attributes.find(a => a.name === attribute)?.type;
+          const typedValue = parseFilterInput(operator, rawValue, fieldType);
+          get().setFilterGroups(updateFilterNode(state.filterGroups, nodeId, node => ({
+            ...node,
+            attribute,
+            operator,
+            value: typedValue,
+            displayValue: formatFilterDisplayValue(typedValue),
+          })));
+        },
+
         clearFilters: () =>
           set((state) => {
             state.searchText = "";
             state.activeFilters = [];
+            state.filterGroups = [];
             state.isQueryMode = false;
             state.nextCursor = null; // Reset pagination when clearing filters
-            state.previousCursors = [];
+            state.pageCursors = [];
             state.currentPage = 1;
 
             // Clear debounce timer
@@ -593,9 +709,10 @@ export const useDocumentsStore = create<DocumentsState>()(
           set((state) => {
             state.searchText = "";
             state.activeFilters = [];
+            state.filterGroups = [];
             state.isQueryMode = false;
             state.nextCursor = null; // Reset pagination when clearing filters
-            state.previousCursors = [];
+            state.pageCursors = [];
             state.currentPage = 1;
 
             // Clear debounce timer
@@ -655,7 +772,7 @@ export const useDocumentsStore = create<DocumentsState>()(
             state.sortDirection = direction;
             // Reset pagination when sort changes
             state.currentPage = 1;
-            state.previousCursors = [];
+            state.pageCursors = [];
             state.nextCursor = null;
           }),
 
@@ -664,7 +781,7 @@ export const useDocumentsStore = create<DocumentsState>()(
             state.queryMode = mode;
             // Reset pagination when query mode changes
             state.currentPage = 1;
-            state.previousCursors = [];
+            state.pageCursors = [];
             state.nextCursor = null;
           }),
 
@@ -673,7 +790,7 @@ export const useDocumentsStore = create<DocumentsState>()(
             state.searchField = field;
             // Reset pagination when search field changes
             state.currentPage = 1;
-            state.previousCursors = [];
+            state.pageCursors = [];
             state.nextCursor = null;
           }),
 
@@ -683,7 +800,7 @@ export const useDocumentsStore = create<DocumentsState>()(
             state.vectorField = field;
             // Reset pagination when vector query changes
             state.currentPage = 1;
-            state.previousCursors = [];
+            state.pageCursors = [];
             state.nextCursor = null;
           }),
 
@@ -693,7 +810,17 @@ export const useDocumentsStore = create<DocumentsState>()(
             state.bm25Operator = operator;
             // Reset pagination when BM25 config changes
             state.currentPage = 1;
-            state.previousCursors = [];
+            state.pageCursors = [];
+            state.nextCursor = null;
+          }),
+
+        setHybridConfig: (method, weights) =>
+          set((state) => {
+            state.rankFusion = method;
+            state.hybridWeights = weights;
+            // Reset pagination when fusion config changes
+            state.currentPage = 1;
+            state.pageCursors = [];
             state.nextCursor = null;
           }),
 
@@ -702,7 +829,7 @@ export const useDocumentsStore = create<DocumentsState>()(
             state.rankingMode = mode;
             // Reset pagination when ranking mode changes
             state.currentPage = 1;
-            state.previousCursors = [];
+            state.pageCursors = [];
             state.nextCursor = null;
           }),
 
@@ -711,7 +838,7 @@ export const useDocumentsStore = create<DocumentsState>()(
             state.rankingExpression = expression;
             // Reset pagination when ranking expression changes
             state.currentPage = 1;
-            state.previousCursors = [];
+            state.pageCursors = [];
             state.nextCursor = null;
           }),
 
@@ -720,7 +847,7 @@ export const useDocumentsStore = create<DocumentsState>()(
             state.aggregations = aggregations;
             // Reset pagination when aggregations change
             state.currentPage = 1;
-            state.previousCursors = [];
+            state.pageCursors = [];
             state.nextCursor = null;
           }),
 
@@ -731,7 +858,7 @@ export const useDocumentsStore = create<DocumentsState>()(
             state.isGroupedQuery = attributes.length > 0;
             // Reset pagination when grouping changes
             state.currentPage = 1;
-            state.previousCursors = [];
+            state.pageCursors = [];
             state.nextCursor = null;
             // Clear previous grouped results when grouping changes
             if (attributes.length === 0) {
@@ -739,10 +866,130 @@ export const useDocumentsStore = create<DocumentsState>()(
             }
           }),
 
+        // Leave aggregation mode and list the documents behind one group
+        drillIntoGroup: (key) => {
+          set((state) => {
+            Object.entries(key).forEach(([attribute, value]) => {
+              const exists = state.activeFilters.some(
+                (f) => f.attribute === attribute && f.operator === "equals" && f.value === value
+              );
+              if (exists) return;
+              state.activeFilters.push({
+                id: `${Date.now()}-${Math.random()}`,
+                attribute,
+                operator: "equals",
+                value,
+                displayValue: formatFilterDisplayValue(value),
+              });
+            });
+            state.aggregations = [];
+            state.aggregationResults = null;
+            state.groupByAttributes = [];
+            state.aggregationGroups = null;
+            state.isGroupedQuery = false;
+            state.isQueryMode = true;
+            state.currentPage = 1;
+            state.pageCursors = [];
+            state.nextCursor = null;
+          });
+
+          setTimeout(() => get().logFilterChange(), 100);
+          setTimeout(() => get().loadDocuments(true, false, get().pageSize, 1), 0);
+        },
+
+        // Rank the namespace by distance to one document's vector, leaving the
+        // document itself out. Its vector is read from the row when the table
+        // has it, otherwise fetched.
+        findSimilar: async (document, options = {}) => {
+          const state = get();
+          if (!state.currentNamespaceId) return;
+          const vectorField =
+            options.vectorField ?? vectorAttributesOf(state.namespaceSchema)[0] ?? "vector";
+
+          const isVectorValue = (value: unknown): value is number[] =>
+            Array.isArray(value) && value.length > 0 && value.every((v) => typeof v === "number");
+          let vector: unknown = (document as Record<string, any>)[vectorField] ?? document.attributes?.[vectorField];
+          if (!isVectorValue(vector)) {
+            const result = await documentService.queryDocuments(state.currentNamespaceId, {
+              filters: ["id", "Eq", document.id] as TurbopufferFilter,
+              rank_by: ["id", "asc"],
+              top_k: 1,
+              include_attributes: [vectorField],
+            });
+            vector = (result.rows?.[0] as Record<string, any> | undefined)?.[vectorField];
+          }
+          if (!isVectorValue(vector)) {
+            throw new Error(`Document ${document.id} has no vector in '${vectorField}'`);
+          }
+          const sourceVector = vector;
+
+          set((state) => {
+            if (!options.keepFilters) {
+              state.searchText = "";
+              state.activeFilters = [];
+              state.filterGroups = [];
+            }
+            // A visible chip, so the source can be brought back by removing it
+            state.activeFilters.push({
+              id: `${Date.now()}-${Math.random()}`,
+              attribute: "id",
+              operator: "not_equals",
+              value: document.id,
+              displayValue: formatFilterDisplayValue(document.id),
+            });
+            state.queryMode = "vector";
+            state.vectorQuery = sourceVector;
+            state.vectorField = vectorField;
+            state.rankingMode = "simple";
+            state.aggregations = [];
+            state.aggregationResults = null;
+            state.groupByAttributes = [];
+            state.aggregationGroups = null;
+            state.isGroupedQuery = false;
+            state.visibleColumns.add("$dist");
+            state.isQueryMode = true;
+            state.currentPage = 1;
+            state.pageCursors = [];
+            state.nextCursor = null;
+          });
+
+          setTimeout(() => get().logFilterChange(), 100);
+          await get().loadDocuments(true, false, get().pageSize, 1);
+        },
+
+        // Replace the current query with one listing exactly these documents
+        showDocumentsById: (ids) => {
+          set((state) => {
+            state.searchText = "";
+            state.filterGroups = [];
+            state.activeFilters = [{
+              id: `${Date.now()}-${Math.random()}`,
+              attribute: "id",
+              operator: "in",
+              value: ids,
+              displayValue: formatFilterDisplayValue(ids),
+            }];
+            state.queryMode = "browse";
+            state.vectorQuery = null;
+            state.aggregations = [];
+            state.aggregationResults = null;
+            state.groupByAttributes = [];
+            state.aggregationGroups = null;
+            state.isGroupedQuery = false;
+            state.isQueryMode = true;
+            state.currentPage = 1;
+            state.pageCursors = [];
+            state.nextCursor = null;
+          });
+
+          setTimeout(() => get().logFilterChange(), 100);
+          setTimeout(() => get().loadDocuments(true, false, get().pageSize, 1), 0);
+        },
+
         // Filter History Actions
         saveToFilterHistory: async (name) => {
           const state = get();
-          const { currentConnectionId, currentNamespaceId, searchText, activeFilters } = state;
+          const { currentConnectionId, currentNamespaceId, searchText, activeFilters, filterGroups } = state;
 
           console.log('💾 saveToFilterHistory called:', {
             name,
@@ -762,9 +1009,10 @@ export const useDocumentsStore = create<DocumentsState>()(
             name,
             searchText,
             filters: activeFilters.map(f => ({ ...f })), // Deep copy filters
+            groups: filterGroups.length > 0 ? filterGroups : undefined,
             timestamp: Date.now(),
             appliedCount: 0,
-            description: generateFilterDescription(activeFilters, searchText)
+            description: generateFilterDescription(activeFilters, searchText, filterGroups)
           };
 
           console.log('💾 Creating saved filter entry:', newEntry);
@@ -807,7 +1055,9 @@ export const useDocumentsStore = create<DocumentsState>()(
             // Apply the saved filters and search text
             state.searchText = historyEntry.searchText;
             state.activeFilters = historyEntry.filters.map(f => ({ ...f })); // Deep copy filters
-            state.isQueryMode = historyEntry.searchText.length > 0 || historyEntry.filters.length > 0;
+            state.filterGroups = historyEntry.groups ?? [];
+            state.isQueryMode = historyEntry.searchText.length > 0 || historyEntry.filters.length > 0 ||
+              state.filterGroups.length > 0;
 
             // Update the applied count locally
             const namespaceHistory = state.filterHistory.get(historyKey) || [];
@@ -911,7 +1161,9 @@ export const useDocumentsStore = create<DocumentsState>()(
             // Apply the saved filters and search text
             state.searchText = historyEntry.searchText;
             state.activeFilters = historyEntry.filters.map(f => ({ ...f })); // Deep copy filters
-            state.isQueryMode = historyEntry.searchText.length > 0 || historyEntry.filters.length > 0;
+            state.filterGroups = historyEntry.groups ?? [];
+            state.isQueryMode = historyEntry.searchText.length > 0 || historyEntry.filters.length > 0 ||
+              state.filterGroups.length > 0;
           });
 
           // Load documents with the applied filters - force page 1
@@ -920,7 +1172,7 @@ export const useDocumentsStore = create<DocumentsState>()(
 
         logFilterChange: async () => {
           const state = get();
-          const { currentConnectionId, currentNamespaceId, searchText, activeFilters } = state;
+          const { currentConnectionId, currentNamespaceId, searchText, activeFilters, filterGroups } = state;
 
           console.log('📝 logFilterChange called:', {
             currentConnectionId,
@@ -935,7 +1187,7 @@ export const useDocumentsStore = create<DocumentsState>()(
           }
 
           // Don't log if no filters or search
-          if (searchText.length === 0 && activeFilters.length === 0) {
+          if (searchText.length === 0 && activeFilters.length === 0 && filterGroups.length === 0) {
             console.log('📝 Skipping logFilterChange - no filters or search');
             return;
           }
@@ -944,8 +1196,9 @@ export const useDocumentsStore = create<DocumentsState>()(
             id: `${Date.now()}-${Math.random()}`,
             searchText,
             filters: activeFilters.map(f => ({ ...f })), // Deep copy filters
+            groups: filterGroups.length > 0 ? filterGroups : undefined,
             timestamp: Date.now(),
-            description: generateFilterDescription(activeFilters, searchText)
+            description: generateFilterDescription(activeFilters, searchText, filterGroups)
           };
 
           console.log('📝 Creating filter history entry:', newEntry);
@@ -972,7 +1225,9 @@ export const useDocumentsStore = create<DocumentsState>()(
                   f.attribute === newEntry.filters[i]?.attribute &&
                   f.operator === newEntry.filters[i]?.operator &&
                   JSON.stringify(f.value) === JSON.stringify(newEntry.filters[i]?.value)
-                )
+                ) &&
+                JSON.stringify(stripFilterNodeIds(entry.groups ?? [])) ===
+                  JSON.stringify(stripFilterNodeIds(newEntry.groups ?? []))
               );
 
               if (!isDuplicate) {
@@ -1022,7 +1277,7 @@ export const useDocumentsStore = create<DocumentsState>()(
               connectionWithKey.apiKey,
               region
             );
-            documentService.setClient(turbopufferService.getClient()!);
+            documentService.setClient(turbopufferService.getClient()!, connectionId);
 
             // Mark as initialized on success
             set((state) => {
@@ -1057,7 +1312,7 @@ export const useDocumentsStore = create<DocumentsState>()(
             limit,
             page,
             currentPage: state.currentPage,
-            previousCursors: state.previousCursors.length,
+            pageCursors: state.pageCursors.length,
             nextCursor: state.nextCursor,
             currentNamespaceId: state.currentNamespaceId,
             isLoading: state.isLoading,
@@ -1067,7 +1322,24 @@ export const useDocumentsStore = create<DocumentsState>()(
             isQueryMode: state.isQueryMode,
           });
 
-          if (!state.currentNamespaceId || state.isLoading) return;
+          if (!state.currentNamespaceId || state.isLoading || (loadMore && state.isLoadingMore)) return;
+
+          // Loading more appends the page after the last one loaded, at the same page size
+          if (loadMore) {
+            if (!state.nextCursor) return;
+            page = state.currentPage + 1;
+            limit = state.pageSize;
+          } else {
+            loadGeneration++;
+          }
+
+          // Any other load starts a new generation, so a page still being
+          // appended for the previous query is dropped when it arrives
+          const generation = loadGeneration;
+          const isCurrent = () => generation === loadGeneration;
+          const update = (recipe: (state: WritableDraft<DocumentsState>) => void) => {
+            if (isCurrent()) set(recipe);
+          };
 
           // Check if client is initialized
           if (!state.isClientInitialized || !documentService.getClient()) {
@@ -1081,11 +1353,12 @@ export const useDocumentsStore = create<DocumentsState>()(
           }
 
           const cacheKey = `${state.currentConnectionId}:${state.currentNamespaceId}-${state.searchText
-            }-${JSON.stringify(state.activeFilters)}-${page}-${limit}`;
+            }-${JSON.stringify(state.activeFilters)}-${JSON.stringify(state.filterGroups)}-${state.sortAttribute
+            }-${state.sortDirection}-${page}-${limit}`;
           console.log("🔑 Cache key:", cacheKey);
 
           // Check cache first (only for non-forced loads)
-          if (!force) {
+          if (!force && !loadMore) {
             const cached = state.documentsCache.get(cacheKey);
             if (cached && Date.now() - cached.timestamp < CACHE_DURATION) {
               console.log(
@@ -1105,7 +1378,11 @@ export const useDocumentsStore = create<DocumentsState>()(
           }
 
           set((state) => {
-            state.isLoading = true;
+            if (loadMore) {
+              state.isLoadingMore = true;
+            } else {
+              state.isLoading = true;
+            }
             state.error = null;
             // Update pageSize if a new limit is provided
             if (limit !== state.pageSize) {
@@ -1122,7 +1399,9 @@ export const useDocumentsStore = create<DocumentsState>()(
             // Force query mode if there are any filters or search text
             const shouldUseQueryMode =
               state.activeFilters.length > 0 ||
-              state.searchText.trim().length > 0;
+              state.filterGroups.length > 0 ||
+              state.searchText.trim().length > 0 ||
+              (state.queryMode === 'hybrid' && !!state.vectorQuery?.length);
             console.log("🔍 Query mode check:", {
               isQueryMode: state.isQueryMode,
               shouldUseQueryMode,
@@ -1130,262 +1409,78 @@ export const useDocumentsStore = create<DocumentsState>()(
               hasSearchText: state.searchText.trim().length > 0,
             });
 
-            if (shouldUseQueryMode) {
-              console.log("🔍 CHECKPOINT 4: Filter Processing & Conversion");
-              console.log("Query mode activated - processing filters...");
-
-              // Build query filters
-              const filters: TurbopufferFilter[] = [];
+            // Catch schema mismatches locally instead of sending a query the server rejects
+            const rejectInvalidQuery = (query: Record<string, any>): boolean => {
+              const errors = validateQuery(query, state.namespaceSchema)
+                .filter(issue => issue.severity === 'error');
+              if (errors.length === 0) return false;
+              update((state) => {
+                state.error = `Query not sent: ${errors.map(issue => issue.message).join('; ')}`;
+              });
+              return true;
+            };
 
-              // In Browse mode, search text is used for ID lookup only
-              // For full-text search across content fields, users should use BM25 mode
-              // This avoids errors with BM25-enabled fields that have filtering disabled
-              if (state.searchText.trim() && state.queryMode === 'browse') {
-                // Only search by ID in browse mode - treat as ID contains/starts with
-                // Use Glob pattern for partial ID matching
-                filters.push(["id", "Glob", `*${state.searchText.trim()}*`] as TurbopufferFilter);
+            // Cursors from another page size point at the wrong rows
+            const namespaceId = state.currentNamespaceId;
+            const knownCursors = limit === state.pageSize ? state.pageCursors : [];
+
+            // Where the requested page starts: the cursor remembered from an earlier
+            // visit, or one found by seeking forward from the nearest visited page.
+            // Undefined when the page lies past the end.
+            const resolvePageCursor = async (
+              filters: TurbopufferFilter | undefined,
+              orderBy: KeysetOrder
+            ): Promise<KeysetCursor | null | undefined> => {
+              let from = page;
+              while (from > 1 && knownCursors[from - 1] === undefined) from--;
+              const start = knownCursors[from - 1] ?? null;
+              if (from === page) return start;
+
+              const cursor = await documentService.seekKeysetCursor(namespaceId, {
+                filters,
+                orderBy,
+                cursor: start,
+                skip: (page - from) * limit,
+              });
+              if (cursor === undefined) {
+                update((state) => {
+                  state.error = `Page ${page} is past the last page`;
+                });
               }
+              return cursor;
+            };
 
-              // Add attribute filters
-              console.log(
-                "🔍 Building filters from activeFilters:",
-                state.activeFilters
-              );
-              state.activeFilters.forEach((filter) => {
-                console.log("🔍 Processing filter:", filter);
-
-                // Debug: Check field info for this attribute
-                const fieldInfo = state.attributes.find(attr => attr.name === filter.attribute);
-                console.log("🔍 Field info for", filter.attribute, ":", fieldInfo);
-
-                switch (filter.operator) {
-                  case "equals": {
-                    // Check if this is an array field
-                    const fieldInfo = state.attributes.find(attr => attr.name === filter.attribute);
-                    const fieldType = fieldInfo?.type;
-                    const isArrayField = isArrayType(fieldType);
-
-                    if (isArrayField) {
-                      // For arrays, use "Contains" to check if array contains the value
-                      // Value is already correctly typed from addFilter
-                      const containsValue = Array.isArray(filter.value) ? filter.value[0] : filter.value;
-                      const arrayFilter = [filter.attribute, "ContainsAny", containsValue];
-                      console.log("🔍 Adding ARRAY filter (ContainsAny):", arrayFilter);
-                      filters.push(arrayFilter as TurbopufferFilter);
-                    } else {
-                      // For non-arrays, use standard equality
-                      // Value is already correctly typed
-                      const nonArrayFilter = [filter.attribute, "Eq", filter.value];
-                      console.log("🔍 Adding NON-ARRAY filter (Eq):", nonArrayFilter);
-                      filters.push(nonArrayFilter as TurbopufferFilter);
-                    }
-                    break;
-                  }
-                  case "not_equals": {
-                    // Check if this is an array field
-                    const fieldInfo = state.attributes.find(attr => attr.name === filter.attribute);
-                    const fieldType = fieldInfo?.type;
-                    const isArrayField = isArrayType(fieldType);
-
-                    if (isArrayField) {
-                      // For arrays, use "Not" with ContainsAny
-                      // Value is already correctly typed
-                      const notContainsValue = Array.isArray(filter.value) ? filter.value[0] : filter.value;
-                      filters.push(["Not", [filter.attribute, "ContainsAny", notContainsValue]] as TurbopufferFilter);
-                    } else {
-                      // For non-arrays, use standard not equality
-                      filters.push([filter.attribute, "NotEq", filter.value]);
-                    }
-                    break;
-                  }
-                  case "contains": {
-                    // For array fields, we use ContainsAny to check if array contains value
-                    // For string fields, use Glob pattern matching
-                    const fieldInfo = state.attributes.find(attr => attr.name === filter.attribute);
-                    const fieldType = fieldInfo?.type;
-                    const isArrayField = isArrayType(fieldType);
-
-                    if (isArrayField) {
-                      // For arrays, use "ContainsAny" operator
-                      // Value is already correctly typed from addFilter
-                      const containsValue = Array.isArray(filter.value) ? filter.value[0] : filter.value;
-                      filters.push([
-                        filter.attribute,
-                        "ContainsAny",
-                        containsValue
-                      ]);
-                    } else {
-                      // For strings, use glob pattern
-                      filters.push([
-                        filter.attribute,
-                        "Glob",
-                        `*${filter.value}*`,
-                      ]);
-                    }
-                    break;
-                  }
-                  case "greater": {
-                    // Value is already correctly typed
-                    filters.push([filter.attribute, "Gt", filter.value]);
-                    break;
-                  }
-                  case "greater_or_equal": {
-                    // Value is already correctly typed
-                    filters.push([filter.attribute, "Gte", filter.value]);
-                    break;
-                  }
-                  case "less": {
-                    // Value is already correctly typed
-                    filters.push([filter.attribute, "Lt", filter.value]);
-                    break;
-                  }
-                  case "less_or_equal": {
-                    // Value is already correctly typed
-                    filters.push([filter.attribute, "Lte", filter.value]);
-                    break;
-                  }
-                  case "in": {
-                    // Value is already correctly typed as an array from addFilter
-                    const values = Array.isArray(filter.value) ? filter.value : [filter.value];
-                    filters.push([
-                      filter.attribute,
-                      "In",
-                      values,
-                    ]);
-                    break;
-                  }
-                  case "not_in": {
-                    // Value is already correctly typed as an array from addFilter
-                    const values = Array.isArray(filter.value) ? filter.value : [filter.value];
-                    filters.push([
-                      filter.attribute,
-                      "NotIn",
-                      values,
-                    ]);
-                    break;
-                  }
-                  case "matches":
-                    filters.push([filter.attribute, "Glob", filter.value]);
-                    break;
-                  case "not_matches":
-                    filters.push([filter.attribute, "NotGlob", filter.value]);
-                    break;
-                  case "imatches":
-                    filters.push([filter.attribute, "IGlob", filter.value]);
-                    break;
-                  case "not_imatches":
-                    filters.push([filter.attribute, "NotIGlob", filter.value]);
-                    break;
-                  // Array element comparison operators
-                  case "any_lt":
-                    filters.push([filter.attribute, "AnyLt", filter.value]);
-                    break;
-                  case "any_lte":
-                    filters.push([filter.attribute, "AnyLte", filter.value]);
-                    break;
-                  case "any_gt":
-                    filters.push([filter.attribute, "AnyGt", filter.value]);
-                    break;
-                  case "any_gte":
-                    filters.push([filter.attribute, "AnyGte", filter.value]);
-                    break;
-                  // Array containment operators
-                  case "array_contains": {
-                    // Single value containment check
-                    const value = Array.isArray(filter.value) ? filter.value[0] : filter.value;
-                    filters.push([filter.attribute, "Contains", value]);
-                    break;
-                  }
-                  case "not_array_contains": {
-                    // Single value NOT containment check
-                    const value = Array.isArray(filter.value) ? filter.value[0] : filter.value;
-                    filters.push([filter.attribute, "NotContains", value]);
-                    break;
-                  }
-                  case "contains_any": {
-                    // Multiple values - contains any of them
-                    const values = Array.isArray(filter.value) ? filter.value : [filter.value];
-                    filters.push([filter.attribute, "ContainsAny", values]);
-                    break;
-                  }
-                  case "not_contains_any": {
-                    // Multiple values - contains none of them
-                    const values = Array.isArray(filter.value) ? filter.value : [filter.value];
-                    filters.push([filter.attribute, "NotContainsAny", values]);
-                    break;
-                  }
-                  // Regex operator
-                  case "regex":
-                    filters.push([filter.attribute, "Regex", filter.value]);
-                    break;
-                  // Full-text search operators
-                  case "contains_all_tokens":
-                    filters.push([filter.attribute, "ContainsAllTokens", filter.value]);
-                    break;
-                  case "contains_token_sequence":
-                    filters.push([filter.attribute, "ContainsTokenSequence", filter.value]);
-                    break;
-                }
-              });
+            if (shouldUseQueryMode) {
+              console.log("🔍 CHECKPOINT 4: Filter Processing & Conversion");
+              console.log("Query mode activated - processing filters...");
 
-              // Combine filters with AND
-              const combinedFilter: TurbopufferFilter | undefined =
-                filters.length === 0
-                  ? undefined
-                  : filters.length === 1
-                    ? filters[0]
-                    : ["And", filters];
+              const combinedFilter = buildActiveFilter(state);
+              if (rejectInvalidQuery({ filters: combinedFilter })) return;
 
               console.log("🔍 Executing query with filters:", combinedFilter);
 
+              // Hybrid results are fused client-side into a single page, so there is
+              // nothing to count or paginate
+              const isHybridQuery = state.queryMode === 'hybrid' && state.aggregations.length === 0;
+
               // First get the total count for filtered results
-              const countResult = await documentService.queryDocuments(
-                state.currentNamespaceId,
-                {
-                  filters: combinedFilter,
-                  aggregate_by: { count: ["Count", "id"] },
-                }
-              );
-              totalCount = countResult.aggregations?.count || 0;
-              totalPages = Math.ceil(totalCount / limit);
+              if (!isHybridQuery) {
+                const countResult = await documentService.queryDocuments(
+                  state.currentNamespaceId,
+                  {
+                    filters: combinedFilter,
+                    aggregate_by: { count: ["Count", "id"] },
+                  }
+                );
+                totalCount = countResult.aggregations?.count || 0;
+                totalPages = Math.ceil(totalCount / limit);
+              }
 
               // Execute query for documents with cursor pagination
               // When filtering, ALWAYS fetch ALL attributes (filters select documents, not columns)
               // This is like MongoDB - query filters determine WHICH docs, but you get ALL fields
               const includeAttributes = true;
 
-              // Add cursor filter for pagination
-              let finalFilter = combinedFilter;
-              let cursor: string | number | null = null;
-
-              if (page > state.currentPage && state.documents.length > 0) {
-                // Going forward - use the last document ID from current page
-                cursor = state.documents[state.documents.length - 1].id;
-                const cursorFilter: TurbopufferFilter = ["id", "Gt", cursor];
-                finalFilter = combinedFilter
-                  ? ["And", [combinedFilter, cursorFilter]]
-                  : cursorFilter;
-                console.log("🔍 Forward pagination with cursor in filtered mode:", cursor);
-              } else if (page < state.currentPage && state.previousCursors.length > 0) {
-                // Going backward - use cursor from stack
-                const cursorIndex = page - 2; // page-2 because we want the cursor before the target page
-                if (cursorIndex >= 0 && cursorIndex < state.previousCursors.length) {
-                  cursor = state.previousCursors[cursorIndex];
-                  const cursorFilter: TurbopufferFilter = ["id", "Gt", cursor];
-                  finalFilter = combinedFilter
-                    ? ["And", [combinedFilter, cursorFilter]]
-                    : cursorFilter;
-                  console.log("🔍 Backward pagination with cursor in filtered mode:", cursor);
-                } else if (page === 1) {
-                  // Going back to first page - use original filter only
-                  finalFilter = combinedFilter;
-                }
-              } else if (page === 1 || state.currentPage === 0) {
-                // First page or initial load - use original filter only
-                finalFilter = combinedFilter;
-                console.log("🔍 First page in filtered mode - no cursor");
-              }
-
               // Helper function to convert ranking expression to Turbopuffer format
               const convertRankingExprToTurbopuffer = (node: any): any => {
                 if (!node) return null;
@@ -1397,49 +1492,58 @@ export const useDocumentsStore = create<DocumentsState>()(
                 return null;
               };
 
-              // Determine rank_by based on ranking mode and search mode
-              let rankBy: any;
-              if (state.rankingMode === 'expression' && state.rankingExpression) {
-                // Custom ranking expression mode
-                rankBy = convertRankingExprToTurbopuffer(state.rankingExpression);
-              } else if (state.queryMode === 'bm25' && state.searchText.trim()) {
-                // BM25 full-text search mode
+              // Build a BM25 rank_by from the configured fields, falling back to the
+              // first text attribute. Returns null when no text field is available.
+              const buildBM25RankBy = (): any | null => {
+                const text = state.searchText.trim();
                 if (state.bm25Fields.length > 1) {
                   // Multi-field BM25 with operator
                   // Format: ['Sum', [rank1, rank2, ...]] or ['Max', [rank1, rank2, ...]]
                   const fieldRanks: any[] = state.bm25Fields.map(f => {
-                    const rank: [string, string, string] = [f.field, "BM25", state.searchText.trim()];
+                    const rank: [string, string, string] = [f.field, "BM25", text];
                     // Weighted: ['Product', [weight, rank]]
                     return f.weight !== 1.0 ? ['Product', [f.weight, rank]] : rank;
                   });
 
                   const op = state.bm25Operator.charAt(0).toUpperCase() + state.bm25Operator.slice(1);
                   // SDK expects ['Sum', RankByText[]] - array of ranks wrapped in outer array
-                  rankBy = [op, fieldRanks];
-                } else if (state.bm25Fields.length === 1) {
+                  return [op, fieldRanks];
+                }
+                if (state.bm25Fields.length === 1) {
                   // Single field BM25 from config
-                  const field = state.bm25Fields[0].field;
-                  rankBy = [field, "BM25", state.searchText.trim()];
-                } else {
-                  // No BM25 fields configured - try to find string fields that might have BM25
-                  // Look for common text fields that are likely to have full-text search enabled
-                  const potentialBM25Fields = state.attributes
-                    .filter(attr => attr.type === 'string' || attr.type === '[]string')
-                    .filter(attr => !['id', 'uuid', 'key', 'created_at', 'updated_at'].includes(attr.name.toLowerCase()))
-                    .map(attr => attr.name);
-
-                  if (potentialBM25Fields.length > 0) {
-                    // Use first text field as fallback
-                    rankBy = [potentialBM25Fields[0], "BM25", state.searchText.trim()];
-                    console.log("🔍 BM25: No fields selected, using first text field:", potentialBM25Fields[0]);
-                  } else {
-                    // No suitable fields found - set error and return early
-                    set((state) => {
-                      state.error = "No text fields available for full-text search. Please select fields in the BM25 configuration or check your schema has full_text_search enabled.";
-                      state.isLoading = false;
-                    });
-                    return;
-                  }
+                  return [state.bm25Fields[0].field, "BM25", text];
+                }
+                // No BM25 fields configured - try to find string fields that might have BM25
+                // Look for common text fields that are likely to have full-text search enabled
+                const potentialBM25Fields = state.attributes
+                  .filter(attr => attr.type === 'string' || attr.type === '[]string')
+                  .filter(attr => !['id', 'uuid', 'key', 'created_at', 'updated_at'].includes(attr.name.toLowerCase()))
+                  .map(attr => attr.name);
+
+                if (potentialBM25Fields.length === 0) return null;
+                // Use first text field as fallback
+                console.log("🔍 BM25: No fields selected, using first text field:", potentialBM25Fields[0]);
+                return [potentialBM25Fields[0], "BM25", text];
+              };
+              const noBM25FieldsError = "No text fields available for full-text search. Please select fields in the BM25 configuration or check your schema has full_text_search enabled.";
+
+              // Determine rank_by based on ranking mode and search mode. Only plain
+              // attribute order can be paged; relevance ranking has a single page.
+              let rankBy: any;
+              let orderBy: KeysetOrder | null = null;
+              if (state.rankingMode === 'expression' && state.rankingExpression) {
+                // Custom ranking expression mode
+                rankBy = convertRankingExprToTurbopuffer(state.rankingExpression);
+              } else if (state.queryMode === 'bm25' && state.searchText.trim()) {
+                // BM25 full-text search mode
+                rankBy = buildBM25RankBy();
+                if (!rankBy) {
+                  // No suitable fields found - set error and return early
+                  update((state) => {
+                    state.error = noBM25FieldsError;
+                    state.isLoading = false;
+                  });
+                  return;
                 }
               } else if (state.queryMode === 'vector' && state.vectorQuery && state.vectorQuery.length > 0) {
                 // Vector search mode (ANN)
@@ -1447,87 +1551,161 @@ export const useDocumentsStore = create<DocumentsState>()(
                 rankBy = [vectorField, "ANN", state.vectorQuery];
               } else {
                 // Standard sorting mode
-                rankBy = [state.sortAttribute || "id", state.sortDirection];
+                orderBy = { attribute: state.sortAttribute || "id", direction: state.sortDirection };
+                rankBy = [orderBy.attribute, orderBy.direction];
               }
 
               console.log("🔍 Sending filtered pagination query:", {
-                filters: finalFilter,
+                filters: combinedFilter,
                 rank_by: rankBy,
                 queryMode: state.queryMode,
                 top_k: limit,
                 currentPage: state.currentPage,
                 targetPage: page,
-                hasDocuments: state.documents.length > 0,
-                lastDocId: state.documents.length > 0 ? state.documents[state.documents.length - 1].id : null,
-                cursor: cursor,
               });
 
               // Build aggregation query params
               const hasAggregations = state.aggregations.length > 0;
-              const aggregateBy = hasAggregations
-                ? { [state.aggregations[0].name]: ["Count"] }
-                : undefined;
+              const aggregateBy = hasAggregations ? buildAggregateBy(state.aggregations) : undefined;
+              const aggregationError = hasAggregations
+                ? validateAggregations(state.aggregations, state.groupByAttributes)
+                : null;
+              if (aggregationError) {
+                update((state) => {
+                  state.error = aggregationError;
+                  state.isLoading = false;
+                });
+                return;
+              }
 
-              // IMPORTANT: When aggregate_by is set, rank_by and include_attributes CANNOT be specified
-              const result = await documentService.queryDocuments(
-                state.currentNamespaceId,
-                hasAggregations
-                  ? {
+              if (!isHybridQuery && !hasAggregations && rejectInvalidQuery({ rank_by: rankBy })) return;
+
+              let result: DocumentsQueryResponse;
+              let pageCursor: KeysetCursor | null | undefined;
+              let newNextCursor: KeysetCursor | null = null;
+              if (isHybridQuery) {
+                // Hybrid mode: one ANN and one BM25 subquery in a single multi-query,
+                // fused client-side. Subqueries share the filters but not the cursor.
+                const subqueries: { input: Omit<FusionInput, "rows">; rankBy: any }[] = [];
+                if (state.vectorQuery && state.vectorQuery.length > 0) {
+                  subqueries.push({
+                    input: { label: "vector", weight: state.hybridWeights.vector, lowerIsBetter: true },
+                    rankBy: [state.vectorField || "vector", "ANN", state.vectorQuery],
+                  });
+                }
+                if (state.searchText.trim()) {
+                  const bm25RankBy = buildBM25RankBy();
+                  if (!bm25RankBy) {
+                    update((state) => {
+                      state.error = noBM25FieldsError;
+                      state.isLoading = false;
+                    });
+                    return;
+                  }
+                  subqueries.push({
+                    input: { label: "bm25", weight: state.hybridWeights.bm25, lowerIsBetter: false },
+                    rankBy: bm25RankBy,
+                  });
+                }
+                if (subqueries.length === 0) {
+                  update((state) => {
+                    state.error = "Hybrid search needs a query vector, search text, or both.";
+                    state.isLoading = false;
+                  });
+                  return;
+                }
+
+                if (rejectInvalidQuery({ queries: subqueries.map((q) => ({ rank_by: q.rankBy })) })) return;
+
+                const multiResult = await documentService.multiQueryDocuments(
+                  state.currentNamespaceId,
+                  {
+                    queries: subqueries.map((q) => ({
+                      filters: combinedFilter,
+                      top_k: limit,
+                      include_attributes: includeAttributes,
+                      rank_by: q.rankBy,
+                    })),
+                  }
+                );
+                const fused = fuseResults(
+                  subqueries.map((q, i) => ({ ...q.input, rows: multiResult.results[i]?.rows || [] })),
+                  state.rankFusion,
+                  { topK: limit }
+                );
+                result = {
+                  rows: fused,
+                  billing: multiResult.billing,
+                  performance: multiResult.performance,
+                };
+                totalCount = fused.length;
+                totalPages = 1;
+              } else if (hasAggregations) {
+                // IMPORTANT: When aggregate_by is set, rank_by and include_attributes CANNOT be specified
+                result = await documentService.queryDocuments(
+                  state.currentNamespaceId,
+                  {
                     // Aggregation mode: ONLY aggregate_by, group_by, filters, and top_k
-                    filters: finalFilter,
+                    filters: combinedFilter,
                     top_k: limit,
                     aggregate_by: aggregateBy,
                     ...(state.groupByAttributes.length > 0 && { group_by: state.groupByAttributes }),
                   }
-                  : {
-                    // Normal mode: rank_by, include_attributes, filters, and top_k
-                    filters: finalFilter,
+                );
+              } else if (orderBy) {
+                // Attribute order: page with composite (attribute, id) cursors
+                pageCursor = await resolvePageCursor(combinedFilter, orderBy);
+                if (pageCursor === undefined) return;
+                const keysetPage = await documentService.queryKeysetPage(state.currentNamespaceId, {
+                  filters: combinedFilter,
+                  orderBy,
+                  cursor: pageCursor,
+                  limit,
+                  includeAttributes,
+                });
+                result = keysetPage.response;
+                newNextCursor = keysetPage.nextCursor;
+              } else {
+                // BM25, ANN and ranking expressions can't be paged past their first page
+                if (page > 1) {
+                  update((state) => {
+                    state.error = "Ranked results have a single page. Increase the page size to see more.";
+                  });
+                  return;
+                }
+                result = await documentService.queryDocuments(
+                  state.currentNamespaceId,
+                  {
+                    filters: combinedFilter,
                     top_k: limit,
                     include_attributes: includeAttributes,
                     rank_by: rankBy,
                   }
-              );
+                );
+                totalPages = 1;
+              }
 
               documents = result.rows || [];
               queryResult = result;
 
-              // Parse aggregation results if present
-              const parsedAggregations = result.aggregations ? Object.entries(result.aggregations).map(([label, data]: [string, any]) => ({
-                label,
-                groups: (data.groups || []).map((group: any) => ({
-                  key: group.key,
-                  count: group.count,
-                })),
-              })) : [];
-
-              // NEW: Store grouped aggregation results if present
-              const aggregationGroups = result.aggregation_groups || null;
-
-              // Get the last document ID as next cursor
-              const newNextCursor = documents.length > 0 ? documents[documents.length - 1].id : null;
+              // Derive averages and drop the helper sums and counts they need
+              const aggregationResults = hasAggregations && result.aggregations && !result.aggregation_groups
+                ? toAggregationValues(result.aggregations, state.aggregations)
+                : null;
+              const aggregationGroups = result.aggregation_groups
+                ? result.aggregation_groups.map((group) => deriveAggregationValues(group, state.aggregations))
+                : null;
 
               // Update page state in query mode
-              set((state) => {
-                // Update cursor stack for backward navigation
-                if (page > state.currentPage) {
-                  // Going forward - save the first document ID of current page for going back
-                  if (state.documents.length > 0) {
-                    const firstIdOfCurrentPage = state.documents[0].id;
-                    // Ensure the stack has the right size
-                    const newCursors = [...state.previousCursors];
-                    newCursors[state.currentPage - 1] = firstIdOfCurrentPage;
-                    state.previousCursors = newCursors;
-                  }
-                } else if (page === 1) {
-                  // Reset cursors when going to first page
-                  state.previousCursors = [];
-                }
-
+              update((state) => {
+                state.pageCursors = pageCursor === undefined
+                  ? []
+                  : recordPageCursors(knownCursors, page, pageCursor, newNextCursor);
                 state.nextCursor = newNextCursor;
                 state.currentPage = page;
                 state.totalPages = totalPages;
-                state.aggregationResults = parsedAggregations.length > 0 ? parsedAggregations : null;
-                state.aggregationGroups = aggregationGroups; // NEW: Store grouped aggregation results
+                state.aggregationResults = aggregationResults;
+                state.aggregationGroups = aggregationGroups;
               });
 
               console.log("📄 Query results:", {
@@ -1552,92 +1730,48 @@ export const useDocumentsStore = create<DocumentsState>()(
                 totalPages = Math.ceil(totalCount / limit);
               }
 
-              // Get documents using ID-based cursor pagination
-              console.log("📄 Listing documents with cursor pagination...");
+              // Page through the namespace in sort order with composite (attribute, id) cursors
+              const orderBy: KeysetOrder = { attribute: state.sortAttribute || "id", direction: state.sortDirection };
 
               // For list mode (no filters), fetch ALL attributes to ensure complete document data
               // Users expect to see all fields when clicking a document, regardless of table columns
               const includeAttributes = true;
 
-              // Build filters for cursor-based pagination
-              let paginationFilter: TurbopufferFilter | undefined = undefined;
-              let cursor: string | number | null = null;
-
-              if (page > state.currentPage && state.documents.length > 0) {
-                // Going forward - use the last document ID from current page
-                cursor = state.documents[state.documents.length - 1].id;
-                paginationFilter = ["id", "Gt", cursor];
-                console.log("📄 Forward pagination with cursor:", cursor);
-              } else if (page < state.currentPage && state.previousCursors.length > 0) {
-                // Going backward - use cursor from stack
-                const cursorIndex = page - 2; // page-2 because we want the cursor before the target page
-                if (cursorIndex >= 0 && cursorIndex < state.previousCursors.length) {
-                  cursor = state.previousCursors[cursorIndex];
-                  paginationFilter = ["id", "Gt", cursor];
-                  console.log("📄 Backward pagination with cursor:", cursor);
-                } else if (page === 1) {
-                  // Going back to first page - no cursor needed
-                  cursor = null;
-                  paginationFilter = undefined;
-                }
-              } else if (page === 1 || state.currentPage === 0) {
-                // First page or initial load - no cursor needed
-                cursor = null;
-                paginationFilter = undefined;
-                console.log("📄 First page - no cursor");
-              }
+              const cursor = await resolvePageCursor(undefined, orderBy);
+              if (cursor === undefined) return;
 
               console.log("📄 Sending pagination query:", {
-                filters: paginationFilter,
-                rank_by: ["id", "asc"],
+                orderBy,
+                cursor,
                 top_k: limit,
                 currentPage: state.currentPage,
                 targetPage: page,
-                hasDocuments: state.documents.length > 0,
-                lastDocId: state.documents.length > 0 ? state.documents[state.documents.length - 1].id : null,
               });
 
-              const response = await documentService.queryDocuments(
+              const { response, nextCursor } = await documentService.queryKeysetPage(
                 state.currentNamespaceId,
                 {
-                  filters: paginationFilter,
-                  rank_by: ["id", "asc"],
-                  top_k: limit,
-                  include_attributes: includeAttributes,
+                  orderBy,
+                  cursor,
+                  limit,
+                  includeAttributes,
                 }
               );
 
               documents = response.rows || [];
               queryResult = response;
 
-              // Get the last document ID as next cursor
-              const newNextCursor = documents.length > 0 ? documents[documents.length - 1].id : null;
-
               console.log("📄 Listed documents:", {
                 documentsCount: documents.length,
                 page,
                 cursor,
-                newNextCursor,
+                nextCursor,
               });
 
               // Update pagination state
-              set((state) => {
-                // Update cursor stack for backward navigation
-                if (page > state.currentPage) {
-                  // Going forward - save the first document ID of current page for going back
-                  if (state.documents.length > 0) {
-                    const firstIdOfCurrentPage = state.documents[0].id;
-                    // Ensure the stack has the right size
-                    const newCursors = [...state.previousCursors];
-                    newCursors[state.currentPage - 1] = firstIdOfCurrentPage;
-                    state.previousCursors = newCursors;
-                  }
-                } else if (page === 1) {
-                  // Reset cursors when going to first page
-                  state.previousCursors = [];
-                }
-
-                state.nextCursor = newNextCursor;
+              update((state) => {
+                state.pageCursors = recordPageCursors(knownCursors, page, cursor, nextCursor);
+                state.nextCursor = nextCursor;
                 state.currentPage = page;
                 state.totalPages = totalPages;
               });
@@ -1661,10 +1795,14 @@ export const useDocumentsStore = create<DocumentsState>()(
               totalPages: totalCount !== null ? Math.ceil(totalCount / state.pageSize) : null,
             });
 
-            set((state) => {
-              state.documents = documents;
+            update((state) => {
+              if (loadMore) {
+                state.documents.push(...documents);
+              } else {
+                state.documents = documents;
+              }
               state.totalCount = totalCount;
-              state.totalPages = totalCount !== null ? Math.ceil(totalCount / state.pageSize) : null;
+              state.totalPages = totalPages ?? (totalCount !== null ? Math.ceil(totalCount / state.pageSize) : null);
               state.lastQueryResult = queryResult;
               state.currentPage = page;
 
@@ -1682,11 +1820,13 @@ export const useDocumentsStore = create<DocumentsState>()(
             });
 
             // Auto-discover attributes from loaded documents
-            console.log("🔍 Starting attribute discovery from documents...");
-            get().discoverAttributesFromDocuments(documents);
+            if (isCurrent()) {
+              console.log("🔍 Starting attribute discovery from documents...");
+              get().discoverAttributesFromDocuments(documents);
+            }
           } catch (error) {
             console.error("💥 Failed to load documents:", error);
-            set((state) => {
+            update((state) => {
               state.error =
                 error instanceof Error
                   ? error.message
@@ -1694,7 +1834,11 @@ export const useDocumentsStore = create<DocumentsState>()(
             });
           } finally {
             set((state) => {
-              state.isLoading = false;
+              if (loadMore) {
+                state.isLoadingMore = false;
+              } else {
+                state.isLoading = false;
+              }
             });
           }
         },
@@ -1803,6 +1947,7 @@ export const useDocumentsStore = create<DocumentsState>()(
             console.log('📋 Setting visible columns from schema:', Array.from(defaultColumns));
             console.log('📋 Setting attributes from schema:', schemaAttributes.map(a => a.name));
             set((state) => {
+              state.namespaceSchema = schema;
               // Always set visible columns from schema (schema is source of truth)
               state.visibleColumns = defaultColumns;
               // Set attributes from schema if not already populated
@@ -2042,14 +2187,15 @@ export const useDocumentsStore = create<DocumentsState>()(
           });
         },
 
-        deleteDocuments: async (ids) => {
+        deleteDocuments: async (ids, condition) => {
           const state = get();
           if (!state.currentNamespaceId) return;
 
           try {
             await documentService.deleteDocuments(
               state.currentNamespaceId,
-              ids
+              ids,
+              condition
             );
 
             // Remove from local state
@@ -2076,7 +2222,7 @@ export const useDocumentsStore = create<DocumentsState>()(
           }
         },
 
-        updateDocument: async (id, attributes) => {
+        updateDocument: async (id, attributes, options) => {
           const state = get();
           if (!state.currentNamespaceId) return;
 
@@ -2084,7 +2230,8 @@ export const useDocumentsStore = create<DocumentsState>()(
             await documentService.updateDocument(
               state.currentNamespaceId,
               id,
-              attributes
+              attributes,
+              options
             );
 
             // Update local state and clear cache
@@ -2092,7 +2239,15 @@ export const useDocumentsStore = create<DocumentsState>()(
               const docIndex = state.documents.findIndex(
                 (doc) => doc.id === id
               );
-              if (docIndex !== -1) {
+              if (docIndex !== -1 && options?.mode === 'upsert') {
+                // The upsert kept stored attributes the edit left alone
+                const doc = { ...state.documents[docIndex], ...attributes, id } as Record<string, any>;
+                options.removedAttributes?.forEach((attribute) => {
+                  delete doc[attribute];
+                  if (doc.attributes) delete doc.attributes[attribute];
+                });
+                state.documents[docIndex] = doc as Document;
+              } else if (docIndex !== -1) {
                 state.documents[docIndex] = {
                   ...state.documents[docIndex],
                   attributes: {
@@ -2116,6 +2271,161 @@ export const useDocumentsStore = create<DocumentsState>()(
           }
         },
 
+        stageCellEdit: (id, attribute, value) =>
+          set((state) => {
+            const existing = state.pendingChanges.get(id);
+            let original = existing?.original[attribute];
+            if (!existing || !(attribute in existing.original)) {
+              const doc = state.documents.find((doc) => doc.id === id) as Record<string, any> | undefined;
+              original = doc?.[attribute] !== undefined ? doc[attribute] : doc?.attributes?.[attribute];
+            }
+
+            const row = existing ?? { id, changes: {}, original: {} };
+            row.error = undefined;
+            if (cellValuesEqual(value, original)) {
+              // Editing a cell back to its loaded value drops the change
+              delete row.changes[attribute];
+              delete row.original[attribute];
+            } else {
+              row.changes[attribute] = value;
+              row.original[attribute] = original ?? null;
+            }
+
+            if (Object.keys(row.changes).length === 0) {
+              state.pendingChanges.delete(id);
+            } else if (!existing) {
+              state.pendingChanges.set(id, row);
+            }
+          }),
+
+        discardPendingChanges: (id) =>
+          set((state) => {
+            if (id === undefined) {
+              state.pendingChanges.clear();
+            } else {
+              state.pendingChanges.delete(id);
+            }
+          }),
+
+        commitPendingChanges: async () => {
+          const state = get();
+          if (!state.currentNamespaceId || state.pendingChanges.size === 0 || state.isCommittingChanges) {
+            return { patched: 0, failed: 0 };
+          }
+
+          // Rows the schema rejects stay pending with their error; the rest go out in one write
+          const rows = Array.from(state.pendingChanges.values());
+          const errors = new Map<string | number, string>();
+          const writable = rows.filter((row) => {
+            const problems = Object.entries(row.changes)
+              .map(([attribute, value]) => validateAttributeValue(attribute, value, state.namespaceSchema))
+              .filter((problem): problem is string => problem !== null);
+            if (problems.length > 0) errors.set(row.id, problems.join("; "));
+            return problems.length === 0;
+          });
+
+          set((state) => {
+            state.isCommittingChanges = true;
+          });
+
+          try {
+            const result = await documentService.patchRows(
+              state.currentNamespaceId,
+              writable.map((row) => ({ ...row.changes, id: row.id }))
+            );
+            result.missingIds.forEach((id) => {
+              errors.set(id, "Document no longer exists, so its patch was skipped");
+            });
+          } catch (error) {
+            console.error("Failed to commit pending changes:", error);
+            const message = error instanceof Error ? error.message : "Failed to write changes";
+            writable.forEach((row) => errors.set(row.id, message));
+          }
+
+          const patched = writable.filter((row) => !errors.has(row.id));
+          set((state) => {
+            // Written rows show their new values. Only the edits that went out
+            // leave the change set; cells edited again during the write stay staged
+            patched.forEach((row) => {
+              const doc = state.documents.find((doc) => doc.id === row.id);
+              const staged = state.pendingChanges.get(row.id);
+              Object.entries(row.changes).forEach(([attribute, value]) => {
+                if (doc) {
+                  const flat = doc as Record<string, any>;
+                  if (doc.attributes && !(attribute in flat)) {
+                    doc.attributes[attribute] = value;
+                  } else {
+                    flat[attribute] = value;
+                  }
+                }
+                if (!staged || !(attribute in staged.changes)) return;
+                if (cellValuesEqual(staged.changes[attribute], value)) {
+                  delete staged.changes[attribute];
+                  delete staged.original[attribute];
+                } else {
+                  staged.original[attribute] = value;
+                }
+              });
+              if (staged && Object.keys(staged.changes).length === 0) {
+                state.pendingChanges.delete(row.id);
+              }
+            });
+            errors.forEach((message, id) => {
+              const row = state.pendingChanges.get(id);
+              if (row) row.error = message;
+            });
+            if (patched.length > 0) {
+              state.documentsCache.clear();
+            }
+            state.isCommittingChanges = false;
+          });
+
+          return { patched: patched.length, failed: errors.size };
+        },
+
+        countMatchingDocuments: async () => {
+          const state = get();
+          if (!state.currentNamespaceId) return 0;
+          return documentService.countDocuments(
+            state.currentNamespaceId,
+            buildActiveFilter(state)
+          );
+        },
+
+        patchMatchingDocuments: async (attributes, onProgress) => {
+          const state = get();
+          if (!state.currentNamespaceId) return 0;
+
+          const filter = buildActiveFilter(state);
+          if (!filter) {
+            // Refuse to patch the whole namespace by accident
+            throw new Error("Add at least one filter before patching documents in bulk");
+          }
+
+          try {
+            const result = await documentService.patchByFilter(
+              state.currentNamespaceId,
+              filter,
+              attributes,
+              { onProgress }
+            );
+
+            set((state) => {
+              state.documentsCache.clear();
+            });
+            return result.rows_affected || 0;
+          } catch (error) {
+            console.error("Failed to patch documents by filter:", error);
+            set((state) => {
+              state.error =
+                error instanceof Error
+                  ? error.message
+                  : "Failed to patch documents";
+            });
+            throw error;
+          }
+        },
+
         importDocuments: async (documents) => {
           const state = get();
           if (!state.currentNamespaceId) return;
@@ -2165,7 +2475,7 @@ export const useDocumentsStore = create<DocumentsState>()(
             state.isRefreshing = true;
             // Reset to first page on refresh
             state.currentPage = 1;
-            state.previousCursors = [];
+            state.pageCursors = [];
             state.nextCursor = null;
             // Clear all caches inside set()
             state.documentsCache.clear();
@@ -2239,91 +2549,6 @@ export const useDocumentsStore = create<DocumentsState>()(
           return { filePath: result.filePath, canceled: result.canceled };
         },
 
-        exportFullNamespace: async (
-          format: "json" | "csv",
-          onProgress?: (exported: number, total?: number) => void
-        ): Promise<{ filePath: string | null; canceled: boolean; totalExported: number }> => {
-          const state = get();
-          if (!state.currentNamespaceId) {
-            throw new Error("No namespace selected");
-          }
-
-          const allDocuments: Document[] = [];
-          let lastId: string | number | null = null;
-          const batchSize = 10_000; // Turbopuffer max top_k limit
-
-          // Page through all documents using id pagination (Turbopuffer recommended approach)
-          while (true) {
-            const filters: TurbopufferFilter | undefined = lastId !== null
-              ? ["id", "Gt", lastId]
-              : undefined;
-
-            const result = await documentService.queryDocuments(
-              state.currentNamespaceId,
-              {
-                filters,
-                top_k: batchSize,
-                include_attributes: true,
-                rank_by: ["id", "asc"], // rank_by id ascending for pagination
-              }
-            );
-
-            const rows = result.rows || [];
-
-            if (rows.length === 0) {
-              break;
-            }
-
-            allDocuments.push(...rows);
-            onProgress?.(allDocuments.length);
-
-            if (rows.length < batchSize) {
-              break;
-            }
-
-            lastId = rows[rows.length - 1].id;
-          }
-
-          if (allDocuments.length === 0) {
-            throw new Error("No documents in namespace to export");
-          }
-
-          let content: string;
-          let defaultFileName: string;
-          let fileFilters: { name: string; extensions: string[] }[];
-
-          if (format === "json") {
-            content = JSON.stringify(allDocuments, null, 2);
-            defaultFileName = `export_full_${state.currentNamespaceId}_${Date.now()}.json`;
-            fileFilters = [{ name: "JSON Files", extensions: ["json"] }];
-          } else {
-            const Papa = await import("papaparse");
-            const flattenedDocs = allDocuments.map((doc) => {
-              const { vector, attributes, ...rest } = doc;
-              return {
-                ...rest,
-                ...attributes,
-                vector_dimensions: vector ? vector.length : null,
-              };
-            });
-            content = Papa.unparse(flattenedDocs);
-            defaultFileName = `export_full_${state.currentNamespaceId}_${Date.now()}.csv`;
-            fileFilters = [{ name: "CSV Files", extensions: ["csv"] }];
-          }
-
-          const result = await window.electronAPI.saveWithDialog({
-            defaultPath: defaultFileName,
-            filters: fileFilters,
-            content,
-          });
-
-          return {
-            filePath: result.filePath,
-            canceled: result.canceled,
-            totalExported: allDocuments.length,
-          };
-        },
-
         // Raw Query Actions
         setRawQueryResults: (documents: Document[], queryResponse?: any) =>
           set((state) => {
@@ -2335,6 +2560,7 @@ export const useDocumentsStore = create<DocumentsState>()(
             state.nextCursor = null; // Raw queries don't use pagination cursors
             // Clear active filters since this is a raw query
             state.activeFilters = [];
+            state.filterGroups = [];
             state.searchText = "";
           }),
 
@@ -2358,6 +2584,7 @@ export const useDocumentsStore = create<DocumentsState>()(
             state.totalCount = null;
             state.unfilteredTotalCount = null;
             state.attributes = [];
+            state.namespaceSchema = null;
             state.lastQueryResult = null;
             state.nextCursor = null;
             state.isLoading = false;
@@ -2365,10 +2592,12 @@ export const useDocumentsStore = create<DocumentsState>()(
             state.isDiscoveringAttributes = false;
             state.error = null;
             state.selectedDocuments = new Set();
+            state.pendingChanges = new Map();
             state.visibleColumns = new Set();
             state.currentNamespaceId = null;
             state.searchText = "";
             state.activeFilters = [];
+            state.filterGroups = [];
             state.isQueryMode = false;
             state.isClientInitialized = false;
             state.initializationAttempts = 0;
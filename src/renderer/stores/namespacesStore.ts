@@ -48,6 +48,12 @@ interface NamespacesState {
   deletingNamespace: string | null;
   deleteDialogNamespace: string | null;
 
+  // Duplicate State
+  duplicateDialogNamespace: string | null;
+
+  // Migrate State
+  migrateDialogNamespace: string | null;
+
   // Client State
   isClientInitialized: boolean;
   initializationAttempts: number;
@@ -79,6 +85,7 @@ interface NamespacesState {
   // Actions - CRUD
   createNamespace: (namespaceId: string) => Promise<void>;
   deleteNamespace: (namespaceId: string) => Promise<void>;
+  duplicateNamespace: (sourceId: string, targetId: string) => Promise<void>;
   getNamespaceById: (connectionId: string, namespaceId: string) => Promise<Namespace | null>;
 
   // Actions - Search
@@ -104,6 +111,12 @@ interface NamespacesState {
   setDeleteDialogNamespace: (namespaceId: string | null) => void;
   handleDeleteConfirm: () => Promise<void>;
 
+  // Actions - Duplicate Dialog
+  setDuplicateDialogNamespace: (namespaceId: string | null) => void;
+
+  // Actions - Migrate Dialog
+  setMigrateDialogNamespace: (namespaceId: string | null) => void;
+
   // Actions - Recent Namespaces
   addRecentNamespace: (connectionId: string, namespace: Namespace) => void;
   clearRecentNamespaces: () => void;
@@ -150,6 +163,8 @@ export const useNamespacesStore = create<NamespacesState>()(
 
         deletingNamespace: null,
         deleteDialogNamespace: null,
+        duplicateDialogNamespace: null,
+        migrateDialogNamespace: null,
 
         isClientInitialized: false,
         initializationAttempts: 0,
@@ -354,6 +369,27 @@ export const useNamespacesStore = create<NamespacesState>()(
           }
         },
 
+        duplicateNamespace: async (sourceId, targetId) => {
+          try {
+            await namespaceService.copyNamespace(sourceId, targetId);
+
+            set((state) => {
+              if (!state.namespaces.some(ns => ns.id === targetId)) {
+                state.namespaces.push({ id: targetId });
+                state.namespaces.sort((a, b) => a.id.localeCompare(b.id));
+                state.totalCount = state.namespaces.length;
+              }
+              state.duplicateDialogNamespace = null;
+            });
+
+            // Clear cache
+            get().clearCache();
+          } catch (error) {
+            console.error('Failed to duplicate namespace:', error);
+            throw error;
+          }
+        },
+
         getNamespaceById: async (connectionId, namespaceId) => {
           try {
             return await namespaceService.getNamespaceById(namespaceId);
@@ -546,6 +582,20 @@ export const useNamespacesStore = create<NamespacesState>()(
           }
         },
 
+        // Duplicate Dialog Actions
+        setDuplicateDialogNamespace: (namespaceId) => {
+          set((state) => {
+            state.duplicateDialogNamespace = namespaceId;
+          });
+        },
+
+        // Migrate Dialog Actions
+        setMigrateDialogNamespace: (namespaceId) => {
+          set((state) => {
+            state.migrateDialogNamespace = namespaceId;
+          });
+        },
+
         // Recent Namespaces Actions
         addRecentNamespace: (connectionId, namespace) => {
           if (!connectionId) return;
@@ -740,6 +790,8 @@ export const useNamespacesStore = create<NamespacesState>()(
             state.loadedPrefixes = new Set();
             state.deletingNamespace = null;
             state.deleteDialogNamespace = null;
+            state.duplicateDialogNamespace = null;
+            state.migrateDialogNamespace = null;
             state.isClientInitialized = false;
             state.initializationAttempts = 0;
           });
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildAggregateBy,
+  buildPivot,
+  deriveAggregationValues,
+  formatGroupLabel,
+  groupKey,
+  sortAggregationGroups,
+  toAggregationValues,
+  validateAggregations,
+} from '../aggregations';
+import type { AggregationConfig } from '../aggregations';
+
+const config = (name: string, type: AggregationConfig['type'], attribute?: string): AggregationConfig => ({
+  id: name,
+  name,
+  type,
+  attribute,
+  groupBy: [],
+});
+
+const configs = [config('docs', 'count'), config('revenue', 'sum', 'price'), config('avg_price', 'avg', 'price')];
+
+describe('buildAggregateBy', () => {
+  it('sends avg as a hidden sum and count', () => {
+    expect(buildAggregateBy(configs)).toEqual({
+      docs: ['Count'],
+      revenue: ['Sum', 'price'],
+      __avg_sum_avg_price: ['Sum', 'price'],
+      __avg_count: ['Count'],
+    });
+  });
+});
+
+describe('deriveAggregationValues', () => {
+  it('divides the hidden sum by the count and drops the helpers', () => {
+    const group = { category: 'books', docs: 4, revenue: 50, __avg_sum_avg_price: 50, __avg_count: 4 };
+    expect(deriveAggregationValues(group, configs)).toEqual({ category: 'books', docs: 4, revenue: 50, avg_price: 12.5 });
+  });
+
+  it('leaves the average empty for an empty group', () => {
+    expect(deriveAggregationValues({ __avg_sum_avg_price: 0, __avg_count: 0 }, configs).avg_price).toBeNull();
+  });
+});
+
+describe('toAggregationValues', () => {
+  it('lists the values in the configured order', () => {
+    const values = toAggregationValues({ revenue: 9, docs: 3, __avg_sum_avg_price: 9, __avg_count: 3 }, configs);
+    expect(values.map(v => [v.label, v.value])).toEqual([['docs', 3], ['revenue', 9], ['avg_price', 3]]);
+  });
+});
+
+describe('validateAggregations', () => {
+  it('rejects duplicate, reserved and group-by names and missing attributes', () => {
+    expect(validateAggregations(configs, ['category'])).toBeNull();
+    expect(validateAggregations([config('a', 'count'), config('a', 'count')])).toMatch(/Two aggregations/);
+    expect(validateAggregations([config('__x', 'count')])).toMatch(/can't start/);
+    expect(validateAggregations([config('category', 'count')], ['category'])).toMatch(/group-by/);
+    expect(validateAggregations([config('total', 'sum')])).toMatch(/numeric attribute/);
+  });
+});
+
+describe('sortAggregationGroups', () => {
+  const groups = [
+    { category: 'b', revenue: 10 },
+    { category: 'a', revenue: null },
+    { category: 'c', revenue: 30 },
+  ];
+
+  it('sorts numbers and strings and keeps missing values last', () => {
+    expect(sortAggregationGroups(groups, 'revenue', 'desc').map(g => g.category)).toEqual(['c', 'b', 'a']);
+    expect(sortAggregationGroups(groups, 'revenue', 'asc').map(g => g.category)).toEqual(['b', 'c', 'a']);
+    expect(sortAggregationGroups(groups, 'category', 'desc').map(g => g.category)).toEqual(['c', 'b', 'a']);
+  });
+});
+
+describe('groupKey and formatGroupLabel', () => {
+  it('picks the group-by values and labels missing ones', () => {
+    const group: Record<string, unknown> = { category: 'books', format: null, docs: 4 };
+    expect(groupKey(group, ['category', 'format'])).toEqual({ category: 'books', format: null });
+    expect(formatGroupLabel(group, ['category', 'format'])).toBe('books · (none)');
+  });
+});
+
+describe('buildPivot', () => {
+  it('cross-tabulates two group-by attributes with totals', () => {
+    const pivot = buildPivot(
+      [
+        { category: 'toys', format: 'new', docs: 2 },
+        { category: 'books', format: 'used', docs: 5 },
+        { category: 'books', format: 'new', docs: 3 },
+      ],
+      'category',
+      'format',
+      'docs'
+    );
+    expect(pivot.rowValues).toEqual(['books', 'toys']);
+    expect(pivot.columnValues).toEqual(['new', 'used']);
+    expect(pivot.cells).toEqual([[3, 5], [2, null]]);
+    expect(pivot.rowTotals).toEqual([8, 2]);
+    expect(pivot.columnTotals).toEqual([5, 5]);
+  });
+});
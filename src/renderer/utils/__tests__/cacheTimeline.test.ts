@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import {
+  appendCacheSample,
+  cacheTimelineKey,
+  isWarmTemperature,
+  summarizeCacheTimeline,
+  toCacheSample,
+} from '../cacheTimeline';
+import type { CacheSample } from '@/types/cache';
+
+const sample = (overrides: Partial<CacheSample>): CacheSample => ({
+  timestamp: 0,
+  temperature: 'cold',
+  hitRatio: 0,
+  serverTotalMs: 100,
+  source: 'query',
+  ...overrides,
+});
+
+describe('toCacheSample', () => {
+  it('maps query performance fields', () => {
+    const performance = {
+      cache_hit_ratio: 0.75,
+      cache_temperature: 'warm' as const,
+      server_total_ms: 42,
+      query_execution_ms: 30,
+      exhaustive_search_count: 0,
+      approx_namespace_size: 1000,
+    };
+    expect(toCacheSample(performance, 'warm_probe', 5)).toEqual({
+      timestamp: 5,
+      temperature: 'warm',
+      hitRatio: 0.75,
+      serverTotalMs: 42,
+      source: 'warm_probe',
+    });
+  });
+});
+
+describe('appendCacheSample', () => {
+  it('keeps only the most recent samples', () => {
+    let samples: CacheSample[] = [];
+    for (let i = 0; i < 5; i++) {
+      samples = appendCacheSample(samples, sample({ timestamp: i }), 3);
+    }
+    expect(samples.map(s => s.timestamp)).toEqual([2, 3, 4]);
+  });
+});
+
+describe('summarizeCacheTimeline', () => {
+  it('returns null without samples', () => {
+    expect(summarizeCacheTimeline([])).toBeNull();
+  });
+
+  it('counts temperatures and takes the median server time', () => {
+    const summary = summarizeCacheTimeline([
+      sample({ timestamp: 1, temperature: 'cold', hitRatio: 0, serverTotalMs: 400 }),
+      sample({ timestamp: 2, temperature: 'warm', hitRatio: 0.5, serverTotalMs: 40 }),
+      sample({ timestamp: 3, temperature: 'hot', hitRatio: 1, serverTotalMs: 10 }),
+      sample({ timestamp: 4, temperature: 'hot', hitRatio: 1, serverTotalMs: 8 }),
+    ])!;
+
+    expect(summary.count).toBe(4);
+    expect(summary.latest.timestamp).toBe(4);
+    expect(summary.avgHitRatio).toBeCloseTo(0.625);
+    expect(summary.medianServerTotalMs).toBe(25);
+    expect(summary.temperatures).toEqual({ hot: 2, warm: 1, cold: 1 });
+  });
+});
+
+describe('helpers', () => {
+  it('scopes timelines per connection', () => {
+    expect(cacheTimelineKey('conn', 'ns')).not.toBe(cacheTimelineKey('other', 'ns'));
+  });
+
+  it('treats warm and hot as warmed', () => {
+    expect(isWarmTemperature('hot')).toBe(true);
+    expect(isWarmTemperature('warm')).toBe(true);
+    expect(isWarmTemperature('cold')).toBe(false);
+    expect(isWarmTemperature(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { cellEditorKind, cellValuesEqual, formatCellEditText, parseCellEditText } from '../cellEditing';
+
+describe('cellEditorKind', () => {
+  it('prefers the discovered attribute type over the current value', () => {
+    expect(cellEditorKind(null, 'number')).toBe('number');
+    expect(cellEditorKind('2024-01-01', 'date')).toBe('text');
+    expect(cellEditorKind(['a'], 'array')).toBe('json');
+    expect(cellEditorKind(true)).toBe('boolean');
+    expect(cellEditorKind({ a: 1 }, 'mixed')).toBe('json');
+  });
+});
+
+describe('parseCellEditText', () => {
+  it('parses each kind and round-trips formatted values', () => {
+    expect(parseCellEditText(' 4.5 ', 'number')).toEqual({ value: 4.5 });
+    expect(parseCellEditText('', 'number')).toEqual({ value: null });
+    expect(parseCellEditText('false', 'boolean')).toEqual({ value: false });
+    expect(parseCellEditText('null', 'boolean')).toEqual({ value: null });
+    expect(parseCellEditText('  keep spaces ', 'text')).toEqual({ value: '  keep spaces ' });
+
+    const tags = ['a', 'b'];
+    expect(parseCellEditText(formatCellEditText(tags, 'json'), 'json')).toEqual({ value: tags });
+  });
+
+  it('reports input that does not parse', () => {
+    expect(parseCellEditText('ten', 'number')).toEqual({ error: '"ten" is not a number' });
+    expect(parseCellEditText('[1,', 'json')).toMatchObject({ error: expect.stringContaining('Invalid JSON') });
+  });
+});
+
+describe('cellValuesEqual', () => {
+  it('compares values structurally and treats missing as null', () => {
+    expect(cellValuesEqual(['a', 1], ['a', 1])).toBe(true);
+    expect(cellValuesEqual(undefined, null)).toBe(true);
+    expect(cellValuesEqual(1, '1')).toBe(false);
+  });
+});
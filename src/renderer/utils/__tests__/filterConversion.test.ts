@@ -1,5 +1,8 @@
 import { describe, it, expect } from 'vitest';
-import { convertFiltersToQuery, convertFiltersToRawQuery } from '../filterConversion';
+import { convertFilterNode, convertFiltersToQuery, convertFiltersToRawQuery, parseFilterToNode } from '../filterConversion';
+import { stripFilterNodeIds } from '../filterTree';
+import type { FilterNode } from '@/types/unifiedQuery';
+import type { Filter } from '@/types/document';
 import type { SimpleFilter } from '@/renderer/stores/documentsStore';
 import type { DiscoveredAttribute } from '@/types/attributeDiscovery';
 
@@ -128,6 +131,11 @@ describe('convertFiltersToQuery', () => {
       expect(result.filters).toEqual(['email', 'NotGlob', '*@spam.com']);
     });
 
+    it('converts a not_contains condition to NotGlob', () => {
+      const node: FilterNode = { id: 'n', type: 'simple', attribute: 'title', operator: 'not_contains', value: 'draft' };
+      expect(convertFilterNode(node, [])).toEqual(['title', 'NotGlob', '*draft*']);
+    });
+
     it('converts imatches operator to IGlob', () => {
       const filter = createFilter('name', 'imatches', '*john*');
       const result = convertFiltersToQuery([filter], '', []);
@@ -249,3 +257,65 @@ describe('convertFiltersToRawQuery', () => {
     expect(parsed).toHaveProperty('include_attributes');
   });
 });
+
+describe('filter groups', () => {
+  const groups: FilterNode[] = [
+    {
+      id: 'g1',
+      type: 'or',
+      children: [
+        { id: 'a', type: 'simple', attribute: 'status', operator: 'equals', value: 'open', displayValue: 'open' },
+        {
+          id: 'n',
+          type: 'not',
+          children: [{
+            id: 'g2',
+            type: 'and',
+            children: [
+              { id: 'b', type: 'simple', attribute: 'priority', operator: 'less', value: 2, displayValue: '2' },
+              { id: 'c', type: 'simple', attribute: 'tags', operator: 'contains_any', value: ['x', 'y'], displayValue: '[x, y]' },
+            ],
+          }],
+        },
+      ],
+    },
+  ];
+
+  it('ANDs groups with flat filters', () => {
+    const result = convertFiltersToQuery([createFilter('kind', 'equals', 'bug')], '', [], groups);
+    expect(result.filters).toEqual([
+      'And',
+      [
+        ['kind', 'Eq', 'bug'],
+        ['Or', [
+          ['status', 'Eq', 'open'],
+          ['Not', ['And', [['priority', 'Lt', 2], ['tags', 'ContainsAny', ['x', 'y']]]]],
+        ]],
+      ],
+    ]);
+  });
+
+  it('drops empty groups', () => {
+    const result = convertFiltersToQuery([], '', [], [{ id: 'g', type: 'and', children: [] }]);
+    expect(result.filters).toBeUndefined();
+  });
+
+  it('round-trips groups through the Turbopuffer filter shape', () => {
+    const attributes = [createAttribute('tags', '[]string')];
+    const filter = convertFilterNode(groups[0], attributes) as Filter;
+    const parsed = parseFilterToNode(filter, attributes);
+    expect(parsed).not.toBeNull();
+    expect(stripFilterNodeIds([parsed as FilterNode])).toEqual(stripFilterNodeIds(groups));
+    expect(convertFilterNode(parsed as FilterNode, attributes)).toEqual(filter);
+  });
+
+  it('reads single-value ContainsAny on array fields back as equals', () => {
+    const parsed = parseFilterToNode(['tags', 'ContainsAny', 'x'], [createAttribute('tags', '[]string')]);
+    expect(parsed?.operator).toBe('equals');
+  });
+
+  it('returns null for filters the builder cannot represent', () => {
+    expect(parseFilterToNode(['status', 'Unknown' as any, 1])).toBeNull();
+    expect(parseFilterToNode(['Or', [['status', 'Eq', 1], ['x', 'Bogus' as any, 2]]])).toBeNull();
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest';
+import {
+  FilterExpressionError,
+  formatFilterExpression,
+  getFilterExpressionCompletions,
+  parseFilterExpression,
+} from '../filterExpression';
+import { convertFiltersToQuery } from '../filterConversion';
+import type { Filter } from '@/types/document';
+import type { DiscoveredAttribute } from '@/types/attributeDiscovery';
+
+const attribute = (name: string, type: DiscoveredAttribute['type'], uniqueValues?: any[]): DiscoveredAttribute => ({
+  name,
+  type,
+  uniqueValues,
+  sampleValues: [],
+  frequency: 1,
+  totalDocuments: 1,
+  isNullable: false,
+});
+
+const attributes = [
+  attribute('category', 'string', ['a', 'b']),
+  attribute('views', 'number'),
+  attribute('tags', 'array'),
+  attribute('published', 'boolean'),
+];
+
+const errorAt = (expression: string) => {
+  try {
+    parseFilterExpression(expression);
+  } catch (error) {
+    if (error instanceof FilterExpressionError) return { message: error.message, start: error.start };
+    throw error;
+  }
+  throw new Error('expected a parse error');
+};
+
+describe('parseFilterExpression', () => {
+  it('parses the example from the docs with SQL precedence', () => {
+    expect(parseFilterExpression(
+      "category IN ('a','b') AND (views > 100 OR NOT title IGLOB '*draft*')"
+    )).toEqual(['And', [
+      ['category', 'In', ['a', 'b']],
+      ['Or', [
+        ['views', 'Gt', 100],
+        ['Not', ['title', 'IGlob', '*draft*']],
+      ]],
+    ]]);
+
+    expect(parseFilterExpression('a = 1 OR b = 2 AND c = 3')).toEqual(['Or', [
+      ['a', 'Eq', 1],
+      ['And', [['b', 'Eq', 2], ['c', 'Eq', 3]]],
+    ]]);
+  });
+
+  it('reads multi-word operators, literals and quoted names', () => {
+    expect(parseFilterExpression(
+      "tags contains any ('x') and tags NOT CONTAINS 'y' and body CONTAINS ALL TOKENS 'quick fox' "
+      + "and `my attr` IS NOT NULL and deleted is null and score ANY >= -1.5 and ok = true and name = 'it''s'"
+    )).toEqual(['And', [
+      ['tags', 'ContainsAny', ['x']],
+      ['tags', 'NotContains', 'y'],
+      ['body', 'ContainsAllTokens', 'quick fox'],
+      ['my attr', 'NotEq', null],
+      ['deleted', 'Eq', null],
+      ['score', 'AnyGte', -1.5],
+      ['ok', 'Eq', true],
+      ['name', 'Eq', "it's"],
+    ]]);
+  });
+
+  it('returns undefined for an empty expression', () => {
+    expect(parseFilterExpression('   ')).toBeUndefined();
+  });
+
+  it('reports errors with their position', () => {
+    expect(errorAt('views > ')).toMatchObject({ message: 'Expected a value, found end of expression', start: 8 });
+    expect(errorAt('views >> 1')).toMatchObject({ start: 7 });
+    expect(errorAt("category IN 'a'")).toMatchObject({ message: "Expected a list of values after IN, found ''a''", start: 12 });
+    expect(errorAt('(a = 1')).toMatchObject({ message: "Expected ')', found end of expression" });
+    expect(errorAt('a = 1 b = 2')).toMatchObject({ start: 6 });
+    expect(errorAt("name = 'open")).toMatchObject({ message: 'Unterminated string', start: 7 });
+    expect(errorAt('tags CONTAINS ALL 1')).toMatchObject({ message: "Incomplete operator 'CONTAINS ALL', found 'CONTAINS'", start: 5 });
+  });
+});
+
+describe('formatFilterExpression', () => {
+  it('round-trips nested filters', () => {
+    const filters: Filter[] = [
+      ['And', [
+        ['category', 'In', ['a', 'b']],
+        ['Or', [['views', 'Gt', 100], ['Not', ['title', 'IGlob', '*draft*']]]],
+      ]],
+      ['Or', [['And', [['a', 'Eq', 1], ['b', 'Eq', 2]]], ['c', 'NotEq', null]]],
+      ['And', [['a', 'Eq', 1], ['And', [['b', 'Eq', 2], ['c', 'Eq', 3]]]]],
+      ['Not', ['Or', [['a', 'Eq', 'x'], ['and', 'Eq', [1, 2]]]]],
+      ['tags', 'ContainsAny', 'x'],
+    ];
+    filters.forEach(filter => {
+      expect(parseFilterExpression(formatFilterExpression(filter))).toEqual(filter);
+    });
+  });
+
+  it('writes readable expressions', () => {
+    expect(formatFilterExpression(['And', [
+      ['category', 'In', ['a', 'b']],
+      ['Or', [['views', 'Gt', 100], ['Not', ['title', 'IGlob', '*draft*']]]],
+    ]])).toBe("category IN ('a', 'b') AND (views > 100 OR NOT title IGLOB '*draft*')");
+    expect(formatFilterExpression(['the name', 'Eq', "it's"])).toBe("`the name` = 'it''s'");
+  });
+
+  it('formats any visual builder state', () => {
+    const query = convertFiltersToQuery(
+      [{ id: '1', attribute: 'tags', operator: 'equals', value: 'x', displayValue: 'x' }],
+      '',
+      attributes,
+      [{ id: 'g', type: 'or', children: [
+        { id: '2', type: 'simple', attribute: 'views', operator: 'greater', value: 5 },
+        { id: '3', type: 'not', children: [{ id: '4', type: 'simple', attribute: 'category', operator: 'contains', value: 'a' }] },
+      ] }]
+    );
+    const expression = formatFilterExpression(query.filters);
+    expect(expression).toBe("tags CONTAINS ANY 'x' AND (views > 5 OR NOT category GLOB '*a*')");
+    expect(parseFilterExpression(expression)).toEqual(query.filters);
+  });
+
+  it('rejects values an expression cannot hold', () => {
+    expect(() => formatFilterExpression(['a', 'Eq', { nested: true }])).toThrow();
+  });
+});
+
+describe('getFilterExpressionCompletions', () => {
+  const labels = (expression: string) =>
+    getFilterExpressionCompletions(expression, expression.length, attributes).map(item => item.label);
+
+  it('suggests attributes where a condition starts', () => {
+    expect(labels('')).toEqual(['category', 'views', 'tags', 'published', 'NOT']);
+    expect(labels('views > 1 AND (vi')).toContain('views');
+  });
+
+  it('suggests operators that fit the attribute type', () => {
+    expect(labels('views ')).not.toContain('CONTAINS ANY');
+    expect(labels('tags ')).toContain('CONTAINS ANY');
+    expect(labels('tags NOT ')).toEqual(['IN', 'GLOB', 'IGLOB', 'CONTAINS', 'CONTAINS ANY']);
+  });
+
+  it('suggests known values and connectives', () => {
+    expect(labels('category = ')).toEqual(["'a'", "'b'"]);
+    expect(labels('published = ')).toEqual(['TRUE', 'FALSE']);
+    expect(labels("category IN ('a', ")).toEqual(["'a'", "'b'"]);
+    expect(labels("category = 'a' ")).toEqual(['AND', 'OR']);
+    expect(labels("category = 'a")).toEqual([]);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import {
+  countFilterConditions,
+  createFilterGroup,
+  createFilterLeaf,
+  findFilterNode,
+  insertFilterNode,
+  moveFilterNode,
+  removeFilterNode,
+  toggleFilterNegation,
+} from '../filterTree';
+import type { FilterNode } from '@/types/unifiedQuery';
+
+const leaf = (id: string): FilterNode => ({ id, type: 'simple', attribute: id, operator: 'equals', value: 1 });
+
+const tree = (): FilterNode[] => [
+  { id: 'or', type: 'or', children: [leaf('a'), { id: 'inner', type: 'and', children: [leaf('b'), leaf('c')] }] },
+  { id: 'other', type: 'and', children: [] },
+];
+
+describe('filterTree', () => {
+  it('creates groups and leaves with unique ids', () => {
+    const group = createFilterGroup('and', [createFilterLeaf('status', 'equals', 'open', 'open')]);
+    expect(group.type).toBe('and');
+    expect(group.children?.[0].id).not.toBe(group.id);
+  });
+
+  it('inserts into a group or at the top level', () => {
+    const withLeaf = insertFilterNode(tree(), 'inner', leaf('d'));
+    expect(findFilterNode(withLeaf, 'inner')?.children?.map(child => child.id)).toEqual(['b', 'c', 'd']);
+    expect(insertFilterNode(tree(), null, leaf('d')).map(node => node.id)).toEqual(['or', 'other', 'd']);
+  });
+
+  it('toggles negation by wrapping and unwrapping in not', () => {
+    const negated = toggleFilterNegation(tree(), 'inner');
+    const wrapper = findFilterNode(negated, 'or')?.children?.[1];
+    expect(wrapper?.type).toBe('not');
+    expect(wrapper?.children?.[0].id).toBe('inner');
+
+    expect(toggleFilterNegation(negated, 'inner')).toEqual(tree());
+  });
+
+  it('removes the not wrapper together with its child', () => {
+    const negated = toggleFilterNegation(tree(), 'a');
+    const removed = removeFilterNode(negated, 'a');
+    expect(findFilterNode(removed, 'or')?.children?.map(child => child.id)).toEqual(['inner']);
+  });
+
+  it('moves nodes between groups, keeping negation', () => {
+    const negated = toggleFilterNegation(tree(), 'inner');
+    const moved = moveFilterNode(negated, 'inner', 'other');
+    expect(findFilterNode(moved, 'or')?.children?.map(child => child.id)).toEqual(['a']);
+    const target = findFilterNode(moved, 'other')?.children ?? [];
+    expect(target[0].type).toBe('not');
+    expect(target[0].children?.[0].id).toBe('inner');
+  });
+
+  it('refuses to move a group into itself or its descendants', () => {
+    expect(moveFilterNode(tree(), 'or', 'inner')).toEqual(tree());
+    expect(moveFilterNode(tree(), 'or', 'or')).toEqual(tree());
+  });
+
+  it('counts conditions at any depth', () => {
+    expect(countFilterConditions(tree())).toBe(3);
+  });
+});
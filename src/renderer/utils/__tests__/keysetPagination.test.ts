@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildKeysetFilter,
+  compareSortValues,
+  fetchKeysetPage,
+  randomIdBetween,
+  sampleKeysetRows,
+  seekKeysetCursor,
+  sortRowsByKey,
+  sortValueOf,
+} from '../keysetPagination';
+import type { KeysetCursor, KeysetOrder, KeysetQueryRunner } from '../keysetPagination';
+import type { Document, Filter } from '@/types/document';
+
+// Rows with heavy ties on created_at and a few missing values
+const rows: Document[] = Array.from({ length: 23 }, (_, i) => ({
+  id: `doc-${String(i).padStart(2, '0')}`,
+  attributes: i % 7 === 3 ? {} : { created_at: `2024-01-0${(i * 5) % 4}` },
+}));
+
+const matches = (row: Document, filter: Filter | undefined): boolean => {
+  if (!filter) return true;
+  const [left, op, right] = filter as [any, string, any];
+  if (left === 'And') return (op as unknown as Filter[]).every(f => matches(row, f));
+  if (left === 'Or') return (op as unknown as Filter[]).some(f => matches(row, f));
+  const order = compareSortValues(sortValueOf(row, left), right);
+  const value = sortValueOf(row, left) ?? null;
+  switch (op) {
+    case 'Eq': return value === right;
+    case 'NotEq': return value !== right;
+    case 'Gt': return value !== null && order > 0;
+    case 'Gte': return value !== null && order >= 0;
+    case 'Lt': return value !== null && order < 0;
+    default: throw new Error(`unsupported operator ${op}`);
+  }
+};
+
+// Orders by the single rank_by attribute only, returning ties in reverse id
+// order so the tie-breaking has to come from the cursor
+const fakeTurbopuffer = (): KeysetQueryRunner & { calls: number } => {
+  const run = async (params: any) => {
+    run.calls++;
+    const [attribute, direction] = params.rank_by;
+    const sign = direction === 'asc' ? 1 : -1;
+    const ordered = rows
+      .filter(row => matches(row, params.filters))
+      .sort((a, b) => sign * compareSortValues(sortValueOf(a, attribute), sortValueOf(b, attribute))
+        || compareSortValues(b.id, a.id));
+    return { rows: ordered.slice(0, params.top_k) };
+  };
+  run.calls = 0;
+  return run;
+};
+
+const collectPages = async (orderBy: KeysetOrder, limit: number) => {
+  const runQuery = fakeTurbopuffer();
+  const pages: string[][] = [];
+  let cursor: KeysetCursor | null = null;
+  do {
+    const page = await fetchKeysetPage(runQuery, { orderBy, cursor, limit });
+    pages.push(page.response.rows.map(row => String(row.id)));
+    cursor = page.nextCursor;
+  } while (cursor);
+  return pages;
+};
+
+describe('buildKeysetFilter', () => {
+  it('compares the attribute first and the id among ties', () => {
+    expect(buildKeysetFilter({ attribute: 'views', direction: 'asc' }, { value: 5, id: 'b' })).toEqual(
+      ['Or', [['views', 'Gt', 5], ['And', [['views', 'Eq', 5], ['id', 'Gt', 'b']]]]]
+    );
+    expect(buildKeysetFilter({ attribute: 'id', direction: 'desc' }, { value: 'b', id: 'b' })).toEqual(['id', 'Lt', 'b']);
+  });
+
+  it('places missing values before present ones ascending and after them descending', () => {
+    expect(buildKeysetFilter({ attribute: 'views', direction: 'asc' }, { value: null, id: 'b' })).toEqual(
+      ['Or', [['views', 'NotEq', null], ['And', [['views', 'Eq', null], ['id', 'Gt', 'b']]]]]
+    );
+    expect(buildKeysetFilter({ attribute: 'views', direction: 'desc' }, { value: 5, id: 'b' })).toEqual(
+      ['Or', [['views', 'Lt', 5], ['And', [['views', 'Eq', 5], ['id', 'Lt', 'b']]], ['views', 'Eq', null]]]
+    );
+  });
+});
+
+describe('fetchKeysetPage', () => {
+  it.each(['asc', 'desc'] as const)('visits every row exactly once sorting %s by a tied attribute', async (direction) => {
+    const orderBy: KeysetOrder = { attribute: 'created_at', direction };
+    const pages = await collectPages(orderBy, 4);
+    expect(pages.flat()).toEqual(sortRowsByKey(rows, orderBy).map(row => row.id));
+    expect(pages.slice(0, -1).every(page => page.length === 4)).toBe(true);
+  });
+
+  it('needs no tie query when sorting by id', async () => {
+    const runQuery = fakeTurbopuffer();
+    const page = await fetchKeysetPage(runQuery, { orderBy: { attribute: 'id', direction: 'asc' }, limit: 5 });
+    expect(page.nextCursor).toEqual({ value: 'doc-04', id: 'doc-04' });
+    expect(runQuery.calls).toBe(1);
+  });
+});
+
+describe('seekKeysetCursor', () => {
+  const orderBy: KeysetOrder = { attribute: 'created_at', direction: 'desc' };
+
+  it('lands on the same cursor as paging one page at a time', async () => {
+    const pages = await collectPages(orderBy, 5);
+    const cursor = await seekKeysetCursor(fakeTurbopuffer(), { orderBy, skip: 15, chunkSize: 7 });
+    const page = await fetchKeysetPage(fakeTurbopuffer(), { orderBy, cursor, limit: 5 });
+    expect(page.response.rows.map(row => row.id)).toEqual(pages[3]);
+  });
+
+  it('returns undefined past the last row', async () => {
+    expect(await seekKeysetCursor(fakeTurbopuffer(), { orderBy, skip: 30 })).toBeUndefined();
+  });
+});
+
+describe('randomIdBetween', () => {
+  it('draws numbers uniformly and keeps integer ids whole', () => {
+    expect(randomIdBetween(10, 20, () => 0.55)).toBe(15);
+    expect(randomIdBetween(0.5, 1.5, () => 0.25)).toBe(0.75);
+  });
+
+  it('spreads string ids over the range after their common prefix', () => {
+    const seen = ['doc-12', 'doc-34', 'doc-56', 'doc-78'];
+    const draws = [0, 0.25, 0.5, 0.75, 0.999].map(r => String(randomIdBetween('doc-00', 'doc-99', () => r, seen)));
+    expect(draws.every(id => id.startsWith('doc-') && id >= 'doc-00' && id <= 'doc-99')).toBe(true);
+    expect(draws[2].slice(4, 5)).toBe('4');
+    expect([...draws].sort()).toEqual(draws);
+  });
+});
+
+describe('sampleKeysetRows', () => {
+  it('reads runs from across the id range without repeating rows', async () => {
+    const runQuery = fakeTurbopuffer();
+    const starts = [0.9, 0.1, 0.5, 0.1];
+    const sample = await sampleKeysetRows(runQuery, {
+      limit: 9,
+      pageSize: 3,
+      includeAttributes: ['created_at'],
+      random: () => starts.shift() ?? 0,
+    });
+    const ids = sample.map(row => String(row.id));
+    expect(new Set(ids).size).toBe(9);
+    expect(ids.some(id => id < 'doc-05')).toBe(true);
+    expect(ids.some(id => id > 'doc-18')).toBe(true);
+  });
+
+  it('applies the filters to every run', async () => {
+    const sample = await sampleKeysetRows(fakeTurbopuffer(), {
+      filters: ['created_at', 'NotEq', null],
+      limit: 5,
+      random: () => 0.5,
+    });
+    expect(sample.length).toBeGreaterThan(0);
+    expect(sample.every(row => row.attributes?.created_at !== undefined)).toBe(true);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { findOutliers, kMeans, summarizeClusters } from '../kmeans';
+
+// Two tight groups around (0, 0) and (10, 10), plus one far-off point
+const vectors = [
+  [0, 0], [0.1, 0], [0, 0.1], [0.1, 0.1],
+  [10, 10], [10.1, 10], [10, 10.1], [10.1, 10.1],
+  [10, 25],
+];
+
+describe('kMeans', () => {
+  it('separates well-spread groups and is repeatable for a seed', () => {
+    const result = kMeans(vectors, 2, { seed: 7 });
+    const [a, b] = [result.assignments[0], result.assignments[4]];
+    expect(a).not.toBe(b);
+    expect(result.assignments.slice(0, 4).every((c) => c === a)).toBe(true);
+    expect(result.assignments.slice(4).every((c) => c === b)).toBe(true);
+    expect(kMeans(vectors, 2, { seed: 7 }).assignments).toEqual(result.assignments);
+  });
+
+  it('clusters by direction when normalizing', () => {
+    const result = kMeans([[1, 0], [5, 0.1], [0, 2], [0.1, 9]], 2, { normalize: true });
+    expect(result.assignments[0]).toBe(result.assignments[1]);
+    expect(result.assignments[2]).toBe(result.assignments[3]);
+    expect(result.distances.every((d) => d < 0.1)).toBe(true);
+  });
+
+  it('rejects a k larger than the sample', () => {
+    expect(() => kMeans([[1, 2]], 2)).toThrow('k must be between 1 and 1');
+  });
+});
+
+describe('summarizeClusters and findOutliers', () => {
+  it('orders members by distance and finds the far-off point', () => {
+    const result = kMeans(vectors, 2, { seed: 7 });
+    const summaries = summarizeClusters(result);
+    expect(summaries.map((s) => s.size).sort()).toEqual([4, 5]);
+    const upper = summaries.find((s) => s.size === 5)!;
+    expect(upper.members[upper.members.length - 1]).toBe(8);
+    expect(findOutliers(result, 1)).toEqual([8]);
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { suggestCopyName, validateNamespaceId } from '../namespaceValidation';
+
+describe('validateNamespaceId', () => {
+  it('accepts valid names', () => {
+    expect(validateNamespaceId('docs_v2.snapshot-1')).toBeNull();
+  });
+
+  it('rejects empty and invalid names', () => {
+    expect(validateNamespaceId('  ')).toBe('Namespace ID is required');
+    expect(validateNamespaceId('has space')).toMatch(/can only contain/);
+    expect(validateNamespaceId('a'.repeat(129))).toMatch(/can only contain/);
+  });
+
+  it('rejects names that already exist', () => {
+    expect(validateNamespaceId('docs', ['docs', 'other'])).toBe('Namespace "docs" already exists');
+  });
+});
+
+describe('suggestCopyName', () => {
+  it('picks the first free copy suffix', () => {
+    expect(suggestCopyName('docs')).toBe('docs-copy');
+    expect(suggestCopyName('docs', ['docs-copy', 'docs-copy-2'])).toBe('docs-copy-3');
+  });
+
+  it('stays within the length limit', () => {
+    const name = suggestCopyName('a'.repeat(128));
+    expect(name).toHaveLength(128);
+    expect(validateNamespaceId(name)).toBeNull();
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { nearestNeighbors, pointInPolygon, project, reduceDimensions, seededRandom } from '../projection';
+import type { Point2D, ProjectionMethod } from '../projection';
+
+// Two tight blobs far apart in 80 dimensions
+const blobs = (() => {
+  const random = seededRandom(7);
+  return Array.from({ length: 40 }, (_, i) =>
+    Array.from({ length: 80 }, (_, d) => (i < 20 ? 0 : d % 2 ? 5 : -5) + random() * 0.1)
+  );
+})();
+
+const centroid = (points: Point2D[]): Point2D => [
+  points.reduce((sum, p) => sum + p[0], 0) / points.length,
+  points.reduce((sum, p) => sum + p[1], 0) / points.length,
+];
+const distance = (a: Point2D, b: Point2D) => Math.hypot(a[0] - b[0], a[1] - b[1]);
+
+describe('project', () => {
+  it.each<ProjectionMethod>(['pca', 'umap', 'tsne'])('%s keeps the blobs apart', (method) => {
+    const points = project(method, blobs, { iterations: 150 });
+    expect(points).toHaveLength(40);
+    const [a, b] = [centroid(points.slice(0, 20)), centroid(points.slice(20))];
+    const spread = Math.max(...points.slice(0, 20).map(p => distance(p, a)));
+    expect(distance(a, b)).toBeGreaterThan(spread);
+  });
+
+  it('is deterministic for a seed', () => {
+    expect(project('umap', blobs, { seed: 3, iterations: 20 })).toEqual(project('umap', blobs, { seed: 3, iterations: 20 }));
+  });
+});
+
+describe('nearestNeighbors', () => {
+  it('finds the closest points first', () => {
+    const graph = nearestNeighbors([[0], [1], [5], [1.5]], 2);
+    expect(Array.from(graph.indices.slice(0, 2))).toEqual([1, 3]);
+    expect(graph.distances[0]).toBe(1);
+  });
+});
+
+describe('reduceDimensions', () => {
+  it('leaves narrow vectors alone and narrows wide ones', () => {
+    expect(reduceDimensions([[1, 2]], 64, 1)).toEqual([[1, 2]]);
+    expect(reduceDimensions(blobs, 16, 1)[0]).toHaveLength(16);
+  });
+});
+
+describe('pointInPolygon', () => {
+  const square: Point2D[] = [[0, 0], [2, 0], [2, 2], [0, 2]];
+
+  it('tests containment', () => {
+    expect(pointInPolygon([1, 1], square)).toBe(true);
+    expect(pointInPolygon([3, 1], square)).toBe(false);
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import {
+  locateJsonPath,
+  validateAttributeValue,
+  validateFilter,
+  validateQuery,
+  validateRankBy,
+  vectorAttributesOf,
+} from '../queryValidation';
+import type { NamespaceSchema } from '@/types/namespace';
+
+const schema: NamespaceSchema = {
+  id: { type: 'uuid' },
+  title: { type: 'string', full_text_search: true },
+  category: { type: 'string' },
+  secret: { type: 'string', filterable: false },
+  views: { type: 'uint' },
+  created_at: { type: 'datetime' },
+  scores: { type: '[]int' },
+  vector: { type: { type: '[3]f32', ann: true } },
+};
+
+const messages = (issues: { message: string }[]) => issues.map(issue => issue.message);
+
+describe('validateFilter', () => {
+  it('accepts filters that match the schema', () => {
+    expect(validateFilter(['And', [
+      ['id', 'Eq', '123e4567-e89b-12d3-a456-426614174000'],
+      ['category', 'In', ['a', 'b']],
+      ['views', 'Gte', 10],
+      ['created_at', 'Lt', '2024-01-01T00:00:00Z'],
+      ['scores', 'ContainsAny', [1, 2]],
+      ['title', 'ContainsAllTokens', 'quick fox'],
+      ['category', 'Eq', null],
+    ]], schema)).toEqual([]);
+  });
+
+  it('flags attributes that are not filterable', () => {
+    const issues = validateFilter(['Or', [['secret', 'Eq', 'x'], ['title', 'Glob', '*a*']]], schema, ['filters']);
+    expect(messages(issues)).toEqual([
+      "'secret' is not filterable",
+      "'title' is not filterable (full-text attributes need filterable: true)",
+    ]);
+    expect(issues[1].path).toEqual(['filters', 1, 1, 0]);
+  });
+
+  it('flags values that do not match the attribute type', () => {
+    const issues = validateFilter(['And', [
+      ['id', 'Eq', 'not-a-uuid'],
+      ['created_at', 'Gt', 'yesterday'],
+      ['scores', 'ContainsAny', [1, 'two']],
+      ['views', 'In', [1, -2]],
+    ]], schema);
+    expect(messages(issues)).toEqual([
+      '"not-a-uuid" is not a UUID, as \'id\' (uuid) requires',
+      '"yesterday" is not an RFC 3339 datetime, as \'created_at\' (datetime) requires',
+      '"two" is not an integer, as \'scores\' (int) requires',
+      "-2 is not a non-negative integer, as 'views' (uint) requires",
+    ]);
+    expect(issues[2].path).toEqual([1, 2, 2, 1]);
+  });
+
+  it('flags operators that do not fit the attribute', () => {
+    expect(messages(validateFilter(['And', [
+      ['views', 'Contains', 1],
+      ['category', 'ContainsTokenSequence', 'a b'],
+      ['vector', 'Eq', [1, 2, 3]],
+    ]], schema))).toEqual([
+      "Contains only applies to array attributes, and 'views' is uint",
+      "ContainsTokenSequence needs full-text search, which is not enabled on 'category'",
+      "Vector attribute 'vector' can't be filtered",
+    ]);
+  });
+
+  it('warns about attributes missing from the schema', () => {
+    expect(validateFilter(['missing', 'Eq', 1], schema)).toMatchObject([{ severity: 'warning' }]);
+  });
+});
+
+describe('validateRankBy', () => {
+  it('checks BM25 fields, vector dimensions and expression attributes', () => {
+    expect(messages(validateRankBy(['Sum', [['title', 'BM25', 'a'], ['category', 'BM25', 'a']]], schema)))
+      .toEqual(["BM25 needs full-text search, which is not enabled on 'category'"]);
+    expect(validateRankBy(['vector', 'ANN', [1, 2]], schema, ['rank_by'])).toMatchObject([
+      { message: "Query vector has 2 dimensions, but 'vector' stores 3", path: ['rank_by', 2] },
+    ]);
+    expect(messages(validateRankBy(['Add', ['Mul', 2, 'views'], 'category'], schema)))
+      .toEqual(["Ranking expressions need numeric attributes, and 'category' is string"]);
+  });
+});
+
+describe('validateQuery', () => {
+  it('checks each subquery of a multi-query', () => {
+    const issues = validateQuery({ queries: [{ rank_by: ['id', 'asc'] }, { filters: ['secret', 'Eq', 'x'] }] }, schema);
+    expect(issues).toMatchObject([{ path: ['queries', 1, 'filters', 0] }]);
+  });
+
+  it('skips validation without a schema', () => {
+    expect(validateQuery({ filters: ['secret', 'Eq', 'x'] }, null)).toEqual([]);
+  });
+});
+
+describe('validateAttributeValue', () => {
+  it('checks written values against the attribute type', () => {
+    expect(validateAttributeValue('views', 3, schema)).toBeNull();
+    expect(validateAttributeValue('views', null, schema)).toBeNull();
+    expect(validateAttributeValue('unknown', { any: 'thing' }, schema)).toBeNull();
+    expect(validateAttributeValue('views', 'three', schema)).toBe('"three" is not a non-negative integer, as \'views\' (uint) requires');
+    expect(validateAttributeValue('scores', 1, schema)).toBe("'scores' ([]int) needs a list");
+    expect(validateAttributeValue('scores', [1, 2.5], schema)).toBe("2.5 is not an integer, as 'scores' (int) requires");
+    expect(validateAttributeValue('vector', [1, 2, 3], schema)).toBe("Vector attribute 'vector' can't be edited as a value");
+  });
+});
+
+describe('vectorAttributesOf', () => {
+  it('lists the vector attributes in the schema', () => {
+    expect(vectorAttributesOf(schema)).toEqual(['vector']);
+    expect(vectorAttributesOf(null)).toEqual([]);
+  });
+});
+
+describe('locateJsonPath', () => {
+  const text = '{\n  "rank_by": ["id", "asc"],\n  "filters": ["And", [["a", "Eq", 1], ["b\\"c", "In", [1, 2]]]]\n}';
+
+  it('finds the range of a nested value', () => {
+    const range = locateJsonPath(text, ['filters', 1, 1, 2, 1]);
+    expect(range && text.slice(range.start, range.end)).toBe('2');
+    const attribute = locateJsonPath(text, ['filters', 1, 1, 0]);
+    expect(attribute && text.slice(attribute.start, attribute.end)).toBe('"b\\"c"');
+  });
+
+  it('returns null for missing paths and invalid JSON', () => {
+    expect(locateJsonPath(text, ['filters', 5])).toBeNull();
+    expect(locateJsonPath('{"a": [1,', ['a', 0])).toBeNull();
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { fuseResults, RRF_K } from '../rankFusion';
+
+const vectorRows = [
+  { id: 'a', $dist: 0.1 },
+  { id: 'b', $dist: 0.2 },
+  { id: 'c', $dist: 0.9 },
+];
+
+const bm25Rows = [
+  { id: 'c', $dist: 12.5 },
+  { id: 'a', $dist: 8.0 },
+  { id: 'd', $dist: 2.0 },
+];
+
+describe('fuseResults', () => {
+  describe('reciprocal_rank', () => {
+    it('ranks documents found by several subqueries first', () => {
+      const fused = fuseResults(
+        [
+          { label: 'vector', rows: vectorRows, lowerIsBetter: true },
+          { label: 'bm25', rows: bm25Rows },
+        ],
+        'reciprocal_rank'
+      );
+
+      expect(fused.map(d => d.id)).toEqual(['a', 'c', 'b', 'd']);
+      expect(fused[0].$fusion?.score).toBeCloseTo(1 / (RRF_K + 1) + 1 / (RRF_K + 2));
+    });
+
+    it('records rank and raw score per subquery', () => {
+      const fused = fuseResults(
+        [
+          { label: 'vector', rows: vectorRows, lowerIsBetter: true },
+          { label: 'bm25', rows: bm25Rows },
+        ],
+        'reciprocal_rank'
+      );
+      const b = fused.find(d => d.id === 'b');
+
+      expect(b?.$fusion?.subqueries).toEqual([
+        { label: 'vector', rank: 2, score: 0.2 },
+        { label: 'bm25', rank: null, score: null },
+      ]);
+      expect(b?.$dist).toBeUndefined();
+    });
+
+    it('applies subquery weights', () => {
+      const fused = fuseResults(
+        [
+          { label: 'vector', rows: vectorRows, weight: 0 },
+          { label: 'bm25', rows: bm25Rows, weight: 1 },
+        ],
+        'reciprocal_rank'
+      );
+
+      expect(fused.map(d => d.id).slice(0, 3)).toEqual(['c', 'a', 'd']);
+    });
+  });
+
+  describe('weighted', () => {
+    it('inverts distances when lower is better', () => {
+      const fused = fuseResults(
+        [{ label: 'vector', rows: vectorRows, lowerIsBetter: true }],
+        'weighted'
+      );
+
+      expect(fused.map(d => d.id)).toEqual(['a', 'b', 'c']);
+      expect(fused[0].$fusion?.score).toBe(1);
+      expect(fused[2].$fusion?.score).toBe(0);
+    });
+
+    it('combines normalized scores across subqueries', () => {
+      const fused = fuseResults(
+        [
+          { label: 'vector', rows: vectorRows, lowerIsBetter: true },
+          { label: 'bm25', rows: bm25Rows },
+        ],
+        'weighted'
+      );
+
+      // a: 1 + (8 - 2) / 10.5, c: 0 + 1, b: 0.875 + 0, d: 0 + 0
+      expect(fused.map(d => d.id)).toEqual(['a', 'c', 'b', 'd']);
+    });
+
+    it('falls back to rank position when rows have no score', () => {
+      const fused = fuseResults(
+        [{ label: 'plain', rows: [{ id: 1 }, { id: 2 }, { id: 3 }] }],
+        'weighted'
+      );
+
+      expect(fused.map(d => d.id)).toEqual([1, 2, 3]);
+    });
+  });
+
+  it('limits the output to topK', () => {
+    const fused = fuseResults(
+      [
+        { label: 'vector', rows: vectorRows, lowerIsBetter: true },
+        { label: 'bm25', rows: bm25Rows },
+      ],
+      'reciprocal_rank',
+      { topK: 2 }
+    );
+
+    expect(fused).toHaveLength(2);
+    expect(fused[1].$fusion?.rank).toBe(2);
+  });
+
+  it('returns an empty list when no subquery returned rows', () => {
+    expect(fuseResults([{ label: 'vector', rows: [] }], 'reciprocal_rank')).toEqual([]);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { computeRecallTrend, formatRecall, isRecallDegrading } from '../recallHistory';
+import type { RecallRun } from '@/types/recall';
+
+const run = (overrides: Partial<RecallRun>): RecallRun => ({
+  id: String(overrides.timestamp ?? 0),
+  timestamp: 0,
+  num: 25,
+  topK: 10,
+  filters: null,
+  durationMs: 100,
+  avgRecall: 1,
+  avgAnnCount: 10,
+  avgExhaustiveCount: 10,
+  ...overrides,
+});
+
+describe('computeRecallTrend', () => {
+  it('returns null without runs', () => {
+    expect(computeRecallTrend([])).toBeNull();
+  });
+
+  it('compares only runs with the same settings', () => {
+    const trend = computeRecallTrend([
+      run({ timestamp: 1, avgRecall: 0.99 }),
+      run({ timestamp: 2, avgRecall: 0.5, topK: 100 }),
+      run({ timestamp: 3, avgRecall: 0.97 }),
+      run({ timestamp: 4, avgRecall: 0.95 }),
+    ])!;
+
+    expect(trend.comparableRuns).toBe(3);
+    expect(trend.baseline?.timestamp).toBe(1);
+    expect(trend.previous?.timestamp).toBe(3);
+    expect(trend.deltaFromBaseline).toBeCloseTo(-0.04);
+    expect(trend.deltaFromPrevious).toBeCloseTo(-0.02);
+    expect(isRecallDegrading(trend)).toBe(true);
+  });
+
+  it('treats filtered runs as a separate series', () => {
+    const trend = computeRecallTrend([
+      run({ timestamp: 1, avgRecall: 0.99 }),
+      run({ timestamp: 2, avgRecall: 0.9, filters: ['color', 'Eq', 'red'] }),
+    ])!;
+
+    expect(trend.baseline).toBeNull();
+    expect(trend.deltaFromBaseline).toBeNull();
+    expect(isRecallDegrading(trend)).toBe(false);
+  });
+});
+
+describe('formatRecall', () => {
+  it('formats as a percentage', () => {
+    expect(formatRecall(0.9234)).toBe('92.3%');
+  });
+});
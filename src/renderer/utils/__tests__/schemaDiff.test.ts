@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { diffSchemas } from '../schemaDiff';
+import type { NamespaceSchema } from '@/types/namespace';
+
+const current: NamespaceSchema = {
+  id: { type: 'string' },
+  vector: { type: { type: '[3]f32', ann: true } },
+  title: { type: 'string', full_text_search: { tokenizer: 'word_v1' } },
+  category: { type: 'string', filterable: false },
+  views: { type: 'int' },
+};
+
+describe('diffSchemas', () => {
+  it('reports nothing for an unchanged schema', () => {
+    const diff = diffSchemas(current, { ...current });
+    expect(diff.changes).toEqual([]);
+    expect(diff.update).toEqual({});
+  });
+
+  it('treats added attributes as safe and sends them', () => {
+    const diff = diffSchemas(current, { ...current, tags: { type: '[]string' } });
+    expect(diff.changes).toMatchObject([{ attribute: 'tags', kind: 'added', impact: 'safe' }]);
+    expect(diff.update).toEqual({ tags: { type: '[]string' } });
+    expect(diff.hasRebuild).toBe(false);
+  });
+
+  it('flags enabling filtering and full-text search as rebuilds', () => {
+    const diff = diffSchemas(current, {
+      ...current,
+      category: { type: 'string', filterable: true, full_text_search: true },
+    });
+    expect(diff.changes.map(change => [change.kind, change.impact])).toEqual([
+      ['filterable', 'rebuild'],
+      ['full_text_search', 'rebuild'],
+    ]);
+    expect(diff.hasRebuild).toBe(true);
+    expect(Object.keys(diff.update)).toEqual(['category']);
+  });
+
+  it('treats disabling indexes as safe', () => {
+    const diff = diffSchemas(current, {
+      ...current,
+      title: { type: 'string' },
+      views: { type: 'int', filterable: false },
+    });
+    expect(diff.changes.map(change => [change.attribute, change.kind, change.impact])).toEqual([
+      // Full-text attributes default to non-filterable, so dropping FTS makes title filterable
+      ['title', 'filterable', 'rebuild'],
+      ['title', 'full_text_search', 'safe'],
+      ['views', 'filterable', 'safe'],
+    ]);
+  });
+
+  it('separates tokenizer changes from other full-text settings', () => {
+    const diff = diffSchemas(current, {
+      ...current,
+      title: { type: 'string', full_text_search: { tokenizer: 'pre_tokenized_array', stemming: true } },
+    });
+    expect(diff.changes).toMatchObject([
+      { kind: 'tokenizer', impact: 'rebuild', before: 'word_v1', after: 'pre_tokenized_array' },
+      { kind: 'full_text_settings', impact: 'rebuild', after: { stemming: true } },
+    ]);
+  });
+
+  it('rejects type and ANN changes and leaves those attributes out of the update', () => {
+    const diff = diffSchemas(current, {
+      ...current,
+      views: { type: 'string', filterable: false },
+      vector: { type: { type: '[3]f32', ann: false } },
+    });
+    expect(diff.hasRejected).toBe(true);
+    expect(diff.changes.filter(change => change.impact === 'rejected').map(change => change.kind))
+      .toEqual(['ann', 'type']);
+    expect(diff.update).toEqual({});
+  });
+
+  it('ignores removed attributes', () => {
+    const { views: _views, ...pending } = current;
+    const diff = diffSchemas(current, pending);
+    expect(diff.changes).toMatchObject([{ attribute: 'views', kind: 'removed', impact: 'ignored' }]);
+    expect(diff.update).toEqual({});
+  });
+});
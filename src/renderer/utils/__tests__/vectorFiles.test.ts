@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { overlapAtK, parseNpy, parseQueryJsonl, parseVecs } from '../vectorFiles';
+
+// A version 1.0 .npy file holding `values` with the given dtype and shape
+function npy(descr: string, shape: number[], values: number[], fortran = false): ArrayBuffer {
+  let header = `{'descr': '${descr}', 'fortran_order': ${fortran ? 'True' : 'False'}, 'shape': (${shape.join(', ')},), }`;
+  header = header.padEnd(Math.ceil((header.length + 11) / 64) * 64 - 11) + '\n';
+  const size = descr.endsWith('8') ? 8 : 4;
+  const buffer = new ArrayBuffer(10 + header.length + values.length * size);
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  bytes.set([0x93, ...new TextEncoder().encode('NUMPY'), 1, 0]);
+  view.setUint16(8, header.length, true);
+  bytes.set(new TextEncoder().encode(header), 10);
+  values.forEach((value, i) => {
+    const offset = 10 + header.length + i * size;
+    if (descr === '<f4') view.setFloat32(offset, value, true);
+    else if (descr === '<f8') view.setFloat64(offset, value, true);
+    else if (descr === '<i8') view.setBigInt64(offset, BigInt(value), true);
+    else view.setInt32(offset, value, true);
+  });
+  return buffer;
+}
+
+function vecs(rows: number[][], kind: 'f' | 'i'): ArrayBuffer {
+  const buffer = new ArrayBuffer(rows.reduce((sum, row) => sum + 4 + row.length * 4, 0));
+  const view = new DataView(buffer);
+  let offset = 0;
+  rows.forEach((row) => {
+    view.setInt32(offset, row.length, true);
+    row.forEach((value, i) => {
+      if (kind === 'f') view.setFloat32(offset + 4 + i * 4, value, true);
+      else view.setInt32(offset + 4 + i * 4, value, true);
+    });
+    offset += 4 + row.length * 4;
+  });
+  return buffer;
+}
+
+describe('parseNpy', () => {
+  it('reads row- and column-major 2D arrays', () => {
+    expect(parseNpy(npy('<f4', [2, 3], [1, 2, 3, 4, 5, 6]))).toEqual([[1, 2, 3], [4, 5, 6]]);
+    expect(parseNpy(npy('<f8', [2, 3], [1, 4, 2, 5, 3, 6], true))).toEqual([[1, 2, 3], [4, 5, 6]]);
+    expect(parseNpy(npy('<i8', [1, 2], [7, 9]))).toEqual([[7, 9]]);
+  });
+
+  it('treats a 1D array as one row and rejects other files', () => {
+    expect(parseNpy(npy('<f4', [3], [0.5, 1, 2]))).toEqual([[0.5, 1, 2]]);
+    expect(() => parseNpy(new TextEncoder().encode('[1, 2]').buffer)).toThrow('Not a .npy file');
+    expect(() => parseNpy(npy('<c8', [1], [0]))).toThrow(/Unsupported .npy dtype/);
+  });
+});
+
+describe('parseVecs', () => {
+  it('reads each record with its own dimension', () => {
+    expect(parseVecs(vecs([[1, 2], [3, 4]], 'f'), 'f')).toEqual([[1, 2], [3, 4]]);
+    expect(parseVecs(vecs([[10, 20, 30]], 'i'), 'i')).toEqual([[10, 20, 30]]);
+  });
+
+  it('rejects a truncated file', () => {
+    expect(() => parseVecs(vecs([[1, 2]], 'f').slice(0, 8), 'f')).toThrow(/truncated/);
+  });
+});
+
+describe('parseQueryJsonl', () => {
+  it('accepts bare arrays and objects with a vector key', () => {
+    const set = parseQueryJsonl('[1, 2]\n{"id": "q7", "embedding": [3, 4]}\n\n');
+    expect(set.vectors).toEqual([[1, 2], [3, 4]]);
+    expect(set.labels).toEqual(['0', 'q7']);
+    expect(() => parseQueryJsonl('{"id": 1}')).toThrow('Line 1 has no vector');
+  });
+});
+
+describe('overlapAtK', () => {
+  it('compares the first k ids as strings', () => {
+    expect(overlapAtK(['1', '2', '3', '9'], [3, 1, 5, 2], 3)).toBeCloseTo(2 / 3);
+    expect(overlapAtK([1, 2], [2, 1], 10)).toBe(1);
+    expect(overlapAtK([1], [], 10)).toBeNull();
+  });
+});
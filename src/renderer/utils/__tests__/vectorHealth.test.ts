@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeVectorHealth, describeNorms, distanceMetricOf, idsForCheck } from '../vectorHealth';
+
+const rows = [
+  { id: 'a', vector: [1, 0, 0] },
+  { id: 'b', vector: [0, 1, 0] },
+  { id: 'c', vector: [1, 0, 0] },
+  { id: 'd', vector: [0, 0] },
+  { id: 'e', vector: [NaN, 1, Infinity] },
+  { id: 'f', vector: [0, 0, 0] },
+  { id: 'g', vector: null },
+  { id: 'h', vector: [3, 4, 0] },
+];
+
+describe('analyzeVectorHealth', () => {
+  it('sorts each vector into the first check it fails', () => {
+    const report = analyzeVectorHealth(rows);
+    expect(report.sampled).toBe(8);
+    expect(report.expectedDimensions).toBe(3);
+    expect(report.dimensionSource).toBe('sample');
+    expect(report.missing).toEqual(['g']);
+    expect(report.dimensionMismatches).toEqual([{ id: 'd', dimensions: 2 }]);
+    expect(report.nonFinite).toEqual([{ id: 'e', nanCount: 1, infCount: 1, nullCount: 0 }]);
+    expect(report.nearZero).toEqual([{ id: 'f', norm: 0 }]);
+    expect(report.duplicates).toEqual([['a', 'c']]);
+  });
+
+  it('counts null elements, which is how NaN and Inf arrive over JSON, as non-finite', () => {
+    const report = analyzeVectorHealth([{ id: 'a', vector: [0.1, null, 0.3] }, { id: 'b', vector: null }]);
+    expect(report.nonFinite).toEqual([{ id: 'a', nanCount: 0, infCount: 0, nullCount: 1 }]);
+    expect(report.missing).toEqual(['b']);
+  });
+
+  it('checks widths against the schema dimension when given', () => {
+    const report = analyzeVectorHealth(rows, { expectedDimensions: 2 });
+    expect(report.dimensionSource).toBe('schema');
+    expect(idsForCheck(report, 'dimension')).toEqual(['a', 'b', 'c', 'e', 'f', 'h']);
+  });
+
+  it('summarizes the norm distribution', () => {
+    const norms = analyzeVectorHealth(rows).norms!;
+    expect(norms.min).toBe(0);
+    expect(norms.max).toBe(5);
+    expect(norms.p50).toBe(1);
+    expect(norms.normalizedFraction).toBe(0.6);
+    expect(norms.histogram.reduce((sum, bin) => sum + bin.count, 0)).toBe(5);
+    expect(describeNorms(norms, 'cosine_distance')).toMatch(/^60% of vectors/);
+  });
+});
+
+describe('distanceMetricOf', () => {
+  it('reads the metric from an ann config and ignores plain flags', () => {
+    expect(distanceMetricOf({ type: { type: '[3]f32', ann: { distance_metric: 'euclidean_squared' } } } as any)).toBe(
+      'euclidean_squared'
+    );
+    expect(distanceMetricOf({ type: { type: '[3]f32', ann: true } })).toBeNull();
+    expect(distanceMetricOf(undefined)).toBeNull();
+  });
+});
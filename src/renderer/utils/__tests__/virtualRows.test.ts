@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { buildRowOffsets, findVisibleRange, rowAtOffset, scrollTopToReveal } from '../virtualRows';
+
+// Rows 0-9 are 40px except row 3, which was measured at 100px
+const offsets = buildRowOffsets(10, index => (index === 3 ? 100 : undefined), 40);
+
+describe('buildRowOffsets', () => {
+  it('uses measured heights where known and the estimate elsewhere', () => {
+    expect(Array.from(offsets.slice(0, 6))).toEqual([0, 40, 80, 120, 220, 260]);
+    expect(offsets[10]).toBe(460);
+  });
+});
+
+describe('rowAtOffset', () => {
+  it('finds the row covering a position', () => {
+    expect(rowAtOffset(offsets, 0)).toBe(0);
+    expect(rowAtOffset(offsets, 219)).toBe(3);
+    expect(rowAtOffset(offsets, 220)).toBe(4);
+    expect(rowAtOffset(offsets, 10_000)).toBe(9);
+  });
+});
+
+describe('findVisibleRange', () => {
+  it('covers the viewport plus overscan and pads the rest', () => {
+    expect(findVisibleRange(offsets, 130, 100, 1)).toEqual({
+      start: 2,
+      end: 6,
+      paddingTop: 80,
+      paddingBottom: 460 - 300,
+    });
+  });
+
+  it('handles an empty list', () => {
+    expect(findVisibleRange(buildRowOffsets(0, () => undefined, 40), 0, 500)).toEqual({
+      start: 0, end: 0, paddingTop: 0, paddingBottom: 0,
+    });
+  });
+});
+
+describe('scrollTopToReveal', () => {
+  it('scrolls the least distance that shows the whole row', () => {
+    expect(scrollTopToReveal(offsets, 1, 100, 200)).toBe(40);
+    expect(scrollTopToReveal(offsets, 3, 0, 200)).toBe(20);
+    expect(scrollTopToReveal(offsets, 3, 0, 236, 36)).toBe(20);
+    expect(scrollTopToReveal(offsets, 2, 50, 200)).toBe(50);
+  });
+});
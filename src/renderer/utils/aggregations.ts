@@ -0,0 +1,207 @@
+/**
+ * Named aggregations for query mode. Count and Sum map straight onto
+ * `aggregate_by`; Avg has no server-side function, so it is sent as a hidden
+ * Sum plus a Count and divided once the results come back.
+ */
+
+import type { AggregateFunction, AggregationGroup } from '@/types/document';
+
+export type AggregationKind = 'count' | 'sum' | 'avg';
+
+export interface AggregationConfig {
+  id: string;
+  name: string; // Result label, unique per query
+  type: AggregationKind;
+  attribute?: string; // Numeric attribute for sum and avg
+  groupBy: string[];
+  topK?: number;
+}
+
+export interface AggregationValue {
+  label: string;
+  type: AggregationKind;
+  attribute?: string;
+  value: number | null;
+}
+
+export type SortDirection = 'asc' | 'desc';
+
+const HIDDEN_PREFIX = '__';
+const AVG_COUNT_LABEL = `${HIDDEN_PREFIX}avg_count`;
+const avgSumLabel = (config: AggregationConfig) => `${HIDDEN_PREFIX}avg_sum_${config.name}`;
+
+export const AGGREGATION_KIND_LABELS: Record<AggregationKind, string> = {
+  count: 'Count',
+  sum: 'Sum',
+  avg: 'Avg',
+};
+
+export function describeAggregation(config: Pick<AggregationConfig, 'type' | 'attribute'>): string {
+  return config.type === 'count' ? 'COUNT(*)' : `${config.type.toUpperCase()}(${config.attribute ?? '?'})`;
+}
+
+/**
+ * The first problem that would make the query fail, or null when the
+ * aggregations can be sent.
+ */
+export function validateAggregations(configs: AggregationConfig[], groupBy: string[] = []): string | null {
+  const names = new Set<string>();
+  for (const config of configs) {
+    const name = config.name.trim();
+    if (!name) return 'Every aggregation needs a name';
+    if (name.startsWith(HIDDEN_PREFIX)) return `Aggregation names can't start with "${HIDDEN_PREFIX}"`;
+    if (names.has(name)) return `Two aggregations are named "${name}"`;
+    if (groupBy.includes(name)) return `"${name}" is also a group-by attribute; rename the aggregation`;
+    if (config.type !== 'count' && !config.attribute) {
+      return `Choose a numeric attribute for ${AGGREGATION_KIND_LABELS[config.type]} "${name}"`;
+    }
+    names.add(name);
+  }
+  return null;
+}
+
+export function buildAggregateBy(configs: AggregationConfig[]): Record<string, AggregateFunction> {
+  const aggregateBy: Record<string, AggregateFunction> = {};
+  for (const config of configs) {
+    if (config.type === 'count') {
+      aggregateBy[config.name] = ['Count'];
+    } else if (config.type === 'sum') {
+      aggregateBy[config.name] = ['Sum', config.attribute!];
+    } else {
+      aggregateBy[avgSumLabel(config)] = ['Sum', config.attribute!];
+      aggregateBy[AVG_COUNT_LABEL] = ['Count'];
+    }
+  }
+  return aggregateBy;
+}
+
+/**
+ * Fill in derived averages and drop the hidden helper values. Works on the
+ * ungrouped `aggregations` object and on each row of `aggregation_groups`.
+ * Averages are over every document in the group, so documents without the
+ * attribute count towards the denominator.
+ */
+export function deriveAggregationValues(row: Record<string, any>, configs: AggregationConfig[]): Record<string, any> {
+  const derived: Record<string, any> = {};
+  Object.entries(row).forEach(([key, value]) => {
+    if (!key.startsWith(HIDDEN_PREFIX)) derived[key] = value;
+  });
+  for (const config of configs) {
+    if (config.type !== 'avg') continue;
+    const sum = Number(row[avgSumLabel(config)]);
+    const count = Number(row[AVG_COUNT_LABEL]);
+    derived[config.name] = count > 0 && Number.isFinite(sum) ? sum / count : null;
+  }
+  return derived;
+}
+
+export function toAggregationValues(
+  aggregations: Record<string, any>,
+  configs: AggregationConfig[]
+): AggregationValue[] {
+  const values = deriveAggregationValues(aggregations, configs);
+  return configs.map((config) => ({
+    label: config.name,
+    type: config.type,
+    attribute: config.attribute,
+    value: typeof values[config.name] === 'number' ? values[config.name] : null,
+  }));
+}
+
+/**
+ * Sort group rows by one column. Missing values go last in either direction.
+ */
+export function sortAggregationGroups(
+  groups: AggregationGroup[],
+  column: string,
+  direction: SortDirection
+): AggregationGroup[] {
+  const sign = direction === 'asc' ? 1 : -1;
+  return [...groups].sort((a, b) => {
+    const left = a[column];
+    const right = b[column];
+    const leftMissing = left === null || left === undefined;
+    const rightMissing = right === null || right === undefined;
+    if (leftMissing || rightMissing) return Number(leftMissing) - Number(rightMissing);
+    if (typeof left === 'number' && typeof right === 'number') return (left - right) * sign;
+    return String(left).localeCompare(String(right), undefined, { numeric: true }) * sign;
+  });
+}
+
+/**
+ * The group-by values that identify a group, for drilling down into it.
+ */
+export function groupKey(group: AggregationGroup, groupBy: string[]): Record<string, unknown> {
+  const key: Record<string, unknown> = {};
+  for (const attribute of groupBy) {
+    key[attribute] = group[attribute] ?? null;
+  }
+  return key;
+}
+
+export function formatGroupValue(value: unknown): string {
+  if (value === null || value === undefined) return '(none)';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+export function formatGroupLabel(group: AggregationGroup, groupBy: string[]): string {
+  return groupBy.map((attribute) => formatGroupValue(group[attribute])).join(' · ');
+}
+
+export interface AggregationPivot {
+  rowValues: unknown[];
+  columnValues: unknown[];
+  cells: (number | null)[][]; // [row][column]; null where no group exists
+  rowTotals: number[];
+  columnTotals: number[];
+}
+
+const compareGroupValues = (left: unknown, right: unknown) => {
+  const leftMissing = left === null || left === undefined;
+  const rightMissing = right === null || right === undefined;
+  if (leftMissing || rightMissing) return Number(leftMissing) - Number(rightMissing);
+  if (typeof left === 'number' && typeof right === 'number') return left - right;
+  return formatGroupValue(left).localeCompare(formatGroupValue(right), undefined, { numeric: true });
+};
+
+/**
+ * Cross-tabulate groups from a two-attribute group_by: one row per value of
+ * the first attribute, one column per value of the second. Values missing
+ * from the response stay null rather than 0, since an absent group and an
+ * empty one look the same to the server.
+ */
+export function buildPivot(
+  groups: AggregationGroup[],
+  rowAttribute: string,
+  columnAttribute: string,
+  valueColumn: string
+): AggregationPivot {
+  const distinct = (attribute: string) => {
+    const seen = new Map<string, unknown>();
+    groups.forEach((group) => seen.set(JSON.stringify(group[attribute] ?? null), group[attribute] ?? null));
+    return [...seen.values()].sort(compareGroupValues);
+  };
+  const rowValues = distinct(rowAttribute);
+  const columnValues = distinct(columnAttribute);
+  const rowIndex = new Map(rowValues.map((value, i) => [JSON.stringify(value), i]));
+  const columnIndex = new Map(columnValues.map((value, i) => [JSON.stringify(value), i]));
+
+  const cells: (number | null)[][] = rowValues.map(() => columnValues.map(() => null));
+  for (const group of groups) {
+    const row = rowIndex.get(JSON.stringify(group[rowAttribute] ?? null))!;
+    const column = columnIndex.get(JSON.stringify(group[columnAttribute] ?? null))!;
+    const value = group[valueColumn];
+    cells[row][column] = typeof value === 'number' ? value : null;
+  }
+
+  return {
+    rowValues,
+    columnValues,
+    cells,
+    rowTotals: cells.map((row) => row.reduce<number>((sum, value) => sum + (value ?? 0), 0)),
+    columnTotals: columnValues.map((_, column) =>
+      cells.reduce((sum, row) => sum + (row[column] ?? 0), 0)
+    ),
+  };
+}
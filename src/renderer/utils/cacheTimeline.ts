@@ -0,0 +1,76 @@
+/**
+ * Helpers for the per-namespace cache temperature timeline.
+ */
+
+import type { CacheSample, CacheSampleSource, CacheTemperature, CacheWarmState, QueryPerformance } from '@/types/cache';
+
+export const MAX_CACHE_SAMPLES = 200;
+
+export interface CacheTimelineSummary {
+  count: number;
+  latest: CacheSample;
+  avgHitRatio: number;
+  medianServerTotalMs: number;
+  temperatures: Record<CacheTemperature, number>;
+}
+
+export function cacheTimelineKey(connectionId: string, namespaceId: string): string {
+  return `${connectionId}::${namespaceId}`;
+}
+
+export function toCacheSample(
+  performance: QueryPerformance,
+  source: CacheSampleSource,
+  timestamp = Date.now()
+): CacheSample {
+  return {
+    timestamp,
+    temperature: performance.cache_temperature,
+    hitRatio: performance.cache_hit_ratio,
+    serverTotalMs: performance.server_total_ms,
+    source,
+  };
+}
+
+/**
+ * Append a sample, keeping at most `max` of the most recent ones.
+ */
+export function appendCacheSample(
+  samples: CacheSample[],
+  sample: CacheSample,
+  max = MAX_CACHE_SAMPLES
+): CacheSample[] {
+  const next = [...samples, sample];
+  return next.length > max ? next.slice(next.length - max) : next;
+}
+
+export function isWarmTemperature(temperature: CacheTemperature | undefined): boolean {
+  return temperature === 'warm' || temperature === 'hot';
+}
+
+export function isWarmStateFinal(state: CacheWarmState): boolean {
+  return state === 'warm' || state === 'unverified' || state === 'failed';
+}
+
+export function summarizeCacheTimeline(samples: CacheSample[]): CacheTimelineSummary | null {
+  if (samples.length === 0) return null;
+
+  const temperatures: Record<CacheTemperature, number> = { hot: 0, warm: 0, cold: 0 };
+  let hitRatioTotal = 0;
+  for (const sample of samples) {
+    temperatures[sample.temperature]++;
+    hitRatioTotal += sample.hitRatio;
+  }
+
+  const sorted = samples.map(sample => sample.serverTotalMs).sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  const median = sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+
+  return {
+    count: samples.length,
+    latest: samples[samples.length - 1],
+    avgHitRatio: hitRatioTotal / samples.length,
+    medianServerTotalMs: median,
+    temperatures,
+  };
+}
@@ -0,0 +1,66 @@
+/**
+ * Text conversion for inline cell editors. Each attribute gets an editor kind
+ * from its discovered type (or, failing that, its current value), and the
+ * editor's text is parsed back into a value of that kind.
+ */
+
+import type { AttributeType } from '@/types/attributeDiscovery';
+
+export type CellEditorKind = 'text' | 'number' | 'boolean' | 'json';
+
+export type ParsedCellEdit = { value: unknown } | { error: string };
+
+export function cellEditorKind(value: unknown, attributeType?: AttributeType): CellEditorKind {
+  switch (attributeType) {
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'array':
+    case 'object':
+      return 'json';
+    case 'string':
+    case 'date':
+      return 'text';
+  }
+  if (typeof value === 'number') return 'number';
+  if (typeof value === 'boolean') return 'boolean';
+  if (value !== null && typeof value === 'object') return 'json';
+  return 'text';
+}
+
+export function formatCellEditText(value: unknown, kind: CellEditorKind): string {
+  if (value === null || value === undefined) return kind === 'boolean' ? 'null' : '';
+  if (kind === 'json') return JSON.stringify(value);
+  return String(value);
+}
+
+/** Empty input clears non-text cells to null */
+export function parseCellEditText(text: string, kind: CellEditorKind): ParsedCellEdit {
+  const trimmed = text.trim();
+  switch (kind) {
+    case 'text':
+      return { value: text };
+    case 'number': {
+      if (trimmed === '') return { value: null };
+      const value = Number(trimmed);
+      return Number.isFinite(value) ? { value } : { error: `${JSON.stringify(trimmed)} is not a number` };
+    }
+    case 'boolean':
+      if (trimmed === 'true') return { value: true };
+      if (trimmed === 'false') return { value: false };
+      return { value: null };
+    case 'json':
+      if (trimmed === '') return { value: null };
+      try {
+        return { value: JSON.parse(trimmed) };
+      } catch (error) {
+        return { error: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}` };
+      }
+  }
+}
+
+/** Deep equality for attribute values, which are always JSON */
+export function cellValuesEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
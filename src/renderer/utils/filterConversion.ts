@@ -1,11 +1,263 @@
 import type { SimpleFilter } from '@/renderer/stores/documentsStore';
 import type { Filter, DocumentsQueryParams } from '@/types/document';
 import type { DiscoveredAttribute } from '@/types/attributeDiscovery';
+import type { FilterNode } from '@/types/unifiedQuery';
+import { formatFilterDisplayValue, isArrayType } from './filterTypeConversion';
+
+type FilterCondition = Pick<SimpleFilter, 'attribute' | 'value'> & { operator: string };
+
+/**
+ * Convert one filter condition to the Turbopuffer filter shape.
+ */
+export function convertSimpleFilter(
+  filter: FilterCondition,
+  attributes: DiscoveredAttribute[]
+): Filter | undefined {
+  // Check if this is an array field
+  const fieldInfo = attributes.find(attr => attr.name === filter.attribute);
+  const isArrayField = isArrayType(fieldInfo?.type as string | undefined);
+
+  switch (filter.operator) {
+    case "equals": {
+      if (isArrayField) {
+        // For arrays, use "ContainsAny" to check if array contains the value
+        // If value is an array, use the first element (for single-value contains)
+        const containsValue = Array.isArray(filter.value) ? filter.value[0] : filter.value;
+        return [filter.attribute, "ContainsAny", containsValue] as Filter;
+      }
+      // For non-arrays, use standard equality
+      return [filter.attribute, "Eq", filter.value] as Filter;
+    }
+    case "not_equals": {
+      if (isArrayField) {
+        // For arrays, use ["Not", ["ContainsAny", ...]] to check if array does not contain the value
+        // If value is an array, use the first element
+        const notContainsValue = Array.isArray(filter.value) ? filter.value[0] : filter.value;
+        return ["Not", [filter.attribute, "ContainsAny", notContainsValue]] as Filter;
+      }
+      // For non-arrays, use standard not equality
+      return [filter.attribute, "NotEq", filter.value] as Filter;
+    }
+    case "contains": {
+      // For array fields, we use the "ContainsAny" operator
+      // For string fields, use Glob pattern matching
+      if (isArrayField) {
+        // If value is an array, use the first element
+        const containsValue = Array.isArray(filter.value) ? filter.value[0] : filter.value;
+        return [filter.attribute, "ContainsAny", containsValue] as Filter;
+      }
+      // For strings, use glob pattern
+      return [filter.attribute, "Glob", `*${filter.value}*`] as Filter;
+    }
+    case "not_contains":
+      return [filter.attribute, "NotGlob", `*${filter.value}*`] as Filter;
+    case "greater":
+      return [filter.attribute, "Gt", filter.value] as Filter;
+    case "greater_or_equal":
+      return [filter.attribute, "Gte", filter.value] as Filter;
+    case "less":
+      return [filter.attribute, "Lt", filter.value] as Filter;
+    case "less_or_equal":
+      return [filter.attribute, "Lte", filter.value] as Filter;
+    case "in":
+      return [
+        filter.attribute,
+        "In",
+        Array.isArray(filter.value)
+          ? filter.value
+          : [filter.value],
+      ] as Filter;
+    case "not_in":
+      return [
+        filter.attribute,
+        "NotIn",
+        Array.isArray(filter.value)
+          ? filter.value
+          : [filter.value],
+      ] as Filter;
+    case "matches":
+      return [filter.attribute, "Glob", filter.value] as Filter;
+    case "not_matches":
+      return [filter.attribute, "NotGlob", filter.value] as Filter;
+    case "imatches":
+      return [filter.attribute, "IGlob", filter.value] as Filter;
+    case "not_imatches":
+      return [filter.attribute, "NotIGlob", filter.value] as Filter;
+    // Array element comparisons
+    case "any_lt":
+      return [filter.attribute, "AnyLt", filter.value] as Filter;
+    case "any_lte":
+      return [filter.attribute, "AnyLte", filter.value] as Filter;
+    case "any_gt":
+      return [filter.attribute, "AnyGt", filter.value] as Filter;
+    case "any_gte":
+      return [filter.attribute, "AnyGte", filter.value] as Filter;
+    // Array containment
+    case "array_contains":
+      return [filter.attribute, "Contains", Array.isArray(filter.value) ? filter.value[0] : filter.value] as Filter;
+    case "not_array_contains":
+      return [filter.attribute, "NotContains", Array.isArray(filter.value) ? filter.value[0] : filter.value] as Filter;
+    case "contains_any":
+      return [filter.attribute, "ContainsAny", Array.isArray(filter.value) ? filter.value : [filter.value]] as Filter;
+    case "not_contains_any":
+      return [filter.attribute, "NotContainsAny", Array.isArray(filter.value) ? filter.value : [filter.value]] as Filter;
+    case "regex":
+      return [filter.attribute, "Regex", filter.value] as Filter;
+    // Full-text search
+    case "contains_all_tokens":
+      return [filter.attribute, "ContainsAllTokens", filter.value] as Filter;
+    case "contains_token_sequence":
+      return [filter.attribute, "ContainsTokenSequence", filter.value] as Filter;
+  }
+  return undefined;
+}
+
+/**
+ * Convert a filter group tree to the Turbopuffer filter shape. Groups keep
+ * their shape even with one child so they convert back unchanged; empty
+ * groups are dropped.
+ */
+export function convertFilterNode(
+  node: FilterNode,
+  attributes: DiscoveredAttribute[]
+): Filter | undefined {
+  if (node.type === 'simple') {
+    if (!node.attribute || !node.operator) return undefined;
+    return convertSimpleFilter(
+      { attribute: node.attribute, operator: node.operator, value: node.value },
+      attributes
+    );
+  }
+
+  const children = (node.children ?? [])
+    .map(child => convertFilterNode(child, attributes))
+    .filter((child): child is Filter => child !== undefined);
+
+  if (node.type === 'not') {
+    return children.length > 0 ? ["Not", children[0]] as Filter : undefined;
+  }
+  if (children.length === 0) return undefined;
+  return [node.type === 'or' ? "Or" : "And", children] as Filter;
+}
+
+// Turbopuffer operators that map back to exactly one builder operator
+const apiOperatorToOperator: Record<string, NonNullable<FilterNode['operator']>> = {
+  Eq: "equals",
+  NotEq: "not_equals",
+  Gt: "greater",
+  Gte: "greater_or_equal",
+  Lt: "less",
+  Lte: "less_or_equal",
+  In: "in",
+  NotIn: "not_in",
+  Glob: "matches",
+  NotGlob: "not_matches",
+  IGlob: "imatches",
+  NotIGlob: "not_imatches",
+  AnyLt: "any_lt",
+  AnyLte: "any_lte",
+  AnyGt: "any_gt",
+  AnyGte: "any_gte",
+  Contains: "array_contains",
+  NotContains: "not_array_contains",
+  ContainsAny: "contains_any",
+  NotContainsAny: "not_contains_any",
+  Regex: "regex",
+  ContainsAllTokens: "contains_all_tokens",
+  ContainsTokenSequence: "contains_token_sequence",
+};
+
+let parsedNodeCount = 0;
+const parsedNodeId = () => `${Date.now()}-parsed-${parsedNodeCount++}`;
+
+/**
+ * Convert a Turbopuffer filter back into a filter group tree, the inverse of
+ * convertFilterNode. Returns null for filters the builder can't represent.
+ */
+export function parseFilterToNode(
+  filter: Filter,
+  attributes: DiscoveredAttribute[] = []
+): FilterNode | null {
+  if (!Array.isArray(filter)) return null;
+
+  if ((filter[0] === "And" || filter[0] === "Or") && filter.length === 2 && Array.isArray(filter[1])) {
+    const children = (filter[1] as Filter[]).map(child => parseFilterToNode(child, attributes));
+    if (children.some(child => child === null)) return null;
+    return {
+      id: parsedNodeId(),
+      type: filter[0] === "Or" ? 'or' : 'and',
+      children: children as FilterNode[],
+    };
+  }
+
+  if (filter[0] === "Not" && filter.length === 2) {
+    const child = parseFilterToNode(filter[1] as Filter, attributes);
+    return child ? { id: parsedNodeId(), type: 'not', children: [child] } : null;
+  }
+
+  if (filter.length !== 3 || typeof filter[0] !== 'string' || typeof filter[1] !== 'string') {
+    return null;
+  }
+
+  const [attribute, apiOperator, value] = filter as [string, string, any];
+  let operator = apiOperatorToOperator[apiOperator];
+  if (!operator) return null;
+
+  // Single-value ContainsAny on an array field is how "equals" is sent
+  const fieldInfo = attributes.find(attr => attr.name === attribute);
+  if (operator === "contains_any" && !Array.isArray(value) && isArrayType(fieldInfo?.type as string | undefined)) {
+    operator = "equals";
+  }
+
+  return {
+    id: parsedNodeId(),
+    type: 'simple',
+    attribute,
+    operator,
+    value,
+    displayValue: formatFilterDisplayValue(value),
+  };
+}
+
+/**
+ * Split a Turbopuffer filter into what the visual builder edits: top-level
+ * conditions of a root And become flat filters, everything else a group.
+ * Returns null if any part can't be represented.
+ */
+export function splitFilterForBuilder(
+  filter: Filter,
+  attributes: DiscoveredAttribute[] = []
+): { filters: SimpleFilter[]; groups: FilterNode[] } | null {
+  const root = parseFilterToNode(filter, attributes);
+  if (!root) return null;
+
+  const topLevel = root.type === 'and' ? root.children ?? [] : [root];
+  const filters: SimpleFilter[] = [];
+  const groups: FilterNode[] = [];
+  topLevel.forEach((node) => {
+    if (node.type === 'simple') {
+      filters.push({
+        id: node.id,
+        attribute: node.attribute!,
+        operator: node.operator as SimpleFilter['operator'],
+        value: node.value,
+        displayValue: node.displayValue ?? formatFilterDisplayValue(node.value),
+      });
+    } else if (node.type === 'not' && node.children?.[0]?.type === 'simple') {
+      // The builder negates groups, so a negated condition gets one of its own
+      groups.push({ id: parsedNodeId(), type: 'and', children: [node] });
+    } else {
+      groups.push(node);
+    }
+  });
+  return { filters, groups };
+}
 
 export function convertFiltersToQuery(
   activeFilters: SimpleFilter[],
   searchText: string,
-  attributes: DiscoveredAttribute[]
+  attributes: DiscoveredAttribute[],
+  filterGroups: FilterNode[] = []
 ): DocumentsQueryParams {
   // Build query filters
   const filters: Filter[] = [];
@@ -19,97 +271,14 @@ export function convertFiltersToQuery(
 
   // Add attribute filters
   activeFilters.forEach((filter) => {
-    // Check if this is an array field
-    const fieldInfo = attributes.find(attr => attr.name === filter.attribute);
-    const isArrayField = fieldInfo?.type && typeof fieldInfo.type === 'string' && (fieldInfo.type.startsWith('[]') || fieldInfo.type === 'array');
-    
-    switch (filter.operator) {
-      case "equals": {
-        if (isArrayField) {
-          // For arrays, use "ContainsAny" to check if array contains the value
-          // If value is an array, use the first element (for single-value contains)
-          const containsValue = Array.isArray(filter.value) ? filter.value[0] : filter.value;
-          const arrayFilter: Filter = [filter.attribute, "ContainsAny", containsValue];
-          filters.push(arrayFilter);
-        } else {
-          // For non-arrays, use standard equality
-          const nonArrayFilter: Filter = [filter.attribute, "Eq", filter.value];
-          filters.push(nonArrayFilter);
-        }
-        break;
-      }
-      case "not_equals": {
-        if (isArrayField) {
-          // For arrays, use ["Not", ["ContainsAny", ...]] to check if array does not contain the value
-          // If value is an array, use the first element
-          const notContainsValue = Array.isArray(filter.value) ? filter.value[0] : filter.value;
-          filters.push(["Not", [filter.attribute, "ContainsAny", notContainsValue]] as Filter);
-        } else {
-          // For non-arrays, use standard not equality
-          filters.push([filter.attribute, "NotEq", filter.value] as Filter);
-        }
-        break;
-      }
-      case "contains": {
-        // For array fields, we use the "ContainsAny" operator
-        // For string fields, use Glob pattern matching
-        if (isArrayField) {
-          // For arrays, use "ContainsAny" operator for containment checking
-          // If value is an array, use the first element
-          const containsValue = Array.isArray(filter.value) ? filter.value[0] : filter.value;
-          filters.push([filter.attribute, "ContainsAny", containsValue] as Filter);
-        } else {
-          // For strings, use glob pattern
-          filters.push([filter.attribute, "Glob", `*${filter.value}*`] as Filter);
-        }
-        break;
-      }
-      case "greater":
-        filters.push([filter.attribute, "Gt", filter.value] as Filter);
-        break;
-      case "greater_or_equal":
-        filters.push([filter.attribute, "Gte", filter.value] as Filter);
-        break;
-      case "less":
-        filters.push([filter.attribute, "Lt", filter.value] as Filter);
-        break;
-      case "less_or_equal":
-        filters.push([filter.attribute, "Lte", filter.value] as Filter);
-        break;
-      case "in":
-        filters.push([
-          filter.attribute,
-          "In",
-          Array.isArray(filter.value)
-            ? filter.value
-            : [filter.value],
-        ] as Filter);
-        break;
-      case "not_in":
-        filters.push([
-          filter.attribute,
-          "NotIn",
-          Array.isArray(filter.value)
-            ? filter.value
-            : [filter.value],
-        ] as Filter);
-        break;
-      case "matches":
-        filters.push([filter.attribute, "Glob", filter.value] as Filter);
-        break;
-      case "not_matches":
-        filters.push([filter.attribute, "NotGlob", filter.value] as Filter);
-        break;
-      case "imatches":
-        filters.push([filter.attribute, "IGlob", filter.value] as Filter);
-        break;
-      case "not_imatches":
-        filters.push([filter.attribute, "NotIGlob", filter.value] as Filter);
-        break;
-      case "regex":
-        filters.push([filter.attribute, "Regex", filter.value] as Filter);
-        break;
-    }
+    const converted = convertSimpleFilter(filter, attributes);
+    if (converted) filters.push(converted);
+  });
+
+  // Add nested groups, ANDed with the flat filters
+  filterGroups.forEach((group) => {
+    const converted = convertFilterNode(group, attributes);
+    if (converted) filters.push(converted);
   });
 
   // Combine filters with AND
@@ -133,8 +302,9 @@ export function convertFiltersToQuery(
 export function convertFiltersToRawQuery(
   activeFilters: SimpleFilter[],
   searchText: string,
-  attributes: DiscoveredAttribute[]
+  attributes: DiscoveredAttribute[],
+  filterGroups: FilterNode[] = []
 ): string {
-  const queryObject = convertFiltersToQuery(activeFilters, searchText, attributes);
+  const queryObject = convertFiltersToQuery(activeFilters, searchText, attributes, filterGroups);
   return JSON.stringify(queryObject, null, 2);
-}
\ No newline at end of file
+}
@@ -1,4 +1,5 @@
 import type { SimpleFilter, FilterOperator } from "@/renderer/stores/documentsStore";
+import type { FilterNode } from "@/types/unifiedQuery";
 
 // Maps internal operator names to Turbopuffer API operator names
 const operatorToApiOperator: Record<FilterOperator, string> = {
@@ -64,9 +65,25 @@ function formatValue(value: any): string {
   }
 }
 
+/**
+ * Describe a filter group tree, e.g. `NOT (status Eq "a" OR views Gt 10)`.
+ */
+export function describeFilterNode(node: FilterNode): string {
+  if (node.type === "simple") {
+    const operator = operatorToApiOperator[node.operator as FilterOperator] || node.operator;
+    return `${node.attribute} ${operator} ${formatValue(node.value)}`;
+  }
+  const children = (node.children ?? []).map(describeFilterNode);
+  if (node.type === "not") {
+    return `NOT ${children[0] ?? ""}`;
+  }
+  return `(${children.join(node.type === "or" ? " OR " : " AND ")})`;
+}
+
 export function generateFilterDescription(
   filters: SimpleFilter[],
-  searchText = ""
+  searchText = "",
+  groups: FilterNode[] = []
 ): string {
   const parts: string[] = [];
 
@@ -76,12 +93,15 @@ export function generateFilterDescription(
   }
 
   // Add filters
-  if (filters.length > 0) {
-    const filterDescriptions = filters.map(filter => {
-      const operator = operatorToApiOperator[filter.operator] || filter.operator;
-      const value = formatValue(filter.value);
-      return `${filter.attribute} ${operator} ${value}`;
-    });
+  if (filters.length > 0 || groups.length > 0) {
+    const filterDescriptions = [
+      ...filters.map(filter => {
+        const operator = operatorToApiOperator[filter.operator] || filter.operator;
+        const value = formatValue(filter.value);
+        return `${filter.attribute} ${operator} ${value}`;
+      }),
+      ...groups.map(describeFilterNode),
+    ];
 
     if (filterDescriptions.length === 1) {
       parts.push(filterDescriptions[0]);
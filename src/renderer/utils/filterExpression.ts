@@ -0,0 +1,523 @@
+/**
+ * SQL-like WHERE expressions for Turbopuffer filters, e.g.
+ *
+ *   category IN ('a', 'b') AND (views > 100 OR NOT title IGLOB '*draft*')
+ *
+ * Expressions parse into the `Filter` tuple type and every filter the visual
+ * builder produces formats back into an expression. Keywords are case
+ * insensitive; attribute names that aren't plain words go in backticks.
+ */
+
+import type { Filter, FilterOp } from '@/types/document';
+import type { DiscoveredAttribute } from '@/types/attributeDiscovery';
+import { isArrayType } from './filterTypeConversion';
+
+export class FilterExpressionError extends Error {
+  /** Offsets into the expression, end exclusive */
+  constructor(message: string, public start: number, public end: number) {
+    super(message);
+    this.name = 'FilterExpressionError';
+  }
+}
+
+type TokenType = 'word' | 'ident' | 'string' | 'number' | 'symbol' | 'eof';
+
+interface Token {
+  type: TokenType;
+  text: string;
+  value?: any;
+  start: number;
+  end: number;
+}
+
+type OperandKind = 'scalar' | 'list' | 'list_or_scalar' | 'none';
+
+interface OperatorPhrase {
+  phrase: string;
+  op: FilterOp;
+  operand: OperandKind;
+}
+
+// The first phrase for an operator is the one used when formatting
+const OPERATOR_PHRASES: OperatorPhrase[] = [
+  { phrase: '=', op: 'Eq', operand: 'scalar' },
+  { phrase: '==', op: 'Eq', operand: 'scalar' },
+  { phrase: '!=', op: 'NotEq', operand: 'scalar' },
+  { phrase: '<>', op: 'NotEq', operand: 'scalar' },
+  { phrase: '<', op: 'Lt', operand: 'scalar' },
+  { phrase: '<=', op: 'Lte', operand: 'scalar' },
+  { phrase: '>', op: 'Gt', operand: 'scalar' },
+  { phrase: '>=', op: 'Gte', operand: 'scalar' },
+  { phrase: 'IS NULL', op: 'Eq', operand: 'none' },
+  { phrase: 'IS NOT NULL', op: 'NotEq', operand: 'none' },
+  { phrase: 'IN', op: 'In', operand: 'list' },
+  { phrase: 'NOT IN', op: 'NotIn', operand: 'list' },
+  { phrase: 'GLOB', op: 'Glob', operand: 'scalar' },
+  { phrase: 'NOT GLOB', op: 'NotGlob', operand: 'scalar' },
+  { phrase: 'IGLOB', op: 'IGlob', operand: 'scalar' },
+  { phrase: 'NOT IGLOB', op: 'NotIGlob', operand: 'scalar' },
+  { phrase: 'REGEX', op: 'Regex', operand: 'scalar' },
+  { phrase: 'CONTAINS', op: 'Contains', operand: 'scalar' },
+  { phrase: 'NOT CONTAINS', op: 'NotContains', operand: 'scalar' },
+  { phrase: 'CONTAINS ANY', op: 'ContainsAny', operand: 'list_or_scalar' },
+  { phrase: 'NOT CONTAINS ANY', op: 'NotContainsAny', operand: 'list_or_scalar' },
+  { phrase: 'ANY <', op: 'AnyLt', operand: 'scalar' },
+  { phrase: 'ANY <=', op: 'AnyLte', operand: 'scalar' },
+  { phrase: 'ANY >', op: 'AnyGt', operand: 'scalar' },
+  { phrase: 'ANY >=', op: 'AnyGte', operand: 'scalar' },
+  { phrase: 'CONTAINS ALL TOKENS', op: 'ContainsAllTokens', operand: 'scalar' },
+  { phrase: 'CONTAINS TOKEN SEQUENCE', op: 'ContainsTokenSequence', operand: 'scalar' },
+];
+
+// Operators that only make sense on array attributes
+const ARRAY_OPS = new Set<FilterOp>([
+  'Contains', 'NotContains', 'ContainsAny', 'NotContainsAny', 'AnyLt', 'AnyLte', 'AnyGt', 'AnyGte',
+]);
+
+const RESERVED_WORDS = new Set(['AND', 'OR', 'NOT', 'TRUE', 'FALSE', 'NULL']);
+const PLAIN_IDENT = /^[A-Za-z_$][\w$.]*$/;
+const NUMBER = /^-?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/;
+const WORD = /^[A-Za-z_$][\w$.]*/;
+const SYMBOLS = ['<=', '>=', '!=', '<>', '==', '=', '<', '>', '(', ')', '[', ']', ','];
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    // Quoted strings ('' or "") and backtick identifiers, with doubled-quote escapes
+    if (char === "'" || char === '"' || char === '`') {
+      let value = '';
+      let j = i + 1;
+      for (;;) {
+        if (j >= text.length) {
+          throw new FilterExpressionError(
+            char === '`' ? 'Unterminated attribute name' : 'Unterminated string',
+            i,
+            text.length
+          );
+        }
+        if (text[j] === char) {
+          if (text[j + 1] === char) {
+            value += char;
+            j += 2;
+            continue;
+          }
+          break;
+        }
+        value += text[j++];
+      }
+      tokens.push({ type: char === '`' ? 'ident' : 'string', text: text.slice(i, j + 1), value, start: i, end: j + 1 });
+      i = j + 1;
+      continue;
+    }
+
+    const rest = text.slice(i);
+    const number = NUMBER.exec(rest);
+    if (number) {
+      tokens.push({ type: 'number', text: number[0], value: Number(number[0]), start: i, end: i + number[0].length });
+      i += number[0].length;
+      continue;
+    }
+
+    const word = WORD.exec(rest);
+    if (word) {
+      tokens.push({ type: 'word', text: word[0], start: i, end: i + word[0].length });
+      i += word[0].length;
+      continue;
+    }
+
+    const symbol = SYMBOLS.find(candidate => rest.startsWith(candidate));
+    if (symbol) {
+      tokens.push({ type: 'symbol', text: symbol, start: i, end: i + symbol.length });
+      i += symbol.length;
+      continue;
+    }
+
+    throw new FilterExpressionError(`Unexpected character '${char}'`, i, i + 1);
+  }
+
+  tokens.push({ type: 'eof', text: '', start: text.length, end: text.length });
+  return tokens;
+}
+
+// Words compare case-insensitively, symbols as written
+const phraseText = (token: Token) => (token.type === 'word' ? token.text.toUpperCase() : token.text);
+
+const isPhrasePrefix = (words: string[]) => {
+  const prefix = words.join(' ');
+  return OPERATOR_PHRASES.some(({ phrase }) => phrase === prefix || phrase.startsWith(`${prefix} `));
+};
+
+const findPhrase = (words: string[]) => OPERATOR_PHRASES.find(({ phrase }) => phrase === words.join(' '));
+
+/**
+ * Greedily read the longest operator phrase starting at `index`.
+ * Returns the words read so far even if they don't form a full phrase.
+ */
+function readOperatorWords(tokens: Token[], index: number): string[] {
+  const words: string[] = [];
+  while (tokens[index + words.length].type === 'word' || tokens[index + words.length].type === 'symbol') {
+    const next = [...words, phraseText(tokens[index + words.length])];
+    if (!isPhrasePrefix(next)) break;
+    words.push(next[next.length - 1]);
+  }
+  return words;
+}
+
+class Parser {
+  private pos = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): Filter | undefined {
+    if (this.peek().type === 'eof') return undefined;
+    const filter = this.parseOr();
+    const token = this.peek();
+    if (token.type !== 'eof') {
+      throw new FilterExpressionError(`Unexpected '${token.text}', expected AND or OR`, token.start, token.end);
+    }
+    return filter;
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (token.type !== 'eof') this.pos++;
+    return token;
+  }
+
+  private isWord(word: string, token = this.peek()) {
+    return token.type === 'word' && token.text.toUpperCase() === word;
+  }
+
+  private isSymbol(symbol: string, token = this.peek()) {
+    return token.type === 'symbol' && token.text === symbol;
+  }
+
+  private fail(message: string, token = this.peek()): never {
+    const found = token.type === 'eof' ? 'end of expression' : `'${token.text}'`;
+    throw new FilterExpressionError(`${message}, found ${found}`, token.start, Math.max(token.end, token.start + 1));
+  }
+
+  private parseOr(): Filter {
+    const children = [this.parseAnd()];
+    while (this.isWord('OR')) {
+      this.next();
+      children.push(this.parseAnd());
+    }
+    return children.length === 1 ? children[0] : ['Or', children];
+  }
+
+  private parseAnd(): Filter {
+    const children = [this.parseUnary()];
+    while (this.isWord('AND')) {
+      this.next();
+      children.push(this.parseUnary());
+    }
+    return children.length === 1 ? children[0] : ['And', children];
+  }
+
+  private parseUnary(): Filter {
+    if (this.isWord('NOT')) {
+      this.next();
+      return ['Not', this.parseUnary()];
+    }
+    if (this.isSymbol('(')) {
+      this.next();
+      const inner = this.parseOr();
+      if (!this.isSymbol(')')) this.fail("Expected ')'");
+      this.next();
+      return inner;
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): Filter {
+    const attributeToken = this.peek();
+    if (attributeToken.type !== 'ident' && (attributeToken.type !== 'word' || RESERVED_WORDS.has(attributeToken.text.toUpperCase()))) {
+      this.fail('Expected an attribute name');
+    }
+    this.next();
+    const attribute: string = attributeToken.type === 'ident' ? attributeToken.value : attributeToken.text;
+
+    const operatorStart = this.peek();
+    const words = readOperatorWords(this.tokens, this.pos);
+    const phrase = findPhrase(words);
+    if (!phrase) {
+      this.pos += words.length;
+      this.fail(words.length > 0 ? `Incomplete operator '${words.join(' ')}'` : `Expected an operator after '${attribute}'`,
+        words.length > 0 ? operatorStart : this.peek());
+    }
+    this.pos += words.length;
+
+    switch (phrase.operand) {
+      case 'none':
+        return [attribute, phrase.op, null];
+      case 'list':
+        if (!this.isSymbol('(') && !this.isSymbol('[')) this.fail(`Expected a list of values after ${phrase.phrase}`);
+        return [attribute, phrase.op, this.parseValue()];
+      default:
+        return [attribute, phrase.op, this.parseValue(phrase.operand === 'scalar')];
+    }
+  }
+
+  private parseValue(scalarOnly = false): any {
+    const token = this.next();
+    switch (token.type) {
+      case 'string':
+      case 'number':
+        return token.value;
+      case 'word': {
+        const word = token.text.toUpperCase();
+        if (word === 'TRUE') return true;
+        if (word === 'FALSE') return false;
+        if (word === 'NULL') return null;
+        break;
+      }
+      case 'symbol':
+        if (token.text === '[' || (token.text === '(' && !scalarOnly)) {
+          return this.parseList(token.text === '[' ? ']' : ')');
+        }
+        break;
+    }
+    this.fail('Expected a value', token);
+  }
+
+  private parseList(close: string): any[] {
+    const values: any[] = [];
+    if (this.isSymbol(close)) {
+      this.next();
+      return values;
+    }
+    for (;;) {
+      values.push(this.parseValue(true));
+      if (this.isSymbol(close)) {
+        this.next();
+        return values;
+      }
+      if (!this.isSymbol(',')) this.fail(`Expected ',' or '${close}'`);
+      this.next();
+    }
+  }
+}
+
+/**
+ * Parse a WHERE expression. Returns undefined for an empty expression and
+ * throws a FilterExpressionError pointing at the offending text otherwise.
+ */
+export function parseFilterExpression(expression: string): Filter | undefined {
+  return new Parser(tokenize(expression)).parse();
+}
+
+export function formatFilterIdentifier(name: string): string {
+  return PLAIN_IDENT.test(name) && !RESERVED_WORDS.has(name.toUpperCase())
+    ? name
+    : `\`${name.replace(/`/g, '``')}\``;
+}
+
+export function formatFilterExpressionValue(value: any): string {
+  if (value === null) return 'NULL';
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) throw new Error(`Can't write ${value} in a filter expression`);
+    return String(value);
+  }
+  if (typeof value === 'string') return `'${value.replace(/'/g, "''")}'`;
+  if (Array.isArray(value)) return `[${value.map(formatFilterExpressionValue).join(', ')}]`;
+  throw new Error(`Can't write ${JSON.stringify(value)} in a filter expression`);
+}
+
+// Single-condition groups are written as the bare condition
+function unwrapGroup(filter: Filter): Filter {
+  if ((filter[0] === 'And' || filter[0] === 'Or') && Array.isArray(filter[1]) && filter[1].length === 1) {
+    return unwrapGroup(filter[1][0] as Filter);
+  }
+  return filter;
+}
+
+const isEmptyGroup = (filter: Filter) =>
+  (filter[0] === 'And' || filter[0] === 'Or') && Array.isArray(filter[1]) && filter[1].length === 0;
+
+function formatNode(filter: Filter, parent: 'root' | 'And' | 'Or' | 'Not'): string {
+  const node = unwrapGroup(filter);
+
+  if (node[0] === 'And' || node[0] === 'Or') {
+    const children = (node[1] as Filter[]).filter(child => !isEmptyGroup(child));
+    const text = children.map(child => formatNode(child, node[0] as 'And' | 'Or')).join(` ${node[0].toUpperCase()} `);
+    // AND binds tighter than OR; nested groups of the same kind keep their parentheses
+    const bare = parent === 'root' || (parent === 'Or' && node[0] === 'And');
+    return bare ? text : `(${text})`;
+  }
+
+  if (node[0] === 'Not' && node.length === 2) {
+    return `NOT ${formatNode(node[1] as Filter, 'Not')}`;
+  }
+
+  const [attribute, op, value] = node as [string, FilterOp, any];
+  const attributeText = formatFilterIdentifier(attribute);
+  if (value === null && (op === 'Eq' || op === 'NotEq')) {
+    return `${attributeText} ${op === 'Eq' ? 'IS NULL' : 'IS NOT NULL'}`;
+  }
+
+  const phrase = OPERATOR_PHRASES.find(candidate => candidate.op === op && candidate.operand !== 'none');
+  if (!phrase) throw new Error(`Can't write the ${op} operator in a filter expression`);
+
+  const valueText = phrase.operand === 'list' || (phrase.operand === 'list_or_scalar' && Array.isArray(value))
+    ? `(${(Array.isArray(value) ? value : [value]).map(formatFilterExpressionValue).join(', ')})`
+    : formatFilterExpressionValue(value);
+  return `${attributeText} ${phrase.phrase} ${valueText}`;
+}
+
+/**
+ * Write a filter as a WHERE expression. Throws for values an expression can't
+ * hold, such as objects.
+ */
+export function formatFilterExpression(filter: Filter | undefined): string {
+  return filter && !isEmptyGroup(filter) ? formatNode(filter, 'root') : '';
+}
+
+export interface FilterExpressionCompletion {
+  label: string;
+  insertText: string;
+  kind: 'attribute' | 'operator' | 'keyword' | 'value';
+  detail?: string;
+}
+
+const MAX_VALUE_COMPLETIONS = 20;
+
+/**
+ * Suggestions for the cursor position `offset`, based on what the expression
+ * before it expects next: an attribute, an operator, a value or AND/OR.
+ */
+export function getFilterExpressionCompletions(
+  expression: string,
+  offset: number,
+  attributes: DiscoveredAttribute[]
+): FilterExpressionCompletion[] {
+  const before = expression.slice(0, offset);
+  let tokens: Token[];
+  try {
+    tokens = tokenize(before);
+  } catch {
+    // Inside an unterminated string or attribute name
+    return [];
+  }
+  tokens.pop();
+
+  // The word under the cursor is being typed; suggest what can replace it
+  const last = tokens[tokens.length - 1];
+  if (last && last.end === before.length && (last.type === 'word' || last.type === 'number')) {
+    tokens.pop();
+  }
+
+  let state: 'operand' | 'operator' | 'value' | 'list' | 'connective' = 'operand';
+  let attribute: string | undefined;
+  let operatorWords: string[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const text = phraseText(token);
+    switch (state) {
+      case 'operand':
+        if (token.type === 'ident' || (token.type === 'word' && !RESERVED_WORDS.has(text))) {
+          attribute = token.type === 'ident' ? token.value : token.text;
+          operatorWords = [];
+          state = 'operator';
+        }
+        break;
+      case 'operator': {
+        const words = [...operatorWords, text];
+        if (isPhrasePrefix(words)) {
+          operatorWords = words;
+          const phrase = findPhrase(words);
+          // Stay put while a longer phrase could still follow, e.g. CONTAINS ANY
+          const longer = OPERATOR_PHRASES.some(candidate => candidate.phrase.startsWith(`${words.join(' ')} `));
+          if (phrase && !longer) state = phrase.operand === 'none' ? 'connective' : 'value';
+        } else {
+          const phrase = findPhrase(operatorWords);
+          if (phrase && phrase.operand !== 'none') {
+            state = 'value';
+            i--;
+          } else if (phrase) {
+            state = 'connective';
+            i--;
+          }
+        }
+        break;
+      }
+      case 'value':
+        state = text === '(' || text === '[' ? 'list' : 'connective';
+        break;
+      case 'list':
+        if (text === ')' || text === ']') state = 'connective';
+        break;
+      case 'connective':
+        if (text === 'AND' || text === 'OR') state = 'operand';
+        break;
+    }
+  }
+
+  const fieldInfo = attributes.find(attr => attr.name === attribute);
+  const valueCompletions = (): FilterExpressionCompletion[] => {
+    const values: any[] = fieldInfo?.type === 'boolean'
+      ? [true, false]
+      : (fieldInfo?.uniqueValues ?? fieldInfo?.sampleValues ?? []);
+    return values
+      .flatMap(value => (Array.isArray(value) ? value : [value]))
+      .filter((value, index, all) => value !== undefined && all.indexOf(value) === index)
+      .slice(0, MAX_VALUE_COMPLETIONS)
+      .flatMap(value => {
+        try {
+          const text = formatFilterExpressionValue(value);
+          return [{ label: text, insertText: text, kind: 'value' as const }];
+        } catch {
+          return [];
+        }
+      });
+  };
+
+  switch (state) {
+    case 'operand':
+      return [
+        ...attributes.map(attr => ({
+          label: attr.name,
+          insertText: formatFilterIdentifier(attr.name),
+          kind: 'attribute' as const,
+          detail: attr.type,
+        })),
+        { label: 'NOT', insertText: 'NOT ', kind: 'keyword' },
+      ];
+    case 'operator': {
+      const isArray = isArrayType(fieldInfo?.type as string | undefined);
+      const prefix = operatorWords.join(' ');
+      const operators = OPERATOR_PHRASES
+        .filter(({ phrase }) => !prefix || phrase.startsWith(`${prefix} `))
+        .filter(({ op }) => !fieldInfo || isArray || !ARRAY_OPS.has(op))
+        .filter(({ phrase }) => phrase !== '==' && phrase !== '<>')
+        .map(({ phrase, op }) => {
+          const remainder = prefix ? phrase.slice(prefix.length + 1) : phrase;
+          return { label: remainder, insertText: `${remainder} `, kind: 'operator' as const, detail: op };
+        });
+      // A phrase like CONTAINS is complete on its own, so a value can follow too
+      return findPhrase(operatorWords) ? [...operators, ...valueCompletions()] : operators;
+    }
+    case 'value':
+    case 'list':
+      return valueCompletions();
+    case 'connective':
+      return [
+        { label: 'AND', insertText: 'AND ', kind: 'keyword' },
+        { label: 'OR', insertText: 'OR ', kind: 'keyword' },
+      ];
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * Immutable helpers for the nested filter groups edited in the filter builder.
+ *
+ * Groups are `and`/`or` FilterNodes. A negated node is wrapped in a `not` node
+ * with a single child, mirroring Turbopuffer's ["Not", filter] shape, so the
+ * tree converts to and from API filters without losing structure.
+ */
+
+import type { FilterNode } from '@/types/unifiedQuery';
+
+export type FilterGroupType = 'and' | 'or';
+
+const newNodeId = () => `${Date.now()}-${Math.random()}`;
+
+export function isGroupNode(node: FilterNode): boolean {
+  return node.type === 'and' || node.type === 'or';
+}
+
+export function createFilterGroup(type: FilterGroupType = 'or', children: FilterNode[] = []): FilterNode {
+  return { id: newNodeId(), type, children };
+}
+
+export function createFilterLeaf(
+  attribute: string,
+  operator: NonNullable<FilterNode['operator']>,
+  value: any,
+  displayValue: string
+): FilterNode {
+  return { id: newNodeId(), type: 'simple', attribute, operator, value, displayValue };
+}
+
+export function findFilterNode(nodes: FilterNode[], id: string): FilterNode | undefined {
+  for (const node of nodes) {
+    if (node.id === id) return node;
+    const found = node.children ? findFilterNode(node.children, id) : undefined;
+    if (found) return found;
+  }
+  return undefined;
+}
+
+/**
+ * Replace the node with the given id by the updater's result.
+ */
+export function updateFilterNode(
+  nodes: FilterNode[],
+  id: string,
+  updater: (node: FilterNode) => FilterNode
+): FilterNode[] {
+  return nodes.map(node => {
+    if (node.id === id) return updater(node);
+    if (!node.children) return node;
+    return { ...node, children: updateFilterNode(node.children, id, updater) };
+  });
+}
+
+/**
+ * Remove a node. A `not` left without a child is removed with it.
+ */
+export function removeFilterNode(nodes: FilterNode[], id: string): FilterNode[] {
+  return nodes
+    .filter(node => node.id !== id)
+    .map(node => (node.children ? { ...node, children: removeFilterNode(node.children, id) } : node))
+    .filter(node => node.type !== 'not' || (node.children?.length ?? 0) > 0);
+}
+
+/**
+ * Append a node to a group, or to the top level when `parentId` is null.
+ */
+export function insertFilterNode(nodes: FilterNode[], parentId: string | null, child: FilterNode): FilterNode[] {
+  if (parentId === null) return [...nodes, child];
+  return updateFilterNode(nodes, parentId, parent => ({
+    ...parent,
+    children: [...(parent.children ?? []), child],
+  }));
+}
+
+/**
+ * Move a node (with its `not` wrapper, if any) into another group. Moving a
+ * group into itself or one of its descendants is ignored.
+ */
+export function moveFilterNode(nodes: FilterNode[], id: string, targetGroupId: string): FilterNode[] {
+  const wrapper = findNegation(nodes, id);
+  const moving = wrapper ?? findFilterNode(nodes, id);
+  const target = findFilterNode(nodes, targetGroupId);
+  if (!moving || !target || !isGroupNode(target)) return nodes;
+  if (moving.id === targetGroupId || findFilterNode(moving.children ?? [], targetGroupId)) return nodes;
+  if (target.children?.some(child => child.id === moving.id)) return nodes;
+
+  return insertFilterNode(removeFilterNode(nodes, moving.id), targetGroupId, moving);
+}
+
+/**
+ * Wrap a node in `not`, or unwrap it if it is already negated.
+ */
+export function toggleFilterNegation(nodes: FilterNode[], id: string): FilterNode[] {
+  return nodes.map(node => {
+    if (node.type === 'not' && node.children?.[0]?.id === id) return node.children[0];
+    if (node.id === id) return { id: newNodeId(), type: 'not', children: [node] };
+    if (!node.children) return node;
+    return { ...node, children: toggleFilterNegation(node.children, id) };
+  });
+}
+
+/**
+ * The `not` node wrapping the given node, if it is negated.
+ */
+export function findNegation(nodes: FilterNode[], id: string): FilterNode | undefined {
+  for (const node of nodes) {
+    if (node.type === 'not' && node.children?.[0]?.id === id) return node;
+    const found = node.children ? findNegation(node.children, id) : undefined;
+    if (found) return found;
+  }
+  return undefined;
+}
+
+export function countFilterConditions(nodes: FilterNode[]): number {
+  return nodes.reduce(
+    (count, node) => count + (node.type === 'simple' ? 1 : countFilterConditions(node.children ?? [])),
+    0
+  );
+}
+
+/**
+ * Copy a tree without ids, display values or UI state, for comparing filters.
+ */
+export function stripFilterNodeIds(nodes: FilterNode[]): Omit<FilterNode, 'id'>[] {
+  return nodes.map(({ id: _id, collapsed: _collapsed, displayValue: _displayValue, children, ...rest }) =>
+    children ? { ...rest, children: stripFilterNodeIds(children) as FilterNode[] } : rest
+  );
+}
@@ -166,4 +166,43 @@ export function convertFilterValues(
     ...filter,
     value: convertValueToFieldType(filter.value, attributeTypeMap.get(filter.attribute))
   }));
-}
\ No newline at end of file
+}
+/**
+ * Type a value entered in the filter builder. List operators accept either an
+ * array or a comma-separated string; "null" means null for the others.
+ */
+export function parseFilterInput(operator: string, rawValue: any, fieldType: string | undefined): any {
+  if (operator === 'in' || operator === 'not_in') {
+    if (!Array.isArray(rawValue)) {
+      const values = String(rawValue).split(',').map(v => v.trim()).filter(v => v);
+      return values.map(v => parseValueForFieldType(v, fieldType));
+    }
+    return rawValue.map((v: any) =>
+      typeof v === 'string' ? parseValueForFieldType(v, fieldType) : v
+    );
+  }
+  if (typeof rawValue === 'string' && rawValue.toLowerCase() === 'null') {
+    return null;
+  }
+  return typeof rawValue === 'string'
+    ? parseValueForFieldType(rawValue, fieldType)
+    : rawValue;
+}
+
+/**
+ * Human-readable filter value for chips and history entries
+ */
+export function formatFilterDisplayValue(value: any): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return value.length > 3
+      ? `[${value.slice(0, 3).join(', ')}, ...]`
+      : `[${value.join(', ')}]`;
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
@@ -0,0 +1,274 @@
+import type { Document, DocumentsQueryParams, DocumentsQueryResponse, Filter } from '@/types/document';
+
+/**
+ * Keyset ("seek") pagination over any sortable attribute.
+ *
+ * Turbopuffer has no offset and orders by a single attribute, leaving the order
+ * of ties unspecified. Pages are therefore addressed by a composite
+ * (attribute value, id) cursor: the next page is every row that sorts after the
+ * cursor, and rows sharing the boundary value are re-fetched by id so each row
+ * lands on exactly one page.
+ *
+ * Documents missing the sort attribute are assumed to sort before every value
+ * ascending, and after every value descending.
+ */
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface KeysetOrder {
+  attribute: string;
+  direction: SortDirection;
+}
+
+/** The last row of a page: its sort value and id */
+export interface KeysetCursor {
+  value: unknown;
+  id: string | number;
+}
+
+export interface KeysetPageOptions {
+  filters?: Filter;
+  orderBy: KeysetOrder;
+  cursor?: KeysetCursor | null;
+  limit: number;
+  includeAttributes?: string[] | boolean;
+}
+
+export interface KeysetPage {
+  response: DocumentsQueryResponse;
+  /** Cursor for the following page, or null when this page is the last */
+  nextCursor: KeysetCursor | null;
+}
+
+export type KeysetQueryRunner = (params: DocumentsQueryParams) => Promise<DocumentsQueryResponse>;
+
+const isMissing = (value: unknown) => value === null || value === undefined;
+
+/** Reads the sort value of a row, whether the SDK returned attributes flat or nested */
+export function sortValueOf(row: Document, attribute: string): unknown {
+  if (attribute === 'id') return row.id;
+  const value = (row as Record<string, any>)[attribute];
+  return value !== undefined ? value : row.attributes?.[attribute];
+}
+
+/** Compares two sort values, with missing values first */
+export function compareSortValues(a: unknown, b: unknown): number {
+  if (isMissing(a) || isMissing(b)) {
+    return isMissing(a) === isMissing(b) ? 0 : isMissing(a) ? -1 : 1;
+  }
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (typeof a === 'boolean' && typeof b === 'boolean') return Number(a) - Number(b);
+  const left = String(a);
+  const right = String(b);
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+/** Orders rows by (attribute, id) in the given direction */
+export function sortRowsByKey(rows: Document[], orderBy: KeysetOrder): Document[] {
+  const sign = orderBy.direction === 'asc' ? 1 : -1;
+  return [...rows].sort((a, b) =>
+    sign * (compareSortValues(sortValueOf(a, orderBy.attribute), sortValueOf(b, orderBy.attribute))
+      || compareSortValues(a.id, b.id))
+  );
+}
+
+export function cursorOf(row: Document, orderBy: KeysetOrder): KeysetCursor {
+  return { value: sortValueOf(row, orderBy.attribute), id: row.id };
+}
+
+/** Matches the rows that sort strictly after the cursor */
+export function buildKeysetFilter(orderBy: KeysetOrder, cursor: KeysetCursor): Filter {
+  const ascending = orderBy.direction === 'asc';
+  const after = ascending ? 'Gt' : 'Lt';
+  const idAfter: Filter = ['id', after, cursor.id];
+  if (orderBy.attribute === 'id') return idAfter;
+
+  const attribute = orderBy.attribute;
+  const tied: Filter = ['And', [[attribute, 'Eq', cursor.value ?? null], idAfter]];
+  if (isMissing(cursor.value)) {
+    // Missing values come first ascending, so every present value follows them
+    return ascending ? ['Or', [[attribute, 'NotEq', null], tied]] : tied;
+  }
+  const later: Filter[] = [[attribute, after, cursor.value], tied];
+  if (!ascending) later.push([attribute, 'Eq', null]);
+  return ['Or', later];
+}
+
+export function andFilters(...filters: (Filter | undefined)[]): Filter | undefined {
+  const present = filters.filter((filter): filter is Filter => filter !== undefined);
+  if (present.length <= 1) return present[0];
+  return ['And', present];
+}
+
+/**
+ * Fetches the page after `cursor`. When the page is full, the rows tied with its
+ * last value are fetched again ordered by id, since the server may have returned
+ * any subset of that tie group.
+ */
+export async function fetchKeysetPage(runQuery: KeysetQueryRunner, options: KeysetPageOptions): Promise<KeysetPage> {
+  const { orderBy, limit } = options;
+  const filters = andFilters(
+    options.filters,
+    options.cursor ? buildKeysetFilter(orderBy, options.cursor) : undefined
+  );
+
+  const response = await runQuery({
+    filters,
+    rank_by: [orderBy.attribute, orderBy.direction],
+    top_k: limit,
+    include_attributes: options.includeAttributes,
+  });
+  let rows = sortRowsByKey(response.rows || [], orderBy);
+
+  if (orderBy.attribute !== 'id' && rows.length === limit) {
+    const lastValue = sortValueOf(rows[rows.length - 1], orderBy.attribute);
+    const firstTied = rows.findIndex(row =>
+      compareSortValues(sortValueOf(row, orderBy.attribute), lastValue) === 0
+    );
+    const tieResponse = await runQuery({
+      filters: andFilters(filters, [orderBy.attribute, 'Eq', lastValue ?? null]),
+      rank_by: ['id', orderBy.direction],
+      top_k: rows.length - firstTied,
+      include_attributes: options.includeAttributes,
+    });
+    rows = [...rows.slice(0, firstTied), ...(tieResponse.rows || [])];
+  }
+
+  return {
+    response: { ...response, rows },
+    nextCursor: rows.length === limit ? cursorOf(rows[rows.length - 1], orderBy) : null,
+  };
+}
+
+/**
+ * Walks `skip` rows past `cursor` in large pages that only carry the sort
+ * attribute. Returns the cursor of the last row skipped, or undefined when
+ * fewer than `skip` rows remain.
+ */
+export async function seekKeysetCursor(
+  runQuery: KeysetQueryRunner,
+  options: Omit<KeysetPageOptions, 'limit' | 'includeAttributes'> & { skip: number; chunkSize?: number }
+): Promise<KeysetCursor | null | undefined> {
+  const chunkSize = options.chunkSize ?? 1000;
+  let cursor = options.cursor ?? null;
+  let remaining = options.skip;
+
+  while (remaining > 0) {
+    const limit = Math.min(chunkSize, remaining);
+    const page = await fetchKeysetPage(runQuery, {
+      filters: options.filters,
+      orderBy: options.orderBy,
+      cursor,
+      limit,
+      includeAttributes: [options.orderBy.attribute],
+    });
+    const rows = page.response.rows || [];
+    if (rows.length < limit) return undefined;
+    cursor = cursorOf(rows[rows.length - 1], options.orderBy);
+    remaining -= limit;
+  }
+  return cursor;
+}
+
+/**
+ * Picks an id between `min` and `max` to start a sample run at. Numbers are
+ * drawn uniformly. Strings are read as fractions whose digits are the
+ * characters ids use after their common prefix; pass ids seen in the namespace
+ * as `seen` so characters missing from `min` and `max` count too.
+ */
+export function randomIdBetween(
+  min: string | number,
+  max: string | number,
+  random: () => number = Math.random,
+  seen: (string | number)[] = []
+): string | number {
+  if (typeof min === 'number' && typeof max === 'number') {
+    const value = min + random() * (max - min);
+    return Number.isInteger(min) && Number.isInteger(max) ? Math.floor(value) : value;
+  }
+
+  const low = String(min);
+  const high = String(max);
+  let prefix = 0;
+  while (prefix < low.length && prefix < high.length && low[prefix] === high[prefix]) prefix++;
+  const alphabet = [...new Set([low, high, ...seen.map(String)].flatMap(id => [...id.slice(prefix)]))].sort();
+  if (alphabet.length === 0) return low;
+
+  const base = alphabet.length;
+  const digits = Math.max(1, Math.floor(52 / Math.log2(base + 1))); // Stay within a double's precision
+  const fraction = (text: string) => {
+    let value = 0;
+    let scale = 1;
+    for (let i = 0; i < digits; i++) {
+      scale /= base;
+      const char = text[prefix + i];
+      value += (char === undefined ? 0 : alphabet.indexOf(char)) * scale;
+    }
+    return value;
+  };
+
+  const start = fraction(low);
+  let position = start + random() * (fraction(high) - start);
+  let key = low.slice(0, prefix);
+  for (let i = 0; i < digits; i++) {
+    position *= base;
+    const digit = Math.min(base - 1, Math.floor(position));
+    position -= digit;
+    key += alphabet[digit];
+  }
+  return key;
+}
+
+export interface KeysetSampleOptions {
+  filters?: Filter;
+  limit: number;
+  pageSize?: number; // Rows per run; defaults to about 50 runs per sample
+  includeAttributes?: string[] | boolean;
+  random?: () => number;
+  onProgress?: (read: number) => void;
+  signal?: AbortSignal; // Checked between runs
+}
+
+/**
+ * Reads up to `limit` rows as short id-ordered runs starting at random ids, so
+ * the sample covers the whole id range instead of its first rows. Overlapping
+ * runs are de-duplicated. Rows that follow large gaps in the ids are somewhat
+ * more likely to be picked.
+ */
+export async function sampleKeysetRows(runQuery: KeysetQueryRunner, options: KeysetSampleOptions): Promise<Document[]> {
+  const { limit } = options;
+  const pageSize = options.pageSize ?? Math.min(500, Math.max(20, Math.ceil(limit / 50)));
+  const random = options.random ?? Math.random;
+
+  // The first ids show which characters string ids are made of
+  const boundary = async (direction: SortDirection, topK: number) => {
+    const response = await runQuery({
+      filters: options.filters,
+      rank_by: ['id', direction],
+      top_k: topK,
+      include_attributes: false,
+    });
+    return (response.rows || []).map(row => row.id);
+  };
+  const first = await boundary('asc', 100);
+  const [max] = await boundary('desc', 1);
+  if (first.length === 0 || max === undefined) return [];
+
+  const rows = new Map<string | number, Document>();
+  // Runs landing near the end or on rows already read come back short
+  const maxRuns = Math.ceil(limit / pageSize) * 4;
+  for (let run = 0; run < maxRuns && rows.size < limit; run++) {
+    options.signal?.throwIfAborted();
+    const response = await runQuery({
+      filters: andFilters(options.filters, ['id', 'Gte', randomIdBetween(first[0], max, random, first)]),
+      rank_by: ['id', 'asc'],
+      top_k: Math.min(pageSize, limit - rows.size),
+      include_attributes: options.includeAttributes,
+    });
+    for (const row of response.rows || []) {
+      rows.set(row.id, row);
+    }
+    options.onProgress?.(rows.size);
+  }
+  return Array.from(rows.values());
+}
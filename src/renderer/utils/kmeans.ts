@@ -0,0 +1,171 @@
+/**
+ * k-means over sampled vectors, for seeing which topics a corpus covers and
+ * which documents fit none of them. Seeded k-means++ initialization keeps
+ * runs over the same sample repeatable.
+ */
+
+import { seededRandom } from './projection';
+
+export interface KMeansOptions {
+  seed?: number;
+  maxIterations?: number;
+  tolerance?: number; // Stop once no centroid moves further than this
+  normalize?: boolean; // Cluster directions only, as cosine distance sees them
+  onProgress?: (fraction: number) => void;
+}
+
+export interface KMeansResult {
+  assignments: number[];
+  centroids: number[][];
+  distances: number[]; // Euclidean distance from each vector to its centroid
+  iterations: number;
+  inertia: number; // Sum of squared distances
+}
+
+export interface ClusterSummary {
+  cluster: number;
+  size: number;
+  members: number[]; // Indexes into the input, closest to the centroid first
+  meanDistance: number;
+}
+
+const squaredDistance = (a: number[], b: number[]): number => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    const d = a[i] - b[i];
+    sum += d * d;
+  }
+  return sum;
+};
+
+const unit = (vector: number[]): number[] => {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm > 0 ? vector.map((v) => v / norm) : vector;
+};
+
+// Spread the first centroids out: each next one is drawn with probability
+// proportional to its squared distance from the nearest one chosen so far
+function initializeCentroids(vectors: number[][], k: number, random: () => number): number[][] {
+  const centroids = [vectors[Math.floor(random() * vectors.length)]];
+  const nearest = vectors.map((vector) => squaredDistance(vector, centroids[0]));
+  while (centroids.length < k) {
+    const total = nearest.reduce((sum, d) => sum + d, 0);
+    let target = random() * total;
+    let index = 0;
+    while (index < vectors.length - 1 && target >= nearest[index]) {
+      target -= nearest[index];
+      index++;
+    }
+    const centroid = total > 0 ? vectors[index] : vectors[Math.floor(random() * vectors.length)];
+    centroids.push(centroid);
+    vectors.forEach((vector, i) => {
+      nearest[i] = Math.min(nearest[i], squaredDistance(vector, centroid));
+    });
+  }
+  return centroids.map((centroid) => [...centroid]);
+}
+
+export function kMeans(input: number[][], k: number, options: KMeansOptions = {}): KMeansResult {
+  if (input.length === 0) throw new Error('No vectors to cluster');
+  if (k < 1 || k > input.length) throw new Error(`k must be between 1 and ${input.length}`);
+  const width = input[0].length;
+  if (input.some((vector) => vector.length !== width)) throw new Error('All vectors need the same dimension');
+
+  const vectors = options.normalize ? input.map(unit) : input;
+  const maxIterations = options.maxIterations ?? 50;
+  const tolerance = options.tolerance ?? 1e-4;
+  const random = seededRandom(options.seed ?? 42);
+
+  let centroids = initializeCentroids(vectors, k, random);
+  const assignments = new Array<number>(vectors.length).fill(-1);
+  const squared = new Array<number>(vectors.length).fill(0);
+  let iterations = 0;
+
+  while (iterations < maxIterations) {
+    iterations++;
+
+    let changed = 0;
+    vectors.forEach((vector, i) => {
+      let best = 0;
+      let bestDistance = Infinity;
+      for (let c = 0; c < k; c++) {
+        const d = squaredDistance(vector, centroids[c]);
+        if (d < bestDistance) {
+          bestDistance = d;
+          best = c;
+        }
+      }
+      if (assignments[i] !== best) changed++;
+      assignments[i] = best;
+      squared[i] = bestDistance;
+    });
+
+    const sums = Array.from({ length: k }, () => new Array<number>(width).fill(0));
+    const counts = new Array<number>(k).fill(0);
+    vectors.forEach((vector, i) => {
+      const sum = sums[assignments[i]];
+      for (let d = 0; d < width; d++) sum[d] += vector[d];
+      counts[assignments[i]]++;
+    });
+
+    const next = sums.map((sum, c) => {
+      if (counts[c] > 0) {
+        const mean = sum.map((v) => v / counts[c]);
+        return options.normalize ? unit(mean) : mean;
+      }
+      // Restart an empty cluster at the vector its neighbours fit worst
+      const farthest = squared.indexOf(Math.max(...squared));
+      squared[farthest] = 0;
+      return [...vectors[farthest]];
+    });
+    const shift = Math.max(...next.map((centroid, c) => Math.sqrt(squaredDistance(centroid, centroids[c]))));
+    centroids = next;
+
+    options.onProgress?.(iterations / maxIterations);
+    if (changed === 0 || shift <= tolerance) break;
+  }
+
+  // Distances against the final centroids
+  const distances = vectors.map((vector, i) => Math.sqrt(squaredDistance(vector, centroids[assignments[i]])));
+  options.onProgress?.(1);
+
+  return {
+    assignments,
+    centroids,
+    distances,
+    iterations,
+    inertia: distances.reduce((sum, d) => sum + d * d, 0),
+  };
+}
+
+/**
+ * Members of each cluster ordered from most to least typical, so the first
+ * few serve as the cluster's representative documents.
+ */
+export function summarizeClusters(result: KMeansResult): ClusterSummary[] {
+  return result.centroids.map((_, cluster) => {
+    const members = result.assignments
+      .map((assigned, index) => (assigned === cluster ? index : -1))
+      .filter((index) => index >= 0)
+      .sort((a, b) => result.distances[a] - result.distances[b]);
+    return {
+      cluster,
+      size: members.length,
+      members,
+      meanDistance: members.length > 0
+        ? members.reduce((sum, index) => sum + result.distances[index], 0) / members.length
+        : 0,
+    };
+  });
+}
+
+/**
+ * Indexes of the `count` vectors furthest from their centroid.
+ */
+export function findOutliers(result: KMeansResult, count: number): number[] {
+  return result.distances
+    .map((distance, index) => ({ distance, index }))
+    .sort((a, b) => b.distance - a.distance)
+    .slice(0, count)
+    .map((entry) => entry.index);
+}
@@ -0,0 +1,49 @@
+/**
+ * Namespace naming rules shared by the create and duplicate dialogs.
+ */
+
+export const NAMESPACE_ID_PATTERN = /^[A-Za-z0-9-_.]{1,128}$/;
+export const NAMESPACE_ID_MAX_LENGTH = 128;
+
+export const NAMESPACE_ID_RULES =
+  `Can only contain ASCII alphanumeric characters, hyphens, underscores, and periods (max ${NAMESPACE_ID_MAX_LENGTH} characters)`;
+
+/**
+ * Returns an error message, or null when the name can be used.
+ * `existingIds` only covers namespaces loaded so far; callers should still
+ * confirm with the server before writing.
+ */
+export function validateNamespaceId(namespaceId: string, existingIds: Iterable<string> = []): string | null {
+  if (!namespaceId.trim()) {
+    return 'Namespace ID is required';
+  }
+
+  if (!NAMESPACE_ID_PATTERN.test(namespaceId)) {
+    return `Namespace ID ${NAMESPACE_ID_RULES.charAt(0).toLowerCase()}${NAMESPACE_ID_RULES.slice(1)}`;
+  }
+
+  for (const id of existingIds) {
+    if (id === namespaceId) {
+      return `Namespace "${namespaceId}" already exists`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Suggest a free name for a copy of `sourceId`, e.g. `docs-copy`, `docs-copy-2`.
+ */
+export function suggestCopyName(sourceId: string, existingIds: Iterable<string> = []): string {
+  const taken = new Set(existingIds);
+
+  for (let attempt = 1; attempt < 1000; attempt++) {
+    const suffix = attempt === 1 ? '-copy' : `-copy-${attempt}`;
+    const candidate = `${sourceId.slice(0, NAMESPACE_ID_MAX_LENGTH - suffix.length)}${suffix}`;
+    if (!taken.has(candidate)) {
+      return candidate;
+    }
+  }
+
+  return `${sourceId.slice(0, NAMESPACE_ID_MAX_LENGTH - 14)}-copy-${Date.now()}`;
+}
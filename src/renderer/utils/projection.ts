@@ -0,0 +1,355 @@
+/**
+ * 2D projections of document vectors for the vectors view.
+ *
+ * PCA is linear and quick enough to run inline. UMAP and t-SNE are
+ * neighbourhood-preserving and quadratic in the number of points, so they run
+ * in `workers/projection.worker.ts` and report progress. Both are seeded, so
+ * the same vectors give the same picture.
+ */
+
+import { PCA } from 'ml-pca';
+
+export type ProjectionMethod = 'pca' | 'umap' | 'tsne';
+export type Point2D = [number, number];
+
+export interface ProjectionOptions {
+  seed?: number;
+  neighbors?: number; // UMAP
+  perplexity?: number; // t-SNE
+  iterations?: number;
+  onProgress?: (fraction: number) => void;
+}
+
+// Above this width, UMAP and t-SNE work on a random projection of the vectors
+const REDUCED_DIMENSIONS = 64;
+
+// UMAP curve parameters for min_dist = 0.1, spread = 1
+const UMAP_A = 1.577;
+const UMAP_B = 0.8951;
+
+export const PROJECTION_METHOD_LABELS: Record<ProjectionMethod, string> = {
+  pca: 'PCA',
+  umap: 'UMAP',
+  tsne: 't-SNE',
+};
+
+/**
+ * Mulberry32: small, fast and good enough for layout initialisation.
+ */
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function gaussian(random: () => number): number {
+  const u = Math.max(random(), 1e-12);
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
+
+export function projectPCA(vectors: number[][]): Point2D[] {
+  if (vectors.length < 3 || vectors[0].length < 2) {
+    return vectors.map(() => [0, 0]);
+  }
+  const pca = new PCA(vectors, { method: 'NIPALS', nCompNIPALS: 2 });
+  return pca.predict(vectors, { nComponents: 2 }).to2DArray().map(([x, y]) => [x, y]);
+}
+
+/**
+ * Gaussian random projection. Pairwise distances survive roughly intact
+ * (Johnson-Lindenstrauss), which is all the neighbour searches below need.
+ */
+export function reduceDimensions(vectors: number[][], dimensions: number, seed: number): number[][] {
+  const width = vectors[0]?.length ?? 0;
+  if (width <= dimensions) return vectors;
+  const random = seededRandom(seed);
+  const scale = 1 / Math.sqrt(dimensions);
+  const basis = Array.from({ length: dimensions }, () =>
+    Float64Array.from({ length: width }, () => gaussian(random) * scale)
+  );
+  return vectors.map((vector) =>
+    basis.map((row) => {
+      let sum = 0;
+      for (let i = 0; i < width; i++) sum += row[i] * vector[i];
+      return sum;
+    })
+  );
+}
+
+function squaredDistance(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    const d = a[i] - b[i];
+    sum += d * d;
+  }
+  return sum;
+}
+
+export interface NeighborGraph {
+  k: number;
+  indices: Int32Array; // Row i holds the k nearest points to i, closest first
+  distances: Float64Array; // Euclidean, same layout
+}
+
+/**
+ * Exact k nearest neighbours by brute force.
+ */
+export function nearestNeighbors(vectors: number[][], k: number): NeighborGraph {
+  const n = vectors.length;
+  const indices = new Int32Array(n * k);
+  const distances = new Float64Array(n * k);
+  const candidates: { index: number; distance: number }[] = [];
+  for (let i = 0; i < n; i++) {
+    candidates.length = 0;
+    for (let j = 0; j < n; j++) {
+      if (j !== i) candidates.push({ index: j, distance: squaredDistance(vectors[i], vectors[j]) });
+    }
+    candidates.sort((a, b) => a.distance - b.distance);
+    for (let m = 0; m < k; m++) {
+      indices[i * k + m] = candidates[m].index;
+      distances[i * k + m] = Math.sqrt(candidates[m].distance);
+    }
+  }
+  return { k, indices, distances };
+}
+
+// Rescale to roughly [-10, 10] so every method lands on the same axes
+function normalizeLayout(points: Point2D[]): Point2D[] {
+  let max = 0;
+  for (const [x, y] of points) max = Math.max(max, Math.abs(x), Math.abs(y));
+  const scale = max > 0 ? 10 / max : 1;
+  return points.map(([x, y]) => [x * scale, y * scale]);
+}
+
+/**
+ * UMAP with a PCA initialisation and plain SGD with negative sampling.
+ */
+export function projectUMAP(vectors: number[][], options: ProjectionOptions = {}): Point2D[] {
+  const n = vectors.length;
+  if (n < 4) return projectPCA(vectors);
+  const seed = options.seed ?? 42;
+  const random = seededRandom(seed);
+  const epochs = options.iterations ?? 200;
+  const k = Math.min(options.neighbors ?? 15, n - 1);
+
+  const data = reduceDimensions(vectors, REDUCED_DIMENSIONS, seed);
+  const graph = nearestNeighbors(data, k);
+  options.onProgress?.(0.2);
+
+  // Fuzzy membership: each point is fully connected to its nearest neighbour
+  // and sigma is chosen so the memberships sum to log2(k)
+  const target = Math.log2(k);
+  const weights = new Map<number, number>(); // i * n + j, i < j
+  for (let i = 0; i < n; i++) {
+    const rho = graph.distances[i * k];
+    let low = 0;
+    let high = Infinity;
+    let sigma = 1;
+    for (let step = 0; step < 64; step++) {
+      let sum = 0;
+      for (let m = 0; m < k; m++) {
+        sum += Math.exp(-Math.max(0, graph.distances[i * k + m] - rho) / sigma);
+      }
+      if (Math.abs(sum - target) < 1e-5) break;
+      if (sum > target) {
+        high = sigma;
+        sigma = (low + high) / 2;
+      } else {
+        low = sigma;
+        sigma = high === Infinity ? sigma * 2 : (low + high) / 2;
+      }
+    }
+    for (let m = 0; m < k; m++) {
+      const j = graph.indices[i * k + m];
+      const w = Math.exp(-Math.max(0, graph.distances[i * k + m] - rho) / sigma);
+      const key = i < j ? i * n + j : j * n + i;
+      const existing = weights.get(key);
+      // Fuzzy union of the two directed memberships
+      weights.set(key, existing === undefined ? w : existing + w - existing * w);
+    }
+  }
+
+  const edges = [...weights.entries()];
+  const maxWeight = edges.reduce((max, [, w]) => Math.max(max, w), 0);
+  const layout = normalizeLayout(projectPCA(data)).map(([x, y]) => [
+    x + (random() - 0.5) * 1e-3,
+    y + (random() - 0.5) * 1e-3,
+  ]);
+  const clip = (value: number) => Math.max(-4, Math.min(4, value));
+  const negativeSamples = 5;
+
+  for (let epoch = 0; epoch < epochs; epoch++) {
+    const alpha = 1 - epoch / epochs;
+    for (const [key, w] of edges) {
+      if (random() > w / maxWeight) continue;
+      const i = Math.floor(key / n);
+      const j = key % n;
+      const a = layout[i];
+      const b = layout[j];
+      const d2 = (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2;
+      if (d2 > 0) {
+        const coeff = (-2 * UMAP_A * UMAP_B * Math.pow(d2, UMAP_B - 1)) / (1 + UMAP_A * Math.pow(d2, UMAP_B));
+        for (let axis = 0; axis < 2; axis++) {
+          const grad = clip(coeff * (a[axis] - b[axis])) * alpha;
+          a[axis] += grad;
+          b[axis] -= grad;
+        }
+      }
+      for (let s = 0; s < negativeSamples; s++) {
+        const c = layout[Math.floor(random() * n)];
+        if (c === a) continue;
+        const dn2 = (a[0] - c[0]) ** 2 + (a[1] - c[1]) ** 2;
+        const coeff = (2 * UMAP_B) / ((0.001 + dn2) * (1 + UMAP_A * Math.pow(dn2, UMAP_B)));
+        for (let axis = 0; axis < 2; axis++) {
+          a[axis] += clip(coeff * (a[axis] - c[axis])) * alpha;
+        }
+      }
+    }
+    if (epoch % 10 === 0) options.onProgress?.(0.2 + (0.8 * epoch) / epochs);
+  }
+  return layout as Point2D[];
+}
+
+/**
+ * t-SNE on a sparse nearest-neighbour affinity graph with exact repulsion,
+ * early exaggeration and adaptive gains.
+ */
+export function projectTSNE(vectors: number[][], options: ProjectionOptions = {}): Point2D[] {
+  const n = vectors.length;
+  if (n < 4) return projectPCA(vectors);
+  const seed = options.seed ?? 42;
+  const random = seededRandom(seed);
+  const iterations = options.iterations ?? 500;
+  const perplexity = Math.min(options.perplexity ?? 30, (n - 1) / 3);
+  const k = Math.min(n - 1, Math.floor(3 * perplexity));
+
+  const data = reduceDimensions(vectors, REDUCED_DIMENSIONS, seed);
+  const graph = nearestNeighbors(data, k);
+  options.onProgress?.(0.1);
+
+  // Conditional probabilities with a per-point bandwidth matching the perplexity
+  const conditional = new Float64Array(n * k);
+  const targetEntropy = Math.log(perplexity);
+  for (let i = 0; i < n; i++) {
+    let beta = 1;
+    let low = -Infinity;
+    let high = Infinity;
+    for (let step = 0; step < 64; step++) {
+      let sum = 0;
+      let weighted = 0;
+      for (let m = 0; m < k; m++) {
+        const d2 = graph.distances[i * k + m] ** 2;
+        const p = Math.exp(-d2 * beta);
+        conditional[i * k + m] = p;
+        sum += p;
+        weighted += d2 * p;
+      }
+      sum = Math.max(sum, 1e-12);
+      const entropy = Math.log(sum) + (beta * weighted) / sum;
+      for (let m = 0; m < k; m++) conditional[i * k + m] /= sum;
+      if (Math.abs(entropy - targetEntropy) < 1e-5) break;
+      if (entropy > targetEntropy) {
+        low = beta;
+        beta = high === Infinity ? beta * 2 : (beta + high) / 2;
+      } else {
+        high = beta;
+        beta = low === -Infinity ? beta / 2 : (beta + low) / 2;
+      }
+    }
+  }
+
+  // Symmetrised joint probabilities
+  const joint = new Map<number, number>();
+  for (let i = 0; i < n; i++) {
+    for (let m = 0; m < k; m++) {
+      const j = graph.indices[i * k + m];
+      const key = i < j ? i * n + j : j * n + i;
+      joint.set(key, (joint.get(key) ?? 0) + conditional[i * k + m] / (2 * n));
+    }
+  }
+  const pairs = [...joint.entries()].map(([key, p]) => ({ i: Math.floor(key / n), j: key % n, p }));
+
+  const y = Array.from({ length: n }, () => [gaussian(random) * 1e-4, gaussian(random) * 1e-4]);
+  const update = Array.from({ length: n }, () => [0, 0]);
+  const gains = Array.from({ length: n }, () => [1, 1]);
+  const gradient = Array.from({ length: n }, () => [0, 0]);
+  const repulsion = Array.from({ length: n }, () => [0, 0]);
+  const learningRate = Math.max(n / 12, 50);
+  const exaggerationEnd = Math.min(250, Math.floor(iterations / 4));
+
+  for (let iter = 0; iter < iterations; iter++) {
+    const exaggeration = iter < exaggerationEnd ? 12 : 1;
+    const momentum = iter < exaggerationEnd ? 0.5 : 0.8;
+    for (let i = 0; i < n; i++) {
+      gradient[i][0] = gradient[i][1] = 0;
+      repulsion[i][0] = repulsion[i][1] = 0;
+    }
+
+    // Repulsion over every pair, normalised by Z afterwards
+    let z = 0;
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) {
+        const dx = y[i][0] - y[j][0];
+        const dy = y[i][1] - y[j][1];
+        const q = 1 / (1 + dx * dx + dy * dy);
+        z += 2 * q;
+        const q2 = q * q;
+        repulsion[i][0] += q2 * dx;
+        repulsion[i][1] += q2 * dy;
+        repulsion[j][0] -= q2 * dx;
+        repulsion[j][1] -= q2 * dy;
+      }
+    }
+    for (const { i, j, p } of pairs) {
+      const dx = y[i][0] - y[j][0];
+      const dy = y[i][1] - y[j][1];
+      const force = exaggeration * p / (1 + dx * dx + dy * dy);
+      gradient[i][0] += force * dx;
+      gradient[i][1] += force * dy;
+      gradient[j][0] -= force * dx;
+      gradient[j][1] -= force * dy;
+    }
+
+    for (let i = 0; i < n; i++) {
+      for (let axis = 0; axis < 2; axis++) {
+        const grad = 4 * (gradient[i][axis] - repulsion[i][axis] / z);
+        gains[i][axis] = Math.sign(grad) !== Math.sign(update[i][axis])
+          ? gains[i][axis] + 0.2
+          : Math.max(gains[i][axis] * 0.8, 0.01);
+        update[i][axis] = momentum * update[i][axis] - learningRate * gains[i][axis] * grad;
+        y[i][axis] += update[i][axis];
+      }
+    }
+    if (iter % 10 === 0) options.onProgress?.(0.1 + (0.9 * iter) / iterations);
+  }
+  return y as Point2D[];
+}
+
+export function project(method: ProjectionMethod, vectors: number[][], options: ProjectionOptions = {}): Point2D[] {
+  const points = method === 'umap'
+    ? projectUMAP(vectors, options)
+    : method === 'tsne'
+      ? projectTSNE(vectors, options)
+      : projectPCA(vectors);
+  return normalizeLayout(points);
+}
+
+/**
+ * Even-odd ray casting, for lasso selection.
+ */
+export function pointInPolygon([x, y]: Point2D, polygon: Point2D[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, yi] = polygon[i];
+    const [xj, yj] = polygon[j];
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
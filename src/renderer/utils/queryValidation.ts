@@ -0,0 +1,420 @@
+/**
+ * Local, schema-aware checks for queries before they are sent, so problems
+ * the server would reject show up next to the filter or text that causes them.
+ *
+ * Issues carry a path into the query object (e.g. ['filters', 1, 0, 2]) which
+ * `locateJsonPath` turns into a range of the query's JSON text.
+ */
+
+import type { Filter } from '@/types/document';
+import type { AttributeSchema, NamespaceSchema } from '@/types/namespace';
+
+export type QueryPath = (string | number)[];
+
+export interface QueryValidationIssue {
+  severity: 'error' | 'warning';
+  message: string;
+  path: QueryPath;
+  attribute?: string;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const VECTOR_TYPE_PATTERN = /^\[(\d+)\]f(?:16|32)$/;
+
+const ARRAY_ONLY_OPS = new Set([
+  'Contains', 'NotContains', 'ContainsAny', 'NotContainsAny', 'AnyLt', 'AnyLte', 'AnyGt', 'AnyGte',
+]);
+const PATTERN_OPS = new Set(['Glob', 'NotGlob', 'IGlob', 'NotIGlob', 'Regex']);
+const FULL_TEXT_OPS = new Set(['ContainsAllTokens', 'ContainsTokenSequence']);
+const RANKING_OPS = new Set(['Add', 'Sub', 'Mul', 'Div', 'Log', 'Exp', 'Abs', 'Min', 'Max', 'Pow', 'Sqrt']);
+const NUMERIC_TYPES = new Set(['int', 'uint', 'float', 'f16', 'f32', 'f64', 'i32', 'i64', 'u32', 'u64']);
+
+const typeOf = (schema: AttributeSchema): string =>
+  typeof schema.type === 'object' ? schema.type.type : schema.type;
+
+// Full-text attributes aren't filterable unless asked for explicitly
+const filterableOf = (schema: AttributeSchema): boolean =>
+  schema.filterable ?? !schema.full_text_search;
+
+export function vectorDimensionOf(schema: AttributeSchema): number | null {
+  const match = VECTOR_TYPE_PATTERN.exec(typeOf(schema));
+  return match ? Number(match[1]) : null;
+}
+
+export function vectorAttributesOf(schema: NamespaceSchema | null): string[] {
+  if (!schema) return [];
+  return Object.entries(schema)
+    .filter(([, attribute]) => vectorDimensionOf(attribute) !== null)
+    .map(([name]) => name);
+}
+
+const describeValue = (value: unknown) => {
+  const text = JSON.stringify(value);
+  return text && text.length > 40 ? `${text.slice(0, 37)}...` : text;
+};
+
+/**
+ * Why `value` can't be stored in an attribute of scalar `type`, or null if it can.
+ * Unknown types are accepted.
+ */
+function valueTypeError(value: unknown, type: string): string | null {
+  if (value === null) return null;
+  switch (type) {
+    case 'string':
+      return typeof value === 'string' ? null : 'a string';
+    case 'int':
+      return Number.isInteger(value) ? null : 'an integer';
+    case 'uint':
+      return Number.isInteger(value) && (value as number) >= 0 ? null : 'a non-negative integer';
+    case 'float':
+      return typeof value === 'number' ? null : 'a number';
+    case 'bool':
+      return typeof value === 'boolean' ? null : 'true or false';
+    case 'uuid':
+      return typeof value === 'string' && UUID_PATTERN.test(value) ? null : 'a UUID';
+    case 'datetime':
+      return (typeof value === 'string' && !Number.isNaN(Date.parse(value))) || typeof value === 'number'
+        ? null
+        : 'an RFC 3339 datetime';
+    default:
+      return null;
+  }
+}
+
+// Issues for a list point at the offending element
+function checkValues(
+  values: unknown[],
+  type: string,
+  attribute: string,
+  path: QueryPath,
+  issues: QueryValidationIssue[],
+  isList = true
+) {
+  values.forEach((item, index) => {
+    const expected = valueTypeError(item, type);
+    if (expected) {
+      issues.push({
+        severity: 'error',
+        message: `${describeValue(item)} is not ${expected}, as '${attribute}' (${type}) requires`,
+        path: isList ? [...path, index] : path,
+        attribute,
+      });
+    }
+  });
+}
+
+/**
+ * Why `value` can't be written to `attribute`, e.g. from an inline cell edit.
+ * Null when the value fits, or when the schema doesn't describe the attribute.
+ */
+export function validateAttributeValue(
+  attribute: string,
+  value: unknown,
+  schema: NamespaceSchema | null
+): string | null {
+  const attributeSchema = schema?.[attribute];
+  if (!attributeSchema || value === null) return null;
+  if (vectorDimensionOf(attributeSchema) !== null) {
+    return `Vector attribute '${attribute}' can't be edited as a value`;
+  }
+
+  const type = typeOf(attributeSchema);
+  const isArray = type.startsWith('[]');
+  if (isArray !== Array.isArray(value)) {
+    return isArray
+      ? `'${attribute}' (${type}) needs a list`
+      : `'${attribute}' (${type}) doesn't hold lists`;
+  }
+  const issues: QueryValidationIssue[] = [];
+  checkValues(isArray ? value as unknown[] : [value], isArray ? type.slice(2) : type, attribute, [], issues);
+  return issues[0]?.message ?? null;
+}
+
+function validateCondition(
+  [attribute, op, value]: [string, string, any],
+  schema: NamespaceSchema,
+  path: QueryPath,
+  issues: QueryValidationIssue[]
+) {
+  const attributeSchema = schema[attribute];
+  if (!attributeSchema) {
+    if (attribute !== 'id') {
+      issues.push({
+        severity: 'warning',
+        message: `'${attribute}' is not in the namespace schema, so no document matches on it`,
+        path: [...path, 0],
+        attribute,
+      });
+    }
+    return;
+  }
+
+  const type = typeOf(attributeSchema);
+  if (vectorDimensionOf(attributeSchema) !== null) {
+    issues.push({ severity: 'error', message: `Vector attribute '${attribute}' can't be filtered`, path: [...path, 0], attribute });
+    return;
+  }
+
+  if (FULL_TEXT_OPS.has(op)) {
+    if (!attributeSchema.full_text_search) {
+      issues.push({
+        severity: 'error',
+        message: `${op} needs full-text search, which is not enabled on '${attribute}'`,
+        path: [...path, 0],
+        attribute,
+      });
+    }
+    return;
+  }
+
+  if (!filterableOf(attributeSchema)) {
+    issues.push({
+      severity: 'error',
+      message: `'${attribute}' is not filterable${attributeSchema.full_text_search ? ' (full-text attributes need filterable: true)' : ''}`,
+      path: [...path, 0],
+      attribute,
+    });
+    return;
+  }
+
+  const isArray = type.startsWith('[]');
+  const elementType = isArray ? type.slice(2) : type;
+  const valuePath = [...path, 2];
+
+  if (ARRAY_ONLY_OPS.has(op) && !isArray) {
+    issues.push({ severity: 'error', message: `${op} only applies to array attributes, and '${attribute}' is ${type}`, path: [...path, 1], attribute });
+    return;
+  }
+
+  if (PATTERN_OPS.has(op)) {
+    if (typeof value !== 'string') {
+      issues.push({ severity: 'error', message: `${op} needs a string pattern`, path: valuePath, attribute });
+    } else if (elementType !== 'string') {
+      issues.push({ severity: 'error', message: `${op} only applies to string attributes, and '${attribute}' is ${type}`, path: [...path, 1], attribute });
+    }
+    return;
+  }
+
+  switch (op) {
+    case 'In':
+    case 'NotIn':
+      if (!Array.isArray(value)) {
+        issues.push({ severity: 'error', message: `${op} needs a list of values`, path: valuePath, attribute });
+      } else if (!isArray) {
+        checkValues(value, type, attribute, valuePath, issues);
+      }
+      return;
+    case 'ContainsAny':
+    case 'NotContainsAny':
+      checkValues(Array.isArray(value) ? value : [value], elementType, attribute, valuePath, issues, Array.isArray(value));
+      return;
+    case 'Eq':
+    case 'NotEq':
+      // Equality on an array attribute compares whole arrays
+      if (isArray && Array.isArray(value)) {
+        checkValues(value, elementType, attribute, valuePath, issues);
+        return;
+      }
+      checkValues([value], type, attribute, valuePath, issues, false);
+      return;
+    default:
+      checkValues([value], elementType, attribute, valuePath, issues, false);
+  }
+}
+
+/**
+ * Check a filter against the namespace schema.
+ */
+export function validateFilter(
+  filter: Filter | undefined,
+  schema: NamespaceSchema,
+  path: QueryPath = []
+): QueryValidationIssue[] {
+  const issues: QueryValidationIssue[] = [];
+
+  const visit = (node: unknown, nodePath: QueryPath) => {
+    if (!Array.isArray(node)) return;
+    if ((node[0] === 'And' || node[0] === 'Or') && Array.isArray(node[1])) {
+      node[1].forEach((child: unknown, index: number) => visit(child, [...nodePath, 1, index]));
+    } else if (node[0] === 'Not' && node.length === 2) {
+      visit(node[1], [...nodePath, 1]);
+    } else if (node.length === 3 && typeof node[0] === 'string' && typeof node[1] === 'string') {
+      validateCondition(node as [string, string, any], schema, nodePath, issues);
+    }
+  };
+
+  visit(filter, path);
+  return issues;
+}
+
+/**
+ * Check a rank_by value: BM25 needs full-text search, ANN vectors must match
+ * the attribute's dimension, and ranking expressions must use numeric attributes.
+ */
+export function validateRankBy(
+  rankBy: unknown,
+  schema: NamespaceSchema,
+  path: QueryPath = []
+): QueryValidationIssue[] {
+  const issues: QueryValidationIssue[] = [];
+
+  const checkNumericAttribute = (attribute: string, attributePath: QueryPath) => {
+    const attributeSchema = schema[attribute];
+    if (!attributeSchema) {
+      issues.push({ severity: 'warning', message: `'${attribute}' is not in the namespace schema`, path: attributePath, attribute });
+    } else if (!NUMERIC_TYPES.has(typeOf(attributeSchema))) {
+      issues.push({
+        severity: 'error',
+        message: `Ranking expressions need numeric attributes, and '${attribute}' is ${typeOf(attributeSchema)}`,
+        path: attributePath,
+        attribute,
+      });
+    }
+  };
+
+  const visit = (node: unknown, nodePath: QueryPath) => {
+    if (!Array.isArray(node)) return;
+
+    if (typeof node[0] === 'string' && node[1] === 'BM25') {
+      const attributeSchema = schema[node[0]];
+      if (!attributeSchema?.full_text_search) {
+        issues.push({
+          severity: 'error',
+          message: `BM25 needs full-text search, which is not enabled on '${node[0]}'`,
+          path: [...nodePath, 0],
+          attribute: node[0],
+        });
+      }
+      return;
+    }
+
+    if (typeof node[0] === 'string' && node[1] === 'ANN') {
+      const attributeSchema = schema[node[0]];
+      const dimension = attributeSchema ? vectorDimensionOf(attributeSchema) : null;
+      if (attributeSchema && dimension === null) {
+        issues.push({ severity: 'error', message: `'${node[0]}' is not a vector attribute`, path: [...nodePath, 0], attribute: node[0] });
+      } else if (dimension !== null && Array.isArray(node[2]) && node[2].length !== dimension) {
+        issues.push({
+          severity: 'error',
+          message: `Query vector has ${node[2].length} dimensions, but '${node[0]}' stores ${dimension}`,
+          path: [...nodePath, 2],
+          attribute: node[0],
+        });
+      }
+      return;
+    }
+
+    // ['Max', [rank, rank]] combines ranks; ['Max', a, b] is arithmetic
+    const combinesRanks = node.length === 2 && Array.isArray(node[1]) && node[1].every(Array.isArray);
+    if (typeof node[0] === 'string' && RANKING_OPS.has(node[0]) && !combinesRanks) {
+      node.slice(1).forEach((operand: unknown, index: number) => {
+        if (typeof operand === 'string') checkNumericAttribute(operand, [...nodePath, index + 1]);
+        else visit(operand, [...nodePath, index + 1]);
+      });
+      return;
+    }
+
+    node.forEach((child: unknown, index: number) => visit(child, [...nodePath, index]));
+  };
+
+  visit(rankBy, path);
+  return issues;
+}
+
+/**
+ * Check a query (or a multi-query with `queries`) against the namespace
+ * schema. Returns no issues when the schema isn't known.
+ */
+export function validateQuery(
+  query: Record<string, any>,
+  schema: NamespaceSchema | null | undefined
+): QueryValidationIssue[] {
+  if (!schema || !query || typeof query !== 'object') return [];
+
+  if (Array.isArray(query.queries)) {
+    return query.queries.flatMap((subquery: Record<string, any>, index: number) =>
+      validateQuery(subquery, schema).map(issue => ({ ...issue, path: ['queries', index, ...issue.path] }))
+    );
+  }
+
+  return [
+    ...validateFilter(query.filters, schema, ['filters']),
+    ...(query.rank_by !== undefined ? validateRankBy(query.rank_by, schema, ['rank_by']) : []),
+  ];
+}
+
+/**
+ * Character range of the value at `path` in a JSON document, or null if the
+ * text isn't valid JSON or has nothing at that path.
+ */
+export function locateJsonPath(text: string, path: QueryPath): { start: number; end: number } | null {
+  let pos = 0;
+
+  const skipWhitespace = () => {
+    while (pos < text.length && /\s/.test(text[pos])) pos++;
+  };
+
+  // Parse one value starting at `pos`; returns the range of the target if it is inside
+  const parseValue = (remaining: QueryPath): { start: number; end: number } | null | undefined => {
+    skipWhitespace();
+    const start = pos;
+    const char = text[pos];
+    let found: { start: number; end: number } | null | undefined;
+
+    if (char === '{' || char === '[') {
+      const close = char === '{' ? '}' : ']';
+      pos++;
+      skipWhitespace();
+      let index = 0;
+      while (text[pos] !== close) {
+        if (pos >= text.length) throw new Error('Unexpected end of JSON');
+        let key: string | number = index;
+        if (char === '{') {
+          const keyStart = pos;
+          parseString();
+          key = JSON.parse(text.slice(keyStart, pos));
+          skipWhitespace();
+          if (text[pos++] !== ':') throw new Error('Expected colon');
+        }
+        const matches = remaining.length > 0 && remaining[0] === key;
+        const result = parseValue(matches ? remaining.slice(1) : []);
+        if (matches) found = result;
+        skipWhitespace();
+        if (text[pos] === ',') {
+          pos++;
+          skipWhitespace();
+        } else if (text[pos] !== close) {
+          throw new Error('Expected comma');
+        }
+        index++;
+      }
+      pos++;
+    } else if (char === '"') {
+      parseString();
+    } else {
+      const literal = /^(?:true|false|null|-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?)/.exec(text.slice(pos));
+      if (!literal) throw new Error('Unexpected token');
+      pos += literal[0].length;
+    }
+
+    if (remaining.length === 0) return { start, end: pos };
+    return found ?? null;
+  };
+
+  const parseString = () => {
+    pos++;
+    while (pos < text.length && text[pos] !== '"') {
+      pos += text[pos] === '\\' ? 2 : 1;
+    }
+    if (pos >= text.length) throw new Error('Unterminated string');
+    pos++;
+  };
+
+  try {
+    const range = parseValue(path);
+    skipWhitespace();
+    return pos === text.length ? range ?? null : null;
+  } catch {
+    return null;
+  }
+}
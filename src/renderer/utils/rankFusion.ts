@@ -0,0 +1,151 @@
+/**
+ * Client-side rank fusion for multi-query (hybrid) search results.
+ *
+ * Turbopuffer runs each subquery of a multi-query independently and returns
+ * one result set per subquery. These helpers merge the result sets into a
+ * single ranking and record where each document landed in every subquery.
+ */
+
+import type { Document, FusionInfo, RankFusionMethod } from '@/types/document';
+
+export interface FusionInput {
+  label: string;
+  rows: Document[];
+  weight?: number; // Defaults to 1
+  lowerIsBetter?: boolean; // true for ANN distances, false for BM25 scores
+}
+
+/**
+ * Smoothing constant for reciprocal rank fusion, as proposed by Cormack et al.
+ */
+export const RRF_K = 60;
+
+interface Candidate {
+  doc: Document;
+  ranks: (number | null)[];
+  scores: (number | null)[];
+}
+
+function collectCandidates(inputs: FusionInput[]): Map<string, Candidate> {
+  const candidates = new Map<string, Candidate>();
+
+  inputs.forEach((input, inputIndex) => {
+    input.rows.forEach((row, rowIndex) => {
+      const key = String(row.id);
+      let candidate = candidates.get(key);
+      if (!candidate) {
+        candidate = {
+          doc: row,
+          ranks: inputs.map(() => null),
+          scores: inputs.map(() => null),
+        };
+        candidates.set(key, candidate);
+      }
+      // Keep the best (first) position if a subquery repeats an id
+      if (candidate.ranks[inputIndex] === null) {
+        candidate.ranks[inputIndex] = rowIndex + 1;
+        candidate.scores[inputIndex] = typeof row.$dist === 'number' ? row.$dist : null;
+      }
+    });
+  });
+
+  return candidates;
+}
+
+function reciprocalRankScore(candidate: Candidate, inputs: FusionInput[], k: number): number {
+  return candidate.ranks.reduce<number>((sum, rank, i) => {
+    if (rank === null) return sum;
+    return sum + (inputs[i].weight ?? 1) / (k + rank);
+  }, 0);
+}
+
+/**
+ * Min-max normalize a subquery's scores to [0, 1] where 1 is the best match.
+ * Rows without a score fall back to their rank position.
+ */
+function normalizedScores(input: FusionInput): Map<string, number> {
+  const raw = input.rows.map((row, index) =>
+    typeof row.$dist === 'number' ? row.$dist : input.rows.length - index
+  );
+  const normalized = new Map<string, number>();
+  if (raw.length === 0) return normalized;
+
+  const min = Math.min(...raw);
+  const max = Math.max(...raw);
+  const range = max - min;
+  const lowerIsBetter = input.lowerIsBetter && input.rows.some(row => typeof row.$dist === 'number');
+
+  input.rows.forEach((row, index) => {
+    const key = String(row.id);
+    if (normalized.has(key)) return;
+    if (range === 0) {
+      normalized.set(key, 1);
+      return;
+    }
+    const value = (raw[index] - min) / range;
+    normalized.set(key, lowerIsBetter ? 1 - value : value);
+  });
+
+  return normalized;
+}
+
+/**
+ * Fuse several ranked result sets into one list.
+ *
+ * - `reciprocal_rank`: score = sum(weight / (k + rank)) over the subqueries that
+ *   returned the document.
+ * - `weighted`: each subquery's scores are min-max normalized, then combined as a
+ *   weighted sum. Documents missing from a subquery contribute 0 for it.
+ *
+ * Returned documents carry a `$fusion` entry with the fused rank and score plus
+ * their rank and raw score in every subquery. `$dist` is removed.
+ */
+export function fuseResults(
+  inputs: FusionInput[],
+  method: RankFusionMethod,
+  options: { topK?: number; k?: number } = {}
+): Document[] {
+  const k = options.k ?? RRF_K;
+  const candidates = collectCandidates(inputs);
+  const normalized = method === 'weighted' ? inputs.map(normalizedScores) : [];
+
+  const scored = Array.from(candidates.values()).map((candidate) => {
+    let score: number;
+    if (method === 'weighted') {
+      const key = String(candidate.doc.id);
+      score = normalized.reduce(
+        (sum, scores, i) => sum + (inputs[i].weight ?? 1) * (scores.get(key) ?? 0),
+        0
+      );
+    } else {
+      score = reciprocalRankScore(candidate, inputs, k);
+    }
+    return { candidate, score };
+  });
+
+  scored.sort((a, b) => {
+    if (b.score !== a.score) return b.score - a.score;
+    // Tie-break on the best individual rank so results are stable
+    const bestA = Math.min(...a.candidate.ranks.map(r => r ?? Infinity));
+    const bestB = Math.min(...b.candidate.ranks.map(r => r ?? Infinity));
+    return bestA - bestB;
+  });
+
+  const limited = options.topK !== undefined ? scored.slice(0, options.topK) : scored;
+
+  return limited.map(({ candidate, score }, index) => {
+    const fusion: FusionInfo = {
+      method,
+      rank: index + 1,
+      score,
+      subqueries: inputs.map((input, i) => ({
+        label: input.label,
+        rank: candidate.ranks[i],
+        score: candidate.scores[i],
+      })),
+    };
+    // $dist is only meaningful within a single subquery; the per-subquery scores live in $fusion
+    const { $dist, ...rest } = candidate.doc;
+    return { ...rest, $fusion: fusion };
+  });
+}
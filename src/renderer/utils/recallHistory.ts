@@ -0,0 +1,58 @@
+/**
+ * Helpers for comparing recall runs over time.
+ *
+ * Recall only compares meaningfully between runs with the same `num`, `top_k`
+ * and filters, so trends are computed within those groups.
+ */
+
+import type { RecallRun } from '@/types/recall';
+
+export interface RecallTrend {
+  latest: RecallRun;
+  baseline: RecallRun | null; // Earliest comparable run
+  previous: RecallRun | null; // Comparable run just before the latest
+  deltaFromBaseline: number | null;
+  deltaFromPrevious: number | null;
+  comparableRuns: number;
+}
+
+/**
+ * Recall drops smaller than this are treated as sampling noise.
+ */
+export const RECALL_DROP_THRESHOLD = 0.02;
+
+export function recallRunKey(run: Pick<RecallRun, 'num' | 'topK' | 'filters'>): string {
+  return JSON.stringify([run.num, run.topK, run.filters ?? null]);
+}
+
+/**
+ * Describe how the latest run compares to earlier runs with the same settings.
+ * Expects runs ordered oldest first.
+ */
+export function computeRecallTrend(runs: RecallRun[]): RecallTrend | null {
+  if (runs.length === 0) return null;
+
+  const latest = runs[runs.length - 1];
+  const key = recallRunKey(latest);
+  const comparable = runs.filter(run => recallRunKey(run) === key);
+  const baseline = comparable.length > 1 ? comparable[0] : null;
+  const previous = comparable.length > 1 ? comparable[comparable.length - 2] : null;
+
+  return {
+    latest,
+    baseline,
+    previous,
+    deltaFromBaseline: baseline ? latest.avgRecall - baseline.avgRecall : null,
+    deltaFromPrevious: previous ? latest.avgRecall - previous.avgRecall : null,
+    comparableRuns: comparable.length,
+  };
+}
+
+export function isRecallDegrading(trend: RecallTrend | null): boolean {
+  return trend?.deltaFromBaseline !== null && trend?.deltaFromBaseline !== undefined
+    && trend.deltaFromBaseline <= -RECALL_DROP_THRESHOLD;
+}
+
+export function formatRecall(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
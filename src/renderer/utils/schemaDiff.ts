@@ -0,0 +1,198 @@
+/**
+ * Compare a namespace schema with pending edits and classify each change by
+ * what the schema endpoint will do with it.
+ *
+ * Schema updates are patches: attributes left out are kept, and existing
+ * attribute types can't change. Turning on filtering or full-text search (or
+ * changing full-text settings) makes the server build an index over every
+ * existing document, which the API acknowledges with HTTP 202.
+ */
+
+import type { AttributeSchema, FullTextSearchConfig, NamespaceSchema } from '@/types/namespace';
+
+export type SchemaChangeKind =
+  | 'added'
+  | 'removed'
+  | 'type'
+  | 'ann'
+  | 'filterable'
+  | 'full_text_search'
+  | 'tokenizer'
+  | 'full_text_settings';
+
+export type SchemaChangeImpact =
+  | 'safe'      // Applied immediately
+  | 'rebuild'   // Starts an index build over existing documents (HTTP 202)
+  | 'rejected'  // The API refuses the update
+  | 'ignored';  // Not expressible as a schema update; nothing happens
+
+export interface SchemaChange {
+  attribute: string;
+  kind: SchemaChangeKind;
+  impact: SchemaChangeImpact;
+  before?: unknown;
+  after?: unknown;
+  reason: string;
+}
+
+export interface SchemaDiff {
+  changes: SchemaChange[];
+  hasRebuild: boolean;
+  hasRejected: boolean;
+  // Attributes to send: changed ones with no rejected change
+  update: NamespaceSchema;
+}
+
+const typeOf = (schema: AttributeSchema): string =>
+  typeof schema.type === 'object' ? schema.type.type : schema.type;
+
+// The server reports `ann` as an object with the distance metric; only presence matters here
+const annOf = (schema: AttributeSchema): boolean | undefined => {
+  const ann = typeof schema.type === 'object' ? schema.type.ann : (schema as { ann?: unknown }).ann;
+  return ann === undefined ? undefined : !!ann;
+};
+
+const ftsConfigOf = (schema: AttributeSchema): FullTextSearchConfig | null => {
+  if (!schema.full_text_search) return null;
+  return schema.full_text_search === true ? {} : schema.full_text_search;
+};
+
+// Full-text attributes aren't filterable unless asked for explicitly
+const filterableOf = (schema: AttributeSchema): boolean =>
+  schema.filterable ?? !schema.full_text_search;
+
+function diffAttribute(name: string, before: AttributeSchema, after: AttributeSchema): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+
+  if (typeOf(before) !== typeOf(after)) {
+    changes.push({
+      attribute: name,
+      kind: 'type',
+      impact: 'rejected',
+      before: typeOf(before),
+      after: typeOf(after),
+      reason: 'the type of an existing attribute cannot be changed',
+    });
+  }
+
+  if (annOf(before) !== annOf(after) && (annOf(before) !== undefined || annOf(after) !== undefined)) {
+    changes.push({
+      attribute: name,
+      kind: 'ann',
+      impact: 'rejected',
+      before: annOf(before),
+      after: annOf(after),
+      reason: 'the ANN index of an existing vector attribute cannot be changed',
+    });
+  }
+
+  const filterableBefore = filterableOf(before);
+  const filterableAfter = filterableOf(after);
+  if (filterableBefore !== filterableAfter) {
+    changes.push({
+      attribute: name,
+      kind: 'filterable',
+      impact: filterableAfter ? 'rebuild' : 'safe',
+      before: filterableBefore,
+      after: filterableAfter,
+      reason: filterableAfter
+        ? 'builds a filter index over existing documents'
+        : 'drops the filter index; filters on this attribute stop working',
+    });
+  }
+
+  const ftsBefore = ftsConfigOf(before);
+  const ftsAfter = ftsConfigOf(after);
+  if (!ftsBefore !== !ftsAfter) {
+    changes.push({
+      attribute: name,
+      kind: 'full_text_search',
+      impact: ftsAfter ? 'rebuild' : 'safe',
+      before: !!ftsBefore,
+      after: !!ftsAfter,
+      reason: ftsAfter
+        ? 'builds a BM25 index over existing documents'
+        : 'drops the BM25 index; full-text queries on this attribute stop working',
+    });
+  } else if (ftsBefore && ftsAfter) {
+    if ((ftsBefore.tokenizer ?? undefined) !== (ftsAfter.tokenizer ?? undefined)) {
+      changes.push({
+        attribute: name,
+        kind: 'tokenizer',
+        impact: 'rebuild',
+        before: ftsBefore.tokenizer,
+        after: ftsAfter.tokenizer,
+        reason: 're-tokenizes every document and rebuilds the BM25 index',
+      });
+    }
+
+    const keys = new Set([...Object.keys(ftsBefore), ...Object.keys(ftsAfter)]);
+    keys.delete('tokenizer');
+    const changedKeys = Array.from(keys)
+      .sort()
+      .filter(key => (ftsBefore as Record<string, unknown>)[key] !== (ftsAfter as Record<string, unknown>)[key]);
+    if (changedKeys.length > 0) {
+      changes.push({
+        attribute: name,
+        kind: 'full_text_settings',
+        impact: 'rebuild',
+        before: Object.fromEntries(changedKeys.map(key => [key, (ftsBefore as Record<string, unknown>)[key]])),
+        after: Object.fromEntries(changedKeys.map(key => [key, (ftsAfter as Record<string, unknown>)[key]])),
+        reason: `changing ${changedKeys.join(', ')} rebuilds the BM25 index`,
+      });
+    }
+  }
+
+  return changes;
+}
+
+export function diffSchemas(current: NamespaceSchema, pending: NamespaceSchema): SchemaDiff {
+  const changes: SchemaChange[] = [];
+  const update: NamespaceSchema = {};
+  const names = Array.from(new Set([...Object.keys(current), ...Object.keys(pending)])).sort();
+
+  for (const name of names) {
+    const before = current[name];
+    const after = pending[name];
+
+    if (!before && after) {
+      changes.push({
+        attribute: name,
+        kind: 'added',
+        impact: 'safe',
+        after: typeOf(after),
+        reason: 'new attribute; no existing documents to index',
+      });
+      update[name] = after;
+      continue;
+    }
+
+    if (before && !after) {
+      changes.push({
+        attribute: name,
+        kind: 'removed',
+        impact: 'ignored',
+        before: typeOf(before),
+        reason: 'schema updates cannot remove attributes; the attribute stays until its values are deleted',
+      });
+      continue;
+    }
+
+    const attributeChanges = diffAttribute(name, before, after);
+    changes.push(...attributeChanges);
+    if (attributeChanges.length > 0 && !attributeChanges.some(change => change.impact === 'rejected')) {
+      update[name] = after;
+    }
+  }
+
+  return {
+    changes,
+    hasRebuild: changes.some(change => change.impact === 'rebuild'),
+    hasRejected: changes.some(change => change.impact === 'rejected'),
+    update,
+  };
+}
+
+export function formatSchemaValue(value: unknown): string {
+  return value === undefined ? 'default' : JSON.stringify(value);
+}
@@ -12,6 +12,7 @@ import type {
   AggregationConfig,
 } from '@/types/unifiedQuery';
 import type { Filter as TurbopufferFilter } from '@/types/document';
+import { convertSimpleFilter as convertFilterCondition } from './filterConversion';
 
 // ============================================================================
 // UnifiedQuery -> Turbopuffer API
@@ -180,7 +181,8 @@ function convertFilterNode(node: FilterNode): TurbopufferFilter {
 }
 
 /**
- * Convert simple filter to Turbopuffer operator format
+ * Convert simple filter to Turbopuffer operator format, with the same
+ * conversion the filter bar uses
  */
 function convertSimpleFilter(node: FilterNode): TurbopufferFilter {
   const { attribute, operator, value } = node;
@@ -189,54 +191,7 @@ function convertSimpleFilter(node: FilterNode): TurbopufferFilter {
     return ['id', 'Eq', 'invalid'] as TurbopufferFilter;
   }
 
-  switch (operator) {
-    case 'equals':
-      return [attribute, 'Eq', value];
-    case 'not_equals':
-      return [attribute, 'NotEq', value];
-    case 'contains':
-      return [attribute, 'Glob', `*${value}*`];
-    case 'not_contains':
-      return [attribute, 'NotGlob', `*${value}*`];
-    case 'contains_any':
-      return [attribute, 'ContainsAny', value];
-    case 'not_contains_any':
-      return [attribute, 'NotContainsAny', value];
-    case 'greater':
-      return [attribute, 'Gt', value];
-    case 'greater_or_equal':
-      return [attribute, 'Gte', value];
-    case 'less':
-      return [attribute, 'Lt', value];
-    case 'less_or_equal':
-      return [attribute, 'Lte', value];
-    case 'in':
-      return [attribute, 'In', value];
-    case 'not_in':
-      return [attribute, 'NotIn', value];
-    case 'matches':
-      return [attribute, 'Glob', value];
-    case 'not_matches':
-      return [attribute, 'NotGlob', value];
-    case 'imatches':
-      return [attribute, 'IGlob', value];
-    case 'not_imatches':
-      return [attribute, 'NotIGlob', value];
-    case 'any_lt':
-      return [attribute, 'AnyLt', value];
-    case 'any_lte':
-      return [attribute, 'AnyLte', value];
-    case 'any_gt':
-      return [attribute, 'AnyGt', value];
-    case 'any_gte':
-      return [attribute, 'AnyGte', value];
-    case 'regex':
-      return [attribute, 'Regex', value];
-    case 'contains_all_tokens':
-      return [attribute, 'ContainsAllTokens', value];
-    default:
-      return [attribute, 'Eq', value];
-  }
+  return convertFilterCondition({ attribute, operator, value }, []) ?? [attribute, 'Eq', value];
 }
 
 /**
@@ -0,0 +1,206 @@
+/**
+ * Readers for the file formats benchmark query sets come in: NumPy `.npy`,
+ * the TEXMEX `.fvecs`/`.ivecs`/`.bvecs` family and JSON Lines. Query files
+ * yield vectors; ground-truth files yield the expected neighbour ids for each
+ * query, in the same order.
+ */
+
+type DocumentId = string | number;
+
+export interface QueryVectorSet {
+  vectors: number[][];
+  labels: string[]; // The JSONL `id` when there is one, else the row number
+}
+
+export const QUERY_FILE_EXTENSIONS = ['.npy', '.fvecs', '.bvecs', '.jsonl', '.ndjson'];
+export const GROUND_TRUTH_FILE_EXTENSIONS = ['.npy', '.ivecs', '.jsonl', '.ndjson'];
+
+const VECTOR_KEYS = ['vector', 'embedding', 'values', 'query'];
+const NEIGHBOR_KEYS = ['neighbors', 'ids', 'ground_truth', 'results'];
+
+const extensionOf = (fileName: string) => {
+  const dot = fileName.lastIndexOf('.');
+  return dot >= 0 ? fileName.slice(dot).toLowerCase() : '';
+};
+
+// IEEE 754 half precision, which DataView can't read directly
+function readFloat16(view: DataView, offset: number, littleEndian: boolean): number {
+  const half = view.getUint16(offset, littleEndian);
+  const sign = half & 0x8000 ? -1 : 1;
+  const exponent = (half >> 10) & 0x1f;
+  const fraction = half & 0x3ff;
+  if (exponent === 0) return sign * 2 ** -14 * (fraction / 1024);
+  if (exponent === 0x1f) return fraction ? NaN : sign * Infinity;
+  return sign * 2 ** (exponent - 15) * (1 + fraction / 1024);
+}
+
+type NpyReader = (view: DataView, offset: number, littleEndian: boolean) => number;
+
+const NPY_READERS: Record<string, [number, NpyReader]> = {
+  f2: [2, readFloat16],
+  f4: [4, (view, offset, le) => view.getFloat32(offset, le)],
+  f8: [8, (view, offset, le) => view.getFloat64(offset, le)],
+  i1: [1, (view, offset) => view.getInt8(offset)],
+  i2: [2, (view, offset, le) => view.getInt16(offset, le)],
+  i4: [4, (view, offset, le) => view.getInt32(offset, le)],
+  i8: [8, (view, offset, le) => Number(view.getBigInt64(offset, le))],
+  u1: [1, (view, offset) => view.getUint8(offset)],
+  u2: [2, (view, offset, le) => view.getUint16(offset, le)],
+  u4: [4, (view, offset, le) => view.getUint32(offset, le)],
+  u8: [8, (view, offset, le) => Number(view.getBigUint64(offset, le))],
+};
+
+/**
+ * Rows of a one- or two-dimensional numeric `.npy` array. A one-dimensional
+ * array is a single row.
+ */
+export function parseNpy(buffer: ArrayBuffer): number[][] {
+  const bytes = new Uint8Array(buffer);
+  if (bytes[0] !== 0x93 || new TextDecoder().decode(bytes.slice(1, 6)) !== 'NUMPY') {
+    throw new Error('Not a .npy file');
+  }
+
+  const view = new DataView(buffer);
+  const major = bytes[6];
+  const headerLength = major === 1 ? view.getUint16(8, true) : view.getUint32(8, true);
+  const headerStart = major === 1 ? 10 : 12;
+  const header = new TextDecoder().decode(bytes.slice(headerStart, headerStart + headerLength));
+
+  const descr = /'descr'\s*:\s*'([<>|=])([a-z]\d+)'/.exec(header);
+  const fortranOrder = /'fortran_order'\s*:\s*True/.test(header);
+  const shapeMatch = /'shape'\s*:\s*\(([^)]*)\)/.exec(header);
+  if (!descr || !shapeMatch) throw new Error('Unreadable .npy header');
+  const reader = NPY_READERS[descr[2]];
+  if (!reader) throw new Error(`Unsupported .npy dtype '${descr[1]}${descr[2]}'`);
+
+  const shape = shapeMatch[1].split(',').map((s) => s.trim()).filter(Boolean).map(Number);
+  if (shape.length === 0 || shape.length > 2) {
+    throw new Error(`Expected a 1- or 2-dimensional array, got shape (${shape.join(', ')})`);
+  }
+  const [rows, columns] = shape.length === 1 ? [1, shape[0]] : shape;
+  const [size, read] = reader;
+  const littleEndian = descr[1] !== '>';
+  const dataStart = headerStart + headerLength;
+  if (dataStart + rows * columns * size > buffer.byteLength) throw new Error('The .npy file is truncated');
+
+  return Array.from({ length: rows }, (_, row) =>
+    Array.from({ length: columns }, (_, column) => {
+      const index = fortranOrder ? column * rows + row : row * columns + column;
+      return read(view, dataStart + index * size, littleEndian);
+    })
+  );
+}
+
+/**
+ * Rows of a TEXMEX vector file: each record is a little-endian int32
+ * dimension followed by that many float32 (`f`), int32 (`i`) or uint8 (`b`)
+ * values.
+ */
+export function parseVecs(buffer: ArrayBuffer, kind: 'f' | 'i' | 'b'): number[][] {
+  const view = new DataView(buffer);
+  const size = kind === 'b' ? 1 : 4;
+  const rows: number[][] = [];
+  let offset = 0;
+  while (offset < buffer.byteLength) {
+    if (offset + 4 > buffer.byteLength) throw new Error(`The .${kind}vecs file is truncated`);
+    const dimensions = view.getInt32(offset, true);
+    offset += 4;
+    if (dimensions <= 0 || offset + dimensions * size > buffer.byteLength) {
+      throw new Error(`The .${kind}vecs file is truncated or corrupt at record ${rows.length + 1}`);
+    }
+    const row = new Array<number>(dimensions);
+    for (let i = 0; i < dimensions; i++) {
+      row[i] = kind === 'f'
+        ? view.getFloat32(offset + i * 4, true)
+        : kind === 'i' ? view.getInt32(offset + i * 4, true) : view.getUint8(offset + i);
+    }
+    rows.push(row);
+    offset += dimensions * size;
+  }
+  return rows;
+}
+
+function parseJsonLines(text: string): unknown[] {
+  return text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line, index) => {
+      try {
+        return JSON.parse(line);
+      } catch {
+        throw new Error(`Line ${index + 1} is not valid JSON`);
+      }
+    });
+}
+
+const isNumberArray = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.length > 0 && value.every((v) => typeof v === 'number');
+
+/**
+ * Query vectors from a `.jsonl` file: each line is a number array or an
+ * object with the vector under `vector`, `embedding`, `values` or `query`.
+ */
+export function parseQueryJsonl(text: string): QueryVectorSet {
+  const set: QueryVectorSet = { vectors: [], labels: [] };
+  parseJsonLines(text).forEach((entry, index) => {
+    const record = entry !== null && typeof entry === 'object' && !Array.isArray(entry)
+      ? (entry as Record<string, unknown>)
+      : null;
+    const vector = record ? VECTOR_KEYS.map((key) => record[key]).find(isNumberArray) : entry;
+    if (!isNumberArray(vector)) throw new Error(`Line ${index + 1} has no vector`);
+    set.vectors.push(vector);
+    set.labels.push(record?.id !== undefined ? String(record.id) : String(index));
+  });
+  return set;
+}
+
+export async function readQueryVectorFile(file: File): Promise<QueryVectorSet> {
+  const extension = extensionOf(file.name);
+  let vectors: number[][];
+  if (extension === '.npy') {
+    vectors = parseNpy(await file.arrayBuffer());
+  } else if (extension === '.fvecs' || extension === '.bvecs') {
+    vectors = parseVecs(await file.arrayBuffer(), extension === '.fvecs' ? 'f' : 'b');
+  } else if (extension === '.jsonl' || extension === '.ndjson') {
+    return parseQueryJsonl(await file.text());
+  } else {
+    throw new Error(`Unsupported query file '${file.name}'; use ${QUERY_FILE_EXTENSIONS.join(', ')}`);
+  }
+  return { vectors, labels: vectors.map((_, index) => String(index)) };
+}
+
+/**
+ * Expected neighbour ids per query. `.npy` and `.ivecs` hold integer ids;
+ * JSONL lines are id arrays or objects with them under `neighbors`, `ids`,
+ * `ground_truth` or `results`.
+ */
+export async function readGroundTruthFile(file: File): Promise<DocumentId[][]> {
+  const extension = extensionOf(file.name);
+  if (extension === '.npy') return parseNpy(await file.arrayBuffer());
+  if (extension === '.ivecs') return parseVecs(await file.arrayBuffer(), 'i');
+  if (extension === '.jsonl' || extension === '.ndjson') {
+    return parseJsonLines(await file.text()).map((entry, index) => {
+      const ids = Array.isArray(entry)
+        ? entry
+        : entry !== null && typeof entry === 'object'
+          ? NEIGHBOR_KEYS.map((key) => (entry as Record<string, unknown>)[key]).find(Array.isArray)
+          : undefined;
+      if (!ids) throw new Error(`Line ${index + 1} has no neighbour ids`);
+      return ids as DocumentId[];
+    });
+  }
+  throw new Error(`Unsupported ground-truth file '${file.name}'; use ${GROUND_TRUTH_FILE_EXTENSIONS.join(', ')}`);
+}
+
+/**
+ * The share of the first `k` expected neighbours that appear in the first `k`
+ * results. Ids are compared as strings, since ground-truth files store
+ * integer ids that may have been upserted as strings.
+ */
+export function overlapAtK(resultIds: DocumentId[], truthIds: DocumentId[], k: number): number | null {
+  const expected = new Set(truthIds.slice(0, k).map(String));
+  if (expected.size === 0) return null;
+  const found = resultIds.slice(0, k).filter((id) => expected.has(String(id))).length;
+  return found / expected.size;
+}
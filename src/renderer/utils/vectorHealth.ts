@@ -0,0 +1,252 @@
+/**
+ * Checks a sample of stored vectors for the mistakes embedding pipelines make
+ * without failing: wrong dimensions, NaN or Inf values, zero vectors, mixed
+ * normalization and the same vector written under several ids.
+ *
+ * NaN and Inf have no JSON form, so vectors read through the API carry them
+ * as null elements. Those count as non-finite, though NaN and Inf can no longer
+ * be told apart. A vector that comes back null as a whole counts as missing.
+ */
+
+import type { AttributeSchema } from '@/types/namespace';
+
+type DocumentId = string | number;
+
+export type DistanceMetric = 'cosine_distance' | 'euclidean_squared';
+
+export type VectorHealthCheck = 'missing' | 'dimension' | 'non_finite' | 'near_zero' | 'duplicate';
+
+export interface VectorHealthOptions {
+  expectedDimensions?: number | null; // From the schema; the most common width otherwise
+  nearZeroNorm?: number;
+  normalizedTolerance?: number; // How far from 1 a norm may be and still count as normalized
+  histogramBins?: number;
+}
+
+export interface NormStats {
+  min: number;
+  max: number;
+  mean: number;
+  stdDev: number;
+  p5: number;
+  p50: number;
+  p95: number;
+  normalizedFraction: number;
+  histogram: { start: number; end: number; count: number }[];
+}
+
+export interface VectorHealthReport {
+  sampled: number;
+  expectedDimensions: number | null;
+  dimensionSource: 'schema' | 'sample';
+  dimensionCounts: { dimensions: number; count: number }[];
+  missing: DocumentId[];
+  dimensionMismatches: { id: DocumentId; dimensions: number }[];
+  nonFinite: { id: DocumentId; nanCount: number; infCount: number; nullCount: number }[]; // nullCount: NaN or Inf sent as JSON
+  nearZero: { id: DocumentId; norm: number }[];
+  duplicates: DocumentId[][]; // Groups of ids sharing one vector
+  norms: NormStats | null;
+}
+
+export const VECTOR_HEALTH_CHECK_LABELS: Record<VectorHealthCheck, string> = {
+  missing: 'Missing vector',
+  dimension: 'Dimension mismatch',
+  non_finite: 'NaN or Inf values',
+  near_zero: 'Zero or near-zero norm',
+  duplicate: 'Duplicate vectors',
+};
+
+const DEFAULT_NEAR_ZERO_NORM = 1e-6;
+const DEFAULT_NORMALIZED_TOLERANCE = 1e-3;
+
+/**
+ * The distance metric recorded on a vector attribute, when the schema
+ * response includes one.
+ */
+export function distanceMetricOf(schema: AttributeSchema | undefined): DistanceMetric | null {
+  const type = schema?.type as { ann?: unknown } | string | undefined;
+  if (!type || typeof type !== 'object' || typeof type.ann !== 'object' || type.ann === null) return null;
+  const metric = (type.ann as { distance_metric?: unknown }).distance_metric;
+  return metric === 'cosine_distance' || metric === 'euclidean_squared' ? metric : null;
+}
+
+const quantile = (sorted: number[], q: number): number => {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+function normStats(norms: number[], tolerance: number, bins: number): NormStats | null {
+  if (norms.length === 0) return null;
+  const sorted = [...norms].sort((a, b) => a - b);
+  const mean = norms.reduce((sum, n) => sum + n, 0) / norms.length;
+  const variance = norms.reduce((sum, n) => sum + (n - mean) ** 2, 0) / norms.length;
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+
+  const width = (max - min) / bins || 1;
+  const histogram = Array.from({ length: max > min ? bins : 1 }, (_, i) => ({
+    start: min + i * width,
+    end: max > min ? min + (i + 1) * width : max,
+    count: 0,
+  }));
+  norms.forEach((norm) => {
+    histogram[Math.min(histogram.length - 1, Math.floor((norm - min) / width))].count++;
+  });
+
+  return {
+    min,
+    max,
+    mean,
+    stdDev: Math.sqrt(variance),
+    p5: quantile(sorted, 0.05),
+    p50: quantile(sorted, 0.5),
+    p95: quantile(sorted, 0.95),
+    normalizedFraction: norms.filter((norm) => Math.abs(norm - 1) <= tolerance).length / norms.length,
+    histogram,
+  };
+}
+
+// FNV-1a over the float bits; collisions are settled by comparing values
+const bits = new Float64Array(1);
+const words = new Uint32Array(bits.buffer);
+function hashVector(vector: number[]): string {
+  let h1 = 0x811c9dc5;
+  let h2 = 0x01000193;
+  for (const value of vector) {
+    bits[0] = value;
+    h1 = Math.imul(h1 ^ words[0], 0x01000193);
+    h2 = Math.imul(h2 ^ words[1], 0x811c9dc5);
+  }
+  return `${vector.length}:${h1 >>> 0}:${h2 >>> 0}`;
+}
+
+const sameVector = (a: number[], b: number[]) => a.length === b.length && a.every((value, i) => value === b[i]);
+
+function findDuplicates(rows: { id: DocumentId; vector: number[] }[]): DocumentId[][] {
+  const buckets = new Map<string, { id: DocumentId; vector: number[] }[]>();
+  rows.forEach((row) => {
+    const key = hashVector(row.vector);
+    const bucket = buckets.get(key);
+    if (bucket) bucket.push(row);
+    else buckets.set(key, [row]);
+  });
+
+  const groups: DocumentId[][] = [];
+  buckets.forEach((bucket) => {
+    let remaining = bucket;
+    while (remaining.length > 1) {
+      const [first, ...rest] = remaining;
+      const same = rest.filter((row) => sameVector(row.vector, first.vector));
+      if (same.length > 0) groups.push([first.id, ...same.map((row) => row.id)]);
+      remaining = rest.filter((row) => !same.includes(row));
+    }
+  });
+  return groups.sort((a, b) => b.length - a.length);
+}
+
+export function analyzeVectorHealth(
+  rows: { id: DocumentId; vector: unknown }[],
+  options: VectorHealthOptions = {}
+): VectorHealthReport {
+  const nearZeroNorm = options.nearZeroNorm ?? DEFAULT_NEAR_ZERO_NORM;
+  const tolerance = options.normalizedTolerance ?? DEFAULT_NORMALIZED_TOLERANCE;
+
+  const missing: DocumentId[] = [];
+  const vectors: { id: DocumentId; vector: number[] }[] = [];
+  const widths = new Map<number, number>();
+  rows.forEach(({ id, vector }) => {
+    if (!Array.isArray(vector) || vector.length === 0 || vector.some((v) => typeof v !== 'number' && v !== null)) {
+      missing.push(id);
+      return;
+    }
+    vectors.push({ id, vector });
+    widths.set(vector.length, (widths.get(vector.length) ?? 0) + 1);
+  });
+
+  const dimensionCounts = [...widths.entries()]
+    .map(([dimensions, count]) => ({ dimensions, count }))
+    .sort((a, b) => b.count - a.count);
+  const expectedDimensions = options.expectedDimensions ?? dimensionCounts[0]?.dimensions ?? null;
+
+  const dimensionMismatches: VectorHealthReport['dimensionMismatches'] = [];
+  const nonFinite: VectorHealthReport['nonFinite'] = [];
+  const nearZero: VectorHealthReport['nearZero'] = [];
+  const norms: number[] = [];
+  const healthy: { id: DocumentId; vector: number[] }[] = [];
+
+  vectors.forEach(({ id, vector }) => {
+    if (expectedDimensions !== null && vector.length !== expectedDimensions) {
+      dimensionMismatches.push({ id, dimensions: vector.length });
+      return;
+    }
+    let nanCount = 0;
+    let infCount = 0;
+    let nullCount = 0;
+    let squares = 0;
+    for (const value of vector) {
+      if (value === null) nullCount++;
+      else if (Number.isNaN(value)) nanCount++;
+      else if (!Number.isFinite(value)) infCount++;
+      else squares += value * value;
+    }
+    if (nanCount > 0 || infCount > 0 || nullCount > 0) {
+      nonFinite.push({ id, nanCount, infCount, nullCount });
+      return;
+    }
+    const norm = Math.sqrt(squares);
+    norms.push(norm);
+    if (norm <= nearZeroNorm) nearZero.push({ id, norm });
+    healthy.push({ id, vector });
+  });
+
+  return {
+    sampled: rows.length,
+    expectedDimensions,
+    dimensionSource: options.expectedDimensions ? 'schema' : 'sample',
+    dimensionCounts,
+    missing,
+    dimensionMismatches,
+    nonFinite,
+    nearZero,
+    duplicates: findDuplicates(healthy),
+    norms: normStats(norms, tolerance, options.histogramBins ?? 20),
+  };
+}
+
+/**
+ * The ids behind one check, for listing and for turning into a filter.
+ */
+export function idsForCheck(report: VectorHealthReport, check: VectorHealthCheck): DocumentId[] {
+  switch (check) {
+    case 'missing':
+      return report.missing;
+    case 'dimension':
+      return report.dimensionMismatches.map((entry) => entry.id);
+    case 'non_finite':
+      return report.nonFinite.map((entry) => entry.id);
+    case 'near_zero':
+      return report.nearZero.map((entry) => entry.id);
+    case 'duplicate':
+      return report.duplicates.flat();
+  }
+}
+
+/**
+ * A one-line reading of the norm distribution against the distance metric.
+ * Cosine distance ignores length, so mixed norms there usually mean two
+ * pipelines wrote the namespace; euclidean distance is dominated by them.
+ */
+export function describeNorms(norms: NormStats, metric: DistanceMetric | null): string {
+  const percent = Math.round(norms.normalizedFraction * 100);
+  if (percent === 100) return 'All vectors are unit length.';
+  if (percent === 0) {
+    return metric === 'euclidean_squared'
+      ? 'No vectors are unit length; euclidean distances will follow vector length as much as direction.'
+      : 'No vectors are unit length.';
+  }
+  return metric === 'cosine_distance'
+    ? `${percent}% of vectors are unit length. Cosine distance ignores length, but a mix usually means more than one embedding pipeline wrote this namespace.`
+    : `${percent}% of vectors are unit length; the rest will rank differently under euclidean distance.`;
+}
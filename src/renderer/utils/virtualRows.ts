@@ -0,0 +1,87 @@
+/**
+ * Windowing math for long lists whose rows may differ in height. Rows that
+ * have not been measured yet count at an estimated height, so offsets settle
+ * as rows scroll into view and get measured.
+ */
+
+export interface VisibleRange {
+  start: number;
+  /** Exclusive */
+  end: number;
+  /** Space above the first rendered row */
+  paddingTop: number;
+  /** Space below the last rendered row */
+  paddingBottom: number;
+}
+
+/**
+ * Top offset of every row, plus the total height as the final entry.
+ */
+export function buildRowOffsets(
+  count: number,
+  heightOf: (index: number) => number | undefined,
+  estimatedHeight: number
+): Float64Array {
+  const offsets = new Float64Array(count + 1);
+  for (let i = 0; i < count; i++) {
+    offsets[i + 1] = offsets[i] + (heightOf(i) ?? estimatedHeight);
+  }
+  return offsets;
+}
+
+/** Index of the row covering `y` */
+export function rowAtOffset(offsets: Float64Array, y: number): number {
+  const count = offsets.length - 1;
+  if (count <= 0) return 0;
+  let low = 0;
+  let high = count - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (offsets[mid] <= y) low = mid;
+    else high = mid - 1;
+  }
+  return low;
+}
+
+/** Rows intersecting the viewport, widened by `overscan` rows on each side */
+export function findVisibleRange(
+  offsets: Float64Array,
+  scrollTop: number,
+  viewportHeight: number,
+  overscan = 8
+): VisibleRange {
+  const count = offsets.length - 1;
+  if (count <= 0) return { start: 0, end: 0, paddingTop: 0, paddingBottom: 0 };
+
+  const first = rowAtOffset(offsets, Math.max(0, scrollTop));
+  const last = rowAtOffset(offsets, Math.max(0, scrollTop + viewportHeight - 1));
+  const start = Math.max(0, first - overscan);
+  const end = Math.min(count, last + 1 + overscan);
+  return {
+    start,
+    end,
+    paddingTop: offsets[start],
+    paddingBottom: offsets[count] - offsets[end],
+  };
+}
+
+/**
+ * The scroll position that brings row `index` fully into view while moving as
+ * little as possible. `headerHeight` is the part of the viewport covered by a
+ * sticky header.
+ */
+export function scrollTopToReveal(
+  offsets: Float64Array,
+  index: number,
+  scrollTop: number,
+  viewportHeight: number,
+  headerHeight = 0
+): number {
+  const top = offsets[index];
+  const bottom = offsets[index + 1];
+  if (top < scrollTop) return top;
+  if (bottom > scrollTop + viewportHeight - headerHeight) {
+    return Math.max(0, bottom - viewportHeight + headerHeight);
+  }
+  return scrollTop;
+}
@@ -0,0 +1,31 @@
+import { kMeans } from '../utils/kmeans';
+import type { KMeansOptions, KMeansResult } from '../utils/kmeans';
+
+export interface KMeansRequest {
+  vectors: number[][];
+  k: number;
+  options: Omit<KMeansOptions, 'onProgress'>;
+}
+
+export type KMeansResponse =
+  | { type: 'progress'; fraction: number }
+  | { type: 'done'; result: KMeansResult }
+  | { type: 'error'; message: string };
+
+// The project compiles against the DOM lib, where `self` is a Window
+const ctx = self as unknown as Worker;
+
+// One clustering per worker; the view terminates the worker to cancel
+ctx.onmessage = (event: MessageEvent<KMeansRequest>) => {
+  const { vectors, k, options } = event.data;
+  const post = (response: KMeansResponse) => ctx.postMessage(response);
+  try {
+    const result = kMeans(vectors, k, {
+      ...options,
+      onProgress: (fraction) => post({ type: 'progress', fraction }),
+    });
+    post({ type: 'done', result });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,31 @@
+import { project } from '../utils/projection';
+import type { Point2D, ProjectionMethod, ProjectionOptions } from '../utils/projection';
+
+export interface ProjectionRequest {
+  method: ProjectionMethod;
+  vectors: number[][];
+  options: Omit<ProjectionOptions, 'onProgress'>;
+}
+
+export type ProjectionResponse =
+  | { type: 'progress'; fraction: number }
+  | { type: 'done'; points: Point2D[] }
+  | { type: 'error'; message: string };
+
+// The project compiles against the DOM lib, where `self` is a Window
+const ctx = self as unknown as Worker;
+
+// One projection per worker; the view terminates the worker to cancel
+ctx.onmessage = (event: MessageEvent<ProjectionRequest>) => {
+  const { method, vectors, options } = event.data;
+  const post = (response: ProjectionResponse) => ctx.postMessage(response);
+  try {
+    const points = project(method, vectors, {
+      ...options,
+      onProgress: (fraction) => post({ type: 'progress', fraction }),
+    });
+    post({ type: 'done', points });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
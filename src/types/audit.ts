@@ -0,0 +1,58 @@
+export type AuditOperation =
+  | 'upsert'
+  | 'patch'
+  | 'delete'
+  | 'delete_by_filter'
+  | 'schema_update'
+  | 'namespace_create'
+  | 'namespace_delete'
+  | 'namespace_copy'
+  | 'import'
+  | 'migration';
+
+export type AuditOutcome = 'success' | 'failure';
+
+export type AuditExportFormat = 'jsonl' | 'csv';
+
+export interface AuditEventInput {
+  connectionId: string;
+  namespaceId: string;
+  operation: AuditOperation;
+  summary: string; // e.g. "Delete 12 documents"
+  payload?: Record<string, unknown>; // Ids, filter and attribute names, trimmed to a readable size
+  rowCount?: number; // Rows the server reported as affected
+  startedAt: number;
+  durationMs: number;
+  outcome: AuditOutcome;
+  error?: string;
+}
+
+export interface AuditEntry extends AuditEventInput {
+  id: string;
+  connectionName?: string;
+  operator: string; // OS user running the app
+}
+
+export interface AuditLogFilter {
+  connectionId?: string;
+  namespaceId?: string; // Substring match
+  operations?: AuditOperation[];
+  outcome?: AuditOutcome;
+  from?: number; // Inclusive start time
+  to?: number; // Exclusive end time
+  search?: string; // Matches summary, error, operator and payload
+}
+
+export interface AuditLogPage {
+  entries: AuditEntry[]; // Newest first
+  total: number; // Matching entries, including ones past the limit
+}
+
+export interface AuditAPI {
+  recordAuditEvent: (event: AuditEventInput) => Promise<void>;
+  queryAuditLog: (filter: AuditLogFilter, limit?: number) => Promise<AuditLogPage>;
+  exportAuditLog: (
+    filter: AuditLogFilter,
+    format: AuditExportFormat
+  ) => Promise<{ canceled: boolean; filePath: string | null; count: number }>;
+}
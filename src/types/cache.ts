@@ -0,0 +1,31 @@
+import type { DocumentsQueryResponse } from './document';
+
+export type QueryPerformance = NonNullable<DocumentsQueryResponse['performance']>;
+export type CacheTemperature = QueryPerformance['cache_temperature'];
+
+// Where a recorded query came from
+export type CacheSampleSource = 'query' | 'multi_query' | 'warm_probe';
+
+export interface CacheSample {
+  timestamp: number;
+  temperature: CacheTemperature;
+  hitRatio: number;
+  serverTotalMs: number;
+  source: CacheSampleSource;
+}
+
+export type CacheWarmState =
+  | 'queued'
+  | 'warming'
+  | 'verifying'
+  | 'warm'        // A probe query came back warm or hot
+  | 'unverified'  // Hint accepted but the namespace still reported cold
+  | 'failed';
+
+export interface CacheWarmStatus {
+  state: CacheWarmState;
+  temperature?: CacheTemperature;
+  message?: string;
+  startedAt: number;
+  finishedAt?: number;
+}
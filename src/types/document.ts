@@ -2,9 +2,26 @@ export interface Document {
   id: string | number;
   vector?: number[];
   $dist?: number;
+  $fusion?: FusionInfo; // Set on rows produced by a fused multi-query
   attributes?: Record<string, any>;
 }
 
+export type RankFusionMethod = 'reciprocal_rank' | 'weighted';
+
+// Position and raw score of a document within one subquery of a multi-query
+export interface SubqueryRank {
+  label: string;
+  rank: number | null; // 1-based, null when the subquery did not return the document
+  score: number | null;
+}
+
+export interface FusionInfo {
+  method: RankFusionMethod;
+  rank: number; // 1-based position after fusion
+  score: number;
+  subqueries: SubqueryRank[];
+}
+
 export interface DocumentsQueryParams {
   rank_by?: RankBy;
   top_k?: number;
@@ -16,7 +33,6 @@ export interface DocumentsQueryParams {
   consistency?: {
     level: 'strong' | 'eventual';
   };
-  offset?: number;
 }
 
 export type RankBy = 
@@ -78,6 +94,24 @@ export interface DocumentsQueryResponse {
   };
 }
 
+export interface DocumentsMultiQueryParams {
+  queries: DocumentsQueryParams[];
+  vector_encoding?: 'float' | 'base64';
+  consistency?: {
+    level: 'strong' | 'eventual';
+  };
+}
+
+export interface DocumentsMultiQueryResponse {
+  results: {
+    rows?: Document[];
+    aggregations?: Record<string, any>;
+    aggregation_groups?: AggregationGroup[];
+  }[];
+  billing?: DocumentsQueryResponse['billing'];
+  performance?: DocumentsQueryResponse['performance'];
+}
+
 export interface DocumentWriteParams {
   upsert_columns?: Record<string, any[]>;
   upsert_rows?: Record<string, any>[];
@@ -85,6 +119,10 @@ export interface DocumentWriteParams {
   patch_rows?: Record<string, any>[];
   deletes?: (string | number)[];
   delete_by_filter?: Filter;
+  // Conditions are evaluated against the stored document; rows that fail are skipped
+  upsert_condition?: Filter;
+  patch_condition?: Filter;
+  delete_condition?: Filter;
   distance_metric?: 'cosine_distance' | 'euclidean_squared';
   copy_from_namespace?: string;
   schema?: Record<string, any>;
@@ -97,6 +135,17 @@ export interface DocumentWriteParams {
 
 export interface DocumentWriteResponse {
   rows_affected?: number;
+  rows_upserted?: number;
+  rows_patched?: number;
+  rows_deleted?: number;
+}
+
+// How a single-document edit is written. A condition makes the write fail
+// instead of overwriting a document that changed since it was loaded.
+export interface ConditionalWriteOptions {
+  mode?: 'patch' | 'upsert';
+  condition?: Filter;
+  removedAttributes?: string[]; // Upsert only: stored attributes to drop
 }
 
 export interface ExportFormat {
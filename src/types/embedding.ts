@@ -0,0 +1,41 @@
+export type EmbeddingProviderType = 'openai-compatible';
+
+export interface EmbeddingProviderConfig {
+  type: EmbeddingProviderType;
+  baseUrl: string; // e.g. https://api.openai.com/v1 or http://localhost:11434/v1
+  model: string;
+  dimensions?: number; // Sent to providers that can shorten embeddings
+  batchSize?: number; // Inputs per embeddings request
+  hasApiKey?: boolean; // Set when a key is stored; the key itself never leaves the main process
+}
+
+export interface EmbeddingConfigInput extends Omit<EmbeddingProviderConfig, 'hasApiKey'> {
+  apiKey?: string; // Omit to keep the stored key, empty string to remove it
+}
+
+export interface EmbeddingTestResult {
+  success: boolean;
+  message: string;
+  dimensions?: number;
+}
+
+export interface EmbeddingImportOptions {
+  sourceColumn: string; // Text column to embed
+  targetAttribute: string; // Vector attribute to fill, usually "vector"
+}
+
+export const EMBEDDING_PROVIDER_DEFAULTS: Record<EmbeddingProviderType, Omit<EmbeddingProviderConfig, 'type'>> = {
+  'openai-compatible': {
+    baseUrl: 'https://api.openai.com/v1',
+    model: 'text-embedding-3-small',
+    batchSize: 128,
+  },
+};
+
+export interface EmbeddingAPI {
+  getEmbeddingConfig: (connectionId: string) => Promise<EmbeddingProviderConfig | null>;
+  saveEmbeddingConfig: (connectionId: string, config: EmbeddingConfigInput) => Promise<EmbeddingProviderConfig>;
+  deleteEmbeddingConfig: (connectionId: string) => Promise<void>;
+  testEmbeddingConfig: (connectionId: string, config: EmbeddingConfigInput) => Promise<EmbeddingTestResult>;
+  embedTexts: (connectionId: string, texts: string[]) => Promise<number[][]>;
+}
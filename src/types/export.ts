@@ -0,0 +1,69 @@
+import type { Filter } from './document';
+
+export type StreamingExportFormat = 'ndjson' | 'csv' | 'parquet';
+
+/**
+ * - running: the main process is paging through the namespace
+ * - interrupted: the app quit or crashed while the job was running
+ * - failed: a request kept failing after retries
+ * Interrupted and failed jobs keep their checkpoint and can be resumed.
+ */
+export type ExportJobStatus = 'running' | 'completed' | 'failed' | 'canceled' | 'interrupted';
+
+export interface ExportJobOptions {
+  connectionId: string;
+  namespaceId: string;
+  format: StreamingExportFormat;
+  filters?: Filter | null;
+  includeVectors?: boolean;
+  pageSize?: number;
+}
+
+export interface ExportColumn {
+  name: string;
+  type: string; // Turbopuffer schema type, e.g. "string", "[]int", "[768]f32"
+}
+
+export interface ExportCheckpoint extends ExportJobOptions {
+  jobId: string;
+  filePath: string;
+  spoolPath: string | null; // Parquet jobs page into an NDJSON spool first
+  columns: ExportColumn[];
+  cursor: string | number | null; // Last id written
+  rowsWritten: number;
+  bytesWritten: number; // Bytes of the output (or spool) file covered by the checkpoint
+  totalRows: number | null;
+  status: ExportJobStatus;
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ExportProgress {
+  jobId: string;
+  namespaceId: string;
+  format: StreamingExportFormat;
+  filePath: string;
+  status: ExportJobStatus;
+  phase: 'fetching' | 'converting';
+  rowsWritten: number;
+  totalRows: number | null;
+  bytesWritten: number;
+  rowsPerSecond: number;
+  etaSeconds: number | null;
+  error?: string;
+}
+
+export interface ExportStartResult {
+  canceled: boolean;
+  jobId: string | null;
+  filePath: string | null;
+}
+
+export interface ExportAPI {
+  startExport: (options: ExportJobOptions) => Promise<ExportStartResult>;
+  resumeExport: (jobId: string) => Promise<void>;
+  cancelExport: (jobId: string) => Promise<void>;
+  listExportJobs: () => Promise<ExportCheckpoint[]>;
+  onExportProgress: (callback: (progress: ExportProgress) => void) => () => void;
+}
@@ -0,0 +1,7 @@
+import type { Writer } from 'hyparquet-writer';
+
+// The package's Node entry also exports fileWriter, but with
+// moduleResolution "node" TypeScript only reads its browser typings.
+declare module 'hyparquet-writer' {
+  export function fileWriter(filename: string): Writer;
+}
@@ -0,0 +1,61 @@
+import type { EmbeddingImportOptions } from './embedding';
+
+export type ImportFileFormat = 'ndjson' | 'csv' | 'parquet' | 'json';
+
+export type ImportJobStatus = 'running' | 'completed' | 'failed' | 'canceled';
+
+export interface ImportFilePreview {
+  filePath: string;
+  fileName: string;
+  format: ImportFileFormat;
+  fileSize: number;
+  columns: string[];
+  sampleRows: Record<string, unknown>[];
+}
+
+export interface ImportColumnMapping {
+  source: string;
+  target: string | null; // null skips the column
+  type?: string; // Schema type of the target attribute; inferred when omitted
+}
+
+export interface ImportJobOptions {
+  connectionId: string;
+  namespaceId: string;
+  filePath: string;
+  format: ImportFileFormat;
+  mapping: ImportColumnMapping[];
+  idColumn: string | null; // null generates ids
+  initialBatchSize?: number;
+  distanceMetric?: 'cosine_distance' | 'euclidean_squared';
+  embedding?: EmbeddingImportOptions; // Fill a vector attribute from a text column
+}
+
+export interface ImportRowError {
+  line: number; // 1-based line for NDJSON and CSV, row number for Parquet and JSON arrays
+  id?: string | number;
+  error: string;
+}
+
+export interface ImportProgress {
+  jobId: string;
+  filePath: string;
+  status: ImportJobStatus;
+  rowsRead: number;
+  rowsWritten: number;
+  rowsFailed: number;
+  bytesRead: number;
+  totalBytes: number;
+  batchSize: number;
+  errors: ImportRowError[]; // The first errors only; the full list is in the error log
+  errorLogPath: string | null;
+  error?: string;
+}
+
+export interface ImportAPI {
+  getPathForFile: (file: File) => string;
+  previewImportFile: (filePath: string) => Promise<ImportFilePreview>;
+  startImport: (options: ImportJobOptions) => Promise<string>;
+  cancelImport: (jobId: string) => Promise<void>;
+  onImportProgress: (callback: (progress: ImportProgress) => void) => () => void;
+}
@@ -0,0 +1,56 @@
+import type { Filter } from './document';
+
+export type MigrationJobStatus = 'running' | 'completed' | 'failed' | 'canceled';
+
+export type MigrationPhase = 'schema' | 'copying' | 'verifying' | 'done';
+
+export interface MigrationAttributeMapping {
+  source: string;
+  target: string | null; // null drops the attribute
+}
+
+export interface MigrationJobOptions {
+  sourceConnectionId: string;
+  sourceNamespaceId: string;
+  targetConnectionId: string;
+  targetNamespaceId: string;
+  filters?: Filter | null; // Only copy documents matching this filter
+  attributes?: MigrationAttributeMapping[]; // Attributes not listed are copied unchanged
+  applySchema?: boolean; // Defaults to true
+  distanceMetric?: 'cosine_distance' | 'euclidean_squared';
+  pageSize?: number;
+}
+
+export interface MigrationRowError {
+  id: string | number;
+  error: string;
+}
+
+export interface MigrationVerification {
+  sourceRows: number; // Documents read from the source
+  targetRows: number; // Documents counted in the target afterwards
+  sourceChecksum: string;
+  targetChecksum: string;
+  countsMatch: boolean;
+  checksumsMatch: boolean;
+}
+
+export interface MigrationProgress {
+  jobId: string;
+  status: MigrationJobStatus;
+  phase: MigrationPhase;
+  totalRows: number; // Matching source documents when the job started
+  rowsRead: number;
+  rowsWritten: number;
+  rowsFailed: number;
+  rowsVerified: number;
+  errors: MigrationRowError[]; // The first errors only
+  verification?: MigrationVerification;
+  error?: string;
+}
+
+export interface MigrationAPI {
+  startMigration: (options: MigrationJobOptions) => Promise<string>;
+  cancelMigration: (jobId: string) => Promise<void>;
+  onMigrationProgress: (callback: (progress: MigrationProgress) => void) => () => void;
+}
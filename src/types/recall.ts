@@ -0,0 +1,27 @@
+export interface RecallParams {
+  num: number; // Number of sampled queries
+  topK: number;
+  filters?: unknown | null; // Same syntax as query filters
+}
+
+export interface RecallResult {
+  avgRecall: number; // 0..1
+  avgAnnCount: number;
+  avgExhaustiveCount: number;
+}
+
+export interface RecallRun extends RecallResult {
+  id: string;
+  timestamp: number;
+  num: number;
+  topK: number;
+  filters: unknown | null;
+  durationMs: number;
+  approxRowCount?: number; // Namespace size when the run was made
+}
+
+export interface RecallAPI {
+  loadRecallHistory: (connectionId: string, namespaceId: string) => Promise<RecallRun[]>;
+  addRecallRun: (connectionId: string, namespaceId: string, run: RecallRun) => Promise<RecallRun[]>;
+  clearRecallHistory: (connectionId: string, namespaceId: string) => Promise<void>;
+}
@@ -88,7 +88,10 @@ export type FilterOperator =
   | 'any_gt'
   | 'any_gte'
   | 'regex'
-  | 'contains_all_tokens';
+  | 'array_contains'
+  | 'not_array_contains'
+  | 'contains_all_tokens'
+  | 'contains_token_sequence';
 
 /**
  * Filter node supporting logical operators (And, Or, Not)
@@ -105,6 +108,7 @@ export interface FilterNode {
 
   // Logical operator properties
   children?: FilterNode[];
+  collapsed?: boolean; // UI only: group is folded in the filter builder
 }
 
 // ============================================================================
@@ -0,0 +1,51 @@
+import type { Filter } from './document';
+
+export type JournaledWriteOperation =
+  | 'delete'
+  | 'deleteByFilter'
+  | 'update'
+  | 'patchRows'
+  | 'patchByFilter'
+  | 'upsert';
+
+// pending: captured, write not yet reported back (or the app closed mid-write)
+export type WriteJournalStatus = 'pending' | 'applied' | 'failed' | 'undone';
+
+export interface WriteSnapshotRequest {
+  connectionId: string;
+  namespaceId: string;
+  operation: JournaledWriteOperation;
+  summary: string; // e.g. "Delete 12 documents"
+  ids?: (string | number)[]; // Affected rows by id...
+  filter?: Filter | null; // ...or by filter
+}
+
+export interface WriteJournalEntry {
+  id: string;
+  connectionId: string;
+  namespaceId: string;
+  operation: JournaledWriteOperation;
+  summary: string;
+  timestamp: number;
+  ids?: (string | number)[];
+  filter?: Filter | null;
+  capturedRows: number; // Prior versions saved next to the journal
+  createdIds: (string | number)[]; // Upserted ids with no prior version; undo deletes them
+  status: WriteJournalStatus;
+  rowsAffected?: number;
+  error?: string;
+  undoneAt?: number;
+  rowsRestored?: number;
+}
+
+export interface WriteJournalAPI {
+  captureWriteSnapshot: (request: WriteSnapshotRequest) => Promise<WriteJournalEntry>;
+  completeWriteJournalEntry: (
+    connectionId: string,
+    entryId: string,
+    result: { rowsAffected?: number; error?: string }
+  ) => Promise<WriteJournalEntry>;
+  listWriteJournal: (connectionId: string) => Promise<WriteJournalEntry[]>;
+  undoWriteJournalEntry: (connectionId: string, entryId: string) => Promise<WriteJournalEntry>;
+  clearWriteJournal: (connectionId: string) => Promise<void>;
+}